@@ -3,12 +3,15 @@ import {writeFile} from 'node:fs/promises'
 import {getDefaultConfigRepository} from 'project-roadmap-tracking/dist/repositories/config.repository.js'
 import {RoadmapRepository} from 'project-roadmap-tracking/dist/repositories/roadmap.repository.js'
 import errorHandlerService from 'project-roadmap-tracking/dist/services/error-handler.service.js'
+import queryExpressionService from 'project-roadmap-tracking/dist/services/query-expression.service.js'
 import taskQueryService, {
   FilterCriteria,
 } from 'project-roadmap-tracking/dist/services/task-query.service.js'
 import {readConfigFile} from 'project-roadmap-tracking/dist/util/read-config.js'
 import {readRoadmapFile} from 'project-roadmap-tracking/dist/util/read-roadmap.js'
-import {PRIORITY, STATUS, TASK_TYPE} from 'project-roadmap-tracking/dist/util/types.js'
+import {getTaskTypes, validateTaskType} from 'project-roadmap-tracking/dist/util/task-types.js'
+import {PRIORITY, STATUS} from 'project-roadmap-tracking/dist/util/types.js'
+import {getWorkflow} from 'project-roadmap-tracking/dist/util/workflow.js'
 
 import markdownExporterService, {MarkdownExportOptions} from '../services/markdown-exporter.service.js'
 
@@ -19,6 +22,7 @@ static override examples = [
     '<%= config.bin %> <%= command.id %> --minimal --no-completed',
     '<%= config.bin %> <%= command.id %> --group-by type --sort-by priority',
     '<%= config.bin %> <%= command.id %> --status in-progress --priority high',
+    '<%= config.bin %> <%= command.id %> --where "type = bug or tag:security"',
   ]
 static override flags = {
     // Grouping and sorting
@@ -67,9 +71,8 @@ static override flags = {
 
     status: Flags.string({
       char: 's',
-      description: 'filter tasks by status (can be used multiple times)',
+      description: 'filter tasks by status, including workflow statuses from .prtrc.json (can be used multiple times)',
       multiple: true,
-      options: ['completed', 'in-progress', 'not-started'],
     }),
 
     tags: Flags.string({
@@ -79,8 +82,7 @@ static override flags = {
 
     type: Flags.string({
       char: 't',
-      description: 'filter tasks by type',
-      options: ['bug', 'feature', 'improvement', 'planning', 'research'],
+      description: 'filter tasks by type, including taskTypes from .prtrc.json',
     }),
 
     verbose: Flags.boolean({
@@ -88,6 +90,11 @@ static override flags = {
       default: false,
       description: 'show detailed error information including stack traces',
     }),
+
+    where: Flags.string({
+      char: 'w',
+      description: 'filter tasks with an expression (same language as prt list --where)',
+    }),
   }
 // Priority mapping (same as list command)
   private static readonly priorityMap: Record<string, PRIORITY> = {
@@ -110,6 +117,8 @@ static override flags = {
         : await getDefaultConfigRepository().load()
 
       const roadmapPath = config.path
+      const taskTypes = getTaskTypes(config)
+      const workflow = getWorkflow(config)
 
       const roadmap = flags['no-repo']
         ? await readRoadmapFile(roadmapPath)
@@ -120,9 +129,9 @@ static override flags = {
 
       // Status filter
       if (flags.status && flags.status.length > 0) {
-        filterCriteria.status = flags.status as STATUS[]
+        filterCriteria.status = flags.status
       } else if (flags['no-completed']) {
-        filterCriteria.status = [STATUS.NotStarted, STATUS.InProgress]
+        filterCriteria.status = [...workflow.statuses.keys()].filter((status) => status !== STATUS.Completed)
       }
 
       // Priority filter
@@ -135,7 +144,8 @@ static override flags = {
 
       // Type filter
       if (flags.type) {
-        filterCriteria.type = flags.type as TASK_TYPE
+        validateTaskType(flags.type, taskTypes)
+        filterCriteria.type = flags.type
       }
 
       // Tags filter
@@ -145,11 +155,16 @@ static override flags = {
 
       // 3. APPLY FILTERS
       const hasFilters = Object.keys(filterCriteria).length > 0
-      const filteredTasks = hasFilters
+      const criteriaTasks = hasFilters
         ? // eslint-disable-next-line unicorn/no-array-callback-reference, unicorn/no-array-method-this-argument
           taskQueryService.filter(roadmap.tasks, filterCriteria)
         : roadmap.tasks
 
+      // Filter expression, combined with the flag filters above
+      const filteredTasks = flags.where
+        ? queryExpressionService.filter(criteriaTasks, flags.where, {taskTypes, workflow})
+        : criteriaTasks
+
       // Create filtered roadmap for export
       const filteredRoadmap = {
         ...roadmap,
@@ -162,6 +177,7 @@ static override flags = {
         includeCompletedTasks: !flags['no-completed'], // Will be handled by pre-filtering
         minimal: flags.minimal,
         taskSortBy: flags['sort-by'] as 'createdAt' | 'priority' | 'status' | 'type' | 'updatedAt',
+        workflow,
       }
 
       // 5. GENERATE MARKDOWN
@@ -1,6 +1,7 @@
 import roadmapService from 'project-roadmap-tracking/dist/services/roadmap.service.js'
 import taskQueryService, {SortOrder} from 'project-roadmap-tracking/dist/services/task-query.service.js'
 import {PRIORITY, Roadmap, STATUS, Task, TASK_TYPE} from 'project-roadmap-tracking/dist/util/types.js'
+import {DEFAULT_WORKFLOW, Workflow} from 'project-roadmap-tracking/dist/util/workflow.js'
 
 /**
  * Configuration options for markdown export
@@ -41,6 +42,12 @@ export interface MarkdownExportOptions {
    * @default 'priority'
    */
   taskSortBy?: 'createdAt' | 'priority' | 'status' | 'type' | 'updatedAt'
+
+  /**
+   * Workflow whose custom statuses get their own groups when grouping by status
+   * @default the built-in workflow
+   */
+  workflow?: Workflow
 }
 
 /**
@@ -146,8 +153,8 @@ export class MarkdownExporterService {
    * @param status - The task status to format
    * @returns Status symbol (✓, ~, ○)
    */
-  private formatStatusSymbol(status: STATUS): string {
-    const statusMap: Record<STATUS, string> = {
+  private formatStatusSymbol(status: string): string {
+    const statusMap: Record<string, string> = {
       [STATUS.Completed]: '✓',
       [STATUS.InProgress]: '~',
       [STATUS.NotStarted]: '○',
@@ -162,7 +169,7 @@ export class MarkdownExporterService {
    * @param status - The task status to format
    * @returns Status text (Completed, In Progress, Not Started)
    */
-  private formatStatusText(status: STATUS): string {
+  private formatStatusText(status: string): string {
     return status
       .split('-')
       .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
@@ -307,10 +314,10 @@ export class MarkdownExporterService {
    * Formats task type as human-readable text.
    *
    * @param type - The task type to format
-   * @returns Capitalized type name
+   * @returns Capitalized type name (custom types are returned as is)
    */
-  private formatTaskType(type: TASK_TYPE): string {
-    const typeMap: Record<TASK_TYPE, string> = {
+  private formatTaskType(type: string): string {
+    const typeMap: Record<string, string> = {
       [TASK_TYPE.Bug]: 'Bug',
       [TASK_TYPE.Feature]: 'Feature',
       [TASK_TYPE.Improvement]: 'Improvement',
@@ -449,16 +456,16 @@ export class MarkdownExporterService {
     const sortBy = options.taskSortBy || 'priority'
     const includeCompleted = options.includeCompletedTasks !== false
     const minimal = options.minimal || false
+    const workflow = options.workflow || DEFAULT_WORKFLOW
 
     // Filter tasks
     let {tasks} = roadmap
     if (!includeCompleted) {
-      // eslint-disable-next-line unicorn/no-array-callback-reference, unicorn/no-array-method-this-argument
-      tasks = taskQueryService.filter(tasks, {status: [STATUS.NotStarted, STATUS.InProgress]})
+      tasks = tasks.filter((task) => task.status !== STATUS.Completed)
     }
 
     // Group tasks by the specified field
-    const groups = this.groupTasks(tasks, groupBy)
+    const groups = this.groupTasks(tasks, groupBy, workflow)
 
     // Generate sections for each group
     const sections: string[] = []
@@ -481,9 +488,14 @@ export class MarkdownExporterService {
    *
    * @param tasks - The tasks to group
    * @param groupBy - Field to group by (status, type, or priority)
+   * @param workflow - Workflow whose statuses are grouped after the built-in ones
    * @returns Object mapping group names to task arrays
    */
-  private groupTasks(tasks: Array<Task>, groupBy: 'priority' | 'status' | 'type'): Record<string, Array<Task>> {
+  private groupTasks(
+    tasks: Array<Task>,
+    groupBy: 'priority' | 'status' | 'type',
+    workflow: Workflow,
+  ): Record<string, Array<Task>> {
     const groups: Record<string, Array<Task>> = {}
 
     switch (groupBy) {
@@ -502,6 +514,14 @@ export class MarkdownExporterService {
       groups['Not Started'] = taskQueryService.getByStatus(tasks, STATUS.NotStarted)
       groups['In Progress'] = taskQueryService.getByStatus(tasks, STATUS.InProgress)
       groups.Completed = taskQueryService.getByStatus(tasks, STATUS.Completed)
+
+      // Workflow statuses, then any others the tasks still have; built-in groups above are kept
+      const statuses = new Set(workflow.statuses.keys())
+      for (const task of tasks) statuses.add(task.status)
+      for (const status of statuses) {
+        const groupName = this.formatStatusText(status)
+        groups[groupName] ??= taskQueryService.getByStatus(tasks, status)
+      }
     
     break;
     }
@@ -512,6 +532,14 @@ export class MarkdownExporterService {
       groups.Improvements = taskQueryService.getByType(tasks, TASK_TYPE.Improvement)
       groups.Planning = taskQueryService.getByType(tasks, TASK_TYPE.Planning)
       groups.Research = taskQueryService.getByType(tasks, TASK_TYPE.Research)
+
+      // Custom task types from .prtrc.json, in the order they first appear
+      const builtInTypes = new Set<string>(Object.values(TASK_TYPE))
+      for (const type of new Set(tasks.map((task) => task.type))) {
+        if (!builtInTypes.has(type)) {
+          groups[this.formatTaskType(type)] = taskQueryService.getByType(tasks, type)
+        }
+      }
     
     break;
     }
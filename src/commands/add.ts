@@ -1,12 +1,17 @@
 import {Args, Command, Flags} from '@oclif/core'
 
 import {getDefaultConfigRepository} from '../repositories/config.repository.js'
+import {JournalRepository} from '../repositories/journal.repository.js'
 import {RoadmapRepository} from '../repositories/roadmap.repository.js'
 import errorHandlerService from '../services/error-handler.service.js'
+import journalService from '../services/journal.service.js'
 import taskService from '../services/task.service.js'
 import {readConfigFile} from '../util/read-config.js'
 import {readRoadmapFile} from '../util/read-roadmap.js'
-import {PRIORITY, STATUS, TASK_TYPE} from '../util/types.js'
+import {getTaskTypes} from '../util/task-types.js'
+import {PRIORITY, STATUS, TaskID} from '../util/types.js'
+import {validateTaskID} from '../util/validate-task-id.js'
+import {getWorkflow} from '../util/workflow.js'
 import {writeRoadmapFile} from '../util/write-roadmap.js'
 
 export default class Add extends Command {
@@ -14,15 +19,35 @@ export default class Add extends Command {
     title: Args.string({description: 'title of the task to add', required: true}),
   }
   static override description = 'add a new task to the roadmap'
-  static override examples = ['<%= config.bin %> <%= command.id %>']
+  static override examples = [
+    '<%= config.bin %> <%= command.id %>',
+    '<%= config.bin %> <%= command.id %> "Fix crash" --type=bug --details="Crash on start" --json',
+    '<%= config.bin %> <%= command.id %> "Update dependencies" --type=chore --details="Bump all packages"',
+    '<%= config.bin %> <%= command.id %> "Write login tests" --type=feature --details="Cover the login form" --parent=F-010',
+    '<%= config.bin %> <%= command.id %> "Release notes" --type=planning --details="Draft the notes" --milestone=v1.0',
+  ]
   static override flags = {
     // force: Flags.boolean({char: 'f'}),
     // name: Flags.string({char: 'n', description: 'name to print'}),
     details: Flags.string({char: 'd', description: 'description of the task to add', required: true}),
+    json: Flags.boolean({
+      char: 'j',
+      default: false,
+      description: 'output machine-readable JSON (shapes documented in schemas/output/v1.json)',
+    }),
+    milestone: Flags.string({
+      char: 'm',
+      description: 'ID of the milestone the task is planned for (see "prt milestone add")',
+      required: false,
+    }),
     'no-repo': Flags.boolean({
       default: false,
       description: 'use legacy direct file I/O instead of repository pattern',
     }),
+    parent: Flags.string({
+      description: 'ID of the task the new task is a subtask of',
+      required: false,
+    }),
     priority: Flags.string({
       char: 'p',
       default: PRIORITY.Medium,
@@ -33,8 +58,8 @@ export default class Add extends Command {
     status: Flags.string({
       char: 's',
       default: STATUS.NotStarted,
-      description: 'status of the task to add',
-      options: [STATUS.NotStarted, STATUS.InProgress, STATUS.Completed],
+      description:
+        'status of the task to add (not-started, in-progress, completed, or a workflow status from .prtrc.json)',
       required: false,
     }),
     tags: Flags.string({
@@ -44,8 +69,8 @@ export default class Add extends Command {
     }),
     type: Flags.string({
       char: 't',
-      description: 'type of the task to add',
-      options: [TASK_TYPE.Bug, TASK_TYPE.Feature, TASK_TYPE.Improvement, TASK_TYPE.Planning, TASK_TYPE.Research],
+      description:
+        'type of the task to add (bug, feature, improvement, planning, research, or a taskTypes entry in .prtrc.json)',
       required: true,
     }),
     verbose: Flags.boolean({
@@ -65,27 +90,45 @@ export default class Add extends Command {
       const roadmap = flags['no-repo']
         ? await readRoadmapFile(config.path)
         : await RoadmapRepository.fromConfig(config).load(config.path)
-      const taskType = flags.type as TASK_TYPE
+      const taskTypes = getTaskTypes(config)
+      const taskType = flags.type
+      if (flags.parent) {
+        validateTaskID(flags.parent, taskTypes)
+      }
 
-      const newTaskID = taskService.generateNextId(roadmap, taskType)
+      const newTaskID = taskService.generateNextId(roadmap, taskType, {taskTypes, width: config.idWidth})
 
       const newTask = taskService.createTask({
         details: flags.details,
         id: newTaskID,
+        milestone: flags.milestone,
+        parent: flags.parent as TaskID | undefined,
         priority: flags.priority as PRIORITY,
-        status: flags.status as STATUS,
+        status: flags.status,
         tags: flags.tags ? flags.tags.split(',').map((tag) => tag.trim()) : [],
         title: args.title,
         type: taskType,
       })
 
-      const updatedRoadmap = taskService.addTask(roadmap, newTask)
+      const updatedRoadmap = taskService.addTask(roadmap, newTask, {taskTypes, workflow: getWorkflow(config)})
 
       await (flags['no-repo']
         ? writeRoadmapFile(config.path, updatedRoadmap)
         : RoadmapRepository.fromConfig(config).save(config.path, updatedRoadmap))
+      await JournalRepository.fromConfig(config).record(
+        journalService.createEntry(roadmap, updatedRoadmap, journalService.formatCommand(this.id, this.argv)),
+      )
+
+      if (flags.json) {
+        this.log(JSON.stringify({id: newTaskID, task: newTask}, null, 2))
+      }
     } catch (error) {
       const exitCode = errorHandlerService.handleError(error)
+      if (flags.json) {
+        this.log(errorHandlerService.formatErrorJson(error))
+        this.exit(exitCode)
+      }
+
       this.error(errorHandlerService.formatErrorMessage(error, flags.verbose), {exit: exitCode})
     }
   }
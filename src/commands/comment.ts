@@ -0,0 +1,78 @@
+import {Args, Command, Flags} from '@oclif/core'
+
+import {getDefaultConfigRepository} from '../repositories/config.repository.js'
+import {JournalRepository} from '../repositories/journal.repository.js'
+import {RoadmapRepository} from '../repositories/roadmap.repository.js'
+import errorHandlerService from '../services/error-handler.service.js'
+import journalService from '../services/journal.service.js'
+import taskService from '../services/task.service.js'
+import {readConfigFile} from '../util/read-config.js'
+import {readRoadmapFile} from '../util/read-roadmap.js'
+import {writeRoadmapFile} from '../util/write-roadmap.js'
+
+export default class Comment extends Command {
+  static override args = {
+    taskID: Args.string({description: 'ID of the task to comment on', required: true}),
+    // eslint-disable-next-line perfectionist/sort-objects
+    body: Args.string({description: 'text of the comment', required: true}),
+  }
+  static override description =
+    "add a comment to a task's activity log, signed with PRT_USER or the OS user name and timestamped"
+  static override examples = [
+    '<%= config.bin %> <%= command.id %> F-001 "Waiting for the API review"',
+    'PRT_USER=alice <%= config.bin %> <%= command.id %> B-002 "Reproduced on Windows only" --json',
+  ]
+  static override flags = {
+    json: Flags.boolean({
+      char: 'j',
+      default: false,
+      description: 'output machine-readable JSON (shapes documented in schemas/output/v1.json)',
+    }),
+    'no-repo': Flags.boolean({
+      default: false,
+      description: 'use legacy direct file I/O instead of repository pattern',
+    }),
+    verbose: Flags.boolean({
+      char: 'v',
+      default: false,
+      description: 'show detailed error information including stack traces',
+    }),
+  }
+
+  public async run(): Promise<void> {
+    const {args, flags} = await this.parse(Comment)
+
+    try {
+      // Use repository pattern by default, unless --no-repo flag is set
+      const config = flags['no-repo'] ? await readConfigFile() : await getDefaultConfigRepository().load()
+      const roadmap = flags['no-repo']
+        ? await readRoadmapFile(config.path)
+        : await RoadmapRepository.fromConfig(config).load(config.path)
+
+      const updatedRoadmap = taskService.addComment(roadmap, args.taskID, args.body)
+
+      await (flags['no-repo']
+        ? writeRoadmapFile(config.path, updatedRoadmap)
+        : RoadmapRepository.fromConfig(config).save(config.path, updatedRoadmap))
+      await JournalRepository.fromConfig(config).record(
+        journalService.createEntry(roadmap, updatedRoadmap, journalService.formatCommand(this.id, this.argv)),
+      )
+
+      if (flags.json) {
+        const task = updatedRoadmap.tasks.find((t) => t.id === args.taskID)
+        this.log(JSON.stringify({id: args.taskID, task}, null, 2))
+        return
+      }
+
+      this.log(`Comment added to task ${args.taskID}.`)
+    } catch (error) {
+      const exitCode = errorHandlerService.handleError(error)
+      if (flags.json) {
+        this.log(errorHandlerService.formatErrorJson(error))
+        this.exit(exitCode)
+      }
+
+      this.error(errorHandlerService.formatErrorMessage(error, flags.verbose), {exit: exitCode})
+    }
+  }
+}
@@ -1,12 +1,16 @@
 import {Args, Command, Flags} from '@oclif/core'
 
 import {getDefaultConfigRepository} from '../repositories/config.repository.js'
+import {JournalRepository} from '../repositories/journal.repository.js'
 import {RoadmapRepository} from '../repositories/roadmap.repository.js'
 import errorHandlerService from '../services/error-handler.service.js'
+import journalService from '../services/journal.service.js'
+import taskDependencyService from '../services/task-dependency.service.js'
+import taskService from '../services/task.service.js'
 import {readConfigFile} from '../util/read-config.js'
 import {readRoadmapFile} from '../util/read-roadmap.js'
-import {STATUS} from '../util/types.js'
-import {updateTaskInRoadmap} from '../util/update-task.js'
+import {STATUS, Task} from '../util/types.js'
+import {getWorkflow, validateStatusChange} from '../util/workflow.js'
 import {writeRoadmapFile} from '../util/write-roadmap.js'
 
 export default class Complete extends Command {
@@ -14,14 +18,26 @@ export default class Complete extends Command {
     taskID: Args.string({description: 'ID of the task to complete', required: true}),
   }
   static override description = 'Mark a task as completed'
-  static override examples = ['<%= config.bin %> <%= command.id %> F-001 --tests']
+  static override examples = [
+    '<%= config.bin %> <%= command.id %> F-001 --tests',
+    '<%= config.bin %> <%= command.id %> F-001 --json',
+    '<%= config.bin %> <%= command.id %> F-002 --force',
+  ]
   static override flags = {
+    force: Flags.boolean({
+      char: 'f',
+      default: false,
+      description: 'complete the task even if tasks it depends on are unfinished (reported as a warning)',
+    }),
+    json: Flags.boolean({
+      char: 'j',
+      default: false,
+      description: 'output machine-readable JSON (shapes documented in schemas/output/v1.json)',
+    }),
     'no-repo': Flags.boolean({
       default: false,
       description: 'use legacy direct file I/O instead of repository pattern',
     }),
-    // flag with no value (-f, --force)
-    // force: Flags.boolean({char: 'f'}),
     // flag with a value (-n, --name=VALUE)
     // name: Flags.string({char: 'n', description: 'name to print'}),
     tests: Flags.boolean({char: 't', description: 'mark task as passes-tests'}),
@@ -42,26 +58,50 @@ export default class Complete extends Command {
         ? await readRoadmapFile(config.path)
         : await RoadmapRepository.fromConfig(config).load(config.path)
 
-      const updatedRoadmap = await updateTaskInRoadmap(
-        roadmap,
-        args.taskID,
-        flags.tests
-          ? {
-              'passes-tests': true,
-              status: STATUS.Completed,
-            }
-          : {
-              status: STATUS.Completed,
-            },
-      )
+      const updates: Partial<Task> = flags.tests
+        ? {
+            'passes-tests': true,
+            status: STATUS.Completed,
+          }
+        : {
+            status: STATUS.Completed,
+          }
+
+      const task = roadmap.tasks.find((t) => t.id === args.taskID)
+      if (task) {
+        validateStatusChange(task, updates, getWorkflow(config))
+        const warning = taskDependencyService.guardStatusChange(task, updates, roadmap.tasks, {
+          force: flags.force,
+          mode: config.dependencyGuard,
+        })
+        if (warning) {
+          this.warn(warning)
+        }
+      }
+
+      const updatedRoadmap = taskService.updateTask(roadmap, args.taskID, updates)
 
       await (flags['no-repo']
         ? writeRoadmapFile(config.path, updatedRoadmap)
         : RoadmapRepository.fromConfig(config).save(config.path, updatedRoadmap))
+      await JournalRepository.fromConfig(config).record(
+        journalService.createEntry(roadmap, updatedRoadmap, journalService.formatCommand(this.id, this.argv)),
+      )
+
+      if (flags.json) {
+        const task = updatedRoadmap.tasks.find((t) => t.id === args.taskID)
+        this.log(JSON.stringify({id: args.taskID, task}, null, 2))
+        return
+      }
 
       this.log(`Task ${args.taskID} marked as completed.`)
     } catch (error) {
       const exitCode = errorHandlerService.handleError(error)
+      if (flags.json) {
+        this.log(errorHandlerService.formatErrorJson(error))
+        this.exit(exitCode)
+      }
+
       this.error(errorHandlerService.formatErrorMessage(error, flags.verbose), {exit: exitCode})
     }
   }
@@ -0,0 +1,76 @@
+import {Command, Flags} from '@oclif/core'
+
+import {getDefaultConfigRepository} from '../repositories/config.repository.js'
+import {RoadmapRepository} from '../repositories/roadmap.repository.js'
+import {DisplayService} from '../services/display.service.js'
+import errorHandlerService from '../services/error-handler.service.js'
+import scheduleService from '../services/schedule.service.js'
+import {readConfigFile} from '../util/read-config.js'
+import {readRoadmapFile} from '../util/read-roadmap.js'
+
+export default class CriticalPath extends Command {
+  static override description =
+    'show the longest effort-weighted chain of remaining tasks, the slack of every task, and tasks whose dependencies make their due date impossible (effort is counted in days)'
+  static override examples = [
+    '<%= config.bin %> <%= command.id %>',
+    '<%= config.bin %> <%= command.id %> --default-effort=1',
+    '<%= config.bin %> <%= command.id %> --start=2026-11-01',
+  ]
+  static override flags = {
+    'default-effort': Flags.string({
+      char: 'e',
+      default: '0',
+      description: 'effort assumed for tasks without an estimate (non-negative number)',
+    }),
+    'no-repo': Flags.boolean({
+      default: false,
+      description: 'use legacy direct file I/O instead of repository pattern',
+    }),
+    start: Flags.string({
+      char: 's',
+      description: 'date the remaining work starts, used to check due dates (default: today)',
+    }),
+    verbose: Flags.boolean({
+      char: 'v',
+      default: false,
+      description: 'show detailed error information including stack traces',
+    }),
+  }
+
+  public async run(): Promise<void> {
+    const {flags} = await this.parse(CriticalPath)
+
+    try {
+      const defaultEffort = Number(flags['default-effort'])
+      if (flags['default-effort'].trim() === '' || Number.isNaN(defaultEffort) || defaultEffort < 0) {
+        this.error(`Invalid default effort: ${flags['default-effort']}. Must be a non-negative number`)
+      }
+
+      let startDate: Date | undefined
+      if (flags.start !== undefined) {
+        const timestamp = Date.parse(flags.start)
+        if (Number.isNaN(timestamp)) {
+          this.error(`Invalid start date: ${flags.start}`)
+        }
+
+        startDate = new Date(timestamp)
+      }
+
+      // Use repository pattern by default, unless --no-repo flag is set
+      const config = flags['no-repo'] ? await readConfigFile() : await getDefaultConfigRepository().load()
+      const roadmap = flags['no-repo']
+        ? await readRoadmapFile(config.path)
+        : await RoadmapRepository.fromConfig(config).load(config.path)
+
+      const analysis = scheduleService.analyze(roadmap.tasks, {defaultEffort, startDate})
+
+      const lines = DisplayService.fromConfig(config).formatScheduleAnalysis(analysis)
+      for (const line of lines) {
+        this.log(line)
+      }
+    } catch (error) {
+      const exitCode = errorHandlerService.handleError(error)
+      this.error(errorHandlerService.formatErrorMessage(error, flags.verbose), {exit: exitCode})
+    }
+  }
+}
@@ -0,0 +1,58 @@
+import {Args, Command, Flags} from '@oclif/core'
+
+import {getDefaultConfigRepository} from '../../repositories/config.repository.js'
+import {JournalRepository} from '../../repositories/journal.repository.js'
+import {RoadmapRepository} from '../../repositories/roadmap.repository.js'
+import errorHandlerService from '../../services/error-handler.service.js'
+import journalService from '../../services/journal.service.js'
+import taskService from '../../services/task.service.js'
+import {readConfigFile} from '../../util/read-config.js'
+import {readRoadmapFile} from '../../util/read-roadmap.js'
+import {writeRoadmapFile} from '../../util/write-roadmap.js'
+
+export default class DepAdd extends Command {
+  static override args = {
+    taskID: Args.string({description: 'ID of the task that gains the dependency', required: true}),
+    // eslint-disable-next-line perfectionist/sort-objects
+    dependsOn: Args.string({description: 'ID of the task it depends on', required: true}),
+  }
+  static override description = 'Add a dependency between two tasks, keeping depends-on and blocks in sync'
+  static override examples = ['<%= config.bin %> <%= command.id %> F-002 F-001']
+  static override flags = {
+    'no-repo': Flags.boolean({
+      default: false,
+      description: 'use legacy direct file I/O instead of repository pattern',
+    }),
+    verbose: Flags.boolean({
+      char: 'v',
+      default: false,
+      description: 'show detailed error information including stack traces',
+    }),
+  }
+
+  public async run(): Promise<void> {
+    const {args, flags} = await this.parse(DepAdd)
+
+    try {
+      // Use repository pattern by default, unless --no-repo flag is set
+      const config = flags['no-repo'] ? await readConfigFile() : await getDefaultConfigRepository().load()
+      const roadmap = flags['no-repo']
+        ? await readRoadmapFile(config.path)
+        : await RoadmapRepository.fromConfig(config).load(config.path)
+
+      const updatedRoadmap = taskService.addDependency(roadmap, args.taskID, args.dependsOn)
+
+      await (flags['no-repo']
+        ? writeRoadmapFile(config.path, updatedRoadmap)
+        : RoadmapRepository.fromConfig(config).save(config.path, updatedRoadmap))
+      await JournalRepository.fromConfig(config).record(
+        journalService.createEntry(roadmap, updatedRoadmap, journalService.formatCommand(this.id, this.argv)),
+      )
+
+      this.log(`Task ${args.taskID} now depends on ${args.dependsOn}.`)
+    } catch (error) {
+      const exitCode = errorHandlerService.handleError(error)
+      this.error(errorHandlerService.formatErrorMessage(error, flags.verbose), {exit: exitCode})
+    }
+  }
+}
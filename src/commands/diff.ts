@@ -0,0 +1,115 @@
+import {Args, Command, Flags} from '@oclif/core'
+import {stat} from 'node:fs/promises'
+
+import {getDefaultConfigRepository} from '../repositories/config.repository.js'
+import {RoadmapRepository} from '../repositories/roadmap.repository.js'
+import errorHandlerService from '../services/error-handler.service.js'
+import roadmapDiffService from '../services/roadmap-diff.service.js'
+import {readFileAtRevision} from '../util/git.js'
+import {readConfigFile} from '../util/read-config.js'
+import {readRoadmapFile} from '../util/read-roadmap.js'
+import {Config, Roadmap} from '../util/types.js'
+
+const WORKING_TREE = 'working tree'
+
+export default class Diff extends Command {
+  static override args = {
+    from: Args.string({description: 'git revision or file path of the older roadmap (default: HEAD)'}),
+    to: Args.string({description: 'git revision or file path of the newer roadmap (default: the working tree)'}),
+  }
+  static override description =
+    'show a semantic changelog between two versions of the roadmap: tasks added, removed and renamed, status changes, dependency edges and field changes'
+  static override examples = [
+    '<%= config.bin %> <%= command.id %>',
+    '<%= config.bin %> <%= command.id %> main',
+    '<%= config.bin %> <%= command.id %> origin/main HEAD --format=markdown',
+    '<%= config.bin %> <%= command.id %> old/prt.json prt.json --json',
+  ]
+  static override flags = {
+    format: Flags.string({
+      default: 'text',
+      description: 'output format (markdown for pull request comments)',
+      options: ['markdown', 'text'],
+    }),
+    json: Flags.boolean({
+      char: 'j',
+      default: false,
+      description: 'output machine-readable JSON (shapes documented in schemas/output/v1.json)',
+    }),
+    'no-repo': Flags.boolean({
+      default: false,
+      description: 'use legacy direct file I/O instead of repository pattern',
+    }),
+    verbose: Flags.boolean({
+      char: 'v',
+      default: false,
+      description: 'show detailed error information including stack traces',
+    }),
+  }
+
+  public async run(): Promise<void> {
+    const {args, flags} = await this.parse(Diff)
+
+    try {
+      // Use repository pattern by default, unless --no-repo flag is set
+      const config = flags['no-repo'] ? await readConfigFile() : await getDefaultConfigRepository().load()
+      const from = args.from ?? 'HEAD'
+      const to = args.to ?? WORKING_TREE
+
+      const before = await this.loadRoadmap(from, config, flags['no-repo'])
+      const after = await this.loadRoadmap(to, config, flags['no-repo'])
+      const diff = roadmapDiffService.diff(before, after)
+
+      if (flags.json) {
+        this.log(JSON.stringify({from, to, ...diff}, null, 2))
+        return
+      }
+
+      this.log(
+        flags.format === 'markdown'
+          ? roadmapDiffService.renderMarkdown(diff, {from, to})
+          : roadmapDiffService.renderText(diff, {from, to}),
+      )
+    } catch (error) {
+      const exitCode = errorHandlerService.handleError(error)
+      if (flags.json) {
+        this.log(errorHandlerService.formatErrorJson(error))
+        this.exit(exitCode)
+      }
+
+      this.error(errorHandlerService.formatErrorMessage(error, flags.verbose), {exit: exitCode})
+    }
+  }
+
+  /**
+   * Loads one side of the diff: the working tree, a roadmap file, or the configured roadmap in a git revision.
+   * An argument naming an existing file is read as a file; anything else is passed to git.
+   */
+  private async loadRoadmap(source: string, config: Config, noRepo: boolean): Promise<Roadmap> {
+    if (source === WORKING_TREE) {
+      return noRepo ? readRoadmapFile(config.path) : RoadmapRepository.fromConfig(config).load(config.path)
+    }
+
+    const isFile = await stat(source).then(
+      (stats) => stats.isFile(),
+      () => false,
+    )
+
+    let roadmap: Roadmap
+    try {
+      roadmap = isFile ? await readRoadmapFile(source) : JSON.parse(await readFileAtRevision(config.path, source))
+    } catch (error) {
+      if (error instanceof SyntaxError) {
+        this.error(`${source} does not contain a valid roadmap: ${error.message}`)
+      }
+
+      throw error
+    }
+
+    if (!Array.isArray(roadmap?.tasks)) {
+      this.error(`${source} does not contain a valid roadmap: no tasks array`)
+    }
+
+    return roadmap
+  }
+}
@@ -0,0 +1,299 @@
+import {Args, Command, Flags, Interfaces} from '@oclif/core'
+
+import {getDefaultConfigRepository} from '../repositories/config.repository.js'
+import {JournalRepository} from '../repositories/journal.repository.js'
+import {RoadmapRepository} from '../repositories/roadmap.repository.js'
+import errorHandlerService from '../services/error-handler.service.js'
+import journalService from '../services/journal.service.js'
+import taskDependencyService from '../services/task-dependency.service.js'
+import taskService, {TaskEdits, TaskListField} from '../services/task.service.js'
+import {readConfigFile} from '../util/read-config.js'
+import {readRoadmapFile} from '../util/read-roadmap.js'
+import {getTaskTypes, TaskTypeRegistry} from '../util/task-types.js'
+import {PRIORITY} from '../util/types.js'
+import {validateTaskID} from '../util/validate-task-id.js'
+import {getWorkflow} from '../util/workflow.js'
+import {writeRoadmapFile} from '../util/write-roadmap.js'
+
+export default class Edit extends Command {
+  static override args = {
+    taskID: Args.string({description: 'ID of the task to edit', required: true}),
+  }
+  static override description = 'Edit any field of a task'
+  static override examples = [
+    '<%= config.bin %> <%= command.id %> F-001 --title="New title" --priority=high',
+    '<%= config.bin %> <%= command.id %> F-001 --add-tag=backend --remove-tag=frontend',
+    '<%= config.bin %> <%= command.id %> F-001 --assignee=alice --due=2026-11-01 --effort=3',
+    '<%= config.bin %> <%= command.id %> F-001 --add-ref=#42 --unset=dueDate',
+    '<%= config.bin %> <%= command.id %> F-001 --milestone=v1.0',
+    '<%= config.bin %> <%= command.id %> F-001 --sprint=2026-s22',
+    '<%= config.bin %> <%= command.id %> F-011 --parent=F-010',
+    '<%= config.bin %> <%= command.id %> F-002 --status=completed --force',
+  ]
+  static override flags = {
+    'add-block': Flags.string({
+      description: 'add a task that this task blocks (also added to its depends-on)',
+      multiple: true,
+    }),
+    'add-dep': Flags.string({
+      description: 'add a task that this task depends on (also added to its blocks)',
+      multiple: true,
+    }),
+    'add-ref': Flags.string({description: 'add a GitHub reference (issue or PR)', multiple: true}),
+    'add-tag': Flags.string({description: 'add a tag', multiple: true}),
+    assignee: Flags.string({char: 'a', description: 'set the person assigned to the task'}),
+    details: Flags.string({char: 'd', description: 'set the description of the task'}),
+    due: Flags.string({description: 'set the due date of the task (any date parseable by Date, e.g. 2026-11-01)'}),
+    effort: Flags.string({char: 'e', description: 'set the estimated effort of the task (non-negative number)'}),
+    force: Flags.boolean({
+      char: 'f',
+      default: false,
+      description: 'set --status=completed even if tasks it depends on are unfinished (reported as a warning)',
+    }),
+    milestone: Flags.string({char: 'm', description: 'plan the task for a milestone (see "prt milestone add")'}),
+    'no-repo': Flags.boolean({
+      default: false,
+      description: 'use legacy direct file I/O instead of repository pattern',
+    }),
+    notes: Flags.string({
+      char: 'n',
+      description: 'replace the legacy free-text notes of the task (use prt comment to add comments)',
+    }),
+    parent: Flags.string({
+      description: 'make the task a subtask of another task (not itself or one of its own subtasks)',
+    }),
+    priority: Flags.string({
+      char: 'p',
+      description: 'set the priority of the task',
+      options: [PRIORITY.High, PRIORITY.Medium, PRIORITY.Low],
+    }),
+    'remove-block': Flags.string({
+      description: 'remove a task from the blocks list (and this task from its depends-on)',
+      multiple: true,
+    }),
+    'remove-dep': Flags.string({
+      description: 'remove a task from the depends-on list (and this task from its blocks)',
+      multiple: true,
+    }),
+    'remove-ref': Flags.string({description: 'remove a GitHub reference', multiple: true}),
+    'remove-tag': Flags.string({description: 'remove a tag', multiple: true}),
+    sprint: Flags.string({description: 'commit the task to a sprint (see "prt sprint add")'}),
+    status: Flags.string({
+      char: 's',
+      description: 'set the status of the task (must be a transition the workflow in .prtrc.json allows)',
+    }),
+    tags: Flags.string({char: 'g', description: 'replace all tags (comma-separated list)'}),
+    tested: Flags.string({
+      char: 't',
+      description: 'set whether the task passes tests',
+      options: ['true', 'false'],
+    }),
+    title: Flags.string({description: 'set the title of the task'}),
+    type: Flags.string({
+      description:
+        'set the task type, built-in or from taskTypes in .prtrc.json (reassigns task ID and cascades to all references)',
+    }),
+    unset: Flags.string({
+      description: 'clear an optional field',
+      multiple: true,
+      options: ['assignedTo', 'dueDate', 'effort', 'github-refs', 'milestone', 'notes', 'parent', 'sprint'],
+    }),
+    verbose: Flags.boolean({
+      char: 'v',
+      default: false,
+      description: 'show detailed error information including stack traces',
+    }),
+  }
+
+  public async run(): Promise<void> {
+    const {args, flags} = await this.parse(Edit)
+
+    try {
+      // Use repository pattern by default, unless --no-repo flag is set
+      const config = flags['no-repo'] ? await readConfigFile() : await getDefaultConfigRepository().load()
+      const taskTypes = getTaskTypes(config)
+      const edits = this.buildEdits(flags, taskTypes)
+      const hasEdits = Boolean((edits.set && Object.keys(edits.set).length > 0) || edits.add || edits.remove)
+
+      if (!hasEdits && !flags.type) {
+        this.error('No changes specified. Run with --help to see the editable fields.')
+      }
+
+      const roadmap = flags['no-repo']
+        ? await readRoadmapFile(config.path)
+        : await RoadmapRepository.fromConfig(config).load(config.path)
+
+      let updatedRoadmap = hasEdits
+        ? taskService.editTask(roadmap, args.taskID, edits, {taskTypes, workflow: getWorkflow(config)})
+        : roadmap
+
+      // Guard against the edited task, so dependencies added in the same edit count too
+      const task = taskService.findTask(roadmap, args.taskID)
+      const editedTask = taskService.findTask(updatedRoadmap, args.taskID)
+      if (task && editedTask) {
+        const warning = taskDependencyService.guardStatusChange(task, editedTask, updatedRoadmap.tasks, {
+          force: flags.force,
+          mode: config.dependencyGuard,
+        })
+        if (warning) {
+          this.warn(warning)
+        }
+      }
+
+      let newTaskId = args.taskID
+
+      // Type changes reassign the ID, so they are applied last
+      if (flags.type) {
+        const result = taskService.updateTaskType(updatedRoadmap, args.taskID, flags.type, {
+          taskTypes,
+          width: config.idWidth,
+        })
+        updatedRoadmap = result.roadmap
+        newTaskId = result.newTaskId
+      }
+
+      await (flags['no-repo']
+        ? writeRoadmapFile(config.path, updatedRoadmap)
+        : RoadmapRepository.fromConfig(config).save(config.path, updatedRoadmap))
+      await JournalRepository.fromConfig(config).record(
+        journalService.createEntry(roadmap, updatedRoadmap, journalService.formatCommand(this.id, this.argv)),
+      )
+
+      this.log(`Task ${args.taskID} has been updated.`)
+      if (newTaskId !== args.taskID) {
+        this.log(`Task ${args.taskID} has new ID ${newTaskId}. All task references have been updated.`)
+      }
+    } catch (error) {
+      const exitCode = errorHandlerService.handleError(error)
+      this.error(errorHandlerService.formatErrorMessage(error, flags.verbose), {exit: exitCode})
+    }
+  }
+
+  /**
+   * Translates the parsed flags into a TaskEdits object, validating raw input along the way.
+   */
+  // eslint-disable-next-line complexity
+  private buildEdits(flags: Interfaces.InferredFlags<typeof Edit.flags>, taskTypes: TaskTypeRegistry): TaskEdits {
+    const set: NonNullable<TaskEdits['set']> = {}
+
+    if (flags.title !== undefined) {
+      if (flags.title.trim() === '') {
+        this.error('Title cannot be empty')
+      }
+
+      set.title = flags.title
+    }
+
+    if (flags.details !== undefined) {
+      set.details = flags.details
+    }
+
+    if (flags.priority) {
+      set.priority = flags.priority as PRIORITY
+    }
+
+    if (flags.status) {
+      set.status = flags.status
+    }
+
+    if (flags.tested) {
+      set['passes-tests'] = flags.tested === 'true'
+    }
+
+    if (flags.notes !== undefined) {
+      set.notes = flags.notes
+    }
+
+    if (flags.assignee !== undefined) {
+      set.assignedTo = flags.assignee
+    }
+
+    if (flags.milestone !== undefined) {
+      set.milestone = flags.milestone
+    }
+
+    if (flags.sprint !== undefined) {
+      set.sprint = flags.sprint
+    }
+
+    if (flags.parent !== undefined) {
+      try {
+        validateTaskID(flags.parent, taskTypes)
+      } catch {
+        this.error(`Invalid parent task ID: ${flags.parent}`)
+      }
+
+      set.parent = flags.parent
+    }
+
+    if (flags.tags !== undefined) {
+      set.tags = splitList(flags.tags)
+    }
+
+    if (flags.due !== undefined) {
+      const timestamp = Date.parse(flags.due)
+      if (Number.isNaN(timestamp)) {
+        this.error(`Invalid due date: ${flags.due}`)
+      }
+
+      set.dueDate = new Date(timestamp).toISOString()
+    }
+
+    if (flags.effort !== undefined) {
+      const effort = Number(flags.effort)
+      if (flags.effort.trim() === '' || Number.isNaN(effort) || effort < 0) {
+        this.error(`Invalid effort: ${flags.effort}. Must be a non-negative number`)
+      }
+
+      set.effort = effort
+    }
+
+    for (const field of flags.unset ?? []) {
+      if (field === 'github-refs') {
+        set['github-refs'] = []
+      } else {
+        set[field as 'assignedTo' | 'dueDate' | 'effort' | 'milestone' | 'notes' | 'parent' | 'sprint'] = null
+      }
+    }
+
+    const add: Partial<Record<TaskListField, string[]>> = {}
+    const remove: Partial<Record<TaskListField, string[]>> = {}
+    const listFlags: Array<[TaskListField, string[] | undefined, string[] | undefined]> = [
+      ['blocks', flags['add-block'], flags['remove-block']],
+      ['depends-on', flags['add-dep'], flags['remove-dep']],
+      ['github-refs', flags['add-ref'], flags['remove-ref']],
+      ['tags', flags['add-tag'], flags['remove-tag']],
+    ]
+
+    for (const [field, toAdd, toRemove] of listFlags) {
+      if (toAdd) {
+        add[field] = toAdd.flatMap((value) => splitList(value))
+      }
+
+      if (toRemove) {
+        remove[field] = toRemove.flatMap((value) => splitList(value))
+      }
+    }
+
+    for (const id of [...(add.blocks ?? []), ...(add['depends-on'] ?? [])]) {
+      try {
+        validateTaskID(id, taskTypes)
+      } catch {
+        this.error(`Invalid task ID in dependencies: ${id}`)
+      }
+    }
+
+    return {
+      ...(Object.keys(add).length > 0 && {add}),
+      ...(Object.keys(remove).length > 0 && {remove}),
+      set,
+    }
+  }
+}
+
+function splitList(value: string): string[] {
+  return value
+    .split(',')
+    .map((item) => item.trim())
+    .filter((item) => item !== '')
+}
@@ -0,0 +1,77 @@
+import {Command, Flags} from '@oclif/core'
+
+import {getDefaultConfigRepository} from '../repositories/config.repository.js'
+import {RoadmapRepository} from '../repositories/roadmap.repository.js'
+import errorHandlerService from '../services/error-handler.service.js'
+import graphRenderService, {GraphDirection, GraphFormat} from '../services/graph-render.service.js'
+import {readConfigFile} from '../util/read-config.js'
+import {readRoadmapFile} from '../util/read-roadmap.js'
+import {getTaskTypes} from '../util/task-types.js'
+import {validateTaskID} from '../util/validate-task-id.js'
+
+export default class Graph extends Command {
+  static override description = 'render the task dependency graph as an ASCII tree, Graphviz DOT or a Mermaid flowchart'
+  static override examples = [
+    '<%= config.bin %> <%= command.id %>',
+    '<%= config.bin %> <%= command.id %> --format=dot | dot -Tsvg > roadmap.svg',
+    '<%= config.bin %> <%= command.id %> --format=mermaid --hide-completed',
+    '<%= config.bin %> <%= command.id %> --focus=F-003 --direction=upstream',
+  ]
+  static override flags = {
+    direction: Flags.string({
+      char: 'd',
+      dependsOn: ['focus'],
+      description:
+        'with --focus, include the tasks it depends on (upstream), the tasks depending on it (downstream), or both (default)',
+      options: ['both', 'downstream', 'upstream'],
+    }),
+    focus: Flags.string({char: 'f', description: 'only show the subgraph connected to this task ID'}),
+    format: Flags.string({
+      default: 'ascii',
+      description: 'output format',
+      options: ['ascii', 'dot', 'mermaid'],
+    }),
+    'hide-completed': Flags.boolean({default: false, description: 'leave completed tasks out of the graph'}),
+    'no-repo': Flags.boolean({
+      default: false,
+      description: 'use legacy direct file I/O instead of repository pattern',
+    }),
+    verbose: Flags.boolean({
+      char: 'v',
+      default: false,
+      description: 'show detailed error information including stack traces',
+    }),
+  }
+
+  public async run(): Promise<void> {
+    const {flags} = await this.parse(Graph)
+
+    try {
+      // Use repository pattern by default, unless --no-repo flag is set
+      const config = flags['no-repo'] ? await readConfigFile() : await getDefaultConfigRepository().load()
+      const focus = flags.focus?.trim()
+      if (focus !== undefined) {
+        try {
+          validateTaskID(focus, getTaskTypes(config))
+        } catch {
+          this.error(`Invalid task ID for --focus: ${focus}`)
+        }
+      }
+
+      const roadmap = flags['no-repo']
+        ? await readRoadmapFile(config.path)
+        : await RoadmapRepository.fromConfig(config).load(config.path)
+
+      const tasks = graphRenderService.selectTasks(roadmap.tasks, {
+        direction: flags.direction as GraphDirection | undefined,
+        focus,
+        hideCompleted: flags['hide-completed'],
+      })
+
+      this.log(graphRenderService.render(tasks, flags.format as GraphFormat))
+    } catch (error) {
+      const exitCode = errorHandlerService.handleError(error)
+      this.error(errorHandlerService.formatErrorMessage(error, flags.verbose), {exit: exitCode})
+    }
+  }
+}
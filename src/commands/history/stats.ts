@@ -0,0 +1,93 @@
+import {Command, Flags} from '@oclif/core'
+
+import {getDefaultConfigRepository} from '../../repositories/config.repository.js'
+import errorHandlerService from '../../services/error-handler.service.js'
+import historyRenderService, {
+  HISTORY_METRICS,
+  HistoryFormat,
+  HistoryMetric,
+} from '../../services/history-render.service.js'
+import historyService from '../../services/history.service.js'
+import {readFileHistory} from '../../util/git.js'
+import {readConfigFile} from '../../util/read-config.js'
+
+export default class HistoryStats extends Command {
+  static override description =
+    'chart burndown, burnup, throughput and cycle time per type from the git history of the roadmap file'
+  static override examples = [
+    '<%= config.bin %> <%= command.id %>',
+    '<%= config.bin %> <%= command.id %> --metric=burndown --effort --since=2026-09-01',
+    '<%= config.bin %> <%= command.id %> --metric=throughput --format=csv > throughput.csv',
+  ]
+  static override flags = {
+    effort: Flags.boolean({
+      default: false,
+      description: 'measure burndown and burnup in effort instead of task counts',
+    }),
+    format: Flags.string({
+      default: 'ascii',
+      description: 'output format',
+      options: ['ascii', 'csv'],
+    }),
+    json: Flags.boolean({
+      char: 'j',
+      default: false,
+      description: 'output machine-readable JSON (shapes documented in schemas/output/v1.json)',
+    }),
+    metric: Flags.string({
+      char: 'm',
+      description: 'metric to report (repeatable; default: all)',
+      multiple: true,
+      options: HISTORY_METRICS,
+    }),
+    'no-repo': Flags.boolean({
+      default: false,
+      description: 'use legacy direct file I/O instead of repository pattern',
+    }),
+    since: Flags.string({
+      char: 's',
+      description: 'only use commits made on or after this date (e.g. 2026-09-01 or "4 weeks ago")',
+    }),
+    verbose: Flags.boolean({
+      char: 'v',
+      default: false,
+      description: 'show detailed error information including stack traces',
+    }),
+  }
+
+  public async run(): Promise<void> {
+    const {flags} = await this.parse(HistoryStats)
+
+    try {
+      // Use repository pattern by default, unless --no-repo flag is set
+      const config = flags['no-repo'] ? await readConfigFile() : await getDefaultConfigRepository().load()
+      const revisions = historyService.parseRevisions(await readFileHistory(config.path, {since: flags.since}))
+      if (revisions.length === 0) {
+        this.error(`No committed versions of ${config.path} found in git history`)
+      }
+
+      const stats = historyService.getStats(revisions, new Date())
+
+      if (flags.json) {
+        this.log(JSON.stringify(stats, null, 2))
+        return
+      }
+
+      this.log(
+        historyRenderService.render(stats, {
+          effort: flags.effort,
+          format: flags.format as HistoryFormat,
+          metrics: flags.metric as HistoryMetric[] | undefined,
+        }),
+      )
+    } catch (error) {
+      const exitCode = errorHandlerService.handleError(error)
+      if (flags.json) {
+        this.log(errorHandlerService.formatErrorJson(error))
+        this.exit(exitCode)
+      }
+
+      this.error(errorHandlerService.formatErrorMessage(error, flags.verbose), {exit: exitCode})
+    }
+  }
+}
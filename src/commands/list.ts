@@ -2,116 +2,102 @@ import {/* Args, */ Command, Flags} from '@oclif/core'
 
 import {getDefaultConfigRepository} from '../repositories/config.repository.js'
 import {RoadmapRepository} from '../repositories/roadmap.repository.js'
-import displayService from '../services/display.service.js'
+import {DisplayService} from '../services/display.service.js'
 import errorHandlerService from '../services/error-handler.service.js'
-import taskQueryService, {FilterCriteria, SortOrder} from '../services/task-query.service.js'
+import viewService from '../services/view.service.js'
+import {listViewFlags, viewFromFlags} from '../util/list-flags.js'
 import {readConfigFile} from '../util/read-config.js'
 import {readRoadmapFile} from '../util/read-roadmap.js'
-import {PRIORITY, STATUS} from '../util/types.js'
+import {getTaskTypes} from '../util/task-types.js'
+import {getWorkflow} from '../util/workflow.js'
 
 export default class List extends Command {
   static override args = {
     // file: Args.string({description: 'file to read'}),
   }
   static override description = 'list tasks in the project roadmap'
-  static override examples = ['<%= config.bin %> <%= command.id %> -p=h --incomplete --sort=createdAt']
+  static override examples = [
+    '<%= config.bin %> <%= command.id %> -p=h --incomplete --sort=createdAt',
+    '<%= config.bin %> <%= command.id %> --status=in-progress --json',
+    '<%= config.bin %> <%= command.id %> --type=bug,feature --priority=high,medium --tag=backend',
+    '<%= config.bin %> <%= command.id %> --assignee=alice --search=login --no-has-deps',
+    '<%= config.bin %> <%= command.id %> --sort=priority:desc,dueDate',
+    '<%= config.bin %> <%= command.id %> --sort=updatedAt --desc',
+    `<%= config.bin %> <%= command.id %> --where="status != completed and (type = bug or tag:security) and due < 2026-11-01"`,
+    '<%= config.bin %> <%= command.id %> --format=compact',
+    '<%= config.bin %> <%= command.id %> --format=table --columns=id,title,status,assignee,due',
+    '<%= config.bin %> <%= command.id %> --view=standup --assignee=alice',
+    '<%= config.bin %> <%= command.id %> --tree --format=compact',
+  ]
   static override flags = {
     // flag with no value (-f, --force)
     // force: Flags.boolean({char: 'f'}),
     // flag with a value (-n, --name=VALUE)
     // name: Flags.string({char: 'n', description: 'name to print'}),
-    incomplete: Flags.boolean({char: 'i', description: 'filter tasks to show in-progress and not-started only'}),
+    ...listViewFlags,
+    json: Flags.boolean({
+      char: 'j',
+      default: false,
+      description: 'output machine-readable JSON (shapes documented in schemas/output/v1.json)',
+    }),
     'no-repo': Flags.boolean({
       default: false,
       description: 'use legacy direct file I/O instead of repository pattern',
     }),
-    priority: Flags.string({
-      char: 'p',
-      description: 'filter tasks by priority (high, medium, low)',
-      options: ['high', 'medium', 'low', 'h', 'm', 'l'],
-    }),
-    sort: Flags.string({
-      char: 'o',
-      description: 'sort tasks by field (dueDate, priority, createdAt)',
-      options: ['dueDate', 'priority', 'createdAt'],
-    }),
-    status: Flags.string({
-      char: 's',
-      description: 'filter tasks by status (completed, in-progress, not-started)',
-      options: ['completed', 'in-progress', 'not-started'],
-    }),
     verbose: Flags.boolean({
       char: 'v',
       default: false,
       description: 'show detailed error information including stack traces',
     }),
-  }
-  private static readonly priorityMap: Record<string, PRIORITY> = {
-    h: PRIORITY.High,
-    high: PRIORITY.High,
-    l: PRIORITY.Low,
-    low: PRIORITY.Low,
-    m: PRIORITY.Medium,
-    medium: PRIORITY.Medium,
+    view: Flags.string({
+      description: 'start from a view saved with "prt view save"; other flags override its options',
+    }),
   }
 
   public async run(): Promise<void> {
     const {flags} = await this.parse(List)
 
     try {
-      const incompleteOnly = flags.incomplete ?? false
-      const priority = (flags.priority ?? null) as 'h' | 'high' | 'l' | 'low' | 'm' | 'medium' | null
-      const sortBy = (flags.sort ?? null) as 'createdAt' | 'dueDate' | 'priority' | null
-      const statusFilter = (flags.status ?? null) as null | STATUS
-
-      const priorityFilter = (priority ? List.priorityMap[priority] : null) as null | PRIORITY
-
-      // if statusFilter is set, it overrides incompleteOnly
-      const effectiveStatusFilter: STATUS[] = statusFilter
-        ? [statusFilter]
-        : incompleteOnly
-          ? (['in-progress', 'not-started'] as STATUS[])
-          : (['completed', 'in-progress', 'not-started'] as STATUS[])
-
       // Use repository pattern by default, unless --no-repo flag is set
       const config = flags['no-repo'] ? await readConfigFile() : await getDefaultConfigRepository().load()
 
+      // Flags given on the command line override the saved view's options
+      const view =
+        flags.view === undefined
+          ? viewFromFlags(flags)
+          : viewService.merge(viewService.resolve(config, flags.view), viewFromFlags(flags))
+
+      // Check statuses, task types, columns, sort keys and --where before loading the roadmap
+      const options = {taskTypes: getTaskTypes(config), workflow: getWorkflow(config)}
+      viewService.validate(view, options)
+
       const roadmapPath = config.path
 
       const roadmap = flags['no-repo']
         ? await readRoadmapFile(roadmapPath)
         : await RoadmapRepository.fromConfig(config).load(roadmapPath)
 
-      // Build filter criteria
-      const filterCriteria: Partial<FilterCriteria> = {}
-
-      if (effectiveStatusFilter.length > 0) {
-        filterCriteria.status =
-          effectiveStatusFilter.length === 3
-            ? undefined // All statuses, no filter needed
-            : effectiveStatusFilter
-      }
-
-      if (priorityFilter) {
-        filterCriteria.priority = priorityFilter
-      }
-
-      // Apply filtering and sorting using TaskQueryService
-      const hasFilters = Object.keys(filterCriteria).length > 0
-      const filtered = hasFilters
-        ? // eslint-disable-next-line unicorn/no-array-callback-reference, unicorn/no-array-method-this-argument
-          taskQueryService.filter(roadmap.tasks, filterCriteria)
-        : roadmap.tasks
-
-      const tasks = sortBy ? taskQueryService.sort(filtered, sortBy, SortOrder.Ascending) : filtered
+      // Apply filtering, search, the --where expression and sorting
+      const tasks = viewService.apply(roadmap.tasks, view, options)
 
       // Display using DisplayService
-      const lines = displayService.formatTaskList(tasks)
+      // Compact and table output is cut to fit the terminal; piped output has no width and is left whole
+      const lines = DisplayService.fromConfig(config).formatTaskList(tasks, {
+        columns: viewService.getColumns(view),
+        format: flags.json ? 'json' : (view.format ?? 'default'),
+        tree: view.tree,
+        width: process.stdout.columns,
+      })
       for (const line of lines) {
         console.log(line)
       }
     } catch (error) {
       const exitCode = errorHandlerService.handleError(error)
+      if (flags.json) {
+        this.log(errorHandlerService.formatErrorJson(error))
+        this.exit(exitCode)
+      }
+
       this.error(errorHandlerService.formatErrorMessage(error, flags.verbose), {exit: exitCode})
     }
   }
@@ -0,0 +1,93 @@
+import {Command, Flags} from '@oclif/core'
+
+import {getDefaultConfigRepository} from '../repositories/config.repository.js'
+import {JournalRepository} from '../repositories/journal.repository.js'
+import errorHandlerService from '../services/error-handler.service.js'
+import journalService, {JournalEntrySummary} from '../services/journal.service.js'
+import {readConfigFile} from '../util/read-config.js'
+
+export default class Log extends Command {
+  static override description = 'show the changes recorded in the journal, newest first'
+  static override examples = [
+    '<%= config.bin %> <%= command.id %>',
+    '<%= config.bin %> <%= command.id %> --limit=50',
+    '<%= config.bin %> <%= command.id %> --json',
+  ]
+  static override flags = {
+    json: Flags.boolean({
+      char: 'j',
+      default: false,
+      description: 'output machine-readable JSON (shapes documented in schemas/output/v1.json)',
+    }),
+    limit: Flags.integer({
+      char: 'n',
+      default: 20,
+      description: 'number of changes to show',
+      min: 1,
+    }),
+    'no-repo': Flags.boolean({
+      default: false,
+      description: 'use legacy direct file I/O instead of repository pattern',
+    }),
+    verbose: Flags.boolean({
+      char: 'v',
+      default: false,
+      description: 'show detailed error information including stack traces',
+    }),
+  }
+
+  public async run(): Promise<void> {
+    const {flags} = await this.parse(Log)
+
+    try {
+      // Use repository pattern by default, unless --no-repo flag is set
+      const config = flags['no-repo'] ? await readConfigFile() : await getDefaultConfigRepository().load()
+      const journal = await JournalRepository.fromConfig(config).load()
+
+      // Newest first; undone changes are the ones redo would apply next
+      const entries = journal.entries
+        .slice(-flags.limit)
+        .reverse()
+        .map((entry) => journalService.summarize(entry))
+      const undone = journal.undone
+        .slice(-flags.limit)
+        .reverse()
+        .map((entry) => journalService.summarize(entry))
+
+      if (flags.json) {
+        this.log(JSON.stringify({entries, undone}, null, 2))
+        return
+      }
+
+      if (entries.length === 0 && undone.length === 0) {
+        this.log(config.journal?.maxEntries === 0 ? 'The journal is turned off' : 'No changes recorded')
+        return
+      }
+
+      for (const entry of entries) {
+        this.log(formatEntry(entry))
+      }
+
+      if (undone.length > 0) {
+        this.log(`${entries.length > 0 ? '\n' : ''}Undone (prt redo applies the first again):`)
+        for (const entry of undone) {
+          this.log(formatEntry(entry))
+        }
+      }
+    } catch (error) {
+      const exitCode = errorHandlerService.handleError(error)
+      if (flags.json) {
+        this.log(errorHandlerService.formatErrorJson(error))
+        this.exit(exitCode)
+      }
+
+      this.error(errorHandlerService.formatErrorMessage(error, flags.verbose), {exit: exitCode})
+    }
+  }
+}
+
+function formatEntry(entry: JournalEntrySummary): string {
+  const time = entry.timestamp.slice(0, 16).replace('T', ' ')
+  const changes = `${entry.changes} change${entry.changes === 1 ? '' : 's'}`
+  return `#${entry.id}  ${time}  ${entry.user}  ${entry.command} (${changes})`
+}
@@ -0,0 +1,119 @@
+import {Args, Command, Flags} from '@oclif/core'
+import {readFile} from 'node:fs/promises'
+
+import {getDefaultConfigRepository} from '../repositories/config.repository.js'
+import errorHandlerService, {ExitCodes} from '../services/error-handler.service.js'
+import roadmapMergeService, {MergeConflict} from '../services/roadmap-merge.service.js'
+import {readConfigFile} from '../util/read-config.js'
+import {getTaskTypes} from '../util/task-types.js'
+import {Roadmap} from '../util/types.js'
+import {writeRoadmapFile} from '../util/write-roadmap.js'
+
+// Stands in for the ancestor when git passes an empty one, because both branches created the file
+const EMPTY_ANCESTOR: Roadmap = {
+  $schema: '',
+  metadata: {createdAt: '', createdBy: '', description: '', name: ''},
+  tasks: [],
+}
+
+export default class MergeDriver extends Command {
+  static override args = {
+    base: Args.string({description: 'the common ancestor (%O)', required: true}),
+    ours: Args.string({description: 'our version (%A); the merged roadmap is written here', required: true}),
+    theirs: Args.string({description: 'their version (%B)', required: true}),
+    // eslint-disable-next-line perfectionist/sort-objects
+    path: Args.string({description: 'path of the roadmap in the repository (%P), for messages'}),
+  }
+  static override description = `three-way merge prt.json task by task, as a git merge driver
+
+Register it once per clone, then mark the roadmap in .gitattributes:
+
+  git config merge.prt.name "prt roadmap merge"
+  git config merge.prt.driver "prt merge-driver %O %A %B %P"
+  echo "prt.json merge=prt" >> .gitattributes
+
+Tasks both branches added under the same ID are renumbered on their side, and their references follow. Tags, depends-on and blocks are merged as sets. Only fields changed differently on both sides conflict: they keep our value, are listed, and the merge exits with status 1 so git marks the file as conflicted.`
+  static override examples = ['<%= config.bin %> <%= command.id %> %O %A %B %P']
+  static override flags = {
+    'no-repo': Flags.boolean({
+      default: false,
+      description: 'use legacy direct file I/O instead of repository pattern',
+    }),
+    verbose: Flags.boolean({
+      char: 'v',
+      default: false,
+      description: 'show detailed error information including stack traces',
+    }),
+  }
+
+  public async run(): Promise<void> {
+    const {args, flags} = await this.parse(MergeDriver)
+    const name = args.path ?? args.ours
+    let conflicts: MergeConflict[] = []
+
+    try {
+      // Use repository pattern by default, unless --no-repo flag is set
+      const config = flags['no-repo'] ? await readConfigFile() : await getDefaultConfigRepository().load()
+
+      // git passes an empty ancestor when both branches created the file
+      const base = (await this.readRoadmap(args.base, 'ancestor', true)) ?? EMPTY_ANCESTOR
+      const ours = (await this.readRoadmap(args.ours, 'our', false))!
+      const theirs = (await this.readRoadmap(args.theirs, 'their', false))!
+
+      const result = roadmapMergeService.merge(base, ours, theirs, {
+        taskTypes: getTaskTypes(config),
+        width: config.idWidth,
+      })
+      await writeRoadmapFile(args.ours, result.roadmap)
+
+      for (const {from, to} of result.renumbered) {
+        this.log(`${name}: both sides added ${from}; renumbered theirs to ${to}`)
+      }
+
+      conflicts = result.conflicts
+      for (const conflict of conflicts) {
+        this.warn(`${name}: ${this.describeConflict(conflict)}`)
+      }
+    } catch (error) {
+      const exitCode = errorHandlerService.handleError(error)
+      this.error(errorHandlerService.formatErrorMessage(error, flags.verbose), {exit: exitCode})
+    }
+
+    // Exiting inside the try block would be caught and reported as an error; a non-zero
+    // status tells git the file still has conflicts to resolve
+    if (conflicts.length > 0) {
+      this.log(`${name}: ${conflicts.length} conflict(s) kept our side; fix them and run prt validate`)
+      this.exit(ExitCodes.GENERAL_ERROR)
+    }
+  }
+
+  private describeConflict({base, field, item, ours, theirs}: MergeConflict): string {
+    if (field === 'deleted') {
+      const side = ours === null ? 'we' : 'they'
+      return `conflict in ${item}: ${side} deleted it while the other side changed it; kept the changed version`
+    }
+
+    return `conflict in ${item} ${field}: ours ${JSON.stringify(ours)}, theirs ${JSON.stringify(theirs)} (was ${JSON.stringify(base)}); kept ours`
+  }
+
+  /**
+   * Reads one version of the roadmap. An empty file is only allowed for the ancestor.
+   */
+  private async readRoadmap(path: string, side: string, allowEmpty: boolean): Promise<Roadmap | undefined> {
+    const content = await readFile(path, 'utf8')
+    if (allowEmpty && content.trim() === '') {
+      return undefined
+    }
+
+    try {
+      const roadmap = JSON.parse(content) as Roadmap
+      if (Array.isArray(roadmap?.tasks)) {
+        return roadmap
+      }
+    } catch {
+      // Reported below
+    }
+
+    this.error(`Cannot merge: the ${side} version is not a valid roadmap`)
+  }
+}
@@ -0,0 +1,89 @@
+import {Command, Flags} from '@oclif/core'
+
+import {getDefaultConfigRepository} from '../repositories/config.repository.js'
+import {JournalRepository} from '../repositories/journal.repository.js'
+import {RoadmapRepository} from '../repositories/roadmap.repository.js'
+import errorHandlerService from '../services/error-handler.service.js'
+import journalService from '../services/journal.service.js'
+import taskService from '../services/task.service.js'
+import {readConfigFile} from '../util/read-config.js'
+import {readRoadmapFile} from '../util/read-roadmap.js'
+import {DEFAULT_ID_WIDTH} from '../util/types.js'
+import {writeRoadmapFile} from '../util/write-roadmap.js'
+
+export default class MigrateIds extends Command {
+  static override description =
+    'rewrite task IDs to a new digit width (zero-padding them) or renumber them, updating all dependency references'
+  static override examples = [
+    '<%= config.bin %> <%= command.id %> --width=4',
+    '<%= config.bin %> <%= command.id %> --renumber',
+    '<%= config.bin %> <%= command.id %> --width=4 --renumber --dry-run',
+  ]
+  static override flags = {
+    'dry-run': Flags.boolean({
+      default: false,
+      description: 'show the ID changes without writing the roadmap',
+    }),
+    'no-repo': Flags.boolean({
+      default: false,
+      description: 'use legacy direct file I/O instead of repository pattern',
+    }),
+    renumber: Flags.boolean({
+      char: 'r',
+      default: false,
+      description: 'renumber each task type from 1 in ID order, closing gaps left by removed tasks',
+    }),
+    verbose: Flags.boolean({
+      char: 'v',
+      default: false,
+      description: 'show detailed error information including stack traces',
+    }),
+    width: Flags.integer({
+      char: 'w',
+      description: `minimum number of digits in task IDs (default: idWidth from .prtrc.json, or ${DEFAULT_ID_WIDTH})`,
+      min: DEFAULT_ID_WIDTH,
+    }),
+  }
+
+  public async run(): Promise<void> {
+    const {flags} = await this.parse(MigrateIds)
+
+    try {
+      // Use repository pattern by default, unless --no-repo flag is set
+      const config = flags['no-repo'] ? await readConfigFile() : await getDefaultConfigRepository().load()
+      const roadmap = flags['no-repo']
+        ? await readRoadmapFile(config.path)
+        : await RoadmapRepository.fromConfig(config).load(config.path)
+
+      const configuredWidth = config.idWidth ?? DEFAULT_ID_WIDTH
+      const width = flags.width ?? configuredWidth
+
+      const {changes, roadmap: migratedRoadmap} = taskService.migrateIds(roadmap, {renumber: flags.renumber, width})
+
+      if (changes.length === 0) {
+        this.log(`All ${roadmap.tasks.length} task IDs are already in the requested format.`)
+      } else {
+        if (!flags['dry-run']) {
+          await (flags['no-repo']
+            ? writeRoadmapFile(config.path, migratedRoadmap)
+            : RoadmapRepository.fromConfig(config).save(config.path, migratedRoadmap))
+          await JournalRepository.fromConfig(config).record(
+            journalService.createEntry(roadmap, migratedRoadmap, journalService.formatCommand(this.id, this.argv)),
+          )
+        }
+
+        this.log(`${flags['dry-run'] ? 'Would rename' : 'Renamed'} ${changes.length} task(s):`)
+        for (const {from, to} of changes) {
+          this.log(`  ${from} -> ${to}`)
+        }
+      }
+
+      if (width !== configuredWidth) {
+        this.log(`Set "idWidth": ${width} in .prtrc.json so new task IDs also get ${width} digits.`)
+      }
+    } catch (error) {
+      const exitCode = errorHandlerService.handleError(error)
+      this.error(errorHandlerService.formatErrorMessage(error, flags.verbose), {exit: exitCode})
+    }
+  }
+}
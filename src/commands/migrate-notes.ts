@@ -0,0 +1,71 @@
+import {Command, Flags} from '@oclif/core'
+
+import {getDefaultConfigRepository} from '../repositories/config.repository.js'
+import {JournalRepository} from '../repositories/journal.repository.js'
+import {RoadmapRepository} from '../repositories/roadmap.repository.js'
+import errorHandlerService from '../services/error-handler.service.js'
+import journalService from '../services/journal.service.js'
+import taskService from '../services/task.service.js'
+import {readConfigFile} from '../util/read-config.js'
+import {readRoadmapFile} from '../util/read-roadmap.js'
+import {writeRoadmapFile} from '../util/write-roadmap.js'
+
+export default class MigrateNotes extends Command {
+  static override description =
+    "turn the free-text notes of every task into a comment in the task's activity log, removing the notes fields"
+  static override examples = ['<%= config.bin %> <%= command.id %>', '<%= config.bin %> <%= command.id %> --dry-run']
+  static override flags = {
+    'dry-run': Flags.boolean({
+      default: false,
+      description: 'show the tasks whose notes would move without writing the roadmap',
+    }),
+    'no-repo': Flags.boolean({
+      default: false,
+      description: 'use legacy direct file I/O instead of repository pattern',
+    }),
+    verbose: Flags.boolean({
+      char: 'v',
+      default: false,
+      description: 'show detailed error information including stack traces',
+    }),
+  }
+
+  public async run(): Promise<void> {
+    const {flags} = await this.parse(MigrateNotes)
+
+    try {
+      // Use repository pattern by default, unless --no-repo flag is set
+      const config = flags['no-repo'] ? await readConfigFile() : await getDefaultConfigRepository().load()
+      const roadmap = flags['no-repo']
+        ? await readRoadmapFile(config.path)
+        : await RoadmapRepository.fromConfig(config).load(config.path)
+
+      // Empty notes fields are dropped too, so there is work to do as long as any task has one
+      if (roadmap.tasks.every((task) => task.notes === undefined)) {
+        this.log('No task has notes to migrate.')
+        return
+      }
+
+      const {migrated, roadmap: migratedRoadmap} = taskService.migrateNotes(roadmap)
+
+      if (!flags['dry-run']) {
+        await (flags['no-repo']
+          ? writeRoadmapFile(config.path, migratedRoadmap)
+          : RoadmapRepository.fromConfig(config).save(config.path, migratedRoadmap))
+        await JournalRepository.fromConfig(config).record(
+          journalService.createEntry(roadmap, migratedRoadmap, journalService.formatCommand(this.id, this.argv)),
+        )
+      }
+
+      this.log(
+        `${flags['dry-run'] ? 'Would move' : 'Moved'} the notes of ${migrated.length} task(s) into comments${migrated.length > 0 ? ':' : '.'}`,
+      )
+      for (const id of migrated) {
+        this.log(`  ${id}`)
+      }
+    } catch (error) {
+      const exitCode = errorHandlerService.handleError(error)
+      this.error(errorHandlerService.formatErrorMessage(error, flags.verbose), {exit: exitCode})
+    }
+  }
+}
@@ -0,0 +1,99 @@
+import {Args, Command, Flags} from '@oclif/core'
+
+import {getDefaultConfigRepository} from '../../repositories/config.repository.js'
+import {JournalRepository} from '../../repositories/journal.repository.js'
+import {RoadmapRepository} from '../../repositories/roadmap.repository.js'
+import errorHandlerService from '../../services/error-handler.service.js'
+import journalService from '../../services/journal.service.js'
+import milestoneService from '../../services/milestone.service.js'
+import {readConfigFile} from '../../util/read-config.js'
+import {readRoadmapFile} from '../../util/read-roadmap.js'
+import {writeRoadmapFile} from '../../util/write-roadmap.js'
+
+export default class MilestoneAdd extends Command {
+  static override args = {
+    id: Args.string({description: 'ID of the milestone, e.g. v1.0 (letters, digits, ., - and _)', required: true}),
+  }
+  static override description = 'add a milestone that tasks can be planned for'
+  static override examples = [
+    '<%= config.bin %> <%= command.id %> v1.0 --name="First release" --target=2026-12-01',
+    '<%= config.bin %> <%= command.id %> 2026-q4 --description="Everything due this quarter" --json',
+  ]
+  static override flags = {
+    description: Flags.string({char: 'd', description: 'description of the milestone'}),
+    json: Flags.boolean({
+      char: 'j',
+      default: false,
+      description: 'output machine-readable JSON (shapes documented in schemas/output/v1.json)',
+    }),
+    name: Flags.string({char: 'n', description: 'name of the milestone (default: its ID)'}),
+    'no-repo': Flags.boolean({
+      default: false,
+      description: 'use legacy direct file I/O instead of repository pattern',
+    }),
+    target: Flags.string({
+      char: 't',
+      description: 'target date of the milestone (any date parseable by Date, e.g. 2026-12-01)',
+    }),
+    verbose: Flags.boolean({
+      char: 'v',
+      default: false,
+      description: 'show detailed error information including stack traces',
+    }),
+  }
+
+  public async run(): Promise<void> {
+    const {args, flags} = await this.parse(MilestoneAdd)
+
+    try {
+      let targetDate: string | undefined
+      if (flags.target !== undefined) {
+        const timestamp = Date.parse(flags.target)
+        if (Number.isNaN(timestamp)) {
+          this.error(`Invalid target date: ${flags.target}`)
+        }
+
+        targetDate = new Date(timestamp).toISOString()
+      }
+
+      // Use repository pattern by default, unless --no-repo flag is set
+      const config = flags['no-repo'] ? await readConfigFile() : await getDefaultConfigRepository().load()
+      const roadmap = flags['no-repo']
+        ? await readRoadmapFile(config.path)
+        : await RoadmapRepository.fromConfig(config).load(config.path)
+
+      if (milestoneService.findMilestone(roadmap, args.id)) {
+        this.error(`Milestone ${args.id} already exists`)
+      }
+
+      const milestone = milestoneService.createMilestone({
+        description: flags.description,
+        id: args.id,
+        name: flags.name,
+        targetDate,
+      })
+      const updatedRoadmap = milestoneService.addMilestone(roadmap, milestone)
+
+      await (flags['no-repo']
+        ? writeRoadmapFile(config.path, updatedRoadmap)
+        : RoadmapRepository.fromConfig(config).save(config.path, updatedRoadmap))
+      await JournalRepository.fromConfig(config).record(
+        journalService.createEntry(roadmap, updatedRoadmap, journalService.formatCommand(this.id, this.argv)),
+      )
+
+      this.log(
+        flags.json
+          ? JSON.stringify({milestone}, null, 2)
+          : `Milestone ${milestone.id} has been added. Plan tasks for it with --milestone=${milestone.id}.`,
+      )
+    } catch (error) {
+      const exitCode = errorHandlerService.handleError(error)
+      if (flags.json) {
+        this.log(errorHandlerService.formatErrorJson(error))
+        this.exit(exitCode)
+      }
+
+      this.error(errorHandlerService.formatErrorMessage(error, flags.verbose), {exit: exitCode})
+    }
+  }
+}
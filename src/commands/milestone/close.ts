@@ -0,0 +1,66 @@
+import {Args, Command, Flags} from '@oclif/core'
+
+import {getDefaultConfigRepository} from '../../repositories/config.repository.js'
+import {JournalRepository} from '../../repositories/journal.repository.js'
+import {RoadmapRepository} from '../../repositories/roadmap.repository.js'
+import errorHandlerService from '../../services/error-handler.service.js'
+import journalService from '../../services/journal.service.js'
+import milestoneService from '../../services/milestone.service.js'
+import {readConfigFile} from '../../util/read-config.js'
+import {readRoadmapFile} from '../../util/read-roadmap.js'
+import {writeRoadmapFile} from '../../util/write-roadmap.js'
+
+export default class MilestoneClose extends Command {
+  static override args = {
+    id: Args.string({description: 'ID of the milestone to close', required: true}),
+  }
+  static override description = 'close a milestone; unfinished tasks are reported and keep their milestone'
+  static override examples = ['<%= config.bin %> <%= command.id %> v1.0']
+  static override flags = {
+    'no-repo': Flags.boolean({
+      default: false,
+      description: 'use legacy direct file I/O instead of repository pattern',
+    }),
+    verbose: Flags.boolean({
+      char: 'v',
+      default: false,
+      description: 'show detailed error information including stack traces',
+    }),
+  }
+
+  public async run(): Promise<void> {
+    const {args, flags} = await this.parse(MilestoneClose)
+
+    try {
+      // Use repository pattern by default, unless --no-repo flag is set
+      const config = flags['no-repo'] ? await readConfigFile() : await getDefaultConfigRepository().load()
+      const roadmap = flags['no-repo']
+        ? await readRoadmapFile(config.path)
+        : await RoadmapRepository.fromConfig(config).load(config.path)
+
+      if (milestoneService.getMilestone(roadmap, args.id).closedAt) {
+        this.log(`Milestone ${args.id} is already closed. No changes made.`)
+        return
+      }
+
+      const updatedRoadmap = milestoneService.closeMilestone(roadmap, args.id)
+
+      await (flags['no-repo']
+        ? writeRoadmapFile(config.path, updatedRoadmap)
+        : RoadmapRepository.fromConfig(config).save(config.path, updatedRoadmap))
+      await JournalRepository.fromConfig(config).record(
+        journalService.createEntry(roadmap, updatedRoadmap, journalService.formatCommand(this.id, this.argv)),
+      )
+
+      this.log(`Milestone ${args.id} has been closed.`)
+
+      const {completed, total} = milestoneService.getReport(updatedRoadmap, args.id)
+      if (completed < total) {
+        this.warn(`Milestone ${args.id} was closed with ${total - completed} of ${total} tasks unfinished`)
+      }
+    } catch (error) {
+      const exitCode = errorHandlerService.handleError(error)
+      this.error(errorHandlerService.formatErrorMessage(error, flags.verbose), {exit: exitCode})
+    }
+  }
+}
@@ -0,0 +1,76 @@
+import {Command, Flags} from '@oclif/core'
+
+import {getDefaultConfigRepository} from '../../repositories/config.repository.js'
+import {RoadmapRepository} from '../../repositories/roadmap.repository.js'
+import {DisplayService} from '../../services/display.service.js'
+import errorHandlerService from '../../services/error-handler.service.js'
+import milestoneService from '../../services/milestone.service.js'
+import {readConfigFile} from '../../util/read-config.js'
+import {readRoadmapFile} from '../../util/read-roadmap.js'
+
+export default class MilestoneList extends Command {
+  static override description = 'list the milestones with their target dates and progress'
+  static override examples = ['<%= config.bin %> <%= command.id %>', '<%= config.bin %> <%= command.id %> --all --json']
+  static override flags = {
+    all: Flags.boolean({char: 'a', default: false, description: 'include closed milestones'}),
+    json: Flags.boolean({
+      char: 'j',
+      default: false,
+      description: 'output machine-readable JSON (shapes documented in schemas/output/v1.json)',
+    }),
+    'no-repo': Flags.boolean({
+      default: false,
+      description: 'use legacy direct file I/O instead of repository pattern',
+    }),
+    verbose: Flags.boolean({
+      char: 'v',
+      default: false,
+      description: 'show detailed error information including stack traces',
+    }),
+  }
+
+  public async run(): Promise<void> {
+    const {flags} = await this.parse(MilestoneList)
+
+    try {
+      // Use repository pattern by default, unless --no-repo flag is set
+      const config = flags['no-repo'] ? await readConfigFile() : await getDefaultConfigRepository().load()
+      const roadmap = flags['no-repo']
+        ? await readRoadmapFile(config.path)
+        : await RoadmapRepository.fromConfig(config).load(config.path)
+
+      const reports = (roadmap.milestones ?? [])
+        .filter((milestone) => flags.all || !milestone.closedAt)
+        .map((milestone) => milestoneService.getReport(roadmap, milestone.id))
+
+      if (flags.json) {
+        this.log(
+          JSON.stringify(
+            reports.map(({completed, milestone, overdue, progress, total}) => ({
+              ...milestone,
+              completed,
+              overdue,
+              progress,
+              total,
+            })),
+            null,
+            2,
+          ),
+        )
+        return
+      }
+
+      for (const line of DisplayService.fromConfig(config).formatMilestoneList(reports)) {
+        this.log(line)
+      }
+    } catch (error) {
+      const exitCode = errorHandlerService.handleError(error)
+      if (flags.json) {
+        this.log(errorHandlerService.formatErrorJson(error))
+        this.exit(exitCode)
+      }
+
+      this.error(errorHandlerService.formatErrorMessage(error, flags.verbose), {exit: exitCode})
+    }
+  }
+}
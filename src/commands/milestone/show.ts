@@ -0,0 +1,69 @@
+import {Args, Command, Flags} from '@oclif/core'
+
+import {getDefaultConfigRepository} from '../../repositories/config.repository.js'
+import {RoadmapRepository} from '../../repositories/roadmap.repository.js'
+import {DisplayService} from '../../services/display.service.js'
+import errorHandlerService from '../../services/error-handler.service.js'
+import milestoneService from '../../services/milestone.service.js'
+import {readConfigFile} from '../../util/read-config.js'
+import {readRoadmapFile} from '../../util/read-roadmap.js'
+
+export default class MilestoneShow extends Command {
+  static override args = {
+    id: Args.string({description: 'ID of the milestone to show', required: true}),
+  }
+  static override description =
+    'show a milestone progress report: percent complete, remaining effort, blocked tasks, and tasks at risk because they depend on other milestones'
+  static override examples = [
+    '<%= config.bin %> <%= command.id %> v1.0',
+    '<%= config.bin %> <%= command.id %> v1.0 --json',
+  ]
+  static override flags = {
+    json: Flags.boolean({
+      char: 'j',
+      default: false,
+      description: 'output machine-readable JSON (shapes documented in schemas/output/v1.json)',
+    }),
+    'no-repo': Flags.boolean({
+      default: false,
+      description: 'use legacy direct file I/O instead of repository pattern',
+    }),
+    verbose: Flags.boolean({
+      char: 'v',
+      default: false,
+      description: 'show detailed error information including stack traces',
+    }),
+  }
+
+  public async run(): Promise<void> {
+    const {args, flags} = await this.parse(MilestoneShow)
+
+    try {
+      // Use repository pattern by default, unless --no-repo flag is set
+      const config = flags['no-repo'] ? await readConfigFile() : await getDefaultConfigRepository().load()
+      const roadmap = flags['no-repo']
+        ? await readRoadmapFile(config.path)
+        : await RoadmapRepository.fromConfig(config).load(config.path)
+
+      const report = milestoneService.getReport(roadmap, args.id)
+      const tasks = milestoneService.getTasks(roadmap, args.id)
+
+      if (flags.json) {
+        this.log(JSON.stringify({...report, tasks}, null, 2))
+        return
+      }
+
+      for (const line of DisplayService.fromConfig(config).formatMilestoneReport(report, tasks)) {
+        this.log(line)
+      }
+    } catch (error) {
+      const exitCode = errorHandlerService.handleError(error)
+      if (flags.json) {
+        this.log(errorHandlerService.formatErrorJson(error))
+        this.exit(exitCode)
+      }
+
+      this.error(errorHandlerService.formatErrorMessage(error, flags.verbose), {exit: exitCode})
+    }
+  }
+}
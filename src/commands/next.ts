@@ -0,0 +1,53 @@
+import {Command, Flags} from '@oclif/core'
+
+import {getDefaultConfigRepository} from '../repositories/config.repository.js'
+import {RoadmapRepository} from '../repositories/roadmap.repository.js'
+import {DisplayService} from '../services/display.service.js'
+import errorHandlerService from '../services/error-handler.service.js'
+import taskPlanningService from '../services/task-planning.service.js'
+import {readConfigFile} from '../util/read-config.js'
+import {readRoadmapFile} from '../util/read-roadmap.js'
+
+export default class Next extends Command {
+  static override description =
+    'recommend the next actionable tasks: not started, with all dependencies completed, ranked by priority, due date and how many tasks they unblock'
+  static override examples = [
+    '<%= config.bin %> <%= command.id %>',
+    '<%= config.bin %> <%= command.id %> --assignee=alice --limit=3',
+  ]
+  static override flags = {
+    assignee: Flags.string({char: 'a', description: 'only recommend tasks assigned to this person'}),
+    limit: Flags.integer({char: 'l', default: 5, description: 'maximum number of tasks to recommend', min: 1}),
+    'no-repo': Flags.boolean({
+      default: false,
+      description: 'use legacy direct file I/O instead of repository pattern',
+    }),
+    verbose: Flags.boolean({
+      char: 'v',
+      default: false,
+      description: 'show detailed error information including stack traces',
+    }),
+  }
+
+  public async run(): Promise<void> {
+    const {flags} = await this.parse(Next)
+
+    try {
+      // Use repository pattern by default, unless --no-repo flag is set
+      const config = flags['no-repo'] ? await readConfigFile() : await getDefaultConfigRepository().load()
+      const roadmap = flags['no-repo']
+        ? await readRoadmapFile(config.path)
+        : await RoadmapRepository.fromConfig(config).load(config.path)
+
+      const ranked = taskPlanningService.getNextTasks(roadmap.tasks, {assignee: flags.assignee})
+
+      const lines = DisplayService.fromConfig(config).formatNextTasks(ranked.slice(0, flags.limit), ranked.length)
+      for (const line of lines) {
+        this.log(line)
+      }
+    } catch (error) {
+      const exitCode = errorHandlerService.handleError(error)
+      this.error(errorHandlerService.formatErrorMessage(error, flags.verbose), {exit: exitCode})
+    }
+  }
+}
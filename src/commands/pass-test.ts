@@ -1,8 +1,10 @@
 import {Args, Command, Flags} from '@oclif/core'
 
 import {getDefaultConfigRepository} from '../repositories/config.repository.js'
+import {JournalRepository} from '../repositories/journal.repository.js'
 import {RoadmapRepository} from '../repositories/roadmap.repository.js'
 import errorHandlerService from '../services/error-handler.service.js'
+import journalService from '../services/journal.service.js'
 import {readConfigFile} from '../util/read-config.js'
 import {readRoadmapFile} from '../util/read-roadmap.js'
 import {updateTaskInRoadmap} from '../util/update-task.js'
@@ -47,6 +49,9 @@ export default class PassTest extends Command {
       await (flags['no-repo']
         ? writeRoadmapFile(config.path, updatedRoadmap)
         : RoadmapRepository.fromConfig(config).save(config.path, updatedRoadmap))
+      await JournalRepository.fromConfig(config).record(
+        journalService.createEntry(roadmap, updatedRoadmap, journalService.formatCommand(this.id, this.argv)),
+      )
 
       this.log(`Task ${args.taskID} marked as passing tests.`)
     } catch (error) {
@@ -0,0 +1,93 @@
+import {Args, Command, Flags} from '@oclif/core'
+
+import {getDefaultConfigRepository} from '../repositories/config.repository.js'
+import {JournalRepository} from '../repositories/journal.repository.js'
+import {RoadmapRepository} from '../repositories/roadmap.repository.js'
+import errorHandlerService from '../services/error-handler.service.js'
+import journalService from '../services/journal.service.js'
+import taskService from '../services/task.service.js'
+import {readConfigFile} from '../util/read-config.js'
+import {readRoadmapFile} from '../util/read-roadmap.js'
+import {getTaskTypes} from '../util/task-types.js'
+import {validateTaskID} from '../util/validate-task-id.js'
+import {writeRoadmapFile} from '../util/write-roadmap.js'
+
+export default class Remove extends Command {
+  static override args = {
+    taskID: Args.string({description: 'ID of the task to remove', required: true}),
+  }
+  static override description = 'Remove a task from the roadmap'
+  static override examples = [
+    '<%= config.bin %> <%= command.id %> F-001',
+    '<%= config.bin %> <%= command.id %> F-001 --cascade',
+    '<%= config.bin %> <%= command.id %> F-001 --reassign=F-002',
+  ]
+  static override flags = {
+    cascade: Flags.boolean({
+      char: 'c',
+      default: false,
+      description: 'remove all references to the task from dependent tasks',
+      exclusive: ['reassign'],
+    }),
+    'no-repo': Flags.boolean({
+      default: false,
+      description: 'use legacy direct file I/O instead of repository pattern',
+    }),
+    reassign: Flags.string({
+      char: 'r',
+      description: 'repoint tasks that depend on the removed task to this task ID',
+      exclusive: ['cascade'],
+    }),
+    verbose: Flags.boolean({
+      char: 'v',
+      default: false,
+      description: 'show detailed error information including stack traces',
+    }),
+  }
+
+  public async run(): Promise<void> {
+    const {args, flags} = await this.parse(Remove)
+
+    try {
+      // Use repository pattern by default, unless --no-repo flag is set
+      const config = flags['no-repo'] ? await readConfigFile() : await getDefaultConfigRepository().load()
+      const reassignTo = flags.reassign?.trim()
+      if (reassignTo !== undefined) {
+        try {
+          validateTaskID(reassignTo, getTaskTypes(config))
+        } catch {
+          this.error(`Invalid task ID for --reassign: ${reassignTo}`)
+        }
+      }
+
+      const roadmap = flags['no-repo']
+        ? await readRoadmapFile(config.path)
+        : await RoadmapRepository.fromConfig(config).load(config.path)
+
+      const {affectedTaskIds, roadmap: updatedRoadmap} = taskService.removeTask(roadmap, args.taskID, {
+        cascade: flags.cascade,
+        reassignTo,
+      })
+
+      await (flags['no-repo']
+        ? writeRoadmapFile(config.path, updatedRoadmap)
+        : RoadmapRepository.fromConfig(config).save(config.path, updatedRoadmap))
+      await JournalRepository.fromConfig(config).record(
+        journalService.createEntry(roadmap, updatedRoadmap, journalService.formatCommand(this.id, this.argv)),
+      )
+
+      this.log(`Task ${args.taskID} has been removed.`)
+
+      if (affectedTaskIds.length > 0) {
+        this.log(
+          reassignTo
+            ? `Dependents of ${args.taskID} have been reassigned to ${reassignTo}. Updated tasks: ${affectedTaskIds.join(', ')}`
+            : `References to ${args.taskID} have been removed from: ${affectedTaskIds.join(', ')}`,
+        )
+      }
+    } catch (error) {
+      const exitCode = errorHandlerService.handleError(error)
+      this.error(errorHandlerService.formatErrorMessage(error, flags.verbose), {exit: exitCode})
+    }
+  }
+}
@@ -1,8 +1,9 @@
 import {Args, Command, Flags} from '@oclif/core'
 
+import {TaskNotFoundError} from '../errors/index.js'
 import {getDefaultConfigRepository} from '../repositories/config.repository.js'
 import {RoadmapRepository} from '../repositories/roadmap.repository.js'
-import displayService from '../services/display.service.js'
+import {DisplayService} from '../services/display.service.js'
 import errorHandlerService from '../services/error-handler.service.js'
 import {readConfigFile} from '../util/read-config.js'
 import {readRoadmapFile} from '../util/read-roadmap.js'
@@ -12,8 +13,16 @@ export default class Show extends Command {
     task: Args.string({description: 'task ID to show', required: true}),
   }
   static override description = 'show details of a specific task in the project roadmap'
-  static override examples = ['<%= config.bin %> <%= command.id %> F-001']
+  static override examples = [
+    '<%= config.bin %> <%= command.id %> F-001',
+    '<%= config.bin %> <%= command.id %> F-001 --json',
+  ]
   static override flags = {
+    json: Flags.boolean({
+      char: 'j',
+      default: false,
+      description: 'output machine-readable JSON (shapes documented in schemas/output/v1.json)',
+    }),
     'no-repo': Flags.boolean({
       default: false,
       description: 'use legacy direct file I/O instead of repository pattern',
@@ -48,10 +57,21 @@ export default class Show extends Command {
       const task = roadmap.tasks.find((t) => t.id === args.task)
 
       if (!task) {
+        // Scripts rely on the structured error code, so JSON mode reports a TaskNotFoundError
+        if (flags.json) {
+          throw new TaskNotFoundError(args.task, roadmapPath)
+        }
+
         this.error(`task with ID ${args.task} not found in roadmap \n  see list of tasks with: 'prt list'`)
       }
 
-      const lines = displayService.formatTaskDetails(task)
+      if (flags.json) {
+        this.log(JSON.stringify(task, null, 2))
+        return
+      }
+
+      const displayService = DisplayService.fromConfig(config)
+      const lines = [...displayService.formatTaskDetails(task), ...displayService.formatSubtasks(task, roadmap)]
       for (const line of lines) {
         console.log(line)
       }
@@ -64,6 +84,11 @@ export default class Show extends Command {
       }
     } catch (error) {
       const exitCode = errorHandlerService.handleError(error)
+      if (flags.json) {
+        this.log(errorHandlerService.formatErrorJson(error))
+        this.exit(exitCode)
+      }
+
       this.error(errorHandlerService.formatErrorMessage(error, flags.verbose), {exit: exitCode})
     }
   }
@@ -0,0 +1,130 @@
+import {Args, Command, Flags} from '@oclif/core'
+
+import {getDefaultConfigRepository} from '../../repositories/config.repository.js'
+import {JournalRepository} from '../../repositories/journal.repository.js'
+import {RoadmapRepository} from '../../repositories/roadmap.repository.js'
+import errorHandlerService from '../../services/error-handler.service.js'
+import journalService from '../../services/journal.service.js'
+import sprintService, {DEFAULT_SPRINT_DAYS} from '../../services/sprint.service.js'
+import {readConfigFile} from '../../util/read-config.js'
+import {readRoadmapFile} from '../../util/read-roadmap.js'
+import {writeRoadmapFile} from '../../util/write-roadmap.js'
+
+export default class SprintAdd extends Command {
+  static override args = {
+    id: Args.string({description: 'ID of the sprint, e.g. 2026-s22 (letters, digits, ., - and _)', required: true}),
+  }
+  static override description = 'add a sprint with start and end dates and per-assignee capacity in effort units'
+  static override examples = [
+    '<%= config.bin %> <%= command.id %> 2026-s22 --start=2026-11-02 --capacity=alice=8,bob=5',
+    '<%= config.bin %> <%= command.id %> 2026-s23 --start=2026-11-16 --capacity alice=8 --capacity bob=5',
+    '<%= config.bin %> <%= command.id %> s1 --name="Checkout sprint" --start=2026-11-02 --end=2026-11-06 --capacity=alice=3',
+  ]
+  static override flags = {
+    capacity: Flags.string({
+      char: 'c',
+      delimiter: ',',
+      description: 'effort units per assignee, as assignee=effort pairs; repeat or comma-separate for several',
+      multiple: true,
+      required: true,
+    }),
+    end: Flags.string({
+      char: 'e',
+      description: `last day of the sprint (default: ${DEFAULT_SPRINT_DAYS} days from the start)`,
+    }),
+    json: Flags.boolean({
+      char: 'j',
+      default: false,
+      description: 'output machine-readable JSON (shapes documented in schemas/output/v1.json)',
+    }),
+    name: Flags.string({char: 'n', description: 'name of the sprint (default: its ID)'}),
+    'no-repo': Flags.boolean({
+      default: false,
+      description: 'use legacy direct file I/O instead of repository pattern',
+    }),
+    start: Flags.string({
+      char: 's',
+      description: 'first day of the sprint (any date parseable by Date, e.g. 2026-11-02)',
+      required: true,
+    }),
+    verbose: Flags.boolean({
+      char: 'v',
+      default: false,
+      description: 'show detailed error information including stack traces',
+    }),
+  }
+
+  public async run(): Promise<void> {
+    const {args, flags} = await this.parse(SprintAdd)
+
+    try {
+      const startDate = this.parseDate(flags.start, 'start')
+      const endDate = flags.end === undefined ? undefined : this.parseDate(flags.end, 'end')
+      const capacity = this.parseCapacity(flags.capacity)
+
+      // Use repository pattern by default, unless --no-repo flag is set
+      const config = flags['no-repo'] ? await readConfigFile() : await getDefaultConfigRepository().load()
+      const roadmap = flags['no-repo']
+        ? await readRoadmapFile(config.path)
+        : await RoadmapRepository.fromConfig(config).load(config.path)
+
+      if (sprintService.findSprint(roadmap, args.id)) {
+        this.error(`Sprint ${args.id} already exists`)
+      }
+
+      const sprint = sprintService.createSprint({capacity, endDate, id: args.id, name: flags.name, startDate})
+      const updatedRoadmap = sprintService.addSprint(roadmap, sprint)
+
+      await (flags['no-repo']
+        ? writeRoadmapFile(config.path, updatedRoadmap)
+        : RoadmapRepository.fromConfig(config).save(config.path, updatedRoadmap))
+      await JournalRepository.fromConfig(config).record(
+        journalService.createEntry(roadmap, updatedRoadmap, journalService.formatCommand(this.id, this.argv)),
+      )
+
+      this.log(
+        flags.json
+          ? JSON.stringify({sprint}, null, 2)
+          : `Sprint ${sprint.id} has been added. Fill it with "prt sprint plan ${sprint.id}".`,
+      )
+    } catch (error) {
+      const exitCode = errorHandlerService.handleError(error)
+      if (flags.json) {
+        this.log(errorHandlerService.formatErrorJson(error))
+        this.exit(exitCode)
+      }
+
+      this.error(errorHandlerService.formatErrorMessage(error, flags.verbose), {exit: exitCode})
+    }
+  }
+
+  /**
+   * Parses the --capacity pairs, e.g. ["alice=8", "bob=5"], into effort units per assignee.
+   */
+  private parseCapacity(pairs: string[]): Record<string, number> {
+    const capacity: Record<string, number> = {}
+    for (const pair of pairs) {
+      const [assignee, effort] = pair.split('=').map((part) => part.trim())
+      const units = Number(effort)
+      if (!assignee || !effort || !Number.isFinite(units) || units < 0) {
+        this.error(`Invalid capacity: ${pair.trim()}. Use assignee=effort pairs, e.g. alice=8,bob=5`)
+      }
+
+      capacity[assignee] = units
+    }
+
+    return capacity
+  }
+
+  /**
+   * Parses a date flag into an ISO 8601 timestamp.
+   */
+  private parseDate(value: string, flag: string): string {
+    const timestamp = Date.parse(value)
+    if (Number.isNaN(timestamp)) {
+      this.error(`Invalid ${flag} date: ${value}`)
+    }
+
+    return new Date(timestamp).toISOString()
+  }
+}
@@ -0,0 +1,94 @@
+import {Args, Command, Flags} from '@oclif/core'
+
+import {getDefaultConfigRepository} from '../../repositories/config.repository.js'
+import {JournalRepository} from '../../repositories/journal.repository.js'
+import {RoadmapRepository} from '../../repositories/roadmap.repository.js'
+import {DisplayService} from '../../services/display.service.js'
+import errorHandlerService from '../../services/error-handler.service.js'
+import journalService from '../../services/journal.service.js'
+import sprintService from '../../services/sprint.service.js'
+import {readConfigFile} from '../../util/read-config.js'
+import {readRoadmapFile} from '../../util/read-roadmap.js'
+import {writeRoadmapFile} from '../../util/write-roadmap.js'
+
+export default class SprintPlan extends Command {
+  static override args = {
+    id: Args.string({description: 'ID of the sprint to fill', required: true}),
+  }
+  static override description =
+    'pull the highest-ranked ready tasks into a sprint until each assignee reaches their capacity, respecting dependency order'
+  static override examples = [
+    '<%= config.bin %> <%= command.id %> 2026-s22',
+    '<%= config.bin %> <%= command.id %> 2026-s22 --dry-run',
+    '<%= config.bin %> <%= command.id %> 2026-s22 --json',
+  ]
+  static override flags = {
+    'dry-run': Flags.boolean({
+      default: false,
+      description: 'show the tasks that would be pulled in without writing the roadmap',
+    }),
+    json: Flags.boolean({
+      char: 'j',
+      default: false,
+      description: 'output machine-readable JSON (shapes documented in schemas/output/v1.json)',
+    }),
+    'no-repo': Flags.boolean({
+      default: false,
+      description: 'use legacy direct file I/O instead of repository pattern',
+    }),
+    verbose: Flags.boolean({
+      char: 'v',
+      default: false,
+      description: 'show detailed error information including stack traces',
+    }),
+  }
+
+  public async run(): Promise<void> {
+    const {args, flags} = await this.parse(SprintPlan)
+
+    try {
+      // Use repository pattern by default, unless --no-repo flag is set
+      const config = flags['no-repo'] ? await readConfigFile() : await getDefaultConfigRepository().load()
+      const roadmap = flags['no-repo']
+        ? await readRoadmapFile(config.path)
+        : await RoadmapRepository.fromConfig(config).load(config.path)
+
+      const plan = sprintService.planSprint(roadmap, args.id)
+
+      if (!flags['dry-run'] && plan.planned.length > 0) {
+        const updatedRoadmap = sprintService.commitTasks(
+          roadmap,
+          args.id,
+          plan.planned.map((task) => task.id),
+        )
+        await (flags['no-repo']
+          ? writeRoadmapFile(config.path, updatedRoadmap)
+          : RoadmapRepository.fromConfig(config).save(config.path, updatedRoadmap))
+        await JournalRepository.fromConfig(config).record(
+          journalService.createEntry(roadmap, updatedRoadmap, journalService.formatCommand(this.id, this.argv)),
+        )
+      }
+
+      if (flags.json) {
+        this.log(JSON.stringify({...plan, dryRun: flags['dry-run']}, null, 2))
+        return
+      }
+
+      if (flags['dry-run']) {
+        this.log('Dry run: the roadmap was not changed.')
+      }
+
+      for (const line of DisplayService.fromConfig(config).formatSprintPlan(plan)) {
+        this.log(line)
+      }
+    } catch (error) {
+      const exitCode = errorHandlerService.handleError(error)
+      if (flags.json) {
+        this.log(errorHandlerService.formatErrorJson(error))
+        this.exit(exitCode)
+      }
+
+      this.error(errorHandlerService.formatErrorMessage(error, flags.verbose), {exit: exitCode})
+    }
+  }
+}
@@ -0,0 +1,68 @@
+import {Args, Command, Flags} from '@oclif/core'
+
+import {getDefaultConfigRepository} from '../../repositories/config.repository.js'
+import {RoadmapRepository} from '../../repositories/roadmap.repository.js'
+import {DisplayService} from '../../services/display.service.js'
+import errorHandlerService from '../../services/error-handler.service.js'
+import sprintService from '../../services/sprint.service.js'
+import {readConfigFile} from '../../util/read-config.js'
+import {readRoadmapFile} from '../../util/read-roadmap.js'
+
+export default class SprintStatus extends Command {
+  static override args = {
+    id: Args.string({description: 'ID of the sprint to report on', required: true}),
+  }
+  static override description = 'show committed vs. completed effort of a sprint, overall and per assignee'
+  static override examples = [
+    '<%= config.bin %> <%= command.id %> 2026-s22',
+    '<%= config.bin %> <%= command.id %> 2026-s22 --json',
+  ]
+  static override flags = {
+    json: Flags.boolean({
+      char: 'j',
+      default: false,
+      description: 'output machine-readable JSON (shapes documented in schemas/output/v1.json)',
+    }),
+    'no-repo': Flags.boolean({
+      default: false,
+      description: 'use legacy direct file I/O instead of repository pattern',
+    }),
+    verbose: Flags.boolean({
+      char: 'v',
+      default: false,
+      description: 'show detailed error information including stack traces',
+    }),
+  }
+
+  public async run(): Promise<void> {
+    const {args, flags} = await this.parse(SprintStatus)
+
+    try {
+      // Use repository pattern by default, unless --no-repo flag is set
+      const config = flags['no-repo'] ? await readConfigFile() : await getDefaultConfigRepository().load()
+      const roadmap = flags['no-repo']
+        ? await readRoadmapFile(config.path)
+        : await RoadmapRepository.fromConfig(config).load(config.path)
+
+      const status = sprintService.getStatus(roadmap, args.id)
+      const tasks = sprintService.getTasks(roadmap, args.id)
+
+      if (flags.json) {
+        this.log(JSON.stringify({...status, tasks}, null, 2))
+        return
+      }
+
+      for (const line of DisplayService.fromConfig(config).formatSprintStatus(status, tasks)) {
+        this.log(line)
+      }
+    } catch (error) {
+      const exitCode = errorHandlerService.handleError(error)
+      if (flags.json) {
+        this.log(errorHandlerService.formatErrorJson(error))
+        this.exit(exitCode)
+      }
+
+      this.error(errorHandlerService.formatErrorMessage(error, flags.verbose), {exit: exitCode})
+    }
+  }
+}
@@ -0,0 +1,64 @@
+import {Command, Flags} from '@oclif/core'
+
+import {getDefaultConfigRepository} from '../repositories/config.repository.js'
+import {RoadmapRepository} from '../repositories/roadmap.repository.js'
+import {DisplayService} from '../services/display.service.js'
+import errorHandlerService from '../services/error-handler.service.js'
+import roadmapService from '../services/roadmap.service.js'
+import {readConfigFile} from '../util/read-config.js'
+import {readRoadmapFile} from '../util/read-roadmap.js'
+import {getTaskTypes} from '../util/task-types.js'
+import {getWorkflow} from '../util/workflow.js'
+
+export default class Stats extends Command {
+  static override description =
+    'show roadmap statistics: counts by status, type and priority, completion and test-pass rates, overdue tasks, effort, and per-assignee and per-tag breakdowns'
+  static override examples = ['<%= config.bin %> <%= command.id %>', '<%= config.bin %> <%= command.id %> --json']
+  static override flags = {
+    json: Flags.boolean({
+      char: 'j',
+      default: false,
+      description: 'output machine-readable JSON (shapes documented in schemas/output/v1.json)',
+    }),
+    'no-repo': Flags.boolean({
+      default: false,
+      description: 'use legacy direct file I/O instead of repository pattern',
+    }),
+    verbose: Flags.boolean({
+      char: 'v',
+      default: false,
+      description: 'show detailed error information including stack traces',
+    }),
+  }
+
+  public async run(): Promise<void> {
+    const {flags} = await this.parse(Stats)
+
+    try {
+      // Use repository pattern by default, unless --no-repo flag is set
+      const config = flags['no-repo'] ? await readConfigFile() : await getDefaultConfigRepository().load()
+      const roadmap = flags['no-repo']
+        ? await readRoadmapFile(config.path)
+        : await RoadmapRepository.fromConfig(config).load(config.path)
+
+      const stats = roadmapService.getStats(roadmap, new Date(), getTaskTypes(config), getWorkflow(config))
+
+      if (flags.json) {
+        this.log(JSON.stringify(stats, null, 2))
+        return
+      }
+
+      for (const line of DisplayService.fromConfig(config).formatRoadmapStats(stats)) {
+        this.log(line)
+      }
+    } catch (error) {
+      const exitCode = errorHandlerService.handleError(error)
+      if (flags.json) {
+        this.log(errorHandlerService.formatErrorJson(error))
+        this.exit(exitCode)
+      }
+
+      this.error(errorHandlerService.formatErrorMessage(error, flags.verbose), {exit: exitCode})
+    }
+  }
+}
@@ -1,14 +1,18 @@
 import {Args, Command, Flags} from '@oclif/core'
 
 import {getDefaultConfigRepository} from '../repositories/config.repository.js'
+import {JournalRepository} from '../repositories/journal.repository.js'
 import {RoadmapRepository} from '../repositories/roadmap.repository.js'
 import errorHandlerService from '../services/error-handler.service.js'
+import journalService from '../services/journal.service.js'
+import taskDependencyService from '../services/task-dependency.service.js'
 import taskService from '../services/task.service.js'
 import {readConfigFile} from '../util/read-config.js'
 import {readRoadmapFile} from '../util/read-roadmap.js'
-import {STATUS, Task, TASK_TYPE, TaskID} from '../util/types.js'
-import {updateTaskInRoadmap} from '../util/update-task.js'
+import {getTaskTypes} from '../util/task-types.js'
+import {Task, TaskID} from '../util/types.js'
 import {validateTaskID} from '../util/validate-task-id.js'
+import {getWorkflow, validateStatusChange} from '../util/workflow.js'
 import {writeRoadmapFile} from '../util/write-roadmap.js'
 
 export default class Update extends Command {
@@ -19,22 +23,33 @@ export default class Update extends Command {
   static override examples = [
     '<%= config.bin %> <%= command.id %> F-001 --status=completed --tested=true --notes="Fixed all bugs"',
     '<%= config.bin %> <%= command.id %> F-002 --deps="F-001" --clear-notes',
+    '<%= config.bin %> <%= command.id %> F-002 --status=completed --force',
   ]
   static override flags = {
-    'clear-notes': Flags.boolean({description: 'clear all notes from the task'}),
+    'clear-notes': Flags.boolean({description: 'remove all comments (and legacy notes) from the task'}),
     deps: Flags.string({
       char: 'd',
       description: 'update the dependencies of the task (comma-separated list of task IDs)',
     }),
+    force: Flags.boolean({
+      char: 'f',
+      default: false,
+      description: 'set --status=completed even if tasks it depends on are unfinished (reported as a warning)',
+    }),
+    json: Flags.boolean({
+      char: 'j',
+      default: false,
+      description: 'output machine-readable JSON (shapes documented in schemas/output/v1.json)',
+    }),
     'no-repo': Flags.boolean({
       default: false,
       description: 'use legacy direct file I/O instead of repository pattern',
     }),
-    notes: Flags.string({char: 'n', description: 'append notes to the task'}),
+    notes: Flags.string({char: 'n', description: 'add a comment to the task, like prt comment'}),
     status: Flags.string({
       char: 's',
-      description: 'set the status of the task (completed, in-progress, not-started)',
-      options: [STATUS.Completed, STATUS.InProgress, STATUS.NotStarted],
+      description:
+        'set the status of the task (completed, in-progress, not-started, or a workflow status from .prtrc.json); must be a transition the workflow allows',
     }),
     tested: Flags.string({
       char: 't',
@@ -42,8 +57,8 @@ export default class Update extends Command {
       options: ['true', 'false'],
     }),
     type: Flags.string({
-      description: 'update the task type (reassigns task ID and cascades to all references)',
-      options: [TASK_TYPE.Bug, TASK_TYPE.Feature, TASK_TYPE.Improvement, TASK_TYPE.Planning, TASK_TYPE.Research],
+      description:
+        'update the task type, built-in or from taskTypes in .prtrc.json (reassigns task ID and cascades to all references)',
     }),
     verbose: Flags.boolean({
       char: 'v',
@@ -51,8 +66,6 @@ export default class Update extends Command {
       description: 'show detailed error information including stack traces',
     }),
 
-    // flag with no value (-f, --force)
-    // force: Flags.boolean({char: 'f'}),
     // flag with a value (-n, --name=VALUE)
     // name: Flags.string({char: 'n', description: 'name to print'}),
   }
@@ -66,46 +79,49 @@ export default class Update extends Command {
       const roadmap = flags['no-repo']
         ? await readRoadmapFile(config.path)
         : await RoadmapRepository.fromConfig(config).load(config.path)
+      const taskTypes = getTaskTypes(config)
 
       // Handle type update separately since it requires ID reassignment and cascading
       if (flags.type) {
-        const newType = flags.type as TASK_TYPE
+        const newType = flags.type
         const oldTaskId = args.taskID
-        const {newTaskId, roadmap: updatedRoadmap} = taskService.updateTaskType(roadmap, oldTaskId, newType)
+        const {newTaskId, roadmap: updatedRoadmap} = taskService.updateTaskType(roadmap, oldTaskId, newType, {
+          taskTypes,
+          width: config.idWidth,
+        })
 
         await (flags['no-repo']
           ? writeRoadmapFile(config.path, updatedRoadmap)
           : RoadmapRepository.fromConfig(config).save(config.path, updatedRoadmap))
-
-        if (newTaskId === oldTaskId) {
-          this.log(`Task ${oldTaskId} was already of type ${newType}. No changes made.`)
-        } else {
-          this.log(`Task ${oldTaskId} has been updated to type ${newType} with new ID ${newTaskId}.`)
-          this.log(`All task references to ${oldTaskId} have been updated to ${newTaskId}.`)
-        }
+        await JournalRepository.fromConfig(config).record(
+          journalService.createEntry(roadmap, updatedRoadmap, journalService.formatCommand(this.id, this.argv)),
+        )
+
+        this.logResult(
+          flags.json,
+          newTaskId === oldTaskId
+            ? [`Task ${oldTaskId} was already of type ${newType}. No changes made.`]
+            : [
+                `Task ${oldTaskId} has been updated to type ${newType} with new ID ${newTaskId}.`,
+                `All task references to ${oldTaskId} have been updated to ${newTaskId}.`,
+              ],
+          {id: newTaskId, previousId: oldTaskId, task: updatedRoadmap.tasks.find((t) => t.id === newTaskId)},
+        )
 
         return
       }
 
+      const task = roadmap.tasks.find((t) => t.id === args.taskID)
       const updateObject: Partial<Task> = {}
 
-      if (flags['clear-notes']) {
-        updateObject.notes = ''
-      }
-
-      if (flags.notes) {
-        let existingNotes = ''
-
-        if (!flags['clear-notes']) {
-          const existingTask = roadmap.tasks.find((task) => task.id === args.taskID)
-          existingNotes = existingTask?.notes ? existingTask.notes + '\n' : ''
-        }
-
-        updateObject.notes = existingNotes + flags.notes
+      if (flags['clear-notes'] && task) {
+        // Comments go; the recorded status, priority and dependency changes stay
+        updateObject.activity = (task.activity ?? []).filter((entry) => entry.type !== 'comment')
+        updateObject.notes = undefined
       }
 
       if (flags.status) {
-        updateObject.status = flags.status as STATUS
+        updateObject.status = flags.status
       }
 
       if (flags.tested) {
@@ -118,7 +134,7 @@ export default class Update extends Command {
         // checking that each depArray item matches TaskID format
         for (const dep of depsArray) {
           try {
-            validateTaskID(dep)
+            validateTaskID(dep, taskTypes)
           } catch {
             this.error(`Invalid task ID in dependencies: ${dep}`)
           }
@@ -127,16 +143,54 @@ export default class Update extends Command {
         updateObject['depends-on'] = depsArray as TaskID[]
       }
 
-      const updatedRoadmap = await updateTaskInRoadmap(roadmap, args.taskID, updateObject)
+      if (task) {
+        validateStatusChange(task, updateObject, getWorkflow(config))
+        const warning = taskDependencyService.guardStatusChange(task, updateObject, roadmap.tasks, {
+          force: flags.force,
+          mode: config.dependencyGuard,
+        })
+        if (warning) {
+          this.warn(warning)
+        }
+      }
+
+      const updated = taskService.updateTask(roadmap, args.taskID, updateObject)
+      const updatedRoadmap = flags.notes ? taskService.addComment(updated, args.taskID, flags.notes) : updated
 
       await (flags['no-repo']
         ? writeRoadmapFile(config.path, updatedRoadmap)
         : RoadmapRepository.fromConfig(config).save(config.path, updatedRoadmap))
-
-      this.log(`Task ${args.taskID} has been updated.`)
+      await JournalRepository.fromConfig(config).record(
+        journalService.createEntry(roadmap, updatedRoadmap, journalService.formatCommand(this.id, this.argv)),
+      )
+
+      this.logResult(flags.json, [`Task ${args.taskID} has been updated.`], {
+        id: args.taskID,
+        task: updatedRoadmap.tasks.find((t) => t.id === args.taskID),
+      })
     } catch (error) {
       const exitCode = errorHandlerService.handleError(error)
+      if (flags.json) {
+        this.log(errorHandlerService.formatErrorJson(error))
+        this.exit(exitCode)
+      }
+
       this.error(errorHandlerService.formatErrorMessage(error, flags.verbose), {exit: exitCode})
     }
   }
+
+  /**
+   * Prints the result of the update: the given messages in text mode, or the result object as JSON.
+   * The result carries the previous ID when the type, and therefore the ID, was changed.
+   */
+  private logResult(json: boolean, messages: string[], result: {id: string; previousId?: string; task?: Task}): void {
+    if (json) {
+      this.log(JSON.stringify(result, null, 2))
+      return
+    }
+
+    for (const message of messages) {
+      this.log(message)
+    }
+  }
 }
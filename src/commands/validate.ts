@@ -1,22 +1,33 @@
 import {Command, Flags} from '@oclif/core'
 import {readFile} from 'node:fs/promises'
 
+import {ValidationErrorDetail} from '../errors/index.js'
 import {getDefaultConfigRepository} from '../repositories/config.repository.js'
 import {RoadmapRepository} from '../repositories/roadmap.repository.js'
 import displayService from '../services/display.service.js'
-import errorHandlerService from '../services/error-handler.service.js'
+import errorHandlerService, {ExitCodes} from '../services/error-handler.service.js'
+import milestoneService from '../services/milestone.service.js'
+import sprintService from '../services/sprint.service.js'
 import taskDependencyService from '../services/task-dependency.service.js'
+import taskHierarchyService from '../services/task-hierarchy.service.js'
 import {readConfigFile} from '../util/read-config.js'
+import {getTaskTypes} from '../util/task-types.js'
 import {Roadmap} from '../util/types.js'
 import {validateTask} from '../util/validate-task.js'
+import {getWorkflow} from '../util/workflow.js'
 
 export default class Validate extends Command {
   static override args = {
     // file: Args.string({description: 'file to read'}),
   }
   static override description = 'Validate roadmap structure, task data, and check for circular dependencies'
-  static override examples = ['<%= config.bin %> <%= command.id %>']
+  static override examples = ['<%= config.bin %> <%= command.id %>', '<%= config.bin %> <%= command.id %> --json']
   static override flags = {
+    json: Flags.boolean({
+      char: 'j',
+      default: false,
+      description: 'output machine-readable JSON (shapes documented in schemas/output/v1.json)',
+    }),
     'no-repo': Flags.boolean({
       default: false,
       description: 'use legacy direct file I/O instead of repository pattern',
@@ -34,14 +45,23 @@ export default class Validate extends Command {
 
   public async run(): Promise<void> {
     const {flags} = await this.parse(Validate)
+    // Progress messages would corrupt the JSON document, so they are only printed in text mode
+    const progress = (message: string) => {
+      if (!flags.json) {
+        this.log(message)
+      }
+    }
+
+    let valid = true
 
     try {
-      this.log(`validating roadmap...`)
+      progress(`validating roadmap...`)
 
       // Use repository pattern by default, unless --no-repo flag is set
       const config = flags['no-repo'] ? await readConfigFile() : await getDefaultConfigRepository().load()
 
       const roadmapPath = config.path
+      const options = {taskTypes: getTaskTypes(config), workflow: getWorkflow(config)}
 
       let roadmap: Roadmap
 
@@ -49,54 +69,117 @@ export default class Validate extends Command {
         const roadmapData = await readFile(roadmapPath, 'utf8')
         try {
           roadmap = JSON.parse(roadmapData) as Roadmap
-          this.log(`roadmap at ${roadmapPath} is valid JSON`)
+          progress(`roadmap at ${roadmapPath} is valid JSON`)
         } catch (error: unknown) {
           this.error(`roadmap at ${roadmapPath} is not valid JSON: ${error ? (error as Error).message : String(error)}`)
         }
       } else {
         try {
           roadmap = await RoadmapRepository.fromConfig(config).load(roadmapPath)
-          this.log(`roadmap at ${roadmapPath} is valid JSON`)
+          progress(`roadmap at ${roadmapPath} is valid JSON`)
         } catch (error: unknown) {
           this.error(`roadmap at ${roadmapPath} is not valid JSON: ${error ? (error as Error).message : String(error)}`)
         }
       }
 
-      if (roadmap.tasks.length === 0) {
+      if (roadmap.tasks.length === 0 && !flags.json) {
         this.log('roadmap contains no tasks to validate')
         this.log('roadmap validation complete')
         return
       }
 
+      const taskErrors: Array<{message: string; taskId: string; type: 'invalid-task'}> = []
       for (const task of roadmap.tasks) {
         try {
-          validateTask(task)
+          validateTask(task, options)
         } catch (error: unknown) {
-          this.error(`task ID ${task.id} is invalid: ${error ? (error as Error).message : String(error)}`)
+          const message = `task ID ${task.id} is invalid: ${error ? (error as Error).message : String(error)}`
+          if (!flags.json) {
+            this.error(message)
+          }
+
+          taskErrors.push({message, taskId: task.id, type: 'invalid-task'})
         }
       }
 
       // this.log(roadmap.tasks.length > 1 ? `all ${roadmap.tasks.length} tasks are valid` : `1 task is valid`)
 
-      // Validate dependencies (including circular dependency check)
-      this.log(`validating task dependencies...`)
-      const dependencyErrors = taskDependencyService.validateDependencies(roadmap)
+      // Validate milestones, sprints and the tasks' references to them
+      const milestoneErrors = this.reportPlanningErrors(
+        milestoneService.validateMilestones(roadmap),
+        'invalid-milestone',
+        flags.json,
+      )
+      const sprintErrors = this.reportPlanningErrors(
+        sprintService.validateSprints(roadmap),
+        'invalid-sprint',
+        flags.json,
+      )
 
-      if (dependencyErrors.length > 0) {
-        const errorLines = displayService.formatValidationErrors(dependencyErrors)
-        for (const line of errorLines) {
-          this.log(line)
+      // Validate dependencies (including circular dependency check) and the parent/child hierarchy
+      progress(`validating task dependencies...`)
+      const dependencyErrors = [
+        ...taskDependencyService.validateDependencies(roadmap),
+        ...taskHierarchyService.validateHierarchy(roadmap.tasks),
+      ]
+
+      if (flags.json) {
+        const errors = [...taskErrors, ...milestoneErrors, ...sprintErrors, ...dependencyErrors]
+        valid = errors.length === 0
+        this.log(JSON.stringify({errors, taskCount: roadmap.tasks.length, valid}, null, 2))
+      } else {
+        if (dependencyErrors.length > 0) {
+          const errorLines = displayService.formatValidationErrors(dependencyErrors)
+          for (const line of errorLines) {
+            this.log(line)
+          }
+
+          // Exit with error if any dependency errors found
+          this.error('Dependency validation failed')
         }
 
-        // Exit with error if any dependency errors found
-        this.error('Dependency validation failed')
+        this.log(`all task dependencies are valid`)
+        this.log(`roadmap validation complete`)
       }
-
-      this.log(`all task dependencies are valid`)
-      this.log(`roadmap validation complete`)
     } catch (error) {
       const exitCode = errorHandlerService.handleError(error)
+      if (flags.json) {
+        this.log(errorHandlerService.formatErrorJson(error))
+        this.exit(exitCode)
+      }
+
       this.error(errorHandlerService.formatErrorMessage(error, flags.verbose), {exit: exitCode})
     }
+
+    // Exiting inside the try block would be caught and reported as an error, so an invalid
+    // roadmap in JSON mode exits here, after the result has been printed
+    if (!valid) {
+      this.exit(ExitCodes.GENERAL_ERROR)
+    }
+  }
+
+  /**
+   * Reports the errors found in the milestones or sprints and the tasks' references to them.
+   * In text mode the errors are printed and the command fails; in JSON mode they are returned
+   * for the report, typed as invalid-reference when they concern a task.
+   */
+  private reportPlanningErrors<T extends 'invalid-milestone' | 'invalid-sprint'>(
+    details: ValidationErrorDetail[],
+    type: T,
+    json: boolean,
+  ) {
+    const errors = details.map(({message, taskId}) =>
+      taskId ? {message, taskId, type: 'invalid-reference' as const} : {message, type},
+    )
+
+    if (errors.length > 0 && !json) {
+      for (const {message} of errors) {
+        this.log(`❌ ${message}`)
+      }
+
+      this.error(`${type === 'invalid-milestone' ? 'Milestone' : 'Sprint'} validation failed`)
+    }
+
+    return errors
   }
 }
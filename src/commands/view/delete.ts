@@ -0,0 +1,39 @@
+import {Args, Command, Flags} from '@oclif/core'
+
+import {getDefaultConfigRepository} from '../../repositories/config.repository.js'
+import errorHandlerService from '../../services/error-handler.service.js'
+
+export default class ViewDelete extends Command {
+  static override args = {
+    name: Args.string({description: 'name of the view to delete', required: true}),
+  }
+  static override description = 'delete a saved view from .prtrc.json'
+  static override examples = [
+    '<%= config.bin %> <%= command.id %> standup',
+    '<%= config.bin %> <%= command.id %> mine --user',
+  ]
+  static override flags = {
+    user: Flags.boolean({
+      default: false,
+      description: 'delete from the user-level config (~/.prtrc.json) instead of the project config',
+    }),
+    verbose: Flags.boolean({
+      char: 'v',
+      default: false,
+      description: 'show detailed error information including stack traces',
+    }),
+  }
+
+  public async run(): Promise<void> {
+    const {args, flags} = await this.parse(ViewDelete)
+
+    try {
+      const path = await getDefaultConfigRepository().deleteView(args.name, flags.user ? 'user' : 'project')
+
+      this.log(`Deleted view "${args.name}" from ${path}`)
+    } catch (error) {
+      const exitCode = errorHandlerService.handleError(error)
+      this.error(errorHandlerService.formatErrorMessage(error, flags.verbose), {exit: exitCode})
+    }
+  }
+}
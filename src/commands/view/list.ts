@@ -0,0 +1,60 @@
+import {Command, Flags} from '@oclif/core'
+
+import {getDefaultConfigRepository} from '../../repositories/config.repository.js'
+import errorHandlerService from '../../services/error-handler.service.js'
+import viewService from '../../services/view.service.js'
+import {readConfigFile} from '../../util/read-config.js'
+
+export default class ViewList extends Command {
+  static override description = 'list the saved views, including those inherited from the user-level config'
+  static override examples = ['<%= config.bin %> <%= command.id %>', '<%= config.bin %> <%= command.id %> --json']
+  static override flags = {
+    json: Flags.boolean({
+      char: 'j',
+      default: false,
+      description: 'output the saved views as JSON',
+    }),
+    'no-repo': Flags.boolean({
+      default: false,
+      description: 'use legacy direct file I/O instead of repository pattern',
+    }),
+    verbose: Flags.boolean({
+      char: 'v',
+      default: false,
+      description: 'show detailed error information including stack traces',
+    }),
+  }
+
+  public async run(): Promise<void> {
+    const {flags} = await this.parse(ViewList)
+
+    try {
+      // Use repository pattern by default, unless --no-repo flag is set
+      const config = flags['no-repo'] ? await readConfigFile() : await getDefaultConfigRepository().load()
+      const views = config.views ?? {}
+
+      if (flags.json) {
+        this.log(JSON.stringify(views, null, 2))
+        return
+      }
+
+      const names = Object.keys(views).sort()
+      if (names.length === 0) {
+        this.log('No saved views. Create one with "prt view save <name> [list flags]".')
+        return
+      }
+
+      for (const name of names) {
+        this.log(`${name}: ${viewService.describe(views[name])}`)
+      }
+    } catch (error) {
+      const exitCode = errorHandlerService.handleError(error)
+      if (flags.json) {
+        this.log(errorHandlerService.formatErrorJson(error))
+        this.exit(exitCode)
+      }
+
+      this.error(errorHandlerService.formatErrorMessage(error, flags.verbose), {exit: exitCode})
+    }
+  }
+}
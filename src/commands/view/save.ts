@@ -0,0 +1,56 @@
+import {Args, Command, Flags} from '@oclif/core'
+
+import {getDefaultConfigRepository} from '../../repositories/config.repository.js'
+import errorHandlerService from '../../services/error-handler.service.js'
+import viewService from '../../services/view.service.js'
+import {listViewFlags, viewFromFlags} from '../../util/list-flags.js'
+import {getTaskTypes} from '../../util/task-types.js'
+import {getWorkflow} from '../../util/workflow.js'
+
+export default class ViewSave extends Command {
+  static override args = {
+    name: Args.string({description: 'name of the view (letters, digits, - and _)', required: true}),
+  }
+  static override description =
+    'save a set of list options as a named view in .prtrc.json, for use with "prt list --view"'
+  static override examples = [
+    '<%= config.bin %> <%= command.id %> standup --incomplete --assignee=alice --format=compact',
+    '<%= config.bin %> <%= command.id %> triage --type=bug --status=not-started --sort=priority:desc,createdAt',
+    '<%= config.bin %> <%= command.id %> mine --assignee=alice --user',
+  ]
+  static override flags = {
+    ...listViewFlags,
+    user: Flags.boolean({
+      default: false,
+      description: 'save to the user-level config (~/.prtrc.json) so the view is available in every project',
+    }),
+    verbose: Flags.boolean({
+      char: 'v',
+      default: false,
+      description: 'show detailed error information including stack traces',
+    }),
+  }
+
+  public async run(): Promise<void> {
+    const {args, flags} = await this.parse(ViewSave)
+
+    try {
+      const view = viewFromFlags(flags)
+
+      if (Object.keys(view).length === 0) {
+        throw new Error('A view needs at least one filter, sort or format option')
+      }
+
+      const configRepository = getDefaultConfigRepository()
+      const config = await configRepository.load()
+      viewService.validate(view, {taskTypes: getTaskTypes(config), workflow: getWorkflow(config)})
+
+      const path = await configRepository.saveView(args.name, view, flags.user ? 'user' : 'project')
+
+      this.log(`Saved view "${args.name}" to ${path}`)
+    } catch (error) {
+      const exitCode = errorHandlerService.handleError(error)
+      this.error(errorHandlerService.formatErrorMessage(error, flags.verbose), {exit: exitCode})
+    }
+  }
+}
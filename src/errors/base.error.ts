@@ -2,14 +2,33 @@
  * Error codes for all PRT errors
  */
 export enum PrtErrorCode {
-  PRT_FILE_CONFIG_NOT_FOUND = 'PRT_FILE_CONFIG_NOT_FOUND',
   // File errors
+  PRT_FILE_CONCURRENT_MODIFICATION = 'PRT_FILE_CONCURRENT_MODIFICATION',
+  PRT_FILE_CONFIG_NOT_FOUND = 'PRT_FILE_CONFIG_NOT_FOUND',
+  PRT_FILE_LOCK_TIMEOUT = 'PRT_FILE_LOCK_TIMEOUT',
   PRT_FILE_ROADMAP_NOT_FOUND = 'PRT_FILE_ROADMAP_NOT_FOUND',
 
+  // Git errors
+  PRT_GIT_COMMAND_FAILED = 'PRT_GIT_COMMAND_FAILED',
+
+  // Journal errors
+  PRT_JOURNAL_CONFLICT = 'PRT_JOURNAL_CONFLICT',
+
+  // Milestone errors
+  PRT_MILESTONE_NOT_FOUND = 'PRT_MILESTONE_NOT_FOUND',
+
+  // Query errors
+  PRT_QUERY_INVALID = 'PRT_QUERY_INVALID',
+
+  // Sprint errors
+  PRT_SPRINT_NOT_FOUND = 'PRT_SPRINT_NOT_FOUND',
+  PRT_TASK_DEPENDENCIES_INCOMPLETE = 'PRT_TASK_DEPENDENCIES_INCOMPLETE',
+  PRT_TASK_HAS_DEPENDENTS = 'PRT_TASK_HAS_DEPENDENTS',
   PRT_TASK_ID_INVALID = 'PRT_TASK_ID_INVALID',
   PRT_TASK_INVALID = 'PRT_TASK_INVALID',
   // Task errors
   PRT_TASK_NOT_FOUND = 'PRT_TASK_NOT_FOUND',
+  PRT_TASK_STATUS_TRANSITION_INVALID = 'PRT_TASK_STATUS_TRANSITION_INVALID',
 
   // Generic
   PRT_UNKNOWN = 'PRT_UNKNOWN',
@@ -17,6 +36,9 @@ export enum PrtErrorCode {
 
   // Validation errors
   PRT_VALIDATION_FAILED = 'PRT_VALIDATION_FAILED',
+
+  // View errors
+  PRT_VIEW_NOT_FOUND = 'PRT_VIEW_NOT_FOUND',
 }
 
 /**
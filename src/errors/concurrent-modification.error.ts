@@ -0,0 +1,14 @@
+import {PrtError, PrtErrorCode} from './base.error.js'
+
+/**
+ * Error thrown when a file was changed by another process between loading and saving it
+ */
+export class ConcurrentModificationError extends PrtError {
+  constructor(path: string) {
+    super(
+      `${path} was changed by another process since it was loaded; run the command again`,
+      PrtErrorCode.PRT_FILE_CONCURRENT_MODIFICATION,
+      {path},
+    )
+  }
+}
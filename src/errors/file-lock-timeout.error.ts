@@ -0,0 +1,18 @@
+import {PrtError, PrtErrorCode} from './base.error.js'
+
+/**
+ * Error thrown when another process holds the lock on a file for longer than the lock timeout
+ */
+export class FileLockTimeoutError extends PrtError {
+  constructor(path: string, timeout: number, holderPid?: number) {
+    super(
+      `Timed out after ${timeout}ms waiting for the lock on ${path}${holderPid === undefined ? '' : ` (held by process ${holderPid})`}`,
+      PrtErrorCode.PRT_FILE_LOCK_TIMEOUT,
+      {
+        path,
+        timeout,
+        ...(holderPid !== undefined && {holderPid}),
+      },
+    )
+  }
+}
@@ -0,0 +1,17 @@
+import {PrtError, PrtErrorCode} from './base.error.js'
+
+/**
+ * Error thrown when the local git binary is missing or a git command fails
+ */
+export class GitCommandError extends PrtError {
+  constructor(args: string[], cause?: Error) {
+    super(
+      `git ${args[0]} failed: ${cause?.message.trim().split('\n').at(-1) ?? 'unknown error'}`,
+      PrtErrorCode.PRT_GIT_COMMAND_FAILED,
+      {
+        args,
+        ...(cause && {cause: cause.message}),
+      },
+    )
+  }
+}
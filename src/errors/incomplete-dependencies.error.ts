@@ -0,0 +1,17 @@
+import {PrtError, PrtErrorCode} from './base.error.js'
+
+/**
+ * Error thrown when a task is completed before the tasks it depends on
+ */
+export class IncompleteDependenciesError extends PrtError {
+  constructor(taskId: string, incomplete: Array<{id: string; status: string}>) {
+    super(
+      `Cannot complete task ${taskId}: unfinished prerequisites ${incomplete.map(({id, status}) => `${id} (${status})`).join(', ')}. Use --force to complete it anyway`,
+      PrtErrorCode.PRT_TASK_DEPENDENCIES_INCOMPLETE,
+      {
+        incompleteIds: incomplete.map(({id}) => id),
+        taskId,
+      },
+    )
+  }
+}
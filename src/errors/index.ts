@@ -2,12 +2,23 @@
 export {PrtError, PrtErrorCode} from './base.error.js'
 
 export {CircularDependencyError} from './circular-dependency.error.js'
+export {ConcurrentModificationError} from './concurrent-modification.error.js'
 // Specific error classes
 export {ConfigNotFoundError} from './config-not-found.error.js'
+export {FileLockTimeoutError} from './file-lock-timeout.error.js'
+export {GitCommandError} from './git-command.error.js'
+export {IncompleteDependenciesError} from './incomplete-dependencies.error.js'
+export {InvalidStatusTransitionError} from './invalid-status-transition.error.js'
 export {InvalidTaskError} from './invalid-task.error.js'
+export {JournalConflictError} from './journal-conflict.error.js'
+export {MilestoneNotFoundError} from './milestone-not-found.error.js'
+export {QuerySyntaxError} from './query-syntax.error.js'
 export {RoadmapNotFoundError} from './roadmap-not-found.error.js'
+export {SprintNotFoundError} from './sprint-not-found.error.js'
+export {TaskHasDependentsError} from './task-has-dependents.error.js'
 export {TaskNotFoundError} from './task-not-found.error.js'
 export {ValidationError, type ValidationErrorDetail} from './validation.error.js'
+export {ViewNotFoundError} from './view-not-found.error.js'
 
 // Import for type guards
 import {PrtError, PrtErrorCode} from './base.error.js'
@@ -0,0 +1,19 @@
+import {PrtError, PrtErrorCode} from './base.error.js'
+
+/**
+ * Error thrown when a status change is not allowed by the project's workflow
+ */
+export class InvalidStatusTransitionError extends PrtError {
+  constructor(taskId: string, from: string, to: string, reason: string) {
+    super(
+      `Cannot change task ${taskId} from ${from} to ${to}: ${reason}`,
+      PrtErrorCode.PRT_TASK_STATUS_TRANSITION_INVALID,
+      {
+        from,
+        reason,
+        taskId,
+        to,
+      },
+    )
+  }
+}
@@ -0,0 +1,20 @@
+import {PrtError, PrtErrorCode} from './base.error.js'
+
+/**
+ * Error thrown when a journal entry cannot be undone or redone because the roadmap
+ * changed where the entry applies
+ */
+export class JournalConflictError extends PrtError {
+  constructor(action: 'redo' | 'undo', entry: {command: string; id: number}, path: string) {
+    super(
+      `Cannot ${action} #${entry.id} (${entry.command}): the roadmap changed at ${path || '/'} since`,
+      PrtErrorCode.PRT_JOURNAL_CONFLICT,
+      {
+        action,
+        command: entry.command,
+        entryId: entry.id,
+        path,
+      },
+    )
+  }
+}
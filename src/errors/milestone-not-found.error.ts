@@ -0,0 +1,10 @@
+import {PrtError, PrtErrorCode} from './base.error.js'
+
+/**
+ * Error thrown when a milestone cannot be found by its ID
+ */
+export class MilestoneNotFoundError extends PrtError {
+  constructor(milestoneId: string) {
+    super(`Milestone not found: ${milestoneId}`, PrtErrorCode.PRT_MILESTONE_NOT_FOUND, {milestoneId})
+  }
+}
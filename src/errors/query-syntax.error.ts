@@ -0,0 +1,19 @@
+import {PrtError, PrtErrorCode} from './base.error.js'
+
+/**
+ * Error thrown when a filter expression cannot be parsed.
+ * The message repeats the expression with a caret under the failing column.
+ */
+export class QuerySyntaxError extends PrtError {
+  constructor(expression: string, column: number, reason: string) {
+    super(
+      `Invalid filter expression at column ${column}: ${reason}\n  ${expression}\n  ${' '.repeat(column - 1)}^`,
+      PrtErrorCode.PRT_QUERY_INVALID,
+      {
+        column,
+        expression,
+        reason,
+      },
+    )
+  }
+}
@@ -0,0 +1,10 @@
+import {PrtError, PrtErrorCode} from './base.error.js'
+
+/**
+ * Error thrown when a sprint cannot be found by its ID
+ */
+export class SprintNotFoundError extends PrtError {
+  constructor(sprintId: string) {
+    super(`Sprint not found: ${sprintId}`, PrtErrorCode.PRT_SPRINT_NOT_FOUND, {sprintId})
+  }
+}
@@ -0,0 +1,17 @@
+import {PrtError, PrtErrorCode} from './base.error.js'
+
+/**
+ * Error thrown when a task cannot be removed because other tasks depend on it
+ */
+export class TaskHasDependentsError extends PrtError {
+  constructor(taskId: string, dependentIds: string[]) {
+    super(
+      `Cannot remove task ${taskId}: ${dependentIds.join(', ')} ${dependentIds.length === 1 ? 'depends' : 'depend'} on it`,
+      PrtErrorCode.PRT_TASK_HAS_DEPENDENTS,
+      {
+        dependentIds,
+        taskId,
+      },
+    )
+  }
+}
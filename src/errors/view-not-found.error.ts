@@ -0,0 +1,13 @@
+import {PrtError, PrtErrorCode} from './base.error.js'
+
+/**
+ * Error thrown when a saved view cannot be found by its name
+ */
+export class ViewNotFoundError extends PrtError {
+  constructor(viewName: string, configPath?: string) {
+    super(`View not found: ${viewName}`, PrtErrorCode.PRT_VIEW_NOT_FOUND, {
+      viewName,
+      ...(configPath && {configPath}),
+    })
+  }
+}
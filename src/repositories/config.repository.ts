@@ -1,10 +1,12 @@
 import {Ajv, type ValidateFunction} from 'ajv'
-import {readFile, stat} from 'node:fs/promises'
+import {readFile, stat, writeFile} from 'node:fs/promises'
 import {homedir} from 'node:os'
 import {join} from 'node:path'
 
-import {ConfigNotFoundError, ValidationError, type ValidationErrorDetail} from '../errors/index.js'
-import {Config} from '../util/types.js'
+import {ConfigNotFoundError, ValidationError, type ValidationErrorDetail, ViewNotFoundError} from '../errors/index.js'
+import {getTaskTypes} from '../util/task-types.js'
+import {Config, PRIORITY, View} from '../util/types.js'
+import {getWorkflow} from '../util/workflow.js'
 
 /**
  * Cache entry for config with metadata
@@ -15,6 +17,111 @@ interface ConfigCacheEntry {
   path: string
 }
 
+/**
+ * Config file a change is written to: the project's .prtrc.json or the user's ~/.prtrc.json
+ */
+export type ConfigScope = 'project' | 'user'
+
+/**
+ * JSON schema for a saved view (mirrors the views definition in schemas/config/v1.2.json)
+ */
+const viewSchema = {
+  additionalProperties: false,
+  description: 'Saved prt list options; command line flags override them',
+  properties: {
+    assignee: {description: 'Only tasks assigned to this person', type: 'string'},
+    columns: {
+      description: 'Columns for the table format',
+      items: {
+        enum: [
+          'assignee',
+          'created',
+          'deps',
+          'due',
+          'effort',
+          'id',
+          'milestone',
+          'parent',
+          'priority',
+          'sprint',
+          'status',
+          'tags',
+          'tests',
+          'title',
+          'type',
+          'updated',
+        ],
+        type: 'string',
+      },
+      type: 'array',
+    },
+    desc: {description: 'Sort in descending order', type: 'boolean'},
+    format: {description: 'Output format', enum: ['default', 'compact', 'table'], type: 'string'},
+    hasBlocks: {description: 'Only tasks that block (true) or do not block (false) other tasks', type: 'boolean'},
+    hasDependencies: {description: 'Only tasks with (true) or without (false) dependencies', type: 'boolean'},
+    incomplete: {description: 'Only in-progress and not-started tasks', type: 'boolean'},
+    priority: {
+      description: 'Only tasks with one of these priorities',
+      items: {enum: Object.values(PRIORITY)},
+      type: 'array',
+    },
+    search: {description: 'Only tasks whose title or details contain this text', type: 'string'},
+    sort: {
+      description: 'Sort keys, most significant first, each optionally suffixed with :asc or :desc',
+      items: {
+        pattern: '^(createdAt|dueDate|effort|priority|status|title|type|updatedAt)(:(asc|desc))?$',
+        type: 'string',
+      },
+      type: 'array',
+    },
+    status: {description: 'Only tasks with one of these statuses', items: {type: 'string'}, type: 'array'},
+    tags: {description: 'Only tasks that have all of these tags', items: {type: 'string'}, type: 'array'},
+    tree: {description: 'Show subtasks indented under their parent task', type: 'boolean'},
+    type: {description: 'Only tasks of one of these types', items: {type: 'string'}, type: 'array'},
+    where: {description: 'Filter expression (see prt list --where)', type: 'string'},
+  },
+  type: 'object',
+}
+
+/**
+ * JSON schema for the workflow section (mirrors the workflow definition in schemas/config/v1.2.json)
+ */
+const statusListSchema = {
+  oneOf: [{type: 'string'}, {items: {type: 'string'}, minItems: 1, type: 'array'}],
+}
+const workflowSchema = {
+  additionalProperties: false,
+  description: 'Custom statuses, status symbols and allowed status transitions',
+  properties: {
+    statuses: {
+      additionalProperties: {
+        additionalProperties: false,
+        properties: {symbol: {description: 'Symbol shown for the status', minLength: 1, type: 'string'}},
+        required: ['symbol'],
+        type: 'object',
+      },
+      description: 'Statuses added to (or re-symboled from) completed, in-progress and not-started',
+      propertyNames: {pattern: '^[a-z][a-z0-9-]*$'},
+      type: 'object',
+    },
+    transitions: {
+      description: 'Allowed status changes; any change is allowed when omitted',
+      items: {
+        additionalProperties: false,
+        properties: {
+          from: statusListSchema,
+          requires: {items: {enum: ['passes-tests']}, type: 'array'},
+          to: statusListSchema,
+        },
+        required: ['from', 'to'],
+        type: 'object',
+      },
+      type: 'array',
+    },
+  },
+  type: 'object',
+}
+
 /**
  * Configuration for ConfigRepository
  */
@@ -28,8 +135,9 @@ export interface ConfigRepositoryConfig {
  * Features:
  * - In-memory cache with mtime-based invalidation
  * - Multi-level config inheritance (project → user → global)
- * - JSON schema validation using schemas/config/v1.1.json
- * - Shallow merge strategy for inherited configs
+ * - JSON schema validation using schemas/config/v1.2.json
+ * - Shallow merge strategy for inherited configs (views are merged by name)
+ * - Saving and deleting named views in the project or user config file
  */
 export class ConfigRepository {
   private static configSchema = {
@@ -63,6 +171,32 @@ export class ConfigRepository {
         },
         type: 'object',
       },
+      dependencyGuard: {
+        default: 'strict',
+        description:
+          'What complete and update --status=completed do when a dependency is unfinished: refuse (strict), warn, or nothing (off)',
+        enum: ['strict', 'warn', 'off'],
+        type: 'string',
+      },
+      idWidth: {
+        default: 3,
+        description: 'Minimum number of digits in new task IDs (F-001 for 3, F-0001 for 4)',
+        minimum: 3,
+        type: 'integer',
+      },
+      journal: {
+        additionalProperties: false,
+        description: 'Operation journal used by prt undo, redo and log',
+        properties: {
+          maxEntries: {
+            default: 100,
+            description: 'Number of changes kept for undo; 0 turns the journal off',
+            minimum: 0,
+            type: 'integer',
+          },
+        },
+        type: 'object',
+      },
       metadata: {
         additionalProperties: false,
         description: 'Metadata about the project roadmap',
@@ -83,6 +217,19 @@ export class ConfigRepository {
         description: 'Path to the prt.json roadmap file',
         type: 'string',
       },
+      taskTypes: {
+        additionalProperties: {pattern: '^[A-Z]+$', type: 'string'},
+        description: 'Custom task types (lowercase name) mapped to their task ID prefix (uppercase letters)',
+        propertyNames: {pattern: '^[a-z][a-z0-9-]*$'},
+        type: 'object',
+      },
+      views: {
+        additionalProperties: viewSchema,
+        description: 'Named prt list views, used with prt list --view',
+        propertyNames: {pattern: String.raw`^[\w-]+$`},
+        type: 'object',
+      },
+      workflow: workflowSchema,
     },
     required: ['path'],
     type: 'object',
@@ -90,6 +237,7 @@ export class ConfigRepository {
   private cache: ConfigCacheEntry | null = null
   private config: ConfigRepositoryConfig
   private validateSchema: ValidateFunction
+  private validateViewSchema: ValidateFunction
 
   constructor(config?: ConfigRepositoryConfig) {
     this.config = {
@@ -100,6 +248,26 @@ export class ConfigRepository {
     // Initialize JSON schema validator
     const ajv = new Ajv({allErrors: true})
     this.validateSchema = ajv.compile(ConfigRepository.configSchema)
+    this.validateViewSchema = ajv.compile(viewSchema)
+  }
+
+  /**
+   * Delete a named view from the project or user config file
+   * @throws ViewNotFoundError if that file does not define the view
+   */
+  async deleteView(name: string, scope: ConfigScope = 'project'): Promise<string> {
+    const path = this.getScopePath(scope)
+    const config = await this.loadConfigFromPath(path)
+
+    if (!config?.views || !Object.hasOwn(config.views, name)) {
+      throw new ViewNotFoundError(name, path)
+    }
+
+    const views = {...config.views}
+    delete views[name]
+    await this.writeConfigFile(path, {...config, views})
+
+    return path
   }
 
   /**
@@ -164,6 +332,39 @@ export class ConfigRepository {
     return this.load()
   }
 
+  /**
+   * Save a named view to the project or user config file, replacing any view with the same name.
+   * A missing user config file is created; a missing project config file is an error.
+   * Returns the path of the file written.
+   */
+  async saveView(name: string, view: View, scope: ConfigScope = 'project'): Promise<string> {
+    if (!/^[\w-]+$/.test(name)) {
+      throw new ValidationError([
+        {field: 'name', message: `Invalid view name: ${name}. Use letters, digits, - and _`, type: 'invalid-value'},
+      ])
+    }
+
+    if (!this.validateViewSchema(view)) {
+      throw new ValidationError(
+        (this.validateViewSchema.errors ?? []).map((err) => ({
+          field: `views.${name}${err.instancePath.replaceAll('/', '.')}`,
+          message: err.message || 'Unknown error',
+          type: 'invalid-value',
+        })),
+      )
+    }
+
+    const path = this.getScopePath(scope)
+    const config = await this.loadConfigFromPath(path)
+    if (!config && scope === 'project') {
+      throw new ConfigNotFoundError(path)
+    }
+
+    await this.writeConfigFile(path, {...config, views: {...config?.views, [name]: view}} as Config)
+
+    return path
+  }
+
   /**
    * Get default config file search paths
    * Order: project → user → global
@@ -182,6 +383,18 @@ export class ConfigRepository {
     return paths
   }
 
+  /**
+   * Get the config file for a scope: the first search path is the project level, the second the user level
+   */
+  private getScopePath(scope: ConfigScope): string {
+    const path = this.config.searchPaths?.[scope === 'project' ? 0 : 1]
+    if (!path) {
+      throw new ConfigNotFoundError(scope === 'project' ? '.prtrc.json' : join(homedir(), '.prtrc.json'))
+    }
+
+    return path
+  }
+
   /**
    * Check if cached config is still valid by comparing mtime
    */
@@ -258,6 +471,8 @@ export class ConfigRepository {
         // Deep merge for nested objects
         cache: configs[i].config.cache ? {...merged.cache, ...configs[i].config.cache} : merged.cache,
         metadata: configs[i].config.metadata ? {...merged.metadata, ...configs[i].config.metadata} : merged.metadata,
+        // Views merge by name, so a project can override a single user-level view
+        views: configs[i].config.views ? {...merged.views, ...configs[i].config.views} : merged.views,
       }
     }
 
@@ -291,6 +506,11 @@ export class ConfigRepository {
 
         throw new ValidationError(errorDetails)
       }
+
+      // Custom task types must not clash with the built-in types or with each other's prefixes,
+      // and workflow transitions must only name known statuses
+      getTaskTypes(config)
+      getWorkflow(config)
     } catch (error) {
       // If it's already a ValidationError, re-throw it
       if (error instanceof ValidationError) {
@@ -307,6 +527,14 @@ export class ConfigRepository {
       ])
     }
   }
+
+  /**
+   * Write a config file and drop the cached merged config
+   */
+  private async writeConfigFile(path: string, config: Config): Promise<void> {
+    await writeFile(path, JSON.stringify(config, null, 2), 'utf8')
+    this.invalidateCache()
+  }
 }
 
 // Singleton instance with default configuration
@@ -1,2 +1,3 @@
 export * from './config.repository.js'
+export * from './journal.repository.js'
 export * from './roadmap.repository.js'
@@ -0,0 +1,123 @@
+import {readFile} from 'node:fs/promises'
+import {basename, dirname, extname, join} from 'node:path'
+
+import type {Journal, JournalEntry, NewJournalEntry} from '../services/journal.service.js'
+
+import {FileLockOptions, withFileLock} from '../util/file-lock.js'
+import {Config} from '../util/types.js'
+import {writeFileAtomic} from '../util/write-file-atomic.js'
+
+/**
+ * Configuration for JournalRepository
+ */
+export interface JournalRepositoryConfig {
+  lock?: FileLockOptions
+  /** Number of entries kept for undo; 0 turns recording off (default: 100) */
+  maxEntries?: number
+}
+
+/**
+ * JournalRepository stores the operation journal in a sidecar file next to the roadmap,
+ * e.g. prt.journal.json for prt.json. Every change is made while holding the file's lock
+ * and written atomically, like roadmap saves.
+ */
+export class JournalRepository {
+  private config: JournalRepositoryConfig & {maxEntries: number}
+  private path: string
+
+  constructor(path: string, config?: JournalRepositoryConfig) {
+    this.path = path
+    this.config = {...config, maxEntries: config?.maxEntries ?? 100}
+  }
+
+  /**
+   * Create a repository for the journal of the roadmap a Config points to
+   */
+  static fromConfig(config: Config): JournalRepository {
+    return new JournalRepository(JournalRepository.getJournalPath(config.path), {
+      maxEntries: config.journal?.maxEntries,
+    })
+  }
+
+  /**
+   * Get the journal file for a roadmap file
+   * @param roadmapPath - Path to the roadmap file
+   * @returns The path of its journal, e.g. ./prt.journal.json for ./prt.json
+   */
+  static getJournalPath(roadmapPath: string): string {
+    const extension = extname(roadmapPath)
+    return join(dirname(roadmapPath), `${basename(roadmapPath, extension)}.journal.json`)
+  }
+
+  /**
+   * Load the journal; a missing journal file is an empty journal
+   */
+  async load(): Promise<Journal> {
+    try {
+      const journal = JSON.parse(await readFile(this.path, 'utf8')) as Partial<Journal>
+      return {entries: journal.entries ?? [], undone: journal.undone ?? []}
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return {entries: [], undone: []}
+      }
+
+      throw error
+    }
+  }
+
+  /**
+   * Move an entry from the undone list back to the journal after redoing it
+   * @param entry - The redone entry
+   */
+  async markRedone(entry: JournalEntry): Promise<void> {
+    await this.update((journal) => ({
+      entries: [...journal.entries, entry],
+      undone: journal.undone.filter((undone) => undone.id !== entry.id),
+    }))
+  }
+
+  /**
+   * Move an entry from the journal to the undone list after undoing it
+   * @param entry - The undone entry
+   */
+  async markUndone(entry: JournalEntry): Promise<void> {
+    await this.update((journal) => ({
+      entries: journal.entries.filter((applied) => applied.id !== entry.id),
+      undone: [...journal.undone, entry],
+    }))
+  }
+
+  /**
+   * Record a change, dropping the oldest entries beyond the journal length.
+   * A new change can no longer be redone over, so the undone entries are dropped too.
+   * @param entry - The change to record, or null when nothing changed
+   * @returns The recorded entry with its number, or null if nothing was recorded
+   */
+  async record(entry: NewJournalEntry | null): Promise<JournalEntry | null> {
+    if (!entry || this.config.maxEntries === 0) {
+      return null
+    }
+
+    const journal = await this.update(({entries, undone}) => {
+      const lastId = Math.max(0, ...[...entries, ...undone].map((existing) => existing.id))
+      return {entries: [...entries, {...entry, id: lastId + 1}].slice(-this.config.maxEntries), undone: []}
+    })
+
+    return journal.entries.at(-1)!
+  }
+
+  /**
+   * Load, change and save the journal while holding its lock
+   */
+  private async update(change: (journal: Journal) => Journal): Promise<Journal> {
+    return withFileLock(
+      this.path,
+      async () => {
+        const journal = change(await this.load())
+        await writeFileAtomic(this.path, JSON.stringify(journal, null, 2))
+        return journal
+      },
+      this.config.lock,
+    )
+  }
+}
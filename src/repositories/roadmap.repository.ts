@@ -1,14 +1,16 @@
 import {FSWatcher, watch} from 'chokidar'
-import {readFile, stat, writeFile} from 'node:fs/promises'
+import {readFile, stat} from 'node:fs/promises'
 
+import {FileLockOptions, withFileLock} from '../util/file-lock.js'
+import {assertFileUnchanged, FileVersion, getFileVersion, recordFileVersion} from '../util/file-version.js'
 import {Config, Roadmap} from '../util/types.js'
+import {writeFileAtomic} from '../util/write-file-atomic.js'
 
 /**
  * LRU Cache entry with metadata
  */
-interface CacheEntry {
+interface CacheEntry extends FileVersion {
   data: Roadmap
-  mtime: number
   path: string
 }
 
@@ -29,6 +31,7 @@ function isTestEnvironment(): boolean {
  */
 export interface RepositoryConfig {
   cacheEnabled?: boolean
+  lock?: FileLockOptions
   maxCacheSize?: number
   watchFiles?: boolean
 }
@@ -40,6 +43,7 @@ export interface RepositoryConfig {
  * - Automatic cache invalidation on writes
  * - File system watching for external changes (using chokidar)
  * - Configuration via .prtrc.json cache settings
+ * - Locked, atomic saves that refuse to overwrite changes made by other processes
  */
 export class RoadmapRepository {
   private cache: Map<string, CacheEntry> = new Map()
@@ -52,6 +56,7 @@ export class RoadmapRepository {
 
     this.config = {
       cacheEnabled: config?.cacheEnabled ?? true,
+      lock: config?.lock,
       maxCacheSize: config?.maxCacheSize ?? 10,
       watchFiles: config?.watchFiles ?? defaultWatchFiles,
     }
@@ -119,7 +124,8 @@ export class RoadmapRepository {
   async load(path: string): Promise<Roadmap> {
     // Check if caching is disabled
     if (!this.config.cacheEnabled) {
-      return this.loadFromDisk(path)
+      const {roadmap} = await this.loadFromDisk(path)
+      return roadmap
     }
 
     // Check if we have a cached version
@@ -134,6 +140,7 @@ export class RoadmapRepository {
           // Cache hit - move to end for LRU
           this.cache.delete(path)
           this.cache.set(path, cached)
+          recordFileVersion(path, {hash: cached.hash, mtime: cached.mtime})
           return cached.data
         }
       } catch {
@@ -143,11 +150,10 @@ export class RoadmapRepository {
     }
 
     // Cache miss or stale - load from disk
-    const roadmap = await this.loadFromDisk(path)
-    const stats = await stat(path)
+    const {roadmap, version} = await this.loadFromDisk(path)
 
     // Add to cache with LRU eviction
-    this.addToCache(path, roadmap, stats.mtimeMs)
+    this.addToCache(path, roadmap, version)
 
     // Set up file watcher if enabled
     if (this.config.watchFiles && !this.watchers.has(path)) {
@@ -158,24 +164,41 @@ export class RoadmapRepository {
   }
 
   /**
-   * Save a roadmap to the file system and update cache
+   * Save a roadmap to the file system and update cache.
+   *
+   * The file is locked while saving and replaced atomically. If this process loaded the
+   * file before, the save is refused when its modification time or content changed since,
+   * so changes made by another process are never overwritten.
+   *
    * @param path - Path to the roadmap file
    * @param roadmap - The roadmap to save
+   * @throws ConcurrentModificationError if the file changed since it was loaded
+   * @throws FileLockTimeoutError if another process holds the lock for too long
    */
   async save(path: string, roadmap: Roadmap): Promise<void> {
-    await writeFile(path, JSON.stringify(roadmap, null, 2), 'utf8')
+    const data = JSON.stringify(roadmap, null, 2)
+
+    const version = await withFileLock(
+      path,
+      async () => {
+        await assertFileUnchanged(path)
+        await writeFileAtomic(path, data)
+        return getFileVersion(path, data)
+      },
+      this.config.lock,
+    )
+    recordFileVersion(path, version)
 
     // Update cache if caching is enabled
     if (this.config.cacheEnabled) {
-      const stats = await stat(path)
-      this.addToCache(path, roadmap, stats.mtimeMs)
+      this.addToCache(path, roadmap, version)
     }
   }
 
   /**
    * Add entry to cache with LRU eviction
    */
-  private addToCache(path: string, data: Roadmap, mtime: number): void {
+  private addToCache(path: string, data: Roadmap, version: FileVersion): void {
     // Remove old entry if exists (for LRU reordering)
     if (this.cache.has(path)) {
       this.cache.delete(path)
@@ -198,15 +221,19 @@ export class RoadmapRepository {
     }
 
     // Add new entry
-    this.cache.set(path, {data, mtime, path})
+    this.cache.set(path, {data, ...version, path})
   }
 
   /**
-   * Load roadmap from disk without caching
+   * Load roadmap from disk without caching, recording the version that was read
    */
-  private async loadFromDisk(path: string): Promise<Roadmap> {
+  private async loadFromDisk(path: string): Promise<{roadmap: Roadmap; version: FileVersion}> {
     const data = await readFile(path, 'utf8')
-    return JSON.parse(data) as Roadmap
+    const roadmap = JSON.parse(data) as Roadmap
+    const version = await getFileVersion(path, data)
+
+    recordFileVersion(path, version)
+    return {roadmap, version}
   }
 
   /**
@@ -1,13 +1,286 @@
-import {PRIORITY, Roadmap, STATUS, Task} from '../util/types.js'
-import {RoadmapStats} from './roadmap.service.js'
+import {DEFAULT_TASK_TYPES} from '../util/task-types.js'
+import {Config, PRIORITY, Roadmap, STATUS, Task, TaskActivity} from '../util/types.js'
+import {DEFAULT_STATUS_SYMBOLS, DEFAULT_WORKFLOW, getWorkflow, Workflow} from '../util/workflow.js'
+import {MilestoneReport} from './milestone.service.js'
+import {RoadmapStats, TaskGroupStats} from './roadmap.service.js'
+import {ScheduleAnalysis} from './schedule.service.js'
+import {SprintPlan, SprintStatus} from './sprint.service.js'
 import {DependencyValidationError} from './task-dependency.service.js'
+import taskHierarchyService from './task-hierarchy.service.js'
+import {NextTask} from './task-planning.service.js'
+
+/**
+ * Output formats supported by formatTaskList
+ */
+export type TaskListFormat = 'compact' | 'default' | 'json' | 'table'
+
+/**
+ * Header and cell value of each column available in the table list format
+ */
+const TASK_LIST_COLUMN_DEFINITIONS = {
+  assignee: {header: 'ASSIGNEE', value: (task: Task) => task.assignedTo ?? ''},
+  created: {header: 'CREATED', value: (task: Task) => task.createdAt?.slice(0, 10) ?? ''},
+  deps: {header: 'DEPS', value: (task: Task) => task['depends-on'].join(',')},
+  due: {header: 'DUE', value: (task: Task) => task.dueDate?.slice(0, 10) ?? ''},
+  effort: {
+    header: 'EFFORT',
+    value: (task: Task) => (task.effort === null || task.effort === undefined ? '' : String(task.effort)),
+  },
+  id: {header: 'ID', value: (task: Task) => task.id},
+  milestone: {header: 'MILESTONE', value: (task: Task) => task.milestone ?? ''},
+  parent: {header: 'PARENT', value: (task: Task) => task.parent ?? ''},
+  priority: {header: 'PRIORITY', value: (task: Task) => task.priority},
+  sprint: {header: 'SPRINT', value: (task: Task) => task.sprint ?? ''},
+  status: {header: 'STATUS', value: (task: Task) => task.status},
+  tags: {header: 'TAGS', value: (task: Task) => task.tags.join(',')},
+  tests: {header: 'TESTS', value: (task: Task) => (task['passes-tests'] ? 'pass' : 'fail')},
+  title: {header: 'TITLE', value: (task: Task) => task.title},
+  type: {header: 'TYPE', value: (task: Task) => task.type},
+  updated: {header: 'UPDATED', value: (task: Task) => task.updatedAt?.slice(0, 10) ?? ''},
+} as const satisfies Record<string, {header: string; value: (task: Task) => string}>
+
+/**
+ * A column available in the table list format
+ */
+export type TaskListColumn = keyof typeof TASK_LIST_COLUMN_DEFINITIONS
+
+/**
+ * All columns available in the table list format
+ */
+export const TASK_LIST_COLUMNS = Object.keys(TASK_LIST_COLUMN_DEFINITIONS) as TaskListColumn[]
+
+/**
+ * Columns shown by the table list format when none are selected
+ */
+export const DEFAULT_TASK_LIST_COLUMNS: TaskListColumn[] = ['id', 'status', 'priority', 'title', 'assignee', 'due']
+
+/**
+ * Options for formatTaskList
+ */
+export interface TaskListOptions {
+  /** Columns shown by the table format, in order (default: DEFAULT_TASK_LIST_COLUMNS) */
+  columns?: TaskListColumn[]
+  /** Output format (default: 'default') */
+  format?: TaskListFormat
+  /** Show subtasks indented under their parent (ignored by the json format) */
+  tree?: boolean
+  /** Maximum line width for the compact and table formats (default: no limit) */
+  width?: number
+}
+
+/** Space between table columns */
+const COLUMN_GAP = '  '
+
+/** Indentation per level of subtasks in tree lists */
+const TREE_INDENT = '  '
+
+/**
+ * Shortens text to fit in the given width, marking the cut with an ellipsis.
+ */
+function truncate(text: string, width: number): string {
+  if (text.length <= width) {
+    return text
+  }
+
+  return width <= 0 ? '' : `${text.slice(0, width - 1)}…`
+}
 
 /**
  * DisplayService provides centralized formatting for all display output.
  * This service handles task display, error formatting, and statistics presentation.
  * All methods are pure functions that return strings or arrays of strings.
+ * Status symbols come from the workflow the service was created with.
  */
 export class DisplayService {
+  constructor(private readonly workflow: Workflow = DEFAULT_WORKFLOW) {}
+
+  /**
+   * Create a display service that uses the status symbols of a project's workflow
+   *
+   * @throws ValidationError if the config's workflow is invalid
+   */
+  static fromConfig(config: Config): DisplayService {
+    return new DisplayService(getWorkflow(config))
+  }
+
+  /**
+   * Formats a task's activity log as a timeline, one entry per line, oldest first.
+   * Lines after the first of a multi-line comment are indented under it.
+   *
+   * Format:
+   *   2026-10-19 09:12  alice  changed status from not-started to in-progress
+   *   2026-10-19 09:15  alice  changed depends-on: added F-003, removed F-001
+   *   2026-10-19 10:02  bob  commented: Waiting for the API review
+   *
+   * @param activity - The activity entries to format
+   * @returns Array of formatted lines
+   *
+   * @example
+   * ```typescript
+   * const lines = displayService.formatActivity(task.activity ?? []);
+   * ```
+   */
+  formatActivity(activity: TaskActivity[]): string[] {
+    return activity.flatMap((entry) => {
+      const prefix = `  ${entry.at.slice(0, 16).replace('T', ' ')}  ${entry.author}  `
+      if (entry.type === 'comment') {
+        const [first, ...rest] = entry.body.split('\n')
+        return [`${prefix}commented: ${first}`, ...rest.map((line) => `    ${line}`)]
+      }
+
+      if (Array.isArray(entry.from) && Array.isArray(entry.to)) {
+        const {from, to} = entry
+        const added = to.filter((id) => !from.includes(id))
+        const removed = from.filter((id) => !to.includes(id))
+        const parts = [
+          ...(added.length > 0 ? [`added ${added.join(', ')}`] : []),
+          ...(removed.length > 0 ? [`removed ${removed.join(', ')}`] : []),
+        ]
+        return [`${prefix}changed ${entry.field}: ${parts.length > 0 ? parts.join(', ') : 'reordered'}`]
+      }
+
+      return [`${prefix}changed ${entry.field} from ${entry.from} to ${entry.to}`]
+    })
+  }
+
+  /**
+   * Formats the milestone list for the milestone list command, one line per milestone.
+   *
+   * Format:
+   * ○ v1.0 First release (target 2026-12-01, 3 of 5 tasks, 60%)
+   * ✓ v0.9 Beta (closed 2026-10-01, 4 of 4 tasks, 100%)
+   *
+   * @param reports - The progress reports of the milestones to list
+   * @returns Array of formatted lines
+   *
+   * @example
+   * ```typescript
+   * const reports = (roadmap.milestones ?? []).map((m) => milestoneService.getReport(roadmap, m.id));
+   * const lines = displayService.formatMilestoneList(reports);
+   * ```
+   */
+  formatMilestoneList(reports: MilestoneReport[]): string[] {
+    if (reports.length === 0) {
+      return ['No milestones. Create one with "prt milestone add <id>".']
+    }
+
+    return reports.map(({completed, milestone, overdue, progress, total}) => {
+      const date = milestone.closedAt
+        ? `closed ${milestone.closedAt.slice(0, 10)}`
+        : milestone.targetDate
+          ? `target ${milestone.targetDate.slice(0, 10)}${overdue ? ', overdue' : ''}`
+          : null
+      const details = [date, `${completed} of ${total} tasks`, `${progress}%`].filter(Boolean).join(', ')
+
+      const name = milestone.name === milestone.id ? '' : ` ${milestone.name}`
+
+      return `${milestone.closedAt ? '✓' : '○'} ${milestone.id}${name} (${details})`
+    })
+  }
+
+  /**
+   * Formats a milestone's progress report for the milestone show command: its details,
+   * completion and effort, its tasks, the blocked tasks, and the tasks at risk because
+   * they depend on unfinished work in other milestones.
+   *
+   * @param report - The milestone's report
+   * @param tasks - The tasks planned for the milestone
+   * @returns Array of formatted lines
+   *
+   * @example
+   * ```typescript
+   * const report = milestoneService.getReport(roadmap, 'v1.0');
+   * const lines = displayService.formatMilestoneReport(report, milestoneService.getTasks(roadmap, 'v1.0'));
+   * ```
+   */
+  formatMilestoneReport(report: MilestoneReport, tasks: Task[]): string[] {
+    const {atRisk, blocked, completed, effort, milestone, overdue, progress, total} = report
+    const state = milestone.closedAt ? `Closed ${milestone.closedAt.slice(0, 10)}` : 'Open'
+    const target = milestone.targetDate
+      ? ` | Target: ${milestone.targetDate.slice(0, 10)}${overdue ? ' (overdue)' : ''}`
+      : ''
+    const lines = ['', `Milestone: ${milestone.id}`, '', `Name: ${milestone.name}`, `Status: ${state}${target}`]
+
+    if (milestone.description) {
+      lines.push(`\nDescription:\n${milestone.description}`)
+    }
+
+    lines.push(
+      '',
+      `Progress: ${completed} of ${total} tasks completed (${progress}%)`,
+      `Effort: ${formatEffort(effort.total)} total, ${formatEffort(effort.remaining)} remaining, ${effort.unestimated} unestimated`,
+      '',
+    )
+
+    if (tasks.length === 0) {
+      lines.push('No tasks are planned for this milestone.', '')
+      return lines
+    }
+
+    lines.push(`Tasks (${tasks.length}):`, ...tasks.map((task) => `  ${this.formatTaskLine(task)}`), '')
+
+    if (blocked.length > 0) {
+      lines.push(`Blocked (${blocked.length}):`)
+      for (const {task, waitingOn} of blocked) {
+        lines.push(`  ${this.formatTaskLine(task)} - waiting on ${waitingOn.join(', ')}`)
+      }
+
+      lines.push('')
+    }
+
+    if (atRisk.length > 0) {
+      lines.push(`At risk (${atRisk.length}):`)
+      for (const {dependency, dependencyMilestone, task} of atRisk) {
+        lines.push(`  ${this.formatTaskLine(task)} - depends on ${dependency} in ${dependencyMilestone}`)
+      }
+
+      lines.push('')
+    }
+
+    return lines
+  }
+
+  /**
+   * Formats the ranked list of next actionable tasks for the next command.
+   * Returns an array of lines to be output.
+   *
+   * Format:
+   * 1. ○ [H] [F-003] Task title
+   *    Due: 2026-11-01 | Unblocks: 2 | Assignee: alice
+   *
+   * @param nextTasks - The ranked ready tasks to display
+   * @param totalReady - Total number of ready tasks before any limit was applied
+   * @returns Array of formatted lines
+   *
+   * @example
+   * ```typescript
+   * const next = taskPlanningService.getNextTasks(roadmap.tasks, {limit: 5});
+   * const lines = displayService.formatNextTasks(next, readyCount);
+   * ```
+   */
+  formatNextTasks(nextTasks: NextTask[], totalReady: number = nextTasks.length): string[] {
+    if (nextTasks.length === 0) {
+      return ['', 'No actionable tasks: every not-started task is waiting on incomplete dependencies.', '']
+    }
+
+    const lines: string[] = ['', `Next actionable tasks (${nextTasks.length} of ${totalReady} ready):`, '']
+
+    for (const [index, {task, unblocks}] of nextTasks.entries()) {
+      const status = this.formatStatusSymbol(task.status)
+      const priority = this.formatPrioritySymbol(task.priority)
+      const due = task.dueDate ? task.dueDate.slice(0, 10) : 'none'
+      const assignee = task.assignedTo ?? 'unassigned'
+
+      lines.push(
+        `${index + 1}. ${status} [${priority}] [${task.id}] ${task.title}`,
+        `   Due: ${due} | Unblocks: ${unblocks} | Assignee: ${assignee}`,
+        '',
+      )
+    }
+
+    return lines
+  }
+
   /**
    * Formats a priority as text (e.g., "High").
    * Capitalizes the first letter.
@@ -68,7 +341,8 @@ export class DisplayService {
 
   /**
    * Formats roadmap statistics for display.
-   * Returns an array of lines to be output.
+   * Returns an array of lines to be output. Progress, effort and breakdown
+   * sections are only included when the stats contain them.
    *
    * @param stats - The roadmap statistics to format
    * @returns Array of formatted statistics lines
@@ -94,6 +368,9 @@ export class DisplayService {
       `  Completed: ${stats.byStatus[STATUS.Completed]}`,
       `  In Progress: ${stats.byStatus[STATUS.InProgress]}`,
       `  Not Started: ${stats.byStatus[STATUS.NotStarted]}`,
+      ...Object.entries(stats.byStatus)
+        .filter(([status]) => !DEFAULT_STATUS_SYMBOLS.has(status))
+        .map(([status, count]) => `  ${this.formatStatusText(status)}: ${count}`),
       '',
       'By Type:',
       `  Features: ${stats.byType.feature}`,
@@ -101,6 +378,9 @@ export class DisplayService {
       `  Improvements: ${stats.byType.improvement}`,
       `  Planning: ${stats.byType.planning}`,
       `  Research: ${stats.byType.research}`,
+      ...Object.entries(stats.byType)
+        .filter(([type]) => !DEFAULT_TASK_TYPES.has(type))
+        .map(([type, count]) => `  ${type.charAt(0).toUpperCase()}${type.slice(1)}: ${count}`),
       '',
       'By Priority:',
       `  High: ${stats.byPriority[PRIORITY.High]}`,
@@ -108,36 +388,236 @@ export class DisplayService {
       `  Low: ${stats.byPriority[PRIORITY.Low]}`,
     )
 
+    if (stats.completionRate !== undefined || stats.testPassRate !== undefined || stats.overdue !== undefined) {
+      lines.push('', 'Progress:')
+      if (stats.completionRate !== undefined) {
+        lines.push(
+          `  Completion: ${stats.completionRate}% (${stats.byStatus[STATUS.Completed]} of ${stats.totalTasks} tasks)`,
+        )
+      }
+
+      if (stats.testPassRate !== undefined) {
+        lines.push(`  Tests Passing: ${stats.testPassRate}% (${stats.testsPassing ?? 0} of ${stats.totalTasks} tasks)`)
+      }
+
+      if (stats.overdue !== undefined) {
+        lines.push(`  Overdue: ${stats.overdue}`)
+      }
+    }
+
+    if (stats.effort) {
+      lines.push(
+        '',
+        'Effort:',
+        `  Total: ${formatEffort(stats.effort.total)}`,
+        `  Remaining: ${formatEffort(stats.effort.remaining)}`,
+        `  Unestimated Tasks: ${stats.effort.unestimated}`,
+      )
+    }
+
+    const breakdowns: Array<[string, Record<string, TaskGroupStats> | undefined]> = [
+      ['By Assignee:', stats.byAssignee],
+      ['By Tag:', stats.byTag],
+    ]
+    for (const [heading, groups] of breakdowns) {
+      if (groups && Object.keys(groups).length > 0) {
+        lines.push('', heading)
+        for (const name of Object.keys(groups).sort()) {
+          lines.push(`  ${name}: ${groups[name].completed} of ${groups[name].total} completed`)
+        }
+      }
+    }
+
     return lines
   }
 
   /**
-   * Formats a status as a symbol (✓, ~, ○).
+   * Formats a schedule analysis for the critical-path command.
+   * Returns an array of lines to be output: the critical path, a schedule table
+   * with earliest/latest start and slack per task, and any due date conflicts.
    *
-   * @param status - The status to format
-   * @returns A single character symbol representing the status
+   * Format:
+   * Critical path (total effort: 8):
+   *   ○ [H] [F-001] Task title (effort: 3)
+   *
+   * Schedule:
+   *   Task     Effort  Start  Finish  Latest Start  Slack
+   *   F-001 *       3      0       3             0      0
+   *
+   * @param analysis - The schedule analysis to format
+   * @returns Array of formatted lines
    *
    * @example
    * ```typescript
-   * displayService.formatStatusSymbol(STATUS.Completed) // Returns '✓'
-   * displayService.formatStatusSymbol(STATUS.InProgress) // Returns '~'
-   * displayService.formatStatusSymbol(STATUS.NotStarted) // Returns '○'
+   * const analysis = scheduleService.analyze(roadmap.tasks);
+   * const lines = displayService.formatScheduleAnalysis(analysis);
    * ```
    */
-  formatStatusSymbol(status: STATUS): string {
-    switch (status) {
-      case STATUS.Completed: {
-        return '✓'
-      }
+  formatScheduleAnalysis(analysis: ScheduleAnalysis): string[] {
+    if (analysis.schedule.length === 0) {
+      return ['', 'No remaining tasks to schedule.', '']
+    }
 
-      case STATUS.InProgress: {
-        return '~'
+    const lines: string[] = ['']
+
+    if (analysis.criticalPath.length === 0) {
+      lines.push('No critical path: none of the remaining tasks have an effort estimate.')
+    } else {
+      lines.push(`Critical path (total effort: ${formatEffort(analysis.totalEffort)}):`, '')
+      for (const {effort, task} of analysis.criticalPath) {
+        const status = this.formatStatusSymbol(task.status)
+        const priority = this.formatPrioritySymbol(task.priority)
+        lines.push(`  ${status} [${priority}] [${task.id}] ${task.title} (effort: ${formatEffort(effort)})`)
       }
+    }
+
+    const headers = ['Task', 'Effort', 'Start', 'Finish', 'Latest Start', 'Slack']
+    const rows = analysis.schedule.map((entry) => [
+      `${entry.task.id}${entry.critical ? ' *' : ''}`,
+      formatEffort(entry.effort),
+      formatEffort(entry.earliestStart),
+      formatEffort(entry.earliestFinish),
+      formatEffort(entry.latestStart),
+      formatEffort(entry.slack),
+    ])
+    const widths = headers.map((header, column) => Math.max(header.length, ...rows.map((row) => row[column].length)))
+    const formatRow = (row: string[]) =>
+      '  ' +
+      row.map((cell, column) => (column === 0 ? cell.padEnd(widths[0]) : cell.padStart(widths[column]))).join('  ')
 
-      case STATUS.NotStarted: {
-        return '○'
+    lines.push(
+      '',
+      'Schedule:',
+      '',
+      formatRow(headers),
+      ...rows.map((row) => formatRow(row)),
+      '',
+      '  * on the critical path',
+    )
+
+    if (analysis.conflicts.length > 0) {
+      lines.push('', `Due date conflicts (${analysis.conflicts.length}):`, '')
+      for (const conflict of analysis.conflicts) {
+        const dayWord = conflict.daysLate === 1 ? 'day' : 'days'
+        lines.push(
+          `  ⚠ [${conflict.task.id}] ${conflict.task.title}: due ${conflict.dueDate.slice(0, 10)}, earliest finish ${conflict.earliestFinishDate.slice(0, 10)} (${conflict.daysLate} ${dayWord} late)`,
+        )
       }
     }
+
+    lines.push('')
+    return lines
+  }
+
+  /**
+   * Formats the result of sprint planning: the tasks pulled in, each assignee's committed
+   * effort against their capacity, and the ready tasks that could not be considered.
+   *
+   * @param plan - The sprint plan
+   * @returns Array of formatted lines
+   *
+   * @example
+   * ```typescript
+   * const lines = displayService.formatSprintPlan(sprintService.planSprint(roadmap, 's1'));
+   * ```
+   */
+  formatSprintPlan(plan: SprintPlan): string[] {
+    const {load, planned, sprint, unassigned, unestimated} = plan
+    const lines =
+      planned.length === 0
+        ? [`No ready tasks fit the remaining capacity of sprint ${sprint.id}.`]
+        : [
+            `Pulled ${planned.length} task${planned.length === 1 ? '' : 's'} into sprint ${sprint.id}:`,
+            ...planned.map((task) => `  ${this.formatTaskLine(task)} - effort ${formatEffort(task.effort!)}`),
+          ]
+
+    lines.push(
+      '',
+      'Capacity:',
+      ...load.map(
+        ({assignee, capacity, committed}) =>
+          `  ${assignee}: ${formatEffort(committed)} of ${formatEffort(capacity)} committed`,
+      ),
+    )
+
+    if (unestimated.length > 0) {
+      lines.push('', `Skipped without an effort estimate: ${unestimated.map((task) => task.id).join(', ')}`)
+    }
+
+    if (unassigned.length > 0) {
+      lines.push('', `Skipped without an assignee with capacity: ${unassigned.map((task) => task.id).join(', ')}`)
+    }
+
+    return lines
+  }
+
+  /**
+   * Formats a sprint's status for the sprint status command: its dates, committed against
+   * completed effort overall and per assignee, and its tasks.
+   *
+   * @param status - The sprint status
+   * @param tasks - The tasks committed to the sprint
+   * @returns Array of formatted lines
+   *
+   * @example
+   * ```typescript
+   * const status = sprintService.getStatus(roadmap, 's1');
+   * const lines = displayService.formatSprintStatus(status, sprintService.getTasks(roadmap, 's1'));
+   * ```
+   */
+  formatSprintStatus(status: SprintStatus, tasks: Task[]): string[] {
+    const {committed, completed, completedTasks, daysLeft, members, progress, sprint, state, total, unestimated} =
+      status
+    const timing = state === 'active' ? `active, ${daysLeft} day${daysLeft === 1 ? '' : 's'} left` : state
+    const lines = [
+      '',
+      `Sprint: ${sprint.id}`,
+      '',
+      `Name: ${sprint.name}`,
+      `Dates: ${sprint.startDate.slice(0, 10)} to ${sprint.endDate.slice(0, 10)} (${timing})`,
+      '',
+      `Effort: ${formatEffort(completed)} of ${formatEffort(committed)} completed (${progress}%)`,
+      `Tasks: ${completedTasks} of ${total} completed${unestimated > 0 ? `, ${unestimated} unestimated` : ''}`,
+      '',
+    ]
+
+    if (members.length > 0) {
+      lines.push(
+        'Assignees:',
+        ...members.map(
+          ({assignee, capacity, committed, completed}) =>
+            `  ${assignee}: ${formatEffort(completed)} of ${formatEffort(committed)} completed, capacity ${formatEffort(capacity)}`,
+        ),
+        '',
+      )
+    }
+
+    if (tasks.length === 0) {
+      lines.push('No tasks are committed to this sprint. Fill it with "prt sprint plan".', '')
+      return lines
+    }
+
+    lines.push(`Tasks (${tasks.length}):`, ...tasks.map((task) => `  ${this.formatTaskLine(task)}`), '')
+    return lines
+  }
+
+  /**
+   * Formats a status as a symbol (✓, ~, ○ by default).
+   * Symbols set in the workflow take precedence; statuses the workflow does not know are shown as ?.
+   *
+   * @param status - The status to format
+   * @returns The symbol representing the status
+   *
+   * @example
+   * ```typescript
+   * displayService.formatStatusSymbol(STATUS.Completed) // Returns '✓'
+   * displayService.formatStatusSymbol(STATUS.InProgress) // Returns '~'
+   * displayService.formatStatusSymbol(STATUS.NotStarted) // Returns '○'
+   * DisplayService.fromConfig(config).formatStatusSymbol('blocked') // Returns the symbol from .prtrc.json
+   * ```
+   */
+  formatStatusSymbol(status: string): string {
+    return this.workflow.statuses.get(status) ?? '?'
   }
 
   /**
@@ -153,7 +633,7 @@ export class DisplayService {
    * displayService.formatStatusText(STATUS.NotStarted) // Returns 'Not Started'
    * ```
    */
-  formatStatusText(status: STATUS): string {
+  formatStatusText(status: string): string {
     return status
       .replaceAll('-', ' ')
       .split(' ')
@@ -161,6 +641,47 @@ export class DisplayService {
       .join(' ')
   }
 
+  /**
+   * Formats the subtasks of a task as an indented tree, followed by the
+   * progress and effort rolled up from them. Returns no lines for a task without subtasks.
+   *
+   * Format:
+   * Subtasks (1 of 2 completed, 50%):
+   *   ✓ [H] [F-011] Child title
+   *     ○ [M] [F-012] Grandchild title
+   * Subtask effort: 5 total, 3 remaining, 0 unestimated
+   *
+   * @param task - The parent task
+   * @param roadmap - The roadmap containing all tasks
+   * @returns Array of formatted lines
+   *
+   * @example
+   * ```typescript
+   * const lines = displayService.formatSubtasks(task, roadmap);
+   * ```
+   */
+  formatSubtasks(task: Task, roadmap: Roadmap): string[] {
+    const descendants = taskHierarchyService.getDescendants(task.id, roadmap.tasks)
+    if (descendants.length === 0) {
+      return []
+    }
+
+    const {completed, effort, progress, total} = taskHierarchyService.getRollup(task.id, roadmap.tasks)
+    const lines = [`Subtasks (${completed} of ${total} completed, ${progress}%):`]
+
+    // Direct children have no parent in the list, so the tree starts at depth 0
+    for (const {depth, task: subtask} of taskHierarchyService.flattenTree(descendants)) {
+      lines.push(`${TREE_INDENT.repeat(depth + 1)}${this.formatTaskLine(subtask)}`)
+    }
+
+    lines.push(
+      `Subtask effort: ${formatEffort(effort.total)} total, ${formatEffort(effort.remaining)} remaining, ${effort.unestimated} unestimated`,
+      '',
+    )
+
+    return lines
+  }
+
   /**
    * Formats the dependencies of a task for display.
    *
@@ -242,6 +763,18 @@ export class DisplayService {
       lines.push(`Blocks: ${task.blocks.join(', ')}`)
     }
 
+    if (task.parent) {
+      lines.push(`Parent: ${task.parent}`)
+    }
+
+    if (task.milestone) {
+      lines.push(`Milestone: ${task.milestone}`)
+    }
+
+    if (task.sprint) {
+      lines.push(`Sprint: ${task.sprint}`)
+    }
+
     // Timestamps
     lines.push(`\nCreated: ${task.createdAt}`, `Updated: ${task.updatedAt}`)
 
@@ -262,45 +795,104 @@ export class DisplayService {
       lines.push(`\nNotes:\n${task.notes}`)
     }
 
+    if (task.activity && task.activity.length > 0) {
+      lines.push('\nActivity:', ...this.formatActivity(task.activity))
+    }
+
     // Blank line at end
     lines.push('')
 
     return lines
   }
 
+  /**
+   * Formats a task as a single line for the compact list format.
+   *
+   * Format:
+   * ✓ [H] [F-001] Task title (alice, due 2026-11-01)
+   *
+   * @param task - The task to format
+   * @param width - Maximum line width (default: no limit)
+   * @returns The formatted line
+   *
+   * @example
+   * ```typescript
+   * console.log(displayService.formatTaskLine(task, process.stdout.columns));
+   * ```
+   */
+  formatTaskLine(task: Task, width?: number): string {
+    const status = this.formatStatusSymbol(task.status)
+    const priority = this.formatPrioritySymbol(task.priority)
+    const extras = [task.assignedTo, task.dueDate ? `due ${task.dueDate.slice(0, 10)}` : null].filter(Boolean)
+    const line = `${status} [${priority}] [${task.id}] ${task.title}${extras.length > 0 ? ` (${extras.join(', ')})` : ''}`
+
+    return width === undefined ? line : truncate(line, width)
+  }
+
   /**
    * Formats a list of tasks for display.
-   * Returns an array of lines including a header and all task summaries.
+   * The default format returns a header and the multi-line summary of every task;
+   * the compact format returns one line per task; the table format returns aligned
+   * columns under a header row; the json format returns the task array as a single entry.
+   * When a width is given, compact lines are cut to fit it and table columns are
+   * narrowed, the one with the most room to spare first, until each row fits. With the tree option, subtasks follow
+   * their parent, indented one level deeper (in the title column of the table format).
    *
    * @param tasks - The tasks to format
-   * @param options - Optional formatting options (reserved for future use)
-   * @param options.format - Output format: 'default' (current), 'compact', or 'json' (reserved)
+   * @param options - Optional formatting options
+   * @param options.format - Output format: 'default', 'compact', 'table' or 'json'
+   * @param options.columns - Columns shown by the table format, in order
+   * @param options.tree - Whether to show subtasks indented under their parent
+   * @param options.width - Maximum line width for the compact and table formats
    * @returns Array of formatted lines ready for output
    *
    * @example
    * ```typescript
-   * const lines = displayService.formatTaskList(tasks);
+   * const lines = displayService.formatTaskList(tasks, {
+   *   columns: ['id', 'title', 'status'],
+   *   format: 'table',
+   *   width: process.stdout.columns,
+   * });
    * for (const line of lines) {
    *   console.log(line);
    * }
    * ```
    */
-  formatTaskList(tasks: Task[], options?: {format?: 'compact' | 'default' | 'json'}): string[] {
+  formatTaskList(tasks: Task[], options?: TaskListOptions): string[] {
     const lines: string[] = []
     const format = options?.format ?? 'default'
 
-    // For now, only default format is implemented
-    // Future: support compact and json formats
-    if (format === 'default') {
-      // Add header
-      lines.push('', `Tasks (${tasks.length} total):`, '')
-
-      // Add each task summary
-      for (const task of tasks) {
-        const taskLines = this.formatTaskSummary(task)
-        for (const line of taskLines) {
-          lines.push(line)
-        }
+    // JSON output is the task array itself, pretty-printed as a single entry
+    if (format === 'json') {
+      return [JSON.stringify(tasks, null, 2)]
+    }
+
+    const entries = options?.tree ? taskHierarchyService.flattenTree(tasks) : tasks.map((task) => ({depth: 0, task}))
+
+    if (format === 'compact') {
+      return entries.map(({depth, task}) => {
+        const line = TREE_INDENT.repeat(depth) + this.formatTaskLine(task)
+        return options?.width === undefined ? line : truncate(line, options.width)
+      })
+    }
+
+    if (format === 'table') {
+      return this.formatTaskTable(
+        entries.map(({task}) => task),
+        options?.columns ?? DEFAULT_TASK_LIST_COLUMNS,
+        options?.width,
+        entries.map(({depth}) => depth),
+      )
+    }
+
+    // Add header
+    lines.push('', `Tasks (${tasks.length} total):`, '')
+
+    // Add each task summary
+    for (const {depth, task} of entries) {
+      const taskLines = this.formatTaskSummary(task)
+      for (const line of taskLines) {
+        lines.push(line === '' ? line : TREE_INDENT.repeat(depth) + line)
       }
     }
 
@@ -352,6 +944,70 @@ export class DisplayService {
     return lines
   }
 
+  /**
+   * Formats tasks as an aligned table for the table list format.
+   * Each column is as wide as its widest value. If the rows are wider than the
+   * given width, columns are narrowed one character at a time, each time the one
+   * that is furthest above its minimum: its header, or its full width for the ID
+   * column, which is never cut. Cut values end with an ellipsis. Rows that still
+   * do not fit are cut at the width.
+   *
+   * Format:
+   * ID     STATUS       TITLE
+   * F-001  in-progress  Task title
+   *
+   * @param tasks - The tasks to format
+   * @param columns - The columns to show, in order
+   * @param width - Maximum line width (default: no limit)
+   * @param depths - Subtask depth of each task, used to indent the title column (default: no indentation)
+   * @returns Array of formatted lines, starting with the header row
+   *
+   * @example
+   * ```typescript
+   * const lines = displayService.formatTaskTable(tasks, ['id', 'title', 'due'], 80);
+   * ```
+   */
+  formatTaskTable(tasks: Task[], columns: TaskListColumn[], width?: number, depths?: number[]): string[] {
+    const definitions = columns.map((column) => TASK_LIST_COLUMN_DEFINITIONS[column])
+    const rows = tasks.map((task, row) =>
+      definitions.map(
+        (definition, index) =>
+          (columns[index] === 'title' && depths ? TREE_INDENT.repeat(depths[row]) : '') + definition.value(task),
+      ),
+    )
+    const widths = definitions.map((definition, index) =>
+      Math.max(definition.header.length, ...rows.map((row) => row[index].length)),
+    )
+
+    if (width !== undefined) {
+      // IDs are what the other commands take, so the ID column is never cut
+      const minimums = columns.map((column, index) =>
+        column === 'id' ? widths[index] : TASK_LIST_COLUMN_DEFINITIONS[column].header.length,
+      )
+      let overflow =
+        widths.reduce((sum, columnWidth) => sum + columnWidth, 0) + COLUMN_GAP.length * (widths.length - 1) - width
+      while (overflow > 0) {
+        const slack = widths.map((columnWidth, index) => columnWidth - minimums[index])
+        const roomiest = slack.indexOf(Math.max(...slack))
+        if (slack[roomiest] <= 0) {
+          break
+        }
+
+        widths[roomiest]--
+        overflow--
+      }
+    }
+
+    const formatRow = (cells: string[]) =>
+      cells
+        .map((cell, index) => truncate(cell, widths[index]).padEnd(widths[index]))
+        .join(COLUMN_GAP)
+        .trimEnd()
+
+    const lines = [formatRow(definitions.map((definition) => definition.header)), ...rows.map((row) => formatRow(row))]
+    return width === undefined ? lines : lines.map((line) => truncate(line, width))
+  }
+
   /**
    * Formats test status as a symbol (✓ or ✗).
    *
@@ -430,3 +1086,10 @@ export class DisplayService {
  * ```
  */
 export default new DisplayService()
+
+/**
+ * Formats an effort-based number with at most two decimals (e.g., 3, 1.5, 0.33).
+ */
+function formatEffort(value: number): string {
+  return String(Number(value.toFixed(2)))
+}
@@ -8,10 +8,12 @@ import {getErrorCode, isPrtError, PrtErrorCode} from '../errors/index.js'
  * - 2: Validation error
  * - 3: Not found error
  * - 4: Dependency error
+ * - 5: Task completed before its dependencies (see dependencyGuard in .prtrc.json)
  */
 export const ExitCodes = {
   DEPENDENCY_ERROR: 4,
   GENERAL_ERROR: 1,
+  INCOMPLETE_DEPENDENCIES: 5,
   NOT_FOUND: 3,
   SUCCESS: 0,
   VALIDATION_ERROR: 2,
@@ -24,6 +26,34 @@ export type ExitCode = (typeof ExitCodes)[keyof typeof ExitCodes]
  * This service handles error formatting, exit code mapping, and verbose output.
  */
 export class ErrorHandlerService {
+  /**
+   * Formats an error as a JSON object for machine-readable (--json) output.
+   * PRT errors keep their code and context; other errors are reported as PRT_UNKNOWN
+   * with an empty context. The output shape is documented in schemas/output/v1.json.
+   *
+   * @param error - The error to format
+   * @returns JSON string of the form {"error": {"code", "message", "context"}}
+   *
+   * @example
+   * ```typescript
+   * if (flags.json) {
+   *   this.log(errorHandlerService.formatErrorJson(error))
+   *   this.exit(exitCode)
+   * }
+   * ```
+   */
+  formatErrorJson(error: unknown): string {
+    const payload = isPrtError(error)
+      ? {code: error.code, context: error.context ?? {}, message: error.message}
+      : {
+          code: PrtErrorCode.PRT_UNKNOWN,
+          context: {},
+          message: error instanceof Error ? error.message : String(error),
+        }
+
+    return JSON.stringify({error: payload}, null, 2)
+  }
+
   /**
    * Formats an error message for CLI display.
    * When verbose=true, includes stack traces and context information.
@@ -84,16 +114,26 @@ export class ErrorHandlerService {
     switch (code) {
       case PrtErrorCode.PRT_FILE_CONFIG_NOT_FOUND:
       case PrtErrorCode.PRT_FILE_ROADMAP_NOT_FOUND:
-      case PrtErrorCode.PRT_TASK_NOT_FOUND: {
+      case PrtErrorCode.PRT_MILESTONE_NOT_FOUND:
+      case PrtErrorCode.PRT_SPRINT_NOT_FOUND:
+      case PrtErrorCode.PRT_TASK_NOT_FOUND:
+      case PrtErrorCode.PRT_VIEW_NOT_FOUND: {
         return ExitCodes.NOT_FOUND
       }
 
+      case PrtErrorCode.PRT_QUERY_INVALID:
       case PrtErrorCode.PRT_TASK_ID_INVALID:
       case PrtErrorCode.PRT_TASK_INVALID:
+      case PrtErrorCode.PRT_TASK_STATUS_TRANSITION_INVALID:
       case PrtErrorCode.PRT_VALIDATION_FAILED: {
         return ExitCodes.VALIDATION_ERROR
       }
 
+      case PrtErrorCode.PRT_TASK_DEPENDENCIES_INCOMPLETE: {
+        return ExitCodes.INCOMPLETE_DEPENDENCIES
+      }
+
+      case PrtErrorCode.PRT_TASK_HAS_DEPENDENTS:
       case PrtErrorCode.PRT_VALIDATION_CIRCULAR_DEPENDENCY: {
         return ExitCodes.DEPENDENCY_ERROR
       }
@@ -0,0 +1,397 @@
+import {TaskNotFoundError} from '../errors/index.js'
+import {PRIORITY, STATUS, Task, TaskID} from '../util/types.js'
+import displayService from './display.service.js'
+
+/**
+ * Supported output formats for dependency graph rendering
+ */
+export type GraphFormat = 'ascii' | 'dot' | 'mermaid'
+
+/**
+ * Which side of a focused task's dependency graph to include
+ */
+export type GraphDirection = 'both' | 'downstream' | 'upstream'
+
+/**
+ * Options for selecting which tasks appear in a rendered graph
+ */
+export interface GraphSelectionOptions {
+  /** Side of the focused task to include (default: both) */
+  direction?: GraphDirection
+  /** Only include this task and the tasks connected to it */
+  focus?: TaskID
+  /** Leave completed tasks out of the graph */
+  hideCompleted?: boolean
+}
+
+/**
+ * A directed edge from a prerequisite task to the task it unblocks
+ */
+export interface GraphEdge {
+  from: TaskID
+  to: TaskID
+}
+
+// Custom workflow statuses are filled like in-progress tasks
+const DOT_STATUS_FILL: Record<string, string> = {
+  [STATUS.Completed]: 'palegreen',
+  [STATUS.InProgress]: 'lightgoldenrod1',
+  [STATUS.NotStarted]: 'white',
+}
+
+const DOT_PRIORITY_BORDER: Record<PRIORITY, string> = {
+  [PRIORITY.High]: 'color="red3", penwidth=2.5',
+  [PRIORITY.Low]: 'color="gray50", style="filled,dashed"',
+  [PRIORITY.Medium]: 'color="black", penwidth=1.5',
+}
+
+const MERMAID_CLASS_DEFS = [
+  'classDef completed fill:#c8e6c9,color:#1b5e20',
+  'classDef inProgress fill:#fff59d,color:#5d4037',
+  'classDef notStarted fill:#ffffff,color:#212121',
+  'classDef priorityHigh stroke:#c62828,stroke-width:3px',
+  'classDef priorityMedium stroke:#424242,stroke-width:1.5px',
+  'classDef priorityLow stroke:#9e9e9e,stroke-width:1px,stroke-dasharray:4 3',
+]
+
+/**
+ * GraphRenderService renders the task dependency graph as Graphviz DOT,
+ * a Mermaid flowchart, or an ASCII tree for terminal output.
+ * Edges always point from a prerequisite to the task it unblocks, combining
+ * both depends-on and blocks relationships.
+ */
+export class GraphRenderService {
+  /**
+   * Collects the edges between the given tasks.
+   * Relationships pointing at tasks outside the list are ignored, and an edge
+   * declared on both sides (depends-on and blocks) is only returned once.
+   *
+   * @param tasks - The tasks to connect
+   * @returns Array of edges, in task order
+   *
+   * @example
+   * ```typescript
+   * // F-002 depends on F-001
+   * graphRenderService.getEdges(roadmap.tasks) // [{from: 'F-001', to: 'F-002'}]
+   * ```
+   */
+  getEdges(tasks: Task[]): GraphEdge[] {
+    const ids = new Set(tasks.map((task) => task.id))
+    const seen = new Set<string>()
+    const edges: GraphEdge[] = []
+
+    const addEdge = (from: TaskID, to: TaskID) => {
+      const key = `${from}->${to}`
+      if (ids.has(from) && ids.has(to) && !seen.has(key)) {
+        seen.add(key)
+        edges.push({from, to})
+      }
+    }
+
+    for (const task of tasks) {
+      for (const depId of task['depends-on']) {
+        addEdge(depId, task.id)
+      }
+
+      for (const blockedId of task.blocks) {
+        addEdge(task.id, blockedId)
+      }
+    }
+
+    return edges
+  }
+
+  /**
+   * Renders the tasks in the requested format.
+   *
+   * @param tasks - The tasks to render (usually the result of selectTasks)
+   * @param format - The output format
+   * @returns The rendered graph as a string
+   *
+   * @example
+   * ```typescript
+   * const output = graphRenderService.render(roadmap.tasks, 'mermaid');
+   * ```
+   */
+  render(tasks: Task[], format: GraphFormat): string {
+    switch (format) {
+      case 'ascii': {
+        return this.renderAscii(tasks)
+      }
+
+      case 'dot': {
+        return this.renderDot(tasks)
+      }
+
+      case 'mermaid': {
+        return this.renderMermaid(tasks)
+      }
+    }
+  }
+
+  /**
+   * Renders the tasks as an ASCII tree, with prerequisites as parents of the tasks they unblock.
+   * Tasks without a prerequisite in the list are roots. A task reachable from several parents
+   * is expanded once; later occurrences are marked "(see above)".
+   *
+   * Format:
+   * ✓ [H] [F-001] Task title
+   * └── ○ [M] [F-002] Dependent task
+   *
+   * @param tasks - The tasks to render
+   * @returns The tree as a string, or a message if there are no tasks
+   *
+   * @example
+   * ```typescript
+   * console.log(graphRenderService.renderAscii(roadmap.tasks));
+   * ```
+   */
+  renderAscii(tasks: Task[]): string {
+    if (tasks.length === 0) {
+      return 'No tasks to display.'
+    }
+
+    const taskMap = new Map(tasks.map((task) => [task.id, task]))
+    const children = new Map<TaskID, TaskID[]>()
+    const hasParent = new Set<TaskID>()
+    for (const {from, to} of this.getEdges(tasks)) {
+      children.set(from, [...(children.get(from) ?? []), to])
+      hasParent.add(to)
+    }
+
+    const lines: string[] = []
+    const expanded = new Set<TaskID>()
+
+    const visit = (id: TaskID, prefix: string, connector: string, childPrefix: string) => {
+      const task = taskMap.get(id)!
+      const label = `${displayService.formatStatusSymbol(task.status)} [${displayService.formatPrioritySymbol(task.priority)}] [${task.id}] ${task.title}`
+
+      if (expanded.has(id)) {
+        lines.push(`${prefix}${connector}${label} (see above)`)
+        return
+      }
+
+      expanded.add(id)
+      lines.push(`${prefix}${connector}${label}`)
+
+      const kids = children.get(id) ?? []
+      for (const [index, kid] of kids.entries()) {
+        const last = index === kids.length - 1
+        visit(kid, prefix + childPrefix, last ? '└── ' : '├── ', last ? '    ' : '│   ')
+      }
+    }
+
+    for (const task of tasks) {
+      if (!hasParent.has(task.id)) {
+        visit(task.id, '', '', '')
+      }
+    }
+
+    // Tasks that are only reachable through a cycle have no root; list them at top level
+    for (const task of tasks) {
+      if (!expanded.has(task.id)) {
+        visit(task.id, '', '', '')
+      }
+    }
+
+    return lines.join('\n')
+  }
+
+  /**
+   * Renders the tasks as a Graphviz DOT digraph.
+   * Node fill colour reflects status and the border reflects priority
+   * (high: thick red, medium: black, low: dashed grey).
+   *
+   * @param tasks - The tasks to render
+   * @returns The DOT source
+   *
+   * @example
+   * ```typescript
+   * // prt graph --format=dot | dot -Tsvg > roadmap.svg
+   * const dot = graphRenderService.renderDot(roadmap.tasks);
+   * ```
+   */
+  renderDot(tasks: Task[]): string {
+    const lines = ['digraph roadmap {', '  rankdir=LR;', '  node [shape=box, style=filled, fontname="Helvetica"];']
+
+    for (const task of tasks) {
+      const label = this.escapeDot(`${task.id}\n${task.title}`)
+      lines.push(
+        `  "${task.id}" [label="${label}", fillcolor="${DOT_STATUS_FILL[task.status] ?? DOT_STATUS_FILL[STATUS.InProgress]}", ${DOT_PRIORITY_BORDER[task.priority]}];`,
+      )
+    }
+
+    for (const {from, to} of this.getEdges(tasks)) {
+      lines.push(`  "${from}" -> "${to}";`)
+    }
+
+    lines.push('}')
+    return lines.join('\n')
+  }
+
+  /**
+   * Renders the tasks as a Mermaid flowchart.
+   * Each node gets one class for its status and one for its priority.
+   *
+   * @param tasks - The tasks to render
+   * @returns The Mermaid source (without code fences)
+   *
+   * @example
+   * ```typescript
+   * const mermaid = graphRenderService.renderMermaid(roadmap.tasks);
+   * ```
+   */
+  renderMermaid(tasks: Task[]): string {
+    const lines = ['flowchart LR']
+
+    for (const task of tasks) {
+      lines.push(`  ${this.mermaidId(task.id)}["${this.escapeMermaid(`${task.id}: ${task.title}`)}"]`)
+    }
+
+    for (const {from, to} of this.getEdges(tasks)) {
+      lines.push(`  ${this.mermaidId(from)} --> ${this.mermaidId(to)}`)
+    }
+
+    for (const classDef of MERMAID_CLASS_DEFS) {
+      lines.push(`  ${classDef}`)
+    }
+
+    const statusClass: Record<string, string> = {
+      [STATUS.Completed]: 'completed',
+      [STATUS.InProgress]: 'inProgress',
+      [STATUS.NotStarted]: 'notStarted',
+    }
+    const priorityClass: Record<PRIORITY, string> = {
+      [PRIORITY.High]: 'priorityHigh',
+      [PRIORITY.Low]: 'priorityLow',
+      [PRIORITY.Medium]: 'priorityMedium',
+    }
+
+    for (const task of tasks) {
+      lines.push(
+        `  class ${this.mermaidId(task.id)} ${statusClass[task.status] ?? statusClass[STATUS.InProgress]}`,
+        `  class ${this.mermaidId(task.id)} ${priorityClass[task.priority]}`,
+      )
+    }
+
+    return lines.join('\n')
+  }
+
+  /**
+   * Selects the tasks to include in a graph.
+   * With a focus task, only that task and its transitive dependencies (upstream)
+   * and/or dependents (downstream) are kept, following the graph's edges, so a
+   * relationship declared with blocks counts as much as one declared with depends-on. Completed tasks can be hidden;
+   * the focus task itself is always kept. Preserves the input order.
+   *
+   * @param tasks - All tasks in the roadmap
+   * @param options - Focus, direction and completed-task filtering
+   * @returns The selected tasks
+   * @throws TaskNotFoundError if the focus task does not exist
+   *
+   * @example
+   * ```typescript
+   * const tasks = graphRenderService.selectTasks(roadmap.tasks, {
+   *   direction: 'upstream',
+   *   focus: 'F-003',
+   *   hideCompleted: true,
+   * });
+   * ```
+   */
+  selectTasks(tasks: Task[], options: GraphSelectionOptions = {}): Task[] {
+    let selected = tasks
+
+    if (options.focus !== undefined) {
+      const focusId = options.focus
+      if (!tasks.some((task) => task.id === focusId)) {
+        throw new TaskNotFoundError(focusId)
+      }
+
+      const direction = options.direction ?? 'both'
+      const edges = this.getEdges(tasks)
+      const keep = new Set<TaskID>([focusId])
+
+      if (direction !== 'downstream') {
+        for (const id of this.reachable(focusId, edges, 'upstream')) {
+          keep.add(id)
+        }
+      }
+
+      if (direction !== 'upstream') {
+        for (const id of this.reachable(focusId, edges, 'downstream')) {
+          keep.add(id)
+        }
+      }
+
+      selected = selected.filter((task) => keep.has(task.id))
+    }
+
+    if (options.hideCompleted) {
+      selected = selected.filter((task) => task.status !== STATUS.Completed || task.id === options.focus)
+    }
+
+    return selected
+  }
+
+  /**
+   * Escapes a string for use inside a double-quoted DOT attribute.
+   */
+  private escapeDot(value: string): string {
+    return value
+      .replaceAll('\\', '\\\\')
+      .replaceAll('"', String.raw`\"`)
+      .replaceAll('\n', String.raw`\n`)
+  }
+
+  /**
+   * Escapes a string for use inside a quoted Mermaid node label.
+   */
+  private escapeMermaid(value: string): string {
+    return value.replaceAll('"', '#quot;')
+  }
+
+  /**
+   * Converts a task ID into a Mermaid-safe node identifier (F-001 becomes F_001).
+   */
+  private mermaidId(id: TaskID): string {
+    return id.replaceAll('-', '_')
+  }
+
+  /**
+   * Finds the tasks reachable from a task by following edges towards its prerequisites
+   * (upstream) or its dependents (downstream). The starting task is included.
+   */
+  private reachable(start: TaskID, edges: GraphEdge[], direction: 'downstream' | 'upstream'): Set<TaskID> {
+    const next = new Map<TaskID, TaskID[]>()
+    for (const {from, to} of edges) {
+      const [source, target] = direction === 'downstream' ? [from, to] : [to, from]
+      next.set(source, [...(next.get(source) ?? []), target])
+    }
+
+    const visited = new Set<TaskID>([start])
+    const queue = [start]
+    while (queue.length > 0) {
+      for (const id of next.get(queue.shift()!) ?? []) {
+        if (!visited.has(id)) {
+          visited.add(id)
+          queue.push(id)
+        }
+      }
+    }
+
+    return visited
+  }
+}
+
+/**
+ * Default export instance of GraphRenderService for convenience.
+ * Can be imported and used directly without instantiation.
+ *
+ * @example
+ * ```typescript
+ * import graphRenderService from './services/graph-render.service.js';
+ * const tasks = graphRenderService.selectTasks(roadmap.tasks, {hideCompleted: true});
+ * console.log(graphRenderService.render(tasks, 'dot'));
+ * ```
+ */
+export default new GraphRenderService()
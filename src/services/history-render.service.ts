@@ -0,0 +1,215 @@
+import type {CycleTimeStats, DailyProgress, HistoryStats, ThroughputPeriod} from './history.service.js'
+
+/**
+ * Supported output formats for history statistics
+ */
+export type HistoryFormat = 'ascii' | 'csv'
+
+/**
+ * The statistics `prt history stats` can report
+ */
+export type HistoryMetric = 'burndown' | 'burnup' | 'cycle-time' | 'throughput'
+
+/**
+ * All metrics, in the order they are rendered
+ */
+export const HISTORY_METRICS: HistoryMetric[] = ['burndown', 'burnup', 'throughput', 'cycle-time']
+
+/**
+ * Options for rendering history statistics
+ */
+export interface HistoryRenderOptions {
+  /** Measure burndown and burnup in effort instead of task counts */
+  effort?: boolean
+  /** Output format (default: ascii) */
+  format?: HistoryFormat
+  /** Metrics to render (default: all) */
+  metrics?: HistoryMetric[]
+  /** Width of the longest bar in ASCII charts (default: 40) */
+  width?: number
+}
+
+const TITLES: Record<HistoryMetric, string> = {
+  burndown: 'Burndown',
+  burnup: 'Burnup',
+  'cycle-time': 'Cycle time (days)',
+  throughput: 'Throughput (tasks completed per week)',
+}
+
+/**
+ * HistoryRenderService renders the statistics computed by HistoryService as
+ * horizontal ASCII bar charts for the terminal, or as CSV for spreadsheets.
+ */
+export class HistoryRenderService {
+  /**
+   * Renders the selected metrics, separated by a blank line.
+   *
+   * @param stats - The statistics to render
+   * @param options - Format, metrics, effort units and chart width
+   * @returns The rendered output
+   *
+   * @example
+   * ```typescript
+   * const output = historyRenderService.render(stats, {format: 'csv', metrics: ['burndown']});
+   * ```
+   */
+  render(stats: HistoryStats, options: HistoryRenderOptions = {}): string {
+    const metrics = options.metrics ?? HISTORY_METRICS
+    const sections = HISTORY_METRICS.filter((metric) => metrics.includes(metric)).map((metric) =>
+      options.format === 'csv' ? this.renderCsv(stats, metric, options) : this.renderAscii(stats, metric, options),
+    )
+
+    return sections.join('\n\n')
+  }
+
+  /**
+   * Renders one metric as an ASCII chart (or a table, for cycle time) with a title.
+   *
+   * @param stats - The statistics to render
+   * @param metric - The metric to render
+   * @param options - Effort units and chart width
+   * @returns The chart
+   */
+  renderAscii(stats: HistoryStats, metric: HistoryMetric, options: HistoryRenderOptions = {}): string {
+    const unit = options.effort && (metric === 'burndown' || metric === 'burnup') ? ' [effort]' : ''
+    const title = `${TITLES[metric]}${unit}`
+    const lines = this.asciiLines(stats, metric, options)
+
+    return [title, '─'.repeat(title.length), ...(lines.length > 0 ? lines : ['No data'])].join('\n')
+  }
+
+  /**
+   * Renders one metric as CSV with a header row.
+   *
+   * @param stats - The statistics to render
+   * @param metric - The metric to render
+   * @param options - Effort units
+   * @returns The CSV table
+   */
+  renderCsv(stats: HistoryStats, metric: HistoryMetric, options: HistoryRenderOptions = {}): string {
+    const rows = this.csvRows(stats, metric, options)
+    return rows.map((row) => row.join(',')).join('\n')
+  }
+
+  private asciiLines(stats: HistoryStats, metric: HistoryMetric, options: HistoryRenderOptions): string[] {
+    const width = options.width ?? 40
+    switch (metric) {
+      case 'burndown': {
+        const values = stats.daily.map((day) => [day.date, this.remaining(day, options)] as const)
+        const max = Math.max(0, ...values.map(([, value]) => value))
+        return values.map(([date, value]) => `${date} │${this.bar(value, max, width)} ${value}`)
+      }
+
+      case 'burnup': {
+        const max = Math.max(0, ...stats.daily.map((day) => this.total(day, options)))
+        return stats.daily.map((day) => {
+          const completed = this.completed(day, options)
+          const total = this.total(day, options)
+          const done = this.bar(completed, max, width)
+          const scope = '░'.repeat(Math.max(0, this.bar(total, max, width).length - done.length))
+          return `${day.date} │${done}${scope} ${completed}/${total}`
+        })
+      }
+
+      case 'cycle-time': {
+        return this.cycleTimeTable(stats.cycleTime)
+      }
+
+      case 'throughput': {
+        const max = Math.max(0, ...stats.throughput.map((period) => period.total))
+        return stats.throughput.map(
+          (period) => `${period.week} │${this.bar(period.total, max, width)} ${period.total}${this.byType(period)}`,
+        )
+      }
+    }
+  }
+
+  private bar(value: number, max: number, width: number): string {
+    return max === 0 ? '' : '█'.repeat(Math.round((value / max) * width))
+  }
+
+  private byType(period: ThroughputPeriod): string {
+    const types = Object.entries(period.byType).sort(([a], [b]) => a.localeCompare(b))
+    return types.length > 0 ? ` (${types.map(([type, count]) => `${type}: ${count}`).join(', ')})` : ''
+  }
+
+  private completed(day: DailyProgress, options: HistoryRenderOptions): number {
+    return options.effort ? day.effort.completed : day.completed
+  }
+
+  private csvRows(
+    stats: HistoryStats,
+    metric: HistoryMetric,
+    options: HistoryRenderOptions,
+  ): Array<Array<number | string>> {
+    switch (metric) {
+      case 'burndown': {
+        return [['date', 'remaining'], ...stats.daily.map((day) => [day.date, this.remaining(day, options)])]
+      }
+
+      case 'burnup': {
+        return [
+          ['date', 'completed', 'total'],
+          ...stats.daily.map((day) => [day.date, this.completed(day, options), this.total(day, options)]),
+        ]
+      }
+
+      case 'cycle-time': {
+        return [
+          ['type', 'tasks', 'average_days', 'median_days', 'max_days'],
+          ...stats.cycleTime.map((entry) => [entry.type, entry.count, entry.average, entry.median, entry.max]),
+        ]
+      }
+
+      case 'throughput': {
+        const types = [...new Set(stats.throughput.flatMap((period) => Object.keys(period.byType)))].sort()
+        return [
+          ['week', 'total', ...types],
+          ...stats.throughput.map((period) => [
+            period.week,
+            period.total,
+            ...types.map((type) => period.byType[type] ?? 0),
+          ]),
+        ]
+      }
+    }
+  }
+
+  private cycleTimeTable(entries: CycleTimeStats[]): string[] {
+    if (entries.length === 0) {
+      return []
+    }
+
+    const rows = [
+      ['Type', 'Tasks', 'Average', 'Median', 'Max'],
+      ...entries.map((entry) => [entry.type, entry.count, entry.average, entry.median, entry.max].map(String)),
+    ]
+    const widths = rows[0].map((_, column) => Math.max(...rows.map((row) => row[column].length)))
+
+    return rows.map((row) =>
+      row
+        .map((cell, column) => (column === 0 ? cell.padEnd(widths[column]) : cell.padStart(widths[column])))
+        .join('  ')
+        .trimEnd(),
+    )
+  }
+
+  private remaining(day: DailyProgress, options: HistoryRenderOptions): number {
+    return options.effort ? day.effort.remaining : day.remaining
+  }
+
+  private total(day: DailyProgress, options: HistoryRenderOptions): number {
+    return options.effort ? day.effort.total : day.total
+  }
+}
+
+/**
+ * Default export instance of HistoryRenderService for convenience.
+ * Can be imported and used directly without instantiation.
+ *
+ * @example
+ * ```typescript
+ * console.log(historyRenderService.render(stats, {format: 'ascii'}));
+ * ```
+ */
+export default new HistoryRenderService()
@@ -0,0 +1,303 @@
+import {FileRevision} from '../util/git.js'
+import {Roadmap, STATUS, Task, TaskID} from '../util/types.js'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * A committed version of the roadmap
+ */
+export interface RoadmapRevision {
+  /** Commit date (ISO 8601) */
+  date: string
+  /** The roadmap as committed */
+  roadmap: Roadmap
+}
+
+/**
+ * The roadmap's tasks at the end of a day
+ */
+export interface HistorySnapshot {
+  /** The day (YYYY-MM-DD, UTC) */
+  date: string
+  /** The tasks in the last revision committed on or before that day */
+  tasks: Task[]
+}
+
+/**
+ * Task counts and effort at the end of a day, the data behind burndown and burnup charts
+ */
+export interface DailyProgress {
+  /** Number of completed tasks */
+  completed: number
+  /** The day (YYYY-MM-DD, UTC) */
+  date: string
+  /** Effort of all, completed and unfinished tasks */
+  effort: {completed: number; remaining: number; total: number}
+  /** Number of unfinished tasks */
+  remaining: number
+  /** Number of tasks */
+  total: number
+}
+
+/**
+ * Tasks completed in one week
+ */
+export interface ThroughputPeriod {
+  /** Completions per task type */
+  byType: Record<string, number>
+  /** Number of tasks completed */
+  total: number
+  /** Monday the week starts on (YYYY-MM-DD, UTC) */
+  week: string
+}
+
+/**
+ * Cycle time of the tasks of one type, in days from leaving not-started to being completed
+ */
+export interface CycleTimeStats {
+  /** Mean cycle time (one decimal) */
+  average: number
+  /** Number of tasks measured */
+  count: number
+  /** Longest cycle time (one decimal) */
+  max: number
+  /** Median cycle time (one decimal) */
+  median: number
+  /** The task type */
+  type: string
+}
+
+/**
+ * Statistics mined from the roadmap's history
+ */
+export interface HistoryStats {
+  /** Cycle time per task type, by type name */
+  cycleTime: CycleTimeStats[]
+  /** Progress at the end of every day, oldest first */
+  daily: DailyProgress[]
+  /** Completions per week, oldest first */
+  throughput: ThroughputPeriod[]
+}
+
+/**
+ * HistoryService turns the committed versions of prt.json into a time series: daily
+ * snapshots for burndown and burnup charts, and the status changes between revisions
+ * for throughput and cycle time.
+ */
+export class HistoryService {
+  /**
+   * Builds one snapshot per day, from the day of the first revision until `until`.
+   * Each snapshot holds the tasks of the last revision committed on or before that day.
+   *
+   * @param revisions - The roadmap's revisions, in any order
+   * @param until - The last day to include (default: the day of the last revision)
+   * @returns The daily snapshots, oldest first (none if there are no revisions)
+   */
+  buildSnapshots(revisions: RoadmapRevision[], until?: Date): HistorySnapshot[] {
+    const sorted = this.sortRevisions(revisions)
+    if (sorted.length === 0) {
+      return []
+    }
+
+    const lastDay = toDay(until ?? new Date(sorted.at(-1)!.date))
+    const snapshots: HistorySnapshot[] = []
+    let index = 0
+    let tasks: Task[] = []
+
+    for (let day = toDay(new Date(sorted[0].date)); day <= lastDay; day = nextDay(day)) {
+      while (index < sorted.length && toDay(new Date(sorted[index].date)) <= day) {
+        tasks = sorted[index].roadmap.tasks
+        index++
+      }
+
+      snapshots.push({date: day, tasks})
+    }
+
+    return snapshots
+  }
+
+  /**
+   * Computes burndown/burnup progress, weekly throughput and cycle time per type.
+   *
+   * @param revisions - The roadmap's revisions, in any order
+   * @param until - The last day of the daily series (default: the day of the last revision)
+   * @returns The statistics
+   *
+   * @example
+   * ```typescript
+   * const revisions = historyService.parseRevisions(await readFileHistory(config.path));
+   * const {daily} = historyService.getStats(revisions, new Date());
+   * ```
+   */
+  getStats(revisions: RoadmapRevision[], until?: Date): HistoryStats {
+    const sorted = this.sortRevisions(revisions)
+    const daily = this.buildSnapshots(sorted, until).map(({date, tasks}) => this.getProgress(date, tasks))
+
+    const started = new Map<TaskID, number>()
+    const completions: Array<{cycleTime?: number; time: number; type: string}> = []
+    let previous = new Map<TaskID, Task>()
+
+    for (const [index, {date, roadmap}] of sorted.entries()) {
+      const time = Date.parse(date)
+      for (const task of roadmap.tasks) {
+        const before = previous.get(task.id)
+        // The first revision is the baseline: work already done or underway there has no known start
+        if (index > 0 && task.status !== STATUS.NotStarted && !started.has(task.id)) {
+          started.set(task.id, before && before.status !== STATUS.NotStarted ? Number.NaN : time)
+        }
+
+        if (index > 0 && task.status === STATUS.Completed && before?.status !== STATUS.Completed) {
+          const start = started.get(task.id)!
+          completions.push({
+            // Tasks that show up already completed, or were started before the history begins, have no cycle time
+            cycleTime: before && !Number.isNaN(start) ? (time - start) / DAY_MS : undefined,
+            time,
+            type: task.type,
+          })
+        }
+      }
+
+      previous = new Map(roadmap.tasks.map((task) => [task.id, task]))
+    }
+
+    return {cycleTime: this.getCycleTimes(completions), daily, throughput: this.getThroughput(completions)}
+  }
+
+  /**
+   * Parses file revisions into roadmap revisions, skipping those that are not valid roadmaps
+   * (e.g. commits with merge conflicts or a half-written file).
+   *
+   * @param revisions - Committed versions of prt.json
+   * @returns The revisions that parse as roadmaps, in the same order
+   */
+  parseRevisions(revisions: FileRevision[]): RoadmapRevision[] {
+    const parsed: RoadmapRevision[] = []
+    for (const {content, date} of revisions) {
+      try {
+        const roadmap = JSON.parse(content) as Roadmap
+        if (Array.isArray(roadmap?.tasks)) {
+          parsed.push({date, roadmap})
+        }
+      } catch {
+        // Not a valid roadmap in this commit
+      }
+    }
+
+    return parsed
+  }
+
+  /**
+   * Summarizes the cycle times of completed tasks per type.
+   */
+  private getCycleTimes(completions: Array<{cycleTime?: number; type: string}>): CycleTimeStats[] {
+    const byType = new Map<string, number[]>()
+    for (const {cycleTime, type} of completions) {
+      if (cycleTime !== undefined) {
+        byType.set(type, [...(byType.get(type) ?? []), cycleTime])
+      }
+    }
+
+    return [...byType.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([type, times]) => {
+        const sorted = times.sort((a, b) => a - b)
+        const middle = Math.floor(sorted.length / 2)
+        const median = sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle]
+        return {
+          average: round(sorted.reduce((sum, time) => sum + time, 0) / sorted.length),
+          count: sorted.length,
+          max: round(sorted.at(-1)!),
+          median: round(median),
+          type,
+        }
+      })
+  }
+
+  /**
+   * Counts tasks and effort in a snapshot.
+   */
+  private getProgress(date: string, tasks: Task[]): DailyProgress {
+    const progress: DailyProgress = {
+      completed: 0,
+      date,
+      effort: {completed: 0, remaining: 0, total: 0},
+      remaining: 0,
+      total: tasks.length,
+    }
+
+    for (const task of tasks) {
+      const done = task.status === STATUS.Completed
+      const effort = typeof task.effort === 'number' ? task.effort : 0
+      progress.completed += done ? 1 : 0
+      progress.remaining += done ? 0 : 1
+      progress.effort.total += effort
+      progress.effort.completed += done ? effort : 0
+      progress.effort.remaining += done ? 0 : effort
+    }
+
+    return progress
+  }
+
+  /**
+   * Groups completions by the week they happened in, including weeks without any.
+   */
+  private getThroughput(completions: Array<{time: number; type: string}>): ThroughputPeriod[] {
+    if (completions.length === 0) {
+      return []
+    }
+
+    const periods = new Map<string, ThroughputPeriod>()
+    const first = toWeek(new Date(completions[0].time))
+    const last = toWeek(new Date(completions.at(-1)!.time))
+    for (let week = first; week <= last; week = toWeek(new Date(Date.parse(week) + 7 * DAY_MS))) {
+      periods.set(week, {byType: {}, total: 0, week})
+    }
+
+    for (const {time, type} of completions) {
+      const period = periods.get(toWeek(new Date(time)))!
+      period.byType[type] = (period.byType[type] ?? 0) + 1
+      period.total++
+    }
+
+    return [...periods.values()]
+  }
+
+  /**
+   * Sorts revisions by commit date, oldest first, leaving out those without a valid date.
+   */
+  private sortRevisions(revisions: RoadmapRevision[]): RoadmapRevision[] {
+    return revisions
+      .filter(({date}) => !Number.isNaN(Date.parse(date)))
+      .sort((a, b) => Date.parse(a.date) - Date.parse(b.date))
+  }
+}
+
+function toDay(date: Date): string {
+  return date.toISOString().slice(0, 10)
+}
+
+function nextDay(day: string): string {
+  return toDay(new Date(Date.parse(day) + DAY_MS))
+}
+
+function toWeek(date: Date): string {
+  // getUTCDay() is 0 on Sunday; weeks start on Monday
+  const offset = (date.getUTCDay() + 6) % 7
+  return toDay(new Date(Date.parse(toDay(date)) - offset * DAY_MS))
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10
+}
+
+/**
+ * Default export instance of HistoryService for convenience.
+ * Can be imported and used directly without instantiation.
+ *
+ * @example
+ * ```typescript
+ * import historyService from './services/history.service.js';
+ * const stats = historyService.getStats(revisions);
+ * ```
+ */
+export default new HistoryService()
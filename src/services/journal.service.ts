@@ -0,0 +1,340 @@
+import {isDeepStrictEqual} from 'node:util'
+
+import {JournalConflictError} from '../errors/index.js'
+import {getCurrentUser} from '../util/current-user.js'
+import {Roadmap} from '../util/types.js'
+
+/**
+ * One JSON Patch (RFC 6902) operation. Patches only use add, remove, replace and test;
+ * every replace and remove is preceded by a test of the value it overwrites.
+ */
+export type PatchOperation =
+  | {op: 'add' | 'replace' | 'test'; path: string; value: unknown}
+  | {op: 'remove'; path: string}
+
+/**
+ * A change recorded in the journal
+ */
+export interface JournalEntry {
+  /** The command line that made the change, without the binary name, e.g. `update F-001 --type=bug` */
+  command: string
+  /** Sequence number, increasing over the life of the journal */
+  id: number
+  /** Operations that roll the change back */
+  inverse: PatchOperation[]
+  /** Operations that make the change, used to redo it */
+  patch: PatchOperation[]
+  /** When the change was made (ISO 8601) */
+  timestamp: string
+  /** Who made the change */
+  user: string
+}
+
+/**
+ * A journal entry before the journal numbered it
+ */
+export type NewJournalEntry = Omit<JournalEntry, 'id'>
+
+/**
+ * A journal entry without its patches, as shown by `prt log`
+ */
+export interface JournalEntrySummary {
+  /** Number of add, remove and replace operations the change made */
+  changes: number
+  command: string
+  id: number
+  timestamp: string
+  user: string
+}
+
+/**
+ * The operation journal kept next to the roadmap
+ */
+export interface Journal {
+  /** Changes that can be undone, oldest first */
+  entries: JournalEntry[]
+  /** Undone changes that can be redone, most recently undone last */
+  undone: JournalEntry[]
+}
+
+/**
+ * JournalService records changes to a roadmap as JSON patches and replays or rolls them back.
+ * Patches test the values they overwrite, so undoing a change that was edited since fails
+ * instead of silently discarding the later edit.
+ */
+export class JournalService {
+  /**
+   * Creates a journal entry for a change.
+   *
+   * @param before - The roadmap before the change
+   * @param after - The roadmap after the change
+   * @param command - The command line that made the change
+   * @returns The entry, or null if the roadmap did not change
+   *
+   * @example
+   * ```typescript
+   * const entry = journalService.createEntry(roadmap, updatedRoadmap, 'update F-001 --type=bug');
+   * if (entry) await journalRepository.record(entry);
+   * ```
+   */
+  createEntry(before: Roadmap, after: Roadmap, command: string): NewJournalEntry | null {
+    const saved = asWritten(before)
+    const changed = asWritten(after)
+    const patch = this.diff(saved, changed)
+    if (patch.length === 0) {
+      return null
+    }
+
+    return {
+      command,
+      inverse: this.diff(changed, saved),
+      patch,
+      timestamp: new Date().toISOString(),
+      user: getCurrentUser(),
+    }
+  }
+
+  /**
+   * Computes the JSON patch that turns one value into another. Arrays are compared after
+   * their common prefix and suffix, so adding or removing one task yields a single operation.
+   *
+   * @param before - The original value
+   * @param after - The changed value
+   * @returns The operations, with a test before each replace and remove
+   */
+  diff(before: unknown, after: unknown): PatchOperation[] {
+    return diffValues(before, after, '')
+  }
+
+  /**
+   * Formats a command line for the journal.
+   *
+   * @param id - The command ID, e.g. `dep:add`
+   * @param argv - The command's arguments and flags
+   * @returns The command line without the binary name, e.g. `dep add F-002 F-001`
+   */
+  formatCommand(id: string | undefined, argv: string[]): string {
+    const quoted = argv.map((arg) => (/^[\w%+,./:=@-]+$/.test(arg) ? arg : JSON.stringify(arg)))
+    return [...(id ? [id.replaceAll(':', ' ')] : []), ...quoted].join(' ')
+  }
+
+  /**
+   * Applies a journal entry's change again.
+   *
+   * @param roadmap - The current roadmap
+   * @param entry - An undone entry
+   * @returns The roadmap with the change made
+   * @throws JournalConflictError if the roadmap changed where the entry applies
+   */
+  redo(roadmap: Roadmap, entry: JournalEntry): Roadmap {
+    return this.applyEntry(roadmap, entry, 'redo')
+  }
+
+  /**
+   * Summarizes a journal entry for display, leaving out its patches.
+   *
+   * @param entry - The entry to summarize
+   * @returns The entry's command, author, time and number of changes
+   */
+  summarize(entry: JournalEntry): JournalEntrySummary {
+    return {
+      changes: entry.patch.filter((operation) => operation.op !== 'test').length,
+      command: entry.command,
+      id: entry.id,
+      timestamp: entry.timestamp,
+      user: entry.user,
+    }
+  }
+
+  /**
+   * Rolls a journal entry's change back.
+   *
+   * @param roadmap - The current roadmap
+   * @param entry - The entry to roll back
+   * @returns The roadmap without the change
+   * @throws JournalConflictError if the roadmap changed where the entry applies
+   */
+  undo(roadmap: Roadmap, entry: JournalEntry): Roadmap {
+    return this.applyEntry(roadmap, entry, 'undo')
+  }
+
+  private applyEntry(roadmap: Roadmap, entry: JournalEntry, action: 'redo' | 'undo'): Roadmap {
+    const document = {root: structuredClone(roadmap) as unknown}
+    for (const operation of action === 'undo' ? entry.inverse : entry.patch) {
+      if (!applyOperation(document, operation)) {
+        throw new JournalConflictError(action, entry, operation.path)
+      }
+    }
+
+    return document.root as Roadmap
+  }
+}
+
+type Container = Record<string, unknown> | unknown[]
+
+/**
+ * Returns a roadmap as it is written to disk, where fields set to undefined do not exist.
+ */
+function asWritten(roadmap: Roadmap): Roadmap {
+  const json = JSON.stringify(roadmap)
+  return JSON.parse(json) as Roadmap
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function pointer(path: string, key: number | string): string {
+  return `${path}/${String(key).replaceAll('~', '~0').replaceAll('/', '~1')}`
+}
+
+function diffValues(before: unknown, after: unknown, path: string): PatchOperation[] {
+  if (isDeepStrictEqual(before, after)) {
+    return []
+  }
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    return diffArrays(before, after, path)
+  }
+
+  if (isObject(before) && isObject(after)) {
+    return Object.keys({...before, ...after}).flatMap((key): PatchOperation[] => {
+      const keyPath = pointer(path, key)
+      if (!(key in after)) {
+        return [
+          {op: 'test', path: keyPath, value: before[key]},
+          {op: 'remove', path: keyPath},
+        ]
+      }
+
+      return key in before
+        ? diffValues(before[key], after[key], keyPath)
+        : [{op: 'add', path: keyPath, value: after[key]}]
+    })
+  }
+
+  return [
+    {op: 'test', path, value: before},
+    {op: 'replace', path, value: after},
+  ]
+}
+
+function diffArrays(before: unknown[], after: unknown[], path: string): PatchOperation[] {
+  let start = 0
+  while (start < before.length && start < after.length && isDeepStrictEqual(before[start], after[start])) {
+    start++
+  }
+
+  let end = 0
+  while (
+    end < before.length - start &&
+    end < after.length - start &&
+    isDeepStrictEqual(before.at(-1 - end), after.at(-1 - end))
+  ) {
+    end++
+  }
+
+  const removed = before.slice(start, before.length - end)
+  const added = after.slice(start, after.length - end)
+  if (removed.length === added.length) {
+    return removed.flatMap((value, index) => diffValues(value, added[index], pointer(path, start + index)))
+  }
+
+  // Remove from the back so earlier indexes stay valid, then insert in order
+  return [
+    ...removed
+      .map((value, index): PatchOperation[] => [
+        {op: 'test', path: pointer(path, start + index), value},
+        {op: 'remove', path: pointer(path, start + index)},
+      ])
+      .reverse()
+      .flat(),
+    ...added.map((value, index): PatchOperation => ({op: 'add', path: pointer(path, start + index), value})),
+  ]
+}
+
+/**
+ * Applies one operation in place. The document is wrapped so the root can be replaced.
+ * Returns false if the operation does not apply: a missing path or a failed test.
+ */
+function applyOperation(document: {root: unknown}, operation: PatchOperation): boolean {
+  const keys = [
+    'root',
+    ...operation.path
+      .split('/')
+      .slice(1)
+      .map((key) => key.replaceAll('~1', '/').replaceAll('~0', '~')),
+  ]
+  const key = keys.pop()!
+  let parent: unknown = document
+  for (const segment of keys) {
+    parent = (parent as Record<string, unknown> | undefined)?.[segment]
+  }
+
+  if (typeof parent !== 'object' || parent === null) {
+    return false
+  }
+
+  const container = parent as Container
+  if (Array.isArray(container)) {
+    const index = Number(key)
+    const limit = operation.op === 'add' ? container.length : container.length - 1
+    if (!/^\d+$/.test(key) || index > limit) {
+      return false
+    }
+
+    switch (operation.op) {
+      case 'add': {
+        container.splice(index, 0, structuredClone(operation.value))
+        return true
+      }
+
+      case 'remove': {
+        container.splice(index, 1)
+        return true
+      }
+
+      case 'replace': {
+        container[index] = structuredClone(operation.value)
+        return true
+      }
+
+      case 'test': {
+        return isDeepStrictEqual(container[index], operation.value)
+      }
+    }
+  }
+
+  if (operation.op !== 'add' && !(key in container)) {
+    return false
+  }
+
+  switch (operation.op) {
+    case 'add':
+    case 'replace': {
+      container[key] = structuredClone(operation.value)
+      return true
+    }
+
+    case 'remove': {
+      delete container[key]
+      return true
+    }
+
+    case 'test': {
+      return isDeepStrictEqual(container[key], operation.value)
+    }
+  }
+}
+
+/**
+ * Default export instance of JournalService for convenience.
+ * Can be imported and used directly without instantiation.
+ *
+ * @example
+ * ```typescript
+ * import journalService from './services/journal.service.js';
+ * const previous = journalService.undo(roadmap, journal.entries.at(-1));
+ * ```
+ */
+export default new JournalService()
@@ -0,0 +1,306 @@
+import type {EffortStats} from './roadmap.service.js'
+
+import {MilestoneNotFoundError, ValidationError, ValidationErrorDetail} from '../errors/index.js'
+import {Milestone, Roadmap, STATUS, Task, TaskID} from '../util/types.js'
+import taskDependencyService from './task-dependency.service.js'
+
+/**
+ * Milestone IDs are short user-chosen identifiers such as v1.0, 2026-q4 or beta_2
+ */
+export const MILESTONE_ID_REGEX = /^[\dA-Za-z][\w.-]*$/
+
+/**
+ * An unfinished milestone task with unfinished prerequisites
+ */
+export interface MilestoneBlockedTask {
+  /** The blocked task */
+  task: Task
+  /** IDs of its unfinished prerequisites */
+  waitingOn: TaskID[]
+}
+
+/**
+ * A milestone task that depends on an unfinished task planned for another milestone
+ */
+export interface MilestoneRisk {
+  /** ID of the unfinished task it depends on */
+  dependency: TaskID
+  /** The milestone the dependency is planned for */
+  dependencyMilestone: string
+  /** The task at risk */
+  task: Task
+}
+
+/**
+ * Progress report of a milestone, computed from the tasks planned for it
+ */
+export interface MilestoneReport {
+  /** Unfinished tasks that depend on unfinished tasks in other milestones */
+  atRisk: MilestoneRisk[]
+  /** Unfinished tasks with unfinished prerequisites */
+  blocked: MilestoneBlockedTask[]
+  /** Number of completed tasks */
+  completed: number
+  /** Effort totals of the milestone's tasks */
+  effort: EffortStats
+  /** The milestone */
+  milestone: Milestone
+  /** Whether the target date has passed while the milestone is still open */
+  overdue: boolean
+  /** Percentage of tasks that are completed (0-100, one decimal) */
+  progress: number
+  /** Number of tasks planned for the milestone */
+  total: number
+}
+
+/**
+ * MilestoneService manages the milestones of a roadmap (releases or versions that tasks are
+ * planned for) and reports their progress. Like TaskService, it never mutates a roadmap:
+ * every change returns a new one.
+ */
+export class MilestoneService {
+  /**
+   * Adds a milestone to a roadmap.
+   *
+   * @param roadmap - The roadmap to add to
+   * @param milestone - The milestone to add
+   * @returns A new roadmap with the milestone added
+   * @throws ValidationError if the ID is invalid or already used, or the milestone has no name
+   *
+   * @example
+   * ```typescript
+   * const milestone = milestoneService.createMilestone({id: 'v1.0', name: 'First release'});
+   * const updatedRoadmap = milestoneService.addMilestone(roadmap, milestone);
+   * ```
+   */
+  addMilestone(roadmap: Roadmap, milestone: Milestone): Roadmap {
+    const milestones = roadmap.milestones ?? []
+    const errors = this.validateMilestone(milestone)
+    if (milestones.some((existing) => existing.id === milestone.id)) {
+      errors.push({field: 'id', message: `Milestone ${milestone.id} already exists`, type: 'duplicate-id'})
+    }
+
+    if (errors.length > 0) {
+      throw new ValidationError(errors)
+    }
+
+    return {...roadmap, milestones: [...milestones, milestone]}
+  }
+
+  /**
+   * Closes a milestone. Closing does not change its tasks; unfinished ones keep their milestone.
+   *
+   * @param roadmap - The roadmap containing the milestone
+   * @param milestoneId - The milestone to close
+   * @param now - The closing time (default: now)
+   * @returns A new roadmap with the milestone closed (unchanged if it was already closed)
+   * @throws MilestoneNotFoundError if the milestone does not exist
+   */
+  closeMilestone(roadmap: Roadmap, milestoneId: string, now: Date = new Date()): Roadmap {
+    const milestone = this.getMilestone(roadmap, milestoneId)
+    if (milestone.closedAt) {
+      return roadmap
+    }
+
+    return {
+      ...roadmap,
+      milestones: roadmap.milestones!.map((existing) =>
+        existing.id === milestoneId ? {...existing, closedAt: now.toISOString()} : existing,
+      ),
+    }
+  }
+
+  /**
+   * Creates a milestone object. The name defaults to the ID.
+   *
+   * @param data - The milestone's ID and optional name, description and target date
+   * @param data.description - Description of the milestone
+   * @param data.id - ID of the milestone
+   * @param data.name - Name of the milestone (default: the ID)
+   * @param data.targetDate - ISO 8601 date the milestone should be reached by
+   * @returns The milestone, created now
+   */
+  createMilestone(data: {description?: string; id: string; name?: string; targetDate?: string}): Milestone {
+    return {
+      createdAt: new Date().toISOString(),
+      ...(data.description ? {description: data.description} : {}),
+      id: data.id,
+      name: data.name ?? data.id,
+      ...(data.targetDate ? {targetDate: data.targetDate} : {}),
+    }
+  }
+
+  /**
+   * Finds a milestone by its ID.
+   *
+   * @param roadmap - The roadmap to search
+   * @param milestoneId - The milestone ID
+   * @returns The milestone, or undefined if it does not exist
+   */
+  findMilestone(roadmap: Roadmap, milestoneId: string): Milestone | undefined {
+    return roadmap.milestones?.find((milestone) => milestone.id === milestoneId)
+  }
+
+  /**
+   * Gets a milestone by its ID.
+   *
+   * @param roadmap - The roadmap to search
+   * @param milestoneId - The milestone ID
+   * @returns The milestone
+   * @throws MilestoneNotFoundError if the milestone does not exist
+   */
+  getMilestone(roadmap: Roadmap, milestoneId: string): Milestone {
+    const milestone = this.findMilestone(roadmap, milestoneId)
+    if (!milestone) {
+      throw new MilestoneNotFoundError(milestoneId)
+    }
+
+    return milestone
+  }
+
+  /**
+   * Builds the progress report of a milestone: completion, remaining effort, blocked tasks,
+   * and tasks at risk because they depend on unfinished tasks planned for other milestones.
+   *
+   * @param roadmap - The roadmap containing the milestone
+   * @param milestoneId - The milestone to report on
+   * @param now - The date the target date is compared with (default: now)
+   * @returns The report
+   * @throws MilestoneNotFoundError if the milestone does not exist
+   *
+   * @example
+   * ```typescript
+   * const {completed, progress, total} = milestoneService.getReport(roadmap, 'v1.0');
+   * console.log(`${completed} of ${total} tasks done (${progress}%)`);
+   * ```
+   */
+  getReport(roadmap: Roadmap, milestoneId: string, now: Date = new Date()): MilestoneReport {
+    const milestone = this.getMilestone(roadmap, milestoneId)
+    const tasks = this.getTasks(roadmap, milestoneId)
+    const effort: EffortStats = {remaining: 0, total: 0, unestimated: 0}
+    const atRisk: MilestoneRisk[] = []
+    const blocked: MilestoneBlockedTask[] = []
+    let completed = 0
+
+    for (const task of tasks) {
+      const done = task.status === STATUS.Completed
+      completed += done ? 1 : 0
+
+      if (typeof task.effort === 'number') {
+        effort.total += task.effort
+        effort.remaining += done ? 0 : task.effort
+      } else {
+        effort.unestimated++
+      }
+
+      const incomplete = done ? [] : taskDependencyService.getIncompleteDependencies(task, roadmap.tasks)
+      if (incomplete.length > 0) {
+        blocked.push({task, waitingOn: incomplete.map((dependency) => dependency.id)})
+      }
+
+      for (const dependency of incomplete) {
+        if (dependency.milestone && dependency.milestone !== milestoneId) {
+          atRisk.push({dependency: dependency.id, dependencyMilestone: dependency.milestone, task})
+        }
+      }
+    }
+
+    const targetDate = milestone.targetDate ? Date.parse(milestone.targetDate) : Number.NaN
+
+    return {
+      atRisk,
+      blocked,
+      completed,
+      effort,
+      milestone,
+      overdue: !milestone.closedAt && completed < tasks.length && targetDate < now.getTime(),
+      progress: tasks.length === 0 ? 0 : Math.round((completed / tasks.length) * 1000) / 10,
+      total: tasks.length,
+    }
+  }
+
+  /**
+   * Gets the tasks planned for a milestone, in roadmap order.
+   *
+   * @param roadmap - The roadmap
+   * @param milestoneId - The milestone ID
+   * @returns The tasks whose milestone is milestoneId
+   */
+  getTasks(roadmap: Roadmap, milestoneId: string): Task[] {
+    return roadmap.tasks.filter((task) => task.milestone === milestoneId)
+  }
+
+  /**
+   * Validates a roadmap's milestones and the tasks' references to them.
+   *
+   * @param roadmap - The roadmap to validate
+   * @returns Validation errors: invalid milestones, duplicate IDs, and tasks planned for unknown milestones
+   */
+  validateMilestones(roadmap: Roadmap): ValidationErrorDetail[] {
+    const errors: ValidationErrorDetail[] = []
+    const ids = new Set<string>()
+
+    for (const milestone of roadmap.milestones ?? []) {
+      errors.push(...this.validateMilestone(milestone))
+      if (ids.has(milestone.id)) {
+        errors.push({field: 'milestones', message: `Duplicate milestone ID: ${milestone.id}`, type: 'duplicate-id'})
+      }
+
+      ids.add(milestone.id)
+    }
+
+    for (const task of roadmap.tasks) {
+      if (task.milestone && !ids.has(task.milestone)) {
+        errors.push({
+          field: 'milestone',
+          message: `Task ${task.id} is planned for non-existent milestone ${task.milestone}`,
+          taskId: task.id,
+          type: 'invalid-reference',
+        })
+      }
+    }
+
+    return errors
+  }
+
+  /**
+   * Checks a single milestone's ID, name and target date.
+   */
+  private validateMilestone(milestone: Milestone): ValidationErrorDetail[] {
+    const errors: ValidationErrorDetail[] = []
+
+    if (typeof milestone.id !== 'string' || !MILESTONE_ID_REGEX.test(milestone.id)) {
+      errors.push({
+        field: 'id',
+        message: `Invalid milestone ID: ${milestone.id}. Use letters, digits, ., - and _`,
+        type: 'invalid-value',
+      })
+    }
+
+    if (typeof milestone.name !== 'string' || milestone.name.trim() === '') {
+      errors.push({field: 'name', message: `Milestone ${milestone.id} must have a name`, type: 'missing-field'})
+    }
+
+    if (milestone.targetDate && Number.isNaN(Date.parse(milestone.targetDate))) {
+      errors.push({
+        field: 'targetDate',
+        message: `Milestone ${milestone.id} has an invalid target date: ${milestone.targetDate}`,
+        type: 'invalid-value',
+      })
+    }
+
+    return errors
+  }
+}
+
+/**
+ * Default export instance of MilestoneService for convenience.
+ * Can be imported and used directly without instantiation.
+ *
+ * @example
+ * ```typescript
+ * import milestoneService from './services/milestone.service.js';
+ * const report = milestoneService.getReport(roadmap, 'v1.0');
+ * ```
+ */
+export default new MilestoneService()
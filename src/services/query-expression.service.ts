@@ -0,0 +1,601 @@
+import {QuerySyntaxError} from '../errors/index.js'
+import {DEFAULT_TASK_TYPES} from '../util/task-types.js'
+import {PRIORITY, Task} from '../util/types.js'
+import {TaskValidationOptions} from '../util/validate-task.js'
+import {DEFAULT_WORKFLOW} from '../util/workflow.js'
+import taskQueryService from './task-query.service.js'
+
+/**
+ * Comparison operators of the filter expression language.
+ * `:` is accepted in expressions as a shorthand for `=` (e.g. `tag:security`).
+ */
+export type QueryOperator = '!=' | '<' | '<=' | '=' | '>' | '>=' | '~'
+
+/**
+ * Task fields that can be used in filter expressions
+ */
+export type QueryField =
+  | 'assignee'
+  | 'blocks'
+  | 'created'
+  | 'deps'
+  | 'details'
+  | 'due'
+  | 'effort'
+  | 'id'
+  | 'milestone'
+  | 'notes'
+  | 'priority'
+  | 'sprint'
+  | 'status'
+  | 'tag'
+  | 'tested'
+  | 'text'
+  | 'title'
+  | 'type'
+  | 'updated'
+
+/**
+ * Parsed filter expression
+ */
+export type QueryNode =
+  | {field: QueryField; kind: 'comparison'; operator: QueryOperator; value: string}
+  | {kind: 'and' | 'or'; left: QueryNode; right: QueryNode}
+  | {kind: 'not'; operand: QueryNode}
+
+type FieldKind = 'boolean' | 'date' | 'enum' | 'list' | 'number' | 'ordered-enum' | 'string' | 'text'
+
+const FIELD_KINDS: Record<QueryField, FieldKind> = {
+  assignee: 'string',
+  blocks: 'list',
+  created: 'date',
+  deps: 'list',
+  details: 'string',
+  due: 'date',
+  effort: 'number',
+  id: 'string',
+  milestone: 'string',
+  notes: 'string',
+  priority: 'ordered-enum',
+  sprint: 'string',
+  status: 'enum',
+  tag: 'list',
+  tested: 'boolean',
+  text: 'text',
+  title: 'string',
+  type: 'enum',
+  updated: 'date',
+}
+
+/** Alternative spellings of field names, matching the task's JSON keys */
+const FIELD_ALIASES: Record<string, QueryField> = {
+  assignedTo: 'assignee',
+  createdAt: 'created',
+  'depends-on': 'deps',
+  dueDate: 'due',
+  'passes-tests': 'tested',
+  tags: 'tag',
+  updatedAt: 'updated',
+}
+
+const OPERATORS_BY_KIND: Record<FieldKind, QueryOperator[]> = {
+  boolean: ['=', '!='],
+  date: ['=', '!=', '<', '<=', '>', '>='],
+  enum: ['=', '!='],
+  list: ['=', '!='],
+  number: ['=', '!=', '<', '<=', '>', '>='],
+  'ordered-enum': ['=', '!=', '<', '<=', '>', '>='],
+  string: ['=', '!=', '~'],
+  text: ['~'],
+}
+
+// Statuses and task types come from the project's workflow and task types instead
+const ENUM_VALUES: Partial<Record<QueryField, string[]>> = {
+  priority: Object.values(PRIORITY),
+}
+
+const PRIORITY_SHORTCUTS: Record<string, PRIORITY> = {
+  h: PRIORITY.High,
+  l: PRIORITY.Low,
+  m: PRIORITY.Medium,
+}
+
+const PRIORITY_RANK: Record<PRIORITY, number> = {
+  [PRIORITY.High]: 3,
+  [PRIORITY.Low]: 1,
+  [PRIORITY.Medium]: 2,
+}
+
+type Token = {
+  /** 1-based column of the token's first character */
+  column: number
+  kind: 'end' | 'lparen' | 'operator' | 'rparen' | 'string' | 'word'
+  value: string
+}
+
+const OPERATOR_PATTERN = /^(!=|<=|>=|=|<|>|~|:)/
+const WORD_PATTERN = /^[^\s()=!<>~:"']+/
+
+/**
+ * Splits an expression into tokens, remembering the column of each.
+ */
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = []
+  let index = 0
+
+  while (index < expression.length) {
+    const rest = expression.slice(index)
+    const column = index + 1
+    const whitespace = /^\s+/.exec(rest)
+    const operator = OPERATOR_PATTERN.exec(rest)
+    const word = WORD_PATTERN.exec(rest)
+
+    if (whitespace) {
+      index += whitespace[0].length
+    } else if (rest[0] === '(' || rest[0] === ')') {
+      tokens.push({column, kind: rest[0] === '(' ? 'lparen' : 'rparen', value: rest[0]})
+      index++
+    } else if (rest[0] === '"' || rest[0] === "'") {
+      const end = rest.indexOf(rest[0], 1)
+      if (end === -1) {
+        throw new QuerySyntaxError(expression, column, 'unterminated string')
+      }
+
+      tokens.push({column, kind: 'string', value: rest.slice(1, end)})
+      index += end + 1
+    } else if (operator) {
+      tokens.push({column, kind: 'operator', value: operator[0] === ':' ? '=' : operator[0]})
+      index += operator[0].length
+    } else if (word) {
+      tokens.push({column, kind: 'word', value: word[0]})
+      index += word[0].length
+    } else {
+      throw new QuerySyntaxError(expression, column, `unexpected character "${rest[0]}"`)
+    }
+  }
+
+  tokens.push({column: expression.length + 1, kind: 'end', value: ''})
+  return tokens
+}
+
+/**
+ * Checks whether a token is the given keyword (and, or, not), ignoring case.
+ */
+function isKeyword(token: Token, keyword: string): boolean {
+  return token.kind === 'word' && token.value.toLowerCase() === keyword
+}
+
+/**
+ * Describes a token for error messages.
+ */
+function describeToken(token: Token): string {
+  return token.kind === 'end' ? 'the end of the expression' : `"${token.value}"`
+}
+
+/**
+ * Recursive descent parser for one expression. Precedence, lowest first: or, and, not.
+ */
+class ExpressionParser {
+  private position = 0
+  private readonly tokens: Token[]
+
+  constructor(
+    private readonly expression: string,
+    private readonly options: Required<TaskValidationOptions>,
+  ) {
+    this.tokens = tokenize(expression)
+  }
+
+  parse(): QueryNode {
+    if (this.peek().kind === 'end') {
+      throw this.fail(this.peek(), 'expected an expression')
+    }
+
+    const node = this.parseOr()
+    const next = this.peek()
+    if (next.kind !== 'end') {
+      throw this.fail(next, `expected "and", "or" or the end of the expression but found ${describeToken(next)}`)
+    }
+
+    return node
+  }
+
+  private fail(token: Token, reason: string): QuerySyntaxError {
+    return new QuerySyntaxError(this.expression, token.column, reason)
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.position]
+    if (token.kind !== 'end') {
+      this.position++
+    }
+
+    return token
+  }
+
+  /**
+   * Validates a value against its field's type and puts it in the form the evaluator expects.
+   */
+  private normalizeValue(field: QueryField, token: Token): string {
+    const kind = FIELD_KINDS[field]
+    const lower = token.value.toLowerCase()
+
+    if (kind === 'enum' || kind === 'ordered-enum') {
+      const value = field === 'priority' ? (PRIORITY_SHORTCUTS[lower] ?? lower) : lower
+      const values =
+        field === 'type'
+          ? [...this.options.taskTypes.keys()]
+          : field === 'status'
+            ? [...this.options.workflow.statuses.keys()]
+            : ENUM_VALUES[field]!
+      if (!values.includes(value)) {
+        throw this.fail(token, `invalid ${field} "${token.value}" (use ${values.join(', ')})`)
+      }
+
+      return value
+    }
+
+    if (kind === 'boolean' && lower !== 'true' && lower !== 'false') {
+      throw this.fail(token, `invalid ${field} value "${token.value}" (use true or false)`)
+    }
+
+    if (kind === 'date' && Number.isNaN(Date.parse(token.value))) {
+      throw this.fail(token, `invalid date "${token.value}"`)
+    }
+
+    if (kind === 'number' && (token.value.trim() === '' || Number.isNaN(Number(token.value)))) {
+      throw this.fail(token, `invalid number "${token.value}"`)
+    }
+
+    return kind === 'boolean' ? lower : token.value
+  }
+
+  private parseAnd(): QueryNode {
+    let left = this.parseNot()
+    while (isKeyword(this.peek(), 'and')) {
+      this.next()
+      left = {kind: 'and', left, right: this.parseNot()}
+    }
+
+    return left
+  }
+
+  private parseComparison(): QueryNode {
+    const fieldToken = this.next()
+    if (fieldToken.kind !== 'word') {
+      throw this.fail(fieldToken, `expected a field name but found ${describeToken(fieldToken)}`)
+    }
+
+    const field = this.resolveField(fieldToken)
+    const operatorToken = this.next()
+    if (operatorToken.kind !== 'operator') {
+      throw this.fail(operatorToken, `expected an operator (=, !=, <, <=, >, >=, ~ or :) after "${fieldToken.value}"`)
+    }
+
+    const operator = operatorToken.value as QueryOperator
+    if (!OPERATORS_BY_KIND[FIELD_KINDS[field]].includes(operator)) {
+      throw this.fail(
+        operatorToken,
+        `operator ${operator} is not supported for ${field} (use ${OPERATORS_BY_KIND[FIELD_KINDS[field]].join(', ')})`,
+      )
+    }
+
+    const valueToken = this.next()
+    if (valueToken.kind !== 'word' && valueToken.kind !== 'string') {
+      throw this.fail(
+        valueToken,
+        `expected a value after "${operatorToken.value}" but found ${describeToken(valueToken)}`,
+      )
+    }
+
+    return {field, kind: 'comparison', operator, value: this.normalizeValue(field, valueToken)}
+  }
+
+  private parseNot(): QueryNode {
+    if (isKeyword(this.peek(), 'not')) {
+      this.next()
+      return {kind: 'not', operand: this.parseNot()}
+    }
+
+    return this.parsePrimary()
+  }
+
+  private parseOr(): QueryNode {
+    let left = this.parseAnd()
+    while (isKeyword(this.peek(), 'or')) {
+      this.next()
+      left = {kind: 'or', left, right: this.parseAnd()}
+    }
+
+    return left
+  }
+
+  private parsePrimary(): QueryNode {
+    if (this.peek().kind !== 'lparen') {
+      return this.parseComparison()
+    }
+
+    const open = this.next()
+    const node = this.parseOr()
+    const close = this.next()
+    if (close.kind !== 'rparen') {
+      throw this.fail(close, `expected ")" to close "(" at column ${open.column} but found ${describeToken(close)}`)
+    }
+
+    return node
+  }
+
+  private peek(): Token {
+    return this.tokens[this.position]
+  }
+
+  private resolveField(token: Token): QueryField {
+    if (Object.hasOwn(FIELD_KINDS, token.value)) {
+      return token.value as QueryField
+    }
+
+    if (Object.hasOwn(FIELD_ALIASES, token.value)) {
+      return FIELD_ALIASES[token.value]
+    }
+
+    throw this.fail(token, `unknown field "${token.value}" (use ${Object.keys(FIELD_KINDS).join(', ')})`)
+  }
+}
+
+/**
+ * Compares two numbers with an ordering or equality operator.
+ */
+function compareNumbers(actual: number, operator: QueryOperator, expected: number): boolean {
+  switch (operator) {
+    case '<': {
+      return actual < expected
+    }
+
+    case '<=': {
+      return actual <= expected
+    }
+
+    case '>': {
+      return actual > expected
+    }
+
+    case '>=': {
+      return actual >= expected
+    }
+
+    default: {
+      return actual === expected
+    }
+  }
+}
+
+/**
+ * Gets the date a date field refers to, or undefined when the task has none.
+ */
+function getDate(task: Task, field: QueryField): null | string | undefined {
+  if (field === 'due') {
+    return task.dueDate
+  }
+
+  return field === 'created' ? task.createdAt : task.updatedAt
+}
+
+/**
+ * Gets the value of a string field, treating a missing value as empty.
+ */
+function getString(task: Task, field: QueryField): string {
+  switch (field) {
+    case 'assignee': {
+      return task.assignedTo ?? ''
+    }
+
+    case 'details': {
+      return task.details
+    }
+
+    case 'milestone': {
+      return task.milestone ?? ''
+    }
+
+    case 'notes': {
+      // Comments replaced free-text notes; both are searched until every roadmap is migrated
+      const comments = (task.activity ?? []).flatMap((entry) => (entry.type === 'comment' ? [entry.body] : []))
+      return [task.notes ?? '', ...comments].filter(Boolean).join('\n')
+    }
+
+    case 'sprint': {
+      return task.sprint ?? ''
+    }
+
+    case 'title': {
+      return task.title
+    }
+
+    default: {
+      return task.id
+    }
+  }
+}
+
+/**
+ * QueryExpressionService parses and evaluates the filter expression language used by
+ * `prt list --where`, e.g. `status != completed and (type = bug or tag:security) and due < 2026-11-01`.
+ *
+ * An expression combines comparisons (`field operator value`) with `and`, `or`, `not` and
+ * parentheses; `and` binds tighter than `or`. Values containing spaces or operator characters
+ * are quoted with single or double quotes. Comparisons on status, type, priority, tags and
+ * free text are delegated to TaskQueryService.
+ *
+ * Fields and operators:
+ * - status, type: = !=
+ * - priority: = != < <= > >= (low < medium < high; h, m and l are accepted)
+ * - id, title, details, notes, assignee, milestone, sprint: = != (case-insensitive), ~ (contains)
+ *   (notes matches the legacy notes and the comments, one per line)
+ * - tag, deps, blocks: = (list contains the value), != (list does not contain it)
+ * - due, created, updated: = (same day) != < <= > >=, against any date Date.parse accepts
+ * - effort: = != < <= > >=
+ * - tested: = true, = false
+ * - text: ~ (title or details contain the value)
+ *
+ * Tasks without a value for a field never match an ordering comparison on it, and always match `!=`.
+ */
+export class QueryExpressionService {
+  /**
+   * Filters tasks with a filter expression, keeping their original order.
+   *
+   * @param tasks - The tasks to filter
+   * @param expression - The expression, as text or already parsed
+   * @param options - The task types and workflow statuses `type` and `status` may be compared with (default: the built-in ones)
+   * @returns A new array of the tasks matching the expression
+   * @throws QuerySyntaxError if the expression text cannot be parsed
+   *
+   * @example
+   * ```typescript
+   * const urgent = queryExpressionService.filter(roadmap.tasks, 'priority = high and status != completed');
+   * ```
+   */
+  filter(tasks: Task[], expression: QueryNode | string, options: TaskValidationOptions = {}): Task[] {
+    const node = typeof expression === 'string' ? this.parse(expression, options) : expression
+    return this.evaluate(tasks, node)
+  }
+
+  /**
+   * Parses a filter expression.
+   * Field names, operators and values are all checked here, so a parsed expression
+   * can always be evaluated.
+   *
+   * @param expression - The expression text
+   * @param options - The task types and workflow statuses `type` and `status` may be compared with (default: the built-in ones)
+   * @returns The parsed expression
+   * @throws QuerySyntaxError pointing at the column where parsing failed
+   *
+   * @example
+   * ```typescript
+   * const node = queryExpressionService.parse('type = bug or tag:security');
+   * // {kind: 'or', left: {kind: 'comparison', field: 'type', ...}, right: {...}}
+   * ```
+   */
+  parse(expression: string, options: TaskValidationOptions = {}): QueryNode {
+    return new ExpressionParser(expression, {
+      taskTypes: options.taskTypes ?? DEFAULT_TASK_TYPES,
+      workflow: options.workflow ?? DEFAULT_WORKFLOW,
+    }).parse()
+  }
+
+  /**
+   * Evaluates an expression against a set of tasks, returning the matches in original order.
+   */
+  private evaluate(tasks: Task[], node: QueryNode): Task[] {
+    switch (node.kind) {
+      case 'and': {
+        return this.evaluate(this.evaluate(tasks, node.left), node.right)
+      }
+
+      case 'not': {
+        return this.exclude(tasks, this.evaluate(tasks, node.operand))
+      }
+
+      case 'or': {
+        const matched = new Set([...this.evaluate(tasks, node.left), ...this.evaluate(tasks, node.right)])
+        return tasks.filter((task) => matched.has(task))
+      }
+
+      default: {
+        return node.operator === '!='
+          ? this.exclude(tasks, this.evaluateComparison(tasks, {...node, operator: '='}))
+          : this.evaluateComparison(tasks, node)
+      }
+    }
+  }
+
+  /**
+   * Evaluates a single comparison (any operator except !=).
+   */
+  private evaluateComparison(
+    tasks: Task[],
+    {field, operator, value}: Extract<QueryNode, {kind: 'comparison'}>,
+  ): Task[] {
+    switch (FIELD_KINDS[field]) {
+      case 'boolean': {
+        return tasks.filter((task) => task['passes-tests'] === (value === 'true'))
+      }
+
+      case 'date': {
+        return tasks.filter((task) => this.matchesDate(getDate(task, field), operator, value))
+      }
+
+      case 'enum':
+      case 'ordered-enum': {
+        return operator === '='
+          ? // eslint-disable-next-line unicorn/no-array-callback-reference, unicorn/no-array-method-this-argument
+            taskQueryService.filter(tasks, {[field]: value})
+          : tasks.filter((task) =>
+              compareNumbers(PRIORITY_RANK[task.priority], operator, PRIORITY_RANK[value as PRIORITY]),
+            )
+      }
+
+      case 'list': {
+        return field === 'tag'
+          ? // eslint-disable-next-line unicorn/no-array-callback-reference, unicorn/no-array-method-this-argument
+            taskQueryService.filter(tasks, {tags: [value]})
+          : tasks.filter((task) => (field === 'deps' ? task['depends-on'] : task.blocks).includes(value as Task['id']))
+      }
+
+      case 'number': {
+        return tasks.filter(
+          (task) =>
+            task.effort !== null && task.effort !== undefined && compareNumbers(task.effort, operator, Number(value)),
+        )
+      }
+
+      case 'string': {
+        const expected = value.toLowerCase()
+        return tasks.filter((task) => {
+          const actual = getString(task, field).toLowerCase()
+          return operator === '~' ? actual.includes(expected) : actual === expected
+        })
+      }
+
+      default: {
+        return taskQueryService.search(tasks, value)
+      }
+    }
+  }
+
+  /**
+   * Returns the tasks not in the excluded list, keeping their order.
+   */
+  private exclude(tasks: Task[], excluded: Task[]): Task[] {
+    const excludedSet = new Set(excluded)
+    return tasks.filter((task) => !excludedSet.has(task))
+  }
+
+  /**
+   * Compares a task date with an expression date; = compares calendar days (UTC).
+   */
+  private matchesDate(actual: null | string | undefined, operator: QueryOperator, expected: string): boolean {
+    const actualTime = actual ? Date.parse(actual) : Number.NaN
+    if (Number.isNaN(actualTime)) {
+      return false
+    }
+
+    const expectedTime = Date.parse(expected)
+    if (operator === '=') {
+      return new Date(actualTime).toISOString().slice(0, 10) === new Date(expectedTime).toISOString().slice(0, 10)
+    }
+
+    return compareNumbers(actualTime, operator, expectedTime)
+  }
+}
+
+/**
+ * Default export instance of QueryExpressionService for convenience.
+ * Can be imported and used directly without instantiation.
+ *
+ * @example
+ * ```typescript
+ * import queryExpressionService from './services/query-expression.service.js';
+ * const tasks = queryExpressionService.filter(roadmap.tasks, 'type = bug and not tag:wontfix');
+ * ```
+ */
+export default new QueryExpressionService()
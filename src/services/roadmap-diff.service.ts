@@ -0,0 +1,453 @@
+import {Roadmap, Task, TaskID} from '../util/types.js'
+import graphRenderService, {GraphEdge} from './graph-render.service.js'
+
+// Fields reported in their own sections, or that change on every edit. The activity log repeats
+// status and dependency changes; only its new comments are reported.
+const IGNORED_FIELDS = new Set(['activity', 'blocks', 'depends-on', 'id', 'status', 'title', 'updatedAt'])
+
+/**
+ * A change to one field of a task
+ */
+export interface TaskFieldChange {
+  /** The field name */
+  field: string
+  /** Value before (null if unset) */
+  from: unknown
+  /** Value after (null if unset) */
+  to: unknown
+}
+
+/**
+ * The field-level changes of a task present in both roadmaps
+ */
+export interface TaskChange {
+  /** Changed fields, by name */
+  changes: TaskFieldChange[]
+  /** The task's ID */
+  id: TaskID
+  /** The task's title after the change */
+  title: string
+}
+
+/**
+ * A comment added to a task present in both roadmaps
+ */
+export interface TaskComment {
+  /** When the comment was made (ISO 8601) */
+  at: string
+  /** Who made the comment */
+  author: string
+  /** The comment text */
+  body: string
+  /** The task's ID */
+  id: TaskID
+  /** The task's title after the change */
+  title: string
+}
+
+/**
+ * A task whose title changed
+ */
+export interface TaskRename {
+  /** Title before */
+  from: string
+  /** The task's ID */
+  id: TaskID
+  /** Title after */
+  to: string
+}
+
+/**
+ * A task that got a new ID, such as after `prt update --type`
+ */
+export interface TaskRenumbering {
+  /** ID before */
+  from: TaskID
+  /** The task's title */
+  title: string
+  /** ID after */
+  to: TaskID
+}
+
+/**
+ * A task whose status changed
+ */
+export interface TaskStatusChange {
+  /** Status before */
+  from: string
+  /** The task's ID */
+  id: TaskID
+  /** The task's title after the change */
+  title: string
+  /** Status after */
+  to: string
+}
+
+/**
+ * Semantic differences between two versions of a roadmap
+ */
+export interface RoadmapDiff {
+  /** Tasks only in the newer roadmap */
+  added: Task[]
+  /** Field changes other than title, status, dependencies and activity */
+  changed: TaskChange[]
+  /** Comments added to tasks present in both roadmaps, oldest first within a task */
+  comments: TaskComment[]
+  /** Dependency edges (prerequisite to dependent) added and removed */
+  dependencies: {added: GraphEdge[]; removed: GraphEdge[]}
+  /** Tasks only in the older roadmap */
+  removed: Task[]
+  /** Tasks whose title changed */
+  renamed: TaskRename[]
+  /** Tasks whose ID changed */
+  renumbered: TaskRenumbering[]
+  /** Tasks whose status changed */
+  statusChanges: TaskStatusChange[]
+}
+
+/**
+ * Labels for the two sides of a diff, such as a git revision or a file path
+ */
+export interface RoadmapDiffLabels {
+  from: string
+  to: string
+}
+
+/**
+ * RoadmapDiffService compares two versions of a roadmap task by task and renders the
+ * result as a changelog for the terminal or as Markdown for pull request comments.
+ */
+export class RoadmapDiffService {
+  /**
+   * Compares two roadmaps. Tasks are matched by ID; a task only in the older roadmap and one
+   * only in the newer with the same creation time and title are the same task renumbered.
+   * Dependency edges combine depends-on and blocks, like the dependency graph.
+   *
+   * @param before - The older roadmap
+   * @param after - The newer roadmap
+   * @returns The differences, each list in task ID order
+   *
+   * @example
+   * ```typescript
+   * const {added, statusChanges} = roadmapDiffService.diff(await readRoadmapFile('old.json'), roadmap);
+   * ```
+   */
+  diff(before: Roadmap, after: Roadmap): RoadmapDiff {
+    const beforeTasks = new Map(before.tasks.map((task) => [task.id, task]))
+    const afterTasks = new Map(after.tasks.map((task) => [task.id, task]))
+    const renumberedFrom = matchRenumbered(
+      before.tasks.filter((task) => !afterTasks.has(task.id)),
+      after.tasks.filter((task) => !beforeTasks.has(task.id)),
+    )
+    const newIds = new Map([...renumberedFrom].map(([id, old]) => [old.id, id]))
+    const result: RoadmapDiff = {
+      added: after.tasks.filter((task) => !beforeTasks.has(task.id) && !renumberedFrom.has(task.id)).sort(byId),
+      changed: [],
+      comments: [],
+      dependencies: this.diffEdges(before.tasks, after.tasks, newIds),
+      removed: before.tasks.filter((task) => !afterTasks.has(task.id) && !newIds.has(task.id)).sort(byId),
+      renamed: [],
+      renumbered: [...renumberedFrom]
+        .map(([id, old]) => ({from: old.id, title: old.title, to: id}))
+        .sort((a, b) => a.to.localeCompare(b.to)),
+      statusChanges: [],
+    }
+
+    for (const task of [...after.tasks].sort(byId)) {
+      const old = beforeTasks.get(task.id) ?? renumberedFrom.get(task.id)
+      if (!old) {
+        continue
+      }
+
+      if (old.title !== task.title) {
+        result.renamed.push({from: old.title, id: task.id, to: task.title})
+      }
+
+      if (old.status !== task.status) {
+        result.statusChanges.push({from: old.status, id: task.id, title: task.title, to: task.status})
+      }
+
+      const changes = this.diffFields(old, task)
+      if (changes.length > 0) {
+        result.changed.push({changes, id: task.id, title: task.title})
+      }
+
+      result.comments.push(...this.diffComments(old, task))
+    }
+
+    return result
+  }
+
+  /**
+   * Checks whether a diff found no differences.
+   *
+   * @param diff - The diff to check
+   * @returns True if nothing changed
+   */
+  isEmpty(diff: RoadmapDiff): boolean {
+    return (
+      diff.added.length +
+        diff.removed.length +
+        diff.renamed.length +
+        diff.renumbered.length +
+        diff.statusChanges.length +
+        diff.changed.length +
+        diff.comments.length +
+        diff.dependencies.added.length +
+        diff.dependencies.removed.length ===
+      0
+    )
+  }
+
+  /**
+   * Renders a diff as Markdown, with one section per kind of change.
+   *
+   * @param diff - The diff to render
+   * @param labels - Names of the two sides
+   * @returns Markdown for a pull request comment
+   */
+  renderMarkdown(diff: RoadmapDiff, labels: RoadmapDiffLabels): string {
+    const lines = [`## Roadmap changes (\`${labels.from}\` → \`${labels.to}\`)`]
+    if (this.isEmpty(diff)) {
+      return [...lines, '', 'No changes.'].join('\n')
+    }
+
+    const section = (title: string, items: string[]) => {
+      if (items.length > 0) {
+        lines.push('', `### ${title}`, '', ...items)
+      }
+    }
+
+    section(
+      'Added',
+      diff.added.map((task) => `- **${task.id}** ${escapeMarkdown(task.title)} (${task.type}, ${task.status})`),
+    )
+    section(
+      'Removed',
+      diff.removed.map((task) => `- **${task.id}** ${escapeMarkdown(task.title)}`),
+    )
+    section(
+      'Renamed',
+      diff.renamed.map((rename) => `- **${rename.id}** ${escapeMarkdown(rename.from)} → ${escapeMarkdown(rename.to)}`),
+    )
+    section(
+      'Renumbered',
+      diff.renumbered.map(
+        (renumbering) => `- **${renumbering.from}** → **${renumbering.to}** ${escapeMarkdown(renumbering.title)}`,
+      ),
+    )
+    section(
+      'Status changes',
+      diff.statusChanges.length === 0
+        ? []
+        : [
+            '| Task | From | To |',
+            '| --- | --- | --- |',
+            ...diff.statusChanges.map(
+              (change) => `| **${change.id}** ${escapeMarkdown(change.title)} | ${change.from} | ${change.to} |`,
+            ),
+          ],
+    )
+    section('Dependencies', [
+      ...diff.dependencies.added.map((edge) => `- Added: ${edge.to} depends on ${edge.from}`),
+      ...diff.dependencies.removed.map((edge) => `- Removed: ${edge.to} depends on ${edge.from}`),
+    ])
+    section(
+      'Field changes',
+      diff.changed.flatMap((change) => [
+        `- **${change.id}** ${escapeMarkdown(change.title)}`,
+        ...change.changes.map(
+          (field) => `  - \`${field.field}\`: ${formatMarkdownValue(field.from)} → ${formatMarkdownValue(field.to)}`,
+        ),
+      ]),
+    )
+    section(
+      'Comments',
+      diff.comments.map(
+        (comment) =>
+          `- **${comment.id}** ${escapeMarkdown(comment.author)}: ${escapeMarkdown(comment.body.replaceAll('\n', ' '))}`,
+      ),
+    )
+
+    return lines.join('\n')
+  }
+
+  /**
+   * Renders a diff as plain text for the terminal.
+   *
+   * @param diff - The diff to render
+   * @param labels - Names of the two sides
+   * @returns One line per change, grouped by kind
+   */
+  renderText(diff: RoadmapDiff, labels: RoadmapDiffLabels): string {
+    const lines = [`Roadmap diff: ${labels.from} → ${labels.to}`]
+    if (this.isEmpty(diff)) {
+      return [...lines, 'No changes'].join('\n')
+    }
+
+    const section = (title: string, items: string[], count = items.length) => {
+      if (items.length > 0) {
+        lines.push('', `${title} (${count})`, ...items.map((item) => `  ${item}`))
+      }
+    }
+
+    section(
+      'Added',
+      diff.added.map((task) => `+ ${task.id} ${task.title} [${task.type}, ${task.status}]`),
+    )
+    section(
+      'Removed',
+      diff.removed.map((task) => `- ${task.id} ${task.title}`),
+    )
+    section(
+      'Renamed',
+      diff.renamed.map((rename) => `~ ${rename.id} "${rename.from}" → "${rename.to}"`),
+    )
+    section(
+      'Renumbered',
+      diff.renumbered.map((renumbering) => `~ ${renumbering.from} → ${renumbering.to} ${renumbering.title}`),
+    )
+    section(
+      'Status changes',
+      diff.statusChanges.map((change) => `${change.id} ${change.title}: ${change.from} → ${change.to}`),
+    )
+    section('Dependencies', [
+      ...diff.dependencies.added.map((edge) => `+ ${edge.to} depends on ${edge.from}`),
+      ...diff.dependencies.removed.map((edge) => `- ${edge.to} depends on ${edge.from}`),
+    ])
+    section(
+      'Field changes',
+      diff.changed.flatMap((change) => [
+        `${change.id} ${change.title}`,
+        ...change.changes.map((field) => `  ${field.field}: ${formatValue(field.from)} → ${formatValue(field.to)}`),
+      ]),
+      diff.changed.length,
+    )
+    section(
+      'Comments',
+      diff.comments.map((comment) => `${comment.id} ${comment.author}: ${comment.body.replaceAll('\n', ' ')}`),
+    )
+
+    return lines.join('\n')
+  }
+
+  /**
+   * Finds the comments in the newer version of a task's activity log that the older one lacks.
+   */
+  private diffComments(before: Task, after: Task): TaskComment[] {
+    const seen = new Set((before.activity ?? []).map((entry) => JSON.stringify(entry)))
+
+    return (after.activity ?? []).flatMap((entry) =>
+      entry.type === 'comment' && !seen.has(JSON.stringify(entry))
+        ? [{at: entry.at, author: entry.author, body: entry.body, id: after.id, title: after.title}]
+        : [],
+    )
+  }
+
+  /**
+   * Finds the dependency edges only present on one side. Edges of renumbered tasks are
+   * compared under their new IDs.
+   */
+  private diffEdges(before: Task[], after: Task[], newIds: Map<TaskID, TaskID>): RoadmapDiff['dependencies'] {
+    const beforeEdges = graphRenderService
+      .getEdges(before)
+      .map((edge) => ({from: newIds.get(edge.from) ?? edge.from, to: newIds.get(edge.to) ?? edge.to}))
+    const afterEdges = graphRenderService.getEdges(after)
+    const beforeKeys = new Set(beforeEdges.map((edge) => edgeKey(edge)))
+    const afterKeys = new Set(afterEdges.map((edge) => edgeKey(edge)))
+
+    return {
+      added: afterEdges.filter((edge) => !beforeKeys.has(edgeKey(edge))).sort(byEdge),
+      removed: beforeEdges.filter((edge) => !afterKeys.has(edgeKey(edge))).sort(byEdge),
+    }
+  }
+
+  /**
+   * Compares the remaining fields of two versions of a task. Unset, null and missing are the same.
+   */
+  private diffFields(before: Task, after: Task): TaskFieldChange[] {
+    const fields = [...new Set([...Object.keys(after), ...Object.keys(before)])]
+      .filter((field) => !IGNORED_FIELDS.has(field))
+      .sort()
+
+    const changes: TaskFieldChange[] = []
+    for (const field of fields) {
+      const from = (before as Record<string, unknown>)[field] ?? null
+      const to = (after as Record<string, unknown>)[field] ?? null
+      if (JSON.stringify(from) !== JSON.stringify(to)) {
+        changes.push({field, from, to})
+      }
+    }
+
+    return changes
+  }
+}
+
+function byId(a: Task, b: Task): number {
+  return a.id.localeCompare(b.id)
+}
+
+function byEdge(a: GraphEdge, b: GraphEdge): number {
+  return a.to.localeCompare(b.to) || a.from.localeCompare(b.from)
+}
+
+function edgeKey(edge: GraphEdge): string {
+  return `${edge.from}\0${edge.to}`
+}
+
+/**
+ * Pairs tasks removed and added with the same creation time and title, by the ID they have now.
+ * Tasks without a creation time are never paired.
+ */
+function matchRenumbered(removed: Task[], added: Task[]): Map<TaskID, Task> {
+  const unmatched = [...removed].sort(byId)
+  const matches = new Map<TaskID, Task>()
+
+  for (const task of [...added].sort(byId)) {
+    const index = unmatched.findIndex(
+      (old) => Boolean(task.createdAt) && old.createdAt === task.createdAt && old.title === task.title,
+    )
+    if (index !== -1) {
+      matches.set(task.id, unmatched[index])
+      unmatched.splice(index, 1)
+    }
+  }
+
+  return matches
+}
+
+/**
+ * Escapes the characters that Markdown would read as formatting, links, HTML or table cells.
+ */
+function escapeMarkdown(text: string): string {
+  return text.replaceAll(/[\\`*_[\]<>|~]/g, String.raw`\$&`)
+}
+
+function formatValue(value: unknown): string {
+  if (value === null) {
+    return '(none)'
+  }
+
+  if (Array.isArray(value)) {
+    return value.length === 0 ? '(none)' : value.map((item) => formatValue(item)).join(', ')
+  }
+
+  return typeof value === 'object' ? JSON.stringify(value) : String(value)
+}
+
+function formatMarkdownValue(value: unknown): string {
+  const text = formatValue(value)
+  return text === '(none)' ? '_none_' : `\`${text}\``
+}
+
+/**
+ * Default export instance of RoadmapDiffService for convenience.
+ * Can be imported and used directly without instantiation.
+ *
+ * @example
+ * ```typescript
+ * const diff = roadmapDiffService.diff(before, after);
+ * console.log(roadmapDiffService.renderText(diff, {from: 'HEAD', to: 'working tree'}));
+ * ```
+ */
+export default new RoadmapDiffService()
@@ -0,0 +1,306 @@
+import {Roadmap, TaskID} from '../util/types.js'
+import taskService, {TaskIdOptions} from './task.service.js'
+
+// List fields merged entry by entry: additions from both sides are kept, and removals from either side win.
+// A task's activity log is also put back in time order.
+const LIST_MERGERS = new Map<string, <V>(base: V[], ours: V[], theirs: V[]) => V[]>([
+  ['activity', mergeActivity],
+  ['blocks', mergeSets],
+  ['depends-on', mergeSets],
+  ['tags', mergeSets],
+])
+
+// Top-level roadmap fields such as $schema, merged like task fields. The rest are merged
+// field by field (metadata) or item by item (milestones, sprints and tasks).
+type TopLevel = Omit<Roadmap, 'metadata' | 'milestones' | 'sprints' | 'tasks'>
+
+// The three versions of something being merged: the common ancestor, ours and theirs
+type Sides<T> = {base: T; ours: T; theirs: T}
+
+/**
+ * A change that could not be merged automatically. The merged roadmap keeps our side of it
+ * (or, when one side deleted an item the other changed, the changed item).
+ */
+export interface MergeConflict {
+  /** Value in the common ancestor (null if unset or absent) */
+  base: unknown
+  /** The conflicting field, or `deleted` when one side deleted an item the other changed */
+  field: string
+  /** Where the conflict is: a task ID, `milestone <id>`, `sprint <id>`, `metadata` or `roadmap` */
+  item: string
+  /** Our value (null if unset or deleted) */
+  ours: unknown
+  /** Their value (null if unset or deleted) */
+  theirs: unknown
+}
+
+/**
+ * A task that both sides added under the same ID, and that was given a new ID on their side
+ */
+export interface MergeRenumbering {
+  /** The ID both sides used */
+  from: TaskID
+  /** The new ID of their task */
+  to: TaskID
+}
+
+/**
+ * Result of a three-way roadmap merge
+ */
+export interface RoadmapMergeResult {
+  /** Changes that conflict; empty when the merge is clean */
+  conflicts: MergeConflict[]
+  /** Their tasks that were renumbered because both sides added the same ID */
+  renumbered: MergeRenumbering[]
+  /** The merged roadmap */
+  roadmap: Roadmap
+}
+
+/**
+ * RoadmapMergeService merges two versions of a roadmap that share a common ancestor, as git
+ * does for a merge. Tasks, milestones and sprints are matched by ID and merged field by field,
+ * so changes to different tasks, or to different fields of one task, never conflict.
+ */
+export class RoadmapMergeService {
+  /**
+   * Merges their roadmap into ours.
+   *
+   * When both sides added a task with the same ID (e.g. both ran `prt add` and got F-012),
+   * their task gets the next free ID, cascading to its references like a type change does.
+   * Tags, depends-on and blocks are merged as sets; updatedAt takes the later of both sides;
+   * a task's activity log keeps the new entries of both sides, in time order;
+   * any other field changed differently on both sides is a conflict.
+   *
+   * @param base - The common ancestor
+   * @param ours - Our version
+   * @param theirs - Their version
+   * @param options - The project's ID width and task types, used for renumbered IDs
+   * @returns The merged roadmap, the conflicts and the renumbered tasks
+   *
+   * @example
+   * ```typescript
+   * const {conflicts, roadmap} = roadmapMergeService.merge(base, ours, theirs, {width: config.idWidth});
+   * if (conflicts.length === 0) await writeRoadmapFile(path, roadmap);
+   * ```
+   */
+  merge(base: Roadmap, ours: Roadmap, theirs: Roadmap, options: TaskIdOptions = {}): RoadmapMergeResult {
+    const {renumbered, roadmap: renumberedTheirs} = this.renumberCollisions(base, ours, theirs, options)
+    const conflicts: MergeConflict[] = []
+
+    const sides = {base, ours, theirs: renumberedTheirs}
+    const hasList = (list: 'milestones' | 'sprints') => list in ours || list in renumberedTheirs
+
+    // Merged in file order, so conflicts are reported in that order too
+    const roadmap: Roadmap = {
+      ...this.mergeFields(mapSides(sides, topLevel), 'roadmap', conflicts),
+      metadata: this.mergeFields(
+        mapSides(sides, (side) => side.metadata),
+        'metadata',
+        conflicts,
+      ),
+      ...(hasList('milestones') && {
+        milestones: this.mergeItems(
+          mapSides(sides, (side) => side.milestones ?? []),
+          'milestone ',
+          conflicts,
+        ),
+      }),
+      ...(hasList('sprints') && {
+        sprints: this.mergeItems(
+          mapSides(sides, (side) => side.sprints ?? []),
+          'sprint ',
+          conflicts,
+        ),
+      }),
+      tasks: this.mergeItems(
+        mapSides(sides, (side) => side.tasks),
+        '',
+        conflicts,
+      ),
+    }
+
+    return {conflicts, renumbered, roadmap}
+  }
+
+  /**
+   * Merges the fields of two versions of an object.
+   */
+  private mergeFields<T extends object>(
+    {base, ours, theirs}: Omit<Sides<T>, 'base'> & {base: Partial<T>},
+    item: string,
+    conflicts: MergeConflict[],
+  ): T {
+    const merged: Partial<T> = {}
+    for (const field of new Set([...keys(ours), ...keys(theirs)])) {
+      const [original, ourValue, theirValue] = [base[field], ours[field], theirs[field]]
+      const mergeList = LIST_MERGERS.get(field)
+      let value: Partial<T>[typeof field]
+
+      if (field === 'updatedAt' && typeof ourValue === 'string' && typeof theirValue === 'string') {
+        value = Date.parse(theirValue) > Date.parse(ourValue) ? theirValue : ourValue
+      } else if (mergeList && Array.isArray(ourValue) && Array.isArray(theirValue)) {
+        value = mergeList(Array.isArray(original) ? original : [], ourValue, theirValue) as typeof ourValue
+      } else if (same(ourValue, theirValue) || same(theirValue, original)) {
+        value = ourValue
+      } else if (same(ourValue, original)) {
+        value = theirValue
+      } else {
+        conflicts.push({base: original ?? null, field, item, ours: ourValue ?? null, theirs: theirValue ?? null})
+        value = ourValue
+      }
+
+      if (value !== undefined) {
+        merged[field] = value
+      }
+    }
+
+    return merged as T
+  }
+
+  /**
+   * Merges two lists of items matched by ID. Ours keep their order; items only they
+   * added follow in their order.
+   */
+  private mergeItems<T extends {id: string}>(
+    {base, ours, theirs}: Sides<T[]>,
+    label: string,
+    conflicts: MergeConflict[],
+  ): T[] {
+    const baseItems = new Map(base.map((item) => [item.id, item]))
+    const ourItems = new Map(ours.map((item) => [item.id, item]))
+    const theirItems = new Map(theirs.map((item) => [item.id, item]))
+    const merged: T[] = []
+
+    for (const item of [...ours, ...theirs.filter((theirItem) => !ourItems.has(theirItem.id))]) {
+      const original = baseItems.get(item.id)
+      const ourItem = ourItems.get(item.id)
+      const theirItem = theirItems.get(item.id)
+
+      if (ourItem && theirItem) {
+        merged.push(
+          this.mergeFields({base: original ?? {}, ours: ourItem, theirs: theirItem}, `${label}${item.id}`, conflicts),
+        )
+      } else if (!original) {
+        // Added on one side only
+        merged.push(item)
+      } else if (!sameItem(original, item)) {
+        // Deleted on one side and changed on the other: keep the changed item
+        conflicts.push({
+          base: original,
+          field: 'deleted',
+          item: `${label}${item.id}`,
+          ours: ourItem ?? null,
+          theirs: theirItem ?? null,
+        })
+        merged.push(item)
+      }
+    }
+
+    return merged
+  }
+
+  /**
+   * Gives their tasks new IDs where both sides added different tasks under the same ID.
+   */
+  private renumberCollisions(
+    base: Roadmap,
+    ours: Roadmap,
+    theirs: Roadmap,
+    options: TaskIdOptions,
+  ): {renumbered: MergeRenumbering[]; roadmap: Roadmap} {
+    const baseIds = new Set(base.tasks.map((task) => task.id))
+    const ourAdditions = new Map(ours.tasks.filter((task) => !baseIds.has(task.id)).map((task) => [task.id, task]))
+    const renumbered: MergeRenumbering[] = []
+    let roadmap = theirs
+
+    for (const task of theirs.tasks) {
+      const ourTask = ourAdditions.get(task.id)
+      if (!ourTask || sameItem(ourTask, task)) {
+        continue
+      }
+
+      // The new ID must be free on both sides
+      const newTaskId = taskService.generateNextId(
+        {...roadmap, tasks: [...ours.tasks, ...roadmap.tasks]},
+        task.type,
+        options,
+      )
+      roadmap = taskService.changeTaskId(roadmap, task.id, newTaskId)
+      renumbered.push({from: task.id, to: newTaskId})
+    }
+
+    return {renumbered, roadmap}
+  }
+}
+
+/**
+ * Serializes a value with sorted object keys, so equal values compare equal whatever their key order.
+ */
+function canonical(value: unknown): string {
+  return JSON.stringify(value ?? null, (_, nested: unknown) =>
+    nested && typeof nested === 'object' && !Array.isArray(nested)
+      ? Object.fromEntries(Object.entries(nested).sort(([a], [b]) => a.localeCompare(b)))
+      : nested,
+  )
+}
+
+function keys<T extends object>(value: T): Array<keyof T & string> {
+  return Object.keys(value) as Array<keyof T & string>
+}
+
+function mapSides<T, U>({base, ours, theirs}: Sides<T>, select: (side: T) => U): Sides<U> {
+  return {base: select(base), ours: select(ours), theirs: select(theirs)}
+}
+
+function topLevel({
+  metadata: _metadata,
+  milestones: _milestones,
+  sprints: _sprints,
+  tasks: _tasks,
+  ...rest
+}: Roadmap): TopLevel {
+  return rest
+}
+
+function same(a: unknown, b: unknown): boolean {
+  return canonical(a) === canonical(b)
+}
+
+function sameItem(a: object, b: object): boolean {
+  return same({...a, updatedAt: null}, {...b, updatedAt: null})
+}
+
+function includesValue(list: unknown[], value: unknown): boolean {
+  return list.some((entry) => same(entry, value))
+}
+
+function mergeSets<V>(base: V[], ours: V[], theirs: V[]): V[] {
+  const removedByThem = (value: V) => includesValue(base, value) && !includesValue(theirs, value)
+  const addedByThem = theirs.filter((value) => !includesValue(base, value) && !includesValue(ours, value))
+
+  return [...ours.filter((value) => !removedByThem(value)), ...addedByThem]
+}
+
+/**
+ * Merges two versions of a task's activity log: the entries either side added are kept once,
+ * and the log is ordered by time again. Entries removed on one side stay removed.
+ */
+function mergeActivity<V>(base: V[], ours: V[], theirs: V[]): V[] {
+  return mergeSets(base, ours, theirs).sort((a, b) => activityTime(a) - activityTime(b))
+}
+
+function activityTime(entry: unknown): number {
+  return Date.parse(String((entry as {at?: unknown})?.at))
+}
+
+/**
+ * Default export instance of RoadmapMergeService for convenience.
+ * Can be imported and used directly without instantiation.
+ *
+ * @example
+ * ```typescript
+ * import roadmapMergeService from './services/roadmap-merge.service.js';
+ * const {conflicts} = roadmapMergeService.merge(base, ours, theirs);
+ * ```
+ */
+export default new RoadmapMergeService()
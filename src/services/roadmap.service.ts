@@ -1,34 +1,77 @@
 import {ValidationError, ValidationErrorDetail} from '../errors/index.js'
 import {readRoadmapFile} from '../util/read-roadmap.js'
+import {DEFAULT_TASK_TYPES, TaskTypeRegistry} from '../util/task-types.js'
 import {PRIORITY, Roadmap, STATUS, TASK_TYPE} from '../util/types.js'
-import {validateTask} from '../util/validate-task.js'
+import {TaskValidationOptions, validateTask} from '../util/validate-task.js'
+import {DEFAULT_WORKFLOW, Workflow} from '../util/workflow.js'
 import {writeRoadmapFile} from '../util/write-roadmap.js'
+import milestoneService from './milestone.service.js'
+import sprintService from './sprint.service.js'
 import taskDependencyService from './task-dependency.service.js'
+import taskHierarchyService from './task-hierarchy.service.js'
 
 /**
- * Statistics about a roadmap's tasks
+ * Completion counts for a group of tasks (e.g., all tasks with one assignee or tag)
+ */
+export interface TaskGroupStats {
+  /** Number of completed tasks in the group */
+  completed: number
+  /** Total number of tasks in the group */
+  total: number
+}
+
+/**
+ * Effort totals across a roadmap
+ */
+export interface EffortStats {
+  /** Effort of tasks that are not completed */
+  remaining: number
+  /** Effort of all estimated tasks */
+  total: number
+  /** Number of tasks without an effort estimate */
+  unestimated: number
+}
+
+/**
+ * Statistics about a roadmap's tasks.
+ * The progress, effort and breakdown fields are always populated by getStats, but are
+ * optional so that callers building stats by hand only need the basic counts.
  */
 export interface RoadmapStats {
+  /** Completion counts by assignee (unassigned tasks are not included) */
+  byAssignee?: Record<string, TaskGroupStats>
   /** Count of tasks by priority */
   byPriority: {
     [PRIORITY.High]: number
     [PRIORITY.Low]: number
     [PRIORITY.Medium]: number
   }
-  /** Count of tasks by status */
-  byStatus: {
+  /** Count of tasks by status: the built-in statuses plus any custom workflow statuses */
+  byStatus: Record<string, number> & {
     [STATUS.Completed]: number
     [STATUS.InProgress]: number
     [STATUS.NotStarted]: number
   }
-  /** Count of tasks by type */
-  byType: {
+  /** Completion counts by tag */
+  byTag?: Record<string, TaskGroupStats>
+  /** Count of tasks by type: the built-in types plus any custom types from .prtrc.json */
+  byType: Record<string, number> & {
     [TASK_TYPE.Bug]: number
     [TASK_TYPE.Feature]: number
     [TASK_TYPE.Improvement]: number
     [TASK_TYPE.Planning]: number
     [TASK_TYPE.Research]: number
   }
+  /** Percentage of tasks that are completed (0-100, one decimal) */
+  completionRate?: number
+  /** Effort totals */
+  effort?: EffortStats
+  /** Number of incomplete tasks whose due date has passed */
+  overdue?: number
+  /** Percentage of tasks that pass tests (0-100, one decimal) */
+  testPassRate?: number
+  /** Number of tasks that pass tests */
+  testsPassing?: number
   /** Total number of tasks in the roadmap */
   totalTasks: number
 }
@@ -40,9 +83,13 @@ export interface RoadmapStats {
 export class RoadmapService {
   /**
    * Gets statistics about a roadmap's tasks.
-   * Provides counts by status, type, and priority.
+   * Provides counts by status, type, and priority, completion and test-pass rates,
+   * overdue count, per-assignee and per-tag breakdowns, and effort totals.
    *
    * @param roadmap - The roadmap to analyze
+   * @param asOf - Date used to decide whether a task is overdue (default: now)
+   * @param taskTypes - Task types to count; every type starts at 0 (default: the built-in types)
+   * @param workflow - Workflow whose statuses to count; every status starts at 0 (default: the built-in statuses)
    * @returns Statistics object with task counts
    *
    * @example
@@ -50,9 +97,15 @@ export class RoadmapService {
    * const stats = roadmapService.getStats(roadmap);
    * console.log(`Completed: ${stats.byStatus.completed}`);
    * console.log(`Total: ${stats.totalTasks}`);
+   * console.log(`Completion: ${stats.completionRate}%`);
    * ```
    */
-  getStats(roadmap: Roadmap): RoadmapStats {
+  getStats(
+    roadmap: Roadmap,
+    asOf: Date = new Date(),
+    taskTypes: TaskTypeRegistry = DEFAULT_TASK_TYPES,
+    workflow: Workflow = DEFAULT_WORKFLOW,
+  ): RoadmapStats {
     const stats: RoadmapStats = {
       byPriority: {
         [PRIORITY.High]: 0,
@@ -63,6 +116,7 @@ export class RoadmapService {
         [STATUS.Completed]: 0,
         [STATUS.InProgress]: 0,
         [STATUS.NotStarted]: 0,
+        ...Object.fromEntries([...workflow.statuses.keys()].map((status) => [status, 0])),
       },
       byType: {
         [TASK_TYPE.Bug]: 0,
@@ -70,28 +124,73 @@ export class RoadmapService {
         [TASK_TYPE.Improvement]: 0,
         [TASK_TYPE.Planning]: 0,
         [TASK_TYPE.Research]: 0,
+        ...Object.fromEntries([...taskTypes.keys()].map((type) => [type, 0])),
       },
       totalTasks: roadmap.tasks.length,
     }
+    // Maps, since tags and assignees are free text and may be named like Object.prototype keys
+    const byAssignee = new Map<string, TaskGroupStats>()
+    const byTag = new Map<string, TaskGroupStats>()
+    const effort: EffortStats = {remaining: 0, total: 0, unestimated: 0}
+    let overdue = 0
+    let testsPassing = 0
 
     for (const task of roadmap.tasks) {
+      const completed = task.status === STATUS.Completed
+
+      if (task.assignedTo) {
+        countTask(byAssignee, task.assignedTo, completed)
+      }
+
+      for (const tag of new Set(task.tags)) {
+        countTask(byTag, tag, completed)
+      }
+
+      if (typeof task.effort === 'number') {
+        effort.total += task.effort
+        effort.remaining += completed ? 0 : task.effort
+      } else {
+        effort.unestimated++
+      }
+
+      const due = task.dueDate ? Date.parse(task.dueDate) : Number.NaN
+      if (!completed && due < asOf.getTime()) {
+        overdue++
+      }
+
+      if (task['passes-tests']) {
+        testsPassing++
+      }
+
       // Count by status
-      if (task.status in stats.byStatus) {
+      if (Object.hasOwn(stats.byStatus, task.status)) {
         stats.byStatus[task.status]++
       }
 
       // Count by type
-      if (task.type in stats.byType) {
+      if (Object.hasOwn(stats.byType, task.type)) {
         stats.byType[task.type]++
       }
 
       // Count by priority
-      if (task.priority in stats.byPriority) {
+      if (Object.hasOwn(stats.byPriority, task.priority)) {
         stats.byPriority[task.priority]++
       }
     }
 
-    return stats
+    const percentOfTotal = (count: number) =>
+      stats.totalTasks === 0 ? 0 : Math.round((count / stats.totalTasks) * 1000) / 10
+
+    return {
+      ...stats,
+      byAssignee: Object.fromEntries(byAssignee),
+      byTag: Object.fromEntries(byTag),
+      completionRate: percentOfTotal(stats.byStatus[STATUS.Completed]),
+      effort,
+      overdue,
+      testPassRate: percentOfTotal(testsPassing),
+      testsPassing,
+    }
   }
 
   /**
@@ -145,6 +244,7 @@ export class RoadmapService {
    * Checks for valid structure, task validation, duplicate IDs, and reference integrity.
    *
    * @param roadmap - The roadmap to validate
+   * @param options - Task types and workflow the tasks must follow (default: the built-in ones)
    * @returns An array of validation errors (empty if valid)
    *
    * @example
@@ -155,7 +255,7 @@ export class RoadmapService {
    * }
    * ```
    */
-  validate(roadmap: Roadmap): ValidationErrorDetail[] {
+  validate(roadmap: Roadmap, options: TaskValidationOptions = {}): ValidationErrorDetail[] {
     const errors: ValidationErrorDetail[] = []
 
     // Validate roadmap structure
@@ -171,7 +271,7 @@ export class RoadmapService {
     }
 
     // Validate tasks and collect IDs
-    const taskIds = this.validateTasks(roadmap.tasks, errors)
+    const taskIds = this.validateTasks(roadmap.tasks, errors, options)
 
     // Validate task references
     this.validateReferences(roadmap.tasks, taskIds, errors)
@@ -179,6 +279,23 @@ export class RoadmapService {
     // Validate dependency integrity (circular dependencies, etc.)
     this.validateDependencyIntegrity(roadmap, errors)
 
+    // Validate the parent/child hierarchy (missing parents, parent cycles)
+    this.validateHierarchy(roadmap, errors)
+
+    // Validate milestones and the tasks' references to them
+    if (roadmap.milestones !== undefined && !Array.isArray(roadmap.milestones)) {
+      errors.push({message: 'Roadmap milestones must be an array', type: 'structure'})
+    } else {
+      errors.push(...milestoneService.validateMilestones(roadmap))
+    }
+
+    // Validate sprints and the tasks' references to them
+    if (roadmap.sprints !== undefined && !Array.isArray(roadmap.sprints)) {
+      errors.push({message: 'Roadmap sprints must be an array', type: 'structure'})
+    } else {
+      errors.push(...sprintService.validateSprints(roadmap))
+    }
+
     return errors
   }
 
@@ -199,6 +316,22 @@ export class RoadmapService {
     }
   }
 
+  /**
+   * Validates the parent/child hierarchy: missing parents and parent cycles
+   * @param roadmap - The roadmap to validate
+   * @param errors - Array to collect errors
+   */
+  private validateHierarchy(roadmap: Roadmap, errors: ValidationErrorDetail[]): void {
+    for (const hierarchyError of taskHierarchyService.validateHierarchy(roadmap.tasks)) {
+      errors.push({
+        field: 'parent',
+        message: hierarchyError.message,
+        taskId: hierarchyError.taskId,
+        type: hierarchyError.type === 'circular' ? 'circular-dependency' : hierarchyError.type,
+      })
+    }
+  }
+
   /**
    * Validates roadmap metadata
    * @param metadata - The metadata to validate
@@ -286,14 +419,19 @@ export class RoadmapService {
    * Validates tasks and checks for duplicates
    * @param tasks - The tasks to validate
    * @param errors - Array to collect errors
+   * @param options - Task types and workflow the tasks must follow
    * @returns Set of valid task IDs
    */
-  private validateTasks(tasks: Roadmap['tasks'], errors: ValidationErrorDetail[]): Set<string> {
+  private validateTasks(
+    tasks: Roadmap['tasks'],
+    errors: ValidationErrorDetail[],
+    options: TaskValidationOptions,
+  ): Set<string> {
     const taskIds = new Set<string>()
 
     for (const task of tasks) {
       try {
-        validateTask(task)
+        validateTask(task, options)
       } catch (error) {
         errors.push({
           message: error instanceof Error ? error.message : String(error),
@@ -333,3 +471,13 @@ export default new RoadmapService()
 // Re-export ValidationErrorDetail for backward compatibility
 
 export {type ValidationErrorDetail} from '../errors/index.js'
+
+/**
+ * Counts a task in its group, creating the group on first use.
+ */
+function countTask(groups: Map<string, TaskGroupStats>, key: string, completed: boolean): void {
+  const group = groups.get(key) ?? {completed: 0, total: 0}
+  group.total++
+  group.completed += completed ? 1 : 0
+  groups.set(key, group)
+}
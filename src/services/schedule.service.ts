@@ -0,0 +1,274 @@
+import {CircularDependencyError} from '../errors/index.js'
+import {STATUS, Task, TaskID} from '../util/types.js'
+import taskDependencyService from './task-dependency.service.js'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Options for schedule analysis
+ */
+export interface ScheduleOptions {
+  /** Effort assumed for tasks without an estimate (default: 0) */
+  defaultEffort?: number
+  /** Date the remaining work starts, used to check due dates (default: now) */
+  startDate?: Date
+}
+
+/**
+ * Earliest/latest start and finish of a task, measured in effort units from the schedule start
+ */
+export interface TaskSchedule {
+  /** Whether the task has no slack and therefore lies on a critical path */
+  critical: boolean
+  /** Earliest time the task can finish */
+  earliestFinish: number
+  /** Earliest time the task can start, once all its dependencies are finished */
+  earliestStart: number
+  /** Effort used for the task (its estimate, or the default effort) */
+  effort: number
+  /** Latest time the task can finish without delaying the whole roadmap */
+  latestFinish: number
+  /** Latest time the task can start without delaying the whole roadmap */
+  latestStart: number
+  /** How long the task can slip without delaying the whole roadmap */
+  slack: number
+  /** The scheduled task */
+  task: Task
+}
+
+/**
+ * A task whose dependency chain finishes after its due date
+ */
+export interface DueDateConflict {
+  /** How many days after the due date the task can finish at the earliest */
+  daysLate: number
+  /** The task's due date */
+  dueDate: string
+  /** Earliest date the task can finish, as an ISO string */
+  earliestFinishDate: string
+  /** The task that cannot meet its due date */
+  task: Task
+}
+
+/**
+ * Result of a schedule analysis
+ */
+export interface ScheduleAnalysis {
+  /** Tasks whose earliest finish date is after their due date */
+  conflicts: DueDateConflict[]
+  /** The longest effort-weighted chain of tasks, in execution order */
+  criticalPath: TaskSchedule[]
+  /** Schedule of every incomplete task, in dependency order */
+  schedule: TaskSchedule[]
+  /** Total effort along the critical path (the minimum time to finish the roadmap) */
+  totalEffort: number
+}
+
+/**
+ * ScheduleService performs critical path analysis on the dependency graph.
+ * Each incomplete task is weighted by its effort estimate (treated as days when
+ * checking due dates). Completed tasks and references to missing tasks impose no
+ * constraints and are left out of the schedule.
+ */
+export class ScheduleService {
+  /**
+   * Computes the critical path, per-task slack, and due date conflicts.
+   * Uses the classic forward pass (earliest start/finish) and backward pass
+   * (latest start/finish) over the depends-on graph. When every remaining task
+   * has zero effort there is no meaningful critical path and it is returned empty.
+   *
+   * @param tasks - All tasks in the roadmap
+   * @param options - Default effort for unestimated tasks and the schedule start date
+   * @returns The schedule analysis
+   * @throws CircularDependencyError if the roadmap contains a circular dependency
+   *
+   * @example
+   * ```typescript
+   * const analysis = scheduleService.analyze(roadmap.tasks, {defaultEffort: 1});
+   * console.log(analysis.criticalPath.map((s) => s.task.id).join(' -> '));
+   * for (const conflict of analysis.conflicts) {
+   *   console.log(`${conflict.task.id} will be ${conflict.daysLate} days late`);
+   * }
+   * ```
+   */
+  analyze(tasks: Task[], options: ScheduleOptions = {}): ScheduleAnalysis {
+    const circular = taskDependencyService.detectCircular(tasks)
+    if (circular) {
+      throw new CircularDependencyError(circular.cycle, circular.message)
+    }
+
+    const defaultEffort = options.defaultEffort ?? 0
+    const remaining = tasks.filter((task) => task.status !== STATUS.Completed)
+    const ordered = this.orderByDependencies(remaining)
+    const byId = new Map<TaskID, TaskSchedule>()
+
+    // Forward pass: a task starts once all its remaining dependencies have finished
+    for (const task of ordered) {
+      const effort = task.effort ?? defaultEffort
+      const earliestStart = Math.max(
+        0,
+        ...this.remainingDependencies(task, byId).map((dependency) => dependency.earliestFinish),
+      )
+      byId.set(task.id, {
+        critical: false,
+        earliestFinish: earliestStart + effort,
+        earliestStart,
+        effort,
+        latestFinish: 0,
+        latestStart: 0,
+        slack: 0,
+        task,
+      })
+    }
+
+    const totalEffort = Math.max(0, ...[...byId.values()].map((entry) => entry.earliestFinish))
+
+    // Backward pass: a task must finish before any of its dependents has to start
+    const dependents = new Map<TaskID, TaskSchedule[]>()
+    for (const entry of byId.values()) {
+      for (const dependency of this.remainingDependencies(entry.task, byId)) {
+        dependents.set(dependency.task.id, [...(dependents.get(dependency.task.id) ?? []), entry])
+      }
+    }
+
+    for (const task of [...ordered].reverse()) {
+      const entry = byId.get(task.id)!
+      entry.latestFinish = Math.min(
+        totalEffort,
+        ...(dependents.get(task.id) ?? []).map((dependent) => dependent.latestStart),
+      )
+      entry.latestStart = entry.latestFinish - entry.effort
+      entry.slack = entry.latestStart - entry.earliestStart
+      entry.critical = this.isZero(entry.slack)
+    }
+
+    const schedule = ordered.map((task) => byId.get(task.id)!)
+
+    return {
+      conflicts: this.findDueDateConflicts(schedule, options.startDate ?? new Date()),
+      criticalPath: totalEffort > 0 ? this.traceCriticalPath(schedule, byId) : [],
+      schedule,
+      totalEffort,
+    }
+  }
+
+  /**
+   * Finds scheduled tasks whose earliest finish date is after their due date.
+   * Tasks without a due date, or with an unparseable one, are skipped.
+   *
+   * @param schedule - The computed schedule
+   * @param startDate - Date the remaining work starts
+   * @returns The conflicts, in schedule order
+   */
+  private findDueDateConflicts(schedule: TaskSchedule[], startDate: Date): DueDateConflict[] {
+    const conflicts: DueDateConflict[] = []
+
+    for (const entry of schedule) {
+      const due = entry.task.dueDate ? Date.parse(entry.task.dueDate) : Number.NaN
+      if (Number.isNaN(due)) {
+        continue
+      }
+
+      const earliestFinish = startDate.getTime() + entry.earliestFinish * DAY_MS
+      if (earliestFinish > due) {
+        conflicts.push({
+          daysLate: Math.ceil((earliestFinish - due) / DAY_MS),
+          dueDate: entry.task.dueDate!,
+          earliestFinishDate: new Date(earliestFinish).toISOString(),
+          task: entry.task,
+        })
+      }
+    }
+
+    return conflicts
+  }
+
+  /**
+   * Checks whether a slack value is zero, allowing for floating point error in fractional efforts.
+   */
+  private isZero(value: number): boolean {
+    return Math.abs(value) < 1e-9
+  }
+
+  /**
+   * Orders tasks so that every task comes after the tasks it depends on.
+   * Unlike topologicalSort, dependencies on tasks outside the list are ignored
+   * rather than excluding the dependent task. Ties keep input order.
+   *
+   * @param tasks - The tasks to order (must be acyclic)
+   * @returns The tasks in dependency order
+   */
+  private orderByDependencies(tasks: Task[]): Task[] {
+    const taskMap = new Map(tasks.map((task) => [task.id, task]))
+    const visited = new Set<TaskID>()
+    const ordered: Task[] = []
+
+    const visit = (task: Task) => {
+      if (visited.has(task.id)) {
+        return
+      }
+
+      visited.add(task.id)
+      for (const depId of task['depends-on']) {
+        const dependency = taskMap.get(depId)
+        if (dependency) {
+          visit(dependency)
+        }
+      }
+
+      ordered.push(task)
+    }
+
+    for (const task of tasks) {
+      visit(task)
+    }
+
+    return ordered
+  }
+
+  /**
+   * Gets the already scheduled entries for a task's dependencies, skipping completed or missing tasks.
+   */
+  private remainingDependencies(task: Task, byId: Map<TaskID, TaskSchedule>): TaskSchedule[] {
+    return task['depends-on'].flatMap((depId) => {
+      const dependency = byId.get(depId)
+      return dependency ? [dependency] : []
+    })
+  }
+
+  /**
+   * Walks back from the critical task that finishes last, following critical dependencies
+   * that finish exactly when the current task starts.
+   *
+   * @param schedule - The computed schedule, in dependency order
+   * @param byId - Schedule entries by task ID
+   * @returns The critical path, in execution order
+   */
+  private traceCriticalPath(schedule: TaskSchedule[], byId: Map<TaskID, TaskSchedule>): TaskSchedule[] {
+    const totalEffort = Math.max(...schedule.map((entry) => entry.earliestFinish))
+    let current = schedule.find((entry) => entry.critical && this.isZero(entry.earliestFinish - totalEffort))
+    const path: TaskSchedule[] = []
+
+    while (current) {
+      path.unshift(current)
+      const {earliestStart} = current
+      current = this.remainingDependencies(current.task, byId).find(
+        (dependency) => dependency.critical && this.isZero(dependency.earliestFinish - earliestStart),
+      )
+    }
+
+    return path
+  }
+}
+
+/**
+ * Default export instance of ScheduleService for convenience.
+ * Can be imported and used directly without instantiation.
+ *
+ * @example
+ * ```typescript
+ * import scheduleService from './services/schedule.service.js';
+ * const {criticalPath, totalEffort} = scheduleService.analyze(roadmap.tasks);
+ * ```
+ */
+export default new ScheduleService()
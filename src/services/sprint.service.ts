@@ -0,0 +1,459 @@
+import {SprintNotFoundError, ValidationError, ValidationErrorDetail} from '../errors/index.js'
+import {Roadmap, Sprint, STATUS, Task, TaskID} from '../util/types.js'
+import taskDependencyService from './task-dependency.service.js'
+import taskQueryService, {SortOrder} from './task-query.service.js'
+
+/**
+ * Sprint IDs are short user-chosen identifiers such as 2026-s22 or sprint-3
+ */
+export const SPRINT_ID_REGEX = /^[\dA-Za-z][\w.-]*$/
+
+/**
+ * Length of a sprint whose end date is not given
+ */
+export const DEFAULT_SPRINT_DAYS = 14
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Capacity and effort of one assignee in a sprint
+ */
+export interface SprintMemberLoad {
+  /** The assignee */
+  assignee: string
+  /** Effort units the assignee can take on (0 for assignees without capacity) */
+  capacity: number
+  /** Effort of the assignee's tasks in the sprint */
+  committed: number
+  /** Effort of the assignee's completed tasks in the sprint */
+  completed: number
+}
+
+/**
+ * The tasks pulled into a sprint by planSprint
+ */
+export interface SprintPlan {
+  /** Capacity and committed effort of every assignee with capacity, including the planned tasks */
+  load: SprintMemberLoad[]
+  /** Tasks pulled into the sprint, in the order they were picked */
+  planned: Task[]
+  /** The sprint */
+  sprint: Sprint
+  /** Ready tasks left out because their assignee has no capacity in the sprint, or they have none */
+  unassigned: Task[]
+  /** Ready tasks left out because they have no effort estimate */
+  unestimated: Task[]
+}
+
+/**
+ * Committed and completed effort of a sprint
+ */
+export interface SprintStatus {
+  /** Effort of the tasks in the sprint */
+  committed: number
+  /** Effort of the completed tasks in the sprint */
+  completed: number
+  /** Number of completed tasks */
+  completedTasks: number
+  /** Days until the sprint ends, counting today (0 once it has ended) */
+  daysLeft: number
+  /** Capacity and effort per assignee: those with capacity first, then others with tasks in the sprint */
+  members: SprintMemberLoad[]
+  /** Percentage of committed effort that is completed (0-100, one decimal) */
+  progress: number
+  /** The sprint */
+  sprint: Sprint
+  /** Whether the sprint has not started yet, is running, or has ended */
+  state: 'active' | 'ended' | 'planned'
+  /** Number of tasks in the sprint */
+  total: number
+  /** Number of tasks in the sprint without an effort estimate */
+  unestimated: number
+}
+
+/**
+ * SprintService manages the sprints of a roadmap: time-boxed iterations with per-assignee
+ * capacity measured in effort units. It fills a sprint with the highest-ranked ready tasks
+ * and reports committed against completed effort. Like TaskService, it never mutates a
+ * roadmap: every change returns a new one.
+ */
+export class SprintService {
+  /**
+   * Adds a sprint to a roadmap.
+   *
+   * @param roadmap - The roadmap to add to
+   * @param sprint - The sprint to add
+   * @returns A new roadmap with the sprint added
+   * @throws ValidationError if the sprint is invalid or its ID is already used
+   *
+   * @example
+   * ```typescript
+   * const sprint = sprintService.createSprint({capacity: {alice: 8}, id: 's1', startDate: '2026-11-02'});
+   * const updatedRoadmap = sprintService.addSprint(roadmap, sprint);
+   * ```
+   */
+  addSprint(roadmap: Roadmap, sprint: Sprint): Roadmap {
+    const sprints = roadmap.sprints ?? []
+    const errors = this.validateSprint(sprint)
+    if (sprints.some((existing) => existing.id === sprint.id)) {
+      errors.push({field: 'id', message: `Sprint ${sprint.id} already exists`, type: 'duplicate-id'})
+    }
+
+    if (errors.length > 0) {
+      throw new ValidationError(errors)
+    }
+
+    return {...roadmap, sprints: [...sprints, sprint]}
+  }
+
+  /**
+   * Commits tasks to a sprint by setting their `sprint` field.
+   *
+   * @param roadmap - The roadmap containing the tasks
+   * @param sprintId - The sprint to commit to
+   * @param taskIds - The tasks to commit
+   * @returns A new roadmap with the tasks committed
+   * @throws SprintNotFoundError if the sprint does not exist
+   */
+  commitTasks(roadmap: Roadmap, sprintId: string, taskIds: TaskID[]): Roadmap {
+    this.getSprint(roadmap, sprintId)
+    const ids = new Set(taskIds)
+    const updatedAt = new Date().toISOString()
+
+    return {
+      ...roadmap,
+      tasks: roadmap.tasks.map((task) => (ids.has(task.id) ? {...task, sprint: sprintId, updatedAt} : task)),
+    }
+  }
+
+  /**
+   * Creates a sprint object. The name defaults to the ID, and the end date to
+   * DEFAULT_SPRINT_DAYS days after the start, counting the first day.
+   *
+   * @param data - The sprint's ID, start date and capacity, and optional name and end date
+   * @param data.capacity - Effort units per assignee
+   * @param data.endDate - ISO 8601 date of the last day of the sprint
+   * @param data.id - ID of the sprint
+   * @param data.name - Name of the sprint (default: the ID)
+   * @param data.startDate - ISO 8601 date of the first day of the sprint
+   * @returns The sprint, created now
+   */
+  createSprint(data: {
+    capacity: Record<string, number>
+    endDate?: string
+    id: string
+    name?: string
+    startDate: string
+  }): Sprint {
+    return {
+      capacity: data.capacity,
+      createdAt: new Date().toISOString(),
+      endDate: data.endDate ?? new Date(Date.parse(data.startDate) + (DEFAULT_SPRINT_DAYS - 1) * DAY_MS).toISOString(),
+      id: data.id,
+      name: data.name ?? data.id,
+      startDate: data.startDate,
+    }
+  }
+
+  /**
+   * Finds a sprint by its ID.
+   *
+   * @param roadmap - The roadmap to search
+   * @param sprintId - The sprint ID
+   * @returns The sprint, or undefined if it does not exist
+   */
+  findSprint(roadmap: Roadmap, sprintId: string): Sprint | undefined {
+    return roadmap.sprints?.find((sprint) => sprint.id === sprintId)
+  }
+
+  /**
+   * Gets a sprint by its ID.
+   *
+   * @param roadmap - The roadmap to search
+   * @param sprintId - The sprint ID
+   * @returns The sprint
+   * @throws SprintNotFoundError if the sprint does not exist
+   */
+  getSprint(roadmap: Roadmap, sprintId: string): Sprint {
+    const sprint = this.findSprint(roadmap, sprintId)
+    if (!sprint) {
+      throw new SprintNotFoundError(sprintId)
+    }
+
+    return sprint
+  }
+
+  /**
+   * Reports a sprint's committed and completed effort, overall and per assignee.
+   *
+   * @param roadmap - The roadmap containing the sprint
+   * @param sprintId - The sprint to report on
+   * @param now - The date the sprint dates are compared with (default: now)
+   * @returns The status
+   * @throws SprintNotFoundError if the sprint does not exist
+   *
+   * @example
+   * ```typescript
+   * const {committed, completed} = sprintService.getStatus(roadmap, 's1');
+   * console.log(`${completed} of ${committed} effort done`);
+   * ```
+   */
+  getStatus(roadmap: Roadmap, sprintId: string, now: Date = new Date()): SprintStatus {
+    const sprint = this.getSprint(roadmap, sprintId)
+    const tasks = this.getTasks(roadmap, sprintId)
+    const members = this.initLoad(sprint)
+    let committed = 0
+    let completed = 0
+    let completedTasks = 0
+    let unestimated = 0
+
+    for (const task of tasks) {
+      const done = task.status === STATUS.Completed
+      completedTasks += done ? 1 : 0
+      if (typeof task.effort !== 'number') {
+        unestimated++
+        continue
+      }
+
+      committed += task.effort
+      completed += done ? task.effort : 0
+
+      if (task.assignedTo) {
+        if (!members.has(task.assignedTo)) {
+          members.set(task.assignedTo, {assignee: task.assignedTo, capacity: 0, committed: 0, completed: 0})
+        }
+
+        const member = members.get(task.assignedTo)!
+        member.committed += task.effort
+        member.completed += done ? task.effort : 0
+      }
+    }
+
+    const start = Date.parse(sprint.startDate)
+    const end = Date.parse(sprint.endDate) + DAY_MS
+
+    return {
+      committed,
+      completed,
+      completedTasks,
+      daysLeft: Math.max(0, Math.ceil((end - Math.max(now.getTime(), start)) / DAY_MS)),
+      members: [...members.values()],
+      progress: committed === 0 ? 0 : Math.round((completed / committed) * 1000) / 10,
+      sprint,
+      state: now.getTime() < start ? 'planned' : now.getTime() < end ? 'active' : 'ended',
+      total: tasks.length,
+      unestimated,
+    }
+  }
+
+  /**
+   * Gets the tasks committed to a sprint, in roadmap order.
+   *
+   * @param roadmap - The roadmap
+   * @param sprintId - The sprint ID
+   * @returns The tasks whose sprint is sprintId
+   */
+  getTasks(roadmap: Roadmap, sprintId: string): Task[] {
+    return roadmap.tasks.filter((task) => task.sprint === sprintId)
+  }
+
+  /**
+   * Picks the tasks to pull into a sprint. Not-started tasks are ranked by priority (high
+   * first) and due date (earliest first), with dependency order breaking ties. The highest-ranked
+   * task whose dependencies are completed or already in the sprint is pulled next, as long as
+   * its effort fits its assignee's remaining capacity; this repeats until nothing more fits.
+   *
+   * Tasks committed to another sprint are only pulled once that sprint has ended before
+   * this one starts. The roadmap is not changed; pass the planned tasks to commitTasks.
+   *
+   * @param roadmap - The roadmap containing the sprint
+   * @param sprintId - The sprint to plan
+   * @returns The plan
+   * @throws SprintNotFoundError if the sprint does not exist
+   * @throws Error if the roadmap contains a circular dependency
+   *
+   * @example
+   * ```typescript
+   * const {planned} = sprintService.planSprint(roadmap, 's1');
+   * const updatedRoadmap = sprintService.commitTasks(roadmap, 's1', planned.map((task) => task.id));
+   * ```
+   */
+  planSprint(roadmap: Roadmap, sprintId: string): SprintPlan {
+    const sprint = this.getSprint(roadmap, sprintId)
+    const load = this.initLoad(sprint)
+    const inSprint = new Set<TaskID>()
+    for (const task of this.getTasks(roadmap, sprintId)) {
+      inSprint.add(task.id)
+      const member = task.assignedTo ? load.get(task.assignedTo) : undefined
+      if (member && typeof task.effort === 'number') {
+        member.committed += task.effort
+      }
+    }
+
+    const done = new Set(roadmap.tasks.filter((task) => task.status === STATUS.Completed).map((task) => task.id))
+    const candidates = taskQueryService.sortBy(
+      taskQueryService
+        .filter(taskDependencyService.topologicalSort(roadmap.tasks), {status: STATUS.NotStarted})
+        .filter((task) => !inSprint.has(task.id) && this.isAvailable(roadmap, task, sprint)),
+      [{field: 'priority', order: SortOrder.Descending}, {field: 'dueDate'}],
+    )
+
+    const planned: Task[] = []
+    const unassigned = new Set<Task>()
+    const unestimated = new Set<Task>()
+    let pulled: Task | undefined
+
+    do {
+      pulled = candidates.find((task) => {
+        if (inSprint.has(task.id) || !task['depends-on'].every((id) => done.has(id) || inSprint.has(id))) {
+          return false
+        }
+
+        const member = task.assignedTo ? load.get(task.assignedTo) : undefined
+        if (!member || member.capacity === 0) {
+          unassigned.add(task)
+          return false
+        }
+
+        if (typeof task.effort !== 'number') {
+          unestimated.add(task)
+          return false
+        }
+
+        return member.committed + task.effort <= member.capacity
+      })
+
+      if (pulled) {
+        load.get(pulled.assignedTo!)!.committed += pulled.effort!
+        inSprint.add(pulled.id)
+        planned.push(pulled)
+      }
+    } while (pulled)
+
+    return {
+      load: [...load.values()],
+      planned,
+      sprint,
+      unassigned: candidates.filter((task) => unassigned.has(task)),
+      unestimated: candidates.filter((task) => unestimated.has(task)),
+    }
+  }
+
+  /**
+   * Validates a roadmap's sprints and the tasks' references to them.
+   *
+   * @param roadmap - The roadmap to validate
+   * @returns Validation errors: invalid sprints, duplicate IDs, and tasks committed to unknown sprints
+   */
+  validateSprints(roadmap: Roadmap): ValidationErrorDetail[] {
+    const errors: ValidationErrorDetail[] = []
+    const ids = new Set<string>()
+
+    for (const sprint of roadmap.sprints ?? []) {
+      errors.push(...this.validateSprint(sprint))
+      if (ids.has(sprint.id)) {
+        errors.push({field: 'sprints', message: `Duplicate sprint ID: ${sprint.id}`, type: 'duplicate-id'})
+      }
+
+      ids.add(sprint.id)
+    }
+
+    for (const task of roadmap.tasks) {
+      if (task.sprint && !ids.has(task.sprint)) {
+        errors.push({
+          field: 'sprint',
+          message: `Task ${task.id} is committed to non-existent sprint ${task.sprint}`,
+          taskId: task.id,
+          type: 'invalid-reference',
+        })
+      }
+    }
+
+    return errors
+  }
+
+  /**
+   * Starts a load entry for every assignee with capacity in the sprint.
+   */
+  private initLoad(sprint: Sprint): Map<string, SprintMemberLoad> {
+    return new Map(
+      Object.entries(sprint.capacity).map(([assignee, capacity]) => [
+        assignee,
+        {assignee, capacity, committed: 0, completed: 0},
+      ]),
+    )
+  }
+
+  /**
+   * Checks whether a task may be pulled into a sprint: it is in no sprint, or its sprint
+   * ended before this one starts.
+   */
+  private isAvailable(roadmap: Roadmap, task: Task, sprint: Sprint): boolean {
+    if (!task.sprint) {
+      return true
+    }
+
+    const previous = this.findSprint(roadmap, task.sprint)
+    return previous !== undefined && Date.parse(previous.endDate) < Date.parse(sprint.startDate)
+  }
+
+  /**
+   * Checks a single sprint's ID, name, dates and capacity.
+   */
+  private validateSprint(sprint: Sprint): ValidationErrorDetail[] {
+    const errors: ValidationErrorDetail[] = []
+
+    if (typeof sprint.id !== 'string' || !SPRINT_ID_REGEX.test(sprint.id)) {
+      errors.push({
+        field: 'id',
+        message: `Invalid sprint ID: ${sprint.id}. Use letters, digits, ., - and _`,
+        type: 'invalid-value',
+      })
+    }
+
+    if (typeof sprint.name !== 'string' || sprint.name.trim() === '') {
+      errors.push({field: 'name', message: `Sprint ${sprint.id} must have a name`, type: 'missing-field'})
+    }
+
+    const start = Date.parse(sprint.startDate)
+    const end = Date.parse(sprint.endDate)
+    if (Number.isNaN(start) || Number.isNaN(end)) {
+      errors.push({
+        field: 'startDate',
+        message: `Sprint ${sprint.id} needs a valid start and end date`,
+        type: 'invalid-value',
+      })
+    } else if (end < start) {
+      errors.push({field: 'endDate', message: `Sprint ${sprint.id} ends before it starts`, type: 'invalid-value'})
+    }
+
+    const capacity = Object.entries(sprint.capacity ?? {})
+    if (typeof sprint.capacity !== 'object' || sprint.capacity === null) {
+      errors.push({field: 'capacity', message: `Sprint ${sprint.id} must have a capacity`, type: 'missing-field'})
+    }
+
+    for (const [assignee, effort] of capacity) {
+      if (typeof effort !== 'number' || !Number.isFinite(effort) || effort < 0) {
+        errors.push({
+          field: 'capacity',
+          message: `Sprint ${sprint.id} has an invalid capacity for ${assignee}: ${effort}`,
+          type: 'invalid-value',
+        })
+      }
+    }
+
+    return errors
+  }
+}
+
+/**
+ * Default export instance of SprintService for convenience.
+ * Can be imported and used directly without instantiation.
+ *
+ * @example
+ * ```typescript
+ * import sprintService from './services/sprint.service.js';
+ * const status = sprintService.getStatus(roadmap, 's1');
+ * ```
+ */
+export default new SprintService()
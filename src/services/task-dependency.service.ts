@@ -1,4 +1,5 @@
-import {Roadmap, Task, TaskID} from '../util/types.js'
+import {IncompleteDependenciesError} from '../errors/index.js'
+import {DependencyGuardMode, Roadmap, STATUS, Task, TaskID} from '../util/types.js'
 
 /**
  * Represents a dependency graph as an adjacency list.
@@ -163,6 +164,135 @@ export class TaskDependencyService {
     return task['depends-on'].map((id) => taskMap.get(id)).filter((t): t is Task => t !== undefined)
   }
 
+  /**
+   * Gets the tasks this task depends on that are not completed yet.
+   *
+   * @param task - The task to find unfinished dependencies for
+   * @param allTasks - All tasks in the roadmap
+   * @returns The dependencies whose status is not completed
+   */
+  getIncompleteDependencies(task: Task, allTasks: Task[]): Task[] {
+    return this.getDependsOnTasks(task, allTasks).filter((dependency) => dependency.status !== STATUS.Completed)
+  }
+
+  /**
+   * Gets all tasks that the specified task directly or transitively depends on (upstream).
+   * Missing task references are skipped; the starting task is not included.
+   *
+   * @param taskId - The task to start from
+   * @param allTasks - All tasks in the roadmap
+   * @returns Array of upstream tasks, in breadth-first order
+   *
+   * @example
+   * ```typescript
+   * // F-001 <- F-002 <- F-003
+   * taskDependencyService.getTransitiveDependencies('F-003', roadmap.tasks) // [F-002, F-001]
+   * ```
+   */
+  getTransitiveDependencies(taskId: TaskID, allTasks: Task[]): Task[] {
+    const taskMap = new Map(allTasks.map((t) => [t.id, t]))
+
+    return this.walk(taskId, (id) => {
+      const task = taskMap.get(id)
+      return task ? this.getDependsOnTasks(task, allTasks) : []
+    })
+  }
+
+  /**
+   * Gets all tasks that directly or transitively depend on the specified task (downstream).
+   * Follows depends-on references in reverse; the starting task is not included.
+   *
+   * @param taskId - The task to start from
+   * @param allTasks - All tasks in the roadmap
+   * @returns Array of downstream tasks, in breadth-first order
+   *
+   * @example
+   * ```typescript
+   * // F-001 <- F-002 <- F-003
+   * taskDependencyService.getTransitiveDependents('F-001', roadmap.tasks) // [F-002, F-003]
+   * ```
+   */
+  getTransitiveDependents(taskId: TaskID, allTasks: Task[]): Task[] {
+    const dependents = new Map<TaskID, Task[]>()
+    for (const task of allTasks) {
+      for (const depId of task['depends-on']) {
+        dependents.set(depId, [...(dependents.get(depId) ?? []), task])
+      }
+    }
+
+    return this.walk(taskId, (id) => dependents.get(id) ?? [])
+  }
+
+  /**
+   * Checks that a task can be completed given the state of its dependencies.
+   * In strict mode an unfinished dependency is an error; in warn mode the unfinished
+   * dependencies are returned so the caller can report them; off skips the check.
+   *
+   * @param task - The task about to be completed
+   * @param allTasks - All tasks in the roadmap
+   * @param mode - The dependency guard mode (dependencyGuard in .prtrc.json)
+   * @returns The unfinished dependencies to warn about (always empty in off mode)
+   * @throws IncompleteDependenciesError in strict mode if any dependency is not completed
+   *
+   * @example
+   * ```typescript
+   * const unfinished = taskDependencyService.guardCompletion(task, roadmap.tasks, flags.force ? 'warn' : config.dependencyGuard)
+   * ```
+   */
+  guardCompletion(task: Task, allTasks: Task[], mode: DependencyGuardMode = 'strict'): Task[] {
+    if (mode === 'off') {
+      return []
+    }
+
+    const incomplete = this.getIncompleteDependencies(task, allTasks)
+    if (mode === 'strict' && incomplete.length > 0) {
+      throw new IncompleteDependenciesError(task.id, incomplete)
+    }
+
+    return incomplete
+  }
+
+  /**
+   * Applies the dependency guard to an update, for the commands that can change a task's status.
+   * Only updates that complete a task that was not completed yet are checked; --force turns
+   * strict mode into warn mode.
+   *
+   * @param task - The task before the update
+   * @param updates - The updated fields, or the whole updated task
+   * @param allTasks - All tasks in the roadmap, with their dependencies as they will be saved
+   * @param options - How to guard
+   * @param options.force - Whether --force was given, which only warns in strict mode
+   * @param options.mode - The guard mode (dependencyGuard in .prtrc.json; default: strict)
+   * @returns A warning naming the unfinished prerequisites, or undefined if there is nothing to warn about
+   * @throws IncompleteDependenciesError in strict mode without force if any dependency is not completed
+   *
+   * @example
+   * ```typescript
+   * const warning = taskDependencyService.guardStatusChange(task, {status: STATUS.Completed}, roadmap.tasks, {
+   *   force: flags.force,
+   *   mode: config.dependencyGuard,
+   * })
+   * if (warning) this.warn(warning)
+   * ```
+   */
+  guardStatusChange(
+    task: Task,
+    updates: Partial<Task>,
+    allTasks: Task[],
+    {force = false, mode}: {force?: boolean; mode?: DependencyGuardMode} = {},
+  ): string | undefined {
+    if (updates.status !== STATUS.Completed || task.status === STATUS.Completed) {
+      return undefined
+    }
+
+    const incomplete = this.guardCompletion({...task, ...updates}, allTasks, force ? 'warn' : mode)
+    if (incomplete.length === 0) {
+      return undefined
+    }
+
+    return `Completing ${task.id} before its prerequisites: ${incomplete.map(({id, status}) => `${id} (${status})`).join(', ')}`
+  }
+
   /**
    * Sorts tasks in topological order (dependencies first).
    * Uses Kahn's algorithm or DFS-based topological sort.
@@ -430,6 +560,31 @@ export class TaskDependencyService {
     path.pop()
     return false
   }
+
+  /**
+   * Breadth-first traversal from a starting task, visiting each task at most once.
+   *
+   * @param startId - The task ID to start from (excluded from the result)
+   * @param next - Returns the neighbours of a task ID
+   * @returns The visited tasks in breadth-first order
+   */
+  private walk(startId: TaskID, next: (id: TaskID) => Task[]): Task[] {
+    const seen = new Set<TaskID>([startId])
+    const result: Task[] = []
+    const queue: TaskID[] = [startId]
+
+    while (queue.length > 0) {
+      for (const neighbour of next(queue.shift()!)) {
+        if (!seen.has(neighbour.id)) {
+          seen.add(neighbour.id)
+          result.push(neighbour)
+          queue.push(neighbour.id)
+        }
+      }
+    }
+
+    return result
+  }
 }
 
 /**
@@ -0,0 +1,249 @@
+import type {EffortStats} from './roadmap.service.js'
+import type {DependencyValidationError} from './task-dependency.service.js'
+
+import {STATUS, Task, TaskID} from '../util/types.js'
+
+/**
+ * Progress and effort of a parent task, computed from its subtasks
+ */
+export interface TaskRollup {
+  /** Number of completed subtasks */
+  completed: number
+  /** Effort totals of the subtasks */
+  effort: EffortStats
+  /** Percentage of subtasks that are completed (0-100, one decimal) */
+  progress: number
+  /** Number of subtasks: children, grandchildren and so on */
+  total: number
+}
+
+/**
+ * A task in tree order, with its nesting depth
+ */
+export interface TaskTreeEntry {
+  /** 0 for top-level tasks, 1 for their children, and so on */
+  depth: number
+  /** The task */
+  task: Task
+}
+
+/**
+ * TaskHierarchyService handles the parent/child hierarchy formed by each task's optional `parent`.
+ * Unlike dependencies, the hierarchy is a tree: every task has at most one parent,
+ * and parent chains must end at a top-level task.
+ */
+export class TaskHierarchyService {
+  /**
+   * Orders tasks as a tree: every task is followed by its children, in the order
+   * they appear in the given list. Tasks whose parent is not in the list are top-level.
+   *
+   * @param tasks - The tasks to order (e.g. the filtered and sorted list)
+   * @returns Every task once, in tree order, with its depth
+   *
+   * @example
+   * ```typescript
+   * for (const {depth, task} of taskHierarchyService.flattenTree(tasks)) {
+   *   console.log(`${'  '.repeat(depth)}${task.id}`)
+   * }
+   * ```
+   */
+  flattenTree(tasks: Task[]): TaskTreeEntry[] {
+    const ids = new Set(tasks.map((task) => task.id))
+    const children = new Map<TaskID, Task[]>()
+    for (const task of tasks) {
+      if (task.parent && task.parent !== task.id && ids.has(task.parent)) {
+        children.set(task.parent, [...(children.get(task.parent) ?? []), task])
+      }
+    }
+
+    const entries: TaskTreeEntry[] = []
+    const seen = new Set<TaskID>()
+    const visit = (task: Task, depth: number) => {
+      if (seen.has(task.id)) {
+        return
+      }
+
+      seen.add(task.id)
+      entries.push({depth, task})
+      for (const child of children.get(task.id) ?? []) {
+        visit(child, depth + 1)
+      }
+    }
+
+    for (const task of tasks) {
+      if (!task.parent || !ids.has(task.parent)) {
+        visit(task, 0)
+      }
+    }
+
+    // Tasks in a parent cycle have no top-level ancestor; list them at the top level
+    for (const task of tasks) {
+      visit(task, 0)
+    }
+
+    return entries
+  }
+
+  /**
+   * Gets the parent chain of a task, nearest first. Stops at a missing parent or a cycle.
+   *
+   * @param taskId - The task to start from
+   * @param allTasks - All tasks in the roadmap
+   * @returns The parent, grandparent and so on
+   */
+  getAncestors(taskId: TaskID, allTasks: Task[]): Task[] {
+    const taskMap = new Map(allTasks.map((t) => [t.id, t]))
+    const ancestors: Task[] = []
+    const seen = new Set<TaskID>([taskId])
+    let parentId = taskMap.get(taskId)?.parent
+
+    while (parentId && !seen.has(parentId) && taskMap.has(parentId)) {
+      const parent = taskMap.get(parentId)!
+      seen.add(parentId)
+      ancestors.push(parent)
+      parentId = parent.parent
+    }
+
+    return ancestors
+  }
+
+  /**
+   * Gets the direct children of a task.
+   *
+   * @param taskId - The parent task
+   * @param allTasks - All tasks in the roadmap
+   * @returns The tasks whose parent is taskId
+   */
+  getChildren(taskId: TaskID, allTasks: Task[]): Task[] {
+    return allTasks.filter((task) => task.parent === taskId && task.id !== taskId)
+  }
+
+  /**
+   * Gets all subtasks of a task: its children, their children and so on.
+   *
+   * @param taskId - The parent task
+   * @param allTasks - All tasks in the roadmap
+   * @returns The subtasks, in breadth-first order
+   */
+  getDescendants(taskId: TaskID, allTasks: Task[]): Task[] {
+    const seen = new Set<TaskID>([taskId])
+    const descendants: Task[] = []
+    const queue: TaskID[] = [taskId]
+
+    while (queue.length > 0) {
+      for (const child of this.getChildren(queue.shift()!, allTasks)) {
+        if (!seen.has(child.id)) {
+          seen.add(child.id)
+          descendants.push(child)
+          queue.push(child.id)
+        }
+      }
+    }
+
+    return descendants
+  }
+
+  /**
+   * Computes a parent task's progress and effort from all of its subtasks.
+   * The parent's own status and effort are not included.
+   *
+   * @param taskId - The parent task
+   * @param allTasks - All tasks in the roadmap
+   * @returns The rollup (a task without subtasks has a total of 0 and 0% progress)
+   *
+   * @example
+   * ```typescript
+   * const {completed, progress, total} = taskHierarchyService.getRollup('F-010', roadmap.tasks)
+   * console.log(`${completed} of ${total} subtasks done (${progress}%)`)
+   * ```
+   */
+  getRollup(taskId: TaskID, allTasks: Task[]): TaskRollup {
+    const descendants = this.getDescendants(taskId, allTasks)
+    const effort: EffortStats = {remaining: 0, total: 0, unestimated: 0}
+    let completed = 0
+
+    for (const task of descendants) {
+      const done = task.status === STATUS.Completed
+      completed += done ? 1 : 0
+
+      if (typeof task.effort === 'number') {
+        effort.total += task.effort
+        effort.remaining += done ? 0 : task.effort
+      } else {
+        effort.unestimated++
+      }
+    }
+
+    return {
+      completed,
+      effort,
+      progress: descendants.length === 0 ? 0 : Math.round((completed / descendants.length) * 1000) / 10,
+      total: descendants.length,
+    }
+  }
+
+  /**
+   * Validates the hierarchy: every parent must exist, and parent chains must not loop.
+   * Each cycle is reported once.
+   *
+   * @param tasks - All tasks in the roadmap
+   * @returns Validation errors: missing-task for orphaned children, circular for parent cycles
+   *
+   * @example
+   * ```typescript
+   * const errors = taskHierarchyService.validateHierarchy(roadmap.tasks)
+   * ```
+   */
+  validateHierarchy(tasks: Task[]): DependencyValidationError[] {
+    const errors: DependencyValidationError[] = []
+    const taskMap = new Map(tasks.map((t) => [t.id, t]))
+    const checked = new Set<TaskID>()
+
+    for (const task of tasks) {
+      if (task.parent && !taskMap.has(task.parent)) {
+        errors.push({
+          message: `Task ${task.id} has non-existent parent ${task.parent}`,
+          relatedTaskIds: [task.parent],
+          taskId: task.id,
+          type: 'missing-task',
+        })
+      }
+
+      // Follow the parent chain until it ends, reaches a checked task, or loops back on itself
+      const chain: TaskID[] = []
+      let current: Task | undefined = task
+      while (current && !checked.has(current.id) && !chain.includes(current.id)) {
+        chain.push(current.id)
+        current = current.parent ? taskMap.get(current.parent) : undefined
+      }
+
+      if (current && chain.includes(current.id)) {
+        const cycle = [...chain.slice(chain.indexOf(current.id)), current.id]
+        errors.push({
+          message: `Circular parent chain detected: ${cycle.join(' -> ')}`,
+          relatedTaskIds: cycle,
+          taskId: current.id,
+          type: 'circular',
+        })
+      }
+
+      for (const id of chain) {
+        checked.add(id)
+      }
+    }
+
+    return errors
+  }
+}
+
+/**
+ * Default export instance of TaskHierarchyService for convenience.
+ * Can be imported and used directly without instantiation.
+ *
+ * @example
+ * ```typescript
+ * import taskHierarchyService from './services/task-hierarchy.service.js';
+ * const rollup = taskHierarchyService.getRollup('F-010', roadmap.tasks);
+ * ```
+ */
+export default new TaskHierarchyService()
@@ -0,0 +1,153 @@
+import {PRIORITY, STATUS, Task, TaskID} from '../util/types.js'
+import taskDependencyService from './task-dependency.service.js'
+
+/**
+ * A task that is ready to be worked on, with the data used to rank it
+ */
+export interface NextTask {
+  /** The ready task */
+  task: Task
+  /** Number of incomplete tasks that directly or transitively depend on this task */
+  unblocks: number
+}
+
+/**
+ * Options for selecting the next actionable tasks
+ */
+export interface NextTaskOptions {
+  /** Only include tasks assigned to this person */
+  assignee?: string
+  /** Maximum number of tasks to return */
+  limit?: number
+}
+
+/**
+ * TaskPlanningService answers "what should be worked on next?".
+ * It combines the dependency graph with task priority and due dates
+ * to rank the tasks that can be started right now.
+ */
+export class TaskPlanningService {
+  /**
+   * Counts the incomplete tasks that directly or transitively depend on a task.
+   *
+   * @param taskId - The task to count dependents for
+   * @param tasks - All tasks in the roadmap
+   * @returns The number of incomplete downstream tasks
+   *
+   * @example
+   * ```typescript
+   * // F-001 <- F-002 <- F-003
+   * taskPlanningService.countDownstream('F-001', roadmap.tasks) // Returns 2
+   * ```
+   */
+  countDownstream(taskId: TaskID, tasks: Task[]): number {
+    return taskDependencyService
+      .getTransitiveDependents(taskId, tasks)
+      .filter((task) => task.status !== STATUS.Completed).length
+  }
+
+  /**
+   * Gets the ranked list of tasks that can be started right now.
+   * A task is ready when it is not started and every task it depends on is completed.
+   * Ready tasks are ranked by priority (high first), due date (earliest first, undated last),
+   * and the number of downstream tasks they unblock (most first). Remaining ties keep
+   * dependency (topological) order.
+   *
+   * @param tasks - All tasks in the roadmap
+   * @param options - Optional assignee filter and result limit
+   * @returns The ranked ready tasks
+   * @throws Error if the roadmap contains a circular dependency
+   *
+   * @example
+   * ```typescript
+   * const next = taskPlanningService.getNextTasks(roadmap.tasks, {assignee: 'alice', limit: 5});
+   * for (const {task, unblocks} of next) {
+   *   console.log(`${task.id} unblocks ${unblocks} tasks`);
+   * }
+   * ```
+   */
+  getNextTasks(tasks: Task[], options: NextTaskOptions = {}): NextTask[] {
+    const ordered = taskDependencyService.topologicalSort(tasks)
+    const topoIndex = new Map(ordered.map((task, index) => [task.id, index]))
+
+    const ranked = this.getReadyTasks(ordered)
+      .filter((task) => options.assignee === undefined || task.assignedTo === options.assignee)
+      .map((task) => ({task, unblocks: this.countDownstream(task.id, tasks)}))
+      .sort((a, b) => this.compareReadyTasks(a, b) || topoIndex.get(a.task.id)! - topoIndex.get(b.task.id)!)
+
+    return options.limit === undefined ? ranked : ranked.slice(0, Math.max(0, options.limit))
+  }
+
+  /**
+   * Gets all tasks that are not started and whose dependencies are all completed.
+   * Tasks that depend on a task missing from the roadmap are never ready.
+   * Preserves the input order.
+   *
+   * @param tasks - All tasks in the roadmap
+   * @returns The ready tasks
+   *
+   * @example
+   * ```typescript
+   * const ready = taskPlanningService.getReadyTasks(roadmap.tasks);
+   * ```
+   */
+  getReadyTasks(tasks: Task[]): Task[] {
+    const statusById = new Map(tasks.map((task) => [task.id, task.status]))
+
+    return tasks.filter(
+      (task) =>
+        task.status === STATUS.NotStarted &&
+        task['depends-on'].every((depId) => statusById.get(depId) === STATUS.Completed),
+    )
+  }
+
+  /**
+   * Compares two ready tasks by priority, due date and downstream impact.
+   *
+   * @param a - First ready task
+   * @param b - Second ready task
+   * @returns Negative if a ranks first, positive if b ranks first, 0 if tied
+   */
+  private compareReadyTasks(a: NextTask, b: NextTask): number {
+    const priorityRank = {
+      [PRIORITY.High]: 0,
+      [PRIORITY.Low]: 2,
+      [PRIORITY.Medium]: 1,
+    }
+    const byPriority = priorityRank[a.task.priority] - priorityRank[b.task.priority]
+    if (byPriority !== 0) {
+      return byPriority
+    }
+
+    const aDue = this.dueTime(a.task)
+    const bDue = this.dueTime(b.task)
+    if (aDue !== bDue) {
+      return aDue < bDue ? -1 : 1
+    }
+
+    return b.unblocks - a.unblocks
+  }
+
+  /**
+   * Gets a task's due date as a timestamp, treating missing or unparseable dates as "never".
+   *
+   * @param task - The task to read the due date from
+   * @returns Milliseconds since epoch, or Infinity if there is no valid due date
+   */
+  private dueTime(task: Task): number {
+    const time = task.dueDate ? Date.parse(task.dueDate) : Number.NaN
+    return Number.isNaN(time) ? Number.POSITIVE_INFINITY : time
+  }
+}
+
+/**
+ * Default export instance of TaskPlanningService for convenience.
+ * Can be imported and used directly without instantiation.
+ *
+ * @example
+ * ```typescript
+ * import taskPlanningService from './services/task-planning.service.js';
+ * const next = taskPlanningService.getNextTasks(roadmap.tasks, {limit: 3});
+ * ```
+ */
+export default new TaskPlanningService()
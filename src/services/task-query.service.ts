@@ -1,4 +1,4 @@
-import {PRIORITY, STATUS, Task, TASK_TYPE} from '../util/types.js'
+import {PRIORITY, STATUS, Task} from '../util/types.js'
 
 /**
  * Sort order for sorting operations
@@ -13,6 +13,30 @@ export enum SortOrder {
  */
 export type SortField = 'createdAt' | 'dueDate' | 'effort' | 'priority' | 'status' | 'title' | 'type' | 'updatedAt'
 
+/**
+ * All fields that can be used for sorting tasks
+ */
+export const SORT_FIELDS: SortField[] = [
+  'createdAt',
+  'dueDate',
+  'effort',
+  'priority',
+  'status',
+  'title',
+  'type',
+  'updatedAt',
+]
+
+/**
+ * A field to sort by, with its own order
+ */
+export interface SortKey {
+  /** The field to sort by */
+  field: SortField
+  /** The sort order (default: ascending) */
+  order?: SortOrder
+}
+
 /**
  * Criteria for filtering tasks
  */
@@ -23,14 +47,14 @@ export interface FilterCriteria {
   hasBlocks?: boolean
   /** Filter by whether task has dependencies */
   hasDependencies?: boolean
-  /** Filter by priority level */
-  priority?: PRIORITY
-  /** Filter by status (single status or array of statuses) */
-  status?: STATUS | STATUS[]
+  /** Filter by priority level (single priority or array of priorities) */
+  priority?: PRIORITY | PRIORITY[]
+  /** Filter by status (single status or array of statuses), built-in or custom */
+  status?: string | string[]
   /** Filter by tags (tasks must have all specified tags) */
   tags?: Array<string>
-  /** Filter by type */
-  type?: TASK_TYPE
+  /** Filter by type (single type or array of types), built-in or custom */
+  type?: string | string[]
 }
 
 /**
@@ -66,13 +90,13 @@ export class TaskQueryService {
         }
       }
 
-      // Check type filter
-      if (criteria.type !== undefined && task.type !== criteria.type) {
+      // Check type filter - support both single type and array of types
+      if (criteria.type !== undefined && ![criteria.type].flat().includes(task.type)) {
         return false
       }
 
-      // Check priority filter
-      if (criteria.priority !== undefined && task.priority !== criteria.priority) {
+      // Check priority filter - support both single priority and array of priorities
+      if (criteria.priority !== undefined && ![criteria.priority].flat().includes(task.priority)) {
         return false
       }
 
@@ -124,7 +148,7 @@ export class TaskQueryService {
    * const completedTasks = taskQueryService.getByStatus(tasks, STATUS.Completed);
    * ```
    */
-  getByStatus(tasks: Array<Task>, status: STATUS): Array<Task> {
+  getByStatus(tasks: Array<Task>, status: string): Array<Task> {
     const criteria: FilterCriteria = {status}
     const filtered = tasks.filter((task) => {
       if (criteria.status !== undefined && task.status !== criteria.status) {
@@ -149,7 +173,7 @@ export class TaskQueryService {
    * const featureTasks = taskQueryService.getByType(tasks, TASK_TYPE.Feature);
    * ```
    */
-  getByType(tasks: Array<Task>, type: TASK_TYPE): Array<Task> {
+  getByType(tasks: Array<Task>, type: string): Array<Task> {
     const criteria: FilterCriteria = {type}
     const filtered = tasks.filter((task) => {
       if (criteria.type !== undefined && task.type !== criteria.type) {
@@ -202,103 +226,139 @@ export class TaskQueryService {
    * ```
    */
   sort(tasks: Array<Task>, field: SortField, order: SortOrder = SortOrder.Ascending): Array<Task> {
+    return this.sortBy(tasks, [{field, order}])
+  }
+
+  /**
+   * Sorts tasks by several fields, each with its own order.
+   * Later keys only break ties left by earlier ones; tasks that tie on every key keep
+   * their original order. Tasks missing a value for a key always sort after tasks that
+   * have one, whatever the order.
+   * Returns a new sorted array without mutating the original.
+   *
+   * @param tasks - The tasks to sort
+   * @param keys - The fields to sort by, most significant first
+   * @returns A new sorted array of tasks
+   *
+   * @example
+   * ```typescript
+   * const sorted = taskQueryService.sortBy(tasks, [
+   *   {field: 'priority', order: SortOrder.Descending},
+   *   {field: 'dueDate'},
+   * ]);
+   * ```
+   */
+  sortBy(tasks: Array<Task>, keys: Array<SortKey>): Array<Task> {
     const sortedTasks = [...tasks]
 
-    // eslint-disable-next-line complexity
     sortedTasks.sort((a, b) => {
-      let aValue: null | number | string | undefined
-      let bValue: null | number | string | undefined
-
-      // Get values based on field
-      switch (field) {
-        case 'createdAt': {
-          aValue = a.createdAt ?? ''
-          bValue = b.createdAt ?? ''
-          break
+      for (const {field, order = SortOrder.Ascending} of keys) {
+        const comparison = this.compareBy(a, b, field, order)
+        if (comparison !== 0) {
+          return comparison
         }
+      }
 
-        case 'dueDate': {
-          aValue = a.dueDate ?? ''
-          bValue = b.dueDate ?? ''
-          break
-        }
+      return 0
+    })
 
-        case 'effort': {
-          aValue = a.effort
-          bValue = b.effort
-          break
-        }
+    return sortedTasks
+  }
 
-        case 'priority': {
-          // Sort priority as: high > medium > low
-          const priorityOrder = {
-            [PRIORITY.High]: 3,
-            [PRIORITY.Low]: 1,
-            [PRIORITY.Medium]: 2,
-          }
-          aValue = priorityOrder[a.priority]
-          bValue = priorityOrder[b.priority]
-          break
-        }
+  /**
+   * Compares two tasks on a single field, pushing tasks without a value to the end.
+   */
+  // eslint-disable-next-line complexity
+  private compareBy(a: Task, b: Task, field: SortField, order: SortOrder): number {
+    let aValue: null | number | string | undefined
+    let bValue: null | number | string | undefined
+
+    // Get values based on field
+    switch (field) {
+      case 'createdAt': {
+        aValue = a.createdAt ?? ''
+        bValue = b.createdAt ?? ''
+        break
+      }
 
-        case 'status': {
-          // Sort status as: not-started > in-progress > completed
-          const statusOrder = {
-            [STATUS.Completed]: 3,
-            [STATUS.InProgress]: 2,
-            [STATUS.NotStarted]: 1,
-          }
-          aValue = statusOrder[a.status]
-          bValue = statusOrder[b.status]
-          break
-        }
+      case 'dueDate': {
+        aValue = a.dueDate ?? ''
+        bValue = b.dueDate ?? ''
+        break
+      }
 
-        case 'title': {
-          aValue = a.title.toLowerCase()
-          bValue = b.title.toLowerCase()
-          break
-        }
+      case 'effort': {
+        aValue = a.effort
+        bValue = b.effort
+        break
+      }
 
-        case 'type': {
-          // Sort type alphabetically by enum value
-          aValue = a.type
-          bValue = b.type
-          break
+      case 'priority': {
+        // Sort priority as: high > medium > low
+        const priorityOrder = {
+          [PRIORITY.High]: 3,
+          [PRIORITY.Low]: 1,
+          [PRIORITY.Medium]: 2,
         }
+        aValue = priorityOrder[a.priority]
+        bValue = priorityOrder[b.priority]
+        break
+      }
 
-        case 'updatedAt': {
-          aValue = a.updatedAt ?? ''
-          bValue = b.updatedAt ?? ''
-          break
+      case 'status': {
+        // Sort status as: not-started > in-progress > completed
+        // Custom workflow statuses (blocked, in-review, ...) sort with in-progress
+        const statusOrder: Record<string, number> = {
+          [STATUS.Completed]: 3,
+          [STATUS.InProgress]: 2,
+          [STATUS.NotStarted]: 1,
         }
+        aValue = statusOrder[a.status] ?? statusOrder[STATUS.InProgress]
+        bValue = statusOrder[b.status] ?? statusOrder[STATUS.InProgress]
+        break
+      }
 
-        default: {
-          return 0
-        }
+      case 'title': {
+        aValue = a.title.toLowerCase()
+        bValue = b.title.toLowerCase()
+        break
       }
 
-      // Handle null/undefined values - push them to the end
-      if (aValue === null || aValue === undefined || aValue === '') {
-        return 1
+      case 'type': {
+        // Sort type alphabetically by enum value
+        aValue = a.type
+        bValue = b.type
+        break
       }
 
-      if (bValue === null || bValue === undefined || bValue === '') {
-        return -1
+      case 'updatedAt': {
+        aValue = a.updatedAt ?? ''
+        bValue = b.updatedAt ?? ''
+        break
       }
 
-      // Compare values
-      let comparison = 0
-      if (aValue < bValue) {
-        comparison = -1
-      } else if (aValue > bValue) {
-        comparison = 1
+      default: {
+        return 0
       }
+    }
 
-      // Apply sort order
-      return order === SortOrder.Ascending ? comparison : -comparison
-    })
+    // Handle null/undefined values - push them to the end
+    const aMissing = aValue === null || aValue === undefined || aValue === ''
+    const bMissing = bValue === null || bValue === undefined || bValue === ''
+    if (aMissing || bMissing) {
+      return Number(aMissing) - Number(bMissing)
+    }
 
-    return sortedTasks
+    // Compare values
+    let comparison = 0
+    if (aValue! < bValue!) {
+      comparison = -1
+    } else if (aValue! > bValue!) {
+      comparison = 1
+    }
+
+    // Apply sort order
+    return order === SortOrder.Ascending ? comparison : -comparison
   }
 }
 
@@ -1,13 +1,197 @@
 /* eslint-disable jsdoc/check-param-names */
-import {TaskNotFoundError} from '../errors/index.js'
-import {PRIORITY, Roadmap, STATUS, Task, TASK_TYPE, TASK_TYPE_MAP, TaskID} from '../util/types.js'
-import {validateTask} from '../util/validate-task.js'
+import {isDeepStrictEqual} from 'node:util'
+
+import {CircularDependencyError, InvalidTaskError, TaskHasDependentsError, TaskNotFoundError} from '../errors/index.js'
+import {getCurrentUser} from '../util/current-user.js'
+import {DEFAULT_TASK_TYPES, TaskTypeRegistry, validateTaskType} from '../util/task-types.js'
+import {ActivityField, DEFAULT_ID_WIDTH, PRIORITY, Roadmap, STATUS, Task, TaskActivity, TaskID} from '../util/types.js'
+import {TaskValidationOptions, validateTask} from '../util/validate-task.js'
+import {validateStatusChange} from '../util/workflow.js'
+import milestoneService from './milestone.service.js'
+import sprintService from './sprint.service.js'
+import taskDependencyService from './task-dependency.service.js'
+import taskHierarchyService from './task-hierarchy.service.js'
+
+/**
+ * Task fields that hold lists of values and support add/remove edits
+ */
+export type TaskListField = 'blocks' | 'depends-on' | 'github-refs' | 'tags'
+
+/**
+ * A set of edits to apply to a single task.
+ * `set` replaces field values outright; `add` and `remove` adjust list fields
+ * on top of the (possibly replaced) value, removals first.
+ */
+export interface TaskEdits {
+  /** Values to append to list fields (duplicates are ignored) */
+  add?: Partial<Record<TaskListField, string[]>>
+  /** Values to remove from list fields */
+  remove?: Partial<Record<TaskListField, string[]>>
+  /** Field values to replace */
+  set?: Partial<Omit<Task, 'createdAt' | 'id' | 'type' | 'updatedAt'>>
+}
+
+/**
+ * Options controlling how references to a removed task are handled
+ */
+export interface RemoveTaskOptions {
+  /** Strip references to the removed task from every other task */
+  cascade?: boolean
+  /** Repoint tasks that depend on the removed task to this task instead */
+  reassignTo?: TaskID
+}
+
+/**
+ * Result of removing a task from a roadmap
+ */
+export interface RemoveTaskResult {
+  /** IDs of the remaining tasks whose depends-on, blocks or parent were changed */
+  affectedTaskIds: TaskID[]
+  /** The removed task */
+  removedTask: Task
+  /** The new roadmap without the removed task */
+  roadmap: Roadmap
+}
+
+/**
+ * Project settings used when generating task IDs (`idWidth` and `taskTypes` in .prtrc.json)
+ */
+export interface TaskIdOptions {
+  /** Available task types and their ID prefixes (default: the built-in types) */
+  taskTypes?: TaskTypeRegistry
+  /** Minimum number of digits (default: DEFAULT_ID_WIDTH) */
+  width?: number
+}
+
+/**
+ * Options for rewriting the task IDs of a roadmap
+ */
+export interface MigrateIdsOptions {
+  /** Renumber each type from 1 in current ID order, closing gaps left by removed tasks */
+  renumber?: boolean
+  /** Minimum number of digits in the rewritten IDs */
+  width: number
+}
+
+/**
+ * Result of rewriting the task IDs of a roadmap
+ */
+export interface MigrateIdsResult {
+  /** Old and new ID of every task whose ID changed, in roadmap order */
+  changes: Array<{from: TaskID; to: TaskID}>
+  /** The roadmap with the new IDs and updated depends-on/blocks references */
+  roadmap: Roadmap
+}
+
+/**
+ * Result of turning the free-text notes of a roadmap's tasks into comments
+ */
+export interface MigrateNotesResult {
+  /** IDs of the tasks whose notes became a comment, in roadmap order */
+  migrated: TaskID[]
+  /** The roadmap without notes fields */
+  roadmap: Roadmap
+}
+
+/**
+ * Fields whose changes updateTask records in the task's activity log, in the order they are logged
+ */
+const ACTIVITY_FIELDS: ActivityField[] = ['status', 'priority', 'depends-on', 'blocks']
 
 /**
  * TaskService provides core operations for managing tasks in a roadmap.
  * This service handles task creation, ID generation, and task manipulation.
  */
 export class TaskService {
+  /**
+   * Adds a comment by the current user (PRT_USER, or the OS user) to a task's activity log.
+   * This method does not mutate the original roadmap.
+   *
+   * @param roadmap - The roadmap containing the task
+   * @param taskId - The ID of the task to comment on
+   * @param body - The comment text; surrounding whitespace is trimmed
+   * @returns A new Roadmap object with the comment added
+   * @throws TaskNotFoundError if the task is not found
+   * @throws InvalidTaskError if the comment is empty
+   *
+   * @example
+   * ```typescript
+   * const updatedRoadmap = taskService.addComment(roadmap, 'F-001', 'Blocked on the API review');
+   * ```
+   */
+  addComment(roadmap: Roadmap, taskId: string, body: string): Roadmap {
+    const task = this.findTask(roadmap, taskId)
+    if (!task) {
+      throw new TaskNotFoundError(taskId)
+    }
+
+    if (body.trim() === '') {
+      throw new InvalidTaskError(`Comment on ${taskId} cannot be empty`, taskId, 'activity')
+    }
+
+    const comment: TaskActivity = {
+      at: new Date().toISOString(),
+      author: getCurrentUser(),
+      body: body.trim(),
+      type: 'comment',
+    }
+    return this.updateTask(roadmap, taskId, {activity: [...(task.activity ?? []), comment]})
+  }
+
+  /**
+   * Adds a dependency between two tasks and mirrors it on both sides:
+   * `dependsOnId` is added to the task's depends-on array and `taskId` is added
+   * to the dependency's blocks array. The change is rejected if it would create
+   * a circular dependency.
+   * This method does not mutate the original roadmap.
+   *
+   * @param roadmap - The roadmap containing both tasks
+   * @param taskId - The ID of the task that gains a dependency
+   * @param dependsOnId - The ID of the task it will depend on
+   * @returns A new Roadmap object with the dependency added
+   * @throws TaskNotFoundError if either task is not found
+   * @throws InvalidTaskError if a task would depend on itself
+   * @throws CircularDependencyError if the new dependency would create a cycle
+   *
+   * @example
+   * ```typescript
+   * // F-002 depends on F-001, and F-001 blocks F-002
+   * const updatedRoadmap = taskService.addDependency(roadmap, 'F-002', 'F-001');
+   * ```
+   */
+  addDependency(roadmap: Roadmap, taskId: string, dependsOnId: string): Roadmap {
+    const task = this.findTask(roadmap, taskId)
+    if (!task) {
+      throw new TaskNotFoundError(taskId)
+    }
+
+    const dependency = this.findTask(roadmap, dependsOnId)
+    if (!dependency) {
+      throw new TaskNotFoundError(dependsOnId)
+    }
+
+    if (task.id === dependency.id) {
+      throw new InvalidTaskError(`Task ${taskId} cannot depend on itself`, taskId, 'depends-on')
+    }
+
+    // Both sides go through updateTask so each task's activity log records the change
+    let updatedRoadmap = roadmap
+    if (!task['depends-on'].includes(dependency.id)) {
+      updatedRoadmap = this.updateTask(updatedRoadmap, task.id, {'depends-on': [...task['depends-on'], dependency.id]})
+    }
+
+    if (!dependency.blocks.includes(task.id)) {
+      updatedRoadmap = this.updateTask(updatedRoadmap, dependency.id, {blocks: [...dependency.blocks, task.id]})
+    }
+
+    const circular = taskDependencyService.detectCircular(updatedRoadmap.tasks)
+    if (circular) {
+      throw new CircularDependencyError(circular.cycle, circular.message)
+    }
+
+    return updatedRoadmap
+  }
+
   /**
    * Adds a task to the roadmap and returns a new roadmap object.
    * This method does not mutate the original roadmap.
@@ -15,8 +199,12 @@ export class TaskService {
    *
    * @param roadmap - The roadmap to add the task to
    * @param task - The task to add
+   * @param options - Task types and workflow the task must follow (default: the built-in ones)
    * @returns A new Roadmap object with the task added
    * @throws Error if the task is invalid
+   * @throws TaskNotFoundError if the task's parent is not in the roadmap
+   * @throws MilestoneNotFoundError if the task's milestone is not in the roadmap
+   * @throws SprintNotFoundError if the task's sprint is not in the roadmap
    *
    * @example
    * ```typescript
@@ -24,14 +212,76 @@ export class TaskService {
    * const updatedRoadmap = taskService.addTask(roadmap, task);
    * ```
    */
-  addTask(roadmap: Roadmap, task: Task): Roadmap {
-    validateTask(task)
+  addTask(roadmap: Roadmap, task: Task, options: TaskValidationOptions = {}): Roadmap {
+    validateTask(task, options)
+    if (task.parent && !this.findTask(roadmap, task.parent)) {
+      throw new TaskNotFoundError(task.parent)
+    }
+
+    if (task.milestone) {
+      milestoneService.getMilestone(roadmap, task.milestone)
+    }
+
+    if (task.sprint) {
+      sprintService.getSprint(roadmap, task.sprint)
+    }
+
     return {
       ...roadmap,
       tasks: [...roadmap.tasks, task],
     }
   }
 
+  /**
+   * Gives a task a new ID and cascades the change to all references:
+   * every task that has the old ID in its depends-on or blocks arrays, or as its parent,
+   * is updated to reference the new ID.
+   * This method does not mutate the original roadmap.
+   *
+   * @param roadmap - The roadmap containing the task
+   * @param taskId - The current ID of the task
+   * @param newTaskId - The ID to give the task; must not be used by another task
+   * @returns A new Roadmap object with the task and its references updated
+   * @throws TaskNotFoundError if the task with the given ID is not found
+   *
+   * @example
+   * ```typescript
+   * // Move a colliding F-012 out of the way; tasks depending on it now depend on F-013
+   * const updatedRoadmap = taskService.changeTaskId(roadmap, 'F-012', 'F-013');
+   * ```
+   */
+  changeTaskId(roadmap: Roadmap, taskId: string, newTaskId: TaskID): Roadmap {
+    const updatedRoadmap = this.updateTask(roadmap, taskId, {id: newTaskId})
+
+    return {
+      ...updatedRoadmap,
+      tasks: updatedRoadmap.tasks.map((t) => {
+        // Skip the task we just updated
+        if (t.id === newTaskId) {
+          return t
+        }
+
+        // Check if this task references the old ID in depends-on, blocks or parent
+        const hasDependency = t['depends-on'].includes(taskId as TaskID)
+        const hasBlock = t.blocks.includes(taskId as TaskID)
+        const isChild = t.parent === taskId
+
+        if (!hasDependency && !hasBlock && !isChild) {
+          return t
+        }
+
+        // Update the references
+        return {
+          ...t,
+          blocks: hasBlock ? t.blocks.map((id) => (id === taskId ? newTaskId : id)) : t.blocks,
+          'depends-on': hasDependency ? t['depends-on'].map((id) => (id === taskId ? newTaskId : id)) : t['depends-on'],
+          ...(isChild ? {parent: newTaskId} : {}),
+          updatedAt: new Date().toISOString(),
+        }
+      }),
+    }
+  }
+
   /**
    * Creates a new task object with the provided data and default values.
    * Automatically sets createdAt, updatedAt timestamps and initializes arrays.
@@ -44,12 +294,14 @@ export class TaskService {
    * @param {Array<Task['id']> | undefined} data.depends-on - IDs of tasks this task depends on
    * @param {string} data.details - Detailed description of the task
    * @param {TaskID} data.id - Unique identifier for the task
-   * @param {string | undefined} data.notes - Additional notes for the task
+   * @param {string | undefined} data.milestone - ID of the milestone the task is planned for
+   * @param {string | undefined} data.notes - Free-text notes (legacy; new tasks use comments)
+   * @param {TaskID | undefined} data.parent - ID of the task this is a subtask of
    * @param {PRIORITY | undefined} data.priority - Priority level of the task
    * @param {STATUS | undefined} data.status - Current status of the task
    * @param {Array<string> | undefined} data.tags - Tags associated with the task
    * @param {string} data.title - Title of the task
-   * @param {TASK_TYPE} data.type - Type of the task (bug, feature, etc.)
+   * @param {string} data.type - Type of the task (bug, feature, etc., or a custom type)
    * @returns A complete Task object with all required fields
    *
    * @example
@@ -68,13 +320,15 @@ export class TaskService {
     'depends-on'?: Array<Task['id']>
     details: string
     id: TaskID
+    milestone?: string
     notes?: string
+    parent?: TaskID
     'passes-tests'?: boolean
     priority?: PRIORITY
-    status?: STATUS
+    status?: string
     tags?: Array<string>
     title: string
-    type: TASK_TYPE
+    type: string
   }): Task {
     return {
       blocks: data.blocks ?? [],
@@ -82,7 +336,9 @@ export class TaskService {
       'depends-on': data['depends-on'] ?? [],
       details: data.details,
       id: data.id,
-      notes: data.notes ?? '',
+      ...(data.milestone ? {milestone: data.milestone} : {}),
+      ...(data.notes ? {notes: data.notes} : {}),
+      ...(data.parent ? {parent: data.parent} : {}),
       'passes-tests': data['passes-tests'] ?? false,
       priority: data.priority ?? PRIORITY.Medium,
       status: data.status ?? STATUS.NotStarted,
@@ -93,6 +349,78 @@ export class TaskService {
     }
   }
 
+  /**
+   * Applies a set of field edits to a task and returns a new roadmap object.
+   * Scalar fields are replaced, list fields support add/remove semantics.
+   * Dependencies added or removed through depends-on and blocks go through
+   * addDependency and removeDependency, so both sides stay mirrored and cycles are rejected.
+   * A new parent must exist and must not be the task itself or one of its subtasks.
+   * The edited task is validated before the roadmap is returned, and a status change
+   * must be a transition the workflow allows.
+   * This method does not mutate the original roadmap.
+   *
+   * @param roadmap - The roadmap containing the task to edit
+   * @param taskId - The ID of the task to edit
+   * @param edits - The edits to apply
+   * @param options - Task types and workflow the task must follow (default: the built-in ones)
+   * @returns A new Roadmap object with the task edited
+   * @throws TaskNotFoundError if the task with the given ID, a task added as a dependency, or the new parent is not found
+   * @throws InvalidTaskError if the edited task fails validation or the new parent would create a parent cycle
+   * @throws CircularDependencyError if an added dependency would create a cycle
+   * @throws InvalidStatusTransitionError if the workflow does not allow the status change
+   * @throws MilestoneNotFoundError if the task is moved to a milestone that is not in the roadmap
+   * @throws SprintNotFoundError if the task is moved to a sprint that is not in the roadmap
+   *
+   * @example
+   * ```typescript
+   * const updatedRoadmap = taskService.editTask(roadmap, 'F-001', {
+   *   add: {tags: ['backend']},
+   *   remove: {tags: ['frontend']},
+   *   set: {priority: PRIORITY.High},
+   * });
+   * ```
+   */
+  editTask(roadmap: Roadmap, taskId: string, edits: TaskEdits, options: TaskValidationOptions = {}): Roadmap {
+    const task = this.findTask(roadmap, taskId)
+    if (!task) {
+      throw new TaskNotFoundError(taskId)
+    }
+
+    const updatedRoadmap = this.editDependencies(roadmap, task.id, edits)
+    const current = this.findTask(updatedRoadmap, task.id)!
+    const updates: Partial<Task> = {...edits.set}
+    const listFields: TaskListField[] = ['github-refs', 'tags']
+
+    for (const field of listFields) {
+      const additions = edits.add?.[field] ?? []
+      const removals = edits.remove?.[field] ?? []
+      if (additions.length === 0 && removals.length === 0) {
+        continue
+      }
+
+      const currentValues: string[] = (updates[field] ?? current[field] ?? []) as string[]
+      const kept = currentValues.filter((value) => !removals.includes(value))
+      const added = additions.filter((value, index) => !kept.includes(value) && additions.indexOf(value) === index)
+      Object.assign(updates, {[field]: [...kept, ...added]})
+    }
+
+    validateTask({...current, ...updates}, options)
+    validateStatusChange(task, updates, options.workflow)
+    if (updates.milestone) {
+      milestoneService.getMilestone(roadmap, updates.milestone)
+    }
+
+    if (updates.sprint) {
+      sprintService.getSprint(roadmap, updates.sprint)
+    }
+
+    if (updates.parent) {
+      this.validateParent(roadmap, task.id, updates.parent)
+    }
+
+    return this.updateTask(updatedRoadmap, taskId, updates)
+  }
+
   /**
    * Finds a task in the roadmap by its ID.
    *
@@ -114,41 +442,298 @@ export class TaskService {
 
   /**
    * Generates the next available task ID for a given task type.
-   * IDs follow the format: {TYPE_LETTER}-{NNN} where TYPE_LETTER is B, F, I, P, or R
-   * and NNN is a zero-padded 3-digit number starting from 001.
+   * IDs follow the format: {PREFIX}-{NNN} where PREFIX is the type's letter (B, F, I, P, R,
+   * or the prefix of a custom type) and NNN is the lowest unused number, zero-padded to
+   * `width` digits (F-001 for 3). Numbers that outgrow the width get more digits (F-1000),
+   * and existing IDs are compared by number, so F-001 and F-0001 count as the same ID.
    *
    * @param roadmap - The roadmap containing existing tasks
-   * @param taskType - The type of task (bug, feature, improvement, planning, research)
+   * @param taskType - The type of task (bug, feature, improvement, planning, research, or a custom type)
+   * @param options - The project's ID width and task types
    * @returns The next available task ID for the given type
+   * @throws Error if the task type is not one of the available types
    *
    * @example
    * ```typescript
    * const nextId = taskService.generateNextId(roadmap, TASK_TYPE.Feature);
    * // Returns "F-001" if no features exist, or "F-042" if F-041 is the highest
+   * const choreId = taskService.generateNextId(roadmap, 'chore', {taskTypes: getTaskTypes(config), width: 4});
+   * // Returns "C-0001" when chore is declared with prefix C
    * ```
    */
-  generateNextId(roadmap: Roadmap, taskType: TASK_TYPE): TaskID {
-    const existingTaskIDs = new Set(roadmap.tasks.filter((task) => task.type === taskType).map((task) => task.id))
+  generateNextId(
+    roadmap: Roadmap,
+    taskType: string,
+    {taskTypes = DEFAULT_TASK_TYPES, width = DEFAULT_ID_WIDTH}: TaskIdOptions = {},
+  ): TaskID {
+    validateTaskType(taskType, taskTypes)
+
+    const existingNumbers = new Set(
+      roadmap.tasks.filter((task) => task.type === taskType).map((task) => this.getIdNumber(task.id)),
+    )
 
     let newIDNumber = 1
-    let newTaskID: TaskID
+    while (existingNumbers.has(newIDNumber)) {
+      newIDNumber++
+    }
+
+    return this.formatId(taskTypes.get(taskType)!, newIDNumber, width)
+  }
 
-    while (true) {
-      const potentialID = `${TASK_TYPE_MAP.get(taskType)}-${String(newIDNumber).padStart(3, '0')}` as TaskID
-      if (!existingTaskIDs.has(potentialID)) {
-        newTaskID = potentialID
-        break
+  /**
+   * Rewrites every task ID to a new width, optionally renumbering each type from 1,
+   * and updates the depends-on, blocks and parent references to match.
+   * References to tasks that do not exist are left as they are, and timestamps are not
+   * touched since the tasks themselves do not change.
+   * This method does not mutate the original roadmap.
+   *
+   * @param roadmap - The roadmap to migrate
+   * @param options - The target width and whether to renumber
+   * @returns The migrated roadmap and the list of changed IDs
+   * @throws Error if two tasks share an ID, or two IDs would become the same ID
+   *
+   * @example
+   * ```typescript
+   * // F-001, F-003, F-1000 become F-0001, F-0002, F-0003
+   * const {changes, roadmap: migrated} = taskService.migrateIds(roadmap, {renumber: true, width: 4});
+   * ```
+   */
+  migrateIds(roadmap: Roadmap, {renumber = false, width}: MigrateIdsOptions): MigrateIdsResult {
+    const seen = new Set<TaskID>()
+    for (const task of roadmap.tasks) {
+      if (seen.has(task.id)) {
+        throw new Error(`Cannot migrate task IDs: ${task.id} is used by more than one task`)
       }
 
-      newIDNumber++
+      seen.add(task.id)
+    }
+
+    // Work out the new ID of each task, renumbering types in ascending ID order
+    const ordered = renumber
+      ? [...roadmap.tasks].sort((a, b) => this.getIdNumber(a.id) - this.getIdNumber(b.id))
+      : roadmap.tasks
+    const counters = new Map<string, number>()
+    const newIds = new Map<TaskID, TaskID>()
+    for (const task of ordered) {
+      const letter = task.id.slice(0, task.id.indexOf('-'))
+      const number = renumber ? (counters.get(letter) ?? 0) + 1 : this.getIdNumber(task.id)
+      counters.set(letter, number)
+      newIds.set(task.id, this.formatId(letter, number, width))
+    }
+
+    const owners = new Map<TaskID, TaskID>()
+    for (const task of roadmap.tasks) {
+      const newId = newIds.get(task.id)!
+      const owner = owners.get(newId)
+      if (owner) {
+        throw new Error(`Cannot migrate task IDs: ${owner} and ${task.id} would both become ${newId}`)
+      }
+
+      owners.set(newId, task.id)
+    }
+
+    const changes = roadmap.tasks
+      .filter((task) => newIds.get(task.id) !== task.id)
+      .map((task) => ({from: task.id, to: newIds.get(task.id)!}))
+
+    if (changes.length === 0) {
+      return {changes, roadmap}
+    }
+
+    const rename = (id: TaskID): TaskID => newIds.get(id) ?? id
+
+    return {
+      changes,
+      roadmap: {
+        ...roadmap,
+        tasks: roadmap.tasks.map((task) => ({
+          ...task,
+          blocks: task.blocks.map((id) => rename(id)),
+          'depends-on': task['depends-on'].map((id) => rename(id)),
+          id: rename(task.id),
+          ...(task.parent ? {parent: rename(task.parent)} : {}),
+        })),
+      },
+    }
+  }
+
+  /**
+   * Turns the free-text notes of every task into a comment at the start of its activity log,
+   * and drops the notes fields, including empty ones. The comment is dated when the task was
+   * last updated, since notes do not record when they were written, and its author is unknown.
+   * This method does not mutate the original roadmap.
+   *
+   * @param roadmap - The roadmap to migrate
+   * @returns The migrated roadmap and the IDs of the tasks whose notes became a comment
+   *
+   * @example
+   * ```typescript
+   * const {migrated, roadmap: updatedRoadmap} = taskService.migrateNotes(roadmap);
+   * ```
+   */
+  migrateNotes(roadmap: Roadmap): MigrateNotesResult {
+    const migrated: TaskID[] = []
+    const tasks = roadmap.tasks.map((task) => {
+      if (task.notes === undefined) {
+        return task
+      }
+
+      const {notes, ...rest} = task
+      if (!notes?.trim()) {
+        return rest
+      }
+
+      migrated.push(task.id)
+      const at = task.updatedAt ?? task.createdAt ?? new Date().toISOString()
+      const comment: TaskActivity = {at, author: 'unknown', body: notes.trim(), type: 'comment'}
+      return {...rest, activity: [comment, ...(task.activity ?? [])]}
+    })
+
+    return {migrated, roadmap: {...roadmap, tasks}}
+  }
+
+  /**
+   * Removes a dependency between two tasks on both sides:
+   * `dependsOnId` is removed from the task's depends-on array and `taskId` is
+   * removed from the dependency's blocks array.
+   * This method does not mutate the original roadmap.
+   *
+   * @param roadmap - The roadmap containing both tasks
+   * @param taskId - The ID of the task that loses a dependency
+   * @param dependsOnId - The ID of the task it no longer depends on
+   * @returns A new Roadmap object with the dependency removed
+   * @throws TaskNotFoundError if the task is not found
+   *
+   * @example
+   * ```typescript
+   * const updatedRoadmap = taskService.removeDependency(roadmap, 'F-002', 'F-001');
+   * ```
+   */
+  removeDependency(roadmap: Roadmap, taskId: string, dependsOnId: string): Roadmap {
+    const task = this.findTask(roadmap, taskId)
+    if (!task) {
+      throw new TaskNotFoundError(taskId)
+    }
+
+    let updatedRoadmap = roadmap
+    if (task['depends-on'].includes(dependsOnId as TaskID)) {
+      updatedRoadmap = this.updateTask(updatedRoadmap, task.id, {
+        'depends-on': task['depends-on'].filter((id) => id !== dependsOnId),
+      })
+    }
+
+    const dependency = this.findTask(roadmap, dependsOnId)
+    if (dependency?.blocks.includes(task.id)) {
+      updatedRoadmap = this.updateTask(updatedRoadmap, dependency.id, {
+        blocks: dependency.blocks.filter((id) => id !== task.id),
+      })
+    }
+
+    return updatedRoadmap
+  }
+
+  /**
+   * Removes a task from the roadmap and cleans up references to it.
+   * By default, refuses to remove a task that other tasks depend on.
+   * With `cascade`, the removed ID is stripped from every depends-on and blocks array.
+   * With `reassignTo`, dependents are repointed to the given task instead.
+   * References in blocks arrays are always stripped, since they point from a prerequisite
+   * to the removed task. Subtasks of the removed task move up to its parent (or the top level).
+   * This method does not mutate the original roadmap.
+   *
+   * @param roadmap - The roadmap containing the task to remove
+   * @param taskId - The ID of the task to remove
+   * @param options - How to handle tasks that reference the removed task
+   * @returns The new roadmap, the removed task, and the IDs of all tasks that were modified
+   * @throws TaskNotFoundError if the task (or the reassignment target) is not found
+   * @throws TaskHasDependentsError if other tasks depend on it and neither option is given
+   * @throws InvalidTaskError if the task is reassigned to itself
+   * @throws CircularDependencyError if reassigning the dependents would create a cycle
+   *
+   * @example
+   * ```typescript
+   * const {roadmap: updatedRoadmap, affectedTaskIds} = taskService.removeTask(roadmap, 'F-001', {cascade: true});
+   * // F-001 is gone and no task references it anymore
+   * ```
+   */
+  removeTask(roadmap: Roadmap, taskId: string, options: RemoveTaskOptions = {}): RemoveTaskResult {
+    const removedTask = this.findTask(roadmap, taskId)
+    if (!removedTask) {
+      throw new TaskNotFoundError(taskId)
+    }
+
+    const {cascade = false, reassignTo} = options
+
+    if (reassignTo !== undefined) {
+      if (reassignTo === taskId) {
+        throw new InvalidTaskError(`Cannot reassign dependents of task ${taskId} to itself`, taskId, 'depends-on')
+      }
+
+      if (!this.findTask(roadmap, reassignTo)) {
+        throw new TaskNotFoundError(reassignTo)
+      }
     }
 
-    return newTaskID
+    const remainingTasks = roadmap.tasks.filter((task) => task.id !== taskId)
+    const dependentIds = remainingTasks
+      .filter((task) => task['depends-on'].includes(removedTask.id))
+      .map((task) => task.id)
+
+    if (dependentIds.length > 0 && !cascade && reassignTo === undefined) {
+      throw new TaskHasDependentsError(taskId, dependentIds)
+    }
+
+    const affectedTaskIds: TaskID[] = []
+    const now = new Date().toISOString()
+
+    const tasks = remainingTasks.map((task) => {
+      const hasDependency = task['depends-on'].includes(removedTask.id)
+      const hasBlock = task.blocks.includes(removedTask.id)
+      const isChild = task.parent === removedTask.id
+      const gainsBlocks =
+        reassignTo !== undefined &&
+        task.id === reassignTo &&
+        dependentIds.some((id) => id !== reassignTo && !task.blocks.includes(id))
+
+      if (!hasDependency && !hasBlock && !gainsBlocks && !isChild) {
+        return task
+      }
+
+      let dependsOn = task['depends-on'].filter((id) => id !== removedTask.id)
+      if (hasDependency && reassignTo !== undefined && task.id !== reassignTo && !dependsOn.includes(reassignTo)) {
+        dependsOn = [...dependsOn, reassignTo]
+      }
+
+      let blocks = task.blocks.filter((id) => id !== removedTask.id)
+      if (gainsBlocks) {
+        blocks = [...blocks, ...dependentIds.filter((id) => id !== reassignTo && !blocks.includes(id))]
+      }
+
+      affectedTaskIds.push(task.id)
+      const updatedTask: Task = {...task, blocks, 'depends-on': dependsOn, updatedAt: now}
+      if (isChild && removedTask.parent) {
+        updatedTask.parent = removedTask.parent
+      } else if (isChild) {
+        delete updatedTask.parent
+      }
+
+      return updatedTask
+    })
+
+    if (reassignTo !== undefined) {
+      const circular = taskDependencyService.detectCircular(tasks)
+      if (circular) {
+        throw new CircularDependencyError(circular.cycle, circular.message)
+      }
+    }
+
+    return {affectedTaskIds, removedTask, roadmap: {...roadmap, tasks}}
   }
 
   /**
    * Updates an existing task in the roadmap with the provided updates.
-   * Automatically updates the updatedAt timestamp.
+   * Automatically updates the updatedAt timestamp, and appends an entry by the current user
+   * to the task's activity log for each change to its status, priority, depends-on or blocks.
    * This method does not mutate the original roadmap.
    *
    * @param roadmap - The roadmap containing the task to update
@@ -171,10 +756,14 @@ export class TaskService {
       throw new TaskNotFoundError(taskId)
     }
 
+    const task = roadmap.tasks[taskIndex]
+    const now = new Date().toISOString()
+    const changes = trackChanges(task, updates, now)
     const updatedTask = {
-      ...roadmap.tasks[taskIndex],
+      ...task,
       ...updates,
-      updatedAt: new Date().toISOString(),
+      ...(changes.length > 0 ? {activity: [...(updates.activity ?? task.activity ?? []), ...changes]} : {}),
+      updatedAt: now,
     }
 
     return {
@@ -186,12 +775,13 @@ export class TaskService {
   /**
    * Updates a task's type, reassigning its ID and cascading the change to all references.
    * When a task type is changed, a new ID is generated to match the new type prefix.
-   * All other tasks that reference the old ID in their depends-on or blocks arrays
-   * will be updated to reference the new ID.
+   * All other tasks that reference the old ID in their depends-on or blocks arrays,
+   * or as their parent, will be updated to reference the new ID.
    *
    * @param roadmap - The roadmap containing the task to update
    * @param taskId - The current ID of the task to update
    * @param newType - The new task type to assign
+   * @param options - The project's ID width and task types, used for the new ID
    * @returns An object containing the updated Roadmap and the new task ID
    * @throws Error if the task with the given ID is not found
    *
@@ -202,7 +792,12 @@ export class TaskService {
    * // All tasks that had 'F-001' in depends-on or blocks will now have the new bug ID
    * ```
    */
-  updateTaskType(roadmap: Roadmap, taskId: string, newType: TASK_TYPE): {newTaskId: TaskID; roadmap: Roadmap} {
+  updateTaskType(
+    roadmap: Roadmap,
+    taskId: string,
+    newType: string,
+    options: TaskIdOptions = {},
+  ): {newTaskId: TaskID; roadmap: Roadmap} {
     const task = this.findTask(roadmap, taskId)
     if (!task) {
       throw new TaskNotFoundError(taskId)
@@ -213,46 +808,93 @@ export class TaskService {
       return {newTaskId: taskId as TaskID, roadmap}
     }
 
-    // Generate a new ID for the new type
-    const newTaskId = this.generateNextId(roadmap, newType)
+    // Generate a new ID for the new type, then cascade it to every reference
+    const newTaskId = this.generateNextId(roadmap, newType, options)
+    const updatedRoadmap = this.updateTask(roadmap, taskId, {type: newType})
 
-    // Update the task with the new type and new ID
-    let updatedRoadmap = this.updateTask(roadmap, taskId, {
-      id: newTaskId,
-      type: newType,
-    })
+    return {newTaskId, roadmap: this.changeTaskId(updatedRoadmap, taskId, newTaskId)}
+  }
 
-    // Cascade the ID change to all tasks that reference the old ID
-    updatedRoadmap = {
-      ...updatedRoadmap,
-      tasks: updatedRoadmap.tasks.map((t) => {
-        // Skip the task we just updated
-        if (t.id === newTaskId) {
-          return t
-        }
+  /**
+   * Applies the depends-on and blocks edits of editTask to both tasks of each relationship,
+   * removals first. A blocks entry for a task that no longer exists is simply dropped.
+   */
+  private editDependencies(roadmap: Roadmap, taskId: TaskID, {add, remove}: TaskEdits): Roadmap {
+    let updatedRoadmap = roadmap
 
-        // Check if this task references the old ID in depends-on or blocks
-        const hasDependency = t['depends-on'].includes(taskId as TaskID)
-        const hasBlock = t.blocks.includes(taskId as TaskID)
+    for (const id of remove?.['depends-on'] ?? []) {
+      updatedRoadmap = this.removeDependency(updatedRoadmap, taskId, id)
+    }
 
-        if (!hasDependency && !hasBlock) {
-          return t
-        }
+    for (const id of remove?.blocks ?? []) {
+      const {blocks} = this.findTask(updatedRoadmap, taskId)!
+      updatedRoadmap = this.findTask(updatedRoadmap, id)
+        ? this.removeDependency(updatedRoadmap, id, taskId)
+        : this.updateTask(updatedRoadmap, taskId, {blocks: blocks.filter((blockedId) => blockedId !== id)})
+    }
 
-        // Update the references
-        return {
-          ...t,
-          blocks: hasBlock ? t.blocks.map((id) => (id === taskId ? newTaskId : id)) : t.blocks,
-          'depends-on': hasDependency ? t['depends-on'].map((id) => (id === taskId ? newTaskId : id)) : t['depends-on'],
-          updatedAt: new Date().toISOString(),
-        }
-      }),
+    for (const id of add?.['depends-on'] ?? []) {
+      updatedRoadmap = this.addDependency(updatedRoadmap, taskId, id)
+    }
+
+    for (const id of add?.blocks ?? []) {
+      updatedRoadmap = this.addDependency(updatedRoadmap, id, taskId)
+    }
+
+    return updatedRoadmap
+  }
+
+  /**
+   * Builds a task ID from a type letter and a number zero-padded to `width` digits
+   */
+  private formatId(letter: string, number: number, width: number): TaskID {
+    return `${letter}-${String(number).padStart(width, '0')}` as TaskID
+  }
+
+  /**
+   * Gets the number part of a task ID (42 for F-042)
+   */
+  private getIdNumber(id: TaskID): number {
+    return Number(id.slice(id.indexOf('-') + 1))
+  }
+
+  /**
+   * Checks that a task can become a subtask of the given parent without creating a parent cycle.
+   */
+  private validateParent(roadmap: Roadmap, taskId: TaskID, parentId: TaskID): void {
+    if (!this.findTask(roadmap, parentId)) {
+      throw new TaskNotFoundError(parentId)
     }
 
-    return {newTaskId, roadmap: updatedRoadmap}
+    if (parentId === taskId) {
+      throw new InvalidTaskError(`Task ${taskId} cannot be a subtask of itself`, taskId, 'parent')
+    }
+
+    if (taskHierarchyService.getDescendants(taskId, roadmap.tasks).some((task) => task.id === parentId)) {
+      throw new InvalidTaskError(
+        `Task ${taskId} cannot be a subtask of ${parentId}, which is one of its own subtasks`,
+        taskId,
+        'parent',
+      )
+    }
   }
 }
 
+/**
+ * Returns the activity entries for the tracked fields that the updates change.
+ */
+function trackChanges(task: Task, updates: Partial<Task>, at: string): TaskActivity[] {
+  const changed = ACTIVITY_FIELDS.filter(
+    (field) => updates[field] !== undefined && !isDeepStrictEqual(updates[field], task[field]),
+  )
+  if (changed.length === 0) {
+    return []
+  }
+
+  const author = getCurrentUser()
+  return changed.map((field) => ({at, author, field, from: task[field], to: updates[field]!, type: 'change'}))
+}
+
 /**
  * Default export instance of TaskService for convenience.
  * Can be imported and used directly without instantiation.
@@ -0,0 +1,266 @@
+import {ViewNotFoundError} from '../errors/index.js'
+import {validateTaskType} from '../util/task-types.js'
+import {Config, STATUS, Task, View} from '../util/types.js'
+import {TaskValidationOptions} from '../util/validate-task.js'
+import {validateStatus} from '../util/workflow.js'
+import {TASK_LIST_COLUMNS, TaskListColumn} from './display.service.js'
+import queryExpressionService from './query-expression.service.js'
+import taskQueryService, {FilterCriteria, SORT_FIELDS, SortField, SortKey, SortOrder} from './task-query.service.js'
+
+/**
+ * ViewService turns a View (a saved or ad-hoc set of `prt list` options) into the
+ * filtered, searched and sorted task list it describes.
+ * Filtering and sorting are delegated to TaskQueryService and `where` expressions to
+ * QueryExpressionService. Views are plain data, so the same view can come from
+ * command line flags, from `views` in .prtrc.json, or from both merged together.
+ */
+export class ViewService {
+  /**
+   * Applies a view's filters, search text, filter expression and sort keys to a task list.
+   *
+   * @param tasks - The tasks to query
+   * @param view - The view to apply
+   * @param options - The project's task types and workflow, used by the where expression (default: the built-in ones)
+   * @returns A new array of the matching tasks, in view order
+   * @throws QuerySyntaxError if the view's where expression is invalid
+   * @throws Error if the view has an invalid sort key
+   *
+   * @example
+   * ```typescript
+   * const view = viewService.resolve(config, 'standup');
+   * const tasks = viewService.apply(roadmap.tasks, view);
+   * ```
+   */
+  apply(tasks: Task[], view: View, options: TaskValidationOptions = {}): Task[] {
+    const criteria = this.toFilterCriteria(view)
+    const filtered =
+      Object.keys(criteria).length > 0
+        ? // eslint-disable-next-line unicorn/no-array-callback-reference, unicorn/no-array-method-this-argument
+          taskQueryService.filter(tasks, criteria)
+        : tasks
+    const searched = view.search === undefined ? filtered : taskQueryService.search(filtered, view.search)
+    const matching = view.where === undefined ? searched : queryExpressionService.filter(searched, view.where, options)
+    const sortKeys = this.getSortKeys(view)
+
+    return sortKeys.length > 0 ? taskQueryService.sortBy(matching, sortKeys) : matching
+  }
+
+  /**
+   * Describes a view as the `prt list` flags that would produce it.
+   *
+   * @param view - The view to describe
+   * @returns The flags, separated by spaces (empty for an empty view)
+   *
+   * @example
+   * ```typescript
+   * viewService.describe({format: 'compact', status: [STATUS.InProgress]})
+   * // Returns '--status=in-progress --format=compact'
+   * ```
+   */
+  describe(view: View): string {
+    const flags: Array<[string, boolean | string | string[] | undefined]> = [
+      ['incomplete', view.incomplete],
+      ['status', view.status],
+      ['type', view.type],
+      ['priority', view.priority],
+      ['tag', view.tags],
+      ['assignee', view.assignee],
+      ['has-deps', view.hasDependencies],
+      ['has-blocks', view.hasBlocks],
+      ['search', view.search],
+      ['where', view.where],
+      ['sort', view.sort],
+      ['desc', view.desc],
+      ['format', view.format],
+      ['columns', view.columns],
+      ['tree', view.tree],
+    ]
+
+    return flags
+      .flatMap(([name, value]) => {
+        if (value === undefined) {
+          return []
+        }
+
+        if (typeof value === 'boolean') {
+          return [value ? `--${name}` : `--no-${name}`]
+        }
+
+        const text = Array.isArray(value) ? value.join(',') : value
+        return [`--${name}=${/[\s"']/.test(text) ? JSON.stringify(text) : text}`]
+      })
+      .join(' ')
+  }
+
+  /**
+   * Gets the table columns selected by a view.
+   *
+   * @param view - The view
+   * @returns The columns, or undefined when the view does not select any
+   * @throws Error if a column is unknown or columns are set without the table format
+   */
+  getColumns(view: View): TaskListColumn[] | undefined {
+    if (view.columns === undefined) {
+      return undefined
+    }
+
+    if (view.format !== 'table') {
+      throw new Error('--columns can only be used with --format=table')
+    }
+
+    if (view.columns.length === 0) {
+      throw new Error('--columns requires at least one column')
+    }
+
+    for (const column of view.columns) {
+      if (!(TASK_LIST_COLUMNS as string[]).includes(column)) {
+        throw new Error(`Invalid column: ${column}. Valid columns: ${TASK_LIST_COLUMNS.join(', ')}`)
+      }
+    }
+
+    return view.columns as TaskListColumn[]
+  }
+
+  /**
+   * Gets the sort keys of a view. Each sort entry is a field, optionally suffixed with
+   * :asc or :desc; entries without a suffix use descending order when `desc` is set.
+   *
+   * @param view - The view
+   * @returns The sort keys, most significant first
+   * @throws Error if a sort entry has an unknown field or order
+   */
+  getSortKeys(view: View): SortKey[] {
+    const defaultOrder = view.desc ? SortOrder.Descending : SortOrder.Ascending
+
+    return (view.sort ?? []).map((value) => {
+      const [field, order, ...rest] = value.split(':').map((part) => part.trim())
+
+      if (!(SORT_FIELDS as string[]).includes(field)) {
+        throw new Error(`Invalid sort field: ${field}. Valid fields: ${SORT_FIELDS.join(', ')}`)
+      }
+
+      if (rest.length > 0 || (order !== undefined && order !== SortOrder.Ascending && order !== SortOrder.Descending)) {
+        throw new Error(`Invalid sort key: ${value}. Use <field>, <field>:asc or <field>:desc`)
+      }
+
+      return {field: field as SortField, order: (order as SortOrder | undefined) ?? defaultOrder}
+    })
+  }
+
+  /**
+   * Overlays one view on another, as when command line flags are combined with a saved view.
+   * Every option set in the overrides replaces the base view's value. Saved columns only
+   * apply to the table format, so they are dropped when the overrides switch to another format.
+   *
+   * @param base - The saved view
+   * @param overrides - The options that take precedence
+   * @returns The combined view
+   *
+   * @example
+   * ```typescript
+   * const view = viewService.merge(viewService.resolve(config, 'standup'), viewFromFlags(flags));
+   * ```
+   */
+  merge(base: View, overrides: View): View {
+    const merged = {...base, ...overrides}
+    if (overrides.columns === undefined && merged.format !== 'table') {
+      delete merged.columns
+    }
+
+    return merged
+  }
+
+  /**
+   * Looks up a saved view in the (merged) config.
+   *
+   * @param config - The loaded config
+   * @param name - The view name
+   * @returns The saved view
+   * @throws ViewNotFoundError if the config has no view with that name
+   */
+  resolve(config: Config, name: string): View {
+    if (!config.views || !Object.hasOwn(config.views, name)) {
+      throw new ViewNotFoundError(name)
+    }
+
+    return config.views[name]
+  }
+
+  /**
+   * Builds the TaskQueryService filter criteria for a view, leaving out filters it does not set.
+   * An explicit status list takes precedence over `incomplete`.
+   *
+   * @param view - The view
+   * @returns The filter criteria
+   */
+  toFilterCriteria(view: View): FilterCriteria {
+    const criteria: FilterCriteria = {}
+
+    if (view.status && view.status.length > 0) {
+      criteria.status = view.status
+    } else if (view.incomplete) {
+      criteria.status = [STATUS.InProgress, STATUS.NotStarted]
+    }
+
+    if (view.priority && view.priority.length > 0) {
+      criteria.priority = view.priority
+    }
+
+    if (view.type && view.type.length > 0) {
+      criteria.type = view.type
+    }
+
+    if (view.tags && view.tags.length > 0) {
+      criteria.tags = view.tags
+    }
+
+    if (view.assignee !== undefined) {
+      criteria.assignedTo = view.assignee
+    }
+
+    if (view.hasDependencies !== undefined) {
+      criteria.hasDependencies = view.hasDependencies
+    }
+
+    if (view.hasBlocks !== undefined) {
+      criteria.hasBlocks = view.hasBlocks
+    }
+
+    return criteria
+  }
+
+  /**
+   * Checks that a view can be applied: its statuses, task types, columns, sort keys and where expression are valid.
+   *
+   * @param view - The view to check
+   * @param options - The project's task types and workflow (default: the built-in ones)
+   * @throws QuerySyntaxError or Error describing the first problem found
+   */
+  validate(view: View, options: TaskValidationOptions = {}): void {
+    for (const status of view.status ?? []) {
+      validateStatus(status, options.workflow)
+    }
+
+    for (const type of view.type ?? []) {
+      validateTaskType(type, options.taskTypes)
+    }
+
+    this.getColumns(view)
+    this.getSortKeys(view)
+    if (view.where !== undefined) {
+      queryExpressionService.parse(view.where, options)
+    }
+  }
+}
+
+/**
+ * Default export instance of ViewService for convenience.
+ * Can be imported and used directly without instantiation.
+ *
+ * @example
+ * ```typescript
+ * import viewService from './services/view.service.js';
+ * const tasks = viewService.apply(roadmap.tasks, {incomplete: true, sort: ['priority:desc']});
+ * ```
+ */
+export default new ViewService()
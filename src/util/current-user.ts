@@ -0,0 +1,18 @@
+import {userInfo} from 'node:os'
+
+/**
+ * Returns the name recorded as the author of changes: the PRT_USER environment variable,
+ * or else the operating system user.
+ */
+export function getCurrentUser(): string {
+  if (process.env.PRT_USER) {
+    return process.env.PRT_USER
+  }
+
+  try {
+    return userInfo().username
+  } catch {
+    // Users without a passwd entry, e.g. in some containers
+    return 'unknown'
+  }
+}
@@ -0,0 +1,167 @@
+import {randomUUID} from 'node:crypto'
+import {readFile, rm, stat, writeFile} from 'node:fs/promises'
+import {hostname} from 'node:os'
+import {setTimeout} from 'node:timers/promises'
+
+import {FileLockTimeoutError} from '../errors/index.js'
+
+/**
+ * Options for acquiring a file lock
+ */
+export interface FileLockOptions {
+  /** Delay between attempts while another process holds the lock, in milliseconds (default: 50) */
+  retryInterval?: number
+  /** Age after which a lock is considered abandoned, in milliseconds (default: 30000) */
+  stale?: number
+  /** How long to wait for the lock before giving up, in milliseconds (default: 5000) */
+  timeout?: number
+}
+
+/**
+ * Contents of a lock file, identifying the process that holds it
+ */
+interface LockOwner {
+  acquiredAt: string
+  hostname: string
+  pid: number
+  token: string
+}
+
+/**
+ * A lock file found on disk
+ */
+interface ExistingLock {
+  age: number
+  owner?: Partial<LockOwner>
+}
+
+const DEFAULT_LOCK_OPTIONS: Required<FileLockOptions> = {
+  retryInterval: 50,
+  stale: 30_000,
+  timeout: 5000,
+}
+
+/**
+ * Runs a function while holding an advisory lock on a file.
+ *
+ * The lock is a `<path>.lock` file created exclusively, holding the owner's pid and host.
+ * Other prt processes wait for it to disappear, up to the timeout. A lock older than the
+ * stale age, or held by a process on this host that no longer runs, is removed.
+ *
+ * @param path - The file to lock
+ * @param fn - The function to run while holding the lock
+ * @param options - Timeout, stale age and retry interval
+ * @returns The function's result
+ * @throws FileLockTimeoutError if the lock is not acquired within the timeout
+ *
+ * @example
+ * ```typescript
+ * await withFileLock('./prt.json', () => writeFileAtomic('./prt.json', data));
+ * ```
+ */
+export async function withFileLock<T>(path: string, fn: () => Promise<T>, options: FileLockOptions = {}): Promise<T> {
+  const settings = {...DEFAULT_LOCK_OPTIONS, ...options}
+  const lockPath = `${path}.lock`
+  const owner: LockOwner = {
+    acquiredAt: new Date().toISOString(),
+    hostname: hostname(),
+    pid: process.pid,
+    token: randomUUID(),
+  }
+
+  await acquireLock(path, owner, Date.now() + settings.timeout, settings)
+  try {
+    return await fn()
+  } finally {
+    await releaseLock(lockPath, owner.token)
+  }
+}
+
+async function acquireLock(
+  path: string,
+  owner: LockOwner,
+  deadline: number,
+  settings: Required<FileLockOptions>,
+): Promise<void> {
+  const lockPath = `${path}.lock`
+  try {
+    await writeFile(lockPath, JSON.stringify(owner), {encoding: 'utf8', flag: 'wx'})
+    return
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+      throw error
+    }
+  }
+
+  const existing = await readLock(lockPath)
+  if (existing && isStale(existing, settings.stale)) {
+    await breakStaleLock(lockPath, existing, settings.stale)
+  } else if (Date.now() >= deadline) {
+    throw new FileLockTimeoutError(path, settings.timeout, existing?.owner?.pid)
+  } else if (existing) {
+    await setTimeout(settings.retryInterval)
+  }
+
+  return acquireLock(path, owner, deadline, settings)
+}
+
+async function readLock(lockPath: string): Promise<ExistingLock | undefined> {
+  try {
+    const [content, stats] = await Promise.all([readFile(lockPath, 'utf8'), stat(lockPath)])
+    return {age: Date.now() - stats.mtimeMs, owner: parseOwner(content)}
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return undefined
+    }
+
+    throw error
+  }
+}
+
+function parseOwner(content: string): Partial<LockOwner> | undefined {
+  try {
+    return JSON.parse(content) as Partial<LockOwner>
+  } catch {
+    // Still being written, or left truncated by a crash: only its age tells whether it is stale
+    return undefined
+  }
+}
+
+function isStale(lock: ExistingLock, staleAge: number): boolean {
+  if (lock.age > staleAge) {
+    return true
+  }
+
+  const {owner} = lock
+  return owner?.hostname === hostname() && typeof owner.pid === 'number' && !isProcessRunning(owner.pid)
+}
+
+function isProcessRunning(pid: number): boolean {
+  try {
+    // Signal 0 checks that the process exists without signalling it
+    process.kill(pid, 0)
+    return true
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === 'EPERM'
+  }
+}
+
+/**
+ * Removes a stale lock, unless another process replaced it since it was read.
+ */
+async function breakStaleLock(lockPath: string, stale: ExistingLock, staleAge: number): Promise<void> {
+  const current = await readLock(lockPath)
+  if (current && current.owner?.token === stale.owner?.token && isStale(current, staleAge)) {
+    await rm(lockPath, {force: true})
+  }
+}
+
+/**
+ * Removes our lock, unless it was broken as stale and taken by another process.
+ */
+async function releaseLock(lockPath: string, token: string): Promise<void> {
+  const current = await readLock(lockPath)
+  if (current?.owner?.token === token) {
+    await rm(lockPath, {force: true})
+  }
+}
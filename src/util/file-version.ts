@@ -0,0 +1,73 @@
+import {createHash} from 'node:crypto'
+import {readFile, stat} from 'node:fs/promises'
+import {resolve} from 'node:path'
+
+import {ConcurrentModificationError} from '../errors/index.js'
+
+/**
+ * The state of a roadmap file when it was last loaded or saved
+ */
+export interface FileVersion {
+  hash: string
+  mtime: number
+}
+
+/**
+ * Versions of the roadmap files this process has loaded, by absolute path. Shared by
+ * RoadmapRepository and the readRoadmapFile/writeRoadmapFile helpers, since commands often
+ * load with one and save with another.
+ */
+const loadedVersions = new Map<string, FileVersion>()
+
+/**
+ * Describes the version of a file that was just read or written.
+ *
+ * @param path - Path to the file
+ * @param data - The content that was read or written
+ * @returns The content hash and modification time
+ */
+export async function getFileVersion(path: string, data: string): Promise<FileVersion> {
+  const stats = await stat(path)
+  return {hash: hashContent(data), mtime: stats.mtimeMs}
+}
+
+/**
+ * Remembers the version of a file this process loaded or saved, for assertFileUnchanged.
+ *
+ * @param path - Path to the file
+ * @param version - The version that was loaded or saved
+ */
+export function recordFileVersion(path: string, version: FileVersion): void {
+  loadedVersions.set(resolve(path), version)
+}
+
+/**
+ * Throws if the file changed since this process last loaded or saved it. Files this
+ * process never loaded are not checked.
+ *
+ * @param path - Path to the file
+ * @throws ConcurrentModificationError if the modification time or content differs, or the file is gone
+ */
+export async function assertFileUnchanged(path: string): Promise<void> {
+  const expected = loadedVersions.get(resolve(path))
+  if (!expected) {
+    return
+  }
+
+  try {
+    const [data, stats] = await Promise.all([readFile(path, 'utf8'), stat(path)])
+    if (stats.mtimeMs === expected.mtime && hashContent(data) === expected.hash) {
+      return
+    }
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      throw error
+    }
+  }
+
+  throw new ConcurrentModificationError(path)
+}
+
+function hashContent(data: string): string {
+  return createHash('sha256').update(data).digest('hex')
+}
@@ -0,0 +1,84 @@
+import {execFile} from 'node:child_process'
+import {basename, dirname} from 'node:path'
+import {promisify} from 'node:util'
+
+import {GitCommandError} from '../errors/index.js'
+
+const execFileAsync = promisify(execFile)
+
+/**
+ * A committed version of a file
+ */
+export type FileRevision = {
+  /** Full hash of the commit */
+  commit: string
+  /** The file's content in that commit */
+  content: string
+  /** Commit date (ISO 8601) */
+  date: string
+}
+
+/**
+ * Runs the local git binary in a directory.
+ *
+ * @param args - Arguments for git
+ * @param cwd - Directory to run git in
+ * @returns git's standard output
+ * @throws GitCommandError if git is not installed, the directory is not in a repository, or the command fails
+ */
+export async function runGit(args: string[], cwd: string): Promise<string> {
+  try {
+    const {stdout} = await execFileAsync('git', args, {cwd, maxBuffer: 256 * 1024 * 1024})
+    return stdout
+  } catch (error) {
+    throw new GitCommandError(args, error instanceof Error ? error : undefined)
+  }
+}
+
+/**
+ * Reads a file as it was in a git revision.
+ *
+ * @param path - Path to the file
+ * @param revision - Any revision git accepts (a commit, branch, tag, HEAD~2, ...)
+ * @returns The file's content in that revision
+ * @throws GitCommandError if git is not installed, the revision does not exist, or the file is not in it
+ */
+export async function readFileAtRevision(path: string, revision: string): Promise<string> {
+  return runGit(['show', `${revision}:./${basename(path)}`], dirname(path))
+}
+
+/**
+ * Reads every committed version of a file, oldest first.
+ *
+ * @param path - Path to the file
+ * @param options - Only read commits made on or after `since` (any date git accepts)
+ * @param options.since - Earliest commit date to include
+ * @returns The file's revisions; commits that deleted the file are skipped
+ * @throws GitCommandError if git is not installed or the file is not in a repository
+ */
+export async function readFileHistory(path: string, options: {since?: string} = {}): Promise<FileRevision[]> {
+  const cwd = dirname(path)
+  const file = `./${basename(path)}`
+  const log = await runGit(
+    ['log', '--format=%H %cI', ...(options.since ? [`--since=${options.since}`] : []), '--', file],
+    cwd,
+  )
+
+  const revisions: FileRevision[] = []
+  for (const line of log.trim().split('\n').reverse()) {
+    const [commit, date] = line.split(' ')
+    if (!commit) {
+      continue
+    }
+
+    try {
+      // One git process at a time: a long history would otherwise spawn hundreds at once
+      // eslint-disable-next-line no-await-in-loop
+      revisions.push({commit, content: await readFileAtRevision(path, commit), date})
+    } catch {
+      // The file does not exist in commits that deleted it
+    }
+  }
+
+  return revisions
+}
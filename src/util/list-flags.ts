@@ -0,0 +1,168 @@
+import {Flags, Interfaces} from '@oclif/core'
+
+import {DEFAULT_TASK_LIST_COLUMNS, TASK_LIST_COLUMNS} from '../services/display.service.js'
+import {SORT_FIELDS} from '../services/task-query.service.js'
+import {PRIORITY, View} from './types.js'
+
+/**
+ * Flags that select, sort and format tasks, shared by `prt list` and `prt view save`.
+ * None of them has a default, so a flag that was not given never overrides a saved view.
+ */
+export const listViewFlags = {
+  assignee: Flags.string({char: 'a', description: 'filter tasks by assignee'}),
+  columns: Flags.string({
+    char: 'c',
+    description: `comma-separated columns for --format=table (${TASK_LIST_COLUMNS.join(', ')}; default: ${DEFAULT_TASK_LIST_COLUMNS.join(',')})`,
+  }),
+  desc: Flags.boolean({
+    allowNo: true,
+    char: 'd',
+    description: 'sort in descending order (sort keys with an explicit :asc or :desc keep their own order)',
+  }),
+  format: Flags.string({
+    char: 'f',
+    description: 'output format: default (multi-line summaries), compact (one line per task) or table',
+    options: ['default', 'compact', 'table'],
+  }),
+  'has-blocks': Flags.boolean({
+    allowNo: true,
+    description: 'filter tasks that block other tasks (--no-has-blocks for tasks that block nothing)',
+  }),
+  'has-deps': Flags.boolean({
+    allowNo: true,
+    description: 'filter tasks that have dependencies (--no-has-deps for tasks without any)',
+  }),
+  incomplete: Flags.boolean({
+    allowNo: true,
+    char: 'i',
+    description: 'filter tasks to show in-progress and not-started only',
+  }),
+  priority: Flags.string({
+    char: 'p',
+    delimiter: ',',
+    description: 'filter tasks by priority (high, medium, low); repeat or comma-separate for several',
+    multiple: true,
+    options: ['high', 'medium', 'low', 'h', 'm', 'l'],
+  }),
+  search: Flags.string({
+    char: 'q',
+    description: 'filter tasks whose title or details contain the text (case-insensitive)',
+  }),
+  sort: Flags.string({
+    char: 'o',
+    delimiter: ',',
+    description: `sort tasks by field (${SORT_FIELDS.join(', ')}), optionally suffixed with :asc or :desc; later fields break ties`,
+    multiple: true,
+  }),
+  status: Flags.string({
+    char: 's',
+    delimiter: ',',
+    description:
+      'filter tasks by status (completed, in-progress, not-started, or a workflow status from .prtrc.json); repeat or comma-separate for several',
+    multiple: true,
+  }),
+  tag: Flags.string({
+    char: 'g',
+    delimiter: ',',
+    description: 'filter tasks that have the tag; repeat or comma-separate to require several',
+    multiple: true,
+  }),
+  tree: Flags.boolean({
+    allowNo: true,
+    description:
+      'show subtasks indented under their parent task (filtered-out parents leave their subtasks at the top level)',
+  }),
+  type: Flags.string({
+    char: 't',
+    delimiter: ',',
+    description: 'filter tasks by type, including taskTypes from .prtrc.json; repeat or comma-separate for several',
+    multiple: true,
+  }),
+  where: Flags.string({
+    char: 'w',
+    description:
+      'filter tasks with an expression, e.g. "priority = high and (type = bug or tag:security)"; combined with the other filters',
+  }),
+}
+
+const PRIORITY_ALIASES: Record<string, PRIORITY> = {
+  h: PRIORITY.High,
+  high: PRIORITY.High,
+  l: PRIORITY.Low,
+  low: PRIORITY.Low,
+  m: PRIORITY.Medium,
+  medium: PRIORITY.Medium,
+}
+
+/**
+ * Converts parsed list flags into a View, leaving out every flag that was not given.
+ */
+// eslint-disable-next-line complexity
+export function viewFromFlags(flags: Interfaces.InferredFlags<typeof listViewFlags>): View {
+  const view: View = {}
+
+  if (flags.assignee !== undefined) {
+    view.assignee = flags.assignee
+  }
+
+  if (flags.columns !== undefined) {
+    view.columns = flags.columns
+      .split(',')
+      .map((column) => column.trim())
+      .filter((column) => column !== '')
+  }
+
+  if (flags.desc !== undefined) {
+    view.desc = flags.desc
+  }
+
+  if (flags.format !== undefined) {
+    view.format = flags.format as View['format']
+  }
+
+  if (flags['has-blocks'] !== undefined) {
+    view.hasBlocks = flags['has-blocks']
+  }
+
+  if (flags['has-deps'] !== undefined) {
+    view.hasDependencies = flags['has-deps']
+  }
+
+  if (flags.incomplete !== undefined) {
+    view.incomplete = flags.incomplete
+  }
+
+  if (flags.priority && flags.priority.length > 0) {
+    view.priority = [...new Set(flags.priority.map((priority) => PRIORITY_ALIASES[priority]))]
+  }
+
+  if (flags.search !== undefined) {
+    view.search = flags.search
+  }
+
+  if (flags.sort && flags.sort.length > 0) {
+    view.sort = flags.sort
+  }
+
+  if (flags.status && flags.status.length > 0) {
+    view.status = flags.status
+  }
+
+  if (flags.tag && flags.tag.length > 0) {
+    view.tags = flags.tag
+  }
+
+  if (flags.tree !== undefined) {
+    view.tree = flags.tree
+  }
+
+  if (flags.type && flags.type.length > 0) {
+    view.type = flags.type
+  }
+
+  if (flags.where !== undefined) {
+    view.where = flags.where
+  }
+
+  return view
+}
@@ -1,12 +1,16 @@
 import {readFile} from 'node:fs/promises'
 
 import {RoadmapNotFoundError} from '../errors/index.js'
+import {getFileVersion, recordFileVersion} from './file-version.js'
 import {Roadmap} from './types.js'
 
 export async function readRoadmapFile(path: string): Promise<Roadmap> {
   try {
     const data = await readFile(path, 'utf8')
-    return JSON.parse(data) as Roadmap
+    const roadmap = JSON.parse(data) as Roadmap
+    // Recorded so that writeRoadmapFile can refuse to overwrite changes made since
+    recordFileVersion(path, await getFileVersion(path, data))
+    return roadmap
   } catch (error) {
     // Re-throw SyntaxError for JSON parsing issues
     if (error instanceof SyntaxError) {
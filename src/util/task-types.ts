@@ -0,0 +1,94 @@
+import {ValidationError, ValidationErrorDetail} from '../errors/index.js'
+import {Config, TASK_TYPE_MAP} from './types.js'
+
+/**
+ * Task type names mapped to their ID prefixes: the five built-in types first,
+ * followed by any custom types declared under `taskTypes` in .prtrc.json.
+ */
+export type TaskTypeRegistry = ReadonlyMap<string, string>
+
+/**
+ * The built-in task types (bug, feature, improvement, planning, research)
+ */
+export const DEFAULT_TASK_TYPES: TaskTypeRegistry = new Map<string, string>(TASK_TYPE_MAP)
+
+const TASK_TYPE_NAME_REGEX = /^[a-z][\da-z-]*$/
+const TASK_TYPE_PREFIX_REGEX = /^[A-Z]+$/
+
+/**
+ * Builds the task types available to a project from its config.
+ * Custom types cannot replace a built-in type, and every type needs its own prefix.
+ *
+ * @param config - The loaded config (only `taskTypes` is read)
+ * @returns The built-in types followed by the custom ones
+ * @throws ValidationError if a custom type has an invalid name or prefix, or clashes with another type
+ */
+export function getTaskTypes(config?: Pick<Config, 'taskTypes'>): TaskTypeRegistry {
+  if (!config?.taskTypes || Object.keys(config.taskTypes).length === 0) {
+    return DEFAULT_TASK_TYPES
+  }
+
+  const taskTypes = new Map(DEFAULT_TASK_TYPES)
+  const errors: ValidationErrorDetail[] = []
+
+  for (const [name, prefix] of Object.entries(config.taskTypes)) {
+    const field = `taskTypes.${name}`
+    const prefixOwner = [...taskTypes].find(([, existing]) => existing === prefix)?.[0]
+
+    if (DEFAULT_TASK_TYPES.has(name)) {
+      errors.push({field, message: `${name} is a built-in task type`, type: 'invalid-value'})
+    } else if (!TASK_TYPE_NAME_REGEX.test(name)) {
+      errors.push({
+        field,
+        message: `Invalid task type name: ${name}. Use lowercase letters, digits and -`,
+        type: 'invalid-value',
+      })
+    } else if (typeof prefix !== 'string' || !TASK_TYPE_PREFIX_REGEX.test(prefix)) {
+      errors.push({field, message: `Invalid ID prefix: ${prefix}. Use uppercase letters`, type: 'invalid-value'})
+    } else if (prefixOwner) {
+      errors.push({field, message: `ID prefix ${prefix} is already used by ${prefixOwner}`, type: 'invalid-value'})
+    } else {
+      taskTypes.set(name, prefix)
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new ValidationError(errors)
+  }
+
+  return taskTypes
+}
+
+/**
+ * Builds the regular expression task IDs must match for a set of task types:
+ * one of their prefixes, a dash and three or more digits.
+ *
+ * @param taskTypes - The available task types
+ * @returns The task ID pattern
+ */
+export function getTaskIdRegex(taskTypes: TaskTypeRegistry = DEFAULT_TASK_TYPES): RegExp {
+  return new RegExp(String.raw`^(${[...taskTypes.values()].join('|')})-\d{3,}$`)
+}
+
+/**
+ * Describes the task ID format for error messages, e.g. `[B|F|I|P|R]-[000-999], with 3 or more digits`
+ *
+ * @param taskTypes - The available task types
+ * @returns The format description
+ */
+export function describeTaskIdFormat(taskTypes: TaskTypeRegistry = DEFAULT_TASK_TYPES): string {
+  return `[${[...taskTypes.values()].join('|')}]-[000-999], with 3 or more digits`
+}
+
+/**
+ * Checks that a task type is one of the available types.
+ *
+ * @param type - The task type to check
+ * @param taskTypes - The available task types
+ * @throws Error if the type is unknown
+ */
+export function validateTaskType(type: string, taskTypes: TaskTypeRegistry = DEFAULT_TASK_TYPES): void {
+  if (!taskTypes.has(type)) {
+    throw new Error(`Invalid task type: ${type}. Valid types: ${[...taskTypes.keys()].join(', ')}`)
+  }
+}
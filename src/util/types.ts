@@ -5,11 +5,72 @@ export type Config = {
     maxSize?: number
     watchFiles?: boolean
   }
+  /** What `complete` and `update --status=completed` do when a dependency is unfinished (default: strict) */
+  dependencyGuard?: DependencyGuardMode
+  idWidth?: number
+  /** The operation journal used by undo, redo and log */
+  journal?: {
+    /** Number of changes kept for undo; 0 turns the journal off (default: 100) */
+    maxEntries?: number
+  }
   metadata: {
     description: string
     name: string
   }
   path: string
+  /** Custom task types and their ID prefixes, e.g. {"chore": "C"}, added to the built-in types */
+  taskTypes?: Record<string, string>
+  views?: Record<string, View>
+  workflow?: WorkflowConfig
+}
+
+/**
+ * How completing a task with unfinished dependencies is handled:
+ * `strict` refuses (unless --force is given), `warn` completes it with a warning, `off` skips the check.
+ */
+export type DependencyGuardMode = 'off' | 'strict' | 'warn'
+
+/**
+ * A status change allowed by the workflow. `from` and `to` take one status or a list,
+ * and `*` matches every status. `requires` lists conditions the task must meet after the change.
+ */
+export type WorkflowTransition = {
+  from: Array<string> | string
+  requires?: Array<WorkflowRequirement>
+  to: Array<string> | string
+}
+
+export type WorkflowRequirement = 'passes-tests'
+
+/**
+ * The `workflow` section of .prtrc.json: statuses beyond the built-in ones, display symbols,
+ * and the allowed status transitions (every change is allowed when `transitions` is not set).
+ */
+export type WorkflowConfig = {
+  statuses?: Record<string, {symbol: string}>
+  transitions?: Array<WorkflowTransition>
+}
+
+/**
+ * A saved set of `prt list` options, stored under `views` in .prtrc.json.
+ * Every field is optional; flags given on the command line override the view's values.
+ */
+export type View = {
+  assignee?: string
+  columns?: Array<string>
+  desc?: boolean
+  format?: 'compact' | 'default' | 'table'
+  hasBlocks?: boolean
+  hasDependencies?: boolean
+  incomplete?: boolean
+  priority?: Array<PRIORITY>
+  search?: string
+  sort?: Array<string>
+  status?: Array<string>
+  tags?: Array<string>
+  tree?: boolean
+  type?: Array<string>
+  where?: string
 }
 
 export type Roadmap = {
@@ -20,9 +81,43 @@ export type Roadmap = {
     description: string
     name: string
   }
+  /** Releases or versions that tasks are planned for */
+  milestones?: Array<Milestone>
+  /** Time-boxed iterations that tasks are committed to */
+  sprints?: Array<Sprint>
   tasks: Array<Task>
 }
 
+/**
+ * A release or version that tasks are planned for. Tasks join a milestone through their `milestone` field.
+ */
+export type Milestone = {
+  /** When the milestone was closed; open milestones have none */
+  closedAt?: null | string
+  createdAt: string
+  description?: string
+  /** Short identifier chosen by the user, e.g. v1.0 or 2026-q4 (letters, digits, ., - and _) */
+  id: string
+  name: string
+  targetDate?: null | string
+}
+
+/**
+ * A time-boxed iteration with per-assignee capacity. Tasks join a sprint through their `sprint` field.
+ */
+export type Sprint = {
+  /** Effort units each assignee can take on during the sprint, keyed by assignee */
+  capacity: Record<string, number>
+  createdAt: string
+  /** Last day of the sprint (ISO 8601) */
+  endDate: string
+  /** Short identifier chosen by the user, e.g. 2026-s22 (letters, digits, ., - and _) */
+  id: string
+  name: string
+  /** First day of the sprint (ISO 8601) */
+  startDate: string
+}
+
 export type Tag = string
 
 export enum PRIORITY {
@@ -63,10 +158,40 @@ export const TASK_TYPE_MAP: Map<TASK_TYPE, TASK_TYPE_LETTER> = new Map([
 
 export type SingleDigit = `${0 | 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9}`
 
-export type TaskID = `${TASK_TYPE_LETTER}-${SingleDigit}${SingleDigit}${SingleDigit}`
-export const TASK_ID_REGEX = /^(B|F|I|P|R)-[0-9]{3}$/
+/**
+ * Task IDs are a type prefix and a number zero-padded to at least DEFAULT_ID_WIDTH digits
+ * (F-001, F-042, F-1000). Projects can pad to more digits with `idWidth` in .prtrc.json,
+ * and declare custom types with their own prefixes under `taskTypes`.
+ * The type only checks the shape; TASK_ID_REGEX (built-in types) or getTaskIdRegex()
+ * (configured types) check the prefix and digits at runtime.
+ */
+export type TaskID = `${string}-${number}`
+export const TASK_ID_REGEX = /^(B|F|I|P|R)-\d{3,}$/
+export const DEFAULT_ID_WIDTH = 3
+
+/**
+ * Task fields whose changes TaskService.updateTask records in the task's activity log
+ */
+export type ActivityField = 'blocks' | 'depends-on' | 'priority' | 'status'
+
+/**
+ * An entry in a task's activity log: a comment, or a change to one of the ActivityFields.
+ * `at` is an ISO 8601 timestamp and `author` the user who made the entry.
+ */
+export type TaskActivity =
+  | {at: string; author: string; body: string; type: 'comment'}
+  | {
+      at: string
+      author: string
+      field: ActivityField
+      from: Array<TaskID> | string
+      to: Array<TaskID> | string
+      type: 'change'
+    }
 
 export type Task = {
+  /** Comments and tracked changes, oldest first */
+  activity?: Array<TaskActivity>
   assignedTo?: null | string
   blocks: Array<Task['id']>
   createdAt?: null | string
@@ -76,12 +201,21 @@ export type Task = {
   effort?: null | number
   'github-refs'?: Array<string>
   id: TaskID
+  /** ID of the milestone the task is planned for */
+  milestone?: null | string
+  /** Free-text notes from before the activity log; `prt migrate-notes` turns them into comments */
   notes?: null | string
+  /** The task this is a subtask of; its progress and effort roll up into the parent */
+  parent?: null | TaskID
   'passes-tests': boolean
   priority: PRIORITY
-  status: STATUS
+  /** ID of the sprint the task is committed to */
+  sprint?: null | string
+  /** One of the built-in STATUS values, or a custom status declared in the workflow in .prtrc.json */
+  status: string
   tags: Array<Tag>
   title: string
-  type: TASK_TYPE
+  /** One of the built-in TASK_TYPE values, or a custom type declared in .prtrc.json */
+  type: string
   updatedAt?: null | string
 }
@@ -1,7 +1,11 @@
+import {DEFAULT_TASK_TYPES, describeTaskIdFormat, getTaskIdRegex, TaskTypeRegistry} from './task-types.js'
 import {TaskID} from './types.js'
 
-export function validateTaskID(taskID: string): asserts taskID is TaskID {
-  if (!/^(B|F|I|P|R)-[0-9]{3}$/.test(taskID)) {
-    throw new Error(`task ID ${taskID} is not valid. Must match format: [B|F|I|P|R]-[000-999]`)
+export function validateTaskID(
+  taskID: string,
+  taskTypes: TaskTypeRegistry = DEFAULT_TASK_TYPES,
+): asserts taskID is TaskID {
+  if (!getTaskIdRegex(taskTypes).test(taskID)) {
+    throw new Error(`task ID ${taskID} is not valid. Must match format: ${describeTaskIdFormat(taskTypes)}`)
   }
 }
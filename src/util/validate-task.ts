@@ -1,16 +1,33 @@
 import {InvalidTaskError} from '../errors/index.js'
+import {DEFAULT_TASK_TYPES, describeTaskIdFormat, getTaskIdRegex, TaskTypeRegistry} from './task-types.js'
 import {Task} from './types.js'
+import {DEFAULT_WORKFLOW, Workflow} from './workflow.js'
 
-export function validateTask(task: Task, {skipID}: {skipID?: boolean} = {}): void {
-  if (!skipID && !/^(B|F|I|P|R)-[0-9]{3}$/.test(task.id)) {
+/**
+ * The project's task types and workflow, which decide the valid task IDs, types and statuses
+ */
+export type TaskValidationOptions = {
+  taskTypes?: TaskTypeRegistry
+  workflow?: Workflow
+}
+
+export function validateTask(
+  task: Task,
+  {
+    skipID,
+    taskTypes = DEFAULT_TASK_TYPES,
+    workflow = DEFAULT_WORKFLOW,
+  }: TaskValidationOptions & {skipID?: boolean} = {},
+): void {
+  if (!skipID && !getTaskIdRegex(taskTypes).test(task.id)) {
     throw new InvalidTaskError(
-      `task ID ${task.id} is not valid. Must match format: [B|F|I|P|R]-[000-999]`,
+      `task ID ${task.id} is not valid. Must match format: ${describeTaskIdFormat(taskTypes)}`,
       task.id,
       'id',
     )
   }
 
-  if (!['bug', 'feature', 'improvement', 'planning', 'research'].includes(task.type)) {
+  if (!taskTypes.has(task.type)) {
     throw new InvalidTaskError(
       `task ${skipID ? '' : `ID ${task.id}`} has invalid type: ${task.type}`,
       skipID ? undefined : task.id,
@@ -26,7 +43,7 @@ export function validateTask(task: Task, {skipID}: {skipID?: boolean} = {}): voi
     )
   }
 
-  if (!['completed', 'in-progress', 'not-started'].includes(task.status)) {
+  if (!workflow.statuses.has(task.status)) {
     throw new InvalidTaskError(
       `task ${skipID ? '' : `ID ${task.id}`} has invalid status: ${task.status}`,
       skipID ? undefined : task.id,
@@ -0,0 +1,166 @@
+import {InvalidStatusTransitionError, ValidationError, ValidationErrorDetail} from '../errors/index.js'
+import {Config, STATUS, Task, WorkflowRequirement, WorkflowTransition} from './types.js'
+
+/**
+ * The statuses, display symbols and transitions a project's tasks follow.
+ */
+export type Workflow = {
+  /** Statuses mapped to their display symbols: the built-in statuses first, then custom ones */
+  statuses: ReadonlyMap<string, string>
+  /** The allowed status changes; every change is allowed when undefined */
+  transitions?: ReadonlyArray<WorkflowTransition>
+}
+
+/**
+ * Display symbols of the built-in statuses
+ */
+export const DEFAULT_STATUS_SYMBOLS: ReadonlyMap<string, string> = new Map<string, string>([
+  [STATUS.Completed, '✓'],
+  [STATUS.InProgress, '~'],
+  [STATUS.NotStarted, '○'],
+])
+
+/**
+ * The built-in workflow: completed, in-progress and not-started, with any status change allowed
+ */
+export const DEFAULT_WORKFLOW: Workflow = {statuses: DEFAULT_STATUS_SYMBOLS}
+
+const STATUS_NAME_REGEX = /^[a-z][\da-z-]*$/
+const ANY_STATUS = '*'
+
+const REQUIREMENTS: Record<WorkflowRequirement, (task: Task) => boolean> = {
+  'passes-tests': (task) => task['passes-tests'] === true,
+}
+
+function toList(value: Array<string> | string): Array<string> {
+  return Array.isArray(value) ? value : [value]
+}
+
+function matchesStatus(value: Array<string> | string, status: string): boolean {
+  const statuses = toList(value)
+  return statuses.includes(ANY_STATUS) || statuses.includes(status)
+}
+
+/**
+ * Builds a project's workflow from its config.
+ * Custom statuses are added to the built-in ones, which always exist but can be given other symbols.
+ *
+ * @param config - The loaded config (only `workflow` is read)
+ * @returns The workflow
+ * @throws ValidationError if a status name is invalid or a transition names an unknown status
+ */
+export function getWorkflow(config?: Pick<Config, 'workflow'>): Workflow {
+  if (!config?.workflow) {
+    return DEFAULT_WORKFLOW
+  }
+
+  const statuses = new Map(DEFAULT_STATUS_SYMBOLS)
+  const errors: ValidationErrorDetail[] = []
+
+  for (const [name, {symbol}] of Object.entries(config.workflow.statuses ?? {})) {
+    if (!STATUS_NAME_REGEX.test(name)) {
+      errors.push({
+        field: `workflow.statuses.${name}`,
+        message: `Invalid status name: ${name}. Use lowercase letters, digits and -`,
+        type: 'invalid-value',
+      })
+    } else if (typeof symbol !== 'string' || symbol.trim() === '') {
+      errors.push({field: `workflow.statuses.${name}`, message: `Status ${name} needs a symbol`, type: 'invalid-value'})
+    } else {
+      statuses.set(name, symbol)
+    }
+  }
+
+  for (const [index, transition] of (config.workflow.transitions ?? []).entries()) {
+    for (const status of [...toList(transition.from), ...toList(transition.to)]) {
+      if (status !== ANY_STATUS && !statuses.has(status)) {
+        errors.push({
+          field: `workflow.transitions[${index}]`,
+          message: `Unknown status: ${status}. Valid statuses: ${[...statuses.keys()].join(', ')}`,
+          type: 'invalid-value',
+        })
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new ValidationError(errors)
+  }
+
+  return {statuses, transitions: config.workflow.transitions}
+}
+
+/**
+ * Checks that a status is one of the workflow's statuses.
+ *
+ * @param status - The status to check
+ * @param workflow - The workflow
+ * @throws Error if the status is unknown
+ */
+export function validateStatus(status: string, workflow: Workflow = DEFAULT_WORKFLOW): void {
+  if (!workflow.statuses.has(status)) {
+    throw new Error(`Invalid status: ${status}. Valid statuses: ${[...workflow.statuses.keys()].join(', ')}`)
+  }
+}
+
+/**
+ * Lists the statuses a task in the given status may move to.
+ *
+ * @param status - The current status
+ * @param workflow - The workflow
+ * @returns The reachable statuses, in workflow order (requirements are not checked)
+ */
+export function getNextStatuses(status: string, workflow: Workflow = DEFAULT_WORKFLOW): string[] {
+  return [...workflow.statuses.keys()].filter(
+    (to) =>
+      to !== status &&
+      (!workflow.transitions ||
+        workflow.transitions.some(
+          (transition) => matchesStatus(transition.from, status) && matchesStatus(transition.to, to),
+        )),
+  )
+}
+
+/**
+ * Checks that applying updates to a task is a status change the workflow allows.
+ * Requirements are checked against the updated task, so `prt complete --tests` can
+ * satisfy a passes-tests requirement in the same change.
+ *
+ * @param task - The task before the change
+ * @param updates - The changes to apply
+ * @param workflow - The workflow
+ * @throws Error if the new status is unknown
+ * @throws InvalidStatusTransitionError if the transition is not allowed or its requirements are not met
+ */
+export function validateStatusChange(task: Task, updates: Partial<Task>, workflow: Workflow = DEFAULT_WORKFLOW): void {
+  const to = updates.status
+  if (to === undefined || to === task.status) {
+    return
+  }
+
+  validateStatus(to, workflow)
+  if (!workflow.transitions) {
+    return
+  }
+
+  const matching = workflow.transitions.filter(
+    (transition) => matchesStatus(transition.from, task.status) && matchesStatus(transition.to, to),
+  )
+  if (matching.length === 0) {
+    const allowed = getNextStatuses(task.status, workflow)
+    throw new InvalidStatusTransitionError(
+      task.id,
+      task.status,
+      to,
+      `not an allowed transition (allowed: ${allowed.length > 0 ? allowed.join(', ') : 'none'})`,
+    )
+  }
+
+  const updatedTask = {...task, ...updates}
+  const unmet = matching.map((transition) =>
+    (transition.requires ?? []).filter((requirement) => !REQUIREMENTS[requirement](updatedTask)),
+  )
+  if (unmet.every((requirements) => requirements.length > 0)) {
+    throw new InvalidStatusTransitionError(task.id, task.status, to, `requires ${unmet[0].join(', ')}`)
+  }
+}
@@ -0,0 +1,65 @@
+import {randomBytes} from 'node:crypto'
+import {constants} from 'node:fs'
+import {access, open, rename, rm, stat} from 'node:fs/promises'
+import {basename, dirname, join} from 'node:path'
+
+/**
+ * Writes a file atomically: the data goes to a temporary file in the same directory,
+ * which then replaces the target with a rename. Readers see either the old or the new
+ * content, never a truncated file, even if the process dies mid-write.
+ *
+ * An existing target keeps its permissions, and a read-only target is refused as a
+ * plain write would.
+ *
+ * @param path - The file to write
+ * @param data - The content to write, as UTF-8
+ *
+ * @example
+ * ```typescript
+ * await writeFileAtomic('./prt.json', JSON.stringify(roadmap, null, 2));
+ * ```
+ */
+export async function writeFileAtomic(path: string, data: string): Promise<void> {
+  const mode = await existingFileMode(path)
+  const tempPath = join(dirname(path), `.${basename(path)}.${process.pid}.${randomBytes(4).toString('hex')}.tmp`)
+
+  try {
+    const handle = await open(tempPath, 'wx')
+    try {
+      if (mode !== undefined) {
+        await handle.chmod(mode)
+      }
+
+      await handle.writeFile(data, 'utf8')
+      await handle.sync()
+    } finally {
+      await handle.close()
+    }
+
+    await rename(tempPath, path)
+  } catch (error) {
+    await rm(tempPath, {force: true})
+    throw error
+  }
+}
+
+/**
+ * Returns the permissions of an existing file, after checking it is writable.
+ */
+async function existingFileMode(path: string): Promise<number | undefined> {
+  try {
+    const stats = await stat(path)
+    if (!stats.isFile()) {
+      return undefined
+    }
+
+    await access(path, constants.W_OK)
+    return stats.mode
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return undefined
+    }
+
+    throw error
+  }
+}
@@ -1,8 +1,28 @@
-import {writeFile} from 'node:fs/promises'
-
+import {FileLockOptions, withFileLock} from './file-lock.js'
+import {assertFileUnchanged, getFileVersion, recordFileVersion} from './file-version.js'
 import {Roadmap} from './types.js'
+import {writeFileAtomic} from './write-file-atomic.js'
 
-export async function writeRoadmapFile(path: string, roadmap: Roadmap): Promise<void> {
+/**
+ * Writes a roadmap file under a lock, replacing it atomically. If this process read the file
+ * with readRoadmapFile or RoadmapRepository before, the write is refused when the file changed
+ * since, so changes made by another process are never overwritten.
+ *
+ * @param path - Path to the roadmap file
+ * @param roadmap - The roadmap to write
+ * @param lockOptions - How long to wait for the lock
+ * @throws ConcurrentModificationError if the file changed since it was read
+ */
+export async function writeRoadmapFile(path: string, roadmap: Roadmap, lockOptions?: FileLockOptions): Promise<void> {
   const data = JSON.stringify(roadmap, null, 2)
-  await writeFile(path, data, 'utf8')
+  const version = await withFileLock(
+    path,
+    async () => {
+      await assertFileUnchanged(path)
+      await writeFileAtomic(path, data)
+      return getFileVersion(path, data)
+    },
+    lockOptions,
+  )
+  recordFileVersion(path, version)
 }
@@ -1,7 +1,9 @@
 import {expect} from 'chai'
+import {writeFile} from 'node:fs/promises'
 
 import Add from '../../src/commands/add.js'
-import {PRIORITY, Roadmap, STATUS, TASK_TYPE} from '../../src/util/types.js'
+import {resetDefaultConfigRepository} from '../../src/repositories/config.repository.js'
+import {Config, PRIORITY, Roadmap, STATUS, TASK_TYPE} from '../../src/util/types.js'
 import {createEmptyRoadmap, createRoadmap} from '../fixtures/roadmap-factory.js'
 import {createBugTask, createFeatureTask, createPlanningTask, resetTaskCounter} from '../fixtures/task-factory.js'
 import {assertCommandError, assertCommandSuccess, runCommand, withTempRoadmap} from '../helpers/command-runner.js'
@@ -115,6 +117,39 @@ describe('add command', () => {
       })
     })
 
+    it('should plan the task for a milestone with --milestone', async () => {
+      const roadmap = createEmptyRoadmap({
+        milestones: [{createdAt: '2026-09-01T00:00:00.000Z', id: 'v1.0', name: 'v1.0'}],
+      })
+
+      await withTempRoadmap(roadmap, async ({roadmapPath, tempDir}) => {
+        const result = await runCommand(
+          Add,
+          ['Planned'],
+          {details: 'Details', milestone: 'v1.0', type: TASK_TYPE.Feature},
+          tempDir,
+        )
+
+        assertCommandSuccess(result)
+
+        const updatedRoadmap = await readTempJsonFile<Roadmap>(roadmapPath)
+        expect(updatedRoadmap.tasks[0].milestone).to.equal('v1.0')
+      })
+    })
+
+    it('should reject a milestone that does not exist', async () => {
+      await withTempRoadmap(createEmptyRoadmap(), async ({tempDir}) => {
+        const result = await runCommand(
+          Add,
+          ['Planned'],
+          {details: 'Details', milestone: 'v1.0', type: TASK_TYPE.Feature},
+          tempDir,
+        )
+
+        assertCommandError(result, /Milestone not found: v1.0/)
+      })
+    })
+
     it('should write task to roadmap file', async () => {
       const roadmap = createEmptyRoadmap()
 
@@ -196,6 +231,22 @@ describe('add command', () => {
         expect(updatedRoadmap.tasks[2].id).to.equal('F-002')
       })
     })
+
+    it('should pad new IDs to the configured idWidth', async () => {
+      const roadmap = createEmptyRoadmap()
+
+      await withTempRoadmap(roadmap, async ({configPath, roadmapPath, tempDir}) => {
+        const config = await readTempJsonFile<Config>(configPath!)
+        await writeFile(configPath!, JSON.stringify({...config, idWidth: 4}), 'utf8')
+        resetDefaultConfigRepository()
+
+        const result = await runCommand(Add, ['Feature'], {details: 'Details', type: TASK_TYPE.Feature}, tempDir)
+
+        assertCommandSuccess(result)
+        const updatedRoadmap = await readTempJsonFile<Roadmap>(roadmapPath)
+        expect(updatedRoadmap.tasks[0].id).to.equal('F-0001')
+      })
+    })
   })
 
   describe('flags and options', () => {
@@ -254,6 +305,32 @@ describe('add command', () => {
       })
     })
 
+    it('should accept a custom task type from taskTypes in the config', async () => {
+      const roadmap = createRoadmap({tasks: [createFeatureTask({id: 'F-001'})]})
+
+      await withTempRoadmap(roadmap, async ({configPath, roadmapPath, tempDir}) => {
+        const config = await readTempJsonFile<Config>(configPath!)
+        await writeFile(configPath!, JSON.stringify({...config, taskTypes: {chore: 'C'}}), 'utf8')
+        resetDefaultConfigRepository()
+
+        const result = await runCommand(Add, ['Bump deps'], {details: 'Details', type: 'chore'}, tempDir)
+
+        assertCommandSuccess(result)
+        const updatedRoadmap = await readTempJsonFile<Roadmap>(roadmapPath)
+        expect(updatedRoadmap.tasks[1]).to.include({id: 'C-001', type: 'chore'})
+      })
+    })
+
+    it('should reject a task type that is not configured', async () => {
+      const roadmap = createEmptyRoadmap()
+
+      await withTempRoadmap(roadmap, async ({tempDir}) => {
+        const result = await runCommand(Add, ['Bump deps'], {details: 'Details', type: 'chore'}, tempDir)
+
+        assertCommandError(result, /Invalid task type: chore/)
+      })
+    })
+
     it('should use default priority (medium)', async () => {
       const roadmap = createEmptyRoadmap()
 
@@ -397,4 +474,73 @@ describe('add command', () => {
       })
     })
   })
+
+  describe('json output', () => {
+    it('should print the new task ID and task as JSON', async () => {
+      resetTaskCounter()
+      const roadmap = createRoadmap({tasks: [createFeatureTask({id: 'F-001'})]})
+
+      await withTempRoadmap(roadmap, async ({tempDir}) => {
+        const result = await runCommand(
+          Add,
+          ['New feature'],
+          {details: 'Details', json: true, type: TASK_TYPE.Feature},
+          tempDir,
+        )
+
+        assertCommandSuccess(result)
+        const output = JSON.parse(result.stdout)
+        expect(output.id).to.equal('F-002')
+        expect(output.task).to.include({id: 'F-002', title: 'New feature', type: TASK_TYPE.Feature})
+      })
+    })
+  })
+
+  describe('subtasks', () => {
+    it('should add a subtask with --parent', async () => {
+      resetTaskCounter()
+      const roadmap = createRoadmap({tasks: [createFeatureTask({id: 'F-010'})]})
+
+      await withTempRoadmap(roadmap, async ({roadmapPath, tempDir}) => {
+        const result = await runCommand(
+          Add,
+          ['Login tests'],
+          {details: 'Details', parent: 'F-010', type: TASK_TYPE.Feature},
+          tempDir,
+        )
+
+        assertCommandSuccess(result)
+        const updatedRoadmap = await readTempJsonFile<Roadmap>(roadmapPath)
+        expect(updatedRoadmap.tasks[1]).to.include({parent: 'F-010', title: 'Login tests'})
+      })
+    })
+
+    it('should fail when the parent does not exist', async () => {
+      await withTempRoadmap(createEmptyRoadmap(), async ({roadmapPath, tempDir}) => {
+        const result = await runCommand(
+          Add,
+          ['Orphan'],
+          {details: 'Details', parent: 'F-010', type: TASK_TYPE.Feature},
+          tempDir,
+        )
+
+        assertCommandError(result, /F-010/)
+        const updatedRoadmap = await readTempJsonFile<Roadmap>(roadmapPath)
+        expect(updatedRoadmap.tasks).to.be.empty
+      })
+    })
+
+    it('should reject an invalid parent ID', async () => {
+      await withTempRoadmap(createEmptyRoadmap(), async ({tempDir}) => {
+        const result = await runCommand(
+          Add,
+          ['Orphan'],
+          {details: 'Details', parent: 'epic', type: TASK_TYPE.Feature},
+          tempDir,
+        )
+
+        assertCommandError(result, /task ID epic is not valid/)
+      })
+    })
+  })
 }) // .timeout(50_000) // Extend timeout for file operations
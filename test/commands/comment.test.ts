@@ -0,0 +1,70 @@
+import {expect} from 'chai'
+
+import Comment from '../../src/commands/comment.js'
+import Show from '../../src/commands/show.js'
+import Undo from '../../src/commands/undo.js'
+import {Roadmap, Task} from '../../src/util/types.js'
+import {createRoadmap} from '../fixtures/roadmap-factory.js'
+import {createFeatureTask} from '../fixtures/task-factory.js'
+import {assertCommandError, assertCommandSuccess, runCommand, withTempRoadmap} from '../helpers/command-runner.js'
+import {readTempJsonFile} from '../helpers/fs-helpers.js'
+
+describe('comment command', () => {
+  before(() => {
+    process.env.PRT_USER = 'alice'
+  })
+
+  after(() => {
+    delete process.env.PRT_USER
+  })
+
+  it('should add a signed comment and show it in the timeline', async () => {
+    const roadmap = createRoadmap({tasks: [createFeatureTask({id: 'F-001'})]})
+
+    await withTempRoadmap(roadmap, async ({roadmapPath, tempDir}) => {
+      const result = await runCommand(Comment, ['F-001', 'Waiting for the API review'], {}, tempDir)
+
+      assertCommandSuccess(result)
+      expect(result.stdout).to.include('Comment added to task F-001.')
+      const [entry] = (await readTempJsonFile<Roadmap>(roadmapPath)).tasks[0].activity!
+      expect(entry).to.deep.include({author: 'alice', body: 'Waiting for the API review', type: 'comment'})
+
+      const shown = await runCommand(Show, ['F-001'], {}, tempDir)
+      expect(shown.stdout).to.match(/Activity:\n {2}\d{4}-\d{2}-\d{2} \d{2}:\d{2} {2}alice {2}commented: Waiting for/)
+    })
+  })
+
+  it('should output the task as JSON and be undoable', async () => {
+    const roadmap = createRoadmap({tasks: [createFeatureTask({id: 'F-001'})]})
+
+    await withTempRoadmap(roadmap, async ({roadmapPath, tempDir}) => {
+      const result = await runCommand(Comment, ['F-001', 'First'], {json: true}, tempDir)
+
+      assertCommandSuccess(result)
+      const output = JSON.parse(result.stdout) as {id: string; task: Task}
+      expect(output.id).to.equal('F-001')
+      expect(output.task.activity).to.have.lengthOf(1)
+
+      assertCommandSuccess(await runCommand(Undo, [], {}, tempDir))
+      expect((await readTempJsonFile<Roadmap>(roadmapPath)).tasks[0]).to.not.have.property('activity')
+    })
+  })
+
+  it('should reject an empty comment', async () => {
+    const roadmap = createRoadmap({tasks: [createFeatureTask({id: 'F-001'})]})
+
+    await withTempRoadmap(roadmap, async ({tempDir}) => {
+      const result = await runCommand(Comment, ['F-001', ' '], {}, tempDir)
+
+      assertCommandError(result, /Comment on F-001 cannot be empty/)
+    })
+  })
+
+  it('should fail for an unknown task', async () => {
+    await withTempRoadmap(createRoadmap({tasks: []}), async ({tempDir}) => {
+      const result = await runCommand(Comment, ['F-009', 'Hello'], {}, tempDir)
+
+      assertCommandError(result, /F-009/)
+    })
+  })
+})
@@ -1,12 +1,24 @@
 import {expect} from 'chai'
+import {writeFile} from 'node:fs/promises'
 
 import Complete from '../../src/commands/complete.js'
-import {Roadmap, STATUS} from '../../src/util/types.js'
+import {resetDefaultConfigRepository} from '../../src/repositories/config.repository.js'
+import {Config, Roadmap, STATUS} from '../../src/util/types.js'
 import {createEmptyRoadmap, createRoadmap} from '../fixtures/roadmap-factory.js'
 import {createBugTask, createFeatureTask, resetTaskCounter} from '../fixtures/task-factory.js'
 import {assertCommandError, assertCommandSuccess, runCommand, withTempRoadmap} from '../helpers/command-runner.js'
 import {readTempJsonFile} from '../helpers/fs-helpers.js'
 
+/** F-002 depends on F-001, which is still in progress */
+function createBlockedRoadmap(): Roadmap {
+  return createRoadmap({
+    tasks: [
+      createFeatureTask({blocks: ['F-002'], id: 'F-001', status: STATUS.InProgress}),
+      createFeatureTask({'depends-on': ['F-001'], id: 'F-002'}),
+    ],
+  })
+}
+
 describe('complete command', () => {
   describe('basic functionality', () => {
     it('should mark task as completed', async () => {
@@ -117,6 +129,96 @@ describe('complete command', () => {
     })
   })
 
+  describe('workflow', () => {
+    const workflow = {
+      transitions: [{from: '*', requires: ['passes-tests'], to: STATUS.Completed}],
+    }
+
+    it('should refuse to complete a task without passing tests when the workflow requires them', async () => {
+      const roadmap = createRoadmap({tasks: [createFeatureTask({id: 'F-001', 'passes-tests': false})]})
+
+      await withTempRoadmap(roadmap, async ({configPath, roadmapPath, tempDir}) => {
+        const config = await readTempJsonFile<Config>(configPath!)
+        await writeFile(configPath!, JSON.stringify({...config, workflow}), 'utf8')
+        resetDefaultConfigRepository()
+
+        const result = await runCommand(Complete, ['F-001'], {}, tempDir)
+
+        assertCommandError(result, /requires passes-tests/)
+        const updatedRoadmap = await readTempJsonFile<Roadmap>(roadmapPath)
+        expect(updatedRoadmap.tasks[0].status).to.not.equal(STATUS.Completed)
+      })
+    })
+
+    it('should complete the task when --tests satisfies the requirement', async () => {
+      const roadmap = createRoadmap({tasks: [createFeatureTask({id: 'F-001', 'passes-tests': false})]})
+
+      await withTempRoadmap(roadmap, async ({configPath, roadmapPath, tempDir}) => {
+        const config = await readTempJsonFile<Config>(configPath!)
+        await writeFile(configPath!, JSON.stringify({...config, workflow}), 'utf8')
+        resetDefaultConfigRepository()
+
+        const result = await runCommand(Complete, ['F-001'], {tests: true}, tempDir)
+
+        assertCommandSuccess(result)
+        const updatedRoadmap = await readTempJsonFile<Roadmap>(roadmapPath)
+        expect(updatedRoadmap.tasks[0]).to.include({'passes-tests': true, status: STATUS.Completed})
+      })
+    })
+  })
+
+  describe('dependency guard', () => {
+    it('should refuse to complete a task with unfinished dependencies', async () => {
+      await withTempRoadmap(createBlockedRoadmap(), async ({roadmapPath, tempDir}) => {
+        const result = await runCommand(Complete, ['F-002'], {}, tempDir)
+
+        assertCommandError(result, /Cannot complete task F-002: unfinished prerequisites F-001 \(in-progress\)/)
+        expect(result.exitCode).to.equal(5)
+        const updatedRoadmap = await readTempJsonFile<Roadmap>(roadmapPath)
+        expect(updatedRoadmap.tasks[1].status).to.equal(STATUS.NotStarted)
+      })
+    })
+
+    it('should complete the task with a warning when --force is given', async () => {
+      await withTempRoadmap(createBlockedRoadmap(), async ({roadmapPath, tempDir}) => {
+        const result = await runCommand(Complete, ['F-002'], {force: true}, tempDir)
+
+        assertCommandSuccess(result)
+        expect(result.stderr).to.include('Completing F-002 before its prerequisites: F-001 (in-progress)')
+        const updatedRoadmap = await readTempJsonFile<Roadmap>(roadmapPath)
+        expect(updatedRoadmap.tasks[1].status).to.equal(STATUS.Completed)
+      })
+    })
+
+    it('should only warn when dependencyGuard is warn', async () => {
+      await withTempRoadmap(createBlockedRoadmap(), async ({configPath, roadmapPath, tempDir}) => {
+        const config = await readTempJsonFile<Config>(configPath!)
+        await writeFile(configPath!, JSON.stringify({...config, dependencyGuard: 'warn'}), 'utf8')
+        resetDefaultConfigRepository()
+
+        const result = await runCommand(Complete, ['F-002'], {}, tempDir)
+
+        assertCommandSuccess(result)
+        expect(result.stderr).to.include('F-001 (in-progress)')
+        const updatedRoadmap = await readTempJsonFile<Roadmap>(roadmapPath)
+        expect(updatedRoadmap.tasks[1].status).to.equal(STATUS.Completed)
+      })
+    })
+
+    it('should skip the check when dependencyGuard is off', async () => {
+      await withTempRoadmap(createBlockedRoadmap(), async ({configPath, tempDir}) => {
+        const config = await readTempJsonFile<Config>(configPath!)
+        await writeFile(configPath!, JSON.stringify({...config, dependencyGuard: 'off'}), 'utf8')
+        resetDefaultConfigRepository()
+
+        const result = await runCommand(Complete, ['F-002'], {}, tempDir)
+
+        assertCommandSuccess(result)
+        expect(result.stderr).to.not.include('prerequisites')
+      })
+    })
+  })
+
   describe('idempotency', () => {
     it('should succeed when completing already-completed task', async () => {
       resetTaskCounter()
@@ -255,4 +357,20 @@ describe('complete command', () => {
       })
     })
   })
+
+  describe('json output', () => {
+    it('should print the completed task as JSON', async () => {
+      resetTaskCounter()
+      const roadmap = createRoadmap({tasks: [createFeatureTask({id: 'F-001'})]})
+
+      await withTempRoadmap(roadmap, async ({tempDir}) => {
+        const result = await runCommand(Complete, ['F-001'], {json: true, tests: true}, tempDir)
+
+        assertCommandSuccess(result)
+        const output = JSON.parse(result.stdout)
+        expect(output.id).to.equal('F-001')
+        expect(output.task).to.include({'passes-tests': true, status: STATUS.Completed})
+      })
+    })
+  })
 })
@@ -0,0 +1,73 @@
+import {expect} from 'chai'
+
+import CriticalPath from '../../src/commands/critical-path.js'
+import {createRoadmap} from '../fixtures/roadmap-factory.js'
+import {createFeatureTask, resetTaskCounter} from '../fixtures/task-factory.js'
+import {assertCommandError, assertCommandSuccess, runCommand, withTempRoadmap} from '../helpers/command-runner.js'
+
+describe('critical-path command', () => {
+  beforeEach(() => {
+    resetTaskCounter()
+  })
+
+  it('should show the critical path, schedule and due date conflicts', async () => {
+    const roadmap = createRoadmap({
+      tasks: [
+        createFeatureTask({effort: 3, id: 'F-001', title: 'Design'}),
+        createFeatureTask({'depends-on': ['F-001'], dueDate: '2026-01-02', effort: 2, id: 'F-002', title: 'Build'}),
+        createFeatureTask({effort: 1, id: 'F-003', title: 'Docs'}),
+      ],
+    })
+
+    await withTempRoadmap(roadmap, async ({tempDir}) => {
+      const result = await runCommand(CriticalPath, [], {start: '2026-01-01'}, tempDir)
+
+      assertCommandSuccess(result)
+      expect(result.stdout).to.include('Critical path (total effort: 5)')
+      expect(result.stdout).to.include('[F-001] Design (effort: 3)')
+      expect(result.stdout).to.match(/F-003\s+1\s+0\s+1\s+4\s+4/)
+      expect(result.stdout).to.include('[F-002] Build: due 2026-01-02, earliest finish 2026-01-06 (4 days late)')
+    })
+  })
+
+  it('should apply --default-effort to unestimated tasks', async () => {
+    const roadmap = createRoadmap({
+      tasks: [createFeatureTask({id: 'F-001'}), createFeatureTask({'depends-on': ['F-001'], id: 'F-002'})],
+    })
+
+    await withTempRoadmap(roadmap, async ({tempDir}) => {
+      const withoutDefault = await runCommand(CriticalPath, [], {}, tempDir)
+      const withDefault = await runCommand(CriticalPath, [], {'default-effort': '2'}, tempDir)
+
+      assertCommandSuccess(withoutDefault)
+      expect(withoutDefault.stdout).to.include('No critical path')
+      assertCommandSuccess(withDefault)
+      expect(withDefault.stdout).to.include('Critical path (total effort: 4)')
+    })
+  })
+
+  it('should reject invalid flag values', async () => {
+    await withTempRoadmap(createRoadmap(), async ({tempDir}) => {
+      assertCommandError(
+        await runCommand(CriticalPath, [], {'default-effort': '-1'}, tempDir),
+        /Invalid default effort/,
+      )
+      assertCommandError(await runCommand(CriticalPath, [], {start: 'soon'}, tempDir), /Invalid start date/)
+    })
+  })
+
+  it('should fail on circular dependencies', async () => {
+    const roadmap = createRoadmap({
+      tasks: [
+        createFeatureTask({'depends-on': ['F-002'], id: 'F-001'}),
+        createFeatureTask({'depends-on': ['F-001'], id: 'F-002'}),
+      ],
+    })
+
+    await withTempRoadmap(roadmap, async ({tempDir}) => {
+      const result = await runCommand(CriticalPath, [], {}, tempDir)
+
+      assertCommandError(result, /Circular dependency/)
+    })
+  })
+})
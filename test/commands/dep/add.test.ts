@@ -0,0 +1,89 @@
+import {expect} from 'chai'
+
+import DepAdd from '../../../src/commands/dep/add.js'
+import {Roadmap} from '../../../src/util/types.js'
+import {createRoadmap} from '../../fixtures/roadmap-factory.js'
+import {createFeatureTask, resetTaskCounter} from '../../fixtures/task-factory.js'
+import {assertCommandError, assertCommandSuccess, runCommand, withTempRoadmap} from '../../helpers/command-runner.js'
+import {readTempJsonFile} from '../../helpers/fs-helpers.js'
+
+describe('dep add command', () => {
+  it('should add the dependency and mirror it in blocks', async () => {
+    resetTaskCounter()
+    const roadmap = createRoadmap({tasks: [createFeatureTask({id: 'F-001'}), createFeatureTask({id: 'F-002'})]})
+
+    await withTempRoadmap(roadmap, async ({roadmapPath, tempDir}) => {
+      const result = await runCommand(DepAdd, ['F-002', 'F-001'], {}, tempDir)
+
+      assertCommandSuccess(result)
+      expect(result.stdout).to.include('Task F-002 now depends on F-001')
+
+      const updatedRoadmap = await readTempJsonFile<Roadmap>(roadmapPath)
+      expect(updatedRoadmap.tasks[0].blocks).to.deep.equal(['F-002'])
+      expect(updatedRoadmap.tasks[1]['depends-on']).to.deep.equal(['F-001'])
+    })
+  })
+
+  it('should be idempotent', async () => {
+    resetTaskCounter()
+    const roadmap = createRoadmap({
+      tasks: [
+        createFeatureTask({blocks: ['F-002'], id: 'F-001'}),
+        createFeatureTask({'depends-on': ['F-001'], id: 'F-002'}),
+      ],
+    })
+
+    await withTempRoadmap(roadmap, async ({roadmapPath, tempDir}) => {
+      const result = await runCommand(DepAdd, ['F-002', 'F-001'], {}, tempDir)
+
+      assertCommandSuccess(result)
+
+      const updatedRoadmap = await readTempJsonFile<Roadmap>(roadmapPath)
+      expect(updatedRoadmap.tasks[0].blocks).to.deep.equal(['F-002'])
+      expect(updatedRoadmap.tasks[1]['depends-on']).to.deep.equal(['F-001'])
+    })
+  })
+
+  it('should reject a dependency that creates a cycle without writing the file', async () => {
+    resetTaskCounter()
+    const roadmap = createRoadmap({
+      tasks: [
+        createFeatureTask({blocks: ['F-002'], id: 'F-001'}),
+        createFeatureTask({'depends-on': ['F-001'], id: 'F-002'}),
+      ],
+    })
+
+    await withTempRoadmap(roadmap, async ({roadmapPath, tempDir}) => {
+      const result = await runCommand(DepAdd, ['F-001', 'F-002'], {}, tempDir)
+
+      assertCommandError(result, /Circular dependency detected/)
+      expect(result.exitCode).to.equal(4)
+
+      const unchangedRoadmap = await readTempJsonFile<Roadmap>(roadmapPath)
+      expect(unchangedRoadmap.tasks[0]['depends-on']).to.deep.equal([])
+    })
+  })
+
+  it('should reject a self-dependency', async () => {
+    resetTaskCounter()
+    const roadmap = createRoadmap({tasks: [createFeatureTask({id: 'F-001'})]})
+
+    await withTempRoadmap(roadmap, async ({tempDir}) => {
+      const result = await runCommand(DepAdd, ['F-001', 'F-001'], {}, tempDir)
+
+      assertCommandError(result, /cannot depend on itself/)
+    })
+  })
+
+  it('should fail when the dependency does not exist', async () => {
+    resetTaskCounter()
+    const roadmap = createRoadmap({tasks: [createFeatureTask({id: 'F-001'})]})
+
+    await withTempRoadmap(roadmap, async ({tempDir}) => {
+      const result = await runCommand(DepAdd, ['F-001', 'F-009'], {}, tempDir)
+
+      assertCommandError(result, /Task not found: F-009/)
+      expect(result.exitCode).to.equal(3)
+    })
+  })
+})
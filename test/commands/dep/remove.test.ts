@@ -0,0 +1,56 @@
+import {expect} from 'chai'
+
+import DepRemove from '../../../src/commands/dep/remove.js'
+import {Roadmap} from '../../../src/util/types.js'
+import {createRoadmap} from '../../fixtures/roadmap-factory.js'
+import {createFeatureTask, resetTaskCounter} from '../../fixtures/task-factory.js'
+import {assertCommandError, assertCommandSuccess, runCommand, withTempRoadmap} from '../../helpers/command-runner.js'
+import {readTempJsonFile} from '../../helpers/fs-helpers.js'
+
+describe('dep remove command', () => {
+  it('should remove the dependency from both sides', async () => {
+    resetTaskCounter()
+    const roadmap = createRoadmap({
+      tasks: [
+        createFeatureTask({blocks: ['F-002'], id: 'F-001'}),
+        createFeatureTask({'depends-on': ['F-001'], id: 'F-002'}),
+      ],
+    })
+
+    await withTempRoadmap(roadmap, async ({roadmapPath, tempDir}) => {
+      const result = await runCommand(DepRemove, ['F-002', 'F-001'], {}, tempDir)
+
+      assertCommandSuccess(result)
+      expect(result.stdout).to.include('Task F-002 no longer depends on F-001')
+
+      const updatedRoadmap = await readTempJsonFile<Roadmap>(roadmapPath)
+      expect(updatedRoadmap.tasks[0].blocks).to.deep.equal([])
+      expect(updatedRoadmap.tasks[1]['depends-on']).to.deep.equal([])
+    })
+  })
+
+  it('should remove a dangling reference to a missing task', async () => {
+    resetTaskCounter()
+    const roadmap = createRoadmap({tasks: [createFeatureTask({'depends-on': ['F-009'], id: 'F-001'})]})
+
+    await withTempRoadmap(roadmap, async ({roadmapPath, tempDir}) => {
+      const result = await runCommand(DepRemove, ['F-001', 'F-009'], {}, tempDir)
+
+      assertCommandSuccess(result)
+
+      const updatedRoadmap = await readTempJsonFile<Roadmap>(roadmapPath)
+      expect(updatedRoadmap.tasks[0]['depends-on']).to.deep.equal([])
+    })
+  })
+
+  it('should fail when the task does not exist', async () => {
+    resetTaskCounter()
+    const roadmap = createRoadmap({tasks: [createFeatureTask({id: 'F-001'})]})
+
+    await withTempRoadmap(roadmap, async ({tempDir}) => {
+      const result = await runCommand(DepRemove, ['F-009', 'F-001'], {}, tempDir)
+
+      assertCommandError(result, /Task not found: F-009/)
+    })
+  })
+})
@@ -0,0 +1,109 @@
+import {expect} from 'chai'
+import {execFileSync} from 'node:child_process'
+import {writeFileSync} from 'node:fs'
+import {join} from 'node:path'
+
+import Diff from '../../src/commands/diff.js'
+import {Roadmap, STATUS} from '../../src/util/types.js'
+import {createRoadmap} from '../fixtures/roadmap-factory.js'
+import {createFeatureTask, resetTaskCounter} from '../fixtures/task-factory.js'
+import {assertCommandError, assertCommandSuccess, runCommand, withTempRoadmap} from '../helpers/command-runner.js'
+
+function roadmapWith(status: STATUS, extra = false): Roadmap {
+  resetTaskCounter()
+  return createRoadmap({
+    tasks: [
+      createFeatureTask({createdAt: '2026-10-01T00:00:00.000Z', id: 'F-001', status, title: 'Login'}),
+      ...(extra
+        ? [createFeatureTask({createdAt: '2026-10-01T00:00:00.000Z', 'depends-on': ['F-001'], id: 'F-002'})]
+        : []),
+    ],
+  })
+}
+
+function commit(tempDir: string, roadmapPath: string, roadmap: Roadmap, message: string): void {
+  writeFileSync(roadmapPath, JSON.stringify(roadmap, null, 2))
+  for (const args of [
+    ['add', 'prt.json'],
+    ['commit', '-q', '-m', message],
+  ]) {
+    execFileSync('git', ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', ...args], {cwd: tempDir})
+  }
+}
+
+describe('diff command', () => {
+  it('should compare HEAD with the working tree by default', async () => {
+    await withTempRoadmap(roadmapWith(STATUS.NotStarted), async ({roadmapPath, tempDir}) => {
+      execFileSync('git', ['init', '-q'], {cwd: tempDir})
+      commit(tempDir, roadmapPath, roadmapWith(STATUS.NotStarted), 'initial')
+      writeFileSync(roadmapPath, JSON.stringify(roadmapWith(STATUS.InProgress, true)))
+
+      const result = await runCommand(Diff, [], {}, tempDir)
+
+      assertCommandSuccess(result)
+      expect(result.stdout).to.include('Roadmap diff: HEAD → working tree')
+      expect(result.stdout).to.include('+ F-002')
+      expect(result.stdout).to.include('F-001 Login: not-started → in-progress')
+      expect(result.stdout).to.include('+ F-002 depends on F-001')
+    })
+  })
+
+  it('should compare two git revisions as Markdown', async () => {
+    await withTempRoadmap(roadmapWith(STATUS.NotStarted), async ({roadmapPath, tempDir}) => {
+      execFileSync('git', ['init', '-q'], {cwd: tempDir})
+      commit(tempDir, roadmapPath, roadmapWith(STATUS.NotStarted), 'initial')
+      commit(tempDir, roadmapPath, roadmapWith(STATUS.Completed), 'done')
+
+      const result = await runCommand(Diff, ['HEAD~1', 'HEAD'], {format: 'markdown'}, tempDir)
+
+      assertCommandSuccess(result)
+      expect(result.stdout).to.include('## Roadmap changes (`HEAD~1` → `HEAD`)')
+      expect(result.stdout).to.include('| **F-001** Login | not-started | completed |')
+    })
+  })
+
+  it('should compare two files as JSON without git', async () => {
+    await withTempRoadmap(roadmapWith(STATUS.NotStarted), async ({tempDir}) => {
+      writeFileSync(join(tempDir, 'old.json'), JSON.stringify(roadmapWith(STATUS.NotStarted, true)))
+      writeFileSync(join(tempDir, 'new.json'), JSON.stringify(roadmapWith(STATUS.NotStarted)))
+
+      const result = await runCommand(Diff, ['old.json', 'new.json'], {json: true}, tempDir)
+
+      assertCommandSuccess(result)
+      const output = JSON.parse(result.stdout)
+      expect(output).to.include({from: 'old.json', to: 'new.json'})
+      expect(output.removed.map((task: {id: string}) => task.id)).to.deep.equal(['F-002'])
+      expect(output.dependencies.removed).to.deep.equal([{from: 'F-001', to: 'F-002'}])
+    })
+  })
+
+  it('should say when nothing changed', async () => {
+    await withTempRoadmap(roadmapWith(STATUS.NotStarted), async ({roadmapPath, tempDir}) => {
+      const result = await runCommand(Diff, [roadmapPath, roadmapPath], {}, tempDir)
+
+      assertCommandSuccess(result)
+      expect(result.stdout).to.include('No changes')
+    })
+  })
+
+  it('should fail for a file that is not a roadmap', async () => {
+    await withTempRoadmap(roadmapWith(STATUS.NotStarted), async ({roadmapPath, tempDir}) => {
+      writeFileSync(join(tempDir, 'broken.json'), '{"tasks": ')
+
+      const result = await runCommand(Diff, ['broken.json', roadmapPath], {}, tempDir)
+
+      assertCommandError(result, /broken\.json does not contain a valid roadmap/)
+    })
+  })
+
+  it('should fail for an unknown revision', async () => {
+    await withTempRoadmap(roadmapWith(STATUS.NotStarted), async ({roadmapPath, tempDir}) => {
+      execFileSync('git', ['init', '-q'], {cwd: tempDir})
+      commit(tempDir, roadmapPath, roadmapWith(STATUS.NotStarted), 'initial')
+
+      const result = await runCommand(Diff, ['no-such-branch'], {}, tempDir)
+
+      assertCommandError(result, /git show failed/)
+    })
+  })
+})
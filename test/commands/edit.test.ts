@@ -0,0 +1,330 @@
+import {expect} from 'chai'
+
+import Edit from '../../src/commands/edit.js'
+import {PRIORITY, Roadmap, STATUS} from '../../src/util/types.js'
+import {createEmptyRoadmap, createRoadmap} from '../fixtures/roadmap-factory.js'
+import {createFeatureTask, resetTaskCounter} from '../fixtures/task-factory.js'
+import {assertCommandError, assertCommandSuccess, runCommand, withTempRoadmap} from '../helpers/command-runner.js'
+import {readTempJsonFile} from '../helpers/fs-helpers.js'
+
+function createBlockedRoadmap(): Roadmap {
+  return createRoadmap({
+    tasks: [
+      createFeatureTask({blocks: ['F-002'], id: 'F-001', status: STATUS.InProgress}),
+      createFeatureTask({'depends-on': ['F-001'], id: 'F-002', status: STATUS.InProgress}),
+    ],
+  })
+}
+
+describe('edit command', () => {
+  describe('scalar fields', () => {
+    it('should update title, details, priority and status', async () => {
+      resetTaskCounter()
+      const task = createFeatureTask({id: 'F-001'})
+      const roadmap = createRoadmap({tasks: [task]})
+
+      await withTempRoadmap(roadmap, async ({roadmapPath, tempDir}) => {
+        const result = await runCommand(
+          Edit,
+          ['F-001'],
+          {details: 'New details', priority: PRIORITY.High, status: STATUS.InProgress, title: 'New title'},
+          tempDir,
+        )
+
+        assertCommandSuccess(result)
+        expect(result.stdout).to.include('Task F-001 has been updated')
+
+        const updatedTask = (await readTempJsonFile<Roadmap>(roadmapPath)).tasks[0]
+        expect(updatedTask.title).to.equal('New title')
+        expect(updatedTask.details).to.equal('New details')
+        expect(updatedTask.priority).to.equal(PRIORITY.High)
+        expect(updatedTask.status).to.equal(STATUS.InProgress)
+      })
+    })
+
+    it('should update assignee, due date and effort', async () => {
+      resetTaskCounter()
+      const roadmap = createRoadmap({tasks: [createFeatureTask({id: 'F-001'})]})
+
+      await withTempRoadmap(roadmap, async ({roadmapPath, tempDir}) => {
+        const result = await runCommand(Edit, ['F-001'], {assignee: 'alice', due: '2026-11-01', effort: '3.5'}, tempDir)
+
+        assertCommandSuccess(result)
+
+        const updatedTask = (await readTempJsonFile<Roadmap>(roadmapPath)).tasks[0]
+        expect(updatedTask.assignedTo).to.equal('alice')
+        expect(updatedTask.dueDate).to.equal('2026-11-01T00:00:00.000Z')
+        expect(updatedTask.effort).to.equal(3.5)
+      })
+    })
+
+    it('should plan the task for a milestone and clear it with --unset', async () => {
+      resetTaskCounter()
+      const roadmap = createRoadmap({
+        milestones: [{createdAt: '2026-09-01T00:00:00.000Z', id: 'v1.0', name: 'v1.0'}],
+        tasks: [createFeatureTask({id: 'F-001'})],
+      })
+
+      await withTempRoadmap(roadmap, async ({roadmapPath, tempDir}) => {
+        assertCommandSuccess(await runCommand(Edit, ['F-001'], {milestone: 'v1.0'}, tempDir))
+        expect((await readTempJsonFile<Roadmap>(roadmapPath)).tasks[0].milestone).to.equal('v1.0')
+
+        assertCommandSuccess(await runCommand(Edit, ['F-001'], {unset: 'milestone'}, tempDir))
+        expect((await readTempJsonFile<Roadmap>(roadmapPath)).tasks[0].milestone).to.be.null
+      })
+    })
+
+    it('should reject a sprint that does not exist', async () => {
+      resetTaskCounter()
+      const roadmap = createRoadmap({tasks: [createFeatureTask({id: 'F-001'})]})
+
+      await withTempRoadmap(roadmap, async ({tempDir}) => {
+        const result = await runCommand(Edit, ['F-001'], {sprint: 's1'}, tempDir)
+
+        assertCommandError(result, /Sprint not found: s1/)
+      })
+    })
+
+    it('should clear optional fields with --unset', async () => {
+      resetTaskCounter()
+      const task = createFeatureTask({assignedTo: 'bob', 'github-refs': ['#1'], id: 'F-001', notes: 'note'})
+      const roadmap = createRoadmap({tasks: [task]})
+
+      await withTempRoadmap(roadmap, async ({roadmapPath, tempDir}) => {
+        const result = await runCommand(
+          Edit,
+          ['F-001', '--unset=assignedTo', '--unset=notes', '--unset=github-refs'],
+          {},
+          tempDir,
+        )
+
+        assertCommandSuccess(result)
+
+        const updatedTask = (await readTempJsonFile<Roadmap>(roadmapPath)).tasks[0]
+        expect(updatedTask.assignedTo).to.be.null
+        expect(updatedTask.notes).to.be.null
+        expect(updatedTask['github-refs']).to.deep.equal([])
+      })
+    })
+  })
+
+  describe('list fields', () => {
+    it('should add and remove tags', async () => {
+      resetTaskCounter()
+      const task = createFeatureTask({id: 'F-001', tags: ['frontend', 'ui']})
+      const roadmap = createRoadmap({tasks: [task]})
+
+      await withTempRoadmap(roadmap, async ({roadmapPath, tempDir}) => {
+        const result = await runCommand(
+          Edit,
+          ['F-001', '--add-tag=backend', '--add-tag=api', '--remove-tag=frontend'],
+          {},
+          tempDir,
+        )
+
+        assertCommandSuccess(result)
+
+        const updatedTask = (await readTempJsonFile<Roadmap>(roadmapPath)).tasks[0]
+        expect(updatedTask.tags).to.deep.equal(['ui', 'backend', 'api'])
+      })
+    })
+
+    it('should replace tags with --tags', async () => {
+      resetTaskCounter()
+      const roadmap = createRoadmap({tasks: [createFeatureTask({id: 'F-001', tags: ['old']})]})
+
+      await withTempRoadmap(roadmap, async ({roadmapPath, tempDir}) => {
+        await runCommand(Edit, ['F-001'], {tags: 'a, b'}, tempDir)
+
+        const updatedTask = (await readTempJsonFile<Roadmap>(roadmapPath)).tasks[0]
+        expect(updatedTask.tags).to.deep.equal(['a', 'b'])
+      })
+    })
+
+    it('should add and remove github refs', async () => {
+      resetTaskCounter()
+      const roadmap = createRoadmap({tasks: [createFeatureTask({'github-refs': ['#1', '#2'], id: 'F-001'})]})
+
+      await withTempRoadmap(roadmap, async ({roadmapPath, tempDir}) => {
+        await runCommand(Edit, ['F-001', '--add-ref=#3', '--remove-ref=#1'], {}, tempDir)
+
+        const updatedTask = (await readTempJsonFile<Roadmap>(roadmapPath)).tasks[0]
+        expect(updatedTask['github-refs']).to.deep.equal(['#2', '#3'])
+      })
+    })
+  })
+
+  describe('dependencies', () => {
+    it('should mirror --add-block in the blocked task', async () => {
+      resetTaskCounter()
+      const roadmap = createRoadmap({tasks: [createFeatureTask({id: 'F-001'}), createFeatureTask({id: 'F-002'})]})
+
+      await withTempRoadmap(roadmap, async ({roadmapPath, tempDir}) => {
+        const result = await runCommand(Edit, ['F-001', '--add-block=F-002'], {}, tempDir)
+
+        assertCommandSuccess(result)
+
+        const [blocker, blocked] = (await readTempJsonFile<Roadmap>(roadmapPath)).tasks
+        expect(blocker.blocks).to.deep.equal(['F-002'])
+        expect(blocked['depends-on']).to.deep.equal(['F-001'])
+      })
+    })
+
+    it('should refuse --add-dep that would create a cycle and leave the file unchanged', async () => {
+      await withTempRoadmap(createBlockedRoadmap(), async ({roadmapPath, tempDir}) => {
+        const result = await runCommand(Edit, ['F-001', '--add-dep=F-002'], {}, tempDir)
+
+        assertCommandError(result, /Circular dependency detected/)
+        expect(result.exitCode).to.equal(4)
+        expect((await readTempJsonFile<Roadmap>(roadmapPath)).tasks[0]['depends-on']).to.deep.equal([])
+      })
+    })
+  })
+
+  describe('parent', () => {
+    it('should move a subtask to another parent and detach it with --unset', async () => {
+      const roadmap = createRoadmap({
+        tasks: [
+          createFeatureTask({id: 'F-001'}),
+          createFeatureTask({id: 'F-002'}),
+          createFeatureTask({id: 'F-003', parent: 'F-001'}),
+        ],
+      })
+
+      await withTempRoadmap(roadmap, async ({roadmapPath, tempDir}) => {
+        assertCommandSuccess(await runCommand(Edit, ['F-003'], {parent: 'F-002'}, tempDir))
+        expect((await readTempJsonFile<Roadmap>(roadmapPath)).tasks[2].parent).to.equal('F-002')
+
+        assertCommandSuccess(await runCommand(Edit, ['F-003', '--unset=parent'], {}, tempDir))
+        expect((await readTempJsonFile<Roadmap>(roadmapPath)).tasks[2].parent).to.be.null
+      })
+    })
+
+    it('should refuse a parent that would create a parent cycle', async () => {
+      const roadmap = createRoadmap({
+        tasks: [createFeatureTask({id: 'F-001'}), createFeatureTask({id: 'F-002', parent: 'F-001'})],
+      })
+
+      await withTempRoadmap(roadmap, async ({roadmapPath, tempDir}) => {
+        const result = await runCommand(Edit, ['F-001'], {parent: 'F-002'}, tempDir)
+
+        assertCommandError(result, /cannot be a subtask of F-002/)
+        expect((await readTempJsonFile<Roadmap>(roadmapPath)).tasks[0].parent).to.be.undefined
+      })
+    })
+  })
+
+  describe('type changes', () => {
+    it('should apply field edits and then reassign the ID', async () => {
+      resetTaskCounter()
+      const roadmap = createRoadmap({tasks: [createFeatureTask({id: 'F-001'})]})
+
+      await withTempRoadmap(roadmap, async ({roadmapPath, tempDir}) => {
+        const result = await runCommand(Edit, ['F-001'], {title: 'Now a bug', type: 'bug'}, tempDir)
+
+        assertCommandSuccess(result)
+        expect(result.stdout).to.include('Task F-001 has new ID B-001')
+
+        const updatedTask = (await readTempJsonFile<Roadmap>(roadmapPath)).tasks[0]
+        expect(updatedTask.id).to.equal('B-001')
+        expect(updatedTask.title).to.equal('Now a bug')
+      })
+    })
+  })
+
+  describe('dependency guard', () => {
+    it('should refuse --status=completed while dependencies are unfinished', async () => {
+      await withTempRoadmap(createBlockedRoadmap(), async ({roadmapPath, tempDir}) => {
+        const result = await runCommand(Edit, ['F-002'], {status: STATUS.Completed}, tempDir)
+
+        assertCommandError(result, /Cannot complete task F-002: unfinished prerequisites F-001 \(in-progress\)/)
+        expect(result.exitCode).to.equal(5)
+        const updatedRoadmap = await readTempJsonFile<Roadmap>(roadmapPath)
+        expect(updatedRoadmap.tasks[1].status).to.equal(STATUS.InProgress)
+      })
+    })
+
+    it('should complete the task with a warning when --force is given', async () => {
+      await withTempRoadmap(createBlockedRoadmap(), async ({roadmapPath, tempDir}) => {
+        const result = await runCommand(Edit, ['F-002'], {force: true, status: STATUS.Completed}, tempDir)
+
+        assertCommandSuccess(result)
+        expect(result.stderr).to.include('Completing F-002 before its prerequisites: F-001 (in-progress)')
+        const updatedRoadmap = await readTempJsonFile<Roadmap>(roadmapPath)
+        expect(updatedRoadmap.tasks[1].status).to.equal(STATUS.Completed)
+      })
+    })
+  })
+
+  describe('error handling', () => {
+    it('should fail when no changes are given', async () => {
+      resetTaskCounter()
+      const roadmap = createRoadmap({tasks: [createFeatureTask({id: 'F-001'})]})
+
+      await withTempRoadmap(roadmap, async ({tempDir}) => {
+        const result = await runCommand(Edit, ['F-001'], {}, tempDir)
+
+        assertCommandError(result, /No changes specified/)
+      })
+    })
+
+    it('should reject an invalid due date', async () => {
+      resetTaskCounter()
+      const roadmap = createRoadmap({tasks: [createFeatureTask({id: 'F-001'})]})
+
+      await withTempRoadmap(roadmap, async ({tempDir}) => {
+        const result = await runCommand(Edit, ['F-001'], {due: 'someday'}, tempDir)
+
+        assertCommandError(result, /Invalid due date: someday/)
+      })
+    })
+
+    it('should reject a negative effort', async () => {
+      resetTaskCounter()
+      const roadmap = createRoadmap({tasks: [createFeatureTask({id: 'F-001'})]})
+
+      await withTempRoadmap(roadmap, async ({tempDir}) => {
+        const result = await runCommand(Edit, ['F-001'], {effort: '-2'}, tempDir)
+
+        assertCommandError(result, /Invalid effort: -2/)
+      })
+    })
+
+    it('should reject empty details through validateTask', async () => {
+      resetTaskCounter()
+      const roadmap = createRoadmap({tasks: [createFeatureTask({id: 'F-001'})]})
+
+      await withTempRoadmap(roadmap, async ({roadmapPath, tempDir}) => {
+        const result = await runCommand(Edit, ['F-001', '--details='], {}, tempDir)
+
+        assertCommandError(result, /must have details/)
+        expect(result.exitCode).to.equal(2)
+
+        const unchangedTask = (await readTempJsonFile<Roadmap>(roadmapPath)).tasks[0]
+        expect(unchangedTask.details).to.not.equal('')
+      })
+    })
+
+    it('should reject invalid dependency IDs', async () => {
+      resetTaskCounter()
+      const roadmap = createRoadmap({tasks: [createFeatureTask({id: 'F-001'})]})
+
+      await withTempRoadmap(roadmap, async ({tempDir}) => {
+        const result = await runCommand(Edit, ['F-001', '--add-dep=nope'], {}, tempDir)
+
+        assertCommandError(result, /Invalid task ID in dependencies: nope/)
+      })
+    })
+
+    it('should fail when task not found', async () => {
+      const roadmap = createEmptyRoadmap()
+
+      await withTempRoadmap(roadmap, async ({tempDir}) => {
+        const result = await runCommand(Edit, ['F-999'], {title: 'x'}, tempDir)
+
+        assertCommandError(result, /Task not found: F-999/i)
+        expect(result.exitCode).to.equal(3)
+      })
+    })
+  })
+})
@@ -0,0 +1,85 @@
+import {expect} from 'chai'
+
+import Graph from '../../src/commands/graph.js'
+import {STATUS} from '../../src/util/types.js'
+import {createRoadmap} from '../fixtures/roadmap-factory.js'
+import {createFeatureTask, resetTaskCounter} from '../fixtures/task-factory.js'
+import {assertCommandError, assertCommandSuccess, runCommand, withTempRoadmap} from '../helpers/command-runner.js'
+
+const buildRoadmap = () =>
+  createRoadmap({
+    tasks: [
+      createFeatureTask({blocks: ['F-002'], id: 'F-001', status: STATUS.Completed}),
+      createFeatureTask({blocks: ['F-003'], 'depends-on': ['F-001'], id: 'F-002'}),
+      createFeatureTask({'depends-on': ['F-002'], id: 'F-003'}),
+      createFeatureTask({id: 'F-004'}),
+    ],
+  })
+
+describe('graph command', () => {
+  beforeEach(() => {
+    resetTaskCounter()
+  })
+
+  it('should render an ASCII tree by default', async () => {
+    await withTempRoadmap(buildRoadmap(), async ({tempDir}) => {
+      const result = await runCommand(Graph, [], {}, tempDir)
+
+      assertCommandSuccess(result)
+      expect(result.stdout).to.include('✓ [M] [F-001]')
+      expect(result.stdout).to.include('└── ○ [M] [F-002]')
+    })
+  })
+
+  it('should render Graphviz DOT', async () => {
+    await withTempRoadmap(buildRoadmap(), async ({tempDir}) => {
+      const result = await runCommand(Graph, [], {format: 'dot'}, tempDir)
+
+      assertCommandSuccess(result)
+      expect(result.stdout).to.include('digraph roadmap {')
+      expect(result.stdout).to.include('"F-001" -> "F-002";')
+    })
+  })
+
+  it('should render a Mermaid flowchart', async () => {
+    await withTempRoadmap(buildRoadmap(), async ({tempDir}) => {
+      const result = await runCommand(Graph, [], {format: 'mermaid'}, tempDir)
+
+      assertCommandSuccess(result)
+      expect(result.stdout).to.include('flowchart LR')
+      expect(result.stdout).to.include('F_002 --> F_003')
+    })
+  })
+
+  it('should focus on a task and hide completed tasks', async () => {
+    await withTempRoadmap(buildRoadmap(), async ({tempDir}) => {
+      const result = await runCommand(
+        Graph,
+        [],
+        {direction: 'upstream', focus: 'F-003', format: 'dot', 'hide-completed': true},
+        tempDir,
+      )
+
+      assertCommandSuccess(result)
+      expect(result.stdout).to.include('"F-002" -> "F-003";')
+      expect(result.stdout).to.not.include('"F-001"')
+      expect(result.stdout).to.not.include('"F-004"')
+    })
+  })
+
+  it('should fail when the focus task does not exist', async () => {
+    await withTempRoadmap(buildRoadmap(), async ({tempDir}) => {
+      const result = await runCommand(Graph, [], {focus: 'F-099'}, tempDir)
+
+      assertCommandError(result, /Task not found: F-099/)
+    })
+  })
+
+  it('should reject an invalid focus task ID', async () => {
+    await withTempRoadmap(buildRoadmap(), async ({tempDir}) => {
+      const result = await runCommand(Graph, [], {focus: 'nope'}, tempDir)
+
+      assertCommandError(result, /Invalid task ID for --focus/)
+    })
+  })
+})
@@ -0,0 +1,126 @@
+import {expect} from 'chai'
+import {execFileSync} from 'node:child_process'
+import {writeFileSync} from 'node:fs'
+
+import HistoryStats from '../../../src/commands/history/stats.js'
+import {Roadmap, STATUS} from '../../../src/util/types.js'
+import {createRoadmap} from '../../fixtures/roadmap-factory.js'
+import {createBugTask, createFeatureTask, resetTaskCounter} from '../../fixtures/task-factory.js'
+import {assertCommandError, assertCommandSuccess, runCommand, withTempRoadmap} from '../../helpers/command-runner.js'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function git(tempDir: string, args: string[], date?: Date): void {
+  const env = date
+    ? {...process.env, GIT_AUTHOR_DATE: date.toISOString(), GIT_COMMITTER_DATE: date.toISOString()}
+    : process.env
+  execFileSync('git', ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', ...args], {cwd: tempDir, env})
+}
+
+function commitRoadmap(tempDir: string, roadmapPath: string, roadmap: Roadmap, daysAgo: number): void {
+  writeFileSync(roadmapPath, JSON.stringify(roadmap, null, 2))
+  git(tempDir, ['add', 'prt.json'])
+  git(tempDir, ['commit', '-q', '-m', `${daysAgo} days ago`], new Date(Date.now() - daysAgo * DAY_MS))
+}
+
+function sprintOf(statuses: STATUS[]): Roadmap {
+  resetTaskCounter()
+  return createRoadmap({
+    tasks: [
+      createFeatureTask({effort: 3, id: 'F-001', status: statuses[0]}),
+      createFeatureTask({effort: 2, id: 'F-002', status: statuses[1]}),
+      createBugTask({effort: 1, id: 'B-001', status: statuses[2]}),
+    ],
+  })
+}
+
+async function withHistory(callback: (tempDir: string) => Promise<void>): Promise<void> {
+  const {Completed, InProgress, NotStarted} = STATUS
+  await withTempRoadmap(sprintOf([NotStarted, NotStarted, NotStarted]), async ({roadmapPath, tempDir}) => {
+    git(tempDir, ['init', '-q'])
+    commitRoadmap(tempDir, roadmapPath, sprintOf([NotStarted, NotStarted, NotStarted]), 3)
+    commitRoadmap(tempDir, roadmapPath, sprintOf([InProgress, NotStarted, InProgress]), 2)
+    commitRoadmap(tempDir, roadmapPath, sprintOf([Completed, NotStarted, Completed]), 1)
+    await callback(tempDir)
+  })
+}
+
+describe('history stats command', () => {
+  it('should chart burndown from the committed versions of the roadmap', async () => {
+    await withHistory(async (tempDir) => {
+      const result = await runCommand(HistoryStats, [], {metric: 'burndown'}, tempDir)
+
+      assertCommandSuccess(result)
+      const lines = result.stdout.trim().split('\n')
+      expect(lines[0]).to.equal('Burndown')
+      expect(lines.slice(2).map((line) => line.split(' ').at(-1))).to.deep.equal(['3', '3', '1', '1'])
+      expect(result.stdout).to.not.include('Throughput')
+    })
+  })
+
+  it('should measure burndown and burnup in effort', async () => {
+    await withHistory(async (tempDir) => {
+      const result = await runCommand(HistoryStats, [], {effort: true, format: 'csv', metric: 'burnup'}, tempDir)
+
+      assertCommandSuccess(result)
+      const rows = result.stdout.trim().split('\n')
+      expect(rows[0]).to.equal('date,completed,total')
+      expect(rows.slice(1).map((row) => row.split(',').slice(1).join(','))).to.deep.equal(['0,6', '0,6', '4,6', '4,6'])
+    })
+  })
+
+  it('should report cycle time per type as CSV', async () => {
+    await withHistory(async (tempDir) => {
+      const result = await runCommand(HistoryStats, [], {format: 'csv', metric: 'cycle-time'}, tempDir)
+
+      assertCommandSuccess(result)
+      expect(result.stdout.trim().split('\n')).to.deep.equal([
+        'type,tasks,average_days,median_days,max_days',
+        'bug,1,1,1,1',
+        'feature,1,1,1,1',
+      ])
+    })
+  })
+
+  it('should output the statistics as JSON', async () => {
+    await withHistory(async (tempDir) => {
+      const result = await runCommand(HistoryStats, [], {json: true}, tempDir)
+
+      assertCommandSuccess(result)
+      const output = JSON.parse(result.stdout)
+      expect(output.daily).to.have.lengthOf(4)
+      expect(output.throughput.reduce((sum: number, period: {total: number}) => sum + period.total, 0)).to.equal(2)
+      expect(output.cycleTime).to.have.lengthOf(2)
+    })
+  })
+
+  it('should only use commits since the given date', async () => {
+    await withHistory(async (tempDir) => {
+      const since = new Date(Date.now() - 1.5 * DAY_MS).toISOString()
+      const result = await runCommand(HistoryStats, [], {json: true, since}, tempDir)
+
+      assertCommandSuccess(result)
+      expect(JSON.parse(result.stdout).daily).to.have.lengthOf(2)
+    })
+  })
+
+  it('should fail when the roadmap has never been committed', async () => {
+    await withTempRoadmap(sprintOf([STATUS.NotStarted, STATUS.NotStarted, STATUS.NotStarted]), async ({tempDir}) => {
+      git(tempDir, ['init', '-q'])
+      git(tempDir, ['add', '.prtrc.json'])
+      git(tempDir, ['commit', '-q', '-m', 'config only'])
+
+      const result = await runCommand(HistoryStats, [], {}, tempDir)
+
+      assertCommandError(result, /No committed versions of .*prt\.json found in git history/)
+    })
+  })
+
+  it('should fail outside a git repository', async () => {
+    await withTempRoadmap(sprintOf([STATUS.NotStarted, STATUS.NotStarted, STATUS.NotStarted]), async ({tempDir}) => {
+      const result = await runCommand(HistoryStats, [], {}, tempDir)
+
+      assertCommandError(result, /git log failed/)
+    })
+  })
+})
@@ -257,7 +257,7 @@ describe('init', () => {
 
       expect(config).to.have.property('$schema')
       expect(config.$schema).to.equal(
-        'https://raw.githubusercontent.com/ZacharyEggert/project-roadmap-tracking/refs/heads/master/schemas/config/v1.1.json',
+        'https://raw.githubusercontent.com/ZacharyEggert/project-roadmap-tracking/refs/heads/master/schemas/config/v1.2.json',
       )
       expect(config).to.have.property('metadata')
       expect(config.metadata).to.have.property('name')
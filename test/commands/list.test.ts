@@ -1,10 +1,19 @@
 import {expect} from 'chai'
+import {writeFile} from 'node:fs/promises'
 
 import List from '../../src/commands/list.js'
-import {PRIORITY, STATUS, TASK_TYPE} from '../../src/util/types.js'
+import {resetDefaultConfigRepository} from '../../src/repositories/config.repository.js'
+import {Config, PRIORITY, STATUS, TASK_TYPE} from '../../src/util/types.js'
 import {createEmptyRoadmap, createRoadmap} from '../fixtures/roadmap-factory.js'
 import {createBugTask, createFeatureTask, createPlanningTask, resetTaskCounter} from '../fixtures/task-factory.js'
 import {assertCommandError, assertCommandSuccess, runCommand, withTempRoadmap} from '../helpers/command-runner.js'
+import {readTempJsonFile} from '../helpers/fs-helpers.js'
+
+async function saveViews(configPath: string, views: Config['views']): Promise<void> {
+  const config = await readTempJsonFile<Config>(configPath)
+  await writeFile(configPath, JSON.stringify({...config, views}, null, 2), 'utf8')
+  resetDefaultConfigRepository()
+}
 
 describe('list command', () => {
   describe('basic functionality', () => {
@@ -578,4 +587,379 @@ describe('list command', () => {
       })
     })
   })
+
+  describe('json output', () => {
+    it('should print the filtered tasks as a JSON array', async () => {
+      resetTaskCounter()
+      const roadmap = createRoadmap({
+        tasks: [
+          createFeatureTask({id: 'F-001', status: STATUS.Completed}),
+          createFeatureTask({'github-refs': [], id: 'F-002', status: STATUS.InProgress}),
+        ],
+      })
+
+      await withTempRoadmap(roadmap, async ({tempDir}) => {
+        const result = await runCommand(List, [], {incomplete: true, json: true}, tempDir)
+
+        assertCommandSuccess(result)
+        const tasks = JSON.parse(result.stdout)
+        expect(tasks).to.deep.equal([roadmap.tasks[1]])
+      })
+    })
+
+    it('should print an empty array for an empty roadmap', async () => {
+      await withTempRoadmap(createEmptyRoadmap(), async ({tempDir}) => {
+        const result = await runCommand(List, [], {json: true}, tempDir)
+
+        assertCommandSuccess(result)
+        expect(JSON.parse(result.stdout)).to.deep.equal([])
+      })
+    })
+  })
+
+  describe('compact and table formats', () => {
+    it('should print one line per task with --format=compact', async () => {
+      resetTaskCounter()
+      const roadmap = createRoadmap({
+        tasks: [
+          createFeatureTask({assignedTo: 'alice', id: 'F-001', priority: PRIORITY.High, title: 'Login'}),
+          createBugTask({id: 'B-001', priority: PRIORITY.Low, status: STATUS.Completed, title: 'Crash'}),
+        ],
+      })
+
+      await withTempRoadmap(roadmap, async ({tempDir}) => {
+        const result = await runCommand(List, [], {format: 'compact'}, tempDir)
+
+        assertCommandSuccess(result)
+        expect(result.stdout.trimEnd().split('\n')).to.deep.equal([
+          '○ [H] [F-001] Login (alice)',
+          '✓ [L] [B-001] Crash',
+        ])
+      })
+    })
+
+    it('should print the selected columns with --format=table', async () => {
+      resetTaskCounter()
+      const roadmap = createRoadmap({
+        tasks: [
+          createFeatureTask({assignedTo: 'alice', dueDate: '2026-11-01T00:00:00.000Z', id: 'F-001', title: 'Login'}),
+          createBugTask({id: 'B-001', status: STATUS.InProgress, title: 'Crash'}),
+        ],
+      })
+
+      await withTempRoadmap(roadmap, async ({tempDir}) => {
+        const result = await runCommand(List, [], {columns: 'id,title,status,assignee,due', format: 'table'}, tempDir)
+
+        assertCommandSuccess(result)
+        expect(result.stdout.trimEnd().split('\n')).to.deep.equal([
+          'ID     TITLE  STATUS       ASSIGNEE  DUE',
+          'F-001  Login  not-started  alice     2026-11-01',
+          'B-001  Crash  in-progress',
+        ])
+      })
+    })
+
+    it('should apply filters before formatting the table', async () => {
+      resetTaskCounter()
+      const roadmap = createRoadmap({
+        tasks: [
+          createFeatureTask({id: 'F-001', status: STATUS.Completed}),
+          createFeatureTask({id: 'F-002', status: STATUS.NotStarted}),
+        ],
+      })
+
+      await withTempRoadmap(roadmap, async ({tempDir}) => {
+        const result = await runCommand(List, [], {columns: 'id', format: 'table', incomplete: true}, tempDir)
+
+        assertCommandSuccess(result)
+        expect(result.stdout.trimEnd().split('\n')).to.deep.equal(['ID', 'F-002'])
+      })
+    })
+
+    it('should reject unknown columns', async () => {
+      await withTempRoadmap(createEmptyRoadmap(), async ({tempDir}) => {
+        const result = await runCommand(List, [], {columns: 'id,owner', format: 'table'}, tempDir)
+
+        assertCommandError(result, /Invalid column: owner/)
+      })
+    })
+
+    it('should reject --columns without --format=table', async () => {
+      await withTempRoadmap(createEmptyRoadmap(), async ({tempDir}) => {
+        const result = await runCommand(List, [], {columns: 'id'}, tempDir)
+
+        assertCommandError(result, /--columns can only be used with --format=table/)
+      })
+    })
+
+    it('should indent subtasks under their parent with --tree', async () => {
+      resetTaskCounter()
+      const roadmap = createRoadmap({
+        tasks: [
+          createFeatureTask({id: 'F-010', title: 'Checkout'}),
+          createBugTask({id: 'B-001', title: 'Crash'}),
+          createFeatureTask({id: 'F-011', parent: 'F-010', title: 'Payment form'}),
+        ],
+      })
+
+      await withTempRoadmap(roadmap, async ({tempDir}) => {
+        const result = await runCommand(List, [], {format: 'compact', tree: true}, tempDir)
+
+        assertCommandSuccess(result)
+        expect(result.stdout.trimEnd().split('\n')).to.deep.equal([
+          '○ [M] [F-010] Checkout',
+          '  ○ [M] [F-011] Payment form',
+          '○ [H] [B-001] Crash',
+        ])
+      })
+    })
+  })
+
+  describe('query flags', () => {
+    it('should filter by several types and priorities', async () => {
+      resetTaskCounter()
+      const roadmap = createRoadmap({
+        tasks: [
+          createFeatureTask({id: 'F-001', priority: PRIORITY.High}),
+          createBugTask({id: 'B-001', priority: PRIORITY.Low}),
+          createBugTask({id: 'B-002', priority: PRIORITY.Medium}),
+          createPlanningTask({id: 'P-001', priority: PRIORITY.High}),
+        ],
+      })
+
+      await withTempRoadmap(roadmap, async ({tempDir}) => {
+        const result = await runCommand(List, [], {format: 'compact', priority: 'h,l', type: 'feature,bug'}, tempDir)
+
+        assertCommandSuccess(result)
+        expect(result.stdout).to.include('F-001')
+        expect(result.stdout).to.include('B-001')
+        expect(result.stdout).to.not.include('B-002')
+        expect(result.stdout).to.not.include('P-001')
+      })
+    })
+
+    it('should filter by tag, assignee and search text', async () => {
+      resetTaskCounter()
+      const roadmap = createRoadmap({
+        tasks: [
+          createFeatureTask({assignedTo: 'alice', id: 'F-001', tags: ['auth', 'api'], title: 'Login endpoint'}),
+          createFeatureTask({assignedTo: 'alice', id: 'F-002', tags: ['auth'], title: 'Login page'}),
+          createFeatureTask({assignedTo: 'bob', id: 'F-003', tags: ['auth', 'api'], title: 'Login rate limit'}),
+          createFeatureTask({assignedTo: 'alice', id: 'F-004', tags: ['auth', 'api'], title: 'Logout'}),
+        ],
+      })
+
+      await withTempRoadmap(roadmap, async ({tempDir}) => {
+        const result = await runCommand(
+          List,
+          [],
+          {assignee: 'alice', format: 'compact', search: 'login', tag: 'auth,api'},
+          tempDir,
+        )
+
+        assertCommandSuccess(result)
+        expect(result.stdout.trimEnd().split('\n')).to.have.lengthOf(1)
+        expect(result.stdout).to.include('F-001')
+      })
+    })
+
+    it('should filter by whether tasks have dependencies', async () => {
+      resetTaskCounter()
+      const roadmap = createRoadmap({
+        tasks: [createFeatureTask({'depends-on': ['F-002'], id: 'F-001'}), createFeatureTask({id: 'F-002'})],
+      })
+
+      await withTempRoadmap(roadmap, async ({tempDir}) => {
+        const withDeps = await runCommand(List, [], {format: 'compact', 'has-deps': true}, tempDir)
+        const withoutDeps = await runCommand(List, [], {format: 'compact', 'no-has-deps': true}, tempDir)
+
+        assertCommandSuccess(withDeps)
+        assertCommandSuccess(withoutDeps)
+        expect(withDeps.stdout.trim()).to.include('F-001').and.not.include('F-002')
+        expect(withoutDeps.stdout.trim()).to.include('F-002').and.not.include('F-001')
+      })
+    })
+
+    it('should sort by secondary keys with per-key order', async () => {
+      resetTaskCounter()
+      const roadmap = createRoadmap({
+        tasks: [
+          createFeatureTask({id: 'F-001', priority: PRIORITY.Low, title: 'a'}),
+          createFeatureTask({id: 'F-002', priority: PRIORITY.High, title: 'b'}),
+          createFeatureTask({id: 'F-003', priority: PRIORITY.High, title: 'a'}),
+        ],
+      })
+
+      await withTempRoadmap(roadmap, async ({tempDir}) => {
+        const result = await runCommand(
+          List,
+          [],
+          {columns: 'id', format: 'table', sort: 'priority:desc,title'},
+          tempDir,
+        )
+
+        assertCommandSuccess(result)
+        expect(result.stdout.trimEnd().split('\n')).to.deep.equal(['ID', 'F-003', 'F-002', 'F-001'])
+      })
+    })
+
+    it('should sort in descending order with --desc', async () => {
+      resetTaskCounter()
+      const roadmap = createRoadmap({
+        tasks: [
+          createFeatureTask({effort: 1, id: 'F-001'}),
+          createFeatureTask({effort: 5, id: 'F-002'}),
+          createFeatureTask({effort: 3, id: 'F-003'}),
+        ],
+      })
+
+      await withTempRoadmap(roadmap, async ({tempDir}) => {
+        const result = await runCommand(List, [], {columns: 'id', desc: true, format: 'table', sort: 'effort'}, tempDir)
+
+        assertCommandSuccess(result)
+        expect(result.stdout.trimEnd().split('\n')).to.deep.equal(['ID', 'F-002', 'F-003', 'F-001'])
+      })
+    })
+
+    it('should reject an unknown sort field', async () => {
+      await withTempRoadmap(createEmptyRoadmap(), async ({tempDir}) => {
+        const result = await runCommand(List, [], {sort: 'owner'}, tempDir)
+
+        assertCommandError(result, /Invalid sort field: owner/)
+      })
+    })
+
+    it('should reject an unknown sort order', async () => {
+      await withTempRoadmap(createEmptyRoadmap(), async ({tempDir}) => {
+        const result = await runCommand(List, [], {sort: 'title:up'}, tempDir)
+
+        assertCommandError(result, /Invalid sort key: title:up/)
+      })
+    })
+  })
+
+  describe('where expressions', () => {
+    it('should filter tasks with a --where expression', async () => {
+      resetTaskCounter()
+      const roadmap = createRoadmap({
+        tasks: [
+          createBugTask({id: 'B-001', priority: PRIORITY.High}),
+          createBugTask({id: 'B-002', status: STATUS.Completed}),
+          createFeatureTask({id: 'F-001', tags: ['security']}),
+          createFeatureTask({id: 'F-002'}),
+        ],
+      })
+
+      await withTempRoadmap(roadmap, async ({tempDir}) => {
+        const result = await runCommand(
+          List,
+          [],
+          {columns: 'id', format: 'table', where: 'status != completed and (type = bug or tag:security)'},
+          tempDir,
+        )
+
+        assertCommandSuccess(result)
+        expect(result.stdout.trimEnd().split('\n')).to.deep.equal(['ID', 'B-001', 'F-001'])
+      })
+    })
+
+    it('should combine --where with the other filters', async () => {
+      resetTaskCounter()
+      const roadmap = createRoadmap({
+        tasks: [
+          createBugTask({id: 'B-001', priority: PRIORITY.High}),
+          createFeatureTask({id: 'F-001', priority: PRIORITY.High}),
+        ],
+      })
+
+      await withTempRoadmap(roadmap, async ({tempDir}) => {
+        const result = await runCommand(
+          List,
+          [],
+          {columns: 'id', format: 'table', type: 'feature', where: 'priority = high'},
+          tempDir,
+        )
+
+        assertCommandSuccess(result)
+        expect(result.stdout.trimEnd().split('\n')).to.deep.equal(['ID', 'F-001'])
+      })
+    })
+
+    it('should report the failing column of an invalid expression with exit code 2', async () => {
+      await withTempRoadmap(createEmptyRoadmap(), async ({tempDir}) => {
+        const result = await runCommand(List, [], {where: 'type = bug and priority = urgent'}, tempDir)
+
+        assertCommandError(result, /Invalid filter expression at column 27: invalid priority "urgent"/)
+        expect(result.exitCode).to.equal(2)
+      })
+    })
+
+    it('should report an invalid expression as a JSON error with --json', async () => {
+      await withTempRoadmap(createEmptyRoadmap(), async ({tempDir}) => {
+        const result = await runCommand(List, [], {json: true, where: 'owner = alice'}, tempDir)
+
+        expect(result.exitCode).to.equal(2)
+        const {error} = JSON.parse(result.stdout)
+        expect(error.code).to.equal('PRT_QUERY_INVALID')
+        expect(error.context).to.include({column: 1, expression: 'owner = alice'})
+      })
+    })
+  })
+
+  describe('saved views', () => {
+    const roadmap = createRoadmap({
+      tasks: [
+        createBugTask({assignedTo: 'alice', id: 'B-001', status: STATUS.NotStarted}),
+        createFeatureTask({assignedTo: 'bob', id: 'F-001', status: STATUS.InProgress}),
+        createFeatureTask({assignedTo: 'alice', id: 'F-002', status: STATUS.Completed}),
+        createFeatureTask({assignedTo: 'alice', id: 'F-003', status: STATUS.InProgress}),
+      ],
+    })
+
+    it('should apply a saved view', async () => {
+      await withTempRoadmap(roadmap, async ({configPath, tempDir}) => {
+        await saveViews(configPath!, {
+          standup: {assignee: 'alice', columns: ['id'], format: 'table', incomplete: true, sort: ['status']},
+        })
+
+        const result = await runCommand(List, [], {view: 'standup'}, tempDir)
+
+        assertCommandSuccess(result)
+        expect(result.stdout.trimEnd().split('\n')).to.deep.equal(['ID', 'B-001', 'F-003'])
+      })
+    })
+
+    it('should let command line flags override the saved view', async () => {
+      await withTempRoadmap(roadmap, async ({configPath, tempDir}) => {
+        await saveViews(configPath!, {standup: {assignee: 'alice', columns: ['id'], format: 'table', incomplete: true}})
+
+        const result = await runCommand(List, [], {assignee: 'bob', view: 'standup'}, tempDir)
+
+        assertCommandSuccess(result)
+        expect(result.stdout.trimEnd().split('\n')).to.deep.equal(['ID', 'F-001'])
+      })
+    })
+
+    it('should drop saved columns when --format switches away from table', async () => {
+      await withTempRoadmap(roadmap, async ({configPath, tempDir}) => {
+        await saveViews(configPath!, {standup: {assignee: 'bob', columns: ['id'], format: 'table'}})
+
+        const result = await runCommand(List, [], {format: 'compact', view: 'standup'}, tempDir)
+
+        assertCommandSuccess(result)
+        expect(result.stdout).to.include('[F-001]')
+        expect(result.stdout).to.not.include('B-001')
+      })
+    })
+
+    it('should fail with exit code 3 for an unknown view', async () => {
+      await withTempRoadmap(roadmap, async ({tempDir}) => {
+        resetDefaultConfigRepository()
+        const result = await runCommand(List, [], {view: 'standup'}, tempDir)
+
+        assertCommandError(result, /View not found: standup/)
+        expect(result.exitCode).to.equal(3)
+      })
+    })
+  })
 })
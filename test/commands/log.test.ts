@@ -0,0 +1,66 @@
+import {expect} from 'chai'
+import {readFile, writeFile} from 'node:fs/promises'
+
+import Complete from '../../src/commands/complete.js'
+import DepAdd from '../../src/commands/dep/add.js'
+import Log from '../../src/commands/log.js'
+import Undo from '../../src/commands/undo.js'
+import {createRoadmap} from '../fixtures/roadmap-factory.js'
+import {createFeatureTask} from '../fixtures/task-factory.js'
+import {assertCommandSuccess, runCommand, withTempRoadmap} from '../helpers/command-runner.js'
+
+function roadmap() {
+  return createRoadmap({tasks: [createFeatureTask({id: 'F-001'}), createFeatureTask({id: 'F-002'})]})
+}
+
+describe('log command', () => {
+  it('should list recorded changes newest first, then undone ones', async () => {
+    process.env.PRT_USER = 'alice'
+    try {
+      await withTempRoadmap(roadmap(), async ({tempDir}) => {
+        await runCommand(DepAdd, ['F-002', 'F-001'], {}, tempDir)
+        await runCommand(Complete, ['F-001'], {}, tempDir)
+        await runCommand(Undo, [], {}, tempDir)
+
+        const result = await runCommand(Log, [], {}, tempDir)
+
+        assertCommandSuccess(result)
+        const lines = result.stdout.trim().split('\n')
+        expect(lines[0]).to.match(/^#1 {2}\d{4}-\d{2}-\d{2} \d{2}:\d{2} {2}alice {2}.*F-002 F-001 \(\d+ changes\)$/)
+        expect(lines.slice(1)).to.deep.equal(['', 'Undone (prt redo applies the first again):', lines[3]])
+        expect(lines[3]).to.match(/^#2 .* F-001 \(\d+ changes\)$/)
+      })
+    } finally {
+      delete process.env.PRT_USER
+    }
+  })
+
+  it('should limit and output the journal as JSON', async () => {
+    await withTempRoadmap(roadmap(), async ({tempDir}) => {
+      await runCommand(DepAdd, ['F-002', 'F-001'], {}, tempDir)
+      await runCommand(Complete, ['F-001'], {}, tempDir)
+
+      const result = await runCommand(Log, [], {json: true, limit: 1}, tempDir)
+
+      assertCommandSuccess(result)
+      const output = JSON.parse(result.stdout)
+      expect(output.entries).to.have.lengthOf(1)
+      expect(output.entries[0]).to.have.all.keys('changes', 'command', 'id', 'timestamp', 'user')
+      expect(output.entries[0].id).to.equal(2)
+      expect(output.undone).to.deep.equal([])
+    })
+  })
+
+  it('should record nothing when the journal is turned off', async () => {
+    await withTempRoadmap(roadmap(), async ({configPath, tempDir}) => {
+      const config = JSON.parse(await readFile(configPath!, 'utf8'))
+      await writeFile(configPath!, JSON.stringify({...config, journal: {maxEntries: 0}}))
+      await runCommand(Complete, ['F-001'], {}, tempDir)
+
+      const result = await runCommand(Log, [], {}, tempDir)
+
+      assertCommandSuccess(result)
+      expect(result.stdout).to.include('The journal is turned off')
+    })
+  })
+})
@@ -0,0 +1,101 @@
+import {expect} from 'chai'
+import {writeFileSync} from 'node:fs'
+import {join} from 'node:path'
+
+import MergeDriver from '../../src/commands/merge-driver.js'
+import {PRIORITY, Roadmap} from '../../src/util/types.js'
+import {createRoadmap} from '../fixtures/roadmap-factory.js'
+import {createFeatureTask} from '../fixtures/task-factory.js'
+import {assertCommandError, assertCommandSuccess, runCommand, withTempRoadmap} from '../helpers/command-runner.js'
+import {readTempJsonFile} from '../helpers/fs-helpers.js'
+
+const CREATED = '2026-10-01T00:00:00.000Z'
+
+function ancestor(): Roadmap {
+  return createRoadmap({
+    metadata: {createdAt: CREATED, createdBy: 'Test User', description: 'Roadmap', name: 'Roadmap'},
+    tasks: [createFeatureTask({createdAt: CREATED, id: 'F-001', updatedAt: CREATED})],
+  })
+}
+
+function withTask(roadmap: Roadmap, id: string, title: string): Roadmap {
+  return {...roadmap, tasks: [...roadmap.tasks, createFeatureTask({createdAt: CREATED, id, title})]}
+}
+
+function withPriority(roadmap: Roadmap, priority: PRIORITY): Roadmap {
+  return {...roadmap, tasks: [{...roadmap.tasks[0], priority}, ...roadmap.tasks.slice(1)]}
+}
+
+function writeVersions(tempDir: string, versions: Record<string, Roadmap | string>): string[] {
+  return Object.entries(versions).map(([name, version]) => {
+    const path = join(tempDir, name)
+    writeFileSync(path, typeof version === 'string' ? version : JSON.stringify(version))
+    return path
+  })
+}
+
+describe('merge-driver command', () => {
+  it('should merge into our file and renumber a colliding task', async () => {
+    await withTempRoadmap(ancestor(), async ({tempDir}) => {
+      const paths = writeVersions(tempDir, {
+        base: ancestor(),
+        ours: withTask(ancestor(), 'F-002', 'Search'),
+        theirs: withTask(ancestor(), 'F-002', 'Export'),
+      })
+
+      const result = await runCommand(MergeDriver, [...paths, 'prt.json'], {}, tempDir)
+
+      assertCommandSuccess(result)
+      expect(result.stdout).to.include('prt.json: both sides added F-002; renumbered theirs to F-003')
+      const merged = await readTempJsonFile<Roadmap>(paths[1])
+      expect(merged.tasks.map((t) => [t.id, t.title])).to.deep.equal([
+        ['F-001', ancestor().tasks[0].title],
+        ['F-002', 'Search'],
+        ['F-003', 'Export'],
+      ])
+    })
+  })
+
+  it('should exit with status 1 and list conflicts, keeping our value', async () => {
+    await withTempRoadmap(ancestor(), async ({tempDir}) => {
+      const paths = writeVersions(tempDir, {
+        base: ancestor(),
+        ours: withPriority(ancestor(), PRIORITY.High),
+        theirs: withPriority(ancestor(), PRIORITY.Low),
+      })
+
+      const result = await runCommand(MergeDriver, [...paths, 'prt.json'], {}, tempDir)
+
+      expect(result.exitCode).to.equal(1)
+      expect(result.stderr).to.include('conflict in F-001 priority: ours "high", theirs "low"')
+      expect(result.stdout).to.include('1 conflict(s) kept our side')
+      expect((await readTempJsonFile<Roadmap>(paths[1])).tasks[0].priority).to.equal(PRIORITY.High)
+    })
+  })
+
+  it('should merge without a common ancestor', async () => {
+    await withTempRoadmap(ancestor(), async ({tempDir}) => {
+      const paths = writeVersions(tempDir, {
+        base: '',
+        ours: ancestor(),
+        theirs: withTask(ancestor(), 'F-002', 'Export'),
+      })
+
+      const result = await runCommand(MergeDriver, paths, {}, tempDir)
+
+      assertCommandSuccess(result)
+      expect((await readTempJsonFile<Roadmap>(paths[1])).tasks).to.have.lengthOf(2)
+    })
+  })
+
+  it('should fail without touching our file when a version is not a roadmap', async () => {
+    await withTempRoadmap(ancestor(), async ({tempDir}) => {
+      const paths = writeVersions(tempDir, {base: ancestor(), ours: ancestor(), theirs: '<<<<<<< HEAD'})
+
+      const result = await runCommand(MergeDriver, paths, {}, tempDir)
+
+      assertCommandError(result, /Cannot merge: the their version is not a valid roadmap/)
+      expect(await readTempJsonFile<Roadmap>(paths[1])).to.deep.equal(await readTempJsonFile<Roadmap>(paths[0]))
+    })
+  })
+})
@@ -0,0 +1,100 @@
+import {expect} from 'chai'
+
+import MigrateIds from '../../src/commands/migrate-ids.js'
+import {Roadmap} from '../../src/util/types.js'
+import {createRoadmap} from '../fixtures/roadmap-factory.js'
+import {createBugTask, createFeatureTask, resetTaskCounter} from '../fixtures/task-factory.js'
+import {assertCommandError, assertCommandSuccess, runCommand, withTempRoadmap} from '../helpers/command-runner.js'
+import {readTempJsonFile} from '../helpers/fs-helpers.js'
+
+describe('migrate-ids command', () => {
+  beforeEach(() => {
+    resetTaskCounter()
+  })
+
+  it('should zero-pad IDs and references to the given width', async () => {
+    const roadmap = createRoadmap({
+      tasks: [
+        createFeatureTask({blocks: ['B-001'], id: 'F-001'}),
+        createBugTask({'depends-on': ['F-001'], id: 'B-001'}),
+      ],
+    })
+
+    await withTempRoadmap(roadmap, async ({roadmapPath, tempDir}) => {
+      const result = await runCommand(MigrateIds, [], {width: 4}, tempDir)
+
+      assertCommandSuccess(result)
+      expect(result.stdout).to.include('Renamed 2 task(s):')
+      expect(result.stdout).to.include('F-001 -> F-0001')
+      expect(result.stdout).to.include('Set "idWidth": 4 in .prtrc.json')
+
+      const updatedRoadmap = await readTempJsonFile<Roadmap>(roadmapPath)
+      expect(updatedRoadmap.tasks.map((task) => task.id)).to.deep.equal(['F-0001', 'B-0001'])
+      expect(updatedRoadmap.tasks[0].blocks).to.deep.equal(['B-0001'])
+      expect(updatedRoadmap.tasks[1]['depends-on']).to.deep.equal(['F-0001'])
+    })
+  })
+
+  it('should renumber IDs to close gaps', async () => {
+    const roadmap = createRoadmap({
+      tasks: [createFeatureTask({id: 'F-002'}), createFeatureTask({'depends-on': ['F-002'], id: 'F-005'})],
+    })
+
+    await withTempRoadmap(roadmap, async ({roadmapPath, tempDir}) => {
+      const result = await runCommand(MigrateIds, [], {renumber: true}, tempDir)
+
+      assertCommandSuccess(result)
+      expect(result.stdout).to.not.include('idWidth')
+
+      const updatedRoadmap = await readTempJsonFile<Roadmap>(roadmapPath)
+      expect(updatedRoadmap.tasks.map((task) => task.id)).to.deep.equal(['F-001', 'F-002'])
+      expect(updatedRoadmap.tasks[1]['depends-on']).to.deep.equal(['F-001'])
+    })
+  })
+
+  it('should not write the roadmap with --dry-run', async () => {
+    const roadmap = createRoadmap({tasks: [createFeatureTask({id: 'F-001'})]})
+
+    await withTempRoadmap(roadmap, async ({roadmapPath, tempDir}) => {
+      const result = await runCommand(MigrateIds, [], {'dry-run': true, width: 5}, tempDir)
+
+      assertCommandSuccess(result)
+      expect(result.stdout).to.include('Would rename 1 task(s):')
+      expect(result.stdout).to.include('F-001 -> F-00001')
+
+      const updatedRoadmap = await readTempJsonFile<Roadmap>(roadmapPath)
+      expect(updatedRoadmap.tasks[0].id).to.equal('F-001')
+    })
+  })
+
+  it('should report when IDs are already in the requested format', async () => {
+    const roadmap = createRoadmap({tasks: [createFeatureTask({id: 'F-001'})]})
+
+    await withTempRoadmap(roadmap, async ({tempDir}) => {
+      const result = await runCommand(MigrateIds, [], {}, tempDir)
+
+      assertCommandSuccess(result)
+      expect(result.stdout).to.include('All 1 task IDs are already in the requested format.')
+    })
+  })
+
+  it('should fail when two IDs would collide', async () => {
+    const roadmap = createRoadmap({tasks: [createFeatureTask({id: 'F-001'}), createFeatureTask({id: 'F-0001'})]})
+
+    await withTempRoadmap(roadmap, async ({tempDir}) => {
+      const result = await runCommand(MigrateIds, [], {}, tempDir)
+
+      assertCommandError(result, /F-001 and F-0001 would both become F-001/)
+    })
+  })
+
+  it('should reject a width below 3', async () => {
+    const roadmap = createRoadmap({tasks: [createFeatureTask({id: 'F-001'})]})
+
+    await withTempRoadmap(roadmap, async ({tempDir}) => {
+      const result = await runCommand(MigrateIds, [], {width: 2}, tempDir)
+
+      assertCommandError(result)
+    })
+  })
+})
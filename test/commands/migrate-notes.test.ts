@@ -0,0 +1,56 @@
+import {expect} from 'chai'
+
+import MigrateNotes from '../../src/commands/migrate-notes.js'
+import {Roadmap} from '../../src/util/types.js'
+import {createRoadmap} from '../fixtures/roadmap-factory.js'
+import {createFeatureTask} from '../fixtures/task-factory.js'
+import {assertCommandSuccess, runCommand, withTempRoadmap} from '../helpers/command-runner.js'
+import {readTempJsonFile} from '../helpers/fs-helpers.js'
+
+describe('migrate-notes command', () => {
+  it('should move notes into comments and drop empty notes', async () => {
+    const roadmap = createRoadmap({
+      tasks: [
+        createFeatureTask({id: 'F-001', notes: 'Check the edge cases', updatedAt: '2026-01-01T00:00:00.000Z'}),
+        createFeatureTask({id: 'F-002', notes: ''}),
+      ],
+    })
+
+    await withTempRoadmap(roadmap, async ({roadmapPath, tempDir}) => {
+      const result = await runCommand(MigrateNotes, [], {}, tempDir)
+
+      assertCommandSuccess(result)
+      expect(result.stdout).to.include('Moved the notes of 1 task(s) into comments:\n  F-001')
+
+      const {tasks} = await readTempJsonFile<Roadmap>(roadmapPath)
+      expect(tasks[0].activity).to.deep.equal([
+        {at: '2026-01-01T00:00:00.000Z', author: 'unknown', body: 'Check the edge cases', type: 'comment'},
+      ])
+      expect(tasks[0]).to.not.have.property('notes')
+      expect(tasks[1]).to.not.have.property('notes')
+    })
+  })
+
+  it('should not write the roadmap with --dry-run', async () => {
+    const roadmap = createRoadmap({tasks: [createFeatureTask({id: 'F-001', notes: 'Keep me'})]})
+
+    await withTempRoadmap(roadmap, async ({roadmapPath, tempDir}) => {
+      const result = await runCommand(MigrateNotes, [], {'dry-run': true}, tempDir)
+
+      assertCommandSuccess(result)
+      expect(result.stdout).to.include('Would move the notes of 1 task(s) into comments:')
+      expect((await readTempJsonFile<Roadmap>(roadmapPath)).tasks[0].notes).to.equal('Keep me')
+    })
+  })
+
+  it('should report when no task has notes', async () => {
+    const roadmap = createRoadmap({tasks: [createFeatureTask({id: 'F-001', notes: undefined})]})
+
+    await withTempRoadmap(roadmap, async ({tempDir}) => {
+      const result = await runCommand(MigrateNotes, [], {}, tempDir)
+
+      assertCommandSuccess(result)
+      expect(result.stdout).to.include('No task has notes to migrate.')
+    })
+  })
+})
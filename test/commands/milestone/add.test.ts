@@ -0,0 +1,62 @@
+import {expect} from 'chai'
+
+import MilestoneAdd from '../../../src/commands/milestone/add.js'
+import {Roadmap} from '../../../src/util/types.js'
+import {createRoadmap} from '../../fixtures/roadmap-factory.js'
+import {assertCommandError, assertCommandSuccess, runCommand, withTempRoadmap} from '../../helpers/command-runner.js'
+import {readTempJsonFile} from '../../helpers/fs-helpers.js'
+
+describe('milestone add command', () => {
+  it('should add the milestone with its name, description and target date', async () => {
+    await withTempRoadmap(createRoadmap(), async ({roadmapPath, tempDir}) => {
+      const result = await runCommand(
+        MilestoneAdd,
+        ['v1.0'],
+        {description: 'Public launch', name: 'First release', target: '2026-12-01'},
+        tempDir,
+      )
+
+      assertCommandSuccess(result)
+      expect(result.stdout).to.include('Milestone v1.0 has been added')
+
+      const updatedRoadmap = await readTempJsonFile<Roadmap>(roadmapPath)
+      expect(updatedRoadmap.milestones).to.have.lengthOf(1)
+      expect(updatedRoadmap.milestones![0]).to.include({
+        description: 'Public launch',
+        id: 'v1.0',
+        name: 'First release',
+        targetDate: '2026-12-01T00:00:00.000Z',
+      })
+    })
+  })
+
+  it('should output the milestone as JSON', async () => {
+    await withTempRoadmap(createRoadmap(), async ({tempDir}) => {
+      const result = await runCommand(MilestoneAdd, ['beta'], {json: true}, tempDir)
+
+      assertCommandSuccess(result)
+      expect(JSON.parse(result.stdout).milestone).to.include({id: 'beta', name: 'beta'})
+    })
+  })
+
+  it('should reject a duplicate milestone without writing the file', async () => {
+    const roadmap = createRoadmap({milestones: [{createdAt: '2026-09-01T00:00:00.000Z', id: 'v1.0', name: 'v1.0'}]})
+
+    await withTempRoadmap(roadmap, async ({roadmapPath, tempDir}) => {
+      const result = await runCommand(MilestoneAdd, ['v1.0'], {}, tempDir)
+
+      assertCommandError(result, /Milestone v1.0 already exists/)
+
+      const unchangedRoadmap = await readTempJsonFile<Roadmap>(roadmapPath)
+      expect(unchangedRoadmap.milestones).to.have.lengthOf(1)
+    })
+  })
+
+  it('should reject an invalid target date', async () => {
+    await withTempRoadmap(createRoadmap(), async ({tempDir}) => {
+      const result = await runCommand(MilestoneAdd, ['v1.0'], {target: 'someday'}, tempDir)
+
+      assertCommandError(result, /Invalid target date: someday/)
+    })
+  })
+})
@@ -0,0 +1,56 @@
+import {expect} from 'chai'
+
+import MilestoneClose from '../../../src/commands/milestone/close.js'
+import {Roadmap} from '../../../src/util/types.js'
+import {createRoadmap} from '../../fixtures/roadmap-factory.js'
+import {createFeatureTask, resetTaskCounter} from '../../fixtures/task-factory.js'
+import {assertCommandError, assertCommandSuccess, runCommand, withTempRoadmap} from '../../helpers/command-runner.js'
+import {readTempJsonFile} from '../../helpers/fs-helpers.js'
+
+describe('milestone close command', () => {
+  it('should close the milestone and warn about unfinished tasks', async () => {
+    resetTaskCounter()
+    const roadmap = createRoadmap({
+      milestones: [{createdAt: '2026-09-01T00:00:00.000Z', id: 'v1.0', name: 'v1.0'}],
+      tasks: [createFeatureTask({id: 'F-001', milestone: 'v1.0'})],
+    })
+
+    await withTempRoadmap(roadmap, async ({roadmapPath, tempDir}) => {
+      const result = await runCommand(MilestoneClose, ['v1.0'], {}, tempDir)
+
+      assertCommandSuccess(result)
+      expect(result.stdout).to.include('Milestone v1.0 has been closed.')
+      expect(result.stderr).to.include('closed with 1 of 1 tasks unfinished')
+
+      const updatedRoadmap = await readTempJsonFile<Roadmap>(roadmapPath)
+      expect(updatedRoadmap.milestones![0].closedAt).to.be.a('string')
+      expect(updatedRoadmap.tasks[0].milestone).to.equal('v1.0')
+    })
+  })
+
+  it('should make no changes to a closed milestone', async () => {
+    const closedAt = '2026-09-30T00:00:00.000Z'
+    const roadmap = createRoadmap({
+      milestones: [{closedAt, createdAt: '2026-09-01T00:00:00.000Z', id: 'v1.0', name: 'v1.0'}],
+    })
+
+    await withTempRoadmap(roadmap, async ({roadmapPath, tempDir}) => {
+      const result = await runCommand(MilestoneClose, ['v1.0'], {}, tempDir)
+
+      assertCommandSuccess(result)
+      expect(result.stdout).to.include('already closed')
+
+      const unchangedRoadmap = await readTempJsonFile<Roadmap>(roadmapPath)
+      expect(unchangedRoadmap.milestones![0].closedAt).to.equal(closedAt)
+    })
+  })
+
+  it('should fail with a not found exit code for an unknown milestone', async () => {
+    await withTempRoadmap(createRoadmap(), async ({tempDir}) => {
+      const result = await runCommand(MilestoneClose, ['v9'], {}, tempDir)
+
+      assertCommandError(result, /Milestone not found: v9/)
+      expect(result.exitCode).to.equal(3)
+    })
+  })
+})
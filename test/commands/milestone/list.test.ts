@@ -0,0 +1,53 @@
+import {expect} from 'chai'
+
+import MilestoneList from '../../../src/commands/milestone/list.js'
+import {STATUS} from '../../../src/util/types.js'
+import {createRoadmap} from '../../fixtures/roadmap-factory.js'
+import {createFeatureTask, resetTaskCounter} from '../../fixtures/task-factory.js'
+import {assertCommandSuccess, runCommand, withTempRoadmap} from '../../helpers/command-runner.js'
+
+function roadmapWithMilestones() {
+  resetTaskCounter()
+  return createRoadmap({
+    milestones: [
+      {createdAt: '2026-09-01T00:00:00.000Z', id: 'v1.0', name: 'First release'},
+      {closedAt: '2026-08-30T00:00:00.000Z', createdAt: '2026-08-01T00:00:00.000Z', id: 'beta', name: 'beta'},
+    ],
+    tasks: [
+      createFeatureTask({id: 'F-001', milestone: 'v1.0', status: STATUS.Completed}),
+      createFeatureTask({id: 'F-002', milestone: 'v1.0'}),
+    ],
+  })
+}
+
+describe('milestone list command', () => {
+  it('should list open milestones with their progress', async () => {
+    await withTempRoadmap(roadmapWithMilestones(), async ({tempDir}) => {
+      const result = await runCommand(MilestoneList, [], {}, tempDir)
+
+      assertCommandSuccess(result)
+      expect(result.stdout).to.include('○ v1.0 First release (1 of 2 tasks, 50%)')
+      expect(result.stdout).not.to.include('beta')
+    })
+  })
+
+  it('should include closed milestones with --all', async () => {
+    await withTempRoadmap(roadmapWithMilestones(), async ({tempDir}) => {
+      const result = await runCommand(MilestoneList, [], {all: true}, tempDir)
+
+      assertCommandSuccess(result)
+      expect(result.stdout).to.include('✓ beta (closed 2026-08-30, 0 of 0 tasks, 0%)')
+    })
+  })
+
+  it('should output milestones with their progress as JSON', async () => {
+    await withTempRoadmap(roadmapWithMilestones(), async ({tempDir}) => {
+      const result = await runCommand(MilestoneList, [], {json: true}, tempDir)
+
+      assertCommandSuccess(result)
+      const output = JSON.parse(result.stdout)
+      expect(output).to.have.lengthOf(1)
+      expect(output[0]).to.include({completed: 1, id: 'v1.0', overdue: false, progress: 50, total: 2})
+    })
+  })
+})
@@ -0,0 +1,53 @@
+import {expect} from 'chai'
+
+import MilestoneShow from '../../../src/commands/milestone/show.js'
+import {createRoadmap} from '../../fixtures/roadmap-factory.js'
+import {createFeatureTask, resetTaskCounter} from '../../fixtures/task-factory.js'
+import {assertCommandError, assertCommandSuccess, runCommand, withTempRoadmap} from '../../helpers/command-runner.js'
+
+function roadmapWithMilestones() {
+  resetTaskCounter()
+  return createRoadmap({
+    milestones: [
+      {createdAt: '2026-09-01T00:00:00.000Z', id: 'v1.0', name: 'First release'},
+      {createdAt: '2026-09-01T00:00:00.000Z', id: 'v2.0', name: 'v2.0'},
+    ],
+    tasks: [
+      createFeatureTask({'depends-on': ['F-002'], id: 'F-001', milestone: 'v1.0', title: 'Launch'}),
+      createFeatureTask({id: 'F-002', milestone: 'v2.0', title: 'Billing'}),
+    ],
+  })
+}
+
+describe('milestone show command', () => {
+  it('should show the progress report with blocked and at-risk tasks', async () => {
+    await withTempRoadmap(roadmapWithMilestones(), async ({tempDir}) => {
+      const result = await runCommand(MilestoneShow, ['v1.0'], {}, tempDir)
+
+      assertCommandSuccess(result)
+      expect(result.stdout).to.include('Progress: 0 of 1 tasks completed (0%)')
+      expect(result.stdout).to.include('[F-001] Launch - waiting on F-002')
+      expect(result.stdout).to.include('[F-001] Launch - depends on F-002 in v2.0')
+    })
+  })
+
+  it('should output the report and tasks as JSON', async () => {
+    await withTempRoadmap(roadmapWithMilestones(), async ({tempDir}) => {
+      const result = await runCommand(MilestoneShow, ['v1.0'], {json: true}, tempDir)
+
+      assertCommandSuccess(result)
+      const output = JSON.parse(result.stdout)
+      expect(output.milestone.id).to.equal('v1.0')
+      expect(output.tasks.map((task: {id: string}) => task.id)).to.deep.equal(['F-001'])
+      expect(output.atRisk).to.have.lengthOf(1)
+    })
+  })
+
+  it('should fail for an unknown milestone', async () => {
+    await withTempRoadmap(roadmapWithMilestones(), async ({tempDir}) => {
+      const result = await runCommand(MilestoneShow, ['v9'], {}, tempDir)
+
+      assertCommandError(result, /Milestone not found: v9/)
+    })
+  })
+})
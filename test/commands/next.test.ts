@@ -0,0 +1,78 @@
+import {expect} from 'chai'
+
+import Next from '../../src/commands/next.js'
+import {PRIORITY, STATUS} from '../../src/util/types.js'
+import {createRoadmap} from '../fixtures/roadmap-factory.js'
+import {createFeatureTask, resetTaskCounter} from '../fixtures/task-factory.js'
+import {assertCommandError, assertCommandSuccess, runCommand, withTempRoadmap} from '../helpers/command-runner.js'
+
+describe('next command', () => {
+  it('should list ready tasks in ranked order', async () => {
+    resetTaskCounter()
+    const roadmap = createRoadmap({
+      tasks: [
+        createFeatureTask({id: 'F-001', priority: PRIORITY.Low, title: 'Low task'}),
+        createFeatureTask({id: 'F-002', priority: PRIORITY.High, title: 'High task'}),
+        createFeatureTask({'depends-on': ['F-002'], id: 'F-003', title: 'Blocked task'}),
+      ],
+    })
+
+    await withTempRoadmap(roadmap, async ({tempDir}) => {
+      const result = await runCommand(Next, [], {}, tempDir)
+
+      assertCommandSuccess(result)
+      expect(result.stdout).to.include('Next actionable tasks (2 of 2 ready)')
+      expect(result.stdout.indexOf('[F-002]')).to.be.lessThan(result.stdout.indexOf('[F-001]'))
+      expect(result.stdout).to.include('Unblocks: 1')
+      expect(result.stdout).to.not.include('[F-003]')
+    })
+  })
+
+  it('should respect --limit and --assignee', async () => {
+    resetTaskCounter()
+    const roadmap = createRoadmap({
+      tasks: [
+        createFeatureTask({assignedTo: 'alice', id: 'F-001'}),
+        createFeatureTask({assignedTo: 'alice', id: 'F-002'}),
+        createFeatureTask({assignedTo: 'bob', id: 'F-003'}),
+      ],
+    })
+
+    await withTempRoadmap(roadmap, async ({tempDir}) => {
+      const result = await runCommand(Next, [], {assignee: 'alice', limit: 1}, tempDir)
+
+      assertCommandSuccess(result)
+      expect(result.stdout).to.include('(1 of 2 ready)')
+      expect(result.stdout).to.include('[F-001]')
+      expect(result.stdout).to.not.include('[F-003]')
+    })
+  })
+
+  it('should report when nothing is actionable', async () => {
+    resetTaskCounter()
+    const roadmap = createRoadmap({tasks: [createFeatureTask({id: 'F-001', status: STATUS.Completed})]})
+
+    await withTempRoadmap(roadmap, async ({tempDir}) => {
+      const result = await runCommand(Next, [], {}, tempDir)
+
+      assertCommandSuccess(result)
+      expect(result.stdout).to.include('No actionable tasks')
+    })
+  })
+
+  it('should fail on circular dependencies', async () => {
+    resetTaskCounter()
+    const roadmap = createRoadmap({
+      tasks: [
+        createFeatureTask({'depends-on': ['F-002'], id: 'F-001'}),
+        createFeatureTask({'depends-on': ['F-001'], id: 'F-002'}),
+      ],
+    })
+
+    await withTempRoadmap(roadmap, async ({tempDir}) => {
+      const result = await runCommand(Next, [], {}, tempDir)
+
+      assertCommandError(result, /Circular dependency detected/)
+    })
+  })
+})
@@ -0,0 +1,43 @@
+import {expect} from 'chai'
+
+import Add from '../../src/commands/add.js'
+import Redo from '../../src/commands/redo.js'
+import Undo from '../../src/commands/undo.js'
+import {Roadmap} from '../../src/util/types.js'
+import {createRoadmap} from '../fixtures/roadmap-factory.js'
+import {createFeatureTask} from '../fixtures/task-factory.js'
+import {assertCommandSuccess, runCommand, withTempRoadmap} from '../helpers/command-runner.js'
+import {readTempJsonFile} from '../helpers/fs-helpers.js'
+
+describe('redo command', () => {
+  it('should apply an undone change again', async () => {
+    await withTempRoadmap(
+      createRoadmap({tasks: [createFeatureTask({id: 'F-001'})]}),
+      async ({roadmapPath, tempDir}) => {
+        await runCommand(Add, ['Export to CSV'], {details: 'CSV export', type: 'feature'}, tempDir)
+        const added = await readTempJsonFile<Roadmap>(roadmapPath)
+        await runCommand(Undo, [], {}, tempDir)
+        expect((await readTempJsonFile<Roadmap>(roadmapPath)).tasks).to.have.lengthOf(1)
+
+        const result = await runCommand(Redo, [], {json: true}, tempDir)
+
+        assertCommandSuccess(result)
+        expect(JSON.parse(result.stdout).entry).to.deep.include({changes: 1, id: 1})
+        expect(await readTempJsonFile<Roadmap>(roadmapPath)).to.deep.equal(added)
+      },
+    )
+  })
+
+  it('should have nothing to redo after a new change', async () => {
+    await withTempRoadmap(createRoadmap({tasks: [createFeatureTask({id: 'F-001'})]}), async ({tempDir}) => {
+      await runCommand(Add, ['Export to CSV'], {details: 'CSV export', type: 'feature'}, tempDir)
+      await runCommand(Undo, [], {}, tempDir)
+      await runCommand(Add, ['Import from CSV'], {details: 'CSV import', type: 'feature'}, tempDir)
+
+      const result = await runCommand(Redo, [], {}, tempDir)
+
+      assertCommandSuccess(result)
+      expect(result.stdout).to.include('Nothing to redo')
+    })
+  })
+})
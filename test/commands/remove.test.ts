@@ -0,0 +1,161 @@
+import {expect} from 'chai'
+
+import Remove from '../../src/commands/remove.js'
+import {Roadmap} from '../../src/util/types.js'
+import {createEmptyRoadmap, createRoadmap} from '../fixtures/roadmap-factory.js'
+import {createBugTask, createFeatureTask, resetTaskCounter} from '../fixtures/task-factory.js'
+import {assertCommandError, assertCommandSuccess, runCommand, withTempRoadmap} from '../helpers/command-runner.js'
+import {readTempJsonFile} from '../helpers/fs-helpers.js'
+
+describe('remove command', () => {
+  describe('basic functionality', () => {
+    it('should remove a task without dependents', async () => {
+      resetTaskCounter()
+      const task1 = createFeatureTask({id: 'F-001'})
+      const task2 = createFeatureTask({id: 'F-002'})
+      const roadmap = createRoadmap({tasks: [task1, task2]})
+
+      await withTempRoadmap(roadmap, async ({roadmapPath, tempDir}) => {
+        const result = await runCommand(Remove, ['F-001'], {}, tempDir)
+
+        assertCommandSuccess(result)
+        expect(result.stdout).to.include('Task F-001 has been removed')
+
+        const updatedRoadmap = await readTempJsonFile<Roadmap>(roadmapPath)
+        expect(updatedRoadmap.tasks.map((t) => t.id)).to.deep.equal(['F-002'])
+      })
+    })
+
+    it('should strip blocks references from prerequisites', async () => {
+      resetTaskCounter()
+      const task1 = createFeatureTask({blocks: ['F-002'], id: 'F-001'})
+      const task2 = createFeatureTask({'depends-on': ['F-001'], id: 'F-002'})
+      const roadmap = createRoadmap({tasks: [task1, task2]})
+
+      await withTempRoadmap(roadmap, async ({roadmapPath, tempDir}) => {
+        const result = await runCommand(Remove, ['F-002'], {}, tempDir)
+
+        assertCommandSuccess(result)
+        expect(result.stdout).to.include('References to F-002 have been removed from: F-001')
+
+        const updatedRoadmap = await readTempJsonFile<Roadmap>(roadmapPath)
+        expect(updatedRoadmap.tasks[0].blocks).to.deep.equal([])
+      })
+    })
+  })
+
+  describe('dependency safety', () => {
+    it('should refuse to remove a task that others depend on', async () => {
+      resetTaskCounter()
+      const task1 = createFeatureTask({blocks: ['F-002'], id: 'F-001'})
+      const task2 = createFeatureTask({'depends-on': ['F-001'], id: 'F-002'})
+      const roadmap = createRoadmap({tasks: [task1, task2]})
+
+      await withTempRoadmap(roadmap, async ({roadmapPath, tempDir}) => {
+        const result = await runCommand(Remove, ['F-001'], {}, tempDir)
+
+        assertCommandError(result, /Cannot remove task F-001: F-002 depends on it/)
+        expect(result.exitCode).to.equal(4)
+
+        const unchangedRoadmap = await readTempJsonFile<Roadmap>(roadmapPath)
+        expect(unchangedRoadmap.tasks).to.have.lengthOf(2)
+      })
+    })
+
+    it('should strip references with --cascade', async () => {
+      resetTaskCounter()
+      const task1 = createFeatureTask({blocks: ['F-002', 'B-001'], id: 'F-001'})
+      const task2 = createFeatureTask({'depends-on': ['F-001'], id: 'F-002'})
+      const task3 = createBugTask({'depends-on': ['F-001'], id: 'B-001'})
+      const roadmap = createRoadmap({tasks: [task1, task2, task3]})
+
+      await withTempRoadmap(roadmap, async ({roadmapPath, tempDir}) => {
+        const result = await runCommand(Remove, ['F-001'], {cascade: true}, tempDir)
+
+        assertCommandSuccess(result)
+        expect(result.stdout).to.include('References to F-001 have been removed from: F-002, B-001')
+
+        const updatedRoadmap = await readTempJsonFile<Roadmap>(roadmapPath)
+        expect(updatedRoadmap.tasks).to.have.lengthOf(2)
+        expect(updatedRoadmap.tasks[0]['depends-on']).to.deep.equal([])
+        expect(updatedRoadmap.tasks[1]['depends-on']).to.deep.equal([])
+      })
+    })
+
+    it('should repoint dependents with --reassign', async () => {
+      resetTaskCounter()
+      const task1 = createFeatureTask({blocks: ['F-002'], id: 'F-001'})
+      const task2 = createFeatureTask({'depends-on': ['F-001'], id: 'F-002'})
+      const task3 = createFeatureTask({id: 'F-003'})
+      const roadmap = createRoadmap({tasks: [task1, task2, task3]})
+
+      await withTempRoadmap(roadmap, async ({roadmapPath, tempDir}) => {
+        const result = await runCommand(Remove, ['F-001'], {reassign: 'F-003'}, tempDir)
+
+        assertCommandSuccess(result)
+        expect(result.stdout).to.include(
+          'Dependents of F-001 have been reassigned to F-003. Updated tasks: F-002, F-003',
+        )
+
+        const updatedRoadmap = await readTempJsonFile<Roadmap>(roadmapPath)
+        expect(updatedRoadmap.tasks[0]['depends-on']).to.deep.equal(['F-003'])
+        expect(updatedRoadmap.tasks[1].blocks).to.deep.equal(['F-002'])
+      })
+    })
+  })
+
+  describe('error handling', () => {
+    it('should fail when task not found', async () => {
+      const roadmap = createEmptyRoadmap()
+
+      await withTempRoadmap(roadmap, async ({tempDir}) => {
+        const result = await runCommand(Remove, ['F-999'], {}, tempDir)
+
+        assertCommandError(result, /Task not found: F-999/i)
+        expect(result.exitCode).to.equal(3)
+      })
+    })
+
+    it('should fail when reassign target is not a valid task ID', async () => {
+      resetTaskCounter()
+      const roadmap = createRoadmap({tasks: [createFeatureTask({id: 'F-001'})]})
+
+      await withTempRoadmap(roadmap, async ({tempDir}) => {
+        const result = await runCommand(Remove, ['F-001'], {reassign: 'nope'}, tempDir)
+
+        assertCommandError(result, /Invalid task ID for --reassign: nope/)
+      })
+    })
+
+    it('should fail when config not found (exit code 3)', async () => {
+      const roadmap = createEmptyRoadmap()
+
+      await withTempRoadmap(
+        roadmap,
+        async ({tempDir}) => {
+          const result = await runCommand(Remove, ['F-001'], {}, tempDir)
+
+          assertCommandError(result, /config file/i)
+          expect(result.exitCode).to.equal(3)
+        },
+        false, // Don't create config file
+      )
+    })
+  })
+
+  describe('legacy mode', () => {
+    it('should remove a task with --no-repo', async () => {
+      resetTaskCounter()
+      const roadmap = createRoadmap({tasks: [createFeatureTask({id: 'F-001'})]})
+
+      await withTempRoadmap(roadmap, async ({roadmapPath, tempDir}) => {
+        const result = await runCommand(Remove, ['F-001'], {'no-repo': true}, tempDir)
+
+        assertCommandSuccess(result)
+
+        const updatedRoadmap = await readTempJsonFile<Roadmap>(roadmapPath)
+        expect(updatedRoadmap.tasks).to.deep.equal([])
+      })
+    })
+  })
+})
@@ -165,6 +165,42 @@ describe('show command', () => {
     })
   })
 
+  describe('task with subtasks', () => {
+    it('should display the subtask tree and rollups', async () => {
+      resetTaskCounter()
+      const roadmap = createRoadmap({
+        tasks: [
+          createFeatureTask({id: 'F-010'}),
+          createFeatureTask({effort: 2, id: 'F-011', parent: 'F-010', status: STATUS.Completed}),
+          createFeatureTask({effort: 3, id: 'F-012', parent: 'F-010'}),
+        ],
+      })
+
+      await withTempRoadmap(roadmap, async ({tempDir}) => {
+        const result = await runCommand(Show, ['F-010'], {}, tempDir)
+
+        assertCommandSuccess(result)
+        expect(result.stdout).to.include('Subtasks (1 of 2 completed, 50%):')
+        expect(result.stdout).to.include('Subtask effort: 5 total, 3 remaining')
+      })
+    })
+
+    it('should display the parent of a subtask', async () => {
+      resetTaskCounter()
+      const roadmap = createRoadmap({
+        tasks: [createFeatureTask({id: 'F-010'}), createFeatureTask({id: 'F-011', parent: 'F-010'})],
+      })
+
+      await withTempRoadmap(roadmap, async ({tempDir}) => {
+        const result = await runCommand(Show, ['F-011'], {}, tempDir)
+
+        assertCommandSuccess(result)
+        expect(result.stdout).to.include('Parent: F-010')
+        expect(result.stdout).to.not.include('Subtasks')
+      })
+    })
+  })
+
   describe('task with notes', () => {
     it('should display task notes when present', async () => {
       resetTaskCounter()
@@ -304,4 +340,32 @@ describe('show command', () => {
       })
     })
   })
+
+  describe('json output', () => {
+    it('should print the task as JSON', async () => {
+      resetTaskCounter()
+      const task = createFeatureTask({'github-refs': [], id: 'F-001', title: 'Login'})
+      const roadmap = createRoadmap({tasks: [task]})
+
+      await withTempRoadmap(roadmap, async ({tempDir}) => {
+        const result = await runCommand(Show, ['F-001'], {json: true}, tempDir)
+
+        assertCommandSuccess(result)
+        expect(JSON.parse(result.stdout)).to.deep.equal(task)
+      })
+    })
+
+    it('should print a JSON error with code and context when the task is not found', async () => {
+      await withTempRoadmap(createEmptyRoadmap(), async ({tempDir}) => {
+        const result = await runCommand(Show, ['F-999'], {json: true}, tempDir)
+
+        expect(result.exitCode).to.equal(3)
+        const output = JSON.parse(result.stdout)
+        expect(output.error.code).to.equal('PRT_TASK_NOT_FOUND')
+        expect(output.error.message).to.equal('Task not found: F-999')
+        expect(output.error.context.taskId).to.equal('F-999')
+        expect(output.error.context.roadmapPath).to.be.a('string')
+      })
+    })
+  })
 })
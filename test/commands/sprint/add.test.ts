@@ -0,0 +1,71 @@
+import {expect} from 'chai'
+
+import SprintAdd from '../../../src/commands/sprint/add.js'
+import {Roadmap} from '../../../src/util/types.js'
+import {createRoadmap} from '../../fixtures/roadmap-factory.js'
+import {assertCommandError, assertCommandSuccess, runCommand, withTempRoadmap} from '../../helpers/command-runner.js'
+import {readTempJsonFile} from '../../helpers/fs-helpers.js'
+
+describe('sprint add command', () => {
+  it('should add a two-week sprint with per-assignee capacity', async () => {
+    await withTempRoadmap(createRoadmap(), async ({roadmapPath, tempDir}) => {
+      const result = await runCommand(SprintAdd, ['s1'], {capacity: 'alice=8, bob=5', start: '2026-11-02'}, tempDir)
+
+      assertCommandSuccess(result)
+      expect(result.stdout).to.include('Sprint s1 has been added')
+
+      const updatedRoadmap = await readTempJsonFile<Roadmap>(roadmapPath)
+      expect(updatedRoadmap.sprints![0]).to.deep.include({
+        capacity: {alice: 8, bob: 5},
+        endDate: '2026-11-15T00:00:00.000Z',
+        id: 's1',
+        startDate: '2026-11-02T00:00:00.000Z',
+      })
+    })
+  })
+
+  it('should output the sprint as JSON', async () => {
+    await withTempRoadmap(createRoadmap(), async ({tempDir}) => {
+      const result = await runCommand(
+        SprintAdd,
+        ['s1'],
+        {capacity: 'alice=3', end: '2026-11-06', json: true, name: 'Short', start: '2026-11-02'},
+        tempDir,
+      )
+
+      assertCommandSuccess(result)
+      expect(JSON.parse(result.stdout).sprint).to.include({endDate: '2026-11-06T00:00:00.000Z', name: 'Short'})
+    })
+  })
+
+  it('should accept --capacity repeated once per assignee', async () => {
+    await withTempRoadmap(createRoadmap(), async ({roadmapPath, tempDir}) => {
+      const result = await runCommand(
+        SprintAdd,
+        ['s1', '--capacity', 'alice=8', '--capacity', 'bob=5'],
+        {start: '2026-11-02'},
+        tempDir,
+      )
+
+      assertCommandSuccess(result)
+      expect((await readTempJsonFile<Roadmap>(roadmapPath)).sprints?.[0].capacity).to.deep.equal({alice: 8, bob: 5})
+    })
+  })
+
+  it('should reject invalid capacity', async () => {
+    await withTempRoadmap(createRoadmap(), async ({tempDir}) => {
+      const result = await runCommand(SprintAdd, ['s1'], {capacity: 'alice', start: '2026-11-02'}, tempDir)
+
+      assertCommandError(result, /Invalid capacity: alice/)
+    })
+  })
+
+  it('should reject a duplicate sprint', async () => {
+    await withTempRoadmap(createRoadmap(), async ({tempDir}) => {
+      await runCommand(SprintAdd, ['s1'], {capacity: 'alice=8', start: '2026-11-02'}, tempDir)
+      const result = await runCommand(SprintAdd, ['s1'], {capacity: 'alice=8', start: '2026-11-16'}, tempDir)
+
+      assertCommandError(result, /Sprint s1 already exists/)
+    })
+  })
+})
@@ -0,0 +1,67 @@
+import {expect} from 'chai'
+
+import SprintPlan from '../../../src/commands/sprint/plan.js'
+import {PRIORITY, Roadmap} from '../../../src/util/types.js'
+import {createRoadmap} from '../../fixtures/roadmap-factory.js'
+import {createFeatureTask, resetTaskCounter} from '../../fixtures/task-factory.js'
+import {assertCommandError, assertCommandSuccess, runCommand, withTempRoadmap} from '../../helpers/command-runner.js'
+import {readTempJsonFile} from '../../helpers/fs-helpers.js'
+
+function backlog(): Roadmap {
+  resetTaskCounter()
+  return createRoadmap({
+    sprints: [
+      {
+        capacity: {alice: 5},
+        createdAt: '2026-10-01T00:00:00.000Z',
+        endDate: '2026-11-15T00:00:00.000Z',
+        id: 's1',
+        name: 's1',
+        startDate: '2026-11-02T00:00:00.000Z',
+      },
+    ],
+    tasks: [
+      createFeatureTask({assignedTo: 'alice', effort: 3, id: 'F-001', title: 'Schema'}),
+      createFeatureTask({assignedTo: 'alice', 'depends-on': ['F-001'], effort: 2, id: 'F-002', title: 'API'}),
+      createFeatureTask({assignedTo: 'alice', effort: 1, id: 'F-003', priority: PRIORITY.Low, title: 'Extra'}),
+    ],
+  })
+}
+
+describe('sprint plan command', () => {
+  it('should commit the pulled tasks to the sprint', async () => {
+    await withTempRoadmap(backlog(), async ({roadmapPath, tempDir}) => {
+      const result = await runCommand(SprintPlan, ['s1'], {}, tempDir)
+
+      assertCommandSuccess(result)
+      expect(result.stdout).to.include('Pulled 2 tasks into sprint s1')
+      expect(result.stdout).to.include('alice: 5 of 5 committed')
+
+      const updatedRoadmap = await readTempJsonFile<Roadmap>(roadmapPath)
+      expect(updatedRoadmap.tasks.map((task) => task.sprint ?? null)).to.deep.equal(['s1', 's1', null])
+    })
+  })
+
+  it('should not write the roadmap with --dry-run', async () => {
+    await withTempRoadmap(backlog(), async ({roadmapPath, tempDir}) => {
+      const result = await runCommand(SprintPlan, ['s1'], {'dry-run': true, json: true}, tempDir)
+
+      assertCommandSuccess(result)
+      const output = JSON.parse(result.stdout)
+      expect(output.dryRun).to.be.true
+      expect(output.planned.map((task: {id: string}) => task.id)).to.deep.equal(['F-001', 'F-002'])
+
+      const unchangedRoadmap = await readTempJsonFile<Roadmap>(roadmapPath)
+      expect(unchangedRoadmap.tasks.every((task) => task.sprint === undefined)).to.be.true
+    })
+  })
+
+  it('should fail for an unknown sprint', async () => {
+    await withTempRoadmap(backlog(), async ({tempDir}) => {
+      const result = await runCommand(SprintPlan, ['s9'], {}, tempDir)
+
+      assertCommandError(result, /Sprint not found: s9/)
+      expect(result.exitCode).to.equal(3)
+    })
+  })
+})
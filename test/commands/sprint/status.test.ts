@@ -0,0 +1,59 @@
+import {expect} from 'chai'
+
+import SprintStatus from '../../../src/commands/sprint/status.js'
+import {Roadmap, STATUS} from '../../../src/util/types.js'
+import {createRoadmap} from '../../fixtures/roadmap-factory.js'
+import {createFeatureTask, resetTaskCounter} from '../../fixtures/task-factory.js'
+import {assertCommandError, assertCommandSuccess, runCommand, withTempRoadmap} from '../../helpers/command-runner.js'
+
+function activeSprint(): Roadmap {
+  resetTaskCounter()
+  return createRoadmap({
+    sprints: [
+      {
+        capacity: {alice: 5},
+        createdAt: '2026-10-01T00:00:00.000Z',
+        endDate: '2026-11-15T00:00:00.000Z',
+        id: 's1',
+        name: 'Checkout',
+        startDate: '2026-11-02T00:00:00.000Z',
+      },
+    ],
+    tasks: [
+      createFeatureTask({assignedTo: 'alice', effort: 2, id: 'F-001', sprint: 's1', status: STATUS.Completed}),
+      createFeatureTask({assignedTo: 'alice', effort: 3, id: 'F-002', sprint: 's1'}),
+    ],
+  })
+}
+
+describe('sprint status command', () => {
+  it('should show committed vs. completed effort', async () => {
+    await withTempRoadmap(activeSprint(), async ({tempDir}) => {
+      const result = await runCommand(SprintStatus, ['s1'], {}, tempDir)
+
+      assertCommandSuccess(result)
+      expect(result.stdout).to.include('Name: Checkout')
+      expect(result.stdout).to.include('Effort: 2 of 5 completed (40%)')
+      expect(result.stdout).to.include('alice: 2 of 5 completed, capacity 5')
+    })
+  })
+
+  it('should output the status and tasks as JSON', async () => {
+    await withTempRoadmap(activeSprint(), async ({tempDir}) => {
+      const result = await runCommand(SprintStatus, ['s1'], {json: true}, tempDir)
+
+      assertCommandSuccess(result)
+      const output = JSON.parse(result.stdout)
+      expect(output).to.include({committed: 5, completed: 2, progress: 40})
+      expect(output.tasks).to.have.lengthOf(2)
+    })
+  })
+
+  it('should fail for an unknown sprint', async () => {
+    await withTempRoadmap(activeSprint(), async ({tempDir}) => {
+      const result = await runCommand(SprintStatus, ['s9'], {}, tempDir)
+
+      assertCommandError(result, /Sprint not found: s9/)
+    })
+  })
+})
@@ -0,0 +1,60 @@
+import {expect} from 'chai'
+
+import Stats from '../../src/commands/stats.js'
+import {RoadmapStats} from '../../src/services/roadmap.service.js'
+import {STATUS} from '../../src/util/types.js'
+import {createRoadmap} from '../fixtures/roadmap-factory.js'
+import {createBugTask, createFeatureTask, resetTaskCounter} from '../fixtures/task-factory.js'
+import {assertCommandSuccess, runCommand, withTempRoadmap} from '../helpers/command-runner.js'
+
+const buildRoadmap = () =>
+  createRoadmap({
+    tasks: [
+      createFeatureTask({
+        assignedTo: 'alice',
+        effort: 3,
+        id: 'F-001',
+        'passes-tests': true,
+        status: STATUS.Completed,
+        tags: ['api'],
+      }),
+      createFeatureTask({assignedTo: 'alice', dueDate: '2020-01-01', effort: 2, id: 'F-002', tags: ['api']}),
+      createBugTask({id: 'B-001'}),
+    ],
+  })
+
+describe('stats command', () => {
+  beforeEach(() => {
+    resetTaskCounter()
+  })
+
+  it('should print human-readable statistics', async () => {
+    await withTempRoadmap(buildRoadmap(), async ({tempDir}) => {
+      const result = await runCommand(Stats, [], {}, tempDir)
+
+      assertCommandSuccess(result)
+      expect(result.stdout).to.include('Roadmap Statistics:')
+      expect(result.stdout).to.include('Total Tasks: 3')
+      expect(result.stdout).to.include('Completion: 33.3% (1 of 3 tasks)')
+      expect(result.stdout).to.include('Tests Passing: 33.3% (1 of 3 tasks)')
+      expect(result.stdout).to.include('Overdue: 1')
+      expect(result.stdout).to.include('Remaining: 2')
+      expect(result.stdout).to.include('alice: 1 of 2 completed')
+      expect(result.stdout).to.include('api: 1 of 2 completed')
+    })
+  })
+
+  it('should print statistics as JSON with --json', async () => {
+    await withTempRoadmap(buildRoadmap(), async ({tempDir}) => {
+      const result = await runCommand(Stats, [], {json: true}, tempDir)
+
+      assertCommandSuccess(result)
+      const stats = JSON.parse(result.stdout) as RoadmapStats
+      expect(stats.totalTasks).to.equal(3)
+      expect(stats.byType.bug).to.equal(1)
+      expect(stats.completionRate).to.equal(33.3)
+      expect(stats.effort).to.deep.equal({remaining: 2, total: 5, unestimated: 1})
+      expect(stats.byAssignee).to.deep.equal({alice: {completed: 1, total: 2}})
+    })
+  })
+})
@@ -0,0 +1,71 @@
+import {expect} from 'chai'
+import {writeFile} from 'node:fs/promises'
+
+import Complete from '../../src/commands/complete.js'
+import Undo from '../../src/commands/undo.js'
+import Update from '../../src/commands/update.js'
+import {JournalRepository} from '../../src/repositories/journal.repository.js'
+import {Roadmap, STATUS, TASK_TYPE} from '../../src/util/types.js'
+import {createRoadmap} from '../fixtures/roadmap-factory.js'
+import {createFeatureTask} from '../fixtures/task-factory.js'
+import {assertCommandError, assertCommandSuccess, runCommand, withTempRoadmap} from '../helpers/command-runner.js'
+import {readTempJsonFile} from '../helpers/fs-helpers.js'
+
+function roadmap(): Roadmap {
+  return createRoadmap({
+    tasks: [createFeatureTask({id: 'F-001'}), createFeatureTask({'depends-on': ['F-001'], id: 'F-002'})],
+  })
+}
+
+describe('undo command', () => {
+  it('should roll back a type change that renumbered a task and its references', async () => {
+    await withTempRoadmap(roadmap(), async ({roadmapPath, tempDir}) => {
+      const original = await readTempJsonFile<Roadmap>(roadmapPath)
+      assertCommandSuccess(await runCommand(Update, ['F-001'], {type: TASK_TYPE.Bug}, tempDir))
+      expect((await readTempJsonFile<Roadmap>(roadmapPath)).tasks[1]['depends-on']).to.deep.equal(['B-001'])
+
+      const result = await runCommand(Undo, [], {}, tempDir)
+
+      assertCommandSuccess(result)
+      expect(result.stdout).to.match(/Undid #1: .*F-001 --type=bug/)
+      expect(await readTempJsonFile<Roadmap>(roadmapPath)).to.deep.equal(original)
+      const journal = await new JournalRepository(JournalRepository.getJournalPath(roadmapPath)).load()
+      expect(journal.entries).to.deep.equal([])
+      expect(journal.undone.map((entry) => entry.id)).to.deep.equal([1])
+    })
+  })
+
+  it('should undo changes newest first', async () => {
+    await withTempRoadmap(roadmap(), async ({roadmapPath, tempDir}) => {
+      await runCommand(Update, ['F-001'], {status: STATUS.InProgress}, tempDir)
+      await runCommand(Complete, ['F-001'], {}, tempDir)
+
+      await runCommand(Undo, [], {}, tempDir)
+
+      expect((await readTempJsonFile<Roadmap>(roadmapPath)).tasks[0].status).to.equal(STATUS.InProgress)
+    })
+  })
+
+  it('should report when there is nothing to undo', async () => {
+    await withTempRoadmap(roadmap(), async ({tempDir}) => {
+      const result = await runCommand(Undo, [], {json: true}, tempDir)
+
+      assertCommandSuccess(result)
+      expect(JSON.parse(result.stdout)).to.deep.equal({entry: null})
+    })
+  })
+
+  it('should refuse to undo a change that was edited outside the journal since', async () => {
+    await withTempRoadmap(roadmap(), async ({roadmapPath, tempDir}) => {
+      await runCommand(Update, ['F-001'], {status: STATUS.InProgress}, tempDir)
+      const edited = await readTempJsonFile<Roadmap>(roadmapPath)
+      edited.tasks[0].status = STATUS.Completed
+      await writeFile(roadmapPath, JSON.stringify(edited, null, 2))
+
+      const result = await runCommand(Undo, [], {}, tempDir)
+
+      assertCommandError(result, /Cannot undo #1 .*: the roadmap changed at \/tasks\/0\/status since/)
+      expect(await readTempJsonFile<Roadmap>(roadmapPath)).to.deep.equal(edited)
+    })
+  })
+})
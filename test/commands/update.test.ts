@@ -1,12 +1,18 @@
 import {expect} from 'chai'
+import {writeFile} from 'node:fs/promises'
 
 import Update from '../../src/commands/update.js'
-import {PRIORITY, Roadmap, STATUS, TASK_TYPE} from '../../src/util/types.js'
+import {resetDefaultConfigRepository} from '../../src/repositories/config.repository.js'
+import {Config, PRIORITY, Roadmap, STATUS, Task, TASK_TYPE} from '../../src/util/types.js'
 import {createEmptyRoadmap, createRoadmap} from '../fixtures/roadmap-factory.js'
 import {createBugTask, createFeatureTask, resetTaskCounter} from '../fixtures/task-factory.js'
 import {assertCommandError, assertCommandSuccess, runCommand, withTempRoadmap} from '../helpers/command-runner.js'
 import {readTempJsonFile} from '../helpers/fs-helpers.js'
 
+function comments(task: Task): string[] {
+  return (task.activity ?? []).flatMap((entry) => (entry.type === 'comment' ? [entry.body] : []))
+}
+
 describe('update command', () => {
   describe('basic functionality', () => {
     it('should update task status', async () => {
@@ -71,7 +77,7 @@ describe('update command', () => {
   })
 
   describe('notes handling', () => {
-    it('should append notes to existing notes', async () => {
+    it('should add notes as a comment, keeping existing notes', async () => {
       resetTaskCounter()
       const task = createFeatureTask({id: 'F-001', notes: 'Original notes'})
       const roadmap = createRoadmap({tasks: [task]})
@@ -80,7 +86,8 @@ describe('update command', () => {
         await runCommand(Update, ['F-001'], {notes: 'New notes'}, tempDir)
 
         const updatedRoadmap = await readTempJsonFile<Roadmap>(roadmapPath)
-        expect(updatedRoadmap.tasks[0].notes).to.equal('Original notes\nNew notes')
+        expect(updatedRoadmap.tasks[0].notes).to.equal('Original notes')
+        expect(comments(updatedRoadmap.tasks[0])).to.deep.equal(['New notes'])
       })
     })
 
@@ -93,20 +100,33 @@ describe('update command', () => {
         await runCommand(Update, ['F-001'], {notes: 'First notes'}, tempDir)
 
         const updatedRoadmap = await readTempJsonFile<Roadmap>(roadmapPath)
-        expect(updatedRoadmap.tasks[0].notes).to.equal('First notes')
+        expect(comments(updatedRoadmap.tasks[0])).to.deep.equal(['First notes'])
       })
     })
 
-    it('should clear notes with --clear-notes flag', async () => {
+    it('should clear notes and comments but keep changes with --clear-notes flag', async () => {
       resetTaskCounter()
-      const task = createFeatureTask({id: 'F-001', notes: 'Original notes'})
+      const change = {
+        at: '2026-10-01T00:00:00.000Z',
+        author: 'alice',
+        field: 'status',
+        from: STATUS.NotStarted,
+        to: STATUS.InProgress,
+        type: 'change',
+      } as const
+      const task = createFeatureTask({
+        activity: [{at: '2026-10-02T00:00:00.000Z', author: 'bob', body: 'Old comment', type: 'comment'}, change],
+        id: 'F-001',
+        notes: 'Original notes',
+      })
       const roadmap = createRoadmap({tasks: [task]})
 
       await withTempRoadmap(roadmap, async ({roadmapPath, tempDir}) => {
         await runCommand(Update, ['F-001'], {'clear-notes': true}, tempDir)
 
         const updatedRoadmap = await readTempJsonFile<Roadmap>(roadmapPath)
-        expect(updatedRoadmap.tasks[0].notes).to.equal('')
+        expect(updatedRoadmap.tasks[0]).to.not.have.property('notes')
+        expect(updatedRoadmap.tasks[0].activity).to.deep.equal([change])
       })
     })
 
@@ -119,8 +139,39 @@ describe('update command', () => {
         await runCommand(Update, ['F-001'], {'clear-notes': true, notes: 'Replacement notes'}, tempDir)
 
         const updatedRoadmap = await readTempJsonFile<Roadmap>(roadmapPath)
-        expect(updatedRoadmap.tasks[0].notes).to.equal('Replacement notes')
+        expect(updatedRoadmap.tasks[0]).to.not.have.property('notes')
+        expect(comments(updatedRoadmap.tasks[0])).to.deep.equal(['Replacement notes'])
+      })
+    })
+  })
+
+  describe('activity', () => {
+    it('should record status and dependency changes with their author', async () => {
+      resetTaskCounter()
+      const roadmap = createRoadmap({
+        tasks: [createFeatureTask({id: 'F-001'}), createFeatureTask({id: 'F-002', status: STATUS.NotStarted})],
       })
+      process.env.PRT_USER = 'alice'
+      try {
+        await withTempRoadmap(roadmap, async ({roadmapPath, tempDir}) => {
+          await runCommand(Update, ['F-002'], {deps: 'F-001', status: STATUS.InProgress}, tempDir)
+
+          const {activity} = (await readTempJsonFile<Roadmap>(roadmapPath)).tasks[1]
+          expect(activity?.map((entry) => ({...entry, at: undefined}))).to.deep.equal([
+            {
+              at: undefined,
+              author: 'alice',
+              field: 'status',
+              from: STATUS.NotStarted,
+              to: STATUS.InProgress,
+              type: 'change',
+            },
+            {at: undefined, author: 'alice', field: 'depends-on', from: [], to: ['F-001'], type: 'change'},
+          ])
+        })
+      } finally {
+        delete process.env.PRT_USER
+      }
     })
   })
 
@@ -233,7 +284,7 @@ describe('update command', () => {
 
         const updatedRoadmap = await readTempJsonFile<Roadmap>(roadmapPath)
         expect(updatedRoadmap.tasks[0].status).to.equal(STATUS.InProgress)
-        expect(updatedRoadmap.tasks[0].notes).to.equal('Original\nAdditional')
+        expect(comments(updatedRoadmap.tasks[0])).to.deep.equal(['Additional'])
       })
     })
 
@@ -253,7 +304,7 @@ describe('update command', () => {
         const updatedRoadmap = await readTempJsonFile<Roadmap>(roadmapPath)
         expect(updatedRoadmap.tasks[0].status).to.equal(STATUS.Completed)
         expect(updatedRoadmap.tasks[0]['passes-tests']).to.be.true
-        expect(updatedRoadmap.tasks[0].notes).to.equal('All tests pass')
+        expect(comments(updatedRoadmap.tasks[0])).to.deep.equal(['All tests pass'])
       })
     })
 
@@ -280,12 +331,108 @@ describe('update command', () => {
         const updatedTask = updatedRoadmap.tasks[1]
         expect(updatedTask.status).to.equal(STATUS.InProgress)
         expect(updatedTask['passes-tests']).to.be.true
-        expect(updatedTask.notes).to.equal('Old notes\nNew notes')
+        expect(updatedTask.notes).to.equal('Old notes')
+        expect(comments(updatedTask)).to.deep.equal(['New notes'])
         expect(updatedTask['depends-on']).to.deep.equal(['F-001'])
       })
     })
   })
 
+  describe('dependency guard', () => {
+    it('should refuse --status=completed while dependencies are unfinished', async () => {
+      const roadmap = createRoadmap({
+        tasks: [
+          createFeatureTask({blocks: ['F-002'], id: 'F-001'}),
+          createFeatureTask({'depends-on': ['F-001'], id: 'F-002'}),
+        ],
+      })
+
+      await withTempRoadmap(roadmap, async ({roadmapPath, tempDir}) => {
+        const result = await runCommand(Update, ['F-002'], {status: STATUS.Completed}, tempDir)
+
+        assertCommandError(result, /unfinished prerequisites F-001 \(not-started\)/)
+        expect(result.exitCode).to.equal(5)
+
+        const forced = await runCommand(Update, ['F-002'], {force: true, status: STATUS.Completed}, tempDir)
+
+        assertCommandSuccess(forced)
+        const updatedRoadmap = await readTempJsonFile<Roadmap>(roadmapPath)
+        expect(updatedRoadmap.tasks[1].status).to.equal(STATUS.Completed)
+      })
+    })
+
+    it('should not check dependencies for other status changes', async () => {
+      const roadmap = createRoadmap({
+        tasks: [
+          createFeatureTask({blocks: ['F-002'], id: 'F-001'}),
+          createFeatureTask({'depends-on': ['F-001'], id: 'F-002'}),
+        ],
+      })
+
+      await withTempRoadmap(roadmap, async ({tempDir}) => {
+        const result = await runCommand(Update, ['F-002'], {status: STATUS.InProgress}, tempDir)
+
+        assertCommandSuccess(result)
+      })
+    })
+  })
+
+  describe('workflow', () => {
+    const workflow = {
+      statuses: {blocked: {symbol: '!'}},
+      transitions: [
+        {from: STATUS.NotStarted, to: [STATUS.InProgress, 'blocked']},
+        {from: [STATUS.InProgress, 'blocked'], to: [STATUS.Completed, STATUS.InProgress, 'blocked']},
+      ],
+    }
+
+    it('should accept a custom status from the workflow in the config', async () => {
+      const roadmap = createRoadmap({tasks: [createFeatureTask({id: 'F-001', status: STATUS.NotStarted})]})
+
+      await withTempRoadmap(roadmap, async ({configPath, roadmapPath, tempDir}) => {
+        const config = await readTempJsonFile<Config>(configPath!)
+        await writeFile(configPath!, JSON.stringify({...config, workflow}), 'utf8')
+        resetDefaultConfigRepository()
+
+        const result = await runCommand(Update, ['F-001'], {status: 'blocked'}, tempDir)
+
+        assertCommandSuccess(result)
+        const updatedRoadmap = await readTempJsonFile<Roadmap>(roadmapPath)
+        expect(updatedRoadmap.tasks[0].status).to.equal('blocked')
+      })
+    })
+
+    it('should reject a transition the workflow does not allow', async () => {
+      const roadmap = createRoadmap({tasks: [createFeatureTask({id: 'F-001', status: STATUS.NotStarted})]})
+
+      await withTempRoadmap(roadmap, async ({configPath, roadmapPath, tempDir}) => {
+        const config = await readTempJsonFile<Config>(configPath!)
+        await writeFile(configPath!, JSON.stringify({...config, workflow}), 'utf8')
+        resetDefaultConfigRepository()
+
+        const result = await runCommand(Update, ['F-001'], {status: STATUS.Completed}, tempDir)
+
+        assertCommandError(
+          result,
+          /Cannot change task F-001 from not-started to completed: not an allowed transition \(allowed: in-progress, blocked\)/,
+        )
+        expect(result.exitCode).to.equal(2)
+        const updatedRoadmap = await readTempJsonFile<Roadmap>(roadmapPath)
+        expect(updatedRoadmap.tasks[0].status).to.equal(STATUS.NotStarted)
+      })
+    })
+
+    it('should reject a status that is not configured', async () => {
+      const roadmap = createRoadmap({tasks: [createFeatureTask({id: 'F-001'})]})
+
+      await withTempRoadmap(roadmap, async ({tempDir}) => {
+        const result = await runCommand(Update, ['F-001'], {status: 'blocked'}, tempDir)
+
+        assertCommandError(result, /Invalid status: blocked/)
+      })
+    })
+  })
+
   describe('error handling', () => {
     it('should fail when task not found', async () => {
       const roadmap = createEmptyRoadmap()
@@ -391,4 +538,49 @@ describe('update command', () => {
       })
     })
   })
+
+  describe('json output', () => {
+    it('should print the updated task as JSON', async () => {
+      resetTaskCounter()
+      const roadmap = createRoadmap({tasks: [createFeatureTask({id: 'F-001'})]})
+
+      await withTempRoadmap(roadmap, async ({tempDir}) => {
+        const result = await runCommand(Update, ['F-001'], {json: true, status: STATUS.InProgress}, tempDir)
+
+        assertCommandSuccess(result)
+        const output = JSON.parse(result.stdout)
+        expect(output.id).to.equal('F-001')
+        expect(output).to.not.have.property('previousId')
+        expect(output.task.status).to.equal(STATUS.InProgress)
+      })
+    })
+
+    it('should include the previous ID after a type change', async () => {
+      resetTaskCounter()
+      const roadmap = createRoadmap({tasks: [createFeatureTask({id: 'F-001'})]})
+
+      await withTempRoadmap(roadmap, async ({tempDir}) => {
+        const result = await runCommand(Update, ['F-001'], {json: true, type: TASK_TYPE.Bug}, tempDir)
+
+        assertCommandSuccess(result)
+        const output = JSON.parse(result.stdout)
+        expect(output.id).to.equal('B-001')
+        expect(output.previousId).to.equal('F-001')
+        expect(output.task.type).to.equal(TASK_TYPE.Bug)
+      })
+    })
+
+    it('should print a JSON error when the task is not found', async () => {
+      await withTempRoadmap(createEmptyRoadmap(), async ({tempDir}) => {
+        const result = await runCommand(Update, ['F-999'], {json: true, status: STATUS.InProgress}, tempDir)
+
+        expect(result.exitCode).to.equal(3)
+        expect(JSON.parse(result.stdout).error).to.deep.equal({
+          code: 'PRT_TASK_NOT_FOUND',
+          context: {taskId: 'F-999'},
+          message: 'Task not found: F-999',
+        })
+      })
+    })
+  })
 })
@@ -3,10 +3,12 @@ import {writeFile} from 'node:fs/promises'
 import {join} from 'node:path'
 
 import Validate from '../../src/commands/validate.js'
-import {PRIORITY, STATUS, TASK_TYPE} from '../../src/util/types.js'
+import {resetDefaultConfigRepository} from '../../src/repositories/config.repository.js'
+import {Config, PRIORITY, STATUS, TASK_TYPE} from '../../src/util/types.js'
 import {createEmptyRoadmap, createRoadmap, createSimpleRoadmap} from '../fixtures/roadmap-factory.js'
 import {createFeatureTask, resetTaskCounter} from '../fixtures/task-factory.js'
 import {assertCommandError, assertCommandSuccess, runCommand, withTempRoadmap} from '../helpers/command-runner.js'
+import {readTempJsonFile} from '../helpers/fs-helpers.js'
 
 describe('validate command', () => {
   describe('valid roadmaps', () => {
@@ -111,7 +113,6 @@ describe('validate command', () => {
     it('should fail validation for task with invalid status', async () => {
       resetTaskCounter()
       const task = createFeatureTask({id: 'F-001'})
-      // @ts-expect-error - intentionally setting invalid status for testing
       task.status = 'invalid-status'
       const roadmap = createRoadmap({tasks: [task]})
 
@@ -123,6 +124,24 @@ describe('validate command', () => {
       })
     })
 
+    it('should accept a custom status only when the workflow declares it', async () => {
+      const roadmap = createRoadmap({tasks: [createFeatureTask({id: 'F-001', status: 'blocked'})]})
+
+      await withTempRoadmap(roadmap, async ({configPath, tempDir}) => {
+        assertCommandError(await runCommand(Validate, [], {}, tempDir), /F-001.*invalid status: blocked/i)
+
+        const config = await readTempJsonFile<Config>(configPath!)
+        await writeFile(
+          configPath!,
+          JSON.stringify({...config, workflow: {statuses: {blocked: {symbol: '!'}}}}),
+          'utf8',
+        )
+        resetDefaultConfigRepository()
+
+        assertCommandSuccess(await runCommand(Validate, [], {}, tempDir))
+      })
+    })
+
     it('should fail validation for task with invalid priority', async () => {
       resetTaskCounter()
       const task = createFeatureTask({id: 'F-001'})
@@ -197,9 +216,59 @@ describe('validate command', () => {
         expect(result.stdout).to.match(/circular/i)
       })
     })
+
+    it('should fail validation for a parent cycle', async () => {
+      resetTaskCounter()
+      const taskA = createFeatureTask({id: 'F-001', parent: 'F-002'})
+      const taskB = createFeatureTask({id: 'F-002', parent: 'F-001'})
+      const roadmap = createRoadmap({tasks: [taskA, taskB]})
+
+      await withTempRoadmap(roadmap, async ({tempDir}) => {
+        const result = await runCommand(Validate, [], {}, tempDir)
+
+        assertCommandError(result)
+        expect(result.stdout).to.include('Circular parent chain detected: F-001 -> F-002 -> F-001')
+      })
+    })
   })
 
   describe('invalid task references', () => {
+    it('should fail validation for a subtask whose parent does not exist', async () => {
+      resetTaskCounter()
+      const roadmap = createRoadmap({tasks: [createFeatureTask({id: 'F-001', parent: 'F-099'})]})
+
+      await withTempRoadmap(roadmap, async ({tempDir}) => {
+        const result = await runCommand(Validate, [], {}, tempDir)
+
+        assertCommandError(result)
+        expect(result.stdout).to.include('Task F-001 has non-existent parent F-099')
+      })
+    })
+
+    it('should fail validation for a task planned for a non-existent milestone', async () => {
+      resetTaskCounter()
+      const roadmap = createRoadmap({tasks: [createFeatureTask({id: 'F-001', milestone: 'v1.0'})]})
+
+      await withTempRoadmap(roadmap, async ({tempDir}) => {
+        const result = await runCommand(Validate, [], {}, tempDir)
+
+        assertCommandError(result)
+        expect(result.stdout).to.include('Task F-001 is planned for non-existent milestone v1.0')
+      })
+    })
+
+    it('should fail validation for a task committed to a non-existent sprint', async () => {
+      resetTaskCounter()
+      const roadmap = createRoadmap({tasks: [createFeatureTask({id: 'F-001', sprint: 's1'})]})
+
+      await withTempRoadmap(roadmap, async ({tempDir}) => {
+        const result = await runCommand(Validate, [], {}, tempDir)
+
+        assertCommandError(result, /Sprint validation failed/)
+        expect(result.stdout).to.include('Task F-001 is committed to non-existent sprint s1')
+      })
+    })
+
     it('should fail validation for depends-on referencing non-existent task', async () => {
       resetTaskCounter()
       const task = createFeatureTask({'depends-on': ['F-999'], id: 'F-001'})
@@ -387,4 +456,43 @@ describe('validate command', () => {
       })
     })
   })
+
+  describe('json output', () => {
+    it('should print a valid result without progress messages', async () => {
+      const roadmap = createSimpleRoadmap()
+
+      await withTempRoadmap(roadmap, async ({tempDir}) => {
+        const result = await runCommand(Validate, [], {json: true}, tempDir)
+
+        assertCommandSuccess(result)
+        expect(JSON.parse(result.stdout)).to.deep.equal({errors: [], taskCount: roadmap.tasks.length, valid: true})
+      })
+    })
+
+    it('should report every invalid task and dependency error and exit with code 1', async () => {
+      resetTaskCounter()
+      const invalid = createFeatureTask({id: 'F-001'})
+      invalid.details = ''
+      const roadmap = createRoadmap({
+        tasks: [
+          invalid,
+          createFeatureTask({'depends-on': ['F-003'], id: 'F-002'}),
+          createFeatureTask({'depends-on': ['F-002'], id: 'F-003'}),
+        ],
+      })
+
+      await withTempRoadmap(roadmap, async ({tempDir}) => {
+        const result = await runCommand(Validate, [], {json: true}, tempDir)
+
+        expect(result.exitCode).to.equal(1)
+        const output = JSON.parse(result.stdout)
+        expect(output.valid).to.be.false
+        expect(output.taskCount).to.equal(3)
+        expect(output.errors.map((error: {type: string}) => error.type)).to.include.members([
+          'invalid-task',
+          'circular',
+        ])
+      })
+    })
+  })
 })
@@ -0,0 +1,43 @@
+import {expect} from 'chai'
+import {writeFile} from 'node:fs/promises'
+
+import ViewDelete from '../../../src/commands/view/delete.js'
+import {resetDefaultConfigRepository} from '../../../src/repositories/config.repository.js'
+import {Config} from '../../../src/util/types.js'
+import {createEmptyRoadmap} from '../../fixtures/roadmap-factory.js'
+import {assertCommandError, assertCommandSuccess, runCommand, withTempRoadmap} from '../../helpers/command-runner.js'
+import {readTempJsonFile} from '../../helpers/fs-helpers.js'
+
+describe('view delete command', () => {
+  beforeEach(() => {
+    resetDefaultConfigRepository()
+  })
+
+  it('should delete a saved view', async () => {
+    await withTempRoadmap(createEmptyRoadmap(), async ({configPath, tempDir}) => {
+      const config = await readTempJsonFile<Config>(configPath!)
+      await writeFile(
+        configPath!,
+        JSON.stringify({...config, views: {bugs: {type: ['bug']}, standup: {incomplete: true}}}),
+        'utf8',
+      )
+
+      const result = await runCommand(ViewDelete, ['standup'], {}, tempDir)
+
+      assertCommandSuccess(result)
+      expect(result.stdout).to.include('Deleted view "standup"')
+
+      const updated = await readTempJsonFile<Config>(configPath!)
+      expect(updated.views).to.deep.equal({bugs: {type: ['bug']}})
+    })
+  })
+
+  it('should fail with exit code 3 for an unknown view', async () => {
+    await withTempRoadmap(createEmptyRoadmap(), async ({tempDir}) => {
+      const result = await runCommand(ViewDelete, ['standup'], {}, tempDir)
+
+      assertCommandError(result, /View not found: standup/)
+      expect(result.exitCode).to.equal(3)
+    })
+  })
+})
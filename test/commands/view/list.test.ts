@@ -0,0 +1,58 @@
+import {expect} from 'chai'
+import {writeFile} from 'node:fs/promises'
+
+import ViewList from '../../../src/commands/view/list.js'
+import {resetDefaultConfigRepository} from '../../../src/repositories/config.repository.js'
+import {Config} from '../../../src/util/types.js'
+import {createEmptyRoadmap} from '../../fixtures/roadmap-factory.js'
+import {assertCommandSuccess, runCommand, withTempRoadmap} from '../../helpers/command-runner.js'
+import {readTempJsonFile} from '../../helpers/fs-helpers.js'
+
+describe('view list command', () => {
+  beforeEach(() => {
+    resetDefaultConfigRepository()
+  })
+
+  it('should list saved views as list flags', async () => {
+    await withTempRoadmap(createEmptyRoadmap(), async ({configPath, tempDir}) => {
+      const config = await readTempJsonFile<Config>(configPath!)
+      await writeFile(
+        configPath!,
+        JSON.stringify({
+          ...config,
+          views: {bugs: {type: ['bug']}, standup: {assignee: 'alice', format: 'compact', incomplete: true}},
+        }),
+        'utf8',
+      )
+
+      const result = await runCommand(ViewList, [], {}, tempDir)
+
+      assertCommandSuccess(result)
+      expect(result.stdout.trimEnd().split('\n')).to.deep.equal([
+        'bugs: --type=bug',
+        'standup: --incomplete --assignee=alice --format=compact',
+      ])
+    })
+  })
+
+  it('should print a hint when there are no saved views', async () => {
+    await withTempRoadmap(createEmptyRoadmap(), async ({tempDir}) => {
+      const result = await runCommand(ViewList, [], {}, tempDir)
+
+      assertCommandSuccess(result)
+      expect(result.stdout).to.include('No saved views')
+    })
+  })
+
+  it('should output the views as JSON', async () => {
+    await withTempRoadmap(createEmptyRoadmap(), async ({configPath, tempDir}) => {
+      const config = await readTempJsonFile<Config>(configPath!)
+      await writeFile(configPath!, JSON.stringify({...config, views: {standup: {incomplete: true}}}), 'utf8')
+
+      const result = await runCommand(ViewList, [], {json: true}, tempDir)
+
+      assertCommandSuccess(result)
+      expect(JSON.parse(result.stdout)).to.deep.equal({standup: {incomplete: true}})
+    })
+  })
+})
@@ -0,0 +1,71 @@
+import {expect} from 'chai'
+
+import ViewSave from '../../../src/commands/view/save.js'
+import {resetDefaultConfigRepository} from '../../../src/repositories/config.repository.js'
+import {Config, STATUS} from '../../../src/util/types.js'
+import {createEmptyRoadmap} from '../../fixtures/roadmap-factory.js'
+import {assertCommandError, assertCommandSuccess, runCommand, withTempRoadmap} from '../../helpers/command-runner.js'
+import {readTempJsonFile} from '../../helpers/fs-helpers.js'
+
+describe('view save command', () => {
+  beforeEach(() => {
+    resetDefaultConfigRepository()
+  })
+
+  it('should save the given list options to the project config', async () => {
+    await withTempRoadmap(createEmptyRoadmap(), async ({configPath, tempDir}) => {
+      const result = await runCommand(
+        ViewSave,
+        ['standup'],
+        {assignee: 'alice', format: 'compact', incomplete: true, sort: 'priority:desc,dueDate'},
+        tempDir,
+      )
+
+      assertCommandSuccess(result)
+      expect(result.stdout).to.include('Saved view "standup" to .prtrc.json')
+
+      const config = await readTempJsonFile<Config>(configPath!)
+      expect(config.views).to.deep.equal({
+        standup: {assignee: 'alice', format: 'compact', incomplete: true, sort: ['priority:desc', 'dueDate']},
+      })
+      expect(config.path).to.be.a('string')
+    })
+  })
+
+  it('should normalize status and priority values', async () => {
+    await withTempRoadmap(createEmptyRoadmap(), async ({configPath, tempDir}) => {
+      const result = await runCommand(ViewSave, ['triage'], {priority: 'h', status: 'not-started'}, tempDir)
+
+      assertCommandSuccess(result)
+
+      const config = await readTempJsonFile<Config>(configPath!)
+      expect(config.views?.triage).to.deep.equal({priority: ['high'], status: [STATUS.NotStarted]})
+    })
+  })
+
+  it('should fail when no options are given', async () => {
+    await withTempRoadmap(createEmptyRoadmap(), async ({tempDir}) => {
+      const result = await runCommand(ViewSave, ['standup'], {}, tempDir)
+
+      assertCommandError(result, /A view needs at least one filter, sort or format option/)
+    })
+  })
+
+  it('should fail for an invalid where expression', async () => {
+    await withTempRoadmap(createEmptyRoadmap(), async ({tempDir}) => {
+      const result = await runCommand(ViewSave, ['standup'], {where: 'status = done'}, tempDir)
+
+      assertCommandError(result, /Invalid filter expression/)
+      expect(result.exitCode).to.equal(2)
+    })
+  })
+
+  it('should fail for an invalid view name', async () => {
+    await withTempRoadmap(createEmptyRoadmap(), async ({tempDir}) => {
+      const result = await runCommand(ViewSave, ['stand.up'], {incomplete: true}, tempDir)
+
+      assertCommandError(result)
+      expect(result.exitCode).to.equal(2)
+    })
+  })
+})
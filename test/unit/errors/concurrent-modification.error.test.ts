@@ -0,0 +1,26 @@
+import {expect} from 'chai'
+
+import {ConcurrentModificationError, PrtError, PrtErrorCode} from '../../../src/errors/index.js'
+
+describe('ConcurrentModificationError', () => {
+  describe('constructor', () => {
+    it('should create error with the file path', () => {
+      const error = new ConcurrentModificationError('prt.json')
+
+      expect(error).to.be.instanceOf(Error)
+      expect(error).to.be.instanceOf(PrtError)
+      expect(error).to.be.instanceOf(ConcurrentModificationError)
+      expect(error.message).to.equal(
+        'prt.json was changed by another process since it was loaded; run the command again',
+      )
+      expect(error.code).to.equal(PrtErrorCode.PRT_FILE_CONCURRENT_MODIFICATION)
+      expect(error.name).to.equal('ConcurrentModificationError')
+    })
+
+    it('should include the path in context', () => {
+      const error = new ConcurrentModificationError('prt.json')
+
+      expect(error.context).to.deep.equal({path: 'prt.json'})
+    })
+  })
+})
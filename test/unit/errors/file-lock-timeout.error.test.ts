@@ -0,0 +1,31 @@
+import {expect} from 'chai'
+
+import {FileLockTimeoutError, PrtError, PrtErrorCode} from '../../../src/errors/index.js'
+
+describe('FileLockTimeoutError', () => {
+  describe('constructor', () => {
+    it('should create error with the path, timeout and holder', () => {
+      const error = new FileLockTimeoutError('prt.json', 5000, 4242)
+
+      expect(error).to.be.instanceOf(Error)
+      expect(error).to.be.instanceOf(PrtError)
+      expect(error).to.be.instanceOf(FileLockTimeoutError)
+      expect(error.message).to.equal('Timed out after 5000ms waiting for the lock on prt.json (held by process 4242)')
+      expect(error.code).to.equal(PrtErrorCode.PRT_FILE_LOCK_TIMEOUT)
+      expect(error.name).to.equal('FileLockTimeoutError')
+    })
+
+    it('should include the path, timeout and holder in context', () => {
+      const error = new FileLockTimeoutError('prt.json', 5000, 4242)
+
+      expect(error.context).to.deep.equal({holderPid: 4242, path: 'prt.json', timeout: 5000})
+    })
+
+    it('should leave out the holder when it is unknown', () => {
+      const error = new FileLockTimeoutError('prt.json', 100)
+
+      expect(error.message).to.equal('Timed out after 100ms waiting for the lock on prt.json')
+      expect(error.context).to.deep.equal({path: 'prt.json', timeout: 100})
+    })
+  })
+})
@@ -0,0 +1,36 @@
+import {expect} from 'chai'
+
+import {GitCommandError, PrtError, PrtErrorCode} from '../../../src/errors/index.js'
+
+describe('GitCommandError', () => {
+  describe('constructor', () => {
+    it('should create error with the subcommand and the last line of the cause', () => {
+      const error = new GitCommandError(
+        ['log', '--', './prt.json'],
+        new Error('Command failed: git log\nfatal: not a git repository (or any of the parent directories): .git\n'),
+      )
+
+      expect(error).to.be.instanceOf(Error)
+      expect(error).to.be.instanceOf(PrtError)
+      expect(error).to.be.instanceOf(GitCommandError)
+      expect(error.message).to.equal(
+        'git log failed: fatal: not a git repository (or any of the parent directories): .git',
+      )
+      expect(error.code).to.equal(PrtErrorCode.PRT_GIT_COMMAND_FAILED)
+      expect(error.name).to.equal('GitCommandError')
+    })
+
+    it('should include arguments and cause in context', () => {
+      const error = new GitCommandError(['show', 'abc:./prt.json'], new Error('spawn git ENOENT'))
+
+      expect(error.context).to.deep.equal({args: ['show', 'abc:./prt.json'], cause: 'spawn git ENOENT'})
+    })
+
+    it('should handle a missing cause', () => {
+      const error = new GitCommandError(['log'])
+
+      expect(error.message).to.equal('git log failed: unknown error')
+      expect(error.context).to.deep.equal({args: ['log']})
+    })
+  })
+})
@@ -0,0 +1,32 @@
+import {expect} from 'chai'
+
+import {IncompleteDependenciesError, PrtError, PrtErrorCode} from '../../../src/errors/index.js'
+
+describe('IncompleteDependenciesError', () => {
+  describe('constructor', () => {
+    it('should list the unfinished prerequisites with their statuses', () => {
+      const error = new IncompleteDependenciesError('F-003', [
+        {id: 'F-001', status: 'not-started'},
+        {id: 'B-002', status: 'in-progress'},
+      ])
+
+      expect(error).to.be.instanceOf(Error)
+      expect(error).to.be.instanceOf(PrtError)
+      expect(error).to.be.instanceOf(IncompleteDependenciesError)
+      expect(error.message).to.equal(
+        'Cannot complete task F-003: unfinished prerequisites F-001 (not-started), B-002 (in-progress). Use --force to complete it anyway',
+      )
+      expect(error.code).to.equal(PrtErrorCode.PRT_TASK_DEPENDENCIES_INCOMPLETE)
+      expect(error.name).to.equal('IncompleteDependenciesError')
+    })
+
+    it('should include taskId and incompleteIds in context', () => {
+      const error = new IncompleteDependenciesError('F-003', [{id: 'F-001', status: 'not-started'}])
+
+      expect(error.context).to.deep.equal({
+        incompleteIds: ['F-001'],
+        taskId: 'F-003',
+      })
+    })
+  })
+})
@@ -0,0 +1,29 @@
+import {expect} from 'chai'
+
+import {InvalidStatusTransitionError, PrtError, PrtErrorCode} from '../../../src/errors/index.js'
+
+describe('InvalidStatusTransitionError', () => {
+  describe('constructor', () => {
+    it('should describe the rejected status change', () => {
+      const error = new InvalidStatusTransitionError('F-001', 'not-started', 'completed', 'requires passes-tests')
+
+      expect(error).to.be.instanceOf(Error)
+      expect(error).to.be.instanceOf(PrtError)
+      expect(error).to.be.instanceOf(InvalidStatusTransitionError)
+      expect(error.message).to.equal('Cannot change task F-001 from not-started to completed: requires passes-tests')
+      expect(error.code).to.equal(PrtErrorCode.PRT_TASK_STATUS_TRANSITION_INVALID)
+      expect(error.name).to.equal('InvalidStatusTransitionError')
+    })
+
+    it('should include the task and statuses in context', () => {
+      const error = new InvalidStatusTransitionError('F-001', 'completed', 'blocked', 'not an allowed transition')
+
+      expect(error.context).to.deep.equal({
+        from: 'completed',
+        reason: 'not an allowed transition',
+        taskId: 'F-001',
+        to: 'blocked',
+      })
+    })
+  })
+})
@@ -0,0 +1,26 @@
+import {expect} from 'chai'
+
+import {JournalConflictError, PrtError, PrtErrorCode} from '../../../src/errors/index.js'
+
+describe('JournalConflictError', () => {
+  describe('constructor', () => {
+    it('should create error with the action, entry and path', () => {
+      const error = new JournalConflictError('undo', {command: 'update F-001 --type=bug', id: 7}, '/tasks/0/id')
+
+      expect(error).to.be.instanceOf(Error)
+      expect(error).to.be.instanceOf(PrtError)
+      expect(error).to.be.instanceOf(JournalConflictError)
+      expect(error.message).to.equal(
+        'Cannot undo #7 (update F-001 --type=bug): the roadmap changed at /tasks/0/id since',
+      )
+      expect(error.code).to.equal(PrtErrorCode.PRT_JOURNAL_CONFLICT)
+      expect(error.name).to.equal('JournalConflictError')
+    })
+
+    it('should include the action, entry and path in context', () => {
+      const error = new JournalConflictError('redo', {command: 'remove F-002', id: 3}, '/tasks/1')
+
+      expect(error.context).to.deep.equal({action: 'redo', command: 'remove F-002', entryId: 3, path: '/tasks/1'})
+    })
+  })
+})
@@ -0,0 +1,24 @@
+import {expect} from 'chai'
+
+import {MilestoneNotFoundError, PrtError, PrtErrorCode} from '../../../src/errors/index.js'
+
+describe('MilestoneNotFoundError', () => {
+  describe('constructor', () => {
+    it('should create error with milestone ID', () => {
+      const error = new MilestoneNotFoundError('v1.0')
+
+      expect(error).to.be.instanceOf(Error)
+      expect(error).to.be.instanceOf(PrtError)
+      expect(error).to.be.instanceOf(MilestoneNotFoundError)
+      expect(error.message).to.equal('Milestone not found: v1.0')
+      expect(error.code).to.equal(PrtErrorCode.PRT_MILESTONE_NOT_FOUND)
+      expect(error.name).to.equal('MilestoneNotFoundError')
+    })
+
+    it('should include milestone ID in context', () => {
+      const error = new MilestoneNotFoundError('v1.0')
+
+      expect(error.context).to.deep.equal({milestoneId: 'v1.0'})
+    })
+  })
+})
@@ -0,0 +1,30 @@
+import {expect} from 'chai'
+
+import {PrtError, PrtErrorCode, QuerySyntaxError} from '../../../src/errors/index.js'
+
+describe('QuerySyntaxError', () => {
+  describe('constructor', () => {
+    it('should create error with a caret under the failing column', () => {
+      const error = new QuerySyntaxError('status = done', 10, 'invalid status "done"')
+
+      expect(error).to.be.instanceOf(Error)
+      expect(error).to.be.instanceOf(PrtError)
+      expect(error).to.be.instanceOf(QuerySyntaxError)
+      expect(error.message).to.equal(
+        'Invalid filter expression at column 10: invalid status "done"\n  status = done\n           ^',
+      )
+      expect(error.code).to.equal(PrtErrorCode.PRT_QUERY_INVALID)
+      expect(error.name).to.equal('QuerySyntaxError')
+    })
+
+    it('should include expression, column and reason in context', () => {
+      const error = new QuerySyntaxError('type =', 7, 'expected a value')
+
+      expect(error.context).to.deep.equal({
+        column: 7,
+        expression: 'type =',
+        reason: 'expected a value',
+      })
+    })
+  })
+})
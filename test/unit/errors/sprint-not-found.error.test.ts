@@ -0,0 +1,24 @@
+import {expect} from 'chai'
+
+import {PrtError, PrtErrorCode, SprintNotFoundError} from '../../../src/errors/index.js'
+
+describe('SprintNotFoundError', () => {
+  describe('constructor', () => {
+    it('should create error with sprint ID', () => {
+      const error = new SprintNotFoundError('s1')
+
+      expect(error).to.be.instanceOf(Error)
+      expect(error).to.be.instanceOf(PrtError)
+      expect(error).to.be.instanceOf(SprintNotFoundError)
+      expect(error.message).to.equal('Sprint not found: s1')
+      expect(error.code).to.equal(PrtErrorCode.PRT_SPRINT_NOT_FOUND)
+      expect(error.name).to.equal('SprintNotFoundError')
+    })
+
+    it('should include sprint ID in context', () => {
+      const error = new SprintNotFoundError('s1')
+
+      expect(error.context).to.deep.equal({sprintId: 's1'})
+    })
+  })
+})
@@ -0,0 +1,33 @@
+import {expect} from 'chai'
+
+import {PrtError, PrtErrorCode, TaskHasDependentsError} from '../../../src/errors/index.js'
+
+describe('TaskHasDependentsError', () => {
+  describe('constructor', () => {
+    it('should create error with a single dependent', () => {
+      const error = new TaskHasDependentsError('F-001', ['F-002'])
+
+      expect(error).to.be.instanceOf(Error)
+      expect(error).to.be.instanceOf(PrtError)
+      expect(error).to.be.instanceOf(TaskHasDependentsError)
+      expect(error.message).to.equal('Cannot remove task F-001: F-002 depends on it')
+      expect(error.code).to.equal(PrtErrorCode.PRT_TASK_HAS_DEPENDENTS)
+      expect(error.name).to.equal('TaskHasDependentsError')
+    })
+
+    it('should list multiple dependents', () => {
+      const error = new TaskHasDependentsError('F-001', ['F-002', 'B-003'])
+
+      expect(error.message).to.equal('Cannot remove task F-001: F-002, B-003 depend on it')
+    })
+
+    it('should include taskId and dependentIds in context', () => {
+      const error = new TaskHasDependentsError('F-001', ['F-002'])
+
+      expect(error.context).to.deep.equal({
+        dependentIds: ['F-002'],
+        taskId: 'F-001',
+      })
+    })
+  })
+})
@@ -0,0 +1,30 @@
+import {expect} from 'chai'
+
+import {PrtError, PrtErrorCode, ViewNotFoundError} from '../../../src/errors/index.js'
+
+describe('ViewNotFoundError', () => {
+  describe('constructor', () => {
+    it('should create error with view name', () => {
+      const error = new ViewNotFoundError('standup')
+
+      expect(error).to.be.instanceOf(Error)
+      expect(error).to.be.instanceOf(PrtError)
+      expect(error).to.be.instanceOf(ViewNotFoundError)
+      expect(error.message).to.equal('View not found: standup')
+      expect(error.code).to.equal(PrtErrorCode.PRT_VIEW_NOT_FOUND)
+      expect(error.name).to.equal('ViewNotFoundError')
+    })
+
+    it('should include view name in context', () => {
+      const error = new ViewNotFoundError('standup')
+
+      expect(error.context).to.deep.equal({viewName: 'standup'})
+    })
+
+    it('should include the config path in context when given', () => {
+      const error = new ViewNotFoundError('standup', '/home/alice/.prtrc.json')
+
+      expect(error.context).to.deep.equal({configPath: '/home/alice/.prtrc.json', viewName: 'standup'})
+    })
+  })
+})
@@ -1,16 +1,16 @@
 import {expect} from 'chai'
-import {mkdir, rm, writeFile} from 'node:fs/promises'
+import {mkdir, readFile, rm, writeFile} from 'node:fs/promises'
 import {homedir} from 'node:os'
 import {join} from 'node:path'
 import {setTimeout} from 'node:timers/promises'
 
-import {ConfigNotFoundError, ValidationError} from '../../../src/errors/index.js'
+import {ConfigNotFoundError, ValidationError, ViewNotFoundError} from '../../../src/errors/index.js'
 import {
   ConfigRepository,
   getDefaultConfigRepository,
   resetDefaultConfigRepository,
 } from '../../../src/repositories/config.repository.js'
-import {Config} from '../../../src/util/types.js'
+import {Config, STATUS, TASK_TYPE} from '../../../src/util/types.js'
 
 const createValidConfig = (overrides?: Partial<Config>): Config => ({
   $schema: 'https://project-roadmap-tracking.com/schemas/config/v1.1.json',
@@ -209,6 +209,103 @@ describe('ConfigRepository', () => {
         expect(error).to.be.instanceOf(ValidationError)
       }
     })
+
+    it('should accept an idWidth of 3 or more', async () => {
+      await writeFile(testConfigPath, JSON.stringify(createValidConfig({idWidth: 4})), 'utf8')
+
+      const config = await repository.load()
+      expect(config.idWidth).to.equal(4)
+    })
+
+    it('should reject an idWidth below 3', async () => {
+      await writeFile(testConfigPath, JSON.stringify(createValidConfig({idWidth: 2})), 'utf8')
+
+      try {
+        await repository.load()
+        expect.fail('Expected load to throw ValidationError')
+      } catch (error) {
+        expect(error).to.be.instanceOf(ValidationError)
+      }
+    })
+
+    it('should accept custom task types', async () => {
+      await writeFile(testConfigPath, JSON.stringify(createValidConfig({taskTypes: {chore: 'C', spike: 'SP'}})), 'utf8')
+
+      const config = await repository.load()
+      expect(config.taskTypes).to.deep.equal({chore: 'C', spike: 'SP'})
+    })
+
+    it('should reject custom task types with invalid prefixes', async () => {
+      await writeFile(testConfigPath, JSON.stringify(createValidConfig({taskTypes: {chore: 'c'}})), 'utf8')
+
+      try {
+        await repository.load()
+        expect.fail('Expected load to throw ValidationError')
+      } catch (error) {
+        expect(error).to.be.instanceOf(ValidationError)
+      }
+    })
+
+    it('should reject custom task types that clash with built-in types', async () => {
+      await writeFile(testConfigPath, JSON.stringify(createValidConfig({taskTypes: {chore: 'F'}})), 'utf8')
+
+      try {
+        await repository.load()
+        expect.fail('Expected load to throw ValidationError')
+      } catch (error) {
+        expect(error).to.be.instanceOf(ValidationError)
+        expect((error as ValidationError).context?.errors).to.deep.include({
+          field: 'taskTypes.chore',
+          message: 'ID prefix F is already used by feature',
+          type: 'invalid-value',
+        })
+      }
+    })
+
+    it('should reject an unknown dependencyGuard mode', async () => {
+      await writeFile(testConfigPath, JSON.stringify(createValidConfig({dependencyGuard: 'loose' as never})), 'utf8')
+
+      try {
+        await repository.load()
+        expect.fail('Expected load to throw ValidationError')
+      } catch (error) {
+        expect(error).to.be.instanceOf(ValidationError)
+      }
+    })
+
+    it('should accept a workflow with custom statuses and transitions', async () => {
+      const workflow = {
+        statuses: {blocked: {symbol: '!'}},
+        transitions: [
+          {from: ['not-started', 'in-progress'], to: 'blocked'},
+          {from: '*', to: 'completed'},
+        ],
+      }
+      await writeFile(testConfigPath, JSON.stringify(createValidConfig({workflow})), 'utf8')
+
+      const config = await repository.load()
+      expect(config.workflow).to.deep.equal(workflow)
+    })
+
+    it('should reject workflow transitions to unknown statuses', async () => {
+      await writeFile(
+        testConfigPath,
+        JSON.stringify(createValidConfig({workflow: {transitions: [{from: 'not-started', to: 'blocked'}]}})),
+        'utf8',
+      )
+
+      try {
+        await repository.load()
+        expect.fail('Expected load to throw ValidationError')
+      } catch (error) {
+        expect(error).to.be.instanceOf(ValidationError)
+        expect((error as ValidationError).context?.errors).to.deep.include({
+          field: 'workflow.transitions[0]',
+          message: 'Unknown status: blocked. Valid statuses: completed, in-progress, not-started',
+          type: 'invalid-value',
+        })
+      }
+    })
   })
 
   describe('config inheritance', () => {
@@ -355,6 +452,127 @@ describe('ConfigRepository', () => {
     })
   })
 
+  describe('views', () => {
+    it('should merge views by name with project views overriding user views', async () => {
+      const userConfigPath = join(tempDir, 'user.prtrc.json')
+      const projectConfigPath = join(tempDir, 'project.prtrc.json')
+
+      await writeFile(
+        userConfigPath,
+        JSON.stringify(
+          createValidConfig({
+            views: {mine: {assignee: 'alice'}, standup: {format: 'compact', incomplete: true}},
+          }),
+        ),
+        'utf8',
+      )
+      await writeFile(
+        projectConfigPath,
+        JSON.stringify(createValidConfig({views: {standup: {status: [STATUS.InProgress]}}})),
+        'utf8',
+      )
+
+      const mergeRepo = new ConfigRepository({searchPaths: [projectConfigPath, userConfigPath]})
+      const merged = await mergeRepo.load()
+
+      expect(merged.views).to.deep.equal({
+        mine: {assignee: 'alice'},
+        standup: {status: [STATUS.InProgress]},
+      })
+    })
+
+    it('should reject an invalid view in the config file', async () => {
+      await writeFile(
+        testConfigPath,
+        JSON.stringify({...createValidConfig(), views: {standup: {format: 'fancy'}}}),
+        'utf8',
+      )
+
+      try {
+        await repository.load()
+        expect.fail('Should have thrown ValidationError')
+      } catch (error) {
+        expect(error).to.be.instanceOf(ValidationError)
+      }
+    })
+
+    it('should save a view to the project config and invalidate the cache', async () => {
+      await repository.load()
+
+      const path = await repository.saveView('standup', {format: 'compact', incomplete: true})
+      expect(path).to.equal(testConfigPath)
+
+      const config = await repository.load()
+      expect(config.views?.standup).to.deep.equal({format: 'compact', incomplete: true})
+      expect(config.metadata.name).to.equal('Test')
+    })
+
+    it('should replace a view with the same name', async () => {
+      await repository.saveView('standup', {incomplete: true})
+      await repository.saveView('standup', {assignee: 'bob'})
+
+      const config = await repository.load()
+      expect(config.views).to.deep.equal({standup: {assignee: 'bob'}})
+    })
+
+    it('should create the user config when saving a user view', async () => {
+      const userConfigPath = join(tempDir, 'user.prtrc.json')
+      const scopedRepo = new ConfigRepository({searchPaths: [testConfigPath, userConfigPath]})
+
+      const path = await scopedRepo.saveView('mine', {assignee: 'alice'}, 'user')
+
+      expect(path).to.equal(userConfigPath)
+      const userConfig = JSON.parse(await readFile(userConfigPath, 'utf8'))
+      expect(userConfig).to.deep.equal({views: {mine: {assignee: 'alice'}}})
+      expect((await scopedRepo.load()).views?.mine).to.deep.equal({assignee: 'alice'})
+    })
+
+    it('should throw ConfigNotFoundError when saving to a missing project config', async () => {
+      const missingRepo = new ConfigRepository({searchPaths: [join(tempDir, 'missing.prtrc.json')]})
+
+      try {
+        await missingRepo.saveView('standup', {incomplete: true})
+        expect.fail('Should have thrown ConfigNotFoundError')
+      } catch (error) {
+        expect(error).to.be.instanceOf(ConfigNotFoundError)
+      }
+    })
+
+    it('should reject invalid view names and options', async () => {
+      for (const [name, view] of [
+        ['stand up', {incomplete: true}],
+        ['standup', {sort: ['owner']}],
+      ] as const) {
+        try {
+          // eslint-disable-next-line no-await-in-loop
+          await repository.saveView(name, view)
+          expect.fail('Should have thrown ValidationError')
+        } catch (error) {
+          expect(error).to.be.instanceOf(ValidationError)
+        }
+      }
+    })
+
+    it('should delete a view', async () => {
+      await repository.saveView('standup', {incomplete: true})
+      await repository.saveView('triage', {type: [TASK_TYPE.Bug]})
+
+      await repository.deleteView('standup')
+
+      const config = await repository.load()
+      expect(config.views).to.deep.equal({triage: {type: [TASK_TYPE.Bug]}})
+    })
+
+    it('should throw ViewNotFoundError when deleting an unknown view', async () => {
+      try {
+        await repository.deleteView('standup')
+        expect.fail('Should have thrown ViewNotFoundError')
+      } catch (error) {
+        expect(error).to.be.instanceOf(ViewNotFoundError)
+      }
+    })
+  })
+
   describe('reload', () => {
     it('should invalidate cache and reload from disk', async () => {
       // First load
@@ -0,0 +1,134 @@
+import {expect} from 'chai'
+import {readdir, writeFile} from 'node:fs/promises'
+import {join} from 'node:path'
+
+import {JournalRepository} from '../../../src/repositories/journal.repository.js'
+import {NewJournalEntry} from '../../../src/services/journal.service.js'
+import {cleanupTempDir, createTempDir} from '../../helpers/fs-helpers.js'
+
+function change(command: string): NewJournalEntry {
+  return {
+    command,
+    inverse: [{op: 'replace', path: '/metadata/name', value: 'Before'}],
+    patch: [{op: 'replace', path: '/metadata/name', value: 'After'}],
+    timestamp: '2026-10-19T10:00:00.000Z',
+    user: 'alice',
+  }
+}
+
+describe('JournalRepository', () => {
+  let tempDir: string
+  let journalPath: string
+
+  beforeEach(async () => {
+    tempDir = await createTempDir('journal-repo-test-')
+    journalPath = join(tempDir, 'prt.journal.json')
+  })
+
+  afterEach(async () => {
+    await cleanupTempDir(tempDir)
+  })
+
+  describe('getJournalPath', () => {
+    it('should put the journal next to the roadmap', () => {
+      expect(JournalRepository.getJournalPath('/work/prt.json')).to.equal('/work/prt.journal.json')
+      expect(JournalRepository.getJournalPath('roadmap')).to.equal('roadmap.journal.json')
+    })
+  })
+
+  describe('fromConfig', () => {
+    it('should use the journal of the configured roadmap', async () => {
+      const repository = JournalRepository.fromConfig({
+        $schema: '',
+        journal: {maxEntries: 1},
+        metadata: {description: '', name: ''},
+        path: join(tempDir, 'prt.json'),
+      })
+
+      await repository.record(change('add A'))
+      await repository.record(change('add B'))
+
+      expect((await new JournalRepository(journalPath).load()).entries.map((e) => e.command)).to.deep.equal(['add B'])
+    })
+  })
+
+  describe('load', () => {
+    it('should return an empty journal when the file does not exist', async () => {
+      expect(await new JournalRepository(journalPath).load()).to.deep.equal({entries: [], undone: []})
+    })
+
+    it('should throw for an invalid journal file', async () => {
+      await writeFile(journalPath, 'not json')
+
+      try {
+        await new JournalRepository(journalPath).load()
+        expect.fail('Expected load to throw an error')
+      } catch (error) {
+        expect(error).to.be.instanceOf(SyntaxError)
+      }
+    })
+  })
+
+  describe('record', () => {
+    it('should number entries and write them atomically', async () => {
+      const repository = new JournalRepository(journalPath)
+
+      const first = await repository.record(change('add A'))
+      const second = await repository.record(change('add B'))
+
+      expect([first?.id, second?.id]).to.deep.equal([1, 2])
+      expect((await repository.load()).entries.map((e) => e.command)).to.deep.equal(['add A', 'add B'])
+      expect(await readdir(tempDir)).to.deep.equal(['prt.journal.json'])
+    })
+
+    it('should keep only the newest entries beyond the journal length', async () => {
+      const repository = new JournalRepository(journalPath, {maxEntries: 2})
+
+      for (const command of ['add A', 'add B', 'add C']) {
+        // eslint-disable-next-line no-await-in-loop
+        await repository.record(change(command))
+      }
+
+      const {entries} = await repository.load()
+      expect(entries.map((e) => [e.id, e.command])).to.deep.equal([
+        [2, 'add B'],
+        [3, 'add C'],
+      ])
+    })
+
+    it('should record nothing when the journal is turned off or nothing changed', async () => {
+      expect(await new JournalRepository(journalPath, {maxEntries: 0}).record(change('add A'))).to.be.null
+      expect(await new JournalRepository(journalPath).record(null)).to.be.null
+      expect(await readdir(tempDir)).to.deep.equal([])
+    })
+
+    it('should drop undone entries, which can no longer be redone', async () => {
+      const repository = new JournalRepository(journalPath)
+      const first = (await repository.record(change('add A')))!
+      await repository.markUndone(first)
+
+      const second = await repository.record(change('add B'))
+
+      expect(second?.id).to.equal(2)
+      expect(await repository.load()).to.deep.include({undone: []})
+    })
+  })
+
+  describe('markUndone and markRedone', () => {
+    it('should move an entry between the journal and the undone list', async () => {
+      const repository = new JournalRepository(journalPath)
+      await repository.record(change('add A'))
+      const entry = (await repository.record(change('add B')))!
+
+      await repository.markUndone(entry)
+      let journal = await repository.load()
+      expect(journal.entries.map((e) => e.id)).to.deep.equal([1])
+      expect(journal.undone.map((e) => e.id)).to.deep.equal([2])
+
+      await repository.markRedone(entry)
+      journal = await repository.load()
+      expect(journal.entries.map((e) => e.id)).to.deep.equal([1, 2])
+      expect(journal.undone).to.deep.equal([])
+    })
+  })
+})
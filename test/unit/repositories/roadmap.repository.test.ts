@@ -1,8 +1,9 @@
 import {expect} from 'chai'
-import {mkdir, rm, writeFile} from 'node:fs/promises'
+import {mkdir, readdir, readFile, rm, utimes, writeFile} from 'node:fs/promises'
 import {join} from 'node:path'
 import {setTimeout} from 'node:timers/promises'
 
+import {ConcurrentModificationError} from '../../../src/errors/index.js'
 import {
   getDefaultRepository,
   resetDefaultRepository,
@@ -215,6 +216,62 @@ describe('RoadmapRepository', () => {
 
       await noCacheRepo.dispose()
     })
+
+    it('should leave no lock or temporary files behind', async () => {
+      const roadmap = await repository.load(testRoadmapPath)
+      await repository.save(testRoadmapPath, roadmap)
+
+      expect(await readdir(tempDir)).to.deep.equal(['prt.json'])
+    })
+
+    it('should save repeatedly after loading once', async () => {
+      const roadmap = await repository.load(testRoadmapPath)
+
+      await repository.save(testRoadmapPath, {...roadmap, tasks: []})
+      await repository.save(testRoadmapPath, roadmap)
+
+      expect(JSON.parse(await readFile(testRoadmapPath, 'utf8'))).to.deep.equal(roadmap)
+    })
+
+    it('should refuse to save when another process changed the file since it was loaded', async () => {
+      const roadmap = await repository.load(testRoadmapPath)
+      const external = JSON.stringify({...roadmap, tasks: []}, null, 2)
+      await writeFile(testRoadmapPath, external, 'utf8')
+
+      try {
+        await repository.save(testRoadmapPath, roadmap)
+        expect.fail('Expected save to throw an error')
+      } catch (error) {
+        expect(error).to.be.instanceOf(ConcurrentModificationError)
+      }
+
+      expect(await readFile(testRoadmapPath, 'utf8')).to.equal(external)
+    })
+
+    it('should refuse to save when the modification time changed since it was loaded', async () => {
+      const roadmap = await repository.load(testRoadmapPath)
+      const later = new Date(Date.now() + 60_000)
+      await utimes(testRoadmapPath, later, later)
+
+      try {
+        await repository.save(testRoadmapPath, roadmap)
+        expect.fail('Expected save to throw an error')
+      } catch (error) {
+        expect(error).to.be.instanceOf(ConcurrentModificationError)
+      }
+    })
+
+    it('should detect changes when loading and saving with different repositories', async () => {
+      const roadmap = await new RoadmapRepository({cacheEnabled: false}).load(testRoadmapPath)
+      await rm(testRoadmapPath)
+
+      try {
+        await repository.save(testRoadmapPath, roadmap)
+        expect.fail('Expected save to throw an error')
+      } catch (error) {
+        expect(error).to.be.instanceOf(ConcurrentModificationError)
+      }
+    })
   })
 
   describe('LRU cache eviction', () => {
@@ -1,10 +1,14 @@
 import {expect} from 'chai'
 
 import {DisplayService} from '../../../src/services/display.service.js'
+import {MilestoneService} from '../../../src/services/milestone.service.js'
 import {RoadmapStats} from '../../../src/services/roadmap.service.js'
+import {ScheduleService} from '../../../src/services/schedule.service.js'
+import {SprintService} from '../../../src/services/sprint.service.js'
 import {DependencyValidationError} from '../../../src/services/task-dependency.service.js'
 import {PRIORITY, STATUS, Task, TASK_TYPE} from '../../../src/util/types.js'
-import {createSimpleRoadmap} from '../../fixtures/roadmap-factory.js'
+import {getWorkflow} from '../../../src/util/workflow.js'
+import {createRoadmap, createSimpleRoadmap} from '../../fixtures/roadmap-factory.js'
 import {createBugTask, createFeatureTask, createTask} from '../../fixtures/task-factory.js'
 
 describe('DisplayService', () => {
@@ -14,6 +18,37 @@ describe('DisplayService', () => {
     displayService = new DisplayService()
   })
 
+  describe('formatActivity', () => {
+    it('should format comments and changes one per line', () => {
+      const lines = displayService.formatActivity([
+        {
+          at: '2026-10-19T09:12:30.000Z',
+          author: 'alice',
+          field: 'status',
+          from: STATUS.NotStarted,
+          to: STATUS.InProgress,
+          type: 'change',
+        },
+        {
+          at: '2026-10-19T09:15:00.000Z',
+          author: 'alice',
+          field: 'depends-on',
+          from: ['F-001'],
+          to: ['F-003'],
+          type: 'change',
+        },
+        {at: '2026-10-19T10:02:00.000Z', author: 'bob', body: 'Waiting for review\nSee the PR', type: 'comment'},
+      ])
+
+      expect(lines).to.deep.equal([
+        '  2026-10-19 09:12  alice  changed status from not-started to in-progress',
+        '  2026-10-19 09:15  alice  changed depends-on: added F-003, removed F-001',
+        '  2026-10-19 10:02  bob  commented: Waiting for review',
+        '    See the PR',
+      ])
+    })
+  })
+
   describe('formatPriorityLabel', () => {
     it('should format high priority', () => {
       expect(displayService.formatPriorityLabel(PRIORITY.High)).to.equal('High')
@@ -54,6 +89,19 @@ describe('DisplayService', () => {
     it('should format not-started status as circle', () => {
       expect(displayService.formatStatusSymbol(STATUS.NotStarted)).to.equal('○')
     })
+
+    it('should use the symbols of the configured workflow', () => {
+      const workflowDisplay = new DisplayService(
+        getWorkflow({workflow: {statuses: {blocked: {symbol: '!'}, completed: {symbol: '●'}}}}),
+      )
+
+      expect(workflowDisplay.formatStatusSymbol('blocked')).to.equal('!')
+      expect(workflowDisplay.formatStatusSymbol(STATUS.Completed)).to.equal('●')
+    })
+
+    it('should format an unknown status as a question mark', () => {
+      expect(displayService.formatStatusSymbol('blocked')).to.equal('?')
+    })
   })
 
   describe('formatStatusText', () => {
@@ -68,6 +116,10 @@ describe('DisplayService', () => {
     it('should format not-started status with title case', () => {
       expect(displayService.formatStatusText(STATUS.NotStarted)).to.equal('Not Started')
     })
+
+    it('should format custom statuses with title case', () => {
+      expect(displayService.formatStatusText('in-review')).to.equal('In Review')
+    })
   })
 
   describe('formatTestStatus', () => {
@@ -203,6 +255,12 @@ describe('DisplayService', () => {
         expect(lines.join('\n')).to.include('Depends On: F-001')
         expect(lines.join('\n')).to.include('Blocks: F-005')
       })
+
+      it('should show the parent of a subtask', () => {
+        const lines = displayService.formatTaskDetails(createFeatureTask({parent: 'F-010'}))
+
+        expect(lines).to.include('Parent: F-010')
+      })
     })
 
     describe('optional field formatting', () => {
@@ -277,6 +335,17 @@ describe('DisplayService', () => {
         expect(lines.join('\n')).to.include('This is a note about the task')
       })
 
+      it('should show the activity timeline after the notes', () => {
+        const task = createFeatureTask({
+          activity: [{at: '2026-10-19T10:02:00.000Z', author: 'bob', body: 'Looks good', type: 'comment'}],
+          notes: 'Old notes',
+        })
+
+        const output = displayService.formatTaskDetails(task).join('\n')
+
+        expect(output).to.include('Notes:\nOld notes\n\nActivity:\n  2026-10-19 10:02  bob  commented: Looks good')
+      })
+
       it('should not show notes when null', () => {
         const task = createFeatureTask({notes: null})
 
@@ -558,6 +627,37 @@ describe('DisplayService', () => {
       expect(lines.join('\n')).to.include('Tasks (1 total):')
     })
 
+    it('should output the task array as JSON for json format', () => {
+      const tasks = [
+        createFeatureTask({'github-refs': [], id: 'F-001'}),
+        createBugTask({'github-refs': [], id: 'B-001'}),
+      ]
+      const lines = displayService.formatTaskList(tasks, {format: 'json'})
+
+      expect(lines).to.have.lengthOf(1)
+      expect(JSON.parse(lines[0])).to.deep.equal(tasks)
+    })
+
+    it('should print one line per task for compact format', () => {
+      const tasks = [createFeatureTask({id: 'F-001', title: 'First'}), createBugTask({id: 'B-001', title: 'Second'})]
+      const lines = displayService.formatTaskList(tasks, {format: 'compact'})
+
+      expect(lines).to.deep.equal(['○ [M] [F-001] First', '○ [H] [B-001] Second'])
+    })
+
+    it('should use the default columns for table format', () => {
+      const lines = displayService.formatTaskList([createFeatureTask({id: 'F-001', title: 'First'})], {format: 'table'})
+
+      expect(lines[0]).to.equal('ID     STATUS       PRIORITY  TITLE  ASSIGNEE  DUE')
+    })
+
+    it('should pass columns and width through to the table format', () => {
+      const tasks = [createFeatureTask({id: 'F-001', title: 'A long title'})]
+      const lines = displayService.formatTaskList(tasks, {columns: ['id', 'title'], format: 'table', width: 12})
+
+      expect(lines).to.deep.equal(['ID     TITLE', 'F-001  A lo…'])
+    })
+
     it('should use default format when no options provided', () => {
       const tasks = [createFeatureTask()]
       const lines = displayService.formatTaskList(tasks)
@@ -592,6 +692,327 @@ describe('DisplayService', () => {
 
       expect(lines.join('\n')).to.include('Tasks (50 total):')
     })
+
+    it('should indent subtasks under their parent with tree', () => {
+      const tasks = [
+        createFeatureTask({id: 'F-011', parent: 'F-010', title: 'Child'}),
+        createFeatureTask({id: 'F-020', title: 'Other'}),
+        createFeatureTask({id: 'F-010', title: 'Parent'}),
+      ]
+
+      const lines = displayService.formatTaskList(tasks, {format: 'compact', tree: true})
+
+      expect(lines).to.deep.equal(['○ [M] [F-020] Other', '○ [M] [F-010] Parent', '  ○ [M] [F-011] Child'])
+    })
+
+    it('should indent subtask titles in tree tables', () => {
+      const tasks = [
+        createFeatureTask({id: 'F-010', title: 'Parent'}),
+        createFeatureTask({id: 'F-011', parent: 'F-010', title: 'Child'}),
+      ]
+
+      const lines = displayService.formatTaskList(tasks, {columns: ['id', 'title'], format: 'table', tree: true})
+
+      expect(lines).to.deep.equal(['ID     TITLE', 'F-010  Parent', 'F-011    Child'])
+    })
+  })
+
+  describe('formatSubtasks', () => {
+    it('should show the subtask tree with progress and effort rollups', () => {
+      const tasks = [
+        createFeatureTask({id: 'F-010'}),
+        createFeatureTask({effort: 3, id: 'F-011', parent: 'F-010', status: STATUS.Completed, title: 'Done'}),
+        createFeatureTask({effort: 5, id: 'F-012', parent: 'F-010', title: 'Open'}),
+        createFeatureTask({id: 'F-013', parent: 'F-012', title: 'Nested'}),
+      ]
+
+      const lines = displayService.formatSubtasks(tasks[0], createRoadmap({tasks}))
+
+      expect(lines).to.deep.equal([
+        'Subtasks (1 of 3 completed, 33.3%):',
+        '  ✓ [M] [F-011] Done',
+        '  ○ [M] [F-012] Open',
+        '    ○ [M] [F-013] Nested',
+        'Subtask effort: 8 total, 5 remaining, 1 unestimated',
+        '',
+      ])
+    })
+
+    it('should return nothing for a task without subtasks', () => {
+      const task = createFeatureTask({id: 'F-010'})
+
+      expect(displayService.formatSubtasks(task, createRoadmap({tasks: [task]}))).to.deep.equal([])
+    })
+  })
+
+  describe('formatMilestoneList', () => {
+    it('should show one line per milestone with its target and progress', () => {
+      const milestoneService = new MilestoneService()
+      const roadmap = createRoadmap({
+        milestones: [
+          {createdAt: '2026-09-01T00:00:00.000Z', id: 'v1.0', name: 'First release', targetDate: '2026-09-15'},
+          {closedAt: '2026-08-30T00:00:00.000Z', createdAt: '2026-08-01T00:00:00.000Z', id: 'beta', name: 'beta'},
+        ],
+        tasks: [createFeatureTask({id: 'F-001', milestone: 'v1.0'})],
+      })
+      const now = new Date('2026-10-01T00:00:00.000Z')
+
+      const lines = displayService.formatMilestoneList([
+        milestoneService.getReport(roadmap, 'v1.0', now),
+        milestoneService.getReport(roadmap, 'beta', now),
+      ])
+
+      expect(lines).to.deep.equal([
+        '○ v1.0 First release (target 2026-09-15, overdue, 0 of 1 tasks, 0%)',
+        '✓ beta (closed 2026-08-30, 0 of 0 tasks, 0%)',
+      ])
+    })
+
+    it('should explain how to add a milestone when there are none', () => {
+      expect(displayService.formatMilestoneList([])).to.deep.equal([
+        'No milestones. Create one with "prt milestone add <id>".',
+      ])
+    })
+  })
+
+  describe('formatMilestoneReport', () => {
+    it('should show progress, tasks, blocked and at-risk tasks', () => {
+      const milestoneService = new MilestoneService()
+      const roadmap = createRoadmap({
+        milestones: [
+          {createdAt: '2026-09-01T00:00:00.000Z', id: 'v1.0', name: 'First release'},
+          {createdAt: '2026-09-01T00:00:00.000Z', id: 'v2.0', name: 'v2.0'},
+        ],
+        tasks: [
+          createFeatureTask({effort: 3, id: 'F-001', milestone: 'v1.0', status: STATUS.Completed, title: 'Done'}),
+          createFeatureTask({'depends-on': ['F-003'], id: 'F-002', milestone: 'v1.0', title: 'Waiting'}),
+          createFeatureTask({id: 'F-003', milestone: 'v2.0', title: 'Later'}),
+        ],
+      })
+
+      const lines = displayService.formatMilestoneReport(
+        milestoneService.getReport(roadmap, 'v1.0'),
+        milestoneService.getTasks(roadmap, 'v1.0'),
+      )
+
+      expect(lines).to.deep.equal([
+        '',
+        'Milestone: v1.0',
+        '',
+        'Name: First release',
+        'Status: Open',
+        '',
+        'Progress: 1 of 2 tasks completed (50%)',
+        'Effort: 3 total, 0 remaining, 1 unestimated',
+        '',
+        'Tasks (2):',
+        '  ✓ [M] [F-001] Done',
+        '  ○ [M] [F-002] Waiting',
+        '',
+        'Blocked (1):',
+        '  ○ [M] [F-002] Waiting - waiting on F-003',
+        '',
+        'At risk (1):',
+        '  ○ [M] [F-002] Waiting - depends on F-003 in v2.0',
+        '',
+      ])
+    })
+  })
+
+  describe('formatSprintPlan', () => {
+    it('should list the pulled tasks, the capacity used and the skipped tasks', () => {
+      const sprintService = new SprintService()
+      const roadmap = createRoadmap({
+        sprints: [sprintService.createSprint({capacity: {alice: 5}, id: 's1', startDate: '2026-11-02'})],
+        tasks: [
+          createFeatureTask({assignedTo: 'alice', effort: 3, id: 'F-001', title: 'Schema'}),
+          createFeatureTask({assignedTo: 'alice', id: 'F-002', title: 'Unsized'}),
+          createFeatureTask({id: 'F-003', title: 'Nobody'}),
+        ],
+      })
+
+      expect(displayService.formatSprintPlan(sprintService.planSprint(roadmap, 's1'))).to.deep.equal([
+        'Pulled 1 task into sprint s1:',
+        '  ○ [M] [F-001] Schema (alice) - effort 3',
+        '',
+        'Capacity:',
+        '  alice: 3 of 5 committed',
+        '',
+        'Skipped without an effort estimate: F-002',
+        '',
+        'Skipped without an assignee with capacity: F-003',
+      ])
+    })
+  })
+
+  describe('formatSprintStatus', () => {
+    it('should show dates, committed vs. completed effort and the tasks', () => {
+      const sprintService = new SprintService()
+      const roadmap = createRoadmap({
+        sprints: [sprintService.createSprint({capacity: {alice: 5}, id: 's1', startDate: '2026-11-02T00:00:00.000Z'})],
+        tasks: [
+          createFeatureTask({
+            assignedTo: 'alice',
+            effort: 2,
+            id: 'F-001',
+            sprint: 's1',
+            status: STATUS.Completed,
+            title: 'Done',
+          }),
+          createFeatureTask({assignedTo: 'alice', effort: 3, id: 'F-002', sprint: 's1', title: 'Open'}),
+        ],
+      })
+      const status = sprintService.getStatus(roadmap, 's1', new Date('2026-11-10T12:00:00.000Z'))
+
+      expect(displayService.formatSprintStatus(status, sprintService.getTasks(roadmap, 's1'))).to.deep.equal([
+        '',
+        'Sprint: s1',
+        '',
+        'Name: s1',
+        'Dates: 2026-11-02 to 2026-11-15 (active, 6 days left)',
+        '',
+        'Effort: 2 of 5 completed (40%)',
+        'Tasks: 1 of 2 completed',
+        '',
+        'Assignees:',
+        '  alice: 2 of 5 completed, capacity 5',
+        '',
+        'Tasks (2):',
+        '  ✓ [M] [F-001] Done (alice)',
+        '  ○ [M] [F-002] Open (alice)',
+        '',
+      ])
+    })
+  })
+
+  describe('formatTaskLine', () => {
+    it('should show status, priority, id and title on one line', () => {
+      const task = createFeatureTask({id: 'F-001', priority: PRIORITY.High, status: STATUS.InProgress, title: 'Login'})
+
+      expect(displayService.formatTaskLine(task)).to.equal('~ [H] [F-001] Login')
+    })
+
+    it('should append assignee and due date when set', () => {
+      const task = createFeatureTask({
+        assignedTo: 'alice',
+        dueDate: '2026-11-01T00:00:00.000Z',
+        id: 'F-001',
+        title: 'Login',
+      })
+
+      expect(displayService.formatTaskLine(task)).to.equal('○ [M] [F-001] Login (alice, due 2026-11-01)')
+    })
+
+    it('should truncate to the given width with an ellipsis', () => {
+      const task = createFeatureTask({id: 'F-001', title: 'A very long task title'})
+      const line = displayService.formatTaskLine(task, 20)
+
+      expect(line).to.have.lengthOf(20)
+      expect(line).to.equal('○ [M] [F-001] A ver…')
+    })
+  })
+
+  describe('formatTaskTable', () => {
+    it('should align columns under a header row', () => {
+      const tasks = [
+        createFeatureTask({id: 'F-001', priority: PRIORITY.High, title: 'Login'}),
+        createBugTask({id: 'B-012', priority: PRIORITY.Low, title: 'Crash on startup'}),
+      ]
+
+      expect(displayService.formatTaskTable(tasks, ['id', 'priority', 'title'])).to.deep.equal([
+        'ID     PRIORITY  TITLE',
+        'F-001  high      Login',
+        'B-012  low       Crash on startup',
+      ])
+    })
+
+    it('should format dates, lists, effort and test status', () => {
+      const task = createFeatureTask({
+        'depends-on': ['F-002', 'F-003'],
+        dueDate: '2026-11-01T12:00:00.000Z',
+        effort: 3,
+        id: 'F-001',
+        'passes-tests': true,
+        tags: ['ui', 'auth'],
+      })
+
+      const lines = displayService.formatTaskTable([task], ['due', 'effort', 'deps', 'tags', 'tests'])
+
+      expect(lines[1]).to.equal('2026-11-01  3       F-002,F-003  ui,auth  pass')
+    })
+
+    it('should leave missing values blank', () => {
+      const task = createFeatureTask({id: 'F-001'})
+
+      expect(displayService.formatTaskTable([task], ['assignee', 'id'])).to.deep.equal([
+        'ASSIGNEE  ID',
+        '          F-001',
+      ])
+    })
+
+    it('should narrow a column to fit the width', () => {
+      const tasks = [createFeatureTask({id: 'F-001', title: 'A title that is far too long for the terminal'})]
+      const lines = displayService.formatTaskTable(tasks, ['id', 'title', 'status'], 40)
+
+      expect(lines).to.deep.equal(['ID     TITLE                 STATUS', 'F-001  A title that is far…  not-started'])
+      for (const line of lines) {
+        expect(line.length).to.be.at.most(40)
+      }
+    })
+
+    it('should narrow the column furthest above its header first, not the widest', () => {
+      const task = createFeatureTask({id: 'F-001', milestone: 'v1-release-candidate1', title: 'abcdefghijklmnopqrst'})
+      const lines = displayService.formatTaskTable([task], ['id', 'title', 'milestone'], 47)
+
+      expect(lines[1]).to.equal('F-001  abcdefghijklmnop…  v1-release-candidate1')
+    })
+
+    it('should cut rows that still do not fit once columns reach their headers', () => {
+      const tasks = [createFeatureTask({id: 'F-001', title: 'Login'})]
+      const lines = displayService.formatTaskTable(tasks, ['id', 'title', 'status', 'priority'], 12)
+
+      for (const line of lines) {
+        expect(line.length).to.be.at.most(12)
+      }
+
+      expect(lines[1]).to.equal('F-001  Logi…')
+    })
+
+    it('should return only the header for no tasks', () => {
+      expect(displayService.formatTaskTable([], ['id', 'title'])).to.deep.equal(['ID  TITLE'])
+    })
+  })
+
+  describe('formatNextTasks', () => {
+    it('should number each task and show due date, unblocks and assignee', () => {
+      const task = createFeatureTask({
+        assignedTo: 'alice',
+        dueDate: '2026-11-01T00:00:00.000Z',
+        id: 'F-003',
+        priority: PRIORITY.High,
+        title: 'Ship it',
+      })
+
+      const lines = displayService.formatNextTasks([{task, unblocks: 2}], 4)
+
+      expect(lines).to.include('Next actionable tasks (1 of 4 ready):')
+      expect(lines).to.include('1. ○ [H] [F-003] Ship it')
+      expect(lines).to.include('   Due: 2026-11-01 | Unblocks: 2 | Assignee: alice')
+    })
+
+    it('should show placeholders for missing due date and assignee', () => {
+      const task = createFeatureTask({id: 'F-001'})
+
+      const lines = displayService.formatNextTasks([{task, unblocks: 0}])
+
+      expect(lines).to.include('   Due: none | Unblocks: 0 | Assignee: unassigned')
+    })
+
+    it('should explain when no tasks are actionable', () => {
+      const lines = displayService.formatNextTasks([])
+
+      expect(lines.join('\n')).to.include('No actionable tasks')
+    })
   })
 
   describe('formatRoadmapStats', () => {
@@ -625,6 +1046,19 @@ describe('DisplayService', () => {
       expect(lines.join('\n')).to.include('High: 0')
     })
 
+    it('should list custom workflow statuses after the built-in ones', () => {
+      const stats: RoadmapStats = {
+        byPriority: {[PRIORITY.High]: 0, [PRIORITY.Low]: 0, [PRIORITY.Medium]: 0},
+        byStatus: {blocked: 2, [STATUS.Completed]: 0, [STATUS.InProgress]: 0, [STATUS.NotStarted]: 0},
+        byType: {bug: 0, feature: 2, improvement: 0, planning: 0, research: 0},
+        totalTasks: 2,
+      }
+
+      const lines = displayService.formatRoadmapStats(stats)
+
+      expect(lines.indexOf('  Blocked: 2')).to.equal(lines.indexOf('  Not Started: 0') + 1)
+    })
+
     it('should include main header', () => {
       const stats: RoadmapStats = {
         byPriority: {[PRIORITY.High]: 0, [PRIORITY.Low]: 0, [PRIORITY.Medium]: 0},
@@ -685,6 +1119,23 @@ describe('DisplayService', () => {
       expect(lines).to.include('  Research: 0')
     })
 
+    it('should list custom task types after the built-in ones', () => {
+      const stats: RoadmapStats = {
+        byPriority: {[PRIORITY.High]: 0, [PRIORITY.Low]: 0, [PRIORITY.Medium]: 0},
+        byStatus: {[STATUS.Completed]: 0, [STATUS.InProgress]: 0, [STATUS.NotStarted]: 0},
+        byType: {bug: 0, chore: 4, feature: 0, improvement: 0, planning: 0, research: 0},
+        totalTasks: 4,
+      }
+
+      const lines = displayService.formatRoadmapStats(stats)
+
+      expect(lines.slice(lines.indexOf('  Research: 0'), lines.indexOf('By Priority:'))).to.deep.equal([
+        '  Research: 0',
+        '  Chore: 4',
+        '',
+      ])
+    })
+
     it('should include "By Priority" section', () => {
       const stats: RoadmapStats = {
         byPriority: {[PRIORITY.High]: 7, [PRIORITY.Low]: 2, [PRIORITY.Medium]: 4},
@@ -814,6 +1265,85 @@ describe('DisplayService', () => {
       expect(lines).to.be.an('array')
       expect(lines.every((line) => typeof line === 'string')).to.be.true
     })
+
+    it('should include progress, effort and breakdown sections when present', () => {
+      const stats: RoadmapStats = {
+        byAssignee: {alice: {completed: 1, total: 2}, bob: {completed: 0, total: 1}},
+        byPriority: {[PRIORITY.High]: 0, [PRIORITY.Low]: 0, [PRIORITY.Medium]: 4},
+        byStatus: {[STATUS.Completed]: 2, [STATUS.InProgress]: 1, [STATUS.NotStarted]: 1},
+        byTag: {api: {completed: 2, total: 3}},
+        byType: {bug: 0, feature: 4, improvement: 0, planning: 0, research: 0},
+        completionRate: 50,
+        effort: {remaining: 2.5, total: 6, unestimated: 1},
+        overdue: 1,
+        testPassRate: 25,
+        testsPassing: 1,
+        totalTasks: 4,
+      }
+
+      const lines = displayService.formatRoadmapStats(stats)
+
+      expect(lines).to.include('  Completion: 50% (2 of 4 tasks)')
+      expect(lines).to.include('  Tests Passing: 25% (1 of 4 tasks)')
+      expect(lines).to.include('  Overdue: 1')
+      expect(lines).to.include('  Remaining: 2.5')
+      expect(lines).to.include('  Unestimated Tasks: 1')
+      expect(lines.indexOf('  alice: 1 of 2 completed')).to.be.lessThan(lines.indexOf('  bob: 0 of 1 completed'))
+      expect(lines).to.include('  api: 2 of 3 completed')
+    })
+
+    it('should omit optional sections for basic stats', () => {
+      const stats: RoadmapStats = {
+        byPriority: {[PRIORITY.High]: 0, [PRIORITY.Low]: 0, [PRIORITY.Medium]: 0},
+        byStatus: {[STATUS.Completed]: 0, [STATUS.InProgress]: 0, [STATUS.NotStarted]: 0},
+        byType: {bug: 0, feature: 0, improvement: 0, planning: 0, research: 0},
+        totalTasks: 0,
+      }
+
+      const lines = displayService.formatRoadmapStats(stats)
+
+      expect(lines).to.not.include('Progress:')
+      expect(lines).to.not.include('Effort:')
+      expect(lines).to.not.include('By Assignee:')
+    })
+  })
+
+  describe('formatScheduleAnalysis', () => {
+    const scheduleService = new ScheduleService()
+
+    it('should report an empty schedule', () => {
+      const lines = displayService.formatScheduleAnalysis(scheduleService.analyze([]))
+
+      expect(lines).to.include('No remaining tasks to schedule.')
+    })
+
+    it('should list the critical path and mark critical tasks in the schedule', () => {
+      const analysis = scheduleService.analyze([
+        createFeatureTask({effort: 2, id: 'F-001', title: 'First'}),
+        createFeatureTask({'depends-on': ['F-001'], effort: 1.5, id: 'F-002', title: 'Second'}),
+        createFeatureTask({effort: 1, id: 'F-003', title: 'Side'}),
+      ])
+
+      const lines = displayService.formatScheduleAnalysis(analysis)
+
+      expect(lines).to.include('Critical path (total effort: 3.5):')
+      expect(lines).to.include('  ○ [M] [F-002] Second (effort: 1.5)')
+      expect(lines).to.include('  Task     Effort  Start  Finish  Latest Start  Slack')
+      expect(lines).to.include('  F-001 *       2      0       2             0      0')
+      expect(lines).to.include('  F-003         1      0       1           2.5    2.5')
+    })
+
+    it('should list due date conflicts', () => {
+      const analysis = scheduleService.analyze(
+        [createFeatureTask({dueDate: '2026-01-01', effort: 1, id: 'F-001', title: 'Late'})],
+        {startDate: new Date('2026-01-01')},
+      )
+
+      const lines = displayService.formatScheduleAnalysis(analysis)
+
+      expect(lines).to.include('Due date conflicts (1):')
+      expect(lines).to.include('  ⚠ [F-001] Late: due 2026-01-01, earliest finish 2026-01-02 (1 day late)')
+    })
   })
 
   describe('formatValidationErrors', () => {
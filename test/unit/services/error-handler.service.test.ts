@@ -40,6 +40,31 @@ describe('ErrorHandlerService', () => {
       expect(exitCode).to.equal(ExitCodes.VALIDATION_ERROR)
     })
 
+    it('should map query invalid to VALIDATION_ERROR exit code', () => {
+      const exitCode = errorHandlerService.getExitCodeForErrorCode(PrtErrorCode.PRT_QUERY_INVALID)
+      expect(exitCode).to.equal(ExitCodes.VALIDATION_ERROR)
+    })
+
+    it('should map milestone not found to NOT_FOUND exit code', () => {
+      const exitCode = errorHandlerService.getExitCodeForErrorCode(PrtErrorCode.PRT_MILESTONE_NOT_FOUND)
+      expect(exitCode).to.equal(ExitCodes.NOT_FOUND)
+    })
+
+    it('should map sprint not found to NOT_FOUND exit code', () => {
+      const exitCode = errorHandlerService.getExitCodeForErrorCode(PrtErrorCode.PRT_SPRINT_NOT_FOUND)
+      expect(exitCode).to.equal(ExitCodes.NOT_FOUND)
+    })
+
+    it('should map view not found to NOT_FOUND exit code', () => {
+      const exitCode = errorHandlerService.getExitCodeForErrorCode(PrtErrorCode.PRT_VIEW_NOT_FOUND)
+      expect(exitCode).to.equal(ExitCodes.NOT_FOUND)
+    })
+
+    it('should map an invalid status transition to VALIDATION_ERROR exit code', () => {
+      const exitCode = errorHandlerService.getExitCodeForErrorCode(PrtErrorCode.PRT_TASK_STATUS_TRANSITION_INVALID)
+      expect(exitCode).to.equal(ExitCodes.VALIDATION_ERROR)
+    })
+
     it('should map validation failed to VALIDATION_ERROR exit code', () => {
       const exitCode = errorHandlerService.getExitCodeForErrorCode(PrtErrorCode.PRT_VALIDATION_FAILED)
       expect(exitCode).to.equal(ExitCodes.VALIDATION_ERROR)
@@ -50,12 +75,75 @@ describe('ErrorHandlerService', () => {
       expect(exitCode).to.equal(ExitCodes.DEPENDENCY_ERROR)
     })
 
+    it('should map task has dependents to DEPENDENCY_ERROR exit code', () => {
+      const exitCode = errorHandlerService.getExitCodeForErrorCode(PrtErrorCode.PRT_TASK_HAS_DEPENDENTS)
+      expect(exitCode).to.equal(ExitCodes.DEPENDENCY_ERROR)
+    })
+
+    it('should map incomplete dependencies to INCOMPLETE_DEPENDENCIES exit code', () => {
+      const exitCode = errorHandlerService.getExitCodeForErrorCode(PrtErrorCode.PRT_TASK_DEPENDENCIES_INCOMPLETE)
+      expect(exitCode).to.equal(ExitCodes.INCOMPLETE_DEPENDENCIES)
+    })
+
+    it('should map lock timeouts and concurrent modifications to GENERAL_ERROR exit code', () => {
+      expect(errorHandlerService.getExitCodeForErrorCode(PrtErrorCode.PRT_FILE_LOCK_TIMEOUT)).to.equal(
+        ExitCodes.GENERAL_ERROR,
+      )
+      expect(errorHandlerService.getExitCodeForErrorCode(PrtErrorCode.PRT_FILE_CONCURRENT_MODIFICATION)).to.equal(
+        ExitCodes.GENERAL_ERROR,
+      )
+    })
+
+    it('should map a journal conflict to GENERAL_ERROR exit code', () => {
+      const exitCode = errorHandlerService.getExitCodeForErrorCode(PrtErrorCode.PRT_JOURNAL_CONFLICT)
+      expect(exitCode).to.equal(ExitCodes.GENERAL_ERROR)
+    })
+
+    it('should map a failed git command to GENERAL_ERROR exit code', () => {
+      const exitCode = errorHandlerService.getExitCodeForErrorCode(PrtErrorCode.PRT_GIT_COMMAND_FAILED)
+      expect(exitCode).to.equal(ExitCodes.GENERAL_ERROR)
+    })
+
     it('should map unknown error to GENERAL_ERROR exit code', () => {
       const exitCode = errorHandlerService.getExitCodeForErrorCode(PrtErrorCode.PRT_UNKNOWN)
       expect(exitCode).to.equal(ExitCodes.GENERAL_ERROR)
     })
   })
 
+  describe('formatErrorJson', () => {
+    it('should include code, message and context for PRT errors', () => {
+      const error = new TaskNotFoundError('F-001', '/path/to/prt.json')
+
+      const output = JSON.parse(errorHandlerService.formatErrorJson(error))
+
+      expect(output).to.deep.equal({
+        error: {
+          code: PrtErrorCode.PRT_TASK_NOT_FOUND,
+          context: {roadmapPath: '/path/to/prt.json', taskId: 'F-001'},
+          message: 'Task not found: F-001',
+        },
+      })
+    })
+
+    it('should default context to an empty object', () => {
+      const output = JSON.parse(errorHandlerService.formatErrorJson(new PrtError('Oops')))
+
+      expect(output.error.context).to.deep.equal({})
+    })
+
+    it('should report generic errors as PRT_UNKNOWN', () => {
+      const output = JSON.parse(errorHandlerService.formatErrorJson(new Error('Something broke')))
+
+      expect(output).to.deep.equal({error: {code: PrtErrorCode.PRT_UNKNOWN, context: {}, message: 'Something broke'}})
+    })
+
+    it('should handle non-Error values', () => {
+      const output = JSON.parse(errorHandlerService.formatErrorJson('plain string'))
+
+      expect(output.error.message).to.equal('plain string')
+    })
+  })
+
   describe('formatErrorMessage', () => {
     it('should format PrtError with message and code', () => {
       const error = new ConfigNotFoundError('/path/to/config')
@@ -0,0 +1,184 @@
+import {expect} from 'chai'
+
+import {TaskNotFoundError} from '../../../src/errors/index.js'
+import {GraphRenderService} from '../../../src/services/graph-render.service.js'
+import {PRIORITY, STATUS, Task} from '../../../src/util/types.js'
+import {createFeatureTask} from '../../fixtures/task-factory.js'
+
+describe('GraphRenderService', () => {
+  let graphRenderService: GraphRenderService
+  let tasks: Task[]
+
+  beforeEach(() => {
+    graphRenderService = new GraphRenderService()
+    // F-001 -> F-002 -> F-003, F-001 -> F-004, F-005 unrelated
+    tasks = [
+      createFeatureTask({blocks: ['F-002', 'F-004'], id: 'F-001', status: STATUS.Completed, title: 'Base'}),
+      createFeatureTask({
+        blocks: ['F-003'],
+        'depends-on': ['F-001'],
+        id: 'F-002',
+        priority: PRIORITY.High,
+        status: STATUS.InProgress,
+        title: 'Middle',
+      }),
+      createFeatureTask({'depends-on': ['F-002'], id: 'F-003', priority: PRIORITY.Low, title: 'Top'}),
+      createFeatureTask({'depends-on': ['F-001'], id: 'F-004', title: 'Side'}),
+      createFeatureTask({id: 'F-005', title: 'Alone'}),
+    ]
+  })
+
+  describe('getEdges', () => {
+    it('should combine depends-on and blocks without duplicates', () => {
+      const edges = graphRenderService.getEdges(tasks)
+
+      expect(edges).to.deep.equal([
+        {from: 'F-001', to: 'F-002'},
+        {from: 'F-001', to: 'F-004'},
+        {from: 'F-002', to: 'F-003'},
+      ])
+    })
+
+    it('should include edges declared on one side only', () => {
+      const oneSided = [createFeatureTask({blocks: ['F-002'], id: 'F-001'}), createFeatureTask({id: 'F-002'})]
+
+      expect(graphRenderService.getEdges(oneSided)).to.deep.equal([{from: 'F-001', to: 'F-002'}])
+    })
+
+    it('should ignore edges to tasks outside the list', () => {
+      const partial = tasks.filter((t) => t.id !== 'F-001')
+
+      expect(graphRenderService.getEdges(partial)).to.deep.equal([{from: 'F-002', to: 'F-003'}])
+    })
+  })
+
+  describe('selectTasks', () => {
+    it('should return all tasks without options', () => {
+      expect(graphRenderService.selectTasks(tasks)).to.have.lengthOf(5)
+    })
+
+    it('should keep upstream and downstream tasks of the focus task', () => {
+      const selected = graphRenderService.selectTasks(tasks, {focus: 'F-002'})
+
+      expect(selected.map((t) => t.id)).to.deep.equal(['F-001', 'F-002', 'F-003'])
+    })
+
+    it('should keep only one side when a direction is given', () => {
+      const upstream = graphRenderService.selectTasks(tasks, {direction: 'upstream', focus: 'F-003'})
+      const downstream = graphRenderService.selectTasks(tasks, {direction: 'downstream', focus: 'F-001'})
+
+      expect(upstream.map((t) => t.id)).to.deep.equal(['F-001', 'F-002', 'F-003'])
+      expect(downstream.map((t) => t.id)).to.deep.equal(['F-001', 'F-002', 'F-003', 'F-004'])
+    })
+
+    it('should follow edges declared only with blocks', () => {
+      // F-001 blocks F-002, which blocks F-003; neither declares depends-on
+      const blocksOnly = [
+        createFeatureTask({blocks: ['F-002'], id: 'F-001'}),
+        createFeatureTask({blocks: ['F-003'], id: 'F-002'}),
+        createFeatureTask({id: 'F-003'}),
+      ]
+
+      expect(graphRenderService.selectTasks(blocksOnly, {focus: 'F-002'}).map((t) => t.id)).to.deep.equal([
+        'F-001',
+        'F-002',
+        'F-003',
+      ])
+      expect(
+        graphRenderService.selectTasks(blocksOnly, {direction: 'upstream', focus: 'F-003'}).map((t) => t.id),
+      ).to.deep.equal(['F-001', 'F-002', 'F-003'])
+    })
+
+    it('should hide completed tasks but keep a completed focus task', () => {
+      expect(graphRenderService.selectTasks(tasks, {hideCompleted: true}).map((t) => t.id)).to.not.include('F-001')
+      expect(graphRenderService.selectTasks(tasks, {focus: 'F-001', hideCompleted: true}).map((t) => t.id)).to.include(
+        'F-001',
+      )
+    })
+
+    it('should throw TaskNotFoundError for an unknown focus task', () => {
+      expect(() => graphRenderService.selectTasks(tasks, {focus: 'F-099'})).to.throw(TaskNotFoundError)
+    })
+  })
+
+  describe('renderDot', () => {
+    it('should render nodes styled by status and priority, and edges', () => {
+      const dot = graphRenderService.renderDot(tasks)
+
+      expect(dot).to.match(/^digraph roadmap \{/)
+      expect(dot).to.include(String.raw`"F-001" [label="F-001\nBase", fillcolor="palegreen"`)
+      expect(dot).to.match(/"F-002" .*fillcolor="lightgoldenrod1", color="red3", penwidth=2.5/)
+      expect(dot).to.match(/"F-003" .*style="filled,dashed"/)
+      expect(dot).to.include('"F-001" -> "F-002";')
+      expect(dot.trimEnd()).to.match(/\}$/)
+    })
+
+    it('should escape quotes in titles', () => {
+      const dot = graphRenderService.renderDot([createFeatureTask({id: 'F-001', title: 'Say "hi"'})])
+
+      expect(dot).to.include(String.raw`label="F-001\nSay \"hi\""`)
+    })
+  })
+
+  describe('renderMermaid', () => {
+    it('should render a flowchart with classes for status and priority', () => {
+      const mermaid = graphRenderService.renderMermaid(tasks)
+
+      expect(mermaid).to.match(/^flowchart LR/)
+      expect(mermaid).to.include('F_001["F-001: Base"]')
+      expect(mermaid).to.include('F_001 --> F_002')
+      expect(mermaid).to.include('class F_001 completed')
+      expect(mermaid).to.include('class F_002 priorityHigh')
+      expect(mermaid).to.include('classDef inProgress')
+    })
+
+    it('should escape quotes in titles', () => {
+      const mermaid = graphRenderService.renderMermaid([createFeatureTask({id: 'F-001', title: 'Say "hi"'})])
+
+      expect(mermaid).to.include('F_001["F-001: Say #quot;hi#quot;"]')
+    })
+  })
+
+  describe('renderAscii', () => {
+    it('should render prerequisites as parents of the tasks they unblock', () => {
+      const lines = graphRenderService.renderAscii(tasks).split('\n')
+
+      expect(lines).to.deep.equal([
+        '✓ [M] [F-001] Base',
+        '├── ~ [H] [F-002] Middle',
+        '│   └── ○ [L] [F-003] Top',
+        '└── ○ [M] [F-004] Side',
+        '○ [M] [F-005] Alone',
+      ])
+    })
+
+    it('should expand shared dependents only once', () => {
+      const diamond = [
+        createFeatureTask({id: 'F-001'}),
+        createFeatureTask({id: 'F-002'}),
+        createFeatureTask({'depends-on': ['F-001', 'F-002'], id: 'F-003'}),
+      ]
+
+      const output = graphRenderService.renderAscii(diamond)
+
+      expect(output).to.include('[F-003] Feature: Test Feature (see above)')
+      expect(output.match(/\[F-003\]/g)).to.have.lengthOf(2)
+    })
+
+    it('should still list tasks that are part of a cycle', () => {
+      const cycle = [
+        createFeatureTask({'depends-on': ['F-002'], id: 'F-001'}),
+        createFeatureTask({'depends-on': ['F-001'], id: 'F-002'}),
+      ]
+
+      const output = graphRenderService.renderAscii(cycle)
+
+      expect(output).to.include('[F-001]')
+      expect(output).to.include('[F-002]')
+    })
+
+    it('should report when there are no tasks', () => {
+      expect(graphRenderService.renderAscii([])).to.equal('No tasks to display.')
+    })
+  })
+})
@@ -0,0 +1,125 @@
+import {expect} from 'chai'
+
+import {HistoryRenderService} from '../../../src/services/history-render.service.js'
+import {HistoryStats} from '../../../src/services/history.service.js'
+
+function stats(): HistoryStats {
+  return {
+    cycleTime: [
+      {average: 5.5, count: 1, max: 5.5, median: 5.5, type: 'bug'},
+      {average: 2.3, count: 12, max: 10, median: 1.5, type: 'feature'},
+    ],
+    daily: [
+      {completed: 0, date: '2026-10-05', effort: {completed: 0, remaining: 8, total: 8}, remaining: 4, total: 4},
+      {completed: 2, date: '2026-10-06', effort: {completed: 3, remaining: 5, total: 8}, remaining: 2, total: 4},
+      {completed: 2, date: '2026-10-07', effort: {completed: 3, remaining: 7, total: 10}, remaining: 3, total: 5},
+    ],
+    throughput: [
+      {byType: {feature: 2}, total: 2, week: '2026-10-05'},
+      {byType: {}, total: 0, week: '2026-10-12'},
+      {byType: {bug: 1, feature: 3}, total: 4, week: '2026-10-19'},
+    ],
+  }
+}
+
+describe('HistoryRenderService', () => {
+  let historyRenderService: HistoryRenderService
+
+  beforeEach(() => {
+    historyRenderService = new HistoryRenderService()
+  })
+
+  describe('renderAscii', () => {
+    it('should draw burndown bars scaled to the largest value', () => {
+      const output = historyRenderService.renderAscii(stats(), 'burndown', {width: 8})
+
+      expect(output.split('\n')).to.deep.equal([
+        'Burndown',
+        '────────',
+        '2026-10-05 │████████ 4',
+        '2026-10-06 │████ 2',
+        '2026-10-07 │██████ 3',
+      ])
+    })
+
+    it('should draw completed work against the total scope in burnup charts', () => {
+      const output = historyRenderService.renderAscii(stats(), 'burnup', {effort: true, width: 10})
+
+      expect(output.split('\n')).to.deep.equal([
+        'Burnup [effort]',
+        '───────────────',
+        '2026-10-05 │░░░░░░░░ 0/8',
+        '2026-10-06 │███░░░░░ 3/8',
+        '2026-10-07 │███░░░░░░░ 3/10',
+      ])
+    })
+
+    it('should list completions per type next to the throughput bars', () => {
+      const lines = historyRenderService.renderAscii(stats(), 'throughput', {width: 4}).split('\n')
+
+      expect(lines.slice(2)).to.deep.equal([
+        '2026-10-05 │██ 2 (feature: 2)',
+        '2026-10-12 │ 0',
+        '2026-10-19 │████ 4 (bug: 1, feature: 3)',
+      ])
+    })
+
+    it('should render cycle time as an aligned table', () => {
+      const lines = historyRenderService.renderAscii(stats(), 'cycle-time').split('\n')
+
+      expect(lines.slice(2)).to.deep.equal([
+        'Type     Tasks  Average  Median  Max',
+        'bug          1      5.5     5.5  5.5',
+        'feature     12      2.3     1.5   10',
+      ])
+    })
+
+    it('should say when there is no data', () => {
+      const output = historyRenderService.renderAscii({cycleTime: [], daily: [], throughput: []}, 'throughput')
+
+      expect(output.split('\n').at(-1)).to.equal('No data')
+    })
+  })
+
+  describe('renderCsv', () => {
+    it('should write one column per task type for throughput', () => {
+      expect(historyRenderService.renderCsv(stats(), 'throughput').split('\n')).to.deep.equal([
+        'week,total,bug,feature',
+        '2026-10-05,2,0,2',
+        '2026-10-12,0,0,0',
+        '2026-10-19,4,1,3',
+      ])
+    })
+
+    it('should use effort for burndown when asked', () => {
+      expect(historyRenderService.renderCsv(stats(), 'burndown', {effort: true}).split('\n')).to.deep.equal([
+        'date,remaining',
+        '2026-10-05,8',
+        '2026-10-06,5',
+        '2026-10-07,7',
+      ])
+    })
+  })
+
+  describe('render', () => {
+    it('should render the selected metrics in a fixed order, separated by a blank line', () => {
+      const output = historyRenderService.render(stats(), {format: 'csv', metrics: ['cycle-time', 'burndown']})
+
+      const sections = output.split('\n\n')
+      expect(sections).to.have.lengthOf(2)
+      expect(sections[0]).to.match(/^date,remaining\n/)
+      expect(sections[1]).to.match(/^type,tasks,average_days,median_days,max_days\n/)
+    })
+
+    it('should render every metric by default', () => {
+      const output = historyRenderService.render(stats())
+
+      expect(output.split('\n\n').map((section) => section.split('\n')[0])).to.deep.equal([
+        'Burndown',
+        'Burnup',
+        'Throughput (tasks completed per week)',
+        'Cycle time (days)',
+      ])
+    })
+  })
+})
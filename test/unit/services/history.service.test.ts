@@ -0,0 +1,171 @@
+import {expect} from 'chai'
+
+import {HistoryService, RoadmapRevision} from '../../../src/services/history.service.js'
+import {STATUS, Task} from '../../../src/util/types.js'
+import {createRoadmap} from '../../fixtures/roadmap-factory.js'
+import {createBugTask, createFeatureTask} from '../../fixtures/task-factory.js'
+
+function revision(date: string, tasks: Task[]): RoadmapRevision {
+  return {date, roadmap: createRoadmap({tasks})}
+}
+
+function history(): RoadmapRevision[] {
+  const f1 = createFeatureTask({effort: 3, id: 'F-001'})
+  const f2 = createFeatureTask({effort: 2, id: 'F-002', status: STATUS.InProgress})
+  const b1 = createBugTask({effort: 1, id: 'B-001'})
+  const done = {status: STATUS.Completed}
+
+  return [
+    // Listed out of order on purpose
+    revision('2026-10-08T10:00:00Z', [
+      {...f1, ...done},
+      {...f2, ...done},
+      {...b1, status: STATUS.InProgress},
+    ]),
+    revision('2026-10-05T10:00:00Z', [f1, f2, b1]),
+    revision('2026-10-06T10:00:00Z', [{...f1, status: STATUS.InProgress}, f2, b1]),
+    revision('2026-10-13T22:00:00Z', [
+      {...f1, ...done},
+      {...f2, ...done},
+      {...b1, ...done},
+      createFeatureTask({id: 'F-003', ...done}),
+    ]),
+  ]
+}
+
+describe('HistoryService', () => {
+  let historyService: HistoryService
+
+  beforeEach(() => {
+    historyService = new HistoryService()
+  })
+
+  describe('buildSnapshots', () => {
+    it('should hold the last revision of each day, carrying it over days without commits', () => {
+      const snapshots = historyService.buildSnapshots(history())
+
+      expect(snapshots.map((s) => s.date)).to.deep.equal([
+        '2026-10-05',
+        '2026-10-06',
+        '2026-10-07',
+        '2026-10-08',
+        '2026-10-09',
+        '2026-10-10',
+        '2026-10-11',
+        '2026-10-12',
+        '2026-10-13',
+      ])
+      expect(snapshots[2].tasks.find((t) => t.id === 'F-001')?.status).to.equal(STATUS.InProgress)
+      expect(snapshots[7].tasks).to.have.lengthOf(3)
+      expect(snapshots[8].tasks).to.have.lengthOf(4)
+    })
+
+    it('should extend the series until the given date', () => {
+      const snapshots = historyService.buildSnapshots(history(), new Date('2026-10-15T08:00:00Z'))
+
+      expect(snapshots.at(-1)).to.include({date: '2026-10-15'})
+      expect(snapshots.at(-1)!.tasks).to.have.lengthOf(4)
+    })
+
+    it('should return no snapshots without revisions', () => {
+      expect(historyService.buildSnapshots([])).to.deep.equal([])
+    })
+  })
+
+  describe('getStats', () => {
+    it('should count tasks and effort at the end of each day', () => {
+      const {daily} = historyService.getStats(history())
+
+      expect(daily[0]).to.deep.equal({
+        completed: 0,
+        date: '2026-10-05',
+        effort: {completed: 0, remaining: 6, total: 6},
+        remaining: 3,
+        total: 3,
+      })
+      expect(daily[3]).to.deep.equal({
+        completed: 2,
+        date: '2026-10-08',
+        effort: {completed: 5, remaining: 1, total: 6},
+        remaining: 1,
+        total: 3,
+      })
+      expect(daily.at(-1)).to.deep.include({completed: 4, remaining: 0, total: 4})
+    })
+
+    it('should count completions per week and type', () => {
+      const {throughput} = historyService.getStats(history())
+
+      expect(throughput).to.deep.equal([
+        {byType: {feature: 2}, total: 2, week: '2026-10-05'},
+        {byType: {bug: 1, feature: 1}, total: 2, week: '2026-10-12'},
+      ])
+    })
+
+    it('should include weeks without completions', () => {
+      const revisions = history()
+      const eighth = revisions[0]
+      const thirteenth = revisions[3]
+      const {throughput} = historyService.getStats([
+        eighth,
+        {...thirteenth, date: '2026-10-27T09:00:00Z'},
+        revision(
+          '2026-10-01T09:00:00Z',
+          thirteenth.roadmap.tasks.map((t) => ({...t, status: STATUS.NotStarted})),
+        ),
+      ])
+
+      expect(throughput.map((p) => [p.week, p.total])).to.deep.equal([
+        ['2026-10-05', 2],
+        ['2026-10-12', 0],
+        ['2026-10-19', 0],
+        ['2026-10-26', 2],
+      ])
+    })
+
+    it('should measure cycle time only for tasks seen both starting and completing', () => {
+      const {cycleTime} = historyService.getStats(history())
+
+      // F-002 was already in progress when the history begins and F-003 first appears completed
+      expect(cycleTime).to.deep.equal([
+        {average: 5.5, count: 1, max: 5.5, median: 5.5, type: 'bug'},
+        {average: 2, count: 1, max: 2, median: 2, type: 'feature'},
+      ])
+    })
+
+    it('should compute the median of an even number of cycle times', () => {
+      const tasks = ['F-001', 'F-002', 'F-003', 'F-004'].map((id) => createFeatureTask({id}))
+      const revisions = [
+        revision('2026-10-01T00:00:00Z', tasks),
+        revision(
+          '2026-10-02T00:00:00Z',
+          tasks.map((t) => ({...t, status: STATUS.InProgress})),
+        ),
+        ...tasks.map((_, index) =>
+          revision(
+            `2026-10-0${3 + [0, 1, 3, 6][index]}T00:00:00Z`,
+            tasks.map((t, i) => ({...t, status: i <= index ? STATUS.Completed : STATUS.InProgress})),
+          ),
+        ),
+      ]
+
+      const {cycleTime} = historyService.getStats(revisions)
+
+      expect(cycleTime).to.deep.equal([{average: 3.5, count: 4, max: 7, median: 3, type: 'feature'}])
+    })
+  })
+
+  describe('parseRevisions', () => {
+    it('should skip revisions that are not valid roadmaps', () => {
+      const content = JSON.stringify(createRoadmap({tasks: [createFeatureTask({id: 'F-001'})]}))
+
+      const revisions = historyService.parseRevisions([
+        {commit: 'a', content, date: '2026-10-01T00:00:00Z'},
+        {commit: 'b', content: '<<<<<<< HEAD\n{', date: '2026-10-02T00:00:00Z'},
+        {commit: 'c', content: '{"metadata": {}}', date: '2026-10-03T00:00:00Z'},
+      ])
+
+      expect(revisions).to.deep.equal([{date: '2026-10-01T00:00:00Z', roadmap: JSON.parse(content)}])
+    })
+  })
+})
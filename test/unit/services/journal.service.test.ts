@@ -0,0 +1,170 @@
+import {expect} from 'chai'
+
+import {JournalConflictError} from '../../../src/errors/index.js'
+import {JournalEntry, JournalService} from '../../../src/services/journal.service.js'
+import taskService from '../../../src/services/task.service.js'
+import {PRIORITY, Roadmap, STATUS} from '../../../src/util/types.js'
+import {createRoadmap} from '../../fixtures/roadmap-factory.js'
+import {createBugTask, createFeatureTask} from '../../fixtures/task-factory.js'
+
+function roadmapWithDependencies(): Roadmap {
+  return createRoadmap({
+    tasks: [
+      createFeatureTask({id: 'F-001'}),
+      createFeatureTask({'depends-on': ['F-001'], id: 'F-002'}),
+      createBugTask({'depends-on': ['F-002'], id: 'B-001'}),
+    ],
+  })
+}
+
+// Roadmaps as saved, without fields set to undefined
+function asWritten(roadmap: Roadmap): Roadmap {
+  const json = JSON.stringify(roadmap)
+  return JSON.parse(json) as Roadmap
+}
+
+function entry(journalService: JournalService, before: Roadmap, after: Roadmap): JournalEntry {
+  return {...journalService.createEntry(before, after, 'test')!, id: 1}
+}
+
+describe('JournalService', () => {
+  let journalService: JournalService
+
+  beforeEach(() => {
+    journalService = new JournalService()
+  })
+
+  describe('diff', () => {
+    it('should test a value before replacing it', () => {
+      expect(journalService.diff({a: {b: 1}}, {a: {b: 2}})).to.deep.equal([
+        {op: 'test', path: '/a/b', value: 1},
+        {op: 'replace', path: '/a/b', value: 2},
+      ])
+    })
+
+    it('should add and remove object keys', () => {
+      expect(journalService.diff({a: 1}, {b: 2})).to.deep.equal([
+        {op: 'test', path: '/a', value: 1},
+        {op: 'remove', path: '/a'},
+        {op: 'add', path: '/b', value: 2},
+      ])
+    })
+
+    it('should insert an array element in the middle with a single operation', () => {
+      expect(journalService.diff({list: [1, 2, 3]}, {list: [1, 9, 2, 3]})).to.deep.equal([
+        {op: 'add', path: '/list/1', value: 9},
+      ])
+    })
+
+    it('should remove array elements from the back', () => {
+      expect(journalService.diff([1, 2, 3, 4], [1, 4])).to.deep.equal([
+        {op: 'test', path: '/2', value: 3},
+        {op: 'remove', path: '/2'},
+        {op: 'test', path: '/1', value: 2},
+        {op: 'remove', path: '/1'},
+      ])
+    })
+
+    it('should escape keys containing slashes and tildes', () => {
+      expect(journalService.diff({'a/b~c': 1}, {'a/b~c': 2})[0]).to.deep.equal({op: 'test', path: '/a~1b~0c', value: 1})
+    })
+  })
+
+  describe('createEntry', () => {
+    it('should return null when the roadmap did not change', () => {
+      const roadmap = roadmapWithDependencies()
+
+      expect(journalService.createEntry(roadmap, structuredClone(roadmap), 'update F-001')).to.be.null
+    })
+
+    it('should ignore fields set to undefined, which are not saved', () => {
+      const roadmap = roadmapWithDependencies()
+      const after = {...roadmap, tasks: [{...roadmap.tasks[0], 'github-refs': undefined}, ...roadmap.tasks.slice(1)]}
+
+      expect(journalService.createEntry(roadmap, after, 'update F-001')).to.be.null
+    })
+
+    it('should record the command, the user and the time', () => {
+      const before = roadmapWithDependencies()
+      const after = taskService.changeTaskId(before, 'F-001', 'F-003')
+
+      const created = journalService.createEntry(before, after, 'update F-001 --type=feature')!
+
+      expect(created.command).to.equal('update F-001 --type=feature')
+      expect(created.user).to.be.a('string').that.is.not.empty
+      expect(Date.parse(created.timestamp)).to.be.closeTo(Date.now(), 5000)
+    })
+  })
+
+  describe('undo and redo', () => {
+    it('should roll back and reapply a renumbering that cascaded to dependents', () => {
+      const before = roadmapWithDependencies()
+      const after = taskService.changeTaskId(before, 'F-001', 'F-003')
+      const change = entry(journalService, before, after)
+
+      const undone = journalService.undo(asWritten(after), change)
+      expect(undone).to.deep.equal(asWritten(before))
+
+      expect(journalService.redo(undone, change)).to.deep.equal(asWritten(after))
+    })
+
+    it('should keep later changes to other tasks', () => {
+      const before = roadmapWithDependencies()
+      const after = {...before, tasks: [{...before.tasks[0], status: STATUS.Completed}, ...before.tasks.slice(1)]}
+      const change = entry(journalService, before, after)
+      const later = {...after, tasks: [...after.tasks.slice(0, 2), {...after.tasks[2], priority: PRIORITY.Low}]}
+
+      const undone = journalService.undo(later, change)
+
+      expect(undone.tasks[0].status).to.equal(before.tasks[0].status)
+      expect(undone.tasks[2].priority).to.equal(PRIORITY.Low)
+    })
+
+    it('should refuse to undo a change that was edited since', () => {
+      const before = roadmapWithDependencies()
+      const after = {...before, tasks: [{...before.tasks[0], status: STATUS.InProgress}, ...before.tasks.slice(1)]}
+      const change = entry(journalService, before, after)
+      const later = {...after, tasks: [{...after.tasks[0], status: STATUS.Completed}, ...after.tasks.slice(1)]}
+
+      expect(() => journalService.undo(later, change))
+        .to.throw(JournalConflictError)
+        .with.property('message', 'Cannot undo #1 (test): the roadmap changed at /tasks/0/status since')
+    })
+
+    it('should refuse to apply a change to a path that no longer exists', () => {
+      const before = roadmapWithDependencies()
+      const after = {...before, tasks: [{...before.tasks[0], status: STATUS.InProgress}, ...before.tasks.slice(1)]}
+      const change = entry(journalService, before, after)
+
+      expect(() => journalService.undo({...after, tasks: []}, change)).to.throw(JournalConflictError)
+    })
+  })
+
+  describe('formatCommand', () => {
+    it('should join the command ID and quote arguments with spaces', () => {
+      expect(journalService.formatCommand('dep:add', ['F-002', 'F-001'])).to.equal('dep add F-002 F-001')
+      expect(journalService.formatCommand('add', ['Fix login', '--details=Broken on Safari'])).to.equal(
+        'add "Fix login" "--details=Broken on Safari"',
+      )
+    })
+
+    it('should leave out a missing command ID', () => {
+      expect(journalService.formatCommand(undefined, ['F-001', '--status=completed'])).to.equal(
+        'F-001 --status=completed',
+      )
+    })
+  })
+
+  describe('summarize', () => {
+    it('should count the operations that change the roadmap', () => {
+      const before = roadmapWithDependencies()
+      const after = {...before, tasks: [...before.tasks.slice(0, 2), {...before.tasks[2], 'depends-on': ['F-001']}]}
+
+      expect(journalService.summarize(entry(journalService, before, after))).to.deep.include({
+        changes: 1,
+        command: 'test',
+        id: 1,
+      })
+    })
+  })
+})
@@ -0,0 +1,132 @@
+import {expect} from 'chai'
+
+import {MilestoneNotFoundError, ValidationError} from '../../../src/errors/index.js'
+import {MilestoneService} from '../../../src/services/milestone.service.js'
+import {Roadmap, STATUS} from '../../../src/util/types.js'
+import {createRoadmap} from '../../fixtures/roadmap-factory.js'
+import {createFeatureTask} from '../../fixtures/task-factory.js'
+
+const NOW = new Date('2026-10-01T00:00:00.000Z')
+
+function plannedRoadmap(): Roadmap {
+  return createRoadmap({
+    milestones: [
+      {createdAt: '2026-09-01T00:00:00.000Z', id: 'v1.0', name: 'First release', targetDate: '2026-09-15'},
+      {createdAt: '2026-09-01T00:00:00.000Z', id: 'v2.0', name: 'v2.0'},
+    ],
+    tasks: [
+      createFeatureTask({effort: 3, id: 'F-001', milestone: 'v1.0', status: STATUS.Completed}),
+      createFeatureTask({'depends-on': ['F-003'], effort: 5, id: 'F-002', milestone: 'v1.0'}),
+      createFeatureTask({id: 'F-003', milestone: 'v2.0'}),
+      createFeatureTask({id: 'F-004'}),
+    ],
+  })
+}
+
+describe('MilestoneService', () => {
+  let milestoneService: MilestoneService
+
+  beforeEach(() => {
+    milestoneService = new MilestoneService()
+  })
+
+  describe('addMilestone', () => {
+    it('should add a milestone without mutating the roadmap', () => {
+      const roadmap = createRoadmap()
+      const milestone = milestoneService.createMilestone({id: 'v1.0'})
+
+      const updated = milestoneService.addMilestone(roadmap, milestone)
+
+      expect(updated.milestones).to.deep.equal([milestone])
+      expect(milestone.name).to.equal('v1.0')
+      expect(roadmap.milestones).to.be.undefined
+    })
+
+    it('should reject duplicate and invalid IDs', () => {
+      const roadmap = plannedRoadmap()
+
+      expect(() => milestoneService.addMilestone(roadmap, milestoneService.createMilestone({id: 'v1.0'})))
+        .to.throw(ValidationError)
+        .with.nested.property('context.errors')
+        .that.deep.includes({field: 'id', message: 'Milestone v1.0 already exists', type: 'duplicate-id'})
+      expect(() =>
+        milestoneService.addMilestone(roadmap, milestoneService.createMilestone({id: 'next release'})),
+      ).to.throw(ValidationError)
+    })
+  })
+
+  describe('closeMilestone', () => {
+    it('should set closedAt and leave tasks planned for the milestone', () => {
+      const updated = milestoneService.closeMilestone(plannedRoadmap(), 'v1.0', NOW)
+
+      expect(updated.milestones![0].closedAt).to.equal(NOW.toISOString())
+      expect(milestoneService.getTasks(updated, 'v1.0')).to.have.lengthOf(2)
+    })
+
+    it('should return the roadmap unchanged if already closed', () => {
+      const closed = milestoneService.closeMilestone(plannedRoadmap(), 'v1.0', NOW)
+
+      expect(milestoneService.closeMilestone(closed, 'v1.0')).to.equal(closed)
+    })
+
+    it('should throw MilestoneNotFoundError for an unknown milestone', () => {
+      expect(() => milestoneService.closeMilestone(plannedRoadmap(), 'v9')).to.throw(MilestoneNotFoundError)
+    })
+  })
+
+  describe('getReport', () => {
+    it('should report progress, effort, blocked and at-risk tasks', () => {
+      const report = milestoneService.getReport(plannedRoadmap(), 'v1.0', NOW)
+
+      expect(report).to.include({completed: 1, overdue: true, progress: 50, total: 2})
+      expect(report.effort).to.deep.equal({remaining: 5, total: 8, unestimated: 0})
+      expect(report.blocked.map(({task, waitingOn}) => [task.id, waitingOn])).to.deep.equal([['F-002', ['F-003']]])
+      expect(
+        report.atRisk.map(({dependency, dependencyMilestone, task}) => [task.id, dependency, dependencyMilestone]),
+      ).to.deep.equal([['F-002', 'F-003', 'v2.0']])
+    })
+
+    it('should not report closed or complete milestones as overdue', () => {
+      const closed = milestoneService.closeMilestone(plannedRoadmap(), 'v1.0', NOW)
+
+      expect(milestoneService.getReport(closed, 'v1.0', NOW).overdue).to.be.false
+      expect(milestoneService.getReport(plannedRoadmap(), 'v1.0', new Date('2026-09-01')).overdue).to.be.false
+    })
+
+    it('should report 0% progress for a milestone without tasks', () => {
+      const roadmap = milestoneService.addMilestone(createRoadmap(), milestoneService.createMilestone({id: 'beta'}))
+
+      expect(milestoneService.getReport(roadmap, 'beta', NOW)).to.include({completed: 0, progress: 0, total: 0})
+    })
+  })
+
+  describe('validateMilestones', () => {
+    it('should accept valid milestones and references', () => {
+      expect(milestoneService.validateMilestones(plannedRoadmap())).to.deep.equal([])
+    })
+
+    it('should report duplicate milestones and tasks planned for unknown milestones', () => {
+      const roadmap = plannedRoadmap()
+      roadmap.milestones!.push({createdAt: NOW.toISOString(), id: 'v2.0', name: 'Again'})
+      roadmap.tasks.push(createFeatureTask({id: 'F-005', milestone: 'v3.0'}))
+
+      expect(milestoneService.validateMilestones(roadmap)).to.deep.equal([
+        {field: 'milestones', message: 'Duplicate milestone ID: v2.0', type: 'duplicate-id'},
+        {
+          field: 'milestone',
+          message: 'Task F-005 is planned for non-existent milestone v3.0',
+          taskId: 'F-005',
+          type: 'invalid-reference',
+        },
+      ])
+    })
+
+    it('should report invalid target dates', () => {
+      const roadmap = createRoadmap({
+        milestones: [{createdAt: NOW.toISOString(), id: 'v1', name: 'v1', targetDate: 'soon'}],
+      })
+
+      expect(milestoneService.validateMilestones(roadmap).map((e) => e.field)).to.deep.equal(['targetDate'])
+    })
+  })
+})
@@ -0,0 +1,304 @@
+import {expect} from 'chai'
+
+import {PrtErrorCode, QuerySyntaxError} from '../../../src/errors/index.js'
+import {QueryExpressionService} from '../../../src/services/query-expression.service.js'
+import {getTaskTypes} from '../../../src/util/task-types.js'
+import {PRIORITY, STATUS, Task, TASK_TYPE} from '../../../src/util/types.js'
+import {getWorkflow} from '../../../src/util/workflow.js'
+import {createBugTask, createFeatureTask, createTask} from '../../fixtures/task-factory.js'
+
+function ids(tasks: Task[]): string[] {
+  return tasks.map((task) => task.id)
+}
+
+describe('QueryExpressionService', () => {
+  let queryExpressionService: QueryExpressionService
+
+  beforeEach(() => {
+    queryExpressionService = new QueryExpressionService()
+  })
+
+  function parseError(expression: string): QuerySyntaxError {
+    try {
+      queryExpressionService.parse(expression)
+    } catch (error) {
+      expect(error).to.be.instanceOf(QuerySyntaxError)
+      return error as QuerySyntaxError
+    }
+
+    throw new Error(`expected "${expression}" to fail to parse`)
+  }
+
+  describe('parse', () => {
+    it('should parse a single comparison', () => {
+      expect(queryExpressionService.parse('status = completed')).to.deep.equal({
+        field: 'status',
+        kind: 'comparison',
+        operator: '=',
+        value: 'completed',
+      })
+    })
+
+    it('should give and higher precedence than or', () => {
+      const node = queryExpressionService.parse('type = bug or priority = high and status = completed')
+
+      expect(node.kind).to.equal('or')
+      expect(node).to.have.nested.property('right.kind', 'and')
+    })
+
+    it('should honour parentheses', () => {
+      const node = queryExpressionService.parse('(type = bug or priority = high) and status = completed')
+
+      expect(node.kind).to.equal('and')
+      expect(node).to.have.nested.property('left.kind', 'or')
+    })
+
+    it('should treat : as = and accept keywords in any case', () => {
+      const node = queryExpressionService.parse('NOT tag:security')
+
+      expect(node).to.deep.equal({
+        kind: 'not',
+        operand: {field: 'tag', kind: 'comparison', operator: '=', value: 'security'},
+      })
+    })
+
+    it('should accept quoted values and field aliases', () => {
+      const node = queryExpressionService.parse(`assignedTo = 'Ada Lovelace'`)
+
+      expect(node).to.deep.equal({field: 'assignee', kind: 'comparison', operator: '=', value: 'Ada Lovelace'})
+    })
+
+    it('should normalize enum values and priority shortcuts', () => {
+      expect(queryExpressionService.parse('priority >= M')).to.have.property('value', 'medium')
+      expect(queryExpressionService.parse('type = BUG')).to.have.property('value', 'bug')
+    })
+
+    it('should accept custom task types from the given registry', () => {
+      const taskTypes = getTaskTypes({taskTypes: {chore: 'C'}})
+
+      expect(queryExpressionService.parse('type = chore', {taskTypes})).to.have.property('value', 'chore')
+      expect(() => queryExpressionService.parse('type = chore')).to.throw(QuerySyntaxError, 'invalid type "chore"')
+    })
+
+    it('should accept custom statuses from the given workflow', () => {
+      const workflow = getWorkflow({workflow: {statuses: {blocked: {symbol: '!'}}}})
+
+      expect(queryExpressionService.parse('status = blocked', {workflow})).to.have.property('value', 'blocked')
+      expect(() => queryExpressionService.parse('status = blocked')).to.throw(
+        QuerySyntaxError,
+        'invalid status "blocked"',
+      )
+    })
+  })
+
+  describe('parse errors', () => {
+    it('should point at an unknown field', () => {
+      const error = parseError('status = completed and owner = alice')
+
+      expect(error.code).to.equal(PrtErrorCode.PRT_QUERY_INVALID)
+      expect(error.context).to.include({column: 24})
+      expect(error.message).to.include('unknown field "owner"')
+      expect(error.message.split('\n')[2]).to.equal(`${' '.repeat(25)}^`)
+    })
+
+    it('should reject a field named like an Object.prototype key', () => {
+      for (const field of ['constructor', 'toString', '__proto__']) {
+        const error = parseError(`${field} = x`)
+
+        expect(error.code).to.equal(PrtErrorCode.PRT_QUERY_INVALID)
+        expect(error.message).to.include(`unknown field "${field}"`)
+      }
+    })
+
+    it('should point at an invalid enum value', () => {
+      const error = parseError('status = done')
+
+      expect(error.context).to.include({column: 10})
+      expect(error.message).to.include('invalid status "done" (use completed, in-progress, not-started)')
+    })
+
+    it('should reject operators a field does not support', () => {
+      const error = parseError('status < completed')
+
+      expect(error.context).to.include({column: 8})
+      expect(error.message).to.include('operator < is not supported for status')
+    })
+
+    it('should report a missing operator', () => {
+      const error = parseError('status completed')
+
+      expect(error.context).to.include({column: 8})
+      expect(error.message).to.include('expected an operator')
+    })
+
+    it('should report a missing value at the end of the expression', () => {
+      const error = parseError('effort <')
+
+      expect(error.context).to.include({column: 9})
+      expect(error.message).to.include('expected a value after "<" but found the end of the expression')
+    })
+
+    it('should report an unclosed parenthesis', () => {
+      const error = parseError('(type = bug')
+
+      expect(error.context).to.include({column: 12})
+      expect(error.message).to.include('expected ")" to close "(" at column 1')
+    })
+
+    it('should report a missing and/or between comparisons', () => {
+      const error = parseError('type = bug priority = high')
+
+      expect(error.context).to.include({column: 12})
+      expect(error.message).to.include('but found "priority"')
+    })
+
+    it('should reject invalid dates, numbers and booleans', () => {
+      expect(parseError('due < someday').message).to.include('invalid date "someday"')
+      expect(parseError('effort > lots').message).to.include('invalid number "lots"')
+      expect(parseError('tested = maybe').message).to.include('invalid tested value "maybe"')
+    })
+
+    it('should reject unterminated strings and unexpected characters', () => {
+      expect(parseError('title ~ "dark mode').context).to.include({column: 9, reason: 'unterminated string'})
+      expect(parseError('type ! bug').context).to.include({column: 6, reason: 'unexpected character "!"'})
+    })
+
+    it('should reject an empty expression', () => {
+      expect(parseError('  ').message).to.include('expected an expression')
+    })
+  })
+
+  describe('filter', () => {
+    const tasks = [
+      createFeatureTask({
+        assignedTo: 'alice',
+        dueDate: '2026-10-30T00:00:00.000Z',
+        effort: 3,
+        id: 'F-001',
+        priority: PRIORITY.High,
+        status: STATUS.InProgress,
+        tags: ['security'],
+        title: 'Login form',
+      }),
+      createBugTask({
+        'depends-on': ['F-001'],
+        details: 'Crashes when the session expires',
+        dueDate: '2026-11-15T00:00:00.000Z',
+        id: 'B-001',
+        'passes-tests': false,
+        priority: PRIORITY.Low,
+        status: STATUS.NotStarted,
+        title: 'Session crash',
+      }),
+      createTask({
+        blocks: ['B-001'],
+        effort: 8,
+        id: 'P-001',
+        'passes-tests': true,
+        priority: PRIORITY.Medium,
+        status: STATUS.Completed,
+        tags: ['security', 'audit'],
+        title: 'Security review',
+        type: TASK_TYPE.Planning,
+      }),
+    ]
+
+    it('should evaluate the example expression from the docs', () => {
+      const result = queryExpressionService.filter(
+        tasks,
+        'status != completed and (type = bug or tag:security) and due < 2026-11-01',
+      )
+
+      expect(ids(result)).to.deep.equal(['F-001'])
+    })
+
+    it('should keep the original task order for or', () => {
+      expect(ids(queryExpressionService.filter(tasks, 'type = planning or type = feature'))).to.deep.equal([
+        'F-001',
+        'P-001',
+      ])
+    })
+
+    it('should negate with not and !=', () => {
+      expect(ids(queryExpressionService.filter(tasks, 'not tag = security'))).to.deep.equal(['B-001'])
+      expect(ids(queryExpressionService.filter(tasks, 'tag != security'))).to.deep.equal(['B-001'])
+    })
+
+    it('should order priorities from low to high', () => {
+      expect(ids(queryExpressionService.filter(tasks, 'priority >= medium'))).to.deep.equal(['F-001', 'P-001'])
+      expect(ids(queryExpressionService.filter(tasks, 'priority < m'))).to.deep.equal(['B-001'])
+    })
+
+    it('should match string fields case-insensitively, exactly or by substring', () => {
+      expect(ids(queryExpressionService.filter(tasks, 'assignee = ALICE'))).to.deep.equal(['F-001'])
+      expect(ids(queryExpressionService.filter(tasks, 'title ~ "crash"'))).to.deep.equal(['B-001'])
+      expect(ids(queryExpressionService.filter(tasks, 'assignee = ""'))).to.deep.equal(['B-001', 'P-001'])
+    })
+
+    it('should match the milestone a task is planned for', () => {
+      const planned = [createFeatureTask({id: 'F-001', milestone: 'v1.0'}), createFeatureTask({id: 'F-002'})]
+
+      expect(ids(queryExpressionService.filter(planned, 'milestone = V1.0'))).to.deep.equal(['F-001'])
+      expect(ids(queryExpressionService.filter(planned, 'milestone != v1.0'))).to.deep.equal(['F-002'])
+    })
+
+    it('should match the sprint a task is committed to', () => {
+      const committed = [createFeatureTask({id: 'F-001', sprint: 's1'}), createFeatureTask({id: 'F-002'})]
+
+      expect(ids(queryExpressionService.filter(committed, 'sprint = s1'))).to.deep.equal(['F-001'])
+      expect(ids(queryExpressionService.filter(committed, 'sprint ~ s'))).to.deep.equal(['F-001'])
+    })
+
+    it('should match notes against legacy notes and comments', () => {
+      const commented = [
+        createFeatureTask({
+          activity: [{at: '2026-10-01T00:00:00.000Z', author: 'bob', body: 'Blocked on review', type: 'comment'}],
+          id: 'F-001',
+        }),
+        createFeatureTask({id: 'F-002', notes: 'Needs a review'}),
+        createFeatureTask({id: 'F-003'}),
+      ]
+
+      expect(ids(queryExpressionService.filter(commented, 'notes ~ review'))).to.deep.equal(['F-001', 'F-002'])
+      expect(ids(queryExpressionService.filter(commented, 'notes = ""'))).to.deep.equal(['F-003'])
+    })
+
+    it('should search titles and details with text', () => {
+      expect(ids(queryExpressionService.filter(tasks, 'text ~ session'))).to.deep.equal(['B-001'])
+      expect(ids(queryExpressionService.filter(tasks, 'text ~ expires'))).to.deep.equal(['B-001'])
+    })
+
+    it('should match dependency and block lists', () => {
+      expect(ids(queryExpressionService.filter(tasks, 'deps = F-001'))).to.deep.equal(['B-001'])
+      expect(ids(queryExpressionService.filter(tasks, 'blocks:B-001'))).to.deep.equal(['P-001'])
+    })
+
+    it('should compare dates by day for = and skip tasks without a date', () => {
+      expect(ids(queryExpressionService.filter(tasks, 'due = 2026-11-15'))).to.deep.equal(['B-001'])
+      expect(ids(queryExpressionService.filter(tasks, 'due > 2026-01-01'))).to.deep.equal(['F-001', 'B-001'])
+      expect(ids(queryExpressionService.filter(tasks, 'due != 2026-11-15'))).to.deep.equal(['F-001', 'P-001'])
+    })
+
+    it('should compare effort and skip tasks without an estimate', () => {
+      expect(ids(queryExpressionService.filter(tasks, 'effort >= 3'))).to.deep.equal(['F-001', 'P-001'])
+      expect(ids(queryExpressionService.filter(tasks, 'effort < 5'))).to.deep.equal(['F-001'])
+    })
+
+    it('should match the tested flag', () => {
+      expect(ids(queryExpressionService.filter(tasks, 'tested = true'))).to.deep.equal(['P-001'])
+    })
+
+    it('should accept an already parsed expression', () => {
+      const node = queryExpressionService.parse('id = b-001')
+
+      expect(ids(queryExpressionService.filter(tasks, node))).to.deep.equal(['B-001'])
+    })
+
+    it('should not mutate the input array', () => {
+      const copy = [...tasks]
+      queryExpressionService.filter(tasks, 'status = completed')
+
+      expect(tasks).to.deep.equal(copy)
+    })
+  })
+})
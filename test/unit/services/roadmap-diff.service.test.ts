@@ -0,0 +1,245 @@
+import {expect} from 'chai'
+
+import {RoadmapDiffService} from '../../../src/services/roadmap-diff.service.js'
+import {PRIORITY, Roadmap, STATUS, TASK_TYPE} from '../../../src/util/types.js'
+import {createRoadmap} from '../../fixtures/roadmap-factory.js'
+import {createBugTask, createFeatureTask} from '../../fixtures/task-factory.js'
+
+function older(): Roadmap {
+  return createRoadmap({
+    tasks: [
+      createFeatureTask({blocks: ['F-002'], id: 'F-001', title: 'Login'}),
+      createFeatureTask({'depends-on': ['F-001'], id: 'F-002', title: 'Profile'}),
+      createBugTask({id: 'B-001', title: 'Crash on start'}),
+    ],
+  })
+}
+
+function newer(): Roadmap {
+  const [login, profile] = older().tasks
+  return createRoadmap({
+    tasks: [
+      {...login, blocks: [], status: STATUS.Completed, title: 'Sign in', updatedAt: '2026-10-19T00:00:00.000Z'},
+      {...profile, assignedTo: 'alice', 'depends-on': ['F-003'], priority: PRIORITY.High, tags: ['ui']},
+      createFeatureTask({blocks: ['F-002'], id: 'F-003', title: 'Avatars'}),
+    ],
+  })
+}
+
+describe('RoadmapDiffService', () => {
+  let roadmapDiffService: RoadmapDiffService
+
+  beforeEach(() => {
+    roadmapDiffService = new RoadmapDiffService()
+  })
+
+  describe('diff', () => {
+    it('should report added, removed and renamed tasks and status changes', () => {
+      const diff = roadmapDiffService.diff(older(), newer())
+
+      expect(diff.added.map((t) => t.id)).to.deep.equal(['F-003'])
+      expect(diff.removed.map((t) => t.id)).to.deep.equal(['B-001'])
+      expect(diff.renamed).to.deep.equal([{from: 'Login', id: 'F-001', to: 'Sign in'}])
+      expect(diff.statusChanges).to.deep.equal([
+        {from: STATUS.NotStarted, id: 'F-001', title: 'Sign in', to: STATUS.Completed},
+      ])
+    })
+
+    it('should report dependency edges added and removed, from either side of the relationship', () => {
+      const diff = roadmapDiffService.diff(older(), newer())
+
+      expect(diff.dependencies).to.deep.equal({
+        added: [{from: 'F-003', to: 'F-002'}],
+        removed: [{from: 'F-001', to: 'F-002'}],
+      })
+    })
+
+    it('should report other field changes, ignoring updatedAt', () => {
+      const diff = roadmapDiffService.diff(older(), newer())
+
+      expect(diff.changed).to.deep.equal([
+        {
+          changes: [
+            {field: 'assignedTo', from: null, to: 'alice'},
+            {field: 'priority', from: PRIORITY.Medium, to: PRIORITY.High},
+            {field: 'tags', from: [], to: ['ui']},
+          ],
+          id: 'F-002',
+          title: 'Profile',
+        },
+      ])
+    })
+
+    it('should report new comments and leave the activity log out of field changes', () => {
+      const roadmap = older()
+      const shared = {at: '2026-10-01T00:00:00.000Z', author: 'alice', body: 'Old news', type: 'comment' as const}
+      const before = {...roadmap, tasks: [{...roadmap.tasks[0], activity: [shared]}, ...roadmap.tasks.slice(1)]}
+      const after = {
+        ...roadmap,
+        tasks: [
+          {
+            ...roadmap.tasks[0],
+            activity: [
+              shared,
+              {
+                at: '2026-10-02T00:00:00.000Z',
+                author: 'bob',
+                field: 'status' as const,
+                from: STATUS.NotStarted,
+                to: STATUS.InProgress,
+                type: 'change' as const,
+              },
+              {at: '2026-10-03T00:00:00.000Z', author: 'bob', body: 'Started', type: 'comment' as const},
+            ],
+            status: STATUS.InProgress,
+          },
+          ...roadmap.tasks.slice(1),
+        ],
+      }
+
+      const diff = roadmapDiffService.diff(before, after)
+
+      expect(diff.changed).to.deep.equal([])
+      expect(diff.comments).to.deep.equal([
+        {at: '2026-10-03T00:00:00.000Z', author: 'bob', body: 'Started', id: 'F-001', title: 'Login'},
+      ])
+      expect(roadmapDiffService.renderText(diff, {from: 'a', to: 'b'})).to.include('Comments (1)\n  F-001 bob: Started')
+      expect(roadmapDiffService.renderMarkdown(diff, {from: 'a', to: 'b'})).to.include(
+        '### Comments\n\n- **F-001** bob: Started',
+      )
+    })
+
+    it('should report a task with a new ID as renumbered, not as removed and added', () => {
+      const roadmap = older()
+      const [login, profile, crash] = roadmap.tasks
+      const renumbered = {
+        ...roadmap,
+        tasks: [
+          {...login, blocks: ['F-002'], id: 'B-002', type: TASK_TYPE.Bug},
+          {...profile, 'depends-on': ['B-002']},
+          crash,
+        ],
+      }
+
+      const diff = roadmapDiffService.diff(roadmap, renumbered)
+
+      expect(diff.added).to.deep.equal([])
+      expect(diff.removed).to.deep.equal([])
+      expect(diff.renumbered).to.deep.equal([{from: 'F-001', title: 'Login', to: 'B-002'}])
+      expect(diff.dependencies).to.deep.equal({added: [], removed: []})
+      expect(diff.changed).to.deep.equal([
+        {changes: [{field: 'type', from: TASK_TYPE.Feature, to: TASK_TYPE.Bug}], id: 'B-002', title: 'Login'},
+      ])
+      expect(roadmapDiffService.renderText(diff, {from: 'a', to: 'b'})).to.include(
+        'Renumbered (1)\n  ~ F-001 → B-002 Login',
+      )
+    })
+
+    it('should not pair removed and added tasks with different titles', () => {
+      const roadmap = older()
+      const [login, ...rest] = roadmap.tasks
+
+      const diff = roadmapDiffService.diff(roadmap, {
+        ...roadmap,
+        tasks: [{...login, id: 'F-009', title: 'Log in'}, ...rest],
+      })
+
+      expect(diff.renumbered).to.deep.equal([])
+      expect(diff.added.map((t) => t.id)).to.deep.equal(['F-009'])
+      expect(diff.removed.map((t) => t.id)).to.deep.equal(['F-001'])
+    })
+
+    it('should treat missing and null fields as the same', () => {
+      const roadmap = older()
+      const {dueDate: _, ...withoutDueDate} = roadmap.tasks[0]
+
+      const diff = roadmapDiffService.diff(roadmap, {...roadmap, tasks: [withoutDueDate, ...roadmap.tasks.slice(1)]})
+
+      expect(roadmapDiffService.isEmpty(diff)).to.be.true
+    })
+  })
+
+  describe('renderText', () => {
+    it('should group changes by kind', () => {
+      const output = roadmapDiffService.renderText(roadmapDiffService.diff(older(), newer()), {
+        from: 'HEAD',
+        to: 'working tree',
+      })
+
+      expect(output.split('\n')).to.deep.equal([
+        'Roadmap diff: HEAD → working tree',
+        '',
+        'Added (1)',
+        '  + F-003 Avatars [feature, not-started]',
+        '',
+        'Removed (1)',
+        '  - B-001 Crash on start',
+        '',
+        'Renamed (1)',
+        '  ~ F-001 "Login" → "Sign in"',
+        '',
+        'Status changes (1)',
+        '  F-001 Sign in: not-started → completed',
+        '',
+        'Dependencies (2)',
+        '  + F-002 depends on F-003',
+        '  - F-002 depends on F-001',
+        '',
+        'Field changes (1)',
+        '  F-002 Profile',
+        '    assignedTo: (none) → alice',
+        '    priority: medium → high',
+        '    tags: (none) → ui',
+      ])
+    })
+
+    it('should say when nothing changed', () => {
+      const roadmap = older()
+      const diff = roadmapDiffService.diff(roadmap, roadmap)
+
+      expect(roadmapDiffService.renderText(diff, {from: 'a.json', to: 'b.json'})).to.equal(
+        'Roadmap diff: a.json → b.json\nNo changes',
+      )
+    })
+  })
+
+  describe('renderMarkdown', () => {
+    it('should render sections, a status table and inline code values', () => {
+      const output = roadmapDiffService.renderMarkdown(roadmapDiffService.diff(older(), newer()), {
+        from: 'main',
+        to: 'HEAD',
+      })
+
+      expect(output).to.match(/^## Roadmap changes \(`main` → `HEAD`\)\n/)
+      expect(output).to.include('### Added\n\n- **F-003** Avatars (feature, not-started)')
+      expect(output).to.include(
+        '| Task | From | To |\n| --- | --- | --- |\n| **F-001** Sign in | not-started | completed |',
+      )
+      expect(output).to.include('- Added: F-002 depends on F-003\n- Removed: F-002 depends on F-001')
+      expect(output).to.include('- **F-002** Profile\n  - `assignedTo`: _none_ → `alice`')
+    })
+
+    it('should escape Markdown in titles', () => {
+      const roadmap = older()
+      const [login, ...rest] = roadmap.tasks
+      const changed = {
+        ...roadmap,
+        tasks: [{...login, title: 'Use *bold* <b>'}, ...rest, createFeatureTask({id: 'F-004', title: '[link](x) _a_'})],
+      }
+
+      const output = roadmapDiffService.renderMarkdown(roadmapDiffService.diff(roadmap, changed), {from: 'a', to: 'b'})
+
+      expect(output).to.include(String.raw`- **F-004** \[link\](x) \_a\_ (feature, not-started)`)
+      expect(output).to.include(String.raw`- **F-001** Login → Use \*bold\* \<b\>`)
+    })
+
+    it('should escape pipes in titles inside the status table', () => {
+      const roadmap = older()
+      const changed = {...roadmap, tasks: [{...roadmap.tasks[0], status: STATUS.InProgress, title: 'A | B'}]}
+
+      const output = roadmapDiffService.renderMarkdown(roadmapDiffService.diff(roadmap, changed), {from: 'a', to: 'b'})
+
+      expect(output).to.include(String.raw`| **F-001** A \| B | not-started | in-progress |`)
+    })
+  })
+})
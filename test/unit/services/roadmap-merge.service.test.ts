@@ -0,0 +1,237 @@
+import {expect} from 'chai'
+
+import {RoadmapMergeService} from '../../../src/services/roadmap-merge.service.js'
+import {Milestone, PRIORITY, Roadmap, STATUS, Task, TaskID} from '../../../src/util/types.js'
+import {createRoadmap} from '../../fixtures/roadmap-factory.js'
+import {createBugTask, createFeatureTask} from '../../fixtures/task-factory.js'
+
+const CREATED = '2026-10-01T00:00:00.000Z'
+
+function task(overrides: Partial<Task>): Task {
+  return createFeatureTask({createdAt: CREATED, updatedAt: CREATED, ...overrides})
+}
+
+function base(): Roadmap {
+  return createRoadmap({
+    metadata: {createdAt: CREATED, createdBy: 'Test User', description: 'Roadmap', name: 'Roadmap'},
+    tasks: [
+      task({blocks: ['F-002'], id: 'F-001', tags: ['auth', 'old']}),
+      task({'depends-on': ['F-001'], id: 'F-002'}),
+    ],
+  })
+}
+
+function milestone(id: string): Milestone {
+  return {createdAt: CREATED, id, name: id}
+}
+
+function withTasks(roadmap: Roadmap, update: (tasks: Task[]) => Task[]): Roadmap {
+  return {...roadmap, tasks: update(roadmap.tasks)}
+}
+
+function change(field: 'depends-on' | 'priority', from: string | TaskID[], to: string | TaskID[], at: string) {
+  return {at, author: 'alice', field, from, to, type: 'change'} as const
+}
+
+function comment(body: string, at: string) {
+  return {at, author: 'alice', body, type: 'comment'} as const
+}
+
+describe('RoadmapMergeService', () => {
+  let roadmapMergeService: RoadmapMergeService
+
+  beforeEach(() => {
+    roadmapMergeService = new RoadmapMergeService()
+  })
+
+  describe('merge', () => {
+    it('should renumber their task when both sides added the same ID, cascading its references', () => {
+      const ours = withTasks(base(), (tasks) => [...tasks, task({id: 'F-003', title: 'Search'})])
+      const theirs = withTasks(base(), ([first, second]) => [
+        first,
+        {...second, 'depends-on': ['F-001', 'F-003']},
+        task({blocks: ['F-002'], id: 'F-003', title: 'Export'}),
+      ])
+
+      const {conflicts, renumbered, roadmap} = roadmapMergeService.merge(base(), ours, theirs)
+
+      expect(conflicts).to.deep.equal([])
+      expect(renumbered).to.deep.equal([{from: 'F-003', to: 'F-004'}])
+      expect(roadmap.tasks.map((t) => [t.id, t.title])).to.deep.equal([
+        ['F-001', base().tasks[0].title],
+        ['F-002', base().tasks[1].title],
+        ['F-003', 'Search'],
+        ['F-004', 'Export'],
+      ])
+      expect(roadmap.tasks[1]['depends-on']).to.deep.equal(['F-001', 'F-004'])
+    })
+
+    it('should pick renumbered IDs that are free on both sides, using the ID width', () => {
+      const ours = withTasks(base(), (tasks) => [...tasks, task({id: 'F-003', title: 'A'}), task({id: 'F-004'})])
+      const theirs = withTasks(base(), (tasks) => [...tasks, task({id: 'F-003', title: 'B'})])
+
+      const {renumbered} = roadmapMergeService.merge(base(), ours, theirs, {width: 4})
+
+      expect(renumbered).to.deep.equal([{from: 'F-003', to: 'F-0005'}])
+    })
+
+    it('should not renumber a task both sides added identically', () => {
+      const added = task({id: 'F-003', title: 'Same'})
+      const ours = withTasks(base(), (tasks) => [...tasks, added])
+      const theirs = withTasks(base(), (tasks) => [...tasks, {...added, updatedAt: '2026-10-02T00:00:00.000Z'}])
+
+      const {conflicts, renumbered, roadmap} = roadmapMergeService.merge(base(), ours, theirs)
+
+      expect(renumbered).to.deep.equal([])
+      expect(conflicts).to.deep.equal([])
+      expect(roadmap.tasks).to.have.lengthOf(3)
+    })
+
+    it('should merge changes to different fields of a task without conflicts', () => {
+      const ours = withTasks(base(), ([first, second]) => [{...first, status: STATUS.InProgress}, second])
+      const theirs = withTasks(base(), ([first, second]) => [
+        {...first, assignedTo: 'bob', updatedAt: '2026-10-05T00:00:00.000Z'},
+        second,
+      ])
+
+      const {conflicts, roadmap} = roadmapMergeService.merge(base(), ours, theirs)
+
+      expect(conflicts).to.deep.equal([])
+      expect(roadmap.tasks[0]).to.include({
+        assignedTo: 'bob',
+        status: STATUS.InProgress,
+        updatedAt: '2026-10-05T00:00:00.000Z',
+      })
+    })
+
+    it('should report a field changed differently on both sides and keep ours', () => {
+      const ours = withTasks(base(), ([first, second]) => [{...first, priority: PRIORITY.High}, second])
+      const theirs = withTasks(base(), ([first, second]) => [{...first, priority: PRIORITY.Low}, second])
+
+      const {conflicts, roadmap} = roadmapMergeService.merge(base(), ours, theirs)
+
+      expect(conflicts).to.deep.equal([
+        {base: PRIORITY.Medium, field: 'priority', item: 'F-001', ours: PRIORITY.High, theirs: PRIORITY.Low},
+      ])
+      expect(roadmap.tasks[0].priority).to.equal(PRIORITY.High)
+    })
+
+    it('should accept the same change made on both sides', () => {
+      const done = (roadmap: Roadmap) =>
+        withTasks(roadmap, ([first, second]) => [{...first, status: STATUS.Completed}, second])
+
+      const {conflicts, roadmap} = roadmapMergeService.merge(base(), done(base()), done(base()))
+
+      expect(conflicts).to.deep.equal([])
+      expect(roadmap.tasks[0].status).to.equal(STATUS.Completed)
+    })
+
+    it('should merge tags and dependencies as sets', () => {
+      const ours = withTasks(base(), ([first, second]) => [{...first, tags: ['auth', 'old', 'ui']}, second])
+      const theirs = withTasks(base(), ([first, second]) => [
+        {...first, blocks: [], tags: ['auth', 'api']},
+        {...second, 'depends-on': []},
+      ])
+
+      const {conflicts, roadmap} = roadmapMergeService.merge(base(), ours, theirs)
+
+      expect(conflicts).to.deep.equal([])
+      expect(roadmap.tasks[0].tags).to.deep.equal(['auth', 'ui', 'api'])
+      expect(roadmap.tasks[0].blocks).to.deep.equal([])
+      expect(roadmap.tasks[1]['depends-on']).to.deep.equal([])
+    })
+
+    it('should merge the activity of changes to different fields without conflicts', () => {
+      const ours = withTasks(base(), ([first, second]) => [
+        {
+          ...first,
+          activity: [change('priority', PRIORITY.Medium, PRIORITY.High, '2026-10-03T00:00:00.000Z')],
+          priority: PRIORITY.High,
+        },
+        second,
+      ])
+      const theirs = withTasks(base(), ([first, second]) => [
+        {
+          ...first,
+          activity: [change('depends-on', [], ['F-003'], '2026-10-02T00:00:00.000Z')],
+          'depends-on': ['F-003'],
+        },
+        second,
+      ])
+
+      const {conflicts, roadmap} = roadmapMergeService.merge(base(), ours, theirs)
+
+      expect(conflicts).to.deep.equal([])
+      expect(roadmap.tasks[0].activity!.map((entry) => entry.at)).to.deep.equal([
+        '2026-10-02T00:00:00.000Z',
+        '2026-10-03T00:00:00.000Z',
+      ])
+    })
+
+    it('should keep the comments both sides added, once each, in time order', () => {
+      const shared = comment('shared', '2026-10-01T12:00:00.000Z')
+      const ancestor = withTasks(base(), ([first, second]) => [first, {...second, activity: [shared]}])
+      const ours = withTasks(ancestor, ([first, second]) => [
+        first,
+        {...second, activity: [shared, comment('b', '2026-10-03T00:00:00.000Z')]},
+      ])
+      const theirs = withTasks(ancestor, ([first, second]) => [
+        first,
+        {...second, activity: [shared, comment('a', '2026-10-02T00:00:00.000Z')]},
+      ])
+
+      const {conflicts, roadmap} = roadmapMergeService.merge(ancestor, ours, theirs)
+
+      expect(conflicts).to.deep.equal([])
+      expect(
+        roadmap.tasks[1].activity!.map((entry) => (entry.type === 'comment' ? entry.body : entry.field)),
+      ).to.deep.equal(['shared', 'a', 'b'])
+    })
+
+    it('should delete a task removed on one side and unchanged on the other', () => {
+      const theirs = withTasks(base(), ([first]) => [{...first, blocks: []}])
+
+      const {conflicts, roadmap} = roadmapMergeService.merge(base(), base(), theirs)
+
+      expect(conflicts).to.deep.equal([])
+      expect(roadmap.tasks.map((t) => t.id)).to.deep.equal(['F-001'])
+    })
+
+    it('should keep a task deleted on one side and changed on the other, reporting the conflict', () => {
+      const ours = withTasks(base(), ([first, second]) => [first, {...second, title: 'Renamed'}])
+      const theirs = withTasks(base(), ([first]) => [{...first, blocks: []}])
+
+      const {conflicts, roadmap} = roadmapMergeService.merge(base(), ours, theirs)
+
+      expect(conflicts).to.have.lengthOf(1)
+      expect(conflicts[0]).to.include({field: 'deleted', item: 'F-002', theirs: null})
+      expect(roadmap.tasks.map((t) => t.id)).to.deep.equal(['F-001', 'F-002'])
+    })
+
+    it('should merge milestones by ID and keep tasks added by either side', () => {
+      const ours = {...base(), milestones: [milestone('v1.0')]}
+      const theirs = {
+        ...withTasks(base(), (tasks) => [...tasks, createBugTask({createdAt: CREATED, id: 'B-001'})]),
+        milestones: [milestone('v2.0')],
+      }
+
+      const {conflicts, roadmap} = roadmapMergeService.merge(base(), ours, theirs)
+
+      expect(conflicts).to.deep.equal([])
+      expect(roadmap.milestones!.map((m) => m.id)).to.deep.equal(['v1.0', 'v2.0'])
+      expect(roadmap.tasks.map((t) => t.id)).to.deep.equal(['F-001', 'F-002', 'B-001'])
+      expect(roadmap).to.not.have.property('sprints')
+    })
+
+    it('should ignore key order when comparing values', () => {
+      const [first, second] = base().tasks
+      const reordered = Object.fromEntries(Object.entries(first).reverse()) as Task
+      const theirs = {...base(), tasks: [{...reordered, status: STATUS.Completed}, second]}
+
+      const {conflicts, roadmap} = roadmapMergeService.merge(base(), {...base(), tasks: [reordered, second]}, theirs)
+
+      expect(conflicts).to.deep.equal([])
+      expect(roadmap.tasks[0].status).to.equal(STATUS.Completed)
+    })
+  })
+})
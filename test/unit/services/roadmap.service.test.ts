@@ -3,7 +3,9 @@ import * as fs from 'node:fs/promises'
 import {join} from 'node:path'
 
 import {RoadmapService} from '../../../src/services/roadmap.service.js'
+import {getTaskTypes} from '../../../src/util/task-types.js'
 import {PRIORITY, Roadmap, STATUS, TASK_TYPE} from '../../../src/util/types.js'
+import {getWorkflow} from '../../../src/util/workflow.js'
 import {
   createComplexRoadmap,
   createEmptyRoadmap,
@@ -771,6 +773,29 @@ describe('RoadmapService', () => {
         expect(refErrors).to.have.lengthOf(0)
       })
 
+      it('should return error for a task planned for a non-existent milestone', () => {
+        const task = createFeatureTask({milestone: 'v1.0', title: 'Planned'})
+        const roadmap = createRoadmap({tasks: [task]})
+
+        const errors = roadmapService.validate(roadmap)
+
+        expect(errors).to.deep.include({
+          field: 'milestone',
+          message: `Task ${task.id} is planned for non-existent milestone v1.0`,
+          taskId: task.id,
+          type: 'invalid-reference',
+        })
+      })
+
+      it('should return error for a task committed to a non-existent sprint', () => {
+        const task = createFeatureTask({sprint: 's1', title: 'Committed'})
+        const roadmap = createRoadmap({tasks: [task]})
+
+        const errors = roadmapService.validate(roadmap)
+
+        expect(errors.map((e) => e.message)).to.include(`Task ${task.id} is committed to non-existent sprint s1`)
+      })
+
       it('should validate references across all tasks', () => {
         const task1 = createFeatureTask({title: 'Task 1'})
         const task2 = createBugTask({title: 'Task 2'})
@@ -808,6 +833,31 @@ describe('RoadmapService', () => {
         expect(circularError?.message).to.include('Circular dependency')
       })
 
+      it('should detect parent cycles and missing parents', () => {
+        const roadmap = createRoadmap({
+          tasks: [
+            createFeatureTask({id: 'F-001', parent: 'F-002'}),
+            createFeatureTask({id: 'F-002', parent: 'F-001'}),
+            createFeatureTask({id: 'F-003', parent: 'F-099'}),
+          ],
+        })
+
+        const errors = roadmapService.validate(roadmap)
+
+        expect(errors).to.deep.include({
+          field: 'parent',
+          message: 'Circular parent chain detected: F-001 -> F-002 -> F-001',
+          taskId: 'F-001',
+          type: 'circular-dependency',
+        })
+        expect(errors).to.deep.include({
+          field: 'parent',
+          message: 'Task F-003 has non-existent parent F-099',
+          taskId: 'F-003',
+          type: 'missing-task',
+        })
+      })
+
       it('should detect self-dependency', () => {
         const task = createFeatureTask({
           'depends-on': ['F-001' as never],
@@ -1206,6 +1256,41 @@ describe('RoadmapService', () => {
         expect(stats.byType[TASK_TYPE.Feature]).to.equal(100)
       })
 
+      it('should count custom task types, including unused ones', () => {
+        const roadmap = createRoadmap({
+          tasks: [createTask({id: 'C-001', type: 'chore'}), createTask({id: 'C-002', type: 'chore'}), createBugTask()],
+        })
+
+        const stats = roadmapService.getStats(roadmap, new Date(), getTaskTypes({taskTypes: {chore: 'C', docs: 'D'}}))
+
+        expect(stats.byType).to.deep.equal({
+          bug: 1,
+          chore: 2,
+          docs: 0,
+          feature: 0,
+          improvement: 0,
+          planning: 0,
+          research: 0,
+        })
+      })
+
+      it('should count custom workflow statuses, including unused ones', () => {
+        const roadmap = createRoadmap({
+          tasks: [createBugTask({status: 'blocked'}), createBugTask({status: STATUS.Completed})],
+        })
+        const workflow = getWorkflow({workflow: {statuses: {blocked: {symbol: '!'}, cancelled: {symbol: 'x'}}}})
+
+        const stats = roadmapService.getStats(roadmap, new Date(), undefined, workflow)
+
+        expect(stats.byStatus).to.deep.equal({
+          blocked: 1,
+          cancelled: 0,
+          [STATUS.Completed]: 1,
+          [STATUS.InProgress]: 0,
+          [STATUS.NotStarted]: 0,
+        })
+      })
+
       it('should not mutate original roadmap', () => {
         const roadmap = createSimpleRoadmap()
         const originalTaskCount = roadmap.tasks.length
@@ -1215,5 +1300,96 @@ describe('RoadmapService', () => {
         expect(roadmap.tasks.length).to.equal(originalTaskCount)
       })
     })
+
+    describe('progress, effort and breakdowns', () => {
+      it('should compute completion and test-pass rates', () => {
+        const roadmap = createRoadmap({
+          tasks: [
+            createFeatureTask({'passes-tests': true, status: STATUS.Completed}),
+            createFeatureTask({status: STATUS.Completed}),
+            createFeatureTask({status: STATUS.InProgress}),
+          ],
+        })
+
+        const stats = roadmapService.getStats(roadmap)
+
+        expect(stats.completionRate).to.equal(66.7)
+        expect(stats.testPassRate).to.equal(33.3)
+        expect(stats.testsPassing).to.equal(1)
+      })
+
+      it('should return zero rates for an empty roadmap', () => {
+        const stats = roadmapService.getStats(createEmptyRoadmap())
+
+        expect(stats.completionRate).to.equal(0)
+        expect(stats.testPassRate).to.equal(0)
+        expect(stats.byAssignee).to.deep.equal({})
+        expect(stats.effort).to.deep.equal({remaining: 0, total: 0, unestimated: 0})
+      })
+
+      it('should count incomplete tasks past their due date as overdue', () => {
+        const roadmap = createRoadmap({
+          tasks: [
+            createFeatureTask({dueDate: '2026-01-01'}),
+            createFeatureTask({dueDate: '2026-01-01', status: STATUS.Completed}),
+            createFeatureTask({dueDate: '2026-03-01'}),
+            createFeatureTask({dueDate: 'not a date'}),
+          ],
+        })
+
+        const stats = roadmapService.getStats(roadmap, new Date('2026-02-01'))
+
+        expect(stats.overdue).to.equal(1)
+      })
+
+      it('should break down completion by assignee and tag', () => {
+        const roadmap = createRoadmap({
+          tasks: [
+            createFeatureTask({assignedTo: 'alice', status: STATUS.Completed, tags: ['api', 'api']}),
+            createFeatureTask({assignedTo: 'alice', tags: ['api', 'ui']}),
+            createFeatureTask({tags: []}),
+          ],
+        })
+
+        const stats = roadmapService.getStats(roadmap)
+
+        expect(stats.byAssignee).to.deep.equal({alice: {completed: 1, total: 2}})
+        expect(stats.byTag).to.deep.equal({api: {completed: 1, total: 2}, ui: {completed: 0, total: 1}})
+      })
+
+      it('should count tags and assignees named like Object.prototype keys without polluting it', () => {
+        const roadmap = createRoadmap({
+          tasks: [
+            createFeatureTask({assignedTo: 'constructor', tags: ['__proto__']}),
+            createFeatureTask({tags: ['__proto__', 'toString']}),
+          ],
+        })
+
+        const stats = roadmapService.getStats(roadmap)
+
+        expect(Object.entries(stats.byTag!)).to.deep.equal([
+          ['__proto__', {completed: 0, total: 2}],
+          ['toString', {completed: 0, total: 1}],
+        ])
+        expect(Object.entries(stats.byAssignee!)).to.deep.equal([['constructor', {completed: 0, total: 1}]])
+        expect(Object.prototype).to.not.have.own.property('total')
+        expect(JSON.stringify(stats.byTag)).to.include('"__proto__":{"completed":0,"total":2}')
+      })
+
+      it('should total estimated and remaining effort', () => {
+        const roadmap = createRoadmap({
+          tasks: [
+            createFeatureTask({effort: 3, status: STATUS.Completed}),
+            createFeatureTask({effort: 2}),
+            createFeatureTask({effort: null}),
+            createFeatureTask(),
+          ],
+        })
+
+        const stats = roadmapService.getStats(roadmap)
+
+        expect(stats.effort).to.deep.equal({remaining: 2, total: 5, unestimated: 2})
+      })
+    })
   })
 })
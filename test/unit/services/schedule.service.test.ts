@@ -0,0 +1,100 @@
+import {expect} from 'chai'
+
+import {CircularDependencyError} from '../../../src/errors/index.js'
+import {ScheduleService} from '../../../src/services/schedule.service.js'
+import {STATUS} from '../../../src/util/types.js'
+import {createFeatureTask} from '../../fixtures/task-factory.js'
+
+// F-001 (3) -> F-002 (5) -> F-004 (1)
+// F-001 (3) -> F-003 (2) -> F-004 (1)
+const diamond = () => [
+  createFeatureTask({effort: 3, id: 'F-001'}),
+  createFeatureTask({'depends-on': ['F-001'], effort: 5, id: 'F-002'}),
+  createFeatureTask({'depends-on': ['F-001'], effort: 2, id: 'F-003'}),
+  createFeatureTask({'depends-on': ['F-002', 'F-003'], effort: 1, id: 'F-004'}),
+]
+
+describe('ScheduleService', () => {
+  let scheduleService: ScheduleService
+
+  beforeEach(() => {
+    scheduleService = new ScheduleService()
+  })
+
+  describe('analyze', () => {
+    it('should find the longest effort-weighted chain', () => {
+      const analysis = scheduleService.analyze(diamond())
+
+      expect(analysis.totalEffort).to.equal(9)
+      expect(analysis.criticalPath.map((entry) => entry.task.id)).to.deep.equal(['F-001', 'F-002', 'F-004'])
+    })
+
+    it('should compute earliest/latest start and slack for each task', () => {
+      const analysis = scheduleService.analyze(diamond())
+      const byId = Object.fromEntries(analysis.schedule.map((entry) => [entry.task.id, entry]))
+
+      expect(byId['F-002']).to.include({earliestStart: 3, latestStart: 3, slack: 0})
+      expect(byId['F-003']).to.include({critical: false, earliestStart: 3, latestStart: 6, slack: 3})
+      expect(byId['F-004']).to.include({earliestFinish: 9, earliestStart: 8, latestFinish: 9})
+    })
+
+    it('should order the schedule so dependencies come first', () => {
+      const tasks = [
+        createFeatureTask({'depends-on': ['F-002'], effort: 1, id: 'F-001'}),
+        createFeatureTask({effort: 1, id: 'F-002'}),
+      ]
+
+      const analysis = scheduleService.analyze(tasks)
+
+      expect(analysis.schedule.map((entry) => entry.task.id)).to.deep.equal(['F-002', 'F-001'])
+    })
+
+    it('should ignore completed tasks and missing dependencies', () => {
+      const tasks = [
+        createFeatureTask({effort: 10, id: 'F-001', status: STATUS.Completed}),
+        createFeatureTask({'depends-on': ['F-001', 'F-099'], effort: 2, id: 'F-002'}),
+      ]
+
+      const analysis = scheduleService.analyze(tasks)
+
+      expect(analysis.schedule.map((entry) => entry.task.id)).to.deep.equal(['F-002'])
+      expect(analysis.schedule[0].earliestStart).to.equal(0)
+      expect(analysis.totalEffort).to.equal(2)
+    })
+
+    it('should use the default effort for unestimated tasks', () => {
+      const tasks = [createFeatureTask({id: 'F-001'}), createFeatureTask({'depends-on': ['F-001'], id: 'F-002'})]
+
+      expect(scheduleService.analyze(tasks).criticalPath).to.be.empty
+      expect(scheduleService.analyze(tasks, {defaultEffort: 2}).totalEffort).to.equal(4)
+    })
+
+    it('should flag tasks whose dependency chain finishes after their due date', () => {
+      const tasks = [
+        createFeatureTask({effort: 5, id: 'F-001'}),
+        createFeatureTask({'depends-on': ['F-001'], dueDate: '2026-01-04', effort: 1, id: 'F-002'}),
+        createFeatureTask({dueDate: '2026-01-10', effort: 1, id: 'F-003'}),
+      ]
+
+      const analysis = scheduleService.analyze(tasks, {startDate: new Date('2026-01-01')})
+
+      expect(analysis.conflicts).to.have.lengthOf(1)
+      expect(analysis.conflicts[0].task.id).to.equal('F-002')
+      expect(analysis.conflicts[0].daysLate).to.equal(3)
+      expect(analysis.conflicts[0].earliestFinishDate).to.equal('2026-01-07T00:00:00.000Z')
+    })
+
+    it('should throw CircularDependencyError for circular dependencies', () => {
+      const tasks = [
+        createFeatureTask({'depends-on': ['F-002'], id: 'F-001'}),
+        createFeatureTask({'depends-on': ['F-001'], id: 'F-002'}),
+      ]
+
+      expect(() => scheduleService.analyze(tasks)).to.throw(CircularDependencyError)
+    })
+
+    it('should return an empty analysis for an empty roadmap', () => {
+      expect(scheduleService.analyze([])).to.deep.equal({conflicts: [], criticalPath: [], schedule: [], totalEffort: 0})
+    })
+  })
+})
@@ -0,0 +1,162 @@
+import {expect} from 'chai'
+
+import {SprintNotFoundError, ValidationError} from '../../../src/errors/index.js'
+import {SprintService} from '../../../src/services/sprint.service.js'
+import {PRIORITY, Roadmap, Sprint, STATUS} from '../../../src/util/types.js'
+import {createRoadmap} from '../../fixtures/roadmap-factory.js'
+import {createBugTask, createFeatureTask} from '../../fixtures/task-factory.js'
+
+const SPRINT: Sprint = {
+  capacity: {alice: 6, bob: 5},
+  createdAt: '2026-10-01T00:00:00.000Z',
+  endDate: '2026-11-15T00:00:00.000Z',
+  id: 's2',
+  name: 'Sprint 2',
+  startDate: '2026-11-02T00:00:00.000Z',
+}
+
+function backlog(): Roadmap {
+  return createRoadmap({
+    sprints: [
+      {...SPRINT, endDate: '2026-10-30T00:00:00.000Z', id: 's1', name: 's1', startDate: '2026-10-19T00:00:00.000Z'},
+      SPRINT,
+    ],
+    tasks: [
+      createFeatureTask({assignedTo: 'alice', effort: 3, id: 'F-001', priority: PRIORITY.High}),
+      createFeatureTask({
+        assignedTo: 'alice',
+        'depends-on': ['F-001'],
+        effort: 3,
+        id: 'F-002',
+        priority: PRIORITY.High,
+      }),
+      createFeatureTask({assignedTo: 'alice', effort: 4, id: 'F-003', priority: PRIORITY.Medium}),
+      createBugTask({assignedTo: 'bob', effort: 2, id: 'B-001'}),
+      createBugTask({assignedTo: 'bob', id: 'B-002'}),
+      createBugTask({id: 'B-003'}),
+      createBugTask({assignedTo: 'carol', effort: 1, id: 'B-004'}),
+    ],
+  })
+}
+
+describe('SprintService', () => {
+  let sprintService: SprintService
+
+  beforeEach(() => {
+    sprintService = new SprintService()
+  })
+
+  describe('addSprint', () => {
+    it('should default the name to the ID and the end date to two weeks after the start', () => {
+      const sprint = sprintService.createSprint({capacity: {alice: 8}, id: 's3', startDate: '2026-11-16T00:00:00.000Z'})
+
+      const updated = sprintService.addSprint(createRoadmap(), sprint)
+
+      expect(updated.sprints).to.deep.equal([sprint])
+      expect(sprint).to.include({endDate: '2026-11-29T00:00:00.000Z', name: 's3'})
+    })
+
+    it('should reject duplicate IDs, reversed dates and negative capacity', () => {
+      const reversed = {...SPRINT, endDate: '2026-11-01T00:00:00.000Z', id: 's3'}
+      const negative = {...SPRINT, capacity: {alice: -1}, id: 's3'}
+
+      expect(() => sprintService.addSprint(backlog(), SPRINT)).to.throw(ValidationError)
+      expect(() => sprintService.addSprint(createRoadmap(), reversed)).to.throw(ValidationError)
+      expect(() => sprintService.addSprint(createRoadmap(), negative)).to.throw(ValidationError)
+    })
+  })
+
+  describe('planSprint', () => {
+    it('should pull ready tasks by rank until each assignee is at capacity, respecting dependencies', () => {
+      const plan = sprintService.planSprint(backlog(), 's2')
+
+      // F-002 waits for F-001 until F-001 is pulled in; after both, F-003 no longer fits
+      expect(plan.planned.map((task) => task.id)).to.deep.equal(['F-001', 'B-001', 'F-002'])
+      expect(plan.load).to.deep.equal([
+        {assignee: 'alice', capacity: 6, committed: 6, completed: 0},
+        {assignee: 'bob', capacity: 5, committed: 2, completed: 0},
+      ])
+      expect(plan.unestimated.map((task) => task.id)).to.deep.equal(['B-002'])
+      expect(plan.unassigned.map((task) => task.id)).to.deep.equal(['B-003', 'B-004'])
+    })
+
+    it('should count tasks already in the sprint against capacity', () => {
+      const roadmap = sprintService.commitTasks(backlog(), 's2', ['F-003'])
+
+      const plan = sprintService.planSprint(roadmap, 's2')
+
+      expect(plan.planned.map((task) => task.id)).to.deep.equal(['B-001'])
+      expect(plan.load[0]).to.include({assignee: 'alice', committed: 4})
+    })
+
+    it('should leave tasks of current sprints alone and carry over tasks of ended ones', () => {
+      const roadmap = sprintService.commitTasks(backlog(), 's1', ['B-001'])
+      roadmap.sprints!.push({...SPRINT, id: 's2b'})
+      const overlapping = sprintService.commitTasks(roadmap, 's2b', ['F-001'])
+
+      const planned = sprintService.planSprint(overlapping, 's2').planned.map((task) => task.id)
+
+      expect(planned).to.include('B-001')
+      expect(planned).not.to.include('F-001')
+    })
+
+    it('should throw SprintNotFoundError for an unknown sprint', () => {
+      expect(() => sprintService.planSprint(backlog(), 's9')).to.throw(SprintNotFoundError)
+    })
+  })
+
+  describe('getStatus', () => {
+    it('should report committed and completed effort per assignee', () => {
+      const roadmap = sprintService.commitTasks(backlog(), 's2', ['F-001', 'F-003', 'B-002', 'B-004'])
+      roadmap.tasks[0].status = STATUS.Completed
+
+      const status = sprintService.getStatus(roadmap, 's2', new Date('2026-11-10T12:00:00.000Z'))
+
+      expect(status).to.include({
+        committed: 8,
+        completed: 3,
+        completedTasks: 1,
+        daysLeft: 6,
+        progress: 37.5,
+        state: 'active',
+        total: 4,
+        unestimated: 1,
+      })
+      expect(status.members).to.deep.equal([
+        {assignee: 'alice', capacity: 6, committed: 7, completed: 3},
+        {assignee: 'bob', capacity: 5, committed: 0, completed: 0},
+        {assignee: 'carol', capacity: 0, committed: 1, completed: 0},
+      ])
+    })
+
+    it('should tell planned and ended sprints apart', () => {
+      expect(sprintService.getStatus(backlog(), 's2', new Date('2026-10-01'))).to.include({
+        daysLeft: 14,
+        state: 'planned',
+      })
+      expect(sprintService.getStatus(backlog(), 's2', new Date('2026-12-01'))).to.include({daysLeft: 0, state: 'ended'})
+    })
+  })
+
+  describe('validateSprints', () => {
+    it('should accept valid sprints and references', () => {
+      expect(sprintService.validateSprints(sprintService.commitTasks(backlog(), 's2', ['F-001']))).to.deep.equal([])
+    })
+
+    it('should report duplicate sprints and tasks committed to unknown sprints', () => {
+      const roadmap = backlog()
+      roadmap.sprints!.push(SPRINT)
+      roadmap.tasks.push(createFeatureTask({id: 'F-009', sprint: 's9'}))
+
+      expect(sprintService.validateSprints(roadmap)).to.deep.equal([
+        {field: 'sprints', message: 'Duplicate sprint ID: s2', type: 'duplicate-id'},
+        {
+          field: 'sprint',
+          message: 'Task F-009 is committed to non-existent sprint s9',
+          taskId: 'F-009',
+          type: 'invalid-reference',
+        },
+      ])
+    })
+  })
+})
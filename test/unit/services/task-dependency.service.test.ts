@@ -1,7 +1,8 @@
 import {expect} from 'chai'
 
+import {IncompleteDependenciesError} from '../../../src/errors/index.js'
 import {TaskDependencyService} from '../../../src/services/task-dependency.service.js'
-import {Task, TaskID} from '../../../src/util/types.js'
+import {STATUS, Task, TaskID} from '../../../src/util/types.js'
 import {createBugTask, createFeatureTask, createPlanningTask} from '../../fixtures/task-factory.js'
 
 describe('TaskDependencyService', () => {
@@ -731,6 +732,48 @@ describe('TaskDependencyService', () => {
     })
   })
 
+  describe('getTransitiveDependents', () => {
+    it('should return direct and transitive dependents in breadth-first order', () => {
+      const tasks = [
+        createFeatureTask({id: 'F-001'}),
+        createFeatureTask({'depends-on': ['F-001'] as TaskID[], id: 'F-002'}),
+        createFeatureTask({'depends-on': ['F-002'] as TaskID[], id: 'F-003'}),
+        createFeatureTask({'depends-on': ['F-001', 'F-003'] as TaskID[], id: 'F-004'}),
+      ]
+
+      const dependents = taskDependencyService.getTransitiveDependents('F-001', tasks)
+
+      expect(dependents.map((t) => t.id)).to.deep.equal(['F-002', 'F-004', 'F-003'])
+    })
+
+    it('should terminate on circular dependencies', () => {
+      const tasks = [
+        createFeatureTask({'depends-on': ['F-002'] as TaskID[], id: 'F-001'}),
+        createFeatureTask({'depends-on': ['F-001'] as TaskID[], id: 'F-002'}),
+      ]
+
+      expect(taskDependencyService.getTransitiveDependents('F-001', tasks).map((t) => t.id)).to.deep.equal(['F-002'])
+    })
+  })
+
+  describe('getTransitiveDependencies', () => {
+    it('should return direct and transitive dependencies, skipping missing tasks', () => {
+      const tasks = [
+        createFeatureTask({id: 'F-001'}),
+        createFeatureTask({'depends-on': ['F-001', 'F-099'] as TaskID[], id: 'F-002'}),
+        createFeatureTask({'depends-on': ['F-002'] as TaskID[], id: 'F-003'}),
+      ]
+
+      const dependencies = taskDependencyService.getTransitiveDependencies('F-003', tasks)
+
+      expect(dependencies.map((t) => t.id)).to.deep.equal(['F-002', 'F-001'])
+    })
+
+    it('should return an empty array for an unknown task', () => {
+      expect(taskDependencyService.getTransitiveDependencies('F-099', [createFeatureTask({id: 'F-001'})])).to.be.empty
+    })
+  })
+
   describe('validateDependencies', () => {
     describe('valid dependencies', () => {
       it('should return empty array for tasks with no dependencies', () => {
@@ -1372,6 +1415,66 @@ describe('TaskDependencyService', () => {
     })
   })
 
+  describe('guardCompletion', () => {
+    const prerequisites = [
+      createFeatureTask({id: 'F-001', status: STATUS.Completed}),
+      createFeatureTask({id: 'F-002', status: STATUS.InProgress}),
+    ]
+    const task = createFeatureTask({'depends-on': ['F-001', 'F-002'] as TaskID[], id: 'F-003'})
+    const allTasks = [...prerequisites, task]
+
+    it('should throw IncompleteDependenciesError in strict mode', () => {
+      expect(() => taskDependencyService.guardCompletion(task, allTasks))
+        .to.throw(IncompleteDependenciesError)
+        .with.deep.property('context', {incompleteIds: ['F-002'], taskId: 'F-003'})
+    })
+
+    it('should return the unfinished dependencies in warn mode', () => {
+      const incomplete = taskDependencyService.guardCompletion(task, allTasks, 'warn')
+
+      expect(incomplete.map((t) => t.id)).to.deep.equal(['F-002'])
+    })
+
+    it('should skip the check in off mode', () => {
+      expect(taskDependencyService.guardCompletion(task, allTasks, 'off')).to.deep.equal([])
+    })
+
+    it('should allow completion once every dependency is completed', () => {
+      const completed = allTasks.map((t) => (t.id === 'F-002' ? {...t, status: STATUS.Completed} : t))
+
+      expect(taskDependencyService.guardCompletion(task, completed)).to.deep.equal([])
+    })
+  })
+
+  describe('guardStatusChange', () => {
+    const prerequisite = createFeatureTask({id: 'F-001', status: STATUS.InProgress})
+    const task = createFeatureTask({'depends-on': ['F-001'] as TaskID[], id: 'F-002', status: STATUS.InProgress})
+    const allTasks = [prerequisite, task]
+
+    it('should throw in strict mode when the update completes the task', () => {
+      expect(() =>
+        taskDependencyService.guardStatusChange(task, {status: STATUS.Completed}, allTasks, {mode: 'strict'}),
+      ).to.throw(IncompleteDependenciesError)
+    })
+
+    it('should return a warning with force', () => {
+      expect(
+        taskDependencyService.guardStatusChange(task, {status: STATUS.Completed}, allTasks, {force: true}),
+      ).to.equal('Completing F-002 before its prerequisites: F-001 (in-progress)')
+    })
+
+    it('should ignore updates that do not complete the task', () => {
+      expect(taskDependencyService.guardStatusChange(task, {title: 'Renamed'}, allTasks)).to.be.undefined
+      expect(
+        taskDependencyService.guardStatusChange(
+          {...task, status: STATUS.Completed},
+          {status: STATUS.Completed},
+          allTasks,
+        ),
+      ).to.be.undefined
+    })
+  })
+
   describe('getDependsOnTasks', () => {
     it('should return tasks that this task depends on', () => {
       const task1 = createFeatureTask({id: 'F-001'})
@@ -0,0 +1,137 @@
+import {expect} from 'chai'
+
+import {TaskHierarchyService} from '../../../src/services/task-hierarchy.service.js'
+import {STATUS} from '../../../src/util/types.js'
+import {createFeatureTask} from '../../fixtures/task-factory.js'
+
+function epic() {
+  return [
+    createFeatureTask({id: 'F-010'}),
+    createFeatureTask({effort: 3, id: 'F-011', parent: 'F-010', status: STATUS.Completed}),
+    createFeatureTask({effort: 5, id: 'F-012', parent: 'F-010'}),
+    createFeatureTask({id: 'F-013', parent: 'F-012'}),
+    createFeatureTask({id: 'F-020'}),
+  ]
+}
+
+describe('TaskHierarchyService', () => {
+  let taskHierarchyService: TaskHierarchyService
+
+  beforeEach(() => {
+    taskHierarchyService = new TaskHierarchyService()
+  })
+
+  describe('flattenTree', () => {
+    it('should place children after their parent, one level deeper', () => {
+      const tasks = epic()
+      const [parent, ...rest] = tasks
+
+      const entries = taskHierarchyService.flattenTree([...rest, parent])
+
+      expect(entries.map(({depth, task}) => [task.id, depth])).to.deep.equal([
+        ['F-020', 0],
+        ['F-010', 0],
+        ['F-011', 1],
+        ['F-012', 1],
+        ['F-013', 2],
+      ])
+    })
+
+    it('should list tasks whose parent is filtered out at the top level', () => {
+      const entries = taskHierarchyService.flattenTree(epic().slice(2))
+
+      expect(entries.map(({depth, task}) => [task.id, depth])).to.deep.equal([
+        ['F-012', 0],
+        ['F-013', 1],
+        ['F-020', 0],
+      ])
+    })
+
+    it('should list every task of a parent cycle once', () => {
+      const tasks = [
+        createFeatureTask({id: 'F-001', parent: 'F-002'}),
+        createFeatureTask({id: 'F-002', parent: 'F-001'}),
+      ]
+
+      const entries = taskHierarchyService.flattenTree(tasks)
+
+      expect(entries.map(({task}) => task.id)).to.deep.equal(['F-001', 'F-002'])
+    })
+  })
+
+  describe('getAncestors', () => {
+    it('should return the parent chain, nearest first', () => {
+      expect(taskHierarchyService.getAncestors('F-013', epic()).map((t) => t.id)).to.deep.equal(['F-012', 'F-010'])
+      expect(taskHierarchyService.getAncestors('F-010', epic())).to.deep.equal([])
+    })
+  })
+
+  describe('getDescendants', () => {
+    it('should return children and grandchildren', () => {
+      expect(taskHierarchyService.getDescendants('F-010', epic()).map((t) => t.id)).to.deep.equal([
+        'F-011',
+        'F-012',
+        'F-013',
+      ])
+    })
+  })
+
+  describe('getRollup', () => {
+    it('should compute progress and effort from all subtasks', () => {
+      const rollup = taskHierarchyService.getRollup('F-010', epic())
+
+      expect(rollup).to.deep.equal({
+        completed: 1,
+        effort: {remaining: 5, total: 8, unestimated: 1},
+        progress: 33.3,
+        total: 3,
+      })
+    })
+
+    it('should return an empty rollup for a task without subtasks', () => {
+      expect(taskHierarchyService.getRollup('F-020', epic())).to.deep.equal({
+        completed: 0,
+        effort: {remaining: 0, total: 0, unestimated: 0},
+        progress: 0,
+        total: 0,
+      })
+    })
+  })
+
+  describe('validateHierarchy', () => {
+    it('should accept a valid hierarchy', () => {
+      expect(taskHierarchyService.validateHierarchy(epic())).to.deep.equal([])
+    })
+
+    it('should report children of missing parents', () => {
+      const errors = taskHierarchyService.validateHierarchy([createFeatureTask({id: 'F-001', parent: 'F-099'})])
+
+      expect(errors).to.deep.equal([
+        {
+          message: 'Task F-001 has non-existent parent F-099',
+          relatedTaskIds: ['F-099'],
+          taskId: 'F-001',
+          type: 'missing-task',
+        },
+      ])
+    })
+
+    it('should report each parent cycle once', () => {
+      const tasks = [
+        createFeatureTask({id: 'F-001', parent: 'F-003'}),
+        createFeatureTask({id: 'F-002', parent: 'F-001'}),
+        createFeatureTask({id: 'F-003', parent: 'F-002'}),
+        createFeatureTask({id: 'F-004', parent: 'F-003'}),
+        createFeatureTask({id: 'F-005', parent: 'F-005'}),
+      ]
+
+      const errors = taskHierarchyService.validateHierarchy(tasks)
+
+      expect(errors.map((e) => e.message)).to.deep.equal([
+        'Circular parent chain detected: F-001 -> F-003 -> F-002 -> F-001',
+        'Circular parent chain detected: F-005 -> F-005',
+      ])
+      expect(errors[0]).to.include({taskId: 'F-001', type: 'circular'})
+    })
+  })
+})
@@ -0,0 +1,120 @@
+import {expect} from 'chai'
+
+import {TaskPlanningService} from '../../../src/services/task-planning.service.js'
+import {PRIORITY, STATUS} from '../../../src/util/types.js'
+import {createFeatureTask} from '../../fixtures/task-factory.js'
+
+describe('TaskPlanningService', () => {
+  let taskPlanningService: TaskPlanningService
+
+  beforeEach(() => {
+    taskPlanningService = new TaskPlanningService()
+  })
+
+  describe('getReadyTasks', () => {
+    it('should include not-started tasks without dependencies', () => {
+      const tasks = [createFeatureTask({id: 'F-001'}), createFeatureTask({id: 'F-002', status: STATUS.InProgress})]
+
+      const ready = taskPlanningService.getReadyTasks(tasks)
+
+      expect(ready.map((t) => t.id)).to.deep.equal(['F-001'])
+    })
+
+    it('should include tasks whose dependencies are all completed', () => {
+      const tasks = [
+        createFeatureTask({id: 'F-001', status: STATUS.Completed}),
+        createFeatureTask({'depends-on': ['F-001'], id: 'F-002'}),
+      ]
+
+      const ready = taskPlanningService.getReadyTasks(tasks)
+
+      expect(ready.map((t) => t.id)).to.deep.equal(['F-002'])
+    })
+
+    it('should exclude tasks with incomplete or missing dependencies', () => {
+      const tasks = [
+        createFeatureTask({id: 'F-001', status: STATUS.InProgress}),
+        createFeatureTask({'depends-on': ['F-001'], id: 'F-002'}),
+        createFeatureTask({'depends-on': ['F-099'], id: 'F-003'}),
+      ]
+
+      const ready = taskPlanningService.getReadyTasks(tasks)
+
+      expect(ready).to.deep.equal([])
+    })
+  })
+
+  describe('countDownstream', () => {
+    it('should count transitive incomplete dependents', () => {
+      const tasks = [
+        createFeatureTask({id: 'F-001'}),
+        createFeatureTask({'depends-on': ['F-001'], id: 'F-002'}),
+        createFeatureTask({'depends-on': ['F-002'], id: 'F-003'}),
+        createFeatureTask({'depends-on': ['F-001', 'F-002'], id: 'F-004', status: STATUS.Completed}),
+      ]
+
+      expect(taskPlanningService.countDownstream('F-001', tasks)).to.equal(2)
+      expect(taskPlanningService.countDownstream('F-003', tasks)).to.equal(0)
+    })
+  })
+
+  describe('getNextTasks', () => {
+    it('should rank by priority first', () => {
+      const tasks = [
+        createFeatureTask({id: 'F-001', priority: PRIORITY.Low}),
+        createFeatureTask({id: 'F-002', priority: PRIORITY.High}),
+        createFeatureTask({id: 'F-003', priority: PRIORITY.Medium}),
+      ]
+
+      const next = taskPlanningService.getNextTasks(tasks)
+
+      expect(next.map((n) => n.task.id)).to.deep.equal(['F-002', 'F-003', 'F-001'])
+    })
+
+    it('should rank by due date within the same priority, undated last', () => {
+      const tasks = [
+        createFeatureTask({dueDate: null, id: 'F-001'}),
+        createFeatureTask({dueDate: '2026-12-01T00:00:00.000Z', id: 'F-002'}),
+        createFeatureTask({dueDate: '2026-11-01T00:00:00.000Z', id: 'F-003'}),
+      ]
+
+      const next = taskPlanningService.getNextTasks(tasks)
+
+      expect(next.map((n) => n.task.id)).to.deep.equal(['F-003', 'F-002', 'F-001'])
+    })
+
+    it('should rank by number of unblocked tasks when priority and due date tie', () => {
+      const tasks = [
+        createFeatureTask({id: 'F-001'}),
+        createFeatureTask({id: 'F-002'}),
+        createFeatureTask({'depends-on': ['F-002'], id: 'F-003'}),
+      ]
+
+      const next = taskPlanningService.getNextTasks(tasks)
+
+      expect(next.map((n) => n.task.id)).to.deep.equal(['F-002', 'F-001'])
+      expect(next[0].unblocks).to.equal(1)
+    })
+
+    it('should filter by assignee and apply the limit', () => {
+      const tasks = [
+        createFeatureTask({assignedTo: 'alice', id: 'F-001'}),
+        createFeatureTask({assignedTo: 'bob', id: 'F-002'}),
+        createFeatureTask({assignedTo: 'alice', id: 'F-003'}),
+      ]
+
+      const next = taskPlanningService.getNextTasks(tasks, {assignee: 'alice', limit: 1})
+
+      expect(next.map((n) => n.task.id)).to.deep.equal(['F-001'])
+    })
+
+    it('should throw on circular dependencies', () => {
+      const tasks = [
+        createFeatureTask({'depends-on': ['F-002'], id: 'F-001'}),
+        createFeatureTask({'depends-on': ['F-001'], id: 'F-002'}),
+      ]
+
+      expect(() => taskPlanningService.getNextTasks(tasks)).to.throw(/Circular dependency/)
+    })
+  })
+})
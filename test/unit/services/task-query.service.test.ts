@@ -259,6 +259,26 @@ describe('TaskQueryService', () => {
         expect(result[0].tags).to.include('frontend')
       })
 
+      it('should filter by any of several types', () => {
+        const tasks = [createFeatureTask(), createBugTask(), createTask({type: TASK_TYPE.Research})]
+
+        const result = taskQueryService.filter(tasks, {type: [TASK_TYPE.Bug, TASK_TYPE.Research]})
+
+        expect(result.map((t) => t.type)).to.deep.equal([TASK_TYPE.Bug, TASK_TYPE.Research])
+      })
+
+      it('should filter by any of several priorities', () => {
+        const tasks = [
+          createTask({priority: PRIORITY.High}),
+          createTask({priority: PRIORITY.Medium}),
+          createTask({priority: PRIORITY.Low}),
+        ]
+
+        const result = taskQueryService.filter(tasks, {priority: [PRIORITY.High, PRIORITY.Low]})
+
+        expect(result.map((t) => t.priority)).to.deep.equal([PRIORITY.High, PRIORITY.Low])
+      })
+
       it('should filter by hasBlocks AND type', () => {
         const tasks = [
           createFeatureTask({blocks: ['F-002' as never]}),
@@ -892,6 +912,64 @@ describe('TaskQueryService', () => {
     })
   })
 
+  describe('sortBy', () => {
+    it('should break ties on the primary key with the secondary key', () => {
+      const tasks = [
+        createTask({dueDate: '2026-12-01', id: 'F-001', priority: PRIORITY.High}),
+        createTask({dueDate: '2026-11-01', id: 'F-002', priority: PRIORITY.Low}),
+        createTask({dueDate: '2026-11-01', id: 'F-003', priority: PRIORITY.High}),
+      ]
+
+      const result = taskQueryService.sortBy(tasks, [
+        {field: 'priority', order: SortOrder.Descending},
+        {field: 'dueDate', order: SortOrder.Ascending},
+      ])
+
+      expect(result.map((t) => t.id)).to.deep.equal(['F-003', 'F-001', 'F-002'])
+    })
+
+    it('should default each key to ascending order', () => {
+      const tasks = [createTask({id: 'F-001', title: 'b'}), createTask({id: 'F-002', title: 'a'})]
+
+      const result = taskQueryService.sortBy(tasks, [{field: 'title'}])
+
+      expect(result.map((t) => t.id)).to.deep.equal(['F-002', 'F-001'])
+    })
+
+    it('should fall through to the next key when both values are missing', () => {
+      const tasks = [
+        createTask({effort: null, id: 'F-001', title: 'b'}),
+        createTask({effort: 2, id: 'F-002', title: 'c'}),
+        createTask({effort: null, id: 'F-003', title: 'a'}),
+      ]
+
+      const result = taskQueryService.sortBy(tasks, [{field: 'effort'}, {field: 'title'}])
+
+      expect(result.map((t) => t.id)).to.deep.equal(['F-002', 'F-003', 'F-001'])
+    })
+
+    it('should keep the original order of tasks that tie on every key', () => {
+      const tasks = [
+        createTask({id: 'F-001', priority: PRIORITY.Medium}),
+        createTask({id: 'F-002', priority: PRIORITY.Medium}),
+        createTask({id: 'F-003', priority: PRIORITY.Medium}),
+      ]
+
+      const result = taskQueryService.sortBy(tasks, [{field: 'priority', order: SortOrder.Descending}])
+
+      expect(result.map((t) => t.id)).to.deep.equal(['F-001', 'F-002', 'F-003'])
+    })
+
+    it('should return a copy in original order when no keys are given', () => {
+      const tasks = [createTask({id: 'F-002'}), createTask({id: 'F-001'})]
+
+      const result = taskQueryService.sortBy(tasks, [])
+
+      expect(result).to.not.equal(tasks)
+      expect(result).to.deep.equal(tasks)
+    })
+  })
+
   describe('integration scenarios', () => {
     it('should filter and then sort results', () => {
       const tasks = [
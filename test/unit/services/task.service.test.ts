@@ -1,9 +1,20 @@
 import {expect} from 'chai'
 
+import {
+  CircularDependencyError,
+  InvalidStatusTransitionError,
+  InvalidTaskError,
+  MilestoneNotFoundError,
+  SprintNotFoundError,
+  TaskHasDependentsError,
+  TaskNotFoundError,
+} from '../../../src/errors/index.js'
 import {TaskService} from '../../../src/services/task.service.js'
+import {getTaskTypes} from '../../../src/util/task-types.js'
 import {PRIORITY, STATUS, TASK_TYPE, TaskID} from '../../../src/util/types.js'
+import {getWorkflow} from '../../../src/util/workflow.js'
 import {createEmptyRoadmap, createRoadmap} from '../../fixtures/roadmap-factory.js'
-import {createBugTask, createFeatureTask, createPlanningTask} from '../../fixtures/task-factory.js'
+import {createBugTask, createFeatureTask, createPlanningTask, createTask} from '../../fixtures/task-factory.js'
 
 describe('TaskService', () => {
   let taskService: TaskService
@@ -394,6 +405,54 @@ describe('TaskService', () => {
         expect(nextId).to.equal('F-001')
       })
     })
+
+    describe('IDs beyond 999 and configurable width', () => {
+      it('should continue with F-1000 after F-999', () => {
+        const featureTasks = Array.from({length: 999}, (_, i) => {
+          const idNum = String(i + 1).padStart(3, '0')
+          return createFeatureTask({id: `F-${idNum}` as TaskID})
+        })
+        const roadmap = createRoadmap({tasks: featureTasks})
+
+        const nextId = taskService.generateNextId(roadmap, TASK_TYPE.Feature)
+
+        expect(nextId).to.equal('F-1000')
+      })
+
+      it('should pad to the given width', () => {
+        const roadmap = createRoadmap({tasks: [createBugTask({id: 'B-0001'})]})
+
+        expect(taskService.generateNextId(roadmap, TASK_TYPE.Bug, {width: 4})).to.equal('B-0002')
+        expect(taskService.generateNextId(createEmptyRoadmap(), TASK_TYPE.Bug, {width: 5})).to.equal('B-00001')
+      })
+
+      it('should compare existing IDs by number regardless of their width', () => {
+        const roadmap = createRoadmap({
+          tasks: [createFeatureTask({id: 'F-001'}), createFeatureTask({id: 'F-0002'})],
+        })
+
+        expect(taskService.generateNextId(roadmap, TASK_TYPE.Feature, {width: 4})).to.equal('F-0003')
+      })
+    })
+
+    describe('custom task types', () => {
+      const taskTypes = getTaskTypes({taskTypes: {chore: 'C', spike: 'SP'}})
+
+      it('should use the prefix of a custom type', () => {
+        const roadmap = createRoadmap({
+          tasks: [createTask({id: 'C-001', type: 'chore'}), createTask({id: 'C-002', type: 'chore'})],
+        })
+
+        expect(taskService.generateNextId(roadmap, 'chore', {taskTypes})).to.equal('C-003')
+        expect(taskService.generateNextId(roadmap, 'spike', {taskTypes, width: 4})).to.equal('SP-0001')
+      })
+
+      it('should throw for a type that is not configured', () => {
+        expect(() => taskService.generateNextId(createEmptyRoadmap(), 'chore')).to.throw(
+          'Invalid task type: chore. Valid types: bug, feature, improvement, planning, research',
+        )
+      })
+    })
   })
 
   describe('createTask', () => {
@@ -422,7 +481,7 @@ describe('TaskService', () => {
       expect(task.priority).to.equal(PRIORITY.Medium)
       expect(task.status).to.equal(STATUS.NotStarted)
       expect(task['passes-tests']).to.equal(false)
-      expect(task.notes).to.equal('')
+      expect(task).to.not.have.property('notes')
       expect(task.blocks).to.deep.equal([])
       expect(task['depends-on']).to.deep.equal([])
       expect(task.tags).to.deep.equal([])
@@ -574,6 +633,53 @@ describe('TaskService', () => {
   })
 
   describe('addTask', () => {
+    it('should add a subtask of an existing task', () => {
+      const roadmap = createRoadmap({tasks: [createFeatureTask({id: 'F-010'})]})
+      const task = taskService.createTask({
+        details: 'Part',
+        id: 'F-011',
+        parent: 'F-010',
+        title: 'Part',
+        type: 'feature',
+      })
+
+      expect(taskService.addTask(roadmap, task).tasks[1].parent).to.equal('F-010')
+    })
+
+    it('should throw TaskNotFoundError when the parent does not exist', () => {
+      const task = taskService.createTask({
+        details: 'Part',
+        id: 'F-011',
+        parent: 'F-010',
+        title: 'Part',
+        type: 'feature',
+      })
+
+      expect(() => taskService.addTask(createEmptyRoadmap(), task)).to.throw(TaskNotFoundError)
+    })
+
+    it('should throw MilestoneNotFoundError when the milestone does not exist', () => {
+      const task = taskService.createTask({
+        details: 'Part',
+        id: 'F-001',
+        milestone: 'v1.0',
+        title: 'Part',
+        type: 'feature',
+      })
+
+      expect(() => taskService.addTask(createEmptyRoadmap(), task)).to.throw(MilestoneNotFoundError)
+      const roadmap = createRoadmap({milestones: [{createdAt: task.createdAt, id: 'v1.0', name: 'v1.0'}]})
+      expect(taskService.addTask(roadmap, task).tasks[0].milestone).to.equal('v1.0')
+    })
+
+    it('should accept a custom task type when it is configured', () => {
+      const taskTypes = getTaskTypes({taskTypes: {docs: 'D'}})
+      const task = taskService.createTask({details: 'Write the guide', id: 'D-001', title: 'Guide', type: 'docs'})
+
+      expect(() => taskService.addTask(createEmptyRoadmap(), task)).to.throw()
+      expect(taskService.addTask(createEmptyRoadmap(), task, {taskTypes}).tasks).to.deep.equal([task])
+    })
+
     it('should add a task to an empty roadmap', () => {
       const roadmap = createEmptyRoadmap()
       const task = taskService.createTask({
@@ -1149,5 +1255,671 @@ describe('TaskService', () => {
         expect(updatedRoadmap.tasks[2].id).to.equal('F-003')
       })
     })
+
+    describe('activity', () => {
+      before(() => {
+        process.env.PRT_USER = 'alice'
+      })
+
+      after(() => {
+        delete process.env.PRT_USER
+      })
+
+      it('should record status, priority and dependency changes in order', () => {
+        const roadmap = createRoadmap({
+          tasks: [createFeatureTask({id: 'F-001', priority: PRIORITY.Low, status: STATUS.NotStarted})],
+        })
+
+        const updatedRoadmap = taskService.updateTask(roadmap, 'F-001', {
+          'depends-on': ['F-002'],
+          priority: PRIORITY.High,
+          status: STATUS.InProgress,
+        })
+
+        const [task] = updatedRoadmap.tasks
+        expect(task.activity).to.deep.equal([
+          {
+            at: task.updatedAt,
+            author: 'alice',
+            field: 'status',
+            from: 'not-started',
+            to: 'in-progress',
+            type: 'change',
+          },
+          {at: task.updatedAt, author: 'alice', field: 'priority', from: 'low', to: 'high', type: 'change'},
+          {at: task.updatedAt, author: 'alice', field: 'depends-on', from: [], to: ['F-002'], type: 'change'},
+        ])
+      })
+
+      it('should append to the existing activity', () => {
+        const comment = {at: '2026-01-01T00:00:00.000Z', author: 'bob', body: 'Started', type: 'comment'} as const
+        const roadmap = createRoadmap({tasks: [createFeatureTask({activity: [comment], id: 'F-001'})]})
+
+        const updatedRoadmap = taskService.updateTask(roadmap, 'F-001', {status: STATUS.Completed})
+
+        expect(updatedRoadmap.tasks[0].activity).to.have.lengthOf(2)
+        expect(updatedRoadmap.tasks[0].activity![0]).to.equal(comment)
+      })
+
+      it('should not record untracked fields or values that did not change', () => {
+        const roadmap = createRoadmap({
+          tasks: [createFeatureTask({'depends-on': ['F-002'], id: 'F-001', status: STATUS.InProgress})],
+        })
+
+        const updatedRoadmap = taskService.updateTask(roadmap, 'F-001', {
+          'depends-on': ['F-002'],
+          status: STATUS.InProgress,
+          title: 'Renamed',
+        })
+
+        expect(updatedRoadmap.tasks[0]).to.not.have.property('activity')
+      })
+    })
+  })
+
+  describe('removeTask', () => {
+    describe('basic removal', () => {
+      it('should remove a task with no references', () => {
+        const roadmap = createRoadmap({
+          tasks: [createFeatureTask({id: 'F-001'}), createFeatureTask({id: 'F-002'})],
+        })
+
+        const {affectedTaskIds, removedTask, roadmap: updatedRoadmap} = taskService.removeTask(roadmap, 'F-001')
+
+        expect(updatedRoadmap.tasks.map((t) => t.id)).to.deep.equal(['F-002'])
+        expect(removedTask.id).to.equal('F-001')
+        expect(affectedTaskIds).to.deep.equal([])
+      })
+
+      it('should not mutate the original roadmap', () => {
+        const roadmap = createRoadmap({
+          tasks: [createFeatureTask({blocks: ['F-002'], id: 'F-001'}), createFeatureTask({id: 'F-002'})],
+        })
+
+        taskService.removeTask(roadmap, 'F-002')
+
+        expect(roadmap.tasks).to.have.lengthOf(2)
+        expect(roadmap.tasks[0].blocks).to.deep.equal(['F-002'])
+      })
+
+      it('should always strip the removed ID from blocks arrays', () => {
+        const roadmap = createRoadmap({
+          tasks: [createFeatureTask({blocks: ['F-002'], id: 'F-001'}), createFeatureTask({id: 'F-002'})],
+        })
+
+        const {affectedTaskIds, roadmap: updatedRoadmap} = taskService.removeTask(roadmap, 'F-002')
+
+        expect(updatedRoadmap.tasks[0].blocks).to.deep.equal([])
+        expect(affectedTaskIds).to.deep.equal(['F-001'])
+      })
+
+      it('should throw TaskNotFoundError for unknown task', () => {
+        const roadmap = createEmptyRoadmap()
+
+        expect(() => taskService.removeTask(roadmap, 'F-001')).to.throw('Task not found: F-001')
+      })
+    })
+
+    describe('dependents', () => {
+      it('should refuse to remove a task others depend on', () => {
+        const roadmap = createRoadmap({
+          tasks: [createFeatureTask({id: 'F-001'}), createFeatureTask({'depends-on': ['F-001'], id: 'F-002'})],
+        })
+
+        expect(() => taskService.removeTask(roadmap, 'F-001')).to.throw(TaskHasDependentsError)
+      })
+
+      it('should strip dependencies with cascade', () => {
+        const roadmap = createRoadmap({
+          tasks: [
+            createFeatureTask({blocks: ['F-002'], id: 'F-001'}),
+            createFeatureTask({'depends-on': ['F-001', 'F-003'], id: 'F-002'}),
+            createFeatureTask({id: 'F-003'}),
+          ],
+        })
+
+        const {affectedTaskIds, roadmap: updatedRoadmap} = taskService.removeTask(roadmap, 'F-001', {cascade: true})
+
+        expect(updatedRoadmap.tasks[0]['depends-on']).to.deep.equal(['F-003'])
+        expect(affectedTaskIds).to.deep.equal(['F-002'])
+      })
+
+      it('should repoint dependents and mirror blocks with reassignTo', () => {
+        const roadmap = createRoadmap({
+          tasks: [
+            createFeatureTask({blocks: ['F-002'], id: 'F-001'}),
+            createFeatureTask({'depends-on': ['F-001'], id: 'F-002'}),
+            createFeatureTask({id: 'F-003'}),
+          ],
+        })
+
+        const {affectedTaskIds, roadmap: updatedRoadmap} = taskService.removeTask(roadmap, 'F-001', {
+          reassignTo: 'F-003',
+        })
+
+        expect(taskService.findTask(updatedRoadmap, 'F-002')!['depends-on']).to.deep.equal(['F-003'])
+        expect(taskService.findTask(updatedRoadmap, 'F-003')!.blocks).to.deep.equal(['F-002'])
+        expect(affectedTaskIds).to.deep.equal(['F-002', 'F-003'])
+      })
+
+      it('should not duplicate an existing dependency on the reassignment target', () => {
+        const roadmap = createRoadmap({
+          tasks: [
+            createFeatureTask({id: 'F-001'}),
+            createFeatureTask({'depends-on': ['F-001', 'F-003'], id: 'F-002'}),
+            createFeatureTask({blocks: ['F-002'], id: 'F-003'}),
+          ],
+        })
+
+        const {roadmap: updatedRoadmap} = taskService.removeTask(roadmap, 'F-001', {reassignTo: 'F-003'})
+
+        expect(taskService.findTask(updatedRoadmap, 'F-002')!['depends-on']).to.deep.equal(['F-003'])
+        expect(taskService.findTask(updatedRoadmap, 'F-003')!.blocks).to.deep.equal(['F-002'])
+      })
+
+      it('should not make the reassignment target depend on itself', () => {
+        const roadmap = createRoadmap({
+          tasks: [createFeatureTask({id: 'F-001'}), createFeatureTask({'depends-on': ['F-001'], id: 'F-002'})],
+        })
+
+        const {roadmap: updatedRoadmap} = taskService.removeTask(roadmap, 'F-001', {reassignTo: 'F-002'})
+
+        expect(updatedRoadmap.tasks[0]['depends-on']).to.deep.equal([])
+      })
+
+      it('should throw when reassigning to the removed task', () => {
+        const roadmap = createRoadmap({tasks: [createFeatureTask({id: 'F-001'})]})
+
+        expect(() => taskService.removeTask(roadmap, 'F-001', {reassignTo: 'F-001'})).to.throw(InvalidTaskError)
+      })
+
+      it('should throw when reassignment target does not exist', () => {
+        const roadmap = createRoadmap({tasks: [createFeatureTask({id: 'F-001'})]})
+
+        expect(() => taskService.removeTask(roadmap, 'F-001', {reassignTo: 'F-009'})).to.throw(TaskNotFoundError)
+      })
+
+      it('should throw when reassignment would create a cycle', () => {
+        const roadmap = createRoadmap({
+          tasks: [
+            createFeatureTask({id: 'F-001'}),
+            createFeatureTask({'depends-on': ['F-001'], id: 'F-002'}),
+            createFeatureTask({'depends-on': ['F-002'], id: 'F-003'}),
+          ],
+        })
+
+        expect(() => taskService.removeTask(roadmap, 'F-001', {reassignTo: 'F-003'})).to.throw(CircularDependencyError)
+      })
+    })
+
+    describe('subtasks', () => {
+      it('should move the children of a removed task to its parent', () => {
+        const roadmap = createRoadmap({
+          tasks: [
+            createFeatureTask({id: 'F-001'}),
+            createFeatureTask({id: 'F-002', parent: 'F-001'}),
+            createFeatureTask({id: 'F-003', parent: 'F-002'}),
+          ],
+        })
+
+        const {affectedTaskIds, roadmap: updatedRoadmap} = taskService.removeTask(roadmap, 'F-002')
+
+        expect(updatedRoadmap.tasks.find((t) => t.id === 'F-003')!.parent).to.equal('F-001')
+        expect(affectedTaskIds).to.deep.equal(['F-003'])
+      })
+
+      it('should make the children of a removed top-level task top-level', () => {
+        const roadmap = createRoadmap({
+          tasks: [createFeatureTask({id: 'F-001'}), createFeatureTask({id: 'F-002', parent: 'F-001'})],
+        })
+
+        const {roadmap: updatedRoadmap} = taskService.removeTask(roadmap, 'F-001')
+
+        expect(updatedRoadmap.tasks[0]).to.not.have.property('parent')
+      })
+    })
+  })
+
+  describe('editTask', () => {
+    it('should replace scalar fields', () => {
+      const roadmap = createRoadmap({tasks: [createFeatureTask({id: 'F-001', priority: PRIORITY.Low})]})
+
+      const updatedRoadmap = taskService.editTask(roadmap, 'F-001', {
+        set: {assignedTo: 'alice', priority: PRIORITY.High},
+      })
+
+      expect(updatedRoadmap.tasks[0].priority).to.equal(PRIORITY.High)
+      expect(updatedRoadmap.tasks[0].assignedTo).to.equal('alice')
+    })
+
+    it('should plan a task for an existing milestone only', () => {
+      const roadmap = createRoadmap({
+        milestones: [{createdAt: '2026-09-01T00:00:00.000Z', id: 'v1.0', name: 'v1.0'}],
+        tasks: [createFeatureTask({id: 'F-001'})],
+      })
+
+      expect(taskService.editTask(roadmap, 'F-001', {set: {milestone: 'v1.0'}}).tasks[0].milestone).to.equal('v1.0')
+      expect(() => taskService.editTask(roadmap, 'F-001', {set: {milestone: 'v2.0'}})).to.throw(MilestoneNotFoundError)
+    })
+
+    it('should commit a task to an existing sprint only', () => {
+      const roadmap = createRoadmap({
+        sprints: [
+          {
+            capacity: {alice: 5},
+            createdAt: '2026-09-01T00:00:00.000Z',
+            endDate: '2026-11-13T00:00:00.000Z',
+            id: 's1',
+            name: 's1',
+            startDate: '2026-11-02T00:00:00.000Z',
+          },
+        ],
+        tasks: [createFeatureTask({id: 'F-001'})],
+      })
+
+      expect(taskService.editTask(roadmap, 'F-001', {set: {sprint: 's1'}}).tasks[0].sprint).to.equal('s1')
+      expect(() => taskService.editTask(roadmap, 'F-001', {set: {sprint: 's2'}})).to.throw(SprintNotFoundError)
+    })
+
+    it('should add and remove list values without duplicates', () => {
+      const roadmap = createRoadmap({tasks: [createFeatureTask({id: 'F-001', tags: ['a', 'b']})]})
+
+      const updatedRoadmap = taskService.editTask(roadmap, 'F-001', {
+        add: {tags: ['b', 'c', 'c']},
+        remove: {tags: ['a']},
+      })
+
+      expect(updatedRoadmap.tasks[0].tags).to.deep.equal(['b', 'c'])
+    })
+
+    it('should apply add/remove on top of a replaced list', () => {
+      const roadmap = createRoadmap({tasks: [createFeatureTask({id: 'F-001', tags: ['a']})]})
+
+      const updatedRoadmap = taskService.editTask(roadmap, 'F-001', {
+        add: {tags: ['z']},
+        set: {tags: ['x', 'y']},
+      })
+
+      expect(updatedRoadmap.tasks[0].tags).to.deep.equal(['x', 'y', 'z'])
+    })
+
+    it('should initialize missing optional list fields', () => {
+      const roadmap = createRoadmap({tasks: [createFeatureTask({id: 'F-001'})]})
+
+      const updatedRoadmap = taskService.editTask(roadmap, 'F-001', {add: {'github-refs': ['#12']}})
+
+      expect(updatedRoadmap.tasks[0]['github-refs']).to.deep.equal(['#12'])
+    })
+
+    it('should mirror dependencies added and removed on either side', () => {
+      const roadmap = createRoadmap({
+        tasks: [
+          createFeatureTask({id: 'F-001'}),
+          createFeatureTask({blocks: ['F-001'], id: 'F-002'}),
+          createFeatureTask({id: 'F-003'}),
+        ],
+      })
+      const withDependency = taskService.editTask(roadmap, 'F-001', {add: {'depends-on': ['F-002']}})
+
+      const updatedRoadmap = taskService.editTask(withDependency, 'F-001', {
+        add: {blocks: ['F-003']},
+        remove: {'depends-on': ['F-002']},
+      })
+
+      const [first, second, third] = updatedRoadmap.tasks
+      expect(first.blocks).to.deep.equal(['F-003'])
+      expect(first['depends-on']).to.deep.equal([])
+      expect(second.blocks).to.deep.equal([])
+      expect(third['depends-on']).to.deep.equal(['F-001'])
+    })
+
+    it('should reject dependencies that would create a cycle', () => {
+      const roadmap = createRoadmap({
+        tasks: [
+          createFeatureTask({blocks: ['F-002'], id: 'F-001'}),
+          createFeatureTask({'depends-on': ['F-001'], id: 'F-002'}),
+        ],
+      })
+
+      expect(() => taskService.editTask(roadmap, 'F-001', {add: {'depends-on': ['F-002']}})).to.throw(
+        CircularDependencyError,
+      )
+      expect(() => taskService.editTask(roadmap, 'F-002', {add: {blocks: ['F-001']}})).to.throw(CircularDependencyError)
+    })
+
+    it('should move a task to an existing parent outside its own subtree only', () => {
+      const roadmap = createRoadmap({
+        tasks: [
+          createFeatureTask({id: 'F-001'}),
+          createFeatureTask({id: 'F-002', parent: 'F-001'}),
+          createFeatureTask({id: 'F-003', parent: 'F-002'}),
+          createFeatureTask({id: 'F-004'}),
+        ],
+      })
+
+      expect(taskService.editTask(roadmap, 'F-002', {set: {parent: 'F-004'}}).tasks[1].parent).to.equal('F-004')
+      expect(taskService.editTask(roadmap, 'F-002', {set: {parent: null}}).tasks[1].parent).to.be.null
+      expect(() => taskService.editTask(roadmap, 'F-002', {set: {parent: 'F-099'}})).to.throw(TaskNotFoundError)
+      expect(() => taskService.editTask(roadmap, 'F-002', {set: {parent: 'F-002'}})).to.throw(
+        InvalidTaskError,
+        /subtask of itself/,
+      )
+      expect(() => taskService.editTask(roadmap, 'F-001', {set: {parent: 'F-003'}})).to.throw(
+        InvalidTaskError,
+        /one of its own subtasks/,
+      )
+    })
+
+    it('should validate the edited task', () => {
+      const roadmap = createRoadmap({tasks: [createFeatureTask({id: 'F-001'})]})
+
+      expect(() => taskService.editTask(roadmap, 'F-001', {set: {details: ''}})).to.throw(InvalidTaskError)
+    })
+
+    it('should reject status changes the workflow does not allow', () => {
+      const roadmap = createRoadmap({tasks: [createFeatureTask({id: 'F-001', status: STATUS.NotStarted})]})
+      const workflow = getWorkflow({
+        workflow: {transitions: [{from: STATUS.NotStarted, to: STATUS.InProgress}]},
+      })
+
+      expect(() => taskService.editTask(roadmap, 'F-001', {set: {status: STATUS.Completed}}, {workflow})).to.throw(
+        InvalidStatusTransitionError,
+      )
+      expect(
+        taskService.editTask(roadmap, 'F-001', {set: {status: STATUS.InProgress}}, {workflow}).tasks[0].status,
+      ).to.equal(STATUS.InProgress)
+    })
+
+    it('should throw TaskNotFoundError for unknown task', () => {
+      const roadmap = createEmptyRoadmap()
+
+      expect(() => taskService.editTask(roadmap, 'F-001', {set: {title: 'x'}})).to.throw(TaskNotFoundError)
+    })
+  })
+
+  describe('addDependency', () => {
+    it('should add depends-on and mirror blocks', () => {
+      const roadmap = createRoadmap({tasks: [createFeatureTask({id: 'F-001'}), createFeatureTask({id: 'F-002'})]})
+
+      const updatedRoadmap = taskService.addDependency(roadmap, 'F-002', 'F-001')
+
+      expect(updatedRoadmap.tasks[0].blocks).to.deep.equal(['F-002'])
+      expect(updatedRoadmap.tasks[1]['depends-on']).to.deep.equal(['F-001'])
+      expect(roadmap.tasks[1]['depends-on']).to.deep.equal([])
+    })
+
+    it('should record the change in the activity of both tasks', () => {
+      const roadmap = createRoadmap({tasks: [createFeatureTask({id: 'F-001'}), createFeatureTask({id: 'F-002'})]})
+
+      const updatedRoadmap = taskService.addDependency(roadmap, 'F-002', 'F-001')
+
+      expect(updatedRoadmap.tasks[0].activity![0]).to.deep.include({field: 'blocks', from: [], to: ['F-002']})
+      expect(updatedRoadmap.tasks[1].activity![0]).to.deep.include({field: 'depends-on', from: [], to: ['F-001']})
+    })
+
+    it('should repair a one-sided relationship', () => {
+      const roadmap = createRoadmap({
+        tasks: [createFeatureTask({id: 'F-001'}), createFeatureTask({'depends-on': ['F-001'], id: 'F-002'})],
+      })
+
+      const updatedRoadmap = taskService.addDependency(roadmap, 'F-002', 'F-001')
+
+      expect(updatedRoadmap.tasks[0].blocks).to.deep.equal(['F-002'])
+      expect(updatedRoadmap.tasks[1]['depends-on']).to.deep.equal(['F-001'])
+    })
+
+    it('should throw CircularDependencyError when a cycle would be created', () => {
+      const roadmap = createRoadmap({
+        tasks: [
+          createFeatureTask({id: 'F-001'}),
+          createFeatureTask({'depends-on': ['F-001'], id: 'F-002'}),
+          createFeatureTask({'depends-on': ['F-002'], id: 'F-003'}),
+        ],
+      })
+
+      expect(() => taskService.addDependency(roadmap, 'F-001', 'F-003')).to.throw(CircularDependencyError)
+    })
+
+    it('should throw InvalidTaskError for a self-dependency', () => {
+      const roadmap = createRoadmap({tasks: [createFeatureTask({id: 'F-001'})]})
+
+      expect(() => taskService.addDependency(roadmap, 'F-001', 'F-001')).to.throw(InvalidTaskError)
+    })
+
+    it('should throw TaskNotFoundError when either task is missing', () => {
+      const roadmap = createRoadmap({tasks: [createFeatureTask({id: 'F-001'})]})
+
+      expect(() => taskService.addDependency(roadmap, 'F-002', 'F-001')).to.throw(TaskNotFoundError)
+      expect(() => taskService.addDependency(roadmap, 'F-001', 'F-002')).to.throw(TaskNotFoundError)
+    })
+  })
+
+  describe('removeDependency', () => {
+    it('should remove depends-on and the mirrored blocks entry', () => {
+      const roadmap = createRoadmap({
+        tasks: [
+          createFeatureTask({blocks: ['F-002'], id: 'F-001'}),
+          createFeatureTask({'depends-on': ['F-001'], id: 'F-002'}),
+        ],
+      })
+
+      const updatedRoadmap = taskService.removeDependency(roadmap, 'F-002', 'F-001')
+
+      expect(updatedRoadmap.tasks[0].blocks).to.deep.equal([])
+      expect(updatedRoadmap.tasks[1]['depends-on']).to.deep.equal([])
+    })
+
+    it('should leave unrelated tasks untouched', () => {
+      const other = createFeatureTask({id: 'F-003'})
+      const roadmap = createRoadmap({
+        tasks: [
+          createFeatureTask({blocks: ['F-002'], id: 'F-001'}),
+          createFeatureTask({'depends-on': ['F-001'], id: 'F-002'}),
+          other,
+        ],
+      })
+
+      const updatedRoadmap = taskService.removeDependency(roadmap, 'F-002', 'F-001')
+
+      expect(updatedRoadmap.tasks[2]).to.equal(other)
+    })
+
+    it('should record the change in the activity of both tasks', () => {
+      const roadmap = createRoadmap({
+        tasks: [
+          createFeatureTask({blocks: ['F-002'], id: 'F-001'}),
+          createFeatureTask({'depends-on': ['F-001'], id: 'F-002'}),
+        ],
+      })
+
+      const updatedRoadmap = taskService.removeDependency(roadmap, 'F-002', 'F-001')
+
+      expect(updatedRoadmap.tasks[0].activity![0]).to.deep.include({field: 'blocks', from: ['F-002'], to: []})
+      expect(updatedRoadmap.tasks[1].activity![0]).to.deep.include({field: 'depends-on', from: ['F-001'], to: []})
+    })
+
+    it('should throw TaskNotFoundError for unknown task', () => {
+      const roadmap = createEmptyRoadmap()
+
+      expect(() => taskService.removeDependency(roadmap, 'F-002', 'F-001')).to.throw(TaskNotFoundError)
+    })
+  })
+
+  describe('changeTaskId', () => {
+    it('should give the task a new ID and update depends-on, blocks and parent references', () => {
+      const other = createFeatureTask({id: 'F-004'})
+      const roadmap = createRoadmap({
+        tasks: [
+          createFeatureTask({blocks: ['F-002'], id: 'F-001'}),
+          createFeatureTask({'depends-on': ['F-001'], id: 'F-002'}),
+          createFeatureTask({id: 'F-003', parent: 'F-001'}),
+          other,
+        ],
+      })
+
+      const updatedRoadmap = taskService.changeTaskId(roadmap, 'F-001', 'F-010' as TaskID)
+
+      expect(updatedRoadmap.tasks.map((t) => t.id)).to.deep.equal(['F-010', 'F-002', 'F-003', 'F-004'])
+      expect(updatedRoadmap.tasks[1]['depends-on']).to.deep.equal(['F-010'])
+      expect(updatedRoadmap.tasks[2].parent).to.equal('F-010')
+      expect(updatedRoadmap.tasks[3]).to.equal(other)
+      expect(roadmap.tasks[0].id).to.equal('F-001')
+    })
+
+    it('should throw TaskNotFoundError for unknown task', () => {
+      expect(() => taskService.changeTaskId(createEmptyRoadmap(), 'F-001', 'F-002' as TaskID)).to.throw(
+        TaskNotFoundError,
+      )
+    })
+  })
+
+  describe('migrateIds', () => {
+    it('should zero-pad IDs and their references to the new width', () => {
+      const roadmap = createRoadmap({
+        tasks: [
+          createFeatureTask({blocks: ['B-002'], id: 'F-001'}),
+          createBugTask({'depends-on': ['F-001'], id: 'B-002'}),
+          createFeatureTask({id: 'F-1000'}),
+        ],
+      })
+
+      const {changes, roadmap: migrated} = taskService.migrateIds(roadmap, {width: 4})
+
+      expect(changes).to.deep.equal([
+        {from: 'F-001', to: 'F-0001'},
+        {from: 'B-002', to: 'B-0002'},
+      ])
+      expect(migrated.tasks.map((task) => task.id)).to.deep.equal(['F-0001', 'B-0002', 'F-1000'])
+      expect(migrated.tasks[0].blocks).to.deep.equal(['B-0002'])
+      expect(migrated.tasks[1]['depends-on']).to.deep.equal(['F-0001'])
+      expect(roadmap.tasks[0].id).to.equal('F-001')
+    })
+
+    it('should renumber each type from 1 in ID order', () => {
+      const roadmap = createRoadmap({
+        tasks: [
+          createFeatureTask({id: 'F-010'}),
+          createFeatureTask({'depends-on': ['F-010'], id: 'F-003'}),
+          createBugTask({id: 'B-007'}),
+        ],
+      })
+
+      const {roadmap: migrated} = taskService.migrateIds(roadmap, {renumber: true, width: 3})
+
+      expect(migrated.tasks.map((task) => task.id)).to.deep.equal(['F-002', 'F-001', 'B-001'])
+      expect(migrated.tasks[1]['depends-on']).to.deep.equal(['F-002'])
+    })
+
+    it('should shrink IDs to a smaller width without cutting digits', () => {
+      const roadmap = createRoadmap({tasks: [createFeatureTask({id: 'F-0001'}), createFeatureTask({id: 'F-1234'})]})
+
+      const {roadmap: migrated} = taskService.migrateIds(roadmap, {width: 3})
+
+      expect(migrated.tasks.map((task) => task.id)).to.deep.equal(['F-001', 'F-1234'])
+    })
+
+    it('should return the roadmap unchanged when no ID changes', () => {
+      const roadmap = createRoadmap({tasks: [createFeatureTask({id: 'F-001'})]})
+
+      const result = taskService.migrateIds(roadmap, {width: 3})
+
+      expect(result.changes).to.deep.equal([])
+      expect(result.roadmap).to.equal(roadmap)
+    })
+
+    it('should leave references to missing tasks and timestamps alone', () => {
+      const roadmap = createRoadmap({
+        tasks: [createFeatureTask({'depends-on': ['F-009'], id: 'F-001', updatedAt: '2026-01-01T00:00:00.000Z'})],
+      })
+
+      const {roadmap: migrated} = taskService.migrateIds(roadmap, {width: 4})
+
+      expect(migrated.tasks[0]['depends-on']).to.deep.equal(['F-009'])
+      expect(migrated.tasks[0].updatedAt).to.equal('2026-01-01T00:00:00.000Z')
+    })
+
+    it('should reject IDs that would collide', () => {
+      const roadmap = createRoadmap({tasks: [createFeatureTask({id: 'F-001'}), createFeatureTask({id: 'F-0001'})]})
+
+      expect(() => taskService.migrateIds(roadmap, {width: 3})).to.throw(
+        'Cannot migrate task IDs: F-001 and F-0001 would both become F-001',
+      )
+    })
+
+    it('should reject duplicate IDs', () => {
+      const roadmap = createRoadmap({tasks: [createFeatureTask({id: 'F-001'}), createFeatureTask({id: 'F-001'})]})
+
+      expect(() => taskService.migrateIds(roadmap, {renumber: true, width: 3})).to.throw(
+        'F-001 is used by more than one task',
+      )
+    })
+  })
+
+  describe('addComment', () => {
+    before(() => {
+      process.env.PRT_USER = 'alice'
+    })
+
+    after(() => {
+      delete process.env.PRT_USER
+    })
+
+    it('should append a trimmed comment by the current user', () => {
+      const roadmap = createRoadmap({tasks: [createFeatureTask({id: 'F-001'})]})
+
+      const updatedRoadmap = taskService.addComment(roadmap, 'F-001', '  Waiting for review\n')
+
+      const [entry] = updatedRoadmap.tasks[0].activity!
+      expect(entry).to.deep.include({author: 'alice', body: 'Waiting for review', type: 'comment'})
+      expect(Date.parse(entry.at)).to.be.closeTo(Date.now(), 5000)
+      expect(roadmap.tasks[0]).to.not.have.property('activity')
+    })
+
+    it('should reject an empty comment', () => {
+      const roadmap = createRoadmap({tasks: [createFeatureTask({id: 'F-001'})]})
+
+      expect(() => taskService.addComment(roadmap, 'F-001', '  ')).to.throw(InvalidTaskError, 'cannot be empty')
+    })
+
+    it('should throw TaskNotFoundError for an unknown task', () => {
+      expect(() => taskService.addComment(createEmptyRoadmap(), 'F-001', 'Hello')).to.throw(TaskNotFoundError)
+    })
+  })
+
+  describe('migrateNotes', () => {
+    it('should turn notes into a first comment dated at the last update', () => {
+      const change = {
+        at: '2026-02-01T00:00:00.000Z',
+        author: 'bob',
+        field: 'status',
+        from: 'not-started',
+        to: 'in-progress',
+        type: 'change',
+      } as const
+      const roadmap = createRoadmap({
+        tasks: [
+          createFeatureTask({
+            activity: [change],
+            id: 'F-001',
+            notes: 'Line 1\nLine 2\n',
+            updatedAt: '2026-01-01T00:00:00.000Z',
+          }),
+          createFeatureTask({id: 'F-002', notes: ''}),
+          createFeatureTask({id: 'F-003', notes: null}),
+        ],
+      })
+
+      const {migrated, roadmap: updatedRoadmap} = taskService.migrateNotes(roadmap)
+
+      expect(migrated).to.deep.equal(['F-001'])
+      expect(updatedRoadmap.tasks[0].activity).to.deep.equal([
+        {at: '2026-01-01T00:00:00.000Z', author: 'unknown', body: 'Line 1\nLine 2', type: 'comment'},
+        change,
+      ])
+      expect(updatedRoadmap.tasks[0].updatedAt).to.equal('2026-01-01T00:00:00.000Z')
+      for (const task of updatedRoadmap.tasks) {
+        expect(task).to.not.have.property('notes')
+      }
+    })
   })
 })
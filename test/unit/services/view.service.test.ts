@@ -0,0 +1,198 @@
+import {expect} from 'chai'
+
+import {QuerySyntaxError, ViewNotFoundError} from '../../../src/errors/index.js'
+import {SortOrder} from '../../../src/services/task-query.service.js'
+import {ViewService} from '../../../src/services/view.service.js'
+import {Config, PRIORITY, STATUS, Task, TASK_TYPE} from '../../../src/util/types.js'
+import {createBugTask, createFeatureTask} from '../../fixtures/task-factory.js'
+
+function ids(tasks: Task[]): string[] {
+  return tasks.map((task) => task.id)
+}
+
+describe('ViewService', () => {
+  let viewService: ViewService
+
+  beforeEach(() => {
+    viewService = new ViewService()
+  })
+
+  const tasks = [
+    createFeatureTask({
+      assignedTo: 'alice',
+      id: 'F-001',
+      priority: PRIORITY.Low,
+      status: STATUS.InProgress,
+      title: 'Login form',
+    }),
+    createBugTask({id: 'B-001', priority: PRIORITY.High, status: STATUS.NotStarted, title: 'Login crash'}),
+    createFeatureTask({
+      assignedTo: 'alice',
+      id: 'F-002',
+      priority: PRIORITY.High,
+      status: STATUS.Completed,
+      title: 'Signup form',
+    }),
+  ]
+
+  describe('apply', () => {
+    it('should return the tasks unchanged for an empty view', () => {
+      expect(ids(viewService.apply(tasks, {}))).to.deep.equal(['F-001', 'B-001', 'F-002'])
+    })
+
+    it('should combine filters, search, where and sort', () => {
+      const result = viewService.apply(tasks, {
+        incomplete: true,
+        search: 'login',
+        sort: ['priority:desc'],
+        where: 'type = bug or assignee = alice',
+      })
+
+      expect(ids(result)).to.deep.equal(['B-001', 'F-001'])
+    })
+
+    it('should sort in descending order when desc is set', () => {
+      expect(ids(viewService.apply(tasks, {desc: true, sort: ['title']}))).to.deep.equal(['F-002', 'F-001', 'B-001'])
+    })
+  })
+
+  describe('describe', () => {
+    it('should render a view as list flags', () => {
+      const text = viewService.describe({
+        assignee: 'alice',
+        format: 'compact',
+        hasDependencies: false,
+        incomplete: true,
+        sort: ['priority:desc', 'dueDate'],
+        where: 'tag = ui',
+      })
+
+      expect(text).to.equal(
+        '--incomplete --assignee=alice --no-has-deps --where="tag = ui" --sort=priority:desc,dueDate --format=compact',
+      )
+    })
+
+    it('should render an empty view as an empty string', () => {
+      expect(viewService.describe({})).to.equal('')
+    })
+  })
+
+  describe('getColumns', () => {
+    it('should return undefined when no columns are set', () => {
+      expect(viewService.getColumns({format: 'table'})).to.be.undefined
+    })
+
+    it('should return valid table columns', () => {
+      expect(viewService.getColumns({columns: ['id', 'title'], format: 'table'})).to.deep.equal(['id', 'title'])
+    })
+
+    it('should reject columns without the table format', () => {
+      expect(() => viewService.getColumns({columns: ['id']})).to.throw('--columns can only be used with --format=table')
+    })
+
+    it('should reject unknown columns', () => {
+      expect(() => viewService.getColumns({columns: ['owner'], format: 'table'})).to.throw('Invalid column: owner')
+    })
+  })
+
+  describe('getSortKeys', () => {
+    it('should parse fields with optional orders', () => {
+      expect(viewService.getSortKeys({desc: true, sort: ['priority', 'title:asc']})).to.deep.equal([
+        {field: 'priority', order: SortOrder.Descending},
+        {field: 'title', order: SortOrder.Ascending},
+      ])
+    })
+
+    it('should reject unknown fields and orders', () => {
+      expect(() => viewService.getSortKeys({sort: ['owner']})).to.throw('Invalid sort field: owner')
+      expect(() => viewService.getSortKeys({sort: ['title:up']})).to.throw('Invalid sort key: title:up')
+    })
+  })
+
+  describe('merge', () => {
+    it('should let overrides replace saved options', () => {
+      expect(viewService.merge({assignee: 'alice', incomplete: true}, {assignee: 'bob'})).to.deep.equal({
+        assignee: 'bob',
+        incomplete: true,
+      })
+    })
+
+    it('should drop saved columns when the overrides switch away from the table format', () => {
+      expect(viewService.merge({columns: ['id'], format: 'table'}, {format: 'compact'})).to.deep.equal({
+        format: 'compact',
+      })
+    })
+
+    it('should keep saved columns for the table format', () => {
+      expect(viewService.merge({columns: ['id'], format: 'table'}, {incomplete: true})).to.deep.equal({
+        columns: ['id'],
+        format: 'table',
+        incomplete: true,
+      })
+    })
+  })
+
+  describe('resolve', () => {
+    const config: Config = {
+      metadata: {description: 'Test', name: 'Test'},
+      path: './prt.json',
+      views: {standup: {incomplete: true}},
+    }
+
+    it('should return a saved view', () => {
+      expect(viewService.resolve(config, 'standup')).to.deep.equal({incomplete: true})
+    })
+
+    it('should throw ViewNotFoundError for an unknown view', () => {
+      expect(() => viewService.resolve(config, 'triage')).to.throw(ViewNotFoundError, 'View not found: triage')
+    })
+
+    it('should not resolve inherited object properties', () => {
+      expect(() => viewService.resolve(config, 'toString')).to.throw(ViewNotFoundError)
+    })
+  })
+
+  describe('toFilterCriteria', () => {
+    it('should map incomplete to the open statuses', () => {
+      expect(viewService.toFilterCriteria({incomplete: true})).to.deep.equal({
+        status: [STATUS.InProgress, STATUS.NotStarted],
+      })
+    })
+
+    it('should prefer an explicit status list over incomplete', () => {
+      expect(viewService.toFilterCriteria({incomplete: true, status: [STATUS.Completed]})).to.deep.equal({
+        status: [STATUS.Completed],
+      })
+    })
+
+    it('should map the remaining filters', () => {
+      expect(
+        viewService.toFilterCriteria({
+          assignee: 'alice',
+          hasBlocks: false,
+          hasDependencies: true,
+          priority: [PRIORITY.High],
+          tags: ['ui'],
+          type: [TASK_TYPE.Bug],
+        }),
+      ).to.deep.equal({
+        assignedTo: 'alice',
+        hasBlocks: false,
+        hasDependencies: true,
+        priority: [PRIORITY.High],
+        tags: ['ui'],
+        type: [TASK_TYPE.Bug],
+      })
+    })
+  })
+
+  describe('validate', () => {
+    it('should reject an invalid where expression', () => {
+      expect(() => viewService.validate({where: 'status = done'})).to.throw(QuerySyntaxError)
+    })
+
+    it('should accept a valid view', () => {
+      expect(() => viewService.validate({sort: ['dueDate'], where: 'status = completed'})).to.not.throw()
+    })
+  })
+})
@@ -0,0 +1,108 @@
+import {expect} from 'chai'
+import {spawnSync} from 'node:child_process'
+import {rm, utimes, writeFile} from 'node:fs/promises'
+import {hostname} from 'node:os'
+import {join} from 'node:path'
+import {setTimeout} from 'node:timers/promises'
+
+import {FileLockTimeoutError} from '../../../src/errors/index.js'
+import {withFileLock} from '../../../src/util/file-lock.js'
+import {cleanupTempDir, createTempDir, fileExists} from '../../helpers/fs-helpers.js'
+
+function lockOwner(pid: number): string {
+  return JSON.stringify({acquiredAt: new Date().toISOString(), hostname: hostname(), pid, token: 'other'})
+}
+
+describe('withFileLock', () => {
+  let tempDir: string
+  let filePath: string
+
+  beforeEach(async () => {
+    tempDir = await createTempDir('file-lock-test-')
+    filePath = join(tempDir, 'prt.json')
+  })
+
+  afterEach(async () => {
+    await cleanupTempDir(tempDir)
+  })
+
+  it('should hold the lock file while running and remove it afterwards', async () => {
+    const result = await withFileLock(filePath, async () => fileExists(`${filePath}.lock`))
+
+    expect(result).to.be.true
+    expect(await fileExists(`${filePath}.lock`)).to.be.false
+  })
+
+  it('should release the lock when the function throws', async () => {
+    try {
+      await withFileLock(filePath, async () => {
+        throw new Error('boom')
+      })
+      expect.fail('Expected withFileLock to throw an error')
+    } catch (error) {
+      expect((error as Error).message).to.equal('boom')
+    }
+
+    expect(await fileExists(`${filePath}.lock`)).to.be.false
+  })
+
+  it('should run concurrent callers one at a time', async () => {
+    const events: string[] = []
+    const critical = async (name: string) => {
+      events.push(`${name} start`)
+      await setTimeout(30)
+      events.push(`${name} end`)
+    }
+
+    await Promise.all([
+      withFileLock(filePath, () => critical('a'), {retryInterval: 5}),
+      withFileLock(filePath, () => critical('b'), {retryInterval: 5}),
+    ])
+
+    expect(events).to.deep.equal(['a start', 'a end', 'b start', 'b end'])
+  })
+
+  it('should wait for a lock held by a running process to be released', async () => {
+    await writeFile(`${filePath}.lock`, lockOwner(process.pid))
+    const release = setTimeout(100).then(() => rm(`${filePath}.lock`))
+
+    const result = await withFileLock(filePath, async () => 'locked', {retryInterval: 10, timeout: 2000})
+    await release
+
+    expect(result).to.equal('locked')
+  })
+
+  it('should time out while a running process holds the lock', async () => {
+    await writeFile(`${filePath}.lock`, lockOwner(process.pid))
+
+    try {
+      await withFileLock(filePath, async () => 'locked', {retryInterval: 10, timeout: 50})
+      expect.fail('Expected withFileLock to throw an error')
+    } catch (error) {
+      expect(error).to.be.instanceOf(FileLockTimeoutError)
+      expect((error as FileLockTimeoutError).context).to.include({holderPid: process.pid})
+    }
+
+    // Someone else's lock is left alone
+    expect(await fileExists(`${filePath}.lock`)).to.be.true
+  })
+
+  it('should break a lock left by a process that no longer runs', async () => {
+    const {pid} = spawnSync(process.execPath, ['-e', ''])
+    await writeFile(`${filePath}.lock`, lockOwner(pid!))
+
+    const result = await withFileLock(filePath, async () => 'locked', {timeout: 50})
+
+    expect(result).to.equal('locked')
+  })
+
+  it('should break a lock older than the stale age', async () => {
+    await writeFile(`${filePath}.lock`, '')
+    const anHourAgo = new Date(Date.now() - 3_600_000)
+    await utimes(`${filePath}.lock`, anHourAgo, anHourAgo)
+
+    const result = await withFileLock(filePath, async () => 'locked', {stale: 60_000, timeout: 50})
+
+    expect(result).to.equal('locked')
+  })
+})
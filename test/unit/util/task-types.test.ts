@@ -0,0 +1,104 @@
+import {expect} from 'chai'
+
+import {ValidationError, ValidationErrorDetail} from '../../../src/errors/index.js'
+import {
+  DEFAULT_TASK_TYPES,
+  describeTaskIdFormat,
+  getTaskIdRegex,
+  getTaskTypes,
+  validateTaskType,
+} from '../../../src/util/task-types.js'
+
+function getTaskTypesErrors(taskTypes: Record<string, string>): ValidationErrorDetail[] {
+  try {
+    getTaskTypes({taskTypes})
+  } catch (error) {
+    expect(error).to.be.instanceOf(ValidationError)
+    return (error as ValidationError).context!.errors as ValidationErrorDetail[]
+  }
+
+  throw new Error('expected getTaskTypes to throw')
+}
+
+describe('task types', () => {
+  describe('getTaskTypes', () => {
+    it('should return the built-in types when none are configured', () => {
+      expect(getTaskTypes()).to.equal(DEFAULT_TASK_TYPES)
+      expect(getTaskTypes({taskTypes: {}})).to.equal(DEFAULT_TASK_TYPES)
+      expect([...DEFAULT_TASK_TYPES]).to.deep.equal([
+        ['bug', 'B'],
+        ['feature', 'F'],
+        ['improvement', 'I'],
+        ['planning', 'P'],
+        ['research', 'R'],
+      ])
+    })
+
+    it('should add custom types after the built-in ones', () => {
+      const taskTypes = getTaskTypes({taskTypes: {chore: 'C', docs: 'D', spike: 'SP'}})
+
+      expect([...taskTypes.keys()]).to.deep.equal([
+        'bug',
+        'feature',
+        'improvement',
+        'planning',
+        'research',
+        'chore',
+        'docs',
+        'spike',
+      ])
+      expect(taskTypes.get('spike')).to.equal('SP')
+    })
+
+    it('should not let a custom type replace a built-in type', () => {
+      const errors = getTaskTypesErrors({bug: 'X'})
+
+      expect(errors).to.deep.equal([
+        {field: 'taskTypes.bug', message: 'bug is a built-in task type', type: 'invalid-value'},
+      ])
+    })
+
+    it('should reject prefixes that are already used', () => {
+      const errors = getTaskTypesErrors({chore: 'F', docs: 'C', spike: 'C'})
+
+      expect(errors.map((detail) => detail.message)).to.deep.equal([
+        'ID prefix F is already used by feature',
+        'ID prefix C is already used by docs',
+      ])
+    })
+
+    it('should reject invalid names and prefixes', () => {
+      const errors = getTaskTypesErrors({Chore: 'C', docs: 'd1'})
+
+      expect(errors.map((detail) => detail.field)).to.deep.equal(['taskTypes.Chore', 'taskTypes.docs'])
+    })
+  })
+
+  describe('getTaskIdRegex', () => {
+    it('should match IDs with any configured prefix', () => {
+      const regex = getTaskIdRegex(getTaskTypes({taskTypes: {spike: 'SP'}}))
+
+      expect(regex.test('SP-001')).to.be.true
+      expect(regex.test('F-1000')).to.be.true
+      expect(regex.test('S-001')).to.be.false
+      expect(regex.test('SP-01')).to.be.false
+    })
+  })
+
+  describe('describeTaskIdFormat', () => {
+    it('should list the prefixes', () => {
+      expect(describeTaskIdFormat()).to.equal('[B|F|I|P|R]-[000-999], with 3 or more digits')
+    })
+  })
+
+  describe('validateTaskType', () => {
+    it('should list the valid types for an unknown type', () => {
+      const taskTypes = getTaskTypes({taskTypes: {chore: 'C'}})
+
+      expect(() => validateTaskType('chore', taskTypes)).to.not.throw()
+      expect(() => validateTaskType('docs', taskTypes)).to.throw(
+        'Invalid task type: docs. Valid types: bug, feature, improvement, planning, research, chore',
+      )
+    })
+  })
+})
@@ -1,5 +1,6 @@
 import {expect} from 'chai'
 
+import {getTaskTypes} from '../../../src/util/task-types.js'
 import {validateTaskID} from '../../../src/util/validate-task-id.js'
 
 describe('validateTaskID', () => {
@@ -43,6 +44,14 @@ describe('validateTaskID', () => {
     it('should accept R-123', () => {
       expect(() => validateTaskID('R-123')).to.not.throw()
     })
+
+    it('should accept IDs beyond 999: F-1000', () => {
+      expect(() => validateTaskID('F-1000')).to.not.throw()
+    })
+
+    it('should accept zero-padded wider IDs: B-0001', () => {
+      expect(() => validateTaskID('B-0001')).to.not.throw()
+    })
   })
 
   describe('invalid task IDs', () => {
@@ -90,14 +99,6 @@ describe('validateTaskID', () => {
       expect(() => validateTaskID('F-42')).to.throw('task ID F-42 is not valid')
     })
 
-    it('should reject too many digits B-0001', () => {
-      expect(() => validateTaskID('B-0001')).to.throw('task ID B-0001 is not valid')
-    })
-
-    it('should reject too many digits F-1234', () => {
-      expect(() => validateTaskID('F-1234')).to.throw('task ID F-1234 is not valid')
-    })
-
     it('should reject empty string', () => {
       expect(() => validateTaskID('')).to.throw('task ID  is not valid')
     })
@@ -148,4 +149,21 @@ describe('validateTaskID', () => {
       expect(() => validateTaskID('B--001')).to.throw('task ID B--001 is not valid')
     })
   })
+
+  describe('custom task types', () => {
+    const taskTypes = getTaskTypes({taskTypes: {chore: 'C', spike: 'SP'}})
+
+    it('should accept IDs with a configured custom prefix', () => {
+      expect(() => validateTaskID('C-001', taskTypes)).to.not.throw()
+      expect(() => validateTaskID('SP-0042', taskTypes)).to.not.throw()
+      expect(() => validateTaskID('F-001', taskTypes)).to.not.throw()
+    })
+
+    it('should reject custom prefixes that are not configured', () => {
+      expect(() => validateTaskID('C-001')).to.throw('task ID C-001 is not valid')
+      expect(() => validateTaskID('X-001', taskTypes)).to.throw(
+        'Must match format: [B|F|I|P|R|C|SP]-[000-999], with 3 or more digits',
+      )
+    })
+  })
 })
@@ -1,8 +1,10 @@
 import {expect} from 'chai'
 
 import {InvalidTaskError} from '../../../src/errors/index.js'
+import {getTaskTypes} from '../../../src/util/task-types.js'
 import {PRIORITY, STATUS, Task, TASK_TYPE} from '../../../src/util/types.js'
 import {validateTask} from '../../../src/util/validate-task.js'
+import {getWorkflow} from '../../../src/util/workflow.js'
 import {
   createBugTask,
   createFeatureTask,
@@ -81,9 +83,9 @@ describe('validateTask', () => {
       expect(() => validateTask(task)).to.throw('task ID F-1 is not valid')
     })
 
-    it('should reject task with too many digits', () => {
-      const task = createTask({id: 'F-0001' as any})
-      expect(() => validateTask(task)).to.throw('task ID F-0001 is not valid')
+    it('should accept task IDs with more than three digits', () => {
+      expect(() => validateTask(createTask({id: 'F-0001'}))).to.not.throw()
+      expect(() => validateTask(createTask({id: 'F-1000'}))).to.not.throw()
     })
   })
 
@@ -115,6 +117,16 @@ describe('validateTask', () => {
   })
 
   describe('enum validation - type', () => {
+    it('should accept a custom type with its own ID prefix when it is configured', () => {
+      const task = createTask({id: 'D-001', type: 'docs'})
+      expect(() => validateTask(task, {taskTypes: getTaskTypes({taskTypes: {docs: 'D'}})})).to.not.throw()
+    })
+
+    it('should reject a custom type that is not configured', () => {
+      const task = createTask({id: 'F-001', type: 'docs'})
+      expect(() => validateTask(task)).to.throw('has invalid type: docs')
+    })
+
     it('should accept all valid type values - bug', () => {
       const task = createTask({type: TASK_TYPE.Bug})
       expect(() => validateTask(task)).to.not.throw()
@@ -239,6 +251,13 @@ describe('validateTask', () => {
       expect(() => validateTask(task)).to.throw('has invalid status: done')
     })
 
+    it('should accept a custom status when the workflow declares it', () => {
+      const task = createTask({status: 'blocked'})
+      const workflow = getWorkflow({workflow: {statuses: {blocked: {symbol: '!'}}}})
+      expect(() => validateTask(task, {workflow})).to.not.throw()
+      expect(() => validateTask(task)).to.throw('has invalid status: blocked')
+    })
+
     it('should reject uppercase status value', () => {
       const task = createTask({status: 'COMPLETED' as any})
       expect(() => validateTask(task)).to.throw('has invalid status: COMPLETED')
@@ -0,0 +1,167 @@
+import {expect} from 'chai'
+
+import {InvalidStatusTransitionError, ValidationError, ValidationErrorDetail} from '../../../src/errors/index.js'
+import {STATUS, WorkflowConfig} from '../../../src/util/types.js'
+import {
+  DEFAULT_WORKFLOW,
+  getNextStatuses,
+  getWorkflow,
+  validateStatus,
+  validateStatusChange,
+} from '../../../src/util/workflow.js'
+import {createFeatureTask} from '../../fixtures/task-factory.js'
+
+const reviewWorkflow: WorkflowConfig = {
+  statuses: {
+    blocked: {symbol: '!'},
+    cancelled: {symbol: 'x'},
+    'in-review': {symbol: '?'},
+  },
+  transitions: [
+    {from: STATUS.NotStarted, to: [STATUS.InProgress, 'blocked']},
+    {from: STATUS.NotStarted, requires: ['passes-tests'], to: STATUS.Completed},
+    {from: [STATUS.InProgress, 'blocked'], to: [STATUS.InProgress, 'blocked', 'in-review']},
+    {from: 'in-review', to: [STATUS.Completed, STATUS.InProgress]},
+    {from: '*', to: 'cancelled'},
+  ],
+}
+
+function getWorkflowErrors(workflow: WorkflowConfig): ValidationErrorDetail[] {
+  try {
+    getWorkflow({workflow})
+  } catch (error) {
+    expect(error).to.be.instanceOf(ValidationError)
+    return (error as ValidationError).context!.errors as ValidationErrorDetail[]
+  }
+
+  throw new Error('expected getWorkflow to throw')
+}
+
+describe('workflow', () => {
+  describe('getWorkflow', () => {
+    it('should return the built-in workflow when none is configured', () => {
+      expect(getWorkflow()).to.equal(DEFAULT_WORKFLOW)
+      expect([...DEFAULT_WORKFLOW.statuses]).to.deep.equal([
+        ['completed', '✓'],
+        ['in-progress', '~'],
+        ['not-started', '○'],
+      ])
+      expect(DEFAULT_WORKFLOW.transitions).to.be.undefined
+    })
+
+    it('should add custom statuses after the built-in ones', () => {
+      const workflow = getWorkflow({workflow: reviewWorkflow})
+
+      expect([...workflow.statuses.keys()]).to.deep.equal([
+        'completed',
+        'in-progress',
+        'not-started',
+        'blocked',
+        'cancelled',
+        'in-review',
+      ])
+      expect(workflow.transitions).to.have.lengthOf(5)
+    })
+
+    it('should let the built-in statuses use other symbols', () => {
+      const workflow = getWorkflow({workflow: {statuses: {completed: {symbol: '●'}}}})
+
+      expect(workflow.statuses.get('completed')).to.equal('●')
+    })
+
+    it('should reject invalid status names', () => {
+      expect(getWorkflowErrors({statuses: {'In Review': {symbol: '?'}}})).to.deep.equal([
+        {
+          field: 'workflow.statuses.In Review',
+          message: 'Invalid status name: In Review. Use lowercase letters, digits and -',
+          type: 'invalid-value',
+        },
+      ])
+    })
+
+    it('should reject transitions between unknown statuses', () => {
+      const errors = getWorkflowErrors({transitions: [{from: 'not-started', to: 'blocked'}]})
+
+      expect(errors).to.have.lengthOf(1)
+      expect(errors[0]).to.include({field: 'workflow.transitions[0]'})
+      expect(errors[0].message).to.include('Unknown status: blocked')
+    })
+  })
+
+  describe('validateStatus', () => {
+    it('should list the valid statuses for an unknown status', () => {
+      expect(() => validateStatus('blocked')).to.throw(
+        'Invalid status: blocked. Valid statuses: completed, in-progress, not-started',
+      )
+      expect(() => validateStatus('blocked', getWorkflow({workflow: reviewWorkflow}))).to.not.throw()
+    })
+  })
+
+  describe('getNextStatuses', () => {
+    it('should allow every other status without transitions', () => {
+      expect(getNextStatuses(STATUS.NotStarted)).to.deep.equal(['completed', 'in-progress'])
+    })
+
+    it('should follow the configured transitions, including wildcards', () => {
+      const workflow = getWorkflow({workflow: reviewWorkflow})
+
+      expect(getNextStatuses(STATUS.NotStarted, workflow)).to.deep.equal([
+        'completed',
+        'in-progress',
+        'blocked',
+        'cancelled',
+      ])
+      expect(getNextStatuses('cancelled', workflow)).to.deep.equal([])
+    })
+  })
+
+  describe('validateStatusChange', () => {
+    const workflow = getWorkflow({workflow: reviewWorkflow})
+
+    it('should allow any change without transitions', () => {
+      const task = createFeatureTask({id: 'F-001', status: STATUS.Completed})
+
+      expect(() => validateStatusChange(task, {status: STATUS.NotStarted})).to.not.throw()
+    })
+
+    it('should ignore updates that keep the status', () => {
+      const task = createFeatureTask({id: 'F-001', status: 'cancelled'})
+
+      expect(() => validateStatusChange(task, {notes: 'still cancelled', status: 'cancelled'}, workflow)).to.not.throw()
+    })
+
+    it('should reject a transition the workflow does not list', () => {
+      const task = createFeatureTask({id: 'F-001', status: STATUS.InProgress})
+
+      expect(() => validateStatusChange(task, {status: STATUS.Completed}, workflow))
+        .to.throw(InvalidStatusTransitionError)
+        .with.property(
+          'message',
+          'Cannot change task F-001 from in-progress to completed: not an allowed transition (allowed: blocked, cancelled, in-review)',
+        )
+    })
+
+    it('should enforce the requirements of a transition on the updated task', () => {
+      const task = createFeatureTask({id: 'F-001', 'passes-tests': false, status: STATUS.NotStarted})
+
+      expect(() => validateStatusChange(task, {status: STATUS.Completed}, workflow)).to.throw(
+        'Cannot change task F-001 from not-started to completed: requires passes-tests',
+      )
+      expect(() =>
+        validateStatusChange(task, {'passes-tests': true, status: STATUS.Completed}, workflow),
+      ).to.not.throw()
+    })
+
+    it('should allow wildcard transitions from any status', () => {
+      const task = createFeatureTask({id: 'F-001', status: 'in-review'})
+
+      expect(() => validateStatusChange(task, {status: 'cancelled'}, workflow)).to.not.throw()
+    })
+
+    it('should reject unknown statuses', () => {
+      const task = createFeatureTask({id: 'F-001', status: STATUS.NotStarted})
+
+      expect(() => validateStatusChange(task, {status: 'archived'}, workflow)).to.throw('Invalid status: archived')
+    })
+  })
+})
@@ -0,0 +1,65 @@
+import {expect} from 'chai'
+import {chmod, mkdir, readdir, readFile, stat, writeFile} from 'node:fs/promises'
+import {join} from 'node:path'
+
+import {writeFileAtomic} from '../../../src/util/write-file-atomic.js'
+import {cleanupTempDir, createTempDir} from '../../helpers/fs-helpers.js'
+
+describe('writeFileAtomic', () => {
+  let tempDir: string
+
+  beforeEach(async () => {
+    tempDir = await createTempDir('write-file-atomic-test-')
+  })
+
+  afterEach(async () => {
+    await cleanupTempDir(tempDir)
+  })
+
+  it('should create a new file', async () => {
+    const filePath = join(tempDir, 'prt.json')
+
+    await writeFileAtomic(filePath, '{"tasks": []}')
+
+    expect(await readFile(filePath, 'utf8')).to.equal('{"tasks": []}')
+  })
+
+  it('should replace an existing file, keeping its permissions', async function () {
+    if (process.platform === 'win32') {
+      this.skip()
+      return
+    }
+
+    const filePath = join(tempDir, 'prt.json')
+    await writeFile(filePath, 'old content')
+    await chmod(filePath, 0o600)
+
+    await writeFileAtomic(filePath, 'new content')
+
+    expect(await readFile(filePath, 'utf8')).to.equal('new content')
+    expect((await stat(filePath)).mode.toString(8)).to.match(/600$/)
+  })
+
+  it('should leave no temporary files behind', async () => {
+    const filePath = join(tempDir, 'prt.json')
+
+    await writeFileAtomic(filePath, 'first')
+    await writeFileAtomic(filePath, 'second')
+
+    expect(await readdir(tempDir)).to.deep.equal(['prt.json'])
+  })
+
+  it('should remove the temporary file when the rename fails', async () => {
+    const dirPath = join(tempDir, 'is-directory')
+    await mkdir(dirPath)
+
+    try {
+      await writeFileAtomic(dirPath, 'content')
+      expect.fail('Expected writeFileAtomic to throw an error')
+    } catch (error) {
+      expect((error as NodeJS.ErrnoException).code).to.be.oneOf(['EISDIR', 'EPERM', 'ENOTEMPTY', 'EEXIST'])
+    }
+
+    expect(await readdir(tempDir)).to.deep.equal(['is-directory'])
+  })
+})
@@ -1,7 +1,9 @@
 import {expect} from 'chai'
-import {chmod, mkdir, readFile, writeFile} from 'node:fs/promises'
+import {chmod, mkdir, readdir, readFile, writeFile} from 'node:fs/promises'
 import {join} from 'node:path'
 
+import {ConcurrentModificationError} from '../../../src/errors/index.js'
+import {readRoadmapFile} from '../../../src/util/read-roadmap.js'
 import {writeRoadmapFile} from '../../../src/util/write-roadmap.js'
 import {createComplexRoadmap, createEmptyRoadmap, createSimpleRoadmap} from '../../fixtures/roadmap-factory.js'
 import {assertRoadmapValid} from '../../helpers/assertions.js'
@@ -177,6 +179,50 @@ describe('writeRoadmapFile', () => {
     })
   })
 
+  describe('concurrent writes', () => {
+    it('should leave no lock or temporary files behind', async () => {
+      const filePath = join(tempDir, 'prt.json')
+
+      await Promise.all([
+        writeRoadmapFile(filePath, createEmptyRoadmap()),
+        writeRoadmapFile(filePath, createSimpleRoadmap()),
+      ])
+
+      expect(await readdir(tempDir)).to.deep.equal(['prt.json'])
+      assertRoadmapValid(JSON.parse(await readFile(filePath, 'utf8')))
+    })
+  })
+
+  describe('changes made by another process', () => {
+    it('should write after reading the file', async () => {
+      const filePath = join(tempDir, 'prt.json')
+      await writeFile(filePath, JSON.stringify(createEmptyRoadmap(), null, 2), 'utf8')
+
+      const roadmap = await readRoadmapFile(filePath)
+      await writeRoadmapFile(filePath, {...roadmap, tasks: createSimpleRoadmap().tasks})
+      await writeRoadmapFile(filePath, roadmap)
+
+      expect(JSON.parse(await readFile(filePath, 'utf8'))).to.deep.equal(roadmap)
+    })
+
+    it('should refuse to write when the file changed since it was read', async () => {
+      const filePath = join(tempDir, 'prt.json')
+      await writeFile(filePath, JSON.stringify(createEmptyRoadmap(), null, 2), 'utf8')
+      const roadmap = await readRoadmapFile(filePath)
+      const external = JSON.stringify(createSimpleRoadmap(), null, 2)
+      await writeFile(filePath, external, 'utf8')
+
+      try {
+        await writeRoadmapFile(filePath, roadmap)
+        expect.fail('Expected writeRoadmapFile to throw an error')
+      } catch (error) {
+        expect(error).to.be.instanceOf(ConcurrentModificationError)
+      }
+
+      expect(await readFile(filePath, 'utf8')).to.equal(external)
+    })
+  })
+
   describe('parent directory creation', () => {
     it('should create parent directories if needed', async () => {
       const roadmap = createEmptyRoadmap()